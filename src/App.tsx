@@ -6,68 +6,160 @@
  *
  * The form generates structured JSON data that can be stored, exported,
  * and later consumed by the Restoration Calculator backend.
+ *
+ * The interface language comes from the user preferences and is provided
+ * to every component through I18nContext.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { RestorationForm, SavedModelsPanel } from "./components";
-import type { RestorationModel } from "./types";
+import { LanguageSwitcher } from "./components/LanguageSwitcher";
+import { I18nContext, type I18nContextValue } from "./hooks";
+import type { Locale } from "./types";
 import type { RestorationModelFormData } from "./schemas";
+import { migrateModel, type MigrationChange, type MigrationResult } from "./utils/migrations";
+import { loadDraft, clearDraft, type SavedModel } from "./utils/storage";
+import { libraryEntryName } from "./utils/library";
+import type { ModelDraft } from "./utils/modelStore";
+import { loadPreferences, savePreferences } from "./utils/preferences";
+import { setLocale as setActiveLocale, t, formatDateTime } from "./utils/i18n";
 import "./App.css";
 
 function App() {
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const { locale: stored } = loadPreferences();
+    setActiveLocale(stored);
+    return stored;
+  });
+  const i18n = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale: (next: Locale) => {
+        setActiveLocale(next);
+        savePreferences({ locale: next });
+        setLocaleState(next);
+      },
+    }),
+    [locale],
+  );
   const [savedKey, setSavedKey] = useState(0);
+  const [libraryKey, setLibraryKey] = useState(0);
+  const [libraryEntry, setLibraryEntry] = useState<{ id: string; name: string } | null>(null);
   const [initialData, setInitialData] = useState<
     Partial<RestorationModelFormData> | undefined
   >(undefined);
+  const [initialChanges, setInitialChanges] = useState<MigrationChange[]>([]);
+  // Draft found at launch; autosave stays off until it is restored or discarded
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<ModelDraft | null>(null);
 
-  // Force re-render of saved models panel after a save
-  const handleSaved = useCallback(() => {
-    setSavedKey((k) => k + 1);
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    loadDraft().then((draft) => {
+      setPendingDraft(draft);
+      setDraftChecked(true);
+    });
+  }, []);
+
+  // Refresh the saved models panel after a save (the form keeps its state)
+  const handleSaved = useCallback((entry: SavedModel) => {
+    setLibraryEntry({ id: entry.id, name: libraryEntryName(entry) });
+    setLibraryKey((k) => k + 1);
   }, []);
 
-  // Load a saved model into the form
-  const handleLoad = useCallback((data: RestorationModel) => {
+  // Load a model (already migrated) into the form; `entry` when it comes from the library
+  const handleLoad = useCallback(({ data, changes }: MigrationResult, entry?: SavedModel) => {
     setInitialData(data as unknown as RestorationModelFormData);
+    setInitialChanges(changes);
+    setLibraryEntry(entry ? { id: entry.id, name: libraryEntryName(entry) } : null);
     // Force form re-mount to apply new defaults
     setSavedKey((k) => k + 1);
   }, []);
 
+  // The draft is kept until the restored form is edited (autosave replaces it)
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    try {
+      handleLoad(migrateModel({ ...pendingDraft.data, schemaVersion: pendingDraft.schemaVersion }));
+    } catch (err) {
+      alert(t("Could not restore the draft: {error}", { error: err instanceof Error ? err.message : String(err) }));
+    }
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft().catch(() => undefined);
+    setPendingDraft(null);
+  };
+
   return (
-    <div className="app">
-      <header className="app-header">
-        <div className="app-header-inner">
-          <img
-            src="/assets/calculator-icon-green.png"
-            alt="Restoration Calculator icon"
-            className="app-header-logo"
-          />
-          <div>
-            <h1>Restoration Cost-Benefit Questionnaire</h1>
-            <p className="app-subtitle">
-              A project by{" "}
-              <a
-                href="https://www.conservation-strategy.org/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="app-header-link"
-              >
-                Conservation Strategy Fund
-              </a>
-            </p>
+    <I18nContext.Provider value={i18n}>
+      <div className="app">
+        <header className="app-header">
+          <LanguageSwitcher />
+          <div className="app-header-inner">
+            <img
+              src="/assets/calculator-icon-green.png"
+              alt={t("Restoration Calculator icon")}
+              className="app-header-logo"
+            />
+            <div>
+              <h1>{t("Restoration Cost-Benefit Questionnaire")}</h1>
+              <p className="app-subtitle">
+                {t("A project by")}{" "}
+                <a
+                  href="https://www.conservation-strategy.org/"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="app-header-link"
+                >
+                  Conservation Strategy Fund
+                </a>
+              </p>
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <main className="app-main">
-        {/* key forces remount when loading a saved model */}
-        <RestorationForm
-          key={savedKey}
-          initialData={initialData}
-          onSaved={handleSaved}
-        />
-        <SavedModelsPanel key={`saved-${savedKey}`} onLoad={handleLoad} />
-      </main>
-    </div>
+        <main className="app-main">
+          {pendingDraft && (
+            <div className="info-box" style={{ marginBottom: "1.25rem" }}>
+              <div className="info-box-header">
+                <strong>{t("Unsaved draft found")}</strong>
+              </div>
+              <div className="info-box-body">
+                <p>
+                  {t("A questionnaire autosaved on {date}{ecosystem} was not saved or exported. Restore it to continue where you left off.", {
+                    date: formatDateTime(pendingDraft.savedAt),
+                    ecosystem: pendingDraft.data.ecosystem ? ` (${t(pendingDraft.data.ecosystem)})` : "",
+                  })}
+                </p>
+                <div style={{ display: "flex", gap: "0.5rem" }}>
+                  <button type="button" className="btn btn--primary btn--small" onClick={handleRestoreDraft}>
+                    {t("Restore draft")}
+                  </button>
+                  <button type="button" className="btn btn--secondary btn--small" onClick={handleDiscardDraft}>
+                    {t("Discard")}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+          {/* key forces remount when loading a saved model */}
+          <RestorationForm
+            key={savedKey}
+            initialData={initialData}
+            initialChanges={initialChanges}
+            autosave={draftChecked && !pendingDraft}
+            libraryEntry={libraryEntry}
+            onSaved={handleSaved}
+          />
+          <SavedModelsPanel key={`saved-${savedKey}-${libraryKey}`} onLoad={handleLoad} />
+        </main>
+      </div>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,196 @@
+/**
+ * AggregationPanel – Ecosystem-level reference values from many respondents.
+ *
+ * Starts from the questionnaires selected in the library; more can be added
+ * from exported JSON or Excel files. Each respondent gets an editable weight.
+ * For the chosen ecosystem × country × method group, shows the weighted
+ * statistics of every field with each respondent's value beside them, and
+ * exports the whole aggregation as an "Aggregated" workbook. The groups can
+ * also be kept as the reference ranges used by the form's outlier check.
+ */
+
+import { useMemo, useState } from "react";
+import { X, Download, FileUp, Target } from "lucide-react";
+import type { RestorationModel } from "../types";
+import type { SavedModel } from "../utils/storage";
+import { importFromXlsx } from "../utils/storage";
+import { migrateModel } from "../utils/migrations";
+import { libraryEntryName } from "../utils/library";
+import {
+  aggregateRespondents,
+  exportAggregatedToXlsx,
+  spreadPosition,
+  type AggregationRespondent,
+} from "../utils/aggregation";
+import { rangesFromAggregation, saveAggregatedRanges } from "../utils/outliers";
+import { formatNumber, translateMessage } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { SummaryTable } from "./ui";
+
+const POSITION_MARK = { below: " ▼", within: "", above: " ▲" } as const;
+
+function fmtNum(n: number): string {
+  return formatNumber(n, { maximumFractionDigits: 2 });
+}
+
+function fromSaved(m: SavedModel): AggregationRespondent {
+  let data: RestorationModel = m.data;
+  try {
+    data = migrateModel({ ...m.data, schemaVersion: m.schemaVersion ?? m.data.schemaVersion }).data;
+  } catch {
+    // Newer than this app: aggregate the data as stored
+  }
+  return { id: m.id, label: libraryEntryName(m), weight: 1, data };
+}
+
+/** Read an exported JSON or Excel questionnaire into its model. */
+async function readQuestionnaireFile(file: File): Promise<RestorationModel> {
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    return importFromXlsx(await file.arrayBuffer()).data;
+  }
+  return migrateModel(JSON.parse(await file.text())).data;
+}
+
+interface Props {
+  entries: SavedModel[];
+  onClose: () => void;
+}
+
+export function AggregationPanel({ entries, onClose }: Props) {
+  const { t } = useI18n();
+  const [respondents, setRespondents] = useState<AggregationRespondent[]>(() => entries.map(fromSaved));
+  const [groupKey, setGroupKey] = useState("");
+
+  const groups = useMemo(() => aggregateRespondents(respondents), [respondents]);
+  const group = groups.find((g) => g.key === groupKey) ?? groups[0];
+  const labels = new Map(respondents.map((r) => [r.id, r.label]));
+
+  const setWeight = (id: string, weight: number) =>
+    setRespondents((prev) => prev.map((r) => (r.id === id ? { ...r, weight } : r)));
+
+  const removeRespondent = (id: string) => setRespondents((prev) => prev.filter((r) => r.id !== id));
+
+  const handleAddFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = "";
+    const added: AggregationRespondent[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        added.push({ id: `file-${Date.now()}-${added.length}-${file.name}`, label: file.name, weight: 1, data: await readQuestionnaireFile(file) });
+      } catch (err) {
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setRespondents((prev) => [...prev, ...added]);
+    if (failed.length > 0) alert(`${t("Could not read:")}\n${failed.join("\n")}`);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    exportAggregatedToXlsx(groups, respondents, `restoration_aggregated_${respondents.length}_respondents_${date}.xlsx`);
+  };
+
+  const handleUseAsReference = () => {
+    const ranges = rangesFromAggregation(groups);
+    if (ranges.length === 0) {
+      alert(t("No group has enough respondents (at least 3 with a positive weight) to derive reference ranges."));
+      return;
+    }
+    if (!window.confirm(t("Replace the stored aggregated reference ranges with {count} ranges from these respondents?", { count: ranges.length }))) return;
+    saveAggregatedRanges(ranges);
+  };
+
+  return (
+    <div className="cba-chart-block comparison-panel">
+      <div className="comparison-header">
+        <h4 className="cba-chart-title">{t("Aggregating {count} respondents", { count: respondents.length })}</h4>
+        <div className="saved-item-actions">
+          <label className="btn btn--small btn--secondary" title={t("Add exported JSON or Excel questionnaires")}>
+            <FileUp size={14} /> {t("Add files")}
+            <input type="file" accept=".json,.xlsx" multiple onChange={handleAddFiles} style={{ display: "none" }} />
+          </label>
+          <button type="button" className="btn btn--small btn--primary" disabled={groups.length === 0} onClick={handleExport}>
+            <Download size={14} /> {t("Export Aggregated")}
+          </button>
+          <button
+            type="button"
+            className="btn btn--small btn--secondary"
+            disabled={groups.length === 0}
+            onClick={handleUseAsReference}
+            title={t("Use these groups as reference ranges for the outlier check (Q1 − 1.5·IQR to Q3 + 1.5·IQR)")}
+          >
+            <Target size={14} /> {t("Use as reference ranges")}
+          </button>
+          <button type="button" className="btn btn--small btn--secondary" onClick={onClose} title={t("Close aggregation")}>
+            <X size={14} /> {t("Close")}
+          </button>
+        </div>
+      </div>
+
+      {/* ── Respondents & weights ───────────────────────────── */}
+      <ul className="saved-list">
+        {respondents.map((r) => (
+          <li key={r.id} className="saved-item">
+            <div className="saved-item-info">
+              <strong>{r.label}</strong>
+              <span className="saved-item-date">
+                {[r.data.ecosystem, r.data.country, r.data.respondentName].filter(Boolean).join(" · ") || t("No identification")}
+              </span>
+            </div>
+            <label className="saved-toolbar-range">
+              {t("Weight")}
+              <input
+                className="form-input"
+                type="number"
+                min="0"
+                step="0.1"
+                style={{ width: "5rem" }}
+                value={r.weight}
+                onChange={(e) => setWeight(r.id, e.target.value === "" ? 0 : Math.max(0, Number(e.target.value)))}
+              />
+            </label>
+            <button type="button" className="btn btn--small btn--danger" onClick={() => removeRespondent(r.id)} title={t("Remove from aggregation")}>
+              <X size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {group ? (
+        <>
+          <div className="form-field" style={{ maxWidth: "640px", marginTop: "0.75rem" }}>
+            <label className="form-label">{t("Group (ecosystem · country · method)")}</label>
+            <select className="form-input" value={group.key} onChange={(e) => setGroupKey(e.target.value)}>
+              {groups.map((g) => (
+                <option key={g.key} value={g.key}>
+                  {[g.ecosystem ? t(g.ecosystem) : "—", g.country || "—", t(g.methodLabel)].join(" · ")} ({g.respondentIds.length})
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="cba-chart-hint">
+            {t("Weighted statistics over the group's respondents. ▲ / ▼ mark a respondent's value above / below the group's interquartile range (Q1–Q3).")}
+          </p>
+          <SummaryTable
+            caption={`${t(group.methodLabel)} — ${group.ecosystem ? t(group.ecosystem) : t("no ecosystem")}, ${group.country || t("no country")}`}
+            headers={[t("Field"), t("Mean"), t("Median"), t("IQR (Q1–Q3)"), t("Min"), t("Max"), ...group.respondentIds.map((id) => labels.get(id) ?? id)]}
+            rows={group.fields.map((f) => ({
+              label: translateMessage(f.label),
+              values: [
+                fmtNum(f.stats.mean),
+                fmtNum(f.stats.median),
+                `${fmtNum(f.stats.iqr)} (${fmtNum(f.stats.q1)}–${fmtNum(f.stats.q3)})`,
+                fmtNum(f.stats.min),
+                fmtNum(f.stats.max),
+                ...f.values.map((v) => (v === null ? "—" : `${fmtNum(v)}${POSITION_MARK[spreadPosition(v, f.stats)]}`)),
+              ],
+            }))}
+          />
+        </>
+      ) : (
+        <p className="form-empty">{t("No answered method to aggregate. Add respondents with a positive weight.")}</p>
+      )}
+    </div>
+  );
+}
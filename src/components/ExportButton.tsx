@@ -1,7 +1,7 @@
 /**
  * ExportButton — Exports the current model data as an .xlsx file.
  *
- * Sheet structure: see src/utils/storage.ts (Data + Metadata).
+ * Sheet structure: see src/utils/storage.ts (Data + Metadata + Flagged Fields + Validation).
  */
 
 import { Download } from "lucide-react";
@@ -10,6 +10,7 @@ import type { RestorationModel } from "../types";
 import { generateExportFilename } from "../utils";
 import { exportToXlsxFile } from "../utils/storage";
 import { getMethodLabel } from "../constants";
+import { useI18n } from "../hooks/useI18n";
 
 interface Props {
   data: RestorationModelFormData;
@@ -19,6 +20,7 @@ interface Props {
 
 export function ExportButton({ data, disabled, onDisabledClick }: Props) {
   const filename = generateExportFilename(data.ecosystem, getMethodLabel(data.methodType));
+  const { t } = useI18n();
 
   const handleXlsx = () => {
     if (disabled) { onDisabledClick?.(); return; }
@@ -31,7 +33,7 @@ export function ExportButton({ data, disabled, onDisabledClick }: Props) {
       className={`btn btn--success${disabled ? " btn--faded" : ""}`}
       onClick={handleXlsx}
     >
-      <Download size={16} /> Export Excel
+      <Download size={16} /> {t("Export Excel")}
     </button>
   );
 }
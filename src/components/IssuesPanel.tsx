@@ -0,0 +1,82 @@
+/**
+ * IssuesPanel – Consolidated list of rule-registry issues above the action bar.
+ *
+ * Shows the count per severity; expanding lists every issue with a link that
+ * opens the section (and method tab) holding its first field and focuses it.
+ */
+
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, Info, CheckCircle2 } from "lucide-react";
+import { useValidationIssues, jumpToField, useI18n } from "../hooks";
+import { countBySeverity, type RuleIssue, type RuleSeverity } from "../utils/rules";
+import { getMethodLabel } from "../constants";
+import { translateMessage } from "../utils/i18n";
+
+const SEVERITY_META: Record<RuleSeverity, { one: string; other: string; icon: typeof AlertCircle }> = {
+  error: { one: "{count} error", other: "{count} errors", icon: AlertCircle },
+  warning: { one: "{count} warning", other: "{count} warnings", icon: AlertTriangle },
+  info: { one: "{count} note", other: "{count} notes", icon: Info },
+};
+
+/** Message prefixed with its method, unless the message already names it. */
+function issueText(issue: RuleIssue, t: (message: string) => string): string {
+  const message = translateMessage(issue.message);
+  if (!issue.target.methodId) return message;
+  const label = t(getMethodLabel(issue.target.methodId));
+  return message.startsWith(label) ? message : `${label}: ${message}`;
+}
+
+export function IssuesPanel() {
+  const issues = useValidationIssues();
+  const [expanded, setExpanded] = useState(false);
+  const { t } = useI18n();
+  const counts = countBySeverity(issues);
+
+  if (issues.length === 0) {
+    return (
+      <div className="issues-panel">
+        <div className="issues-panel-header issue-note--info">
+          <CheckCircle2 size={14} /> {t("No issues found by the consistency checks.")}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="issues-panel">
+      <div className="issues-panel-header">
+        <strong>{t("Issues")}</strong>
+        {(Object.keys(SEVERITY_META) as RuleSeverity[])
+          .filter((s) => counts[s] > 0)
+          .map((s) => {
+            const { one, other, icon: Icon } = SEVERITY_META[s];
+            return (
+              <span key={s} className={`issue-badge issue-badge--${s}`}>
+                <Icon size={12} /> {t(counts[s] === 1 ? one : other, { count: counts[s] })}
+              </span>
+            );
+          })}
+        <button type="button" className="btn btn--small btn--secondary" onClick={() => setExpanded((v) => !v)}>
+          {expanded ? t("Hide") : t("Show all")}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="issues-panel-list">
+          {issues.map((issue, i) => {
+            const Icon = SEVERITY_META[issue.severity].icon;
+            return (
+              <li key={`${issue.ruleId}-${issue.fields[0]}-${i}`}>
+                <span className={`issue-note issue-note--${issue.severity}`} title={issue.ruleId}>
+                  <Icon size={13} /> {issueText(issue, t)}
+                </span>
+                <button type="button" className="issues-panel-jump" onClick={() => jumpToField(issue.fields[0])}>
+                  {t("Go to field")}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
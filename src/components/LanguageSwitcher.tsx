@@ -0,0 +1,30 @@
+/**
+ * LanguageSwitcher – Interface language picker in the app header.
+ *
+ * The choice is saved with the user preferences; questionnaire data and
+ * export column IDs are unaffected.
+ */
+
+import { Languages } from "lucide-react";
+import type { Locale } from "../types";
+import { SUPPORTED_LOCALES } from "../constants";
+import { useI18n } from "../hooks";
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className="language-switcher" title={t("Interface language")}>
+      <Languages size={16} />
+      <select
+        className="language-switcher-select"
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t("Interface language")}
+      >
+        {SUPPORTED_LOCALES.map((l) => (
+          <option key={l.id} value={l.id}>{l.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * ModelComparisonPanel – Side-by-side view of two or more saved questionnaires.
+ *
+ * For the chosen method, lists each expert's answers (implementation,
+ * maintenance by activity, NTFP, context constraints, labor) in one column
+ * per model, highlights rows whose spread exceeds the threshold, and
+ * overlays the cumulative discounted cash flows (ending at each NPV).
+ */
+
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { X } from "lucide-react";
+import type { MethodType, RestorationModel } from "../types";
+import type { SavedModel } from "../utils/storage";
+import { migrateModel } from "../utils/migrations";
+import { libraryEntryName } from "../utils/library";
+import { compareModels, compareCBA, cashFlowOverlay } from "../utils/comparison";
+import { METHOD_KEYS } from "../utils/cba";
+import { COMPARISON_DIFF_THRESHOLD_PCT, getMethodLabel } from "../constants";
+import { formatCurrency, formatNumber, translateMessage } from "../utils/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { SummaryTable } from "./ui";
+
+const SERIES_COLOURS = ["#4E8465", "#2596be", "#c0392b", "#f59e0b", "#8e44ad", "#1a5c8a", "#b45309", "#2196a8"];
+
+function fmtUSD(n: number): string {
+  return formatCurrency(n, "USD", 0);
+}
+
+function fmtValue(v: number | null, unit: string): string {
+  if (v === null) return "—";
+  if (unit.startsWith("US$")) return fmtUSD(v);
+  return formatNumber(v, { maximumFractionDigits: 2 });
+}
+
+interface Props {
+  entries: SavedModel[];
+  onClose: () => void;
+}
+
+export function ModelComparisonPanel({ entries, onClose }: Props) {
+  const { t } = useI18n();
+  const names = entries.map(libraryEntryName);
+  const models = useMemo(
+    () => entries.map((e): RestorationModel => {
+      try {
+        return migrateModel({ ...e.data, schemaVersion: e.schemaVersion ?? e.data.schemaVersion }).data;
+      } catch {
+        return e.data;
+      }
+    }),
+    [entries],
+  );
+
+  // Methods answered by at least one of the models
+  const methods = METHOD_KEYS.filter((mk) => models.some((d) => !(d.disabledMethods ?? []).includes(mk)));
+  const [methodId, setMethodId] = useState<MethodType>(methods[0] ?? "anr_30");
+  const [threshold, setThreshold] = useState(COMPARISON_DIFF_THRESHOLD_PCT);
+
+  const rows = useMemo(() => compareModels(models, methodId, threshold), [models, methodId, threshold]);
+  const results = useMemo(() => compareCBA(models, methodId), [models, methodId]);
+  const overlay = useMemo(() => cashFlowOverlay(results), [results]);
+  const flagged = rows.filter((r) => r.differs).length;
+
+  const sections = [...new Set(rows.map((r) => r.section))];
+  const headers = [t("Item"), ...names, t("Spread")];
+
+  return (
+    <div className="cba-chart-block comparison-panel">
+      <div className="comparison-header">
+        <h4 className="cba-chart-title">{t("Comparing {count} questionnaires", { count: entries.length })}</h4>
+        <button type="button" className="btn btn--small btn--secondary" onClick={onClose} title={t("Close comparison")}>
+          <X size={14} /> {t("Close")}
+        </button>
+      </div>
+
+      <div className="form-grid" style={{ maxWidth: "640px" }}>
+        <div className="form-field">
+          <label className="form-label">{t("Method")}</label>
+          <select className="form-input" value={methodId} onChange={(e) => setMethodId(e.target.value as MethodType)}>
+            {methods.map((mk) => (
+              <option key={mk} value={mk}>{t(getMethodLabel(mk))}</option>
+            ))}
+          </select>
+        </div>
+        <div className="form-field">
+          <label className="form-label">{t("Highlight differences above (% of mean)")}</label>
+          <input
+            className="form-input"
+            type="number"
+            min="0"
+            step="5"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value === "" ? 0 : Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <p className="cba-chart-hint">
+        {t("{flagged} of {total} items differ by more than {threshold}% between the answers. “—” means the method is disabled in that questionnaire.", {
+          flagged,
+          total: rows.length,
+          threshold,
+        })}
+      </p>
+
+      {sections.map((section) => (
+        <SummaryTable
+          key={section}
+          caption={t(section)}
+          headers={headers}
+          rows={rows
+            .filter((r) => r.section === section)
+            .map((r) => ({
+              label: `${translateMessage(r.label)} (${t(r.unit)})`,
+              values: [
+                ...r.values.map((v) => fmtValue(v, r.unit)),
+                r.spreadPct === null ? "—" : `${formatNumber(r.spreadPct, { maximumFractionDigits: 0 })}%`,
+              ],
+              className: r.differs ? "summary-row-warn" : undefined,
+            }))}
+        />
+      ))}
+
+      {/* ── CBA overlay ─────────────────────────────────────── */}
+      <h4 className="cba-chart-title">{t("Cumulative Discounted Net Cash Flow — {method}", { method: t(getMethodLabel(methodId)) })}</h4>
+      <p className="cba-chart-hint">
+        {t("Each line ends at that questionnaire's NPV. Models without a cost for this method are omitted.")}
+      </p>
+      {results.every((r) => r === null) ? (
+        <p className="form-empty">{t("No questionnaire has an implementation cost for this method.")}</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={overlay} margin={{ top: 8, right: 16, left: 4, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+              <XAxis dataKey="year" tick={{ fontSize: 11 }} label={{ value: t("Year"), position: "insideBottomRight", offset: -2, fontSize: 10 }} />
+              <YAxis tickFormatter={(v: number) => `${formatNumber(v / 1000, { maximumFractionDigits: 0 })}k`} tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(v, name) => [fmtUSD(Number(v)), name]} labelFormatter={(y) => t("Year {year}", { year: y })} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <ReferenceLine y={0} stroke="#1a3530" strokeWidth={1.5} />
+              {results.map((r, k) =>
+                r ? (
+                  <Line
+                    key={k}
+                    type="monotone"
+                    dataKey={`m${k}`}
+                    name={t("{name} (NPV {npv})", { name: names[k], npv: fmtUSD(r.npv) })}
+                    stroke={SERIES_COLOURS[k % SERIES_COLOURS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={false}
+                  />
+                ) : null,
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+          <SummaryTable
+            caption={t("Headline indicators")}
+            headers={[t("Indicator"), ...names]}
+            rows={[
+              { label: t("NPV (US$/ha)"), values: results.map((r) => (r ? fmtUSD(r.npv) : "—")) },
+              { label: t("IRR"), values: results.map((r) => (r?.irr != null ? `${formatNumber(r.irr * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%` : "—")) },
+              { label: t("BCR"), values: results.map((r) => (r ? formatNumber(r.bcr, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "—")) },
+              { label: t("Payback year"), values: results.map((r) => (r?.paybackYear != null ? r.paybackYear : "—")) },
+              { label: t("Horizon (years)"), values: results.map((r) => (r ? r.horizon : "—")) },
+            ]}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * QuestionnaireReport – Printable report of the whole questionnaire.
+ *
+ * Opens as a full-page preview over the form. "Print / Save as PDF" uses the
+ * browser's print dialog, so the report works offline; the print styles
+ * (App.css, "Questionnaire report") hide the form and the toolbar and start
+ * every method on a new page.
+ *
+ * Contents: identification, each active method's costs, segment tables and
+ * timeline, the context constraints, the labor breakdown, the consistency
+ * checks and the CBA KPIs and charts. Amounts are in the entry currency and
+ * per the questionnaire's area unit, as on the form.
+ */
+
+import { useEffect, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContainer } from "recharts";
+import { Printer, X } from "lucide-react";
+import type { RestorationModelFormData } from "../schemas";
+import type { RestorationModel, MethodType, MethodCostEntry, ContextVariables, FactorShares } from "../types";
+import { useI18n, useValidationIssues, useEntryCurrency, useAreaUnit } from "../hooks";
+import { getMethodLabel } from "../constants";
+import { resolveHorizon, computeInteractionAdjustment } from "../utils/computations";
+import { resolveCurrency } from "../utils/currency";
+import { resolveAreaUnit } from "../utils/area";
+import { activeMethods, computeActiveResults } from "../utils/report";
+import { translateMessage, formatDate, formatNumber } from "../utils/i18n";
+import type { RuleIssue } from "../utils/rules";
+import { SummaryTable } from "./ui";
+import { MethodCBAView } from "./sections";
+
+const CONSTRAINTS: { key: keyof ContextVariables; label: string; unit: string }[] = [
+  { key: "fireRisk",                label: "Firebreak / Fire Risk",                    unit: "US$/km" },
+  { key: "grazingPressure",         label: "Fencing / Grazing Pressure",               unit: "US$/km" },
+  { key: "invasiveSpeciesPressure", label: "Weed Control / Invasive Species Pressure", unit: "US$/ha" },
+  { key: "pestControl",             label: "Pest Control / Pest Infestation Risk",     unit: "US$/ha" },
+];
+
+const SEVERITY_LABEL: Record<RuleIssue["severity"], string> = {
+  error: "Error",
+  warning: "Warning",
+  info: "Note",
+};
+
+const fmt = (n: number) => formatNumber(n, { maximumFractionDigits: 2 });
+
+const shares = (s: Partial<FactorShares> | undefined) =>
+  `${fmt(Number(s?.labor) || 0)}% / ${fmt(Number(s?.machinery) || 0)}% / ${fmt(Number(s?.materials) || 0)}%`;
+
+/** Per-year implementation, maintenance and NTFP revenue (US$/ha) from the method's segments. */
+function annualTimeline(entry: MethodCostEntry, horizon: number) {
+  const inYear = (s: { yearFrom: number; yearTo: number }, year: number) => year >= s.yearFrom && year <= s.yearTo;
+  const price = Number(entry.ntfpPrice) || 0;
+  return Array.from({ length: horizon }, (_, i) => {
+    const year = i + 1;
+    const maintenance = (entry.maintenanceSegments ?? [])
+      .filter((s) => inYear(s, year))
+      .reduce((sum, s) => sum + (Number(s.cost) || 0), 0);
+    const revenue = entry.ntfpDataMode === "revenue"
+      ? (entry.ntfpRevenueSegments ?? []).filter((s) => inYear(s, year)).reduce((sum, s) => sum + (Number(s.revenue) || 0), 0)
+      : (entry.ntfpProductivitySegments ?? []).filter((s) => inYear(s, year)).reduce((sum, s) => sum + (Number(s.productivity) || 0) * price, 0);
+    return { year, implementation: year === 1 ? Number(entry.implementationCost) || 0 : 0, maintenance, revenue };
+  });
+}
+
+interface Props {
+  values: RestorationModelFormData;
+  onClose: () => void;
+}
+
+export function QuestionnaireReport({ values, onClose }: Props) {
+  const { t } = useI18n();
+  const issues = useValidationIssues();
+  const currency = useEntryCurrency();
+  const area = useAreaUnit();
+
+  const data = values as unknown as RestorationModel;
+  const horizon = resolveHorizon(data.timeHorizon);
+  const methods = activeMethods(data);
+  const results = useMemo(() => computeActiveResults(values as unknown as RestorationModel, "local"), [values]);
+  const perArea = area.unit(currency.unit("US$/ha"));
+
+  // Lets the print styles hide everything but the report
+  useEffect(() => {
+    document.body.classList.add("report-open");
+    return () => document.body.classList.remove("report-open");
+  }, []);
+
+  const { code, exchangeRate, rateDate } = resolveCurrency(data.currency);
+  const identification: [string, string][] = [
+    [t("Your Name"), data.userName || "—"],
+    [t("Date of Data Collection"), data.dataCollectionDate ? formatDate(data.dataCollectionDate) : "—"],
+    [t("Respondent Name"), data.respondentName || "—"],
+    [t("GPS Coordinates"), data.gpsCoordinates || "—"],
+    [t("Ecosystem"), data.ecosystem || "—"],
+    [t("Country"), data.country || "—"],
+    [t("City"), data.city || "—"],
+    [t("Analysis Time Horizon"), `${horizon} ${t("years")}`],
+    [t("Currency of the amounts"), code],
+    ...(code !== "USD"
+      ? [
+          [t("Exchange rate"), t("{rate} {code} per US$", { rate: fmt(exchangeRate), code })] as [string, string],
+          [t("Exchange rate date"), rateDate ? formatDate(rateDate) : "—"] as [string, string],
+        ]
+      : []),
+    [t("Area unit"), t(resolveAreaUnit(data.areaUnit).label)],
+  ];
+
+  const lb = data.laborBreakdown;
+
+  return createPortal(
+    <div className="report-overlay" role="dialog" aria-label={t("Questionnaire report")}>
+      <div className="report-toolbar">
+        <button type="button" className="btn btn--primary" onClick={() => window.print()}>
+          <Printer size={16} /> {t("Print / Save as PDF")}
+        </button>
+        <button type="button" className="btn btn--secondary" onClick={onClose}>
+          <X size={16} /> {t("Close report")}
+        </button>
+      </div>
+
+      <article className="report">
+        <header className="report-header">
+          <h1>{t("Restoration cost questionnaire")}</h1>
+          <p className="report-meta">
+            {[data.ecosystem, data.country].filter(Boolean).join(" — ")}
+            {" · "}{t("Report generated on {date}", { date: formatDate(new Date()) })}
+          </p>
+        </header>
+
+        {/* ── Identification ─────────────────────────────────── */}
+        <section className="report-section">
+          <h2>{t("Identification")}</h2>
+          <SummaryTable
+            headers={[t("Item"), t("Value")]}
+            rows={identification.map(([label, value]) => ({ label, values: [value] }))}
+          />
+          {(data.disabledMethods ?? []).length > 0 && (
+            <p className="report-note">
+              {t("Methods without data")}: {(data.disabledMethods ?? []).map((m) => t(getMethodLabel(m))).join(", ")}
+            </p>
+          )}
+        </section>
+
+        {/* ── Context constraints ────────────────────────────── */}
+        <section className="report-section">
+          <h2>{t("Context Constraints")}</h2>
+          <SummaryTable
+            headers={[t("Constraint"), t("Unit Cost"), t("Occurrences"), `${t("Firebreak area")} (${area.symbol})`, `${t("Cost distribution")} (${t("Labor")} / ${t("Machinery")} / ${t("Materials")})`]}
+            rows={CONSTRAINTS.map(({ key, label, unit }) => {
+              const c = data.contextVariables?.[key];
+              const cost = Number(c?.cost) || 0;
+              return {
+                label: t(label),
+                values: [
+                  `${fmt(unit === "US$/ha" ? area.fromPerHa(cost) : cost)} ${unit === "US$/ha" ? perArea : currency.unit(unit)}`,
+                  fmt(Number(c?.occurrences) || 0),
+                  key === "fireRisk" && c?.firebreakArea ? fmt(area.fromHa(Number(c.firebreakArea))) : "—",
+                  shares(c?.distribution),
+                ],
+              };
+            })}
+          />
+        </section>
+
+        {/* ── Labor breakdown ────────────────────────────────── */}
+        <section className="report-section">
+          <h2>{t("Labor Breakdown")}</h2>
+          <SummaryTable
+            headers={[t("Item"), t("Implementation (Year 1)"), t("Maintenance (Years 2–{horizon})", { horizon })]}
+            rows={[
+              { label: t("Hired Labour"), values: [`${fmt(Number(lb?.implementation?.hiredLabor) || 0)}%`, `${fmt(Number(lb?.maintenance?.hiredLabor) || 0)}%`] },
+              { label: t("Non Hired Labour"), values: [`${fmt(Number(lb?.implementation?.familyLabor) || 0)}%`, `${fmt(Number(lb?.maintenance?.familyLabor) || 0)}%`] },
+            ]}
+          />
+          <SummaryTable
+            headers={[t("Item"), t("Value")]}
+            rows={[
+              { label: t("Gender distribution"), values: [`${t("Male")} ${fmt(Number(lb?.genderDistribution?.male) || 0)}% · ${t("Female")} ${fmt(Number(lb?.genderDistribution?.female) || 0)}% · ${t("Others")} ${fmt(Number(lb?.genderDistribution?.other) || 0)}%`] },
+              { label: t("Hired Labor Cost"), values: [`${fmt(Number(lb?.hiredLaborCostPerDay) || 0)} ${currency.unit("US$/day")}`] },
+              { label: t("Machinery Unit Cost"), values: [`${fmt(Number(lb?.machineryUnitCostPerHour) || 0)} ${currency.unit("US$/hour")}`] },
+              { label: t("Average Land Lease Cost"), values: [`${fmt(area.fromPerHa(Number(lb?.landLeaseCostPerHaPerYear) || 0))} ${area.unit(currency.unit("US$/ha/year"))}`] },
+            ]}
+          />
+        </section>
+
+        {/* ── Consistency checks ─────────────────────────────── */}
+        <section className="report-section">
+          <h2>{t("Consistency checks")}</h2>
+          {issues.length === 0 ? (
+            <p className="report-note">{t("No issues found by the consistency checks.")}</p>
+          ) : (
+            <SummaryTable
+              headers={[t("Severity"), t("Method"), t("Issue")]}
+              rows={issues.map((issue) => ({
+                label: t(SEVERITY_LABEL[issue.severity]),
+                values: [issue.target.methodId ? t(getMethodLabel(issue.target.methodId)) : "—", translateMessage(issue.message)],
+                className: `report-issue--${issue.severity}`,
+              }))}
+            />
+          )}
+        </section>
+
+        {/* ── One page per method ────────────────────────────── */}
+        {methods.map((mk) => (
+          <MethodPage
+            key={mk}
+            methodId={mk}
+            data={data}
+            horizon={horizon}
+            cba={results.find((r) => r.methodId === mk) ?? null}
+          />
+        ))}
+
+        {/* ── Sign-off ───────────────────────────────────────── */}
+        <section className="report-section report-signoff">
+          <div><span>{t("Respondent")}</span></div>
+          <div><span>{t("Reviewer")}</span></div>
+          <div><span>{t("Date")}</span></div>
+        </section>
+      </article>
+    </div>,
+    document.body,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Per-method page
+// ---------------------------------------------------------------------------
+
+interface MethodPageProps {
+  methodId: MethodType;
+  data: RestorationModel;
+  horizon: number;
+  cba: ReturnType<typeof computeActiveResults>[number] | null;
+}
+
+function MethodPage({ methodId, data, horizon, cba }: MethodPageProps) {
+  const { t } = useI18n();
+  const currency = useEntryCurrency();
+  const area = useAreaUnit();
+  const perArea = area.unit(currency.unit("US$/ha"));
+  const entry = data.methodCosts?.[methodId];
+  const ntfp = methodId.endsWith("_ntfp");
+
+  if (!entry) return null;
+
+  const interaction = computeInteractionAdjustment(entry, data.contextVariables);
+  const timeline = annualTimeline(entry, horizon).map((y) => ({
+    year: y.year,
+    implementation: area.fromPerHa(y.implementation),
+    maintenance: area.fromPerHa(y.maintenance),
+    revenue: area.fromPerHa(y.revenue),
+  }));
+
+  return (
+    <section className="report-section report-page">
+      <h2>{t(getMethodLabel(methodId))}</h2>
+
+      <SummaryTable
+        headers={[t("Item"), perArea, `${t("Cost distribution")} (${t("Labor")} / ${t("Machinery")} / ${t("Materials")})`]}
+        rows={[
+          { label: t("Implementation Cost"), values: [fmt(area.fromPerHa(Number(entry.implementationCost) || 0)), shares(entry.implementationDistribution)] },
+          { label: t("Maintenance (Years 2–{horizon})", { horizon }), values: [fmt(area.fromPerHa(Number(entry.maintenanceCost) || 0)), shares(entry.maintenanceDistribution)] },
+          { label: t("Declared Total Unfavorable Cost"), values: [interaction.declared !== null ? fmt(area.fromPerHa(interaction.declared)) : "—", ""] },
+          {
+            label: t("Interaction adjustment"),
+            values: [
+              interaction.declared !== null ? fmt(area.fromPerHa(interaction.adjustment)) : "—",
+              interaction.residualPct !== null ? `${fmt(interaction.residualPct)}%` : "",
+            ],
+            className: interaction.isLarge ? "report-issue--warning" : undefined,
+          },
+        ]}
+      />
+
+      <h3>{t("Basic Maintenance Costs (Years 2–{horizon})", { horizon })}</h3>
+      {(entry.maintenanceSegments ?? []).length === 0 ? (
+        <p className="report-note">{t("No segments")}</p>
+      ) : (
+        <SummaryTable
+          headers={[t("Name"), t("From year"), t("To year"), area.unit(currency.unit("US$/ha/yr"))]}
+          rows={(entry.maintenanceSegments ?? []).map((s) => ({
+            label: s.label ? t(s.label) : "—",
+            values: [s.yearFrom, s.yearTo, fmt(area.fromPerHa(Number(s.cost) || 0))],
+          }))}
+        />
+      )}
+
+      {ntfp && (
+        <>
+          <h3>{t("NTFP Revenue")}</h3>
+          <p className="report-note">
+            {t("NTFP Species")}: {entry.ntfpSpecies || "—"}
+            {entry.ntfpDataMode !== "revenue" && (
+              <> · {t("Average Price during Harvesting Season")}: {entry.ntfpPrice != null ? `${fmt(Number(entry.ntfpPrice))} ${currency.unit("US$/kg")}` : "—"}</>
+            )}
+          </p>
+          {entry.ntfpDataMode === "revenue" ? (
+            <SummaryTable
+              headers={[t("Name"), t("From year"), t("To year"), area.unit(currency.unit("US$/ha/yr"))]}
+              rows={(entry.ntfpRevenueSegments ?? []).map((s, i) => ({
+                label: t("Segment {n}", { n: i + 1 }),
+                values: [s.yearFrom, s.yearTo, fmt(area.fromPerHa(Number(s.revenue) || 0))],
+              }))}
+            />
+          ) : (
+            <SummaryTable
+              headers={[t("Name"), t("From year"), t("To year"), area.unit("kg/ha/yr")]}
+              rows={(entry.ntfpProductivitySegments ?? []).map((s, i) => ({
+                label: t("Segment {n}", { n: i + 1 }),
+                values: [s.yearFrom, s.yearTo, fmt(area.fromPerHa(Number(s.productivity) || 0))],
+              }))}
+            />
+          )}
+        </>
+      )}
+
+      <h3>{t("Annual timeline ({unit})", { unit: perArea })}</h3>
+      <div className="report-chart">
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={timeline} margin={{ top: 4, right: 8, bottom: 0, left: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} width={60} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar dataKey="implementation" name={t("Implementation Cost")} stackId="cost" fill="#c0392b" isAnimationActive={false} />
+            <Bar dataKey="maintenance" name={t("Maintenance")} stackId="cost" fill="#2596be" isAnimationActive={false} />
+            {ntfp && <Bar dataKey="revenue" name={t("NTFP Revenue")} fill="#4E8465" isAnimationActive={false} />}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <h3>{t("Cost-benefit analysis")}</h3>
+      {cba ? (
+        <MethodCBAView cba={cba} currency={currency.code} areaSymbol={area.symbol} />
+      ) : (
+        <p className="report-note">{t("No results: the implementation cost is missing.")}</p>
+      )}
+    </section>
+  );
+}
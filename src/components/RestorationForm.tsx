@@ -6,14 +6,30 @@
  *   2. Method Costs (4 tabs with implementation + maintenance costs & distributions)
  *   3. Context Constraints & Additional Costs
  *   4. Summary & Validation
+ *   5. CBA External Assumptions + Results
+ *   6. Regional Cost Extrapolation
  */
 
 import { useRef, useState } from "react";
 import { FormProvider } from "react-hook-form";
-import { Download, Upload } from "lucide-react";
+import { Download, Upload, Save, FileText } from "lucide-react";
 import { useRestorationForm } from "../hooks/useRestorationForm";
+import { useDraftAutosave } from "../hooks/useDraftAutosave";
+import { useI18n } from "../hooks/useI18n";
 import type { RestorationModelFormData } from "../schemas";
-import { atLeastOneMethodTabComplete } from "../utils/computations";
+import type { RestorationModel } from "../types";
+import { resolveHorizon } from "../utils/computations";
+import { atLeastOneMethodTabComplete } from "../utils/rules";
+import {
+  importFromXlsx,
+  saveModel,
+  overwriteModel,
+  type SavedModel,
+  type XlsxImportIssue,
+} from "../utils/storage";
+import { migrateModel, type MigrationChange } from "../utils/migrations";
+import { translateMessage } from "../utils/i18n";
+import { CURRENT_SCHEMA_VERSION } from "../constants";
 
 import {
   UserIdentificationSection,
@@ -22,30 +38,73 @@ import {
   CostEstimatesSection,
   LaborBreakdownSection,
   SummaryValidationSection,
+  AssumptionsSection,
   CBAResultsSection,
+  EmploymentSection,
+  ProjectScenarioSection,
+  RegionalExtrapolationSection,
 } from "./sections";
 import { ExportButton } from "./ExportButton";
+import { IssuesPanel } from "./IssuesPanel";
+import { QuestionnaireReport } from "./QuestionnaireReport";
+
+/** Load notes listed under the action bar; the rest are counted. */
+const MAX_LISTED_LOAD_NOTES = 20;
+
+/** Notes shown after loading a file: migration changes or Excel import issues. */
+interface LoadReport {
+  title: string;
+  notes: string[];
+}
+
+function describeChange(c: MigrationChange): string {
+  return `${c.path}: ${c.message} (format v${c.version})`;
+}
+
+function describeIssue(issue: XlsxImportIssue): string {
+  const where = [issue.row !== null ? `Row ${issue.row}` : null, issue.column].filter(Boolean).join(", ");
+  return where ? `${where}: ${issue.message}` : issue.message;
+}
+
+function migrationReport(changes: MigrationChange[]): LoadReport | null {
+  return changes.length > 0
+    ? { title: "Loaded from an older format version. Review these fields:", notes: changes.map(describeChange) }
+    : null;
+}
 
 interface Props {
   /** If provided, pre-fills the form with an existing model for editing */
   initialData?: Partial<RestorationModelFormData>;
-  /** Called after a successful save to refresh the saved models list */
-  onSaved?: () => void;
+  /** Migration notes for `initialData`, shown until dismissed */
+  initialChanges?: MigrationChange[];
+  /** Autosave edits as a draft (off while an earlier draft awaits a decision) */
+  autosave?: boolean;
+  /** Library entry the form was loaded from; "Save to Library" overwrites it */
+  libraryEntry?: { id: string; name: string } | null;
+  /** Called after a successful library save to refresh the saved models list */
+  onSaved?: (entry: SavedModel) => void;
 }
 
-export function RestorationForm({ initialData }: Props) {
+export function RestorationForm({ initialData, initialChanges, autosave = true, libraryEntry = null, onSaved }: Props) {
   const form = useRestorationForm(initialData);
-  const { watch, reset } = form;
+  const { watch, reset, formState: { isDirty } } = form;
   const [showWarning, setShowWarning] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(() => migrationReport(initialChanges ?? []));
+  // Cleared when the form is reset or replaced from a file
+  const [entry, setEntry] = useState(libraryEntry);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
 
   // Watch all values to recompute derived UI (e.g., method-completion status)
   const values = watch();
+  const discardDraft = useDraftAutosave(values, autosave && isDirty);
 
   const methodsComplete = atLeastOneMethodTabComplete(values.methodCosts as any);
+  const horizon = resolveHorizon(values.timeHorizon);
 
   const handleSaveForm = () => {
-    const json = JSON.stringify(values, null, 2);
+    const json = JSON.stringify({ ...values, schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2);
     const blob = new Blob([json], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -55,18 +114,69 @@ export function RestorationForm({ initialData }: Props) {
     a.download = `${name.replace(/\s+/g, "_")}_${date}.json`;
     a.click();
     URL.revokeObjectURL(url);
+    // The work is now safe in a file; no need to offer it as a draft
+    discardDraft().catch(() => undefined);
+  };
+
+  const handleSaveToLibrary = async (asNew: boolean) => {
+    const data = values as unknown as RestorationModel;
+    try {
+      let saved: SavedModel;
+      if (entry && !asNew) {
+        saved = await overwriteModel(entry.id, data);
+      } else {
+        const suggested = entry ? `${entry.name} (copy)` : [values.ecosystem, values.country].filter(Boolean).join(" — ");
+        const name = window.prompt(t("Name for this questionnaire in the library:"), suggested);
+        if (name === null) return;
+        saved = await saveModel(data, { name: name.trim() });
+      }
+      setEntry({ id: saved.id, name: saved.name ?? "" });
+      discardDraft().catch(() => undefined);
+      onSaved?.(saved);
+    } catch (err) {
+      alert(t("Could not save to the library: {error}", { error: err instanceof Error ? err.message : String(err) }));
+    }
   };
 
   const handleLoadForm = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
+    setLoadReport(null);
+    setEntry(null);
+
+    // Excel workbooks exported by "Export Excel" are parsed from their Data sheet
+    if (file.name.toLowerCase().endsWith(".xlsx")) {
+      reader.onload = (evt) => {
+        try {
+          const result = importFromXlsx(evt.target?.result as ArrayBuffer);
+          reset(result.data as unknown as RestorationModelFormData);
+          setLoadReport(result.issues.length > 0
+            ? { title: `Excel file imported with ${result.issues.length} issue${result.issues.length === 1 ? "" : "s"}:`, notes: result.issues.map(describeIssue) }
+            : null);
+        } catch (err) {
+          alert(t("Could not import the Excel file: {error}", { error: err instanceof Error ? err.message : String(err) }));
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      e.target.value = "";
+      return;
+    }
+
     reader.onload = (evt) => {
+      let raw: unknown;
       try {
-        const data = JSON.parse(evt.target?.result as string);
-        reset(data);
+        raw = JSON.parse(evt.target?.result as string);
       } catch {
-        alert("Invalid JSON file. Please select a valid form data file.");
+        alert(t("Invalid JSON file. Please select a valid form data file."));
+        return;
+      }
+      try {
+        const { data, changes } = migrateModel(raw);
+        reset(data as unknown as RestorationModelFormData);
+        setLoadReport(migrationReport(changes));
+      } catch (err) {
+        alert(err instanceof Error ? err.message : String(err));
       }
     };
     reader.readAsText(file);
@@ -80,24 +190,24 @@ export function RestorationForm({ initialData }: Props) {
         {/* Instructions box */}
         <div className="info-box" style={{ marginBottom: "1.25rem" }}>
           <div className="info-box-header">
-            <strong>Please read before answering</strong>
+            <strong>{t("Please read before answering")}</strong>
           </div>
           <div className="info-box-body">
-            <p>Each questionnaire entry corresponds to a single ecosystem. GPS coordinates of any area that represents the model in question may be used.</p>
-            <p>The restoration method is defined based on soil conditions and the availability of naturally regenerating seedlings. The analysis horizon is 20 years. Before starting, indicate which methods have no cost data available — the corresponding tabs will be removed from the form. All selected methods must be fully completed.</p>
-            <p><strong>For each method, fill in Implementation (Year 1) and Maintenance (Years 2–20):</strong></p>
-            <p><strong>Basic Implementation Costs (Year 1):</strong> Include the minimum cost required to initiate restoration under the method's conditions. For ANR/50% Enrichment, for example, this includes all base natural regeneration activities plus localized enrichment planting at 50% intensity (seedling acquisition, planting labor, and localized soil correction).</p>
-            <p><strong>Do not include:</strong> invasive species control, fencing, fire management, or any other activities beyond basic implementation — these must be modeled as constraint costs in Section 3.</p>
-            <p><strong>Basic Maintenance Costs (Years 2–20):</strong> Enter the total accumulated cost over the entire maintenance period (Years 2 to 20), not the annual cost. Include minimal follow-up activities such as survival checks, limited replacement of failed seedlings, NTFP harvesting, and light monitoring.</p>
-            <p><strong>Do not include:</strong> invasive species control, fencing, firebreak maintenance, pest management, or any other costs related to external constraints — these must be modeled separately in Section 3.</p>
-            <p>The form allows you to split the maintenance period into segments with different costs (e.g., more intensive early years vs. later years). The chart updates in real time as segments are added.</p>
-            <p><strong>Context Constraints &amp; Additional Costs (Section 3):</strong> Given an unfavorable scenario with contextual constraints, estimate the additional cost required to overcome those constraints and achieve the same level of ecological success as in a favorable scenario. These costs are the same across all methods, so this section is filled in only once. Pay attention to the unit of each cost field.</p>
-            <p>The system automatically generates a <strong>Summary &amp; Validation</strong> at the end with all calculations. Watch out for the following common errors flagged by the form:</p>
+            <p>{t("Each questionnaire entry corresponds to a single ecosystem. GPS coordinates of any area that represents the model in question may be used.")}</p>
+            <p>{t("The restoration method is defined based on soil conditions and the availability of naturally regenerating seedlings. The analysis horizon is {horizon} years (10–50, set in Project Identification). Before starting, indicate which methods have no cost data available — the corresponding tabs will be removed from the form. All selected methods must be fully completed.", { horizon })}</p>
+            <p><strong>{t("For each method, fill in Implementation (Year 1) and Maintenance (Years 2–{horizon}):", { horizon })}</strong></p>
+            <p><strong>{t("Basic Implementation Costs (Year 1):")}</strong> {t("Include the minimum cost required to initiate restoration under the method's conditions. For ANR/50% Enrichment, for example, this includes all base natural regeneration activities plus localized enrichment planting at 50% intensity (seedling acquisition, planting labor, and localized soil correction).")}</p>
+            <p><strong>{t("Do not include:")}</strong> {t("invasive species control, fencing, fire management, or any other activities beyond basic implementation — these must be modeled as constraint costs in Section 3.")}</p>
+            <p><strong>{t("Basic Maintenance Costs (Years 2–{horizon}):", { horizon })}</strong> {t("Enter the total accumulated cost over the entire maintenance period (Years 2 to {horizon}), not the annual cost. Include minimal follow-up activities such as survival checks, limited replacement of failed seedlings, NTFP harvesting, and light monitoring.", { horizon })}</p>
+            <p><strong>{t("Do not include:")}</strong> {t("invasive species control, fencing, firebreak maintenance, pest management, or any other costs related to external constraints — these must be modeled separately in Section 3.")}</p>
+            <p>{t("The form allows you to split the maintenance period into segments with different costs (e.g., more intensive early years vs. later years). The chart updates in real time as segments are added.")}</p>
+            <p><strong>{t("Context Constraints & Additional Costs (Section 3):")}</strong> {t("Given an unfavorable scenario with contextual constraints, estimate the additional cost required to overcome those constraints and achieve the same level of ecological success as in a favorable scenario. These costs are the same across all methods, so this section is filled in only once. Pay attention to the unit of each cost field.")}</p>
+            <p>{t("The system automatically generates a Summary & Validation at the end with all calculations. Watch out for the following common errors flagged by the form:")}</p>
             <ul style={{ margin: "0 0 0.4rem 1.2rem", padding: 0, fontSize: "0.82rem", lineHeight: 1.55, color: "#374151" }}>
-              <li style={{ marginBottom: "0.25rem" }}>Percentage distributions that do not sum to 100% in any section</li>
-              <li style={{ marginBottom: "0.25rem" }}>Confusion between annual cost and total accumulated cost in the maintenance section</li>
-              <li style={{ marginBottom: "0.25rem" }}>Inclusion of constraint costs (fire, fencing, invasive species, pests) within basic costs — these must appear exclusively in Section 3</li>
-              <li>Leaving methods incomplete without marking them as having no data at the beginning of Section 2</li>
+              <li style={{ marginBottom: "0.25rem" }}>{t("Percentage distributions that do not sum to 100% in any section")}</li>
+              <li style={{ marginBottom: "0.25rem" }}>{t("Confusion between annual cost and total accumulated cost in the maintenance section")}</li>
+              <li style={{ marginBottom: "0.25rem" }}>{t("Inclusion of constraint costs (fire, fencing, invasive species, pests) within basic costs — these must appear exclusively in Section 3")}</li>
+              <li>{t("Leaving methods incomplete without marking them as having no data at the beginning of Section 2")}</li>
             </ul>
           </div>
         </div>
@@ -108,55 +218,107 @@ export function RestorationForm({ initialData }: Props) {
         <CostEstimatesSection />
         <LaborBreakdownSection />
         <SummaryValidationSection />
+        <AssumptionsSection />
         <CBAResultsSection values={values} />
+        <EmploymentSection values={values} />
+        <ProjectScenarioSection values={values} />
+        <RegionalExtrapolationSection values={values} />
 
         {/* Action bar */}
         <div className="form-actions">
+          <IssuesPanel />
+          {loadReport && (
+            <div className="form-warning" style={{ width: "100%", margin: "0 0 0.25rem" }}>
+              <p style={{ margin: 0 }}>
+                ⚠ {translateMessage(loadReport.title)}
+                {" "}
+                <button type="button" className="btn btn--small btn--secondary" onClick={() => setLoadReport(null)}>
+                  {t("Dismiss")}
+                </button>
+              </p>
+              <ul style={{ margin: "0.25rem 0 0 1.2rem", padding: 0 }}>
+                {loadReport.notes.slice(0, MAX_LISTED_LOAD_NOTES).map((note, i) => (
+                  <li key={i}>{note}</li>
+                ))}
+                {loadReport.notes.length > MAX_LISTED_LOAD_NOTES && (
+                  <li>{t("…and {count} more", { count: loadReport.notes.length - MAX_LISTED_LOAD_NOTES })}</li>
+                )}
+              </ul>
+            </div>
+          )}
           {showWarning && !methodsComplete && (
             <p className="form-warning" style={{ width: "100%", margin: "0 0 0.25rem" }}>
-              ⚠ Please complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.
+              ⚠ {t("Please complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.")}
             </p>
           )}
           <button
             type="button"
             className="btn btn--secondary"
             onClick={() => {
-              if (window.confirm("Are you sure you want to reset the form? All unsaved data will be lost.")) {
+              if (window.confirm(t("Are you sure you want to reset the form? All unsaved data will be lost."))) {
                 reset();
+                setEntry(null);
+                discardDraft().catch(() => undefined);
               }
             }}
           >
-            Reset Form
+            {t("Reset Form")}
           </button>
           <button
             type="button"
             className="btn btn--primary"
+            onClick={() => handleSaveToLibrary(false)}
+            title={entry ? t("Overwrite \"{name}\" in the library", { name: entry.name }) : t("Save a new entry in the library")}
+          >
+            <Save size={16} /> {entry ? t("Update in Library") : t("Save to Library")}
+          </button>
+          {entry && (
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={() => handleSaveToLibrary(true)}
+            >
+              {t("Save as Copy")}
+            </button>
+          )}
+          <button
+            type="button"
+            className="btn btn--secondary"
             onClick={handleSaveForm}
           >
-            <Download size={16} /> Save Form
+            <Download size={16} /> {t("Save Form")}
           </button>
           <button
             type="button"
             className="btn btn--secondary"
             onClick={() => fileInputRef.current?.click()}
           >
-            <Upload size={16} /> Load Form
+            <Upload size={16} /> {t("Load Form")}
           </button>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.xlsx"
             style={{ display: "none" }}
             onChange={handleLoadForm}
           />
+          <button
+            type="button"
+            className="btn btn--secondary"
+            onClick={() => setShowReport(true)}
+            title={t("Printable report of the questionnaire (print or save as PDF)")}
+          >
+            <FileText size={16} /> {t("Report")}
+          </button>
           <div className="form-actions-spacer" />
-          <span className="form-actions-export-label">Export your data:</span>
+          <span className="form-actions-export-label">{t("Export your data:")}</span>
           <ExportButton
             data={values}
             disabled={!methodsComplete}
             onDisabledClick={() => setShowWarning(true)}
           />
         </div>
+        {showReport && <QuestionnaireReport values={values} onClose={() => setShowReport(false)} />}
       </form>
     </FormProvider>
   );
@@ -1,72 +1,389 @@
 /**
- * SavedModelsPanel – Lists previously saved models from local storage.
- * Allows loading a saved model into the form or deleting it.
+ * SavedModelsPanel – The in-app library of saved questionnaires.
+ *
+ * Lists entries from browser storage with their completion status and
+ * headline NPV, and lets the analyst filter (name/tags, ecosystem, country,
+ * respondent, date range), sort, rename, tag, duplicate, load, and delete or
+ * export, compare or aggregate several entries at once. Loaded models are migrated to the
+ * current schema version first.
  * Mock persistence layer — to be replaced by backend calls later.
  */
 
-import { useState, useEffect } from "react";
-import { Trash2, Upload } from "lucide-react";
-import { loadModels, deleteModel, type SavedModel } from "../utils/storage";
-import { getMethodLabel } from "../constants/defaults";
-import type { RestorationModel } from "../types";
+import { useState, useEffect, useMemo } from "react";
+import { Trash2, Upload, Copy, Pencil, Download, Columns, Sigma } from "lucide-react";
+import {
+  loadModels,
+  deleteModels,
+  duplicateModel,
+  updateModelMeta,
+  type SavedModel,
+} from "../utils/storage";
+import { migrateModel, type MigrationResult } from "../utils/migrations";
+import {
+  summarizeSavedModel,
+  filterLibrary,
+  sortLibrary,
+  exportLibraryBundle,
+  EMPTY_LIBRARY_FILTER,
+  type LibraryFilter,
+  type LibrarySortKey,
+} from "../utils/library";
+import { formatUSD } from "../utils/computations";
+import { ECOSYSTEM_OPTIONS } from "../constants/defaults";
+import { useI18n } from "../hooks/useI18n";
+import { ModelComparisonPanel } from "./ModelComparisonPanel";
+import { AggregationPanel } from "./AggregationPanel";
 
 interface Props {
-  onLoad: (data: RestorationModel) => void;
+  onLoad: (result: MigrationResult, entry: SavedModel) => void;
+}
+
+const SORT_OPTIONS: { value: LibrarySortKey; label: string }[] = [
+  { value: "updatedAt", label: "Last saved" },
+  { value: "name",      label: "Name" },
+  { value: "ecosystem", label: "Ecosystem" },
+  { value: "country",   label: "Country" },
+  { value: "date",      label: "Collection date" },
+  { value: "npv",       label: "Headline NPV" },
+];
+
+/** Parse a comma-separated tag list, dropping blanks and duplicates. */
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map((tag) => tag.trim()).filter(Boolean))];
 }
 
 export function SavedModelsPanel({ onLoad }: Props) {
+  const { t, formatDate, formatDateTime } = useI18n();
   const [models, setModels] = useState<SavedModel[]>([]);
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [sortKey, setSortKey] = useState<LibrarySortKey>("updatedAt");
+  const [descending, setDescending] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [comparing, setComparing] = useState<SavedModel[] | null>(null);
+  const [aggregating, setAggregating] = useState<SavedModel[] | null>(null);
 
-  const refresh = () => setModels(loadModels());
+  const refresh = () => loadModels().then(setModels);
 
   useEffect(() => {
     refresh();
   }, []);
 
-  const handleDelete = (id: string) => {
-    deleteModel(id);
+  const summaries = useMemo(() => models.map(summarizeSavedModel), [models]);
+  const visible = useMemo(
+    () => sortLibrary(filterLibrary(summaries, filter), sortKey, descending),
+    [summaries, filter, sortKey, descending],
+  );
+  const selectedVisible = visible.filter((s) => selected.has(s.id));
+
+  const patchFilter = (patch: Partial<LibraryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const allVisibleSelected = visible.length > 0 && selectedVisible.length === visible.length;
+  const toggleAll = () => setSelected(allVisibleSelected ? new Set() : new Set(visible.map((s) => s.id)));
+
+  const handleLoad = (m: SavedModel) => {
+    try {
+      onLoad(migrateModel({ ...m.data, schemaVersion: m.schemaVersion ?? m.data.schemaVersion }), m);
+    } catch (err) {
+      alert(t("Could not load the saved model: {error}", { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleDuplicate = async (id: string, name: string) => {
+    await duplicateModel(id, name);
+    refresh();
+  };
+
+  const handleSaveMeta = async () => {
+    if (!editing) return;
+    await updateModelMeta(editing.id, { name: editing.name.trim(), tags: parseTags(editing.tags) });
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(t("Delete \"{name}\"? This cannot be undone.", { name }))) return;
+    await deleteModels([id]);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    refresh();
+  };
+
+  const handleDeleteSelected = async () => {
+    const ids = selectedVisible.map((s) => s.id);
+    if (ids.length === 0) return;
+    const question = ids.length === 1
+      ? "Delete {count} saved questionnaire? This cannot be undone."
+      : "Delete {count} saved questionnaires? This cannot be undone.";
+    if (!window.confirm(t(question, { count: ids.length }))) return;
+    await deleteModels(ids);
+    setSelected(new Set());
     refresh();
   };
 
+  const handleExportSelected = () => {
+    const ids = new Set(selectedVisible.map((s) => s.id));
+    const entries = models.filter((m) => ids.has(m.id));
+    if (entries.length === 0) return;
+    const date = new Date().toISOString().slice(0, 10);
+    exportLibraryBundle(entries, `restoration_library_${entries.length}_models_${date}.json`);
+  };
+
+  // Keep the order shown in the list for the comparison / aggregation columns
+  const selectedEntries = () => selectedVisible.map((s) => models.find((m) => m.id === s.id)!);
+
+  const handleCompareSelected = () => {
+    const entries = selectedEntries();
+    if (entries.length >= 2) setComparing(entries);
+  };
+
+  const handleAggregateSelected = () => {
+    const entries = selectedEntries();
+    if (entries.length >= 1) setAggregating(entries);
+  };
+
   if (models.length === 0) {
     return null;
   }
 
   return (
     <div className="saved-panel">
-      <h3>Saved Models</h3>
+      <h3>{t("Saved Models ({count})", { count: models.length })}</h3>
+
+      {/* ── Filters & sorting ───────────────────────────────── */}
+      <div className="saved-toolbar">
+        <input
+          className="form-input"
+          placeholder={t("Search name or tag")}
+          value={filter.text}
+          onChange={(e) => patchFilter({ text: e.target.value })}
+        />
+        <select
+          className="form-input"
+          value={filter.ecosystem}
+          onChange={(e) => patchFilter({ ecosystem: e.target.value })}
+          aria-label={t("Ecosystem")}
+        >
+          <option value="">{t("All ecosystems")}</option>
+          {ECOSYSTEM_OPTIONS.map((eco) => (
+            <option key={eco} value={eco}>{t(eco)}</option>
+          ))}
+        </select>
+        <input
+          className="form-input"
+          placeholder={t("Country")}
+          value={filter.country}
+          onChange={(e) => patchFilter({ country: e.target.value })}
+        />
+        <input
+          className="form-input"
+          placeholder={t("Respondent")}
+          value={filter.respondent}
+          onChange={(e) => patchFilter({ respondent: e.target.value })}
+        />
+        <label className="saved-toolbar-range">
+          {t("From")}
+          <input
+            className="form-input"
+            type="date"
+            value={filter.dateFrom}
+            onChange={(e) => patchFilter({ dateFrom: e.target.value })}
+          />
+        </label>
+        <label className="saved-toolbar-range">
+          {t("To")}
+          <input
+            className="form-input"
+            type="date"
+            value={filter.dateTo}
+            onChange={(e) => patchFilter({ dateTo: e.target.value })}
+          />
+        </label>
+        <select
+          className="form-input"
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as LibrarySortKey)}
+          aria-label={t("Sort by")}
+        >
+          {SORT_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{t("Sort: {key}", { key: t(o.label) })}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="btn btn--small btn--secondary"
+          onClick={() => setDescending((d) => !d)}
+          title={t("Toggle sort direction")}
+        >
+          {descending ? t("↓ Desc") : t("↑ Asc")}
+        </button>
+      </div>
+
+      {/* ── Bulk actions ────────────────────────────────────── */}
+      <div className="saved-bulk">
+        <label>
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} /> {t("Select all shown")}
+        </label>
+        <span className="saved-item-date">
+          {t("{shown} of {total} shown · {selected} selected", {
+            shown: visible.length,
+            total: models.length,
+            selected: selectedVisible.length,
+          })}
+        </span>
+        <button
+          type="button"
+          className="btn btn--small btn--secondary"
+          disabled={selectedVisible.length === 0}
+          onClick={handleExportSelected}
+        >
+          <Download size={14} /> {t("Export selected")}
+        </button>
+        <button
+          type="button"
+          className="btn btn--small btn--secondary"
+          disabled={selectedVisible.length < 2}
+          onClick={handleCompareSelected}
+          title={t("Compare the selected questionnaires side by side")}
+        >
+          <Columns size={14} /> {t("Compare selected")}
+        </button>
+        <button
+          type="button"
+          className="btn btn--small btn--secondary"
+          disabled={selectedVisible.length === 0}
+          onClick={handleAggregateSelected}
+          title={t("Aggregate the selected respondents into reference values")}
+        >
+          <Sigma size={14} /> {t("Aggregate selected")}
+        </button>
+        <button
+          type="button"
+          className="btn btn--small btn--danger"
+          disabled={selectedVisible.length === 0}
+          onClick={handleDeleteSelected}
+        >
+          <Trash2 size={14} /> {t("Delete selected")}
+        </button>
+      </div>
+
       <ul className="saved-list">
-        {models.map((m) => (
-          <li key={m.id} className="saved-item">
-            <div className="saved-item-info">
-              <strong>
-                {m.data.ecosystem} — {getMethodLabel(m.data.methodType)}
-              </strong>
-              <span className="saved-item-date">
-                {new Date(m.savedAt).toLocaleString()}
-              </span>
-            </div>
-            <div className="saved-item-actions">
-              <button
-                type="button"
-                className="btn btn--small"
-                onClick={() => onLoad(m.data)}
-                title="Load into form"
-              >
-                <Upload size={14} /> Load
-              </button>
-              <button
-                type="button"
-                className="btn btn--small btn--danger"
-                onClick={() => handleDelete(m.id)}
-                title="Delete"
-              >
-                <Trash2 size={14} />
-              </button>
-            </div>
-          </li>
-        ))}
+        {visible.map((s) => {
+          const entry = models.find((m) => m.id === s.id)!;
+          const complete = s.answeredMethods > 0 && s.completeMethods === s.answeredMethods;
+          return (
+            <li key={s.id} className="saved-item">
+              <input
+                type="checkbox"
+                checked={selected.has(s.id)}
+                onChange={() => toggle(s.id)}
+                aria-label={t("Select {name}", { name: s.name })}
+              />
+              <div className="saved-item-info">
+                {editing?.id === s.id ? (
+                  <div className="saved-item-edit">
+                    <input
+                      className="form-input"
+                      value={editing.name}
+                      placeholder={t("Name")}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    />
+                    <input
+                      className="form-input"
+                      value={editing.tags}
+                      placeholder={t("Tags, comma-separated")}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                    />
+                    <button type="button" className="btn btn--small btn--primary" onClick={handleSaveMeta}>
+                      {t("Save")}
+                    </button>
+                    <button type="button" className="btn btn--small btn--secondary" onClick={() => setEditing(null)}>
+                      {t("Cancel")}
+                    </button>
+                  </div>
+                ) : (
+                  <strong>{s.name}</strong>
+                )}
+                <span className="saved-item-date">
+                  {[s.ecosystem && t(s.ecosystem), s.country, s.respondent].filter(Boolean).join(" · ") || t("No identification")}
+                  {" · "}
+                  {t("collected {date} · saved {saved}", {
+                    date: formatDate(s.date),
+                    saved: formatDateTime(s.updatedAt),
+                  })}
+                </span>
+                <span className="saved-item-date">
+                  <span className={`saved-status saved-status--${complete ? "complete" : "incomplete"}`}>
+                    {t("{complete}/{answered} methods complete", { complete: s.completeMethods, answered: s.answeredMethods })}
+                  </span>
+                  {" · "}
+                  {s.headline
+                    ? t("Best NPV {npv}/ha ({method})", { npv: formatUSD(s.headline.npv), method: t(s.headline.methodLabel) })
+                    : t("NPV not available")}
+                </span>
+                {s.tags.length > 0 && (
+                  <span className="saved-tags">
+                    {s.tags.map((tag) => (
+                      <span key={tag} className="saved-tag">{tag}</span>
+                    ))}
+                  </span>
+                )}
+              </div>
+              <div className="saved-item-actions">
+                <button
+                  type="button"
+                  className="btn btn--small"
+                  onClick={() => handleLoad(entry)}
+                  title={t("Load into form")}
+                >
+                  <Upload size={14} /> {t("Load")}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn--small"
+                  onClick={() => setEditing({ id: s.id, name: entry.name ?? "", tags: s.tags.join(", ") })}
+                  title={t("Rename / edit tags")}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  type="button"
+                  className="btn btn--small"
+                  onClick={() => handleDuplicate(s.id, s.name)}
+                  title={t("Duplicate")}
+                >
+                  <Copy size={14} />
+                </button>
+                <button
+                  type="button"
+                  className="btn btn--small btn--danger"
+                  onClick={() => handleDelete(s.id, s.name)}
+                  title={t("Delete")}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {visible.length === 0 && (
+          <li className="saved-item saved-item-date">{t("No saved questionnaire matches the filters.")}</li>
+        )}
       </ul>
+
+      {comparing && <ModelComparisonPanel key={comparing.map((m) => m.id).join()} entries={comparing} onClose={() => setComparing(null)} />}
+      {aggregating && <AggregationPanel key={aggregating.map((m) => m.id).join()} entries={aggregating} onClose={() => setAggregating(null)} />}
     </div>
   );
 }
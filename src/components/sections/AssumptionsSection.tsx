@@ -0,0 +1,276 @@
+/**
+ * AssumptionsSection
+ *
+ * Analyst-facing panel for the CBA external assumptions: discount rates,
+ * carbon price / escalation / buffer pool, the carbon fallback rate, the
+ * NTFP maturation lag, the fencing upfront share, the ± flex used by the
+ * tornado sensitivity, the land opportunity cost and the shadow wage of
+ * non-hired labor.
+ *
+ * These values are not asked of the respondent. They are saved with the model
+ * and feed the CBA results and the "Parameters" sheet of the CBA export.
+ */
+
+import { useFormContext } from "react-hook-form";
+import { SlidersHorizontal } from "lucide-react";
+import type { RestorationModelFormData } from "../../schemas";
+import { CollapsibleSection, FormField, ConvertedFormField, FormSelect } from "../ui";
+import { DEFAULT_CBA_ASSUMPTIONS } from "../../constants";
+import { resolveHorizon } from "../../utils/computations";
+import { useAreaUnit, useEntryCurrency, useI18n } from "../../hooks";
+
+const MAX_DISCOUNT_RATES = 8;
+
+export function AssumptionsSection() {
+  const {
+    register,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useFormContext<RestorationModelFormData>();
+  const { t } = useI18n();
+
+  const discountRates: number[] = watch("assumptions.discountRates") ?? [];
+  const horizon = resolveHorizon(watch("timeHorizon"));
+  const assumptionErrors = errors.assumptions;
+  const areaUnit = useAreaUnit();
+  const currency = useEntryCurrency();
+  const landLease = Number(watch("laborBreakdown.landLeaseCostPerHaPerYear")) || 0;
+  const chargeLand = watch("assumptions.landOpportunityCost") ?? false;
+  const hiredRate = Number(watch("laborBreakdown.hiredLaborCostPerDay")) || 0;
+  const shadowWage = Number(watch("assumptions.familyLaborShadowWage"));
+
+  const setRates = (rates: number[]) =>
+    setValue("assumptions.discountRates", rates, { shouldDirty: true, shouldValidate: true });
+
+  const resetDefaults = () =>
+    setValue(
+      "assumptions",
+      { ...DEFAULT_CBA_ASSUMPTIONS, discountRates: [...DEFAULT_CBA_ASSUMPTIONS.discountRates] },
+      { shouldDirty: true, shouldValidate: true },
+    );
+
+  return (
+    <CollapsibleSection
+      title="CBA External Assumptions"
+      subtitle="Analyst parameters used by the cost-benefit analysis — not part of the questionnaire"
+      defaultOpen={false}
+      icon={<SlidersHorizontal size={20} />}
+      headerClassName="section-header--light"
+    >
+      <p className="form-hint">
+        {t("These parameters are not asked of the respondent. Change them to test other assumptions; the values used are saved with the form and written to the Parameters sheet of the CBA workbook.")}
+      </p>
+
+      {/* ── Discounting ─────────────────────────────────────── */}
+      <h3 className="subsection-title">{t("Discounting")}</h3>
+      <div className="form-grid" style={{ maxWidth: "720px" }}>
+        <FormField
+          label="Default Discount Rate"
+          unit="%"
+          type="number"
+          min="0"
+          max="50"
+          step="0.1"
+          registration={register("assumptions.defaultDiscountRate", { valueAsNumber: true })}
+          error={assumptionErrors?.defaultDiscountRate}
+          helpText="Used for the headline NPV, BCR, payback year and cost per tCO2"
+        />
+        <FormField
+          label="Tornado Sensitivity Flex"
+          unit="±%"
+          type="number"
+          min="1"
+          max="100"
+          step="1"
+          registration={register("assumptions.sensitivityFlexPct", { valueAsNumber: true })}
+          error={assumptionErrors?.sensitivityFlexPct}
+          helpText="Each driver is moved down and up by this share in the one-way sensitivity"
+        />
+      </div>
+
+      <div className="form-field" style={{ marginTop: "0.5rem" }}>
+        <label className="form-label">
+          {t("Sensitivity Discount Rates")}
+          <span className="form-unit"> (%)</span>
+        </label>
+        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}>
+          {discountRates.map((_, i) => (
+            <div key={i} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <input
+                className={`form-input ${assumptionErrors?.discountRates?.[i] ? "form-input--error" : ""}`}
+                type="number"
+                min="0"
+                max="50"
+                step="0.1"
+                style={{ width: "5.5rem" }}
+                {...register(`assumptions.discountRates.${i}`, { valueAsNumber: true })}
+              />
+              <button
+                type="button"
+                className="btn btn--small btn--secondary"
+                onClick={() => setRates(discountRates.filter((__, j) => j !== i))}
+                disabled={discountRates.length <= 1}
+                title={t("Remove rate")}
+                aria-label={t("Remove rate")}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn btn--small btn--secondary"
+            onClick={() => setRates([...discountRates, 0])}
+            disabled={discountRates.length >= MAX_DISCOUNT_RATES}
+          >
+            {t("+ Add rate")}
+          </button>
+        </div>
+        {assumptionErrors?.discountRates?.message && (
+          <span className="form-error">{assumptionErrors.discountRates.message}</span>
+        )}
+      </div>
+
+      {/* ── Carbon ──────────────────────────────────────────── */}
+      <h3 className="subsection-title" style={{ marginTop: "1.25rem" }}>{t("Carbon")}</h3>
+      <div className="form-grid form-grid--3">
+        <FormField
+          label="Carbon Price (Year 1)"
+          unit="US$/tCO2"
+          type="number"
+          min="0"
+          step="0.01"
+          registration={register("assumptions.carbonPrice", { valueAsNumber: true })}
+          error={assumptionErrors?.carbonPrice}
+        />
+        <FormField
+          label="Carbon Price Escalation"
+          unit="%/yr"
+          type="number"
+          step="0.1"
+          registration={register("assumptions.carbonPriceEscalation", { valueAsNumber: true })}
+          error={assumptionErrors?.carbonPriceEscalation}
+          helpText="Annual real change of the carbon price; 0 keeps the price flat"
+        />
+        <FormField
+          label="Buffer Pool Deduction"
+          unit="%"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          registration={register("assumptions.carbonBufferShare", { valueAsNumber: true })}
+          error={assumptionErrors?.carbonBufferShare}
+          helpText="Share of sequestered carbon withheld by the registry and not sold"
+        />
+        <ConvertedFormField
+          key={areaUnit.id}
+          label="Fallback Sequestration Rate"
+          unit={areaUnit.unit("tCO2/ha/yr")}
+          min="0"
+          step="0.1"
+          name="assumptions.carbonFallbackRate"
+          toDisplay={areaUnit.fromPerHa}
+          fromDisplay={areaUnit.toPerHa}
+          error={assumptionErrors?.carbonFallbackRate}
+          helpText="Mean rate used when the ecosystem has no reference sequestration value"
+        />
+      </div>
+
+      {/* ── Timing ──────────────────────────────────────────── */}
+      <h3 className="subsection-title" style={{ marginTop: "1.25rem" }}>{t("Timing of Costs & Revenues")}</h3>
+      <div className="form-grid" style={{ maxWidth: "720px" }}>
+        <FormField
+          label="NTFP Maturation Lag"
+          unit="years"
+          type="number"
+          min="0"
+          max={String(horizon - 1)}
+          step="1"
+          registration={register("assumptions.ntfpLagYears", { valueAsNumber: true })}
+          error={assumptionErrors?.ntfpLagYears}
+          helpText="Years before NTFP revenue starts when only a revenue total is available"
+        />
+        <FormField
+          label="Fencing Cost in Year 1"
+          unit="%"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          registration={register("assumptions.fencingUpfrontShare", { valueAsNumber: true })}
+          error={assumptionErrors?.fencingUpfrontShare}
+          helpText="Share of total fencing cost incurred at implementation; the rest is spread over the maintenance years"
+        />
+      </div>
+
+      {/* ── Land opportunity cost ───────────────────────────── */}
+      <h3 className="subsection-title" style={{ marginTop: "1.25rem" }}>{t("Land Opportunity Cost")}</h3>
+      <p className="form-hint">
+        {t(
+          "Charges the regional land lease from Section 4 ({lease}/{area}/year) as a cost in every year, so the headline NPV becomes the economic NPV. The financial NPV, without the forgone rent, is reported next to it.",
+          { lease: currency.format(areaUnit.fromPerHa(landLease)), area: areaUnit.symbol },
+        )}
+      </p>
+      <label className="method-exclusion-option" style={{ marginBottom: "0.5rem" }}>
+        <input type="checkbox" {...register("assumptions.landOpportunityCost")} />
+        <span>{t("Include the land opportunity cost in the cash flow")}</span>
+      </label>
+      {chargeLand && (
+        <div className="form-grid" style={{ maxWidth: "720px" }}>
+          <FormSelect
+            label="Land Cost Starts"
+            options={[
+              { value: "year1", label: "Year 1 (from implementation)" },
+              { value: "afterImplementation", label: "Year 2 (after implementation)" },
+            ]}
+            registration={register("assumptions.landCostStart")}
+            error={assumptionErrors?.landCostStart}
+          />
+          <FormField
+            label="Land Lease Escalation"
+            unit="%/yr"
+            type="number"
+            step="0.1"
+            registration={register("assumptions.landCostEscalation", { valueAsNumber: true })}
+            error={assumptionErrors?.landCostEscalation}
+            helpText="Annual real change of the land lease; 0 keeps it flat"
+          />
+        </div>
+      )}
+
+      {/* ── Non-hired labor ─────────────────────────────────── */}
+      <h3 className="subsection-title" style={{ marginTop: "1.25rem" }}>{t("Non-Hired Labor")}</h3>
+      <p className="form-hint">
+        {t("The non-hired share of each phase (Section 4) applied to the labor share of the implementation, maintenance and constraint costs is treated as unpaid: the financial view leaves it out of the cash outflows, the economic view values it at the shadow wage below.")}
+      </p>
+      <div className="form-grid" style={{ maxWidth: "720px" }}>
+        <FormField
+          label="Shadow Wage"
+          unit="% of hired rate"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          registration={register("assumptions.familyLaborShadowWage", { valueAsNumber: true })}
+          error={assumptionErrors?.familyLaborShadowWage}
+          helpText={
+            hiredRate > 0 && Number.isFinite(shadowWage)
+              ? t("≈ {shadow}/day against a hired rate of {hired}/day; 100 values non-hired labor like hired labor", {
+                shadow: currency.format((hiredRate * shadowWage) / 100),
+                hired: currency.format(hiredRate),
+              })
+              : "100 values non-hired labor like hired labor"
+          }
+        />
+      </div>
+
+      <div style={{ marginTop: "1rem" }}>
+        <button type="button" className="btn btn--secondary btn--small" onClick={resetDefaults}>
+          {t("Reset to defaults")}
+        </button>
+      </div>
+    </CollapsibleSection>
+  );
+}
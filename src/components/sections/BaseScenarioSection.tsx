@@ -9,7 +9,10 @@
 import { useState, useEffect, useCallback } from "react";
 import { useFormContext } from "react-hook-form";
 import type { RestorationModelFormData } from "../../schemas";
-import { CollapsibleSection, FormField } from "../ui";
+import { CollapsibleSection, FormField, ConvertedFormField, IssueNotes } from "../ui";
+import { resolveHorizon } from "../../utils/computations";
+import { issuesForField, issuesForFields } from "../../utils/rules";
+import { useValidationIssues, useI18n, useEntryCurrency, useAreaUnit } from "../../hooks";
 import { Coins } from "lucide-react";
 
 const CONTEXT_CONSTRAINTS = [
@@ -35,24 +38,31 @@ export function CostEstimatesSection() {
     formState: { errors },
   } = useFormContext<RestorationModelFormData>();
 
-  /* ---------- US$/ha → US$/km helper state ---------- */
+  const horizon = resolveHorizon(watch("timeHorizon"));
+  const issues = useValidationIssues();
+  const { t, formatNumber } = useI18n();
+  const currency = useEntryCurrency();
+  const areaUnit = useAreaUnit();
+
+  /* ---------- US$/area → US$/km helper state (typed per chosen area unit) ---------- */
   const [fireRiskPerHa, setFireRiskPerHa] = useState("");
   const [grazingPerHa, setGrazingPerHa] = useState("");
 
   const firebreakArea = watch("contextVariables.fireRisk.firebreakArea");
   const grazingArea = watch("contextVariables.grazingPressure.occurrences");
 
+  const { toPerHa } = areaUnit;
   const applyConversion = useCallback(
-    (key: "fireRisk" | "grazingPressure", costPerHa: number, area: number) => {
-      const result = haToKm(costPerHa, area);
+    (key: "fireRisk" | "grazingPressure", costPerUnit: number, area: number) => {
+      const result = haToKm(toPerHa(costPerUnit), area);
       if (result !== null) {
         setValue(`contextVariables.${key}.cost`, Math.round(result * 100) / 100, { shouldDirty: true });
       }
     },
-    [setValue],
+    [setValue, toPerHa],
   );
 
-  // Re-convert when area changes (if a US$/ha value was entered)
+  // Re-convert when area changes (if a per-area value was entered)
   useEffect(() => {
     const v = parseFloat(fireRiskPerHa);
     if (!isNaN(v) && v > 0) applyConversion("fireRisk", v, firebreakArea);
@@ -70,13 +80,10 @@ export function CostEstimatesSection() {
       title="3. Context Constraints &amp; Additional Costs"
       subtitle="Costs that apply independently of the restoration method"
       icon={<Coins size={20} />}
+      fieldPrefixes={["contextVariables"]}
     >
       <p className="form-hint">
-        Given an unfavourable scenario with contextual constraints, estimate the{" "}
-        <strong>additional cost</strong> required to overcome these constraints
-        and achieve the same level of ecological success as in a favourable scenario.
-        These additional activities would have the same costs for all methods, so you
-        need to fill this up just once. Pay attention to the unit of each cost field.
+        {t("Given an unfavourable scenario with contextual constraints, estimate the additional cost required to overcome these constraints and achieve the same level of ecological success as in a favourable scenario. These additional activities would have the same costs for all methods, so you need to fill this up just once. Pay attention to the unit of each cost field.")}
       </p>
 
       {CONTEXT_CONSTRAINTS.map((c) => {
@@ -88,46 +95,66 @@ export function CostEstimatesSection() {
         const distSum   = (Number(distLabor) || 0) + (Number(distMach) || 0) + (Number(distMat) || 0);
         const distFilled = distSum > 0;
         const totalCost = (Number(costVal) || 0) * (Number(occurrences) || 0);
+        // Per-area costs are shown in the chosen area unit; per-km costs as they are
+        const perArea = c.unit.endsWith("/ha");
+        const perShown = (v: number) => (perArea ? areaUnit.fromPerHa(v) : v);
+        const shownPer = perArea ? areaUnit.symbol : c.unit.replace("US$/", "");
 
         return (
           <div key={c.key} className="constraint-card">
-            <h4 className="constraint-card-title">{c.label}</h4>
+            <h4 className="constraint-card-title">{t(c.label)}</h4>
 
             <p className="form-hint" style={{ marginBottom: "0.75rem", fontSize: "0.85rem" }}>
               {c.key === "grazingPressure"
-                ? "Consider the linear cost (1 km = 1000 m) and the total area of each lot that probably will need to be fenced (ha). You can enter the cost directly in US$/km, or type US$/ha and it will be converted automatically."
+                ? t("Consider the linear cost (1 km = 1000 m) and the total area of each lot that probably will need to be fenced ({area}). You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.", { currency: currency.symbol, area: areaUnit.symbol })
                 : c.key === "fireRisk"
-                  ? "Consider the linear cost (1 km = 1000 m) and the total area that needs fire breaks. You can enter the cost directly in US$/km, or type US$/ha and it will be converted automatically."
-                  : "Consider the total number of times this activity will need to occur over the 20-year project horizon (including both implementation and maintenance phases)."}
+                  ? t("Consider the linear cost (1 km = 1000 m) and the total area that needs fire breaks. You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.", { currency: currency.symbol, area: areaUnit.symbol })
+                  : t("Consider the total number of times this activity will need to occur over the {horizon}-year project horizon (including both implementation and maintenance phases).", { horizon })}
             </p>
 
-            {/* ── Cost fields: US$/km + optional US$/ha helper (fire & fence only) ── */}
+            {/* ── Cost fields: US$/km + optional US$/area helper (fire & fence only) ── */}
             <div
               className={`form-grid${(c.key === "fireRisk" || c.key === "grazingPressure") ? " form-grid--3" : ""}`}
               style={{ maxWidth: (c.key === "fireRisk" || c.key === "grazingPressure") ? "720px" : "480px" }}
             >
-              <FormField
-                label="Unit Cost"
-                unit={c.unit}
-                type="number"
-                min="0"
-                step="0.01"
-                registration={register(`contextVariables.${c.key}.cost`, { valueAsNumber: true })}
-                error={ctxErrors?.[c.key]?.cost}
-              />
+              {c.unit.endsWith("/ha") ? (
+                <ConvertedFormField
+                  key={areaUnit.id}
+                  label="Unit Cost"
+                  unit={areaUnit.unit(currency.unit(c.unit))}
+                  min="0"
+                  step="0.01"
+                  name={`contextVariables.${c.key}.cost`}
+                  toDisplay={areaUnit.fromPerHa}
+                  fromDisplay={areaUnit.toPerHa}
+                  error={ctxErrors?.[c.key]?.cost}
+                  issues={issuesForField(issues, `contextVariables.${c.key}.cost`)}
+                />
+              ) : (
+                <FormField
+                  label="Unit Cost"
+                  unit={currency.unit(c.unit)}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  registration={register(`contextVariables.${c.key}.cost`, { valueAsNumber: true })}
+                  error={ctxErrors?.[c.key]?.cost}
+                  issues={issuesForField(issues, `contextVariables.${c.key}.cost`)}
+                />
+              )}
 
               {(c.key === "fireRisk" || c.key === "grazingPressure") && (
                 <div className="form-field">
                   <label className="form-label">
-                    or enter per hectare
-                    <span className="form-unit"> (US$/ha)</span>
+                    {t("or enter per area")}
+                    <span className="form-unit"> ({areaUnit.unit(currency.unit("US$/ha"))})</span>
                   </label>
                   <input
                     className="form-input"
                     type="number"
                     min="0"
                     step="0.01"
-                    placeholder="optional"
+                    placeholder={t("optional")}
                     value={c.key === "fireRisk" ? fireRiskPerHa : grazingPerHa}
                     onChange={(e) => {
                       const raw = e.target.value;
@@ -143,64 +170,76 @@ export function CostEstimatesSection() {
                   <span style={{ fontSize: "0.75rem", color: "#6b7280", marginTop: "0.2rem", display: "block" }}>
                     {(() => {
                       const area = c.key === "fireRisk" ? firebreakArea : grazingArea;
-                      if (!area || area <= 0) return "Fill in the area field to enable conversion";
+                      if (!area || area <= 0) return t("Fill in the area field to enable conversion");
                       const v = parseFloat(c.key === "fireRisk" ? fireRiskPerHa : grazingPerHa);
-                      if (isNaN(v) || v <= 0) return `Converts to US$/km using √(${area} ha)`;
-                      const result = haToKm(v, area);
-                      return result !== null ? `= ${result.toFixed(2)} US$/km` : "";
+                      if (isNaN(v) || v <= 0) return t("Converts to {currency}/km using √({area} ha)", { currency: currency.symbol, area: formatNumber(area, { maximumFractionDigits: 2 }) });
+                      const result = haToKm(areaUnit.toPerHa(v), area);
+                      return result !== null ? `= ${formatNumber(result, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency.unit("US$/km")}` : "";
                     })()}
                   </span>
                 </div>
               )}
 
-              <FormField
-                label={c.key === "grazingPressure" ? "Average area that needs fences in one typical property" : "Number of occurrences over 20 years"}
-                unit={c.key === "grazingPressure" ? "ha" : "times"}
-                type="number"
-                min="0"
-                step={c.key === "grazingPressure" ? "0.01" : "1"}
-                placeholder={c.key === "grazingPressure" ? "e.g., 10" : "e.g., 5"}
-                registration={register(`contextVariables.${c.key}.occurrences`, { valueAsNumber: true })}
-                error={ctxErrors?.[c.key]?.occurrences}
-              />
-              {c.key === "fireRisk" && (
+              {c.key === "grazingPressure" ? (
+                <ConvertedFormField
+                  key={areaUnit.id}
+                  label="Average area that needs fences in one typical property"
+                  unit={areaUnit.symbol}
+                  min="0"
+                  step="0.01"
+                  placeholder="e.g., 10"
+                  name={`contextVariables.${c.key}.occurrences`}
+                  toDisplay={areaUnit.fromHa}
+                  fromDisplay={areaUnit.toHa}
+                  error={ctxErrors?.[c.key]?.occurrences}
+                  issues={issuesForField(issues, `contextVariables.${c.key}.occurrences`)}
+                />
+              ) : (
                 <FormField
-                  label="Average total area that needs fire breaks"
-                  unit="ha"
+                  label={t("Number of occurrences over {horizon} years", { horizon })}
+                  unit="times"
                   type="number"
                   min="0"
+                  step="1"
+                  placeholder="e.g., 5"
+                  registration={register(`contextVariables.${c.key}.occurrences`, { valueAsNumber: true })}
+                  error={ctxErrors?.[c.key]?.occurrences}
+                  issues={issuesForField(issues, `contextVariables.${c.key}.occurrences`)}
+                />
+              )}
+              {c.key === "fireRisk" && (
+                <ConvertedFormField
+                  key={areaUnit.id}
+                  label="Average total area that needs fire breaks"
+                  unit={areaUnit.symbol}
+                  min="0"
                   step="0.01"
                   placeholder="e.g., 50"
-                  registration={register(`contextVariables.fireRisk.firebreakArea`, { valueAsNumber: true })}
+                  name="contextVariables.fireRisk.firebreakArea"
+                  toDisplay={areaUnit.fromHa}
+                  fromDisplay={areaUnit.toHa}
                   error={ctxErrors?.fireRisk?.firebreakArea}
                 />
               )}
             </div>
             {totalCost > 0 && (
               <p style={{ fontSize: "0.85rem", color: "#374151", margin: "0.25rem 0 0.5rem", fontWeight: 500 }}>
-                Total cost: US$ {totalCost.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                {t("Total cost")}: {currency.format(perShown(totalCost))}
               </p>
             )}
 
             <div className="cost-distribution" style={{ marginTop: "0.5rem" }}>
               <p className="cost-distribution-label">
-                Cost distribution
+                {t("Cost distribution")}
                 {distFilled && (
                   <span className={`cost-distribution-sum ${Math.abs(distSum - 100) < 0.01 ? "cost-distribution-sum--ok" : "cost-distribution-sum--warn"}`}>
                     {Math.abs(distSum - 100) < 0.01 ? "✓ 100%" : `Σ = ${distSum.toFixed(0)}%`}
                   </span>
                 )}
               </p>
-              {distFilled && Math.abs(distSum - 100) >= 0.01 && (
-                <p className="cost-distribution-warning">
-                  The distribution must sum to exactly 100%. Currently: {distSum.toFixed(1)}%.
-                </p>
-              )}
-              {!distFilled && (
-                <p className="cost-distribution-warning">
-                  Please fill in the cost distribution for this cost category (must sum to 100%).
-                </p>
-              )}
+              <IssueNotes
+                issues={issuesForFields(issues, [`contextVariables.${c.key}.distribution.labor`])}
+              />
               <div className="cost-distribution-fields">
                 <FormField
                   label="Labor (%)"
@@ -232,9 +271,9 @@ export function CostEstimatesSection() {
               </div>
               {distFilled && Number(costVal) > 0 && (
                 <p className="cost-distribution-abs">
-                  Labor: US$ {((Number(distLabor) || 0) / 100 * Number(costVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/{c.unit.replace("US$/", "")}
-                  {" · "}Machinery: US$ {((Number(distMach) || 0) / 100 * Number(costVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/{c.unit.replace("US$/", "")}
-                  {" · "}Materials: US$ {((Number(distMat) || 0) / 100 * Number(costVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/{c.unit.replace("US$/", "")}
+                  {t("Labor")}: {currency.format(perShown((Number(distLabor) || 0) / 100 * Number(costVal)))}/{shownPer}
+                  {" · "}{t("Machinery")}: {currency.format(perShown((Number(distMach) || 0) / 100 * Number(costVal)))}/{shownPer}
+                  {" · "}{t("Materials")}: {currency.format(perShown((Number(distMat) || 0) / 100 * Number(costVal)))}/{shownPer}
                 </p>
               )}
             </div>
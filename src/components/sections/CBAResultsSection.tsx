@@ -1,12 +1,22 @@
 /**
  * CBAResultsSection – Illustrative Cost-Benefit Analysis results panel.
  *
- * Reads current form values, computes 20-year CBA projections for every
- * active (non-disabled) restoration method, and displays:
- *   — KPI summary cards: NPV, BCR, IRR, Payback Year
+ * Reads current form values, computes CBA projections over the chosen time
+ * horizon for every active (non-disabled) restoration method, and displays:
+ *   — KPI summary cards: NPV, BCR, IRR, Payback Year, carbon revenue, cost per tCO2
  *   — Annual cost components (stacked bar: implementation / maintenance / constraints)
- *   — NPV sensitivity (bar chart across 5 discount rates)
- *   — 20-year totals footer row
+ *   — NPV sensitivity (bar chart across the discount rates)
+ *   — One-way sensitivity tornado (drivers ranked by NPV swing at ±flex%)
+ *   — Horizon totals footer row
+ *   — Monte Carlo uncertainty analysis (P10/P50/P90 NPV, P(NPV > 0), histogram)
+ *
+ * The headline indicators are the economic view (non-hired labor at the
+ * shadow wage, forgone land rent when charged). When the financial view
+ * (cash outlays only) differs, its NPV, BCR and IRR are shown next to them.
+ *
+ * When the amounts were entered in a local currency, results can be shown in
+ * that currency or in US$ (converted at the recorded exchange rate). Results
+ * are computed per hectare and shown per the questionnaire's area unit.
  *
  * This panel is illustrative only — no download. The questionnaire data is
  * exported through the main Export Excel button.
@@ -26,10 +36,23 @@ import {
 } from "recharts";
 import { BarChart3 } from "lucide-react";
 import type { RestorationModelFormData } from "../../schemas";
-import type { RestorationModel } from "../../types";
-import { computeMethodCBA, METHOD_KEYS as CBA_METHOD_KEYS } from "../../utils/cba";
+import type { RestorationModel, MethodType } from "../../types";
 import type { MethodCBA } from "../../utils/cba";
+import { resolveHorizon } from "../../utils/computations";
+import {
+  isLocalCurrency,
+  resolveCurrency,
+  currencySymbol,
+  modelInCurrency,
+  type ResultCurrency,
+} from "../../utils/currency";
+import { resolveAreaUnit, tornadoPerAreaUnit } from "../../utils/area";
+import { computeActiveResults } from "../../utils/report";
+import { useI18n } from "../../hooks";
+import { translateMessage } from "../../utils/i18n";
+import { computeTornado, type TornadoResult } from "../../utils/sensitivity";
 import { CollapsibleSection } from "../ui";
+import { SimulationPanel } from "./SimulationPanel";
 
 // ---------------------------------------------------------------------------
 // Palette — distinct colours per cost category for the stacked bar chart.
@@ -38,20 +61,14 @@ const PALETTE = {
   impl:       "#c0392b",   // red       – implementation cost
   maint:      "#2596be",   // blue      – maintenance cost
   constraint: "#f59e0b",   // amber     – constraint cost
+  adjustment: "#8e44ad",   // purple    – interaction adjustment
+  land:       "#7a5c3a",   // brown     – land opportunity cost
+  shadow:     "#64748b",   // slate     – shadow labor adjustment
   netLine:    "#1a3530",   // very dark – reference line
   npvPos:     "#4E8465",
   npvNeg:     "#c0392b",
 };
 
-function fmtUSD(n: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(n);
-}
-
 // ---------------------------------------------------------------------------
 // Props
 // ---------------------------------------------------------------------------
@@ -65,31 +82,58 @@ interface Props {
 // ---------------------------------------------------------------------------
 
 export function CBAResultsSection({ values }: Props) {
-  const results = useMemo<MethodCBA[]>(() => {
-    const disabled = new Set<string>((values.disabledMethods ?? []) as string[]);
-    const data = values as unknown as RestorationModel;
-    return CBA_METHOD_KEYS
-      .filter((mk) => !disabled.has(mk))
-      .map((mk) => {
-        const method = data.methodCosts?.[mk];
-        if (!method || !((method.implementationCost ?? 0) > 0)) return null;
-        try { return computeMethodCBA(mk, method, data); } catch { return null; }
-      })
-      .filter((r): r is MethodCBA => r !== null);
-  }, [values]);
+  const { t } = useI18n();
+  const entered = values as unknown as RestorationModel;
+  const hasLocal = isLocalCurrency(entered);
+  const [resultCurrency, setResultCurrency] = useState<ResultCurrency>("local");
+  const shown: ResultCurrency = hasLocal ? resultCurrency : "USD";
+  const currency = shown === "USD" ? "USD" : resolveCurrency(entered.currency).code;
+  const areaUnit = resolveAreaUnit(entered.areaUnit);
+
+  const data = useMemo(() => modelInCurrency(values as unknown as RestorationModel, shown), [values, shown]);
+
+  const results = useMemo<MethodCBA[]>(
+    () => computeActiveResults(values as unknown as RestorationModel, shown),
+    [values, shown],
+  );
 
   const [activeId, setActiveId] = useState<string>("");
   const active = results.find((r) => r.methodId === activeId) ?? results[0] ?? null;
 
+  const tornado = useMemo<TornadoResult | null>(() => {
+    if (!active) return null;
+    try {
+      return tornadoPerAreaUnit(computeTornado(active.methodId as MethodType, data), data.areaUnit);
+    } catch {
+      return null;
+    }
+  }, [active, data]);
+
   if (results.length === 0) return null;
 
   return (
     <CollapsibleSection
       title="Results: Cost-Benefit Analysis"
-      subtitle="20-year NPV, IRR, BCR and cash-flow projections per restoration method"
+      subtitle={t("{horizon}-year NPV, IRR, BCR and cash-flow projections per restoration method", { horizon: resolveHorizon(values.timeHorizon) })}
       defaultOpen={true}
       icon={<BarChart3 size={20} />}
     >
+      {/* Result currency (only when the amounts were entered in a local currency) */}
+      {hasLocal && (
+        <div className="cba-method-tabs">
+          {(["local", "USD"] as const).map((c) => (
+            <button
+              key={c}
+              type="button"
+              className={`cba-method-tab${shown === c ? " cba-method-tab--active" : ""}`}
+              onClick={() => setResultCurrency(c)}
+            >
+              {t("Results in {currency}", { currency: currencySymbol(c === "USD" ? "USD" : resolveCurrency(entered.currency).code) })}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Method selector tabs (only shown when > 1 method) */}
       {results.length > 1 && (
         <div className="cba-method-tabs">
@@ -100,16 +144,20 @@ export function CBAResultsSection({ values }: Props) {
               className={`cba-method-tab${active?.methodId === r.methodId ? " cba-method-tab--active" : ""}`}
               onClick={() => setActiveId(r.methodId)}
             >
-              {r.methodLabel}
+              {t(r.methodLabel)}
             </button>
           ))}
         </div>
       )}
 
       {active ? (
-        <MethodCBAView cba={active} />
+        <>
+          <MethodCBAView cba={active} currency={currency} areaSymbol={areaUnit.symbol} />
+          {tornado && <TornadoBlock tornado={tornado} currency={currency} />}
+          <SimulationPanel key={`${active.methodId}-${shown}`} methodId={active.methodId as MethodType} values={values} resultCurrency={shown} />
+        </>
       ) : (
-        <p className="form-empty">Complete at least one method's costs to see results.</p>
+        <p className="form-empty">{t("Complete at least one method's costs to see results.")}</p>
       )}
     </CollapsibleSection>
   );
@@ -119,16 +167,21 @@ export function CBAResultsSection({ values }: Props) {
 // Per-method view with KPIs + 3 charts
 // ---------------------------------------------------------------------------
 
-function MethodCBAView({ cba }: { cba: MethodCBA }) {
-  const npv10 = cba.npvByRate.find((r) => r.rate === 0.10)?.npv ?? 0;
+export function MethodCBAView({ cba, currency, areaSymbol }: { cba: MethodCBA; currency: string; areaSymbol: string }) {
+  const { t, formatNumber, formatCurrency } = useI18n();
+  const fmt = (n: number) => formatCurrency(n, currency, 0);
+  const fixed = (n: number, digits: number) => formatNumber(n, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const pct = (rate: number | null) => (rate != null ? `${fixed(rate * 100, 1)}%` : t("N/A"));
+  const rateLabel = `${formatNumber(cba.discountRate * 100, { maximumFractionDigits: 2 })}%`;
+  const unit = `${currencySymbol(currency)}/${areaSymbol}`;
 
-  // Calculate discounted totals at 10%
+  // Calculate discounted totals at the default discount rate
   const totalCostsDiscounted = cba.cashFlows.reduce((sum, cf) => {
-    const discountFactor = 1 / Math.pow(1.10, cf.projectYear - 1);
+    const discountFactor = 1 / Math.pow(1 + cba.discountRate, cf.projectYear - 1);
     return sum + cf.totalCost * discountFactor;
   }, 0);
   const totalBenefitsDiscounted = cba.cashFlows.reduce((sum, cf) => {
-    const discountFactor = 1 / Math.pow(1.10, cf.projectYear - 1);
+    const discountFactor = 1 / Math.pow(1 + cba.discountRate, cf.projectYear - 1);
     return sum + cf.totalBenefit * discountFactor;
   }, 0);
 
@@ -139,7 +192,13 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
     implementation: cf.implCost,
     maintenance: cf.maintCost,
     constraints: cf.constraintCost,
+    adjustment: cf.adjustmentCost,
+    land: cf.landCost,
+    shadow: cf.shadowLaborAdjustment,
   }));
+  const hasLandCost = cba.totalLandCost !== 0;
+  const hasShadowLabor = cba.cashFlows.some((cf) => cf.shadowLaborAdjustment !== 0);
+  const hasFinancialView = Math.abs(cba.financialNpv - cba.npv) >= 0.005;
 
   const npvSensData = cba.npvByRate.map((r) => ({
     rate: `${(r.rate * 100).toFixed(0)}%`,
@@ -154,29 +213,58 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
       <div className="cba-kpi-row">
         <KpiCard
 
-          label="NPV (10% discount)"
-          value={fmtUSD(npv10)}
-          sub="20-year net present value"
-          variant={npv10 >= 0 ? "positive" : "negative"}
+          label={t(hasFinancialView ? "Economic NPV ({rate} discount)" : "NPV ({rate} discount)", { rate: rateLabel })}
+          value={fmt(cba.npv)}
+          sub={t(
+            hasFinancialView
+              ? "{horizon}-year NPV with non-hired labor and land at their opportunity cost"
+              : "{horizon}-year net present value",
+            { horizon: cba.horizon },
+          )}
+          variant={cba.npv >= 0 ? "positive" : "negative"}
         />
+        {hasFinancialView && (
+          <KpiCard
+            label={t("Financial NPV ({rate} discount)", { rate: rateLabel })}
+            value={fmt(cba.financialNpv)}
+            sub={t("Cash outlays only · BCR {bcr} · IRR {irr}", { bcr: fixed(cba.financialBcr, 2), irr: pct(cba.financialIrr) })}
+            variant={cba.financialNpv >= 0 ? "positive" : "negative"}
+          />
+        )}
         <KpiCard
-          label="BCR"
-          value={cba.bcr.toFixed(2)}
-          sub="Benefit-cost ratio"
+          label={t("BCR")}
+          value={fixed(cba.bcr, 2)}
+          sub={t("Benefit-cost ratio")}
           variant={cba.bcr >= 1 ? "positive" : "negative"}
         />
         <KpiCard
-          label="IRR"
-          value={cba.irr != null ? `${(cba.irr * 100).toFixed(1)}%` : "N/A"}
-          sub="Internal rate of return"
-          variant={cba.irr != null && cba.irr > 0.06 ? "positive" : "neutral"}
+          label={t("IRR")}
+          value={pct(cba.irr)}
+          sub={t("Internal rate of return")}
+          variant={cba.irr != null && cba.irr > cba.discountRate ? "positive" : "neutral"}
         />
         <KpiCard
-          label="Payback Year"
-          value={cba.paybackYear != null ? `Year ${cba.paybackYear}` : "Not reached"}
-          sub="Discounted payback"
+          label={t("Payback Year")}
+          value={cba.paybackYear != null ? t("Year {year}", { year: cba.paybackYear }) : t("Not reached")}
+          sub={t("Discounted payback")}
           variant={cba.paybackYear != null ? "positive" : "neutral"}
         />
+        <KpiCard
+          label={t("Carbon Revenue")}
+          value={fmt(cba.totalCarbonRevenue)}
+          sub={t("{credits} tCO2/{area} credited ({rate} t/{area}/yr gross)", {
+            credits: fixed(cba.totalCarbonCredits, 0),
+            rate: fixed(cba.carbonSeqRate, 1),
+            area: areaSymbol,
+          })}
+          variant={cba.totalCarbonRevenue > 0 ? "positive" : "neutral"}
+        />
+        <KpiCard
+          label={t("Cost per tCO2")}
+          value={cba.costPerTCO2 != null ? fmt(cba.costPerTCO2) : t("N/A")}
+          sub={t("Discounted cost per tonne sequestered")}
+          variant="neutral"
+        />
       </div>
 
       {/* ── Charts (2-column row) ───────────────────────────────────────── */}
@@ -184,11 +272,12 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
 
         {/* Cost components stacked bar */}
         <div className="cba-chart-block">
-          <h4 className="cba-chart-title">Annual Cost Components (US$/ha)</h4>
-          <p className="cba-chart-hint">Stacked breakdown by implementation, maintenance, and constraint costs per year.</p>
+          <h4 className="cba-chart-title">{t("Annual Cost Components ({unit})", { unit })}</h4>
+          <p className="cba-chart-hint">{t("Stacked breakdown by implementation, maintenance, and constraint costs per year, plus any interaction adjustment, land opportunity cost and shadow-wage revaluation of non-hired labor.")}</p>
           <ResponsiveContainer width="100%" height={250}>
             <BarChart
               data={costComponentsData}
+              stackOffset="sign"
               barSize={10}
               barCategoryGap="22%"
               margin={{ top: 8, right: 16, left: 4, bottom: 5 }}
@@ -196,22 +285,31 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
               <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
               <XAxis dataKey="year" tick={{ fontSize: 9 }} />
               <YAxis
-                tickFormatter={(v: number) => `$${(v / 1000).toFixed(0)}k`}
+                tickFormatter={(v: number) => `${(v / 1000).toFixed(0)}k`}
                 tick={{ fontSize: 9 }}
               />
-              <Tooltip formatter={(v, name) => [fmtUSD(Number(v)), String(name)]} />
+              <Tooltip formatter={(v, name) => [fmt(Number(v)), String(name)]} />
               <Legend wrapperStyle={{ fontSize: 10, paddingTop: 4 }} />
-              <Bar dataKey="implementation" name="Implementation" stackId="c" fill={PALETTE.impl} />
-              <Bar dataKey="maintenance" name="Maintenance" stackId="c" fill={PALETTE.maint} />
-              <Bar dataKey="constraints" name="Constraints" stackId="c" fill={PALETTE.constraint} />
+              <Bar dataKey="implementation" name={t("Implementation")} stackId="c" fill={PALETTE.impl} />
+              <Bar dataKey="maintenance" name={t("Maintenance")} stackId="c" fill={PALETTE.maint} />
+              <Bar dataKey="constraints" name={t("Constraints")} stackId="c" fill={PALETTE.constraint} />
+              {cba.interactionAdjustment !== 0 && (
+                <Bar dataKey="adjustment" name={t("Interaction adj.")} stackId="c" fill={PALETTE.adjustment} />
+              )}
+              {hasLandCost && (
+                <Bar dataKey="land" name={t("Land opportunity cost")} stackId="c" fill={PALETTE.land} />
+              )}
+              {hasShadowLabor && (
+                <Bar dataKey="shadow" name={t("Shadow labor adj.")} stackId="c" fill={PALETTE.shadow} />
+              )}
             </BarChart>
           </ResponsiveContainer>
         </div>
 
         {/* NPV sensitivity */}
         <div className="cba-chart-block">
-          <h4 className="cba-chart-title">NPV Sensitivity to Discount Rate</h4>
-          <p className="cba-chart-hint">How different discount rate assumptions affect net present value.</p>
+          <h4 className="cba-chart-title">{t("NPV Sensitivity to Discount Rate")}</h4>
+          <p className="cba-chart-hint">{t("How different discount rate assumptions affect net present value.")}</p>
           <ResponsiveContainer width="100%" height={250}>
             <BarChart
               data={npvSensData}
@@ -221,14 +319,14 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
               <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
               <XAxis dataKey="rate" tick={{ fontSize: 11 }} />
               <YAxis
-                tickFormatter={(v: number) => `$${(v / 1000).toFixed(0)}k`}
+                tickFormatter={(v: number) => `${(v / 1000).toFixed(0)}k`}
                 tick={{ fontSize: 11 }}
               />
-              <Tooltip formatter={(v) => [fmtUSD(Number(v)), "NPV"]} />
+              <Tooltip formatter={(v) => [fmt(Number(v)), t("NPV")]} />
               <ReferenceLine y={0} stroke={PALETTE.netLine} strokeWidth={1.5} />
               <Bar
                 dataKey="npv"
-                name="NPV (US$/ha)"
+                name={t("NPV ({unit})", { unit })}
                 fill={PALETTE.npvPos}
                 radius={[3, 3, 0, 0]}
                 label={{
@@ -249,20 +347,32 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
       {/* ── Totals footer ─────────────────────────────────────────────────── */}
       <div className="cba-totals-row">
         <div className="cba-total-item">
-          <span className="cba-total-label">Total Costs (undiscounted)</span>
-          <span className="cba-total-value cba-total-value--cost">{fmtUSD(cba.totalCosts20yr)}</span>
+          <span className="cba-total-label">{t("Total Costs (undiscounted)")}</span>
+          <span className="cba-total-value cba-total-value--cost">{fmt(cba.totalCostsUndiscounted)}</span>
         </div>
         <div className="cba-total-item">
-          <span className="cba-total-label">Total Costs (disc. 10%)</span>
-          <span className="cba-total-value cba-total-value--cost">{fmtUSD(totalCostsDiscounted)}</span>
+          <span className="cba-total-label">{t("Total Costs (disc. {rate})", { rate: rateLabel })}</span>
+          <span className="cba-total-value cba-total-value--cost">{fmt(totalCostsDiscounted)}</span>
         </div>
+        {hasLandCost && (
+          <div className="cba-total-item">
+            <span className="cba-total-label">{t("of which Land Opportunity Cost (undiscounted)")}</span>
+            <span className="cba-total-value cba-total-value--cost">{fmt(cba.totalLandCost)}</span>
+          </div>
+        )}
+        {cba.totalFamilyLaborCost !== 0 && (
+          <div className="cba-total-item">
+            <span className="cba-total-label">{t("Non-Hired Labor in Costs (as entered)")}</span>
+            <span className="cba-total-value cba-total-value--cost">{fmt(cba.totalFamilyLaborCost)}</span>
+          </div>
+        )}
         <div className="cba-total-item">
-          <span className="cba-total-label">Total Benefits (undiscounted)</span>
-          <span className="cba-total-value cba-total-value--benefit">{fmtUSD(cba.totalBenefits20yr)}</span>
+          <span className="cba-total-label">{t("Total Benefits (undiscounted)")}</span>
+          <span className="cba-total-value cba-total-value--benefit">{fmt(cba.totalBenefitsUndiscounted)}</span>
         </div>
         <div className="cba-total-item">
-          <span className="cba-total-label">Total Benefits (disc. 10%)</span>
-          <span className="cba-total-value cba-total-value--benefit">{fmtUSD(totalBenefitsDiscounted)}</span>
+          <span className="cba-total-label">{t("Total Benefits (disc. {rate})", { rate: rateLabel })}</span>
+          <span className="cba-total-value cba-total-value--benefit">{fmt(totalBenefitsDiscounted)}</span>
         </div>
       </div>
 
@@ -270,6 +380,68 @@ function MethodCBAView({ cba }: { cba: MethodCBA }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Tornado chart — one-way sensitivity
+// ---------------------------------------------------------------------------
+
+function TornadoBlock({ tornado, currency }: { tornado: TornadoResult; currency: string }) {
+  const { t, formatCurrency } = useI18n();
+  const fmt = (n: number) => formatCurrency(n, currency, 0);
+  const data = tornado.drivers
+    .filter((d) => d.swing > 0)
+    .map((d) => ({
+      label: translateMessage(d.label),
+      low: d.npvLow - tornado.baseNpv,
+      high: d.npvHigh - tornado.baseNpv,
+      npvLow: d.npvLow,
+      npvHigh: d.npvHigh,
+    }));
+
+  return (
+    <div className="cba-chart-block" style={{ marginTop: "1rem" }}>
+      <h4 className="cba-chart-title">{t("One-Way Sensitivity (±{pct}%)", { pct: tornado.flexPct })}</h4>
+      <p className="cba-chart-hint">
+        {t(
+          "Change in NPV when each driver moves down or up by {pct}% with everything else held at its point estimate; base NPV {npv}. Drivers are ranked by NPV swing.",
+          { pct: tornado.flexPct, npv: fmt(tornado.baseNpv) },
+        )}
+      </p>
+      {data.length === 0 ? (
+        <p className="form-empty">{t("No driver changes the NPV.")}</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={Math.max(160, 34 * data.length + 50)}>
+          <BarChart
+            data={data}
+            layout="vertical"
+            stackOffset="sign"
+            barSize={16}
+            margin={{ top: 8, right: 24, left: 8, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+            <XAxis
+              type="number"
+              tickFormatter={(v: number) => `${v >= 0 ? "+" : ""}${(v / 1000).toFixed(1)}k`}
+              tick={{ fontSize: 9 }}
+            />
+            <YAxis type="category" dataKey="label" width={200} tick={{ fontSize: 10 }} />
+            <Tooltip
+              formatter={(v, name, item) => {
+                const row = item?.payload as { npvLow: number; npvHigh: number } | undefined;
+                const npv = item?.dataKey === "low" ? row?.npvLow : row?.npvHigh;
+                return [t("{change} (NPV {npv})", { change: fmt(Number(v)), npv: fmt(npv ?? 0) }), String(name)];
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: 10, paddingTop: 4 }} />
+            <ReferenceLine x={0} stroke={PALETTE.netLine} strokeWidth={1.5} />
+            <Bar dataKey="low" name={t("Driver −{pct}%", { pct: tornado.flexPct })} stackId="t" fill={PALETTE.maint} />
+            <Bar dataKey="high" name={t("Driver +{pct}%", { pct: tornado.flexPct })} stackId="t" fill={PALETTE.constraint} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // KPI Card
 // ---------------------------------------------------------------------------
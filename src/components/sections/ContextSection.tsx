@@ -16,9 +16,12 @@
 import { useState, useEffect } from "react";
 import { useFormContext } from "react-hook-form";
 import type { RestorationModelFormData } from "../../schemas";
-import { CollapsibleSection, FormField, InfoBox, CostTimelineBuilder, RevenueTimelineBuilder, ProductivityTimelineBuilder, DistributionPie } from "../ui";
+import { CollapsibleSection, FormField, ConvertedFormField, InfoBox, CostTimelineBuilder, RevenueTimelineBuilder, ProductivityTimelineBuilder, DistributionPie, IssueNotes } from "../ui";
 import { METHOD_TABS } from "../../constants";
-import type { CostSegment, MethodType, ProductivitySegment, RevenueSegment } from "../../types";
+import { resolveHorizon, withHorizon, spreadSegmentAsTotal, maintenanceTotal } from "../../utils/computations";
+import { isMethodTabComplete, issuesForField } from "../../utils/rules";
+import { useValidationIssues, useFieldFocusListener, useI18n, useEntryCurrency, useAreaUnit } from "../../hooks";
+import type { CostSegment, MethodCostEntry, MethodType, ProductivitySegment, RevenueSegment } from "../../types";
 import { Sprout } from "lucide-react";
 
 export function ContextSection() {
@@ -32,13 +35,18 @@ export function ContextSection() {
   const currentMethodType = watch("methodType") || "anr_30";
   const methodCosts = watch("methodCosts");
   const disabledMethods: MethodType[] = watch("disabledMethods") || [];
+  const horizon = resolveHorizon(watch("timeHorizon"));
+  const issues = useValidationIssues();
+  const { t, tLines } = useI18n();
+  const currency = useEntryCurrency();
+  const area = useAreaUnit();
 
   // Tabs visible to the user (exclude methods for which they have no data)
   const visibleTabs = METHOD_TABS.filter((t) => !disabledMethods.includes(t.id));
 
   const [activeTab, setActiveTab] = useState<MethodType>(currentMethodType);
 
-  const activeTabData = METHOD_TABS.find((t) => t.id === activeTab) || METHOD_TABS[0];
+  const activeTabData = METHOD_TABS.find((tab) => tab.id === activeTab) || METHOD_TABS[0];
 
   // Derive all active-tab values from the already-subscribed methodCosts snapshot.
   // Do NOT use individual watch(`methodCosts.${activeTab}.xxx`) calls — dynamic-path
@@ -57,12 +65,24 @@ export function ContextSection() {
   const maintenanceSegments       = (activeEntry?.maintenanceSegments       ?? []) as CostSegment[];
   const ntfpProductivitySegments  = (activeEntry?.ntfpProductivitySegments  ?? []) as ProductivitySegment[];
   const ntfpRevenueSegments       = (activeEntry?.ntfpRevenueSegments       ?? []) as RevenueSegment[];
+  // Rule issues for a field of the active method
+  const fieldIssues = (field: string) => issuesForField(issues, `methodCosts.${activeTab}.${field}`);
+  // Implied machinery hours; the share-sum rule is shown once under the pie
+  const machineryIssues = (phase: "implementation" | "maintenance") =>
+    fieldIssues(`${phase}Distribution.machinery`).filter((i) => i.ruleId === `method.machinery.${phase}`);
+  // Issues for the maintenance segment list as a whole and for each segment in it
+  const segmentPrefix = `methodCosts.${activeTab}.maintenanceSegments`;
+  const maintenanceSegmentIssues = issues.filter((i) =>
+    i.fields.some((f) => f === segmentPrefix || f.startsWith(`${segmentPrefix}.`)),
+  );
+  const applySpreadAsTotal = (index: number) => {
+    const segments = spreadSegmentAsTotal(maintenanceSegments, index);
+    setValue(`methodCosts.${activeTab}.maintenanceSegments`, segments, { shouldDirty: true });
+    setValue(`methodCosts.${activeTab}.maintenanceCost`, maintenanceTotal(segments), { shouldDirty: true });
+  };
   const ntfpDataMode: "production" | "revenue" =
     (activeEntry?.ntfpDataMode as "production" | "revenue" | undefined) ?? "production";
 
-  const implSum  = (Number(implLabor) || 0) + (Number(implMach) || 0) + (Number(implMat) || 0);
-  const maintSum = (Number(maintLabor) || 0) + (Number(maintMach) || 0) + (Number(maintMat) || 0);
-
   const isImplDistFilled  = (Number(implLabor) || 0) > 0 || (Number(implMach) || 0) > 0 || (Number(implMat) || 0) > 0;
   const isMaintDistFilled = (Number(maintLabor) || 0) > 0 || (Number(maintMach) || 0) > 0 || (Number(maintMat) || 0) > 0;
 
@@ -97,6 +117,15 @@ export function ContextSection() {
     }
   }, [currentMethodType]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Jumping to a method's field from the Issues list opens its tab
+  useFieldFocusListener(
+    (path) => METHOD_TABS.some((t) => path.startsWith(`methodCosts.${t.id}.`)),
+    (path) => {
+      const tabId = path.split(".")[1] as MethodType;
+      if (tabId !== activeTab && !disabledMethods.includes(tabId)) handleTabChange(tabId);
+    },
+  );
+
   // If active tab becomes disabled externally, switch to first visible
   useEffect(() => {
     if (disabledMethods.includes(activeTab)) {
@@ -105,33 +134,23 @@ export function ContextSection() {
     }
   }, [disabledMethods]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Check if a tab's costs have been filled (both > 0) and distributions sum to 100%
-  const isTabComplete = (tabId: string): boolean => {
-    const costs = methodCosts?.[tabId as MethodType];
-    if (!costs) return false;
-    if (costs.implementationCost <= 0 || costs.maintenanceCost <= 0) return false;
-    const id = costs.implementationDistribution;
-    const md = costs.maintenanceDistribution;
-    if (!id || !md) return false;
-    const iSum = (Number(id.labor) || 0) + (Number(id.machinery) || 0) + (Number(id.materials) || 0);
-    const mSum = (Number(md.labor) || 0) + (Number(md.machinery) || 0) + (Number(md.materials) || 0);
-    return Math.abs(iSum - 100) < 0.01 && Math.abs(mSum - 100) < 0.01;
-  };
+  const isTabComplete = (tabId: MethodType): boolean =>
+    isMethodTabComplete(methodCosts?.[tabId] as MethodCostEntry | undefined);
 
   return (
     <CollapsibleSection
       title="2. Context &amp; Scenario Definition"
       subtitle="Define the restoration method and local conditions"
       icon={<Sprout size={20} />}
+      fieldPrefixes={["methodCosts", "disabledMethods"]}
     >
       {/* ── Method Exclusion Box ───────────────────────────────── */}
       <div className="method-exclusion-box">
         <p className="method-exclusion-title">
-          Are there any methods for which you have no cost information?
+          {t("Are there any methods for which you have no cost information?")}
         </p>
         <p className="method-exclusion-hint">
-          Check the methods below for which you have no cost data.
-          The corresponding tab will be removed from the form.
+          {t("Check the methods below for which you have no cost data. The corresponding tab will be removed from the form.")}
         </p>
         <div className="method-exclusion-options">
           {METHOD_TABS.map((tab) => (
@@ -141,29 +160,27 @@ export function ContextSection() {
                 checked={disabledMethods.includes(tab.id)}
                 onChange={() => toggleDisabledMethod(tab.id)}
               />
-              <span>{tab.title}</span>
+              <span>{t(tab.title)}</span>
             </label>
           ))}
         </div>
         {disabledMethods.length > 0 && (
           <p className="method-exclusion-notice">
             ℹ️ {disabledMethods.length === METHOD_TABS.length - 1
-              ? "Only one tab is visible. Please complete at least this method."
-              : `${disabledMethods.length} method(s) hidden due to missing data.`}
+              ? t("Only one tab is visible. Please complete at least this method.")
+              : t("{count} method(s) hidden due to missing data.", { count: disabledMethods.length })}
           </p>
         )}
       </div>
 
       {/* ── Restoration Method Tabs ────────────────────────────── */}
       <p className="form-hint" style={{ fontSize: "0.92rem", lineHeight: 1.65, marginBottom: "1rem" }}>
-        We define the restoration method initially based on <strong>soil condition</strong>{" "}
-        and <strong>natural regenerating seedlings availability</strong>. The time horizon
-        for the analysis is <strong>20 years</strong>.
+        {t("We define the restoration method initially based on soil condition and natural regenerating seedlings availability. The time horizon for the analysis is {horizon} years (set in Project Identification).", { horizon })}
       </p>
 
       {visibleTabs.length === 0 ? (
         <div className="method-exclusion-notice" style={{ marginBottom: "1rem" }}>
-          ⚠️ All methods have been marked as having no data. Uncheck at least one above to fill in cost information.
+          ⚠️ {t("All methods have been marked as having no data. Uncheck at least one above to fill in cost information.")}
         </div>
       ) : (
       <>
@@ -171,10 +188,10 @@ export function ContextSection() {
       <div className="tabs-progress-banner">
         <div className="tabs-progress-icon">📋</div>
         <div className="tabs-progress-text">
-          <strong>Complete all {visibleTabs.length} restoration methods below.</strong>{" "}
-          Click each tab to fill in costs and distributions.
+          <strong>{t("Complete all {count} restoration methods below.", { count: visibleTabs.length })}</strong>{" "}
+          {t("Click each tab to fill in costs and distributions.")}
           <span className="tabs-progress-count">
-            {visibleTabs.filter(t => isTabComplete(t.id)).length} of {visibleTabs.length} completed
+            {t("{done} of {count} completed", { done: visibleTabs.filter((tab) => isTabComplete(tab.id)).length, count: visibleTabs.length })}
           </span>
         </div>
       </div>
@@ -189,11 +206,11 @@ export function ContextSection() {
               onClick={() => handleTabChange(tab.id)}
             >
               <span className="tab-step-number">{idx + 1}</span>
-              <span className="tab-label">{tab.title}</span>
+              <span className="tab-label">{t(tab.title)}</span>
               {isTabComplete(tab.id) ? (
-                <span className="tab-badge tab-badge--done" title="Completed">✓</span>
+                <span className="tab-badge tab-badge--done" title={t("Completed")}>✓</span>
               ) : (
-                <span className="tab-badge tab-badge--pending" title="Click to fill in">⬤</span>
+                <span className="tab-badge tab-badge--pending" title={t("Click to fill in")}>⬤</span>
               )}
             </button>
           ))}
@@ -202,13 +219,13 @@ export function ContextSection() {
         <div className="method-tab-content" key={activeTab}>
           <div className="method-info-box">
             {activeTabData.description.split("\n").map((line, i) => (
-              <p key={i}>{line}</p>
+              <p key={i}>{t(line)}</p>
             ))}
           </div>
           <div className="illustration-placeholder">
             <img
               src="/assets/Restoration_example.png"
-              alt="Restoration method illustration"
+              alt={t("Restoration method illustration")}
               className="method-illustration"
             />
           </div>
@@ -216,9 +233,9 @@ export function ContextSection() {
           {/* ── NTFP Species (only for NTFP tabs) ──────────────── */}
           {activeTab.endsWith("_ntfp") && (
             <div className="ntfp-species-box">
-              <h4 style={{ marginTop: "0.5rem", marginBottom: "0.35rem" }}>NTFP Species</h4>
+              <h4 style={{ marginTop: "0.5rem", marginBottom: "0.35rem" }}>{t("NTFP Species")}</h4>
               <p className="form-hint" style={{ marginBottom: "0.5rem" }}>
-                Select one native Non-Timber Forest Product (NTFP) species with good market potential in your region.
+                {t("Select one native Non-Timber Forest Product (NTFP) species with good market potential in your region.")}
               </p>
               <div style={{ maxWidth: "480px" }}>
                 <FormField
@@ -232,42 +249,39 @@ export function ContextSection() {
           )}
 
           {/* ── Basic Implementation Costs ───────────────────────── */}
-          <h4 style={{ marginTop: "1.25rem", marginBottom: "0.5rem" }}>Basic Implementation Costs (Year 1)</h4>
+          <h4 style={{ marginTop: "1.25rem", marginBottom: "0.5rem" }}>{t("Basic Implementation Costs (Year 1)")}</h4>
           <InfoBox
             title="What to include"
             text={activeTabData.implementationCostInfo}
           />
           <div style={{ maxWidth: "320px", marginTop: "0.75rem" }}>
-            <FormField
+            <ConvertedFormField
+              key={`${activeTab}-${area.id}`}
               label="Implementation Cost"
-              unit="US$/ha"
-              type="number"
+              unit={area.unit(currency.unit("US$/ha"))}
               min="0"
               step="0.01"
-              registration={register(`methodCosts.${activeTab}.implementationCost`, {
-                valueAsNumber: true,
-              })}
+              name={`methodCosts.${activeTab}.implementationCost`}
+              toDisplay={area.fromPerHa}
+              fromDisplay={area.toPerHa}
               error={errors.methodCosts?.[activeTab]?.implementationCost}
+              issues={fieldIssues("implementationCost")}
             />
           </div>
 
           <div className="cost-distribution">
             <div className="cost-distribution-header">
-              <p className="cost-distribution-label">Cost distribution</p>
+              <p className="cost-distribution-label">{t("Cost distribution")}</p>
               <DistributionPie slices={[
-                { label: "Labor",     value: Number(implLabor) || 0, color: "#2596be" },
-                { label: "Machinery", value: Number(implMach)  || 0, color: "#b45309" },
-                { label: "Materials", value: Number(implMat)   || 0, color: "#7c3aed" },
+                { label: t("Labor"),     value: Number(implLabor) || 0, color: "#2596be" },
+                { label: t("Machinery"), value: Number(implMach)  || 0, color: "#b45309" },
+                { label: t("Materials"), value: Number(implMat)   || 0, color: "#7c3aed" },
               ]} />
             </div>
             <p className="cost-distribution-hint">
-              What is the average percentage of the total implementation cost that refers to labor, materials, and machinery? The three values must sum to 100%.
+              {t("What is the average percentage of the total implementation cost that refers to labor, materials, and machinery? The three values must sum to 100%.")}
             </p>
-            {isImplDistFilled && Math.abs(implSum - 100) >= 0.01 && (
-              <p className="cost-distribution-warning">
-                The distribution must sum to exactly 100%. Currently: {implSum.toFixed(1)}%.
-              </p>
-            )}
+            <IssueNotes issues={fieldIssues("implementationDistribution.labor")} />
             <div className="cost-distribution-fields">
               <FormField
                 label="Labor (%)"
@@ -290,6 +304,7 @@ export function ContextSection() {
                   valueAsNumber: true,
                 })}
                 error={isImplDistFilled ? errors.methodCosts?.[activeTab]?.implementationDistribution?.machinery : undefined}
+                issues={machineryIssues("implementation")}
               />
               <FormField
                 label="Materials (%)"
@@ -305,13 +320,13 @@ export function ContextSection() {
             </div>
             {isImplDistFilled && Number(implCostVal) > 0 && (
               <p className="cost-distribution-abs">
-                Labor: US$ {((Number(implLabor) || 0) / 100 * Number(implCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
-                {" · "}Machinery: US$ {((Number(implMach) || 0) / 100 * Number(implCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
-                {" · "}Materials: US$ {((Number(implMat) || 0) / 100 * Number(implCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
+                {t("Labor")}: {currency.format(area.fromPerHa((Number(implLabor) || 0) / 100 * Number(implCostVal)))}/{area.symbol}
+                {" · "}{t("Machinery")}: {currency.format(area.fromPerHa((Number(implMach) || 0) / 100 * Number(implCostVal)))}/{area.symbol}
+                {" · "}{t("Materials")}: {currency.format(area.fromPerHa((Number(implMat) || 0) / 100 * Number(implCostVal)))}/{area.symbol}
               </p>
             )}
             <p className="cost-distribution-examples">
-              Materials: {activeTabData.implementationMaterialExamples}
+              {t("Materials")}: {t(activeTabData.implementationMaterialExamples)}
             </p>
 
 
@@ -319,45 +334,65 @@ export function ContextSection() {
 
           {/* ── Basic Maintenance Costs ────────────────────────── */}
           <hr className="cost-section-divider" />
-          <h4 style={{ marginTop: "1.25rem", marginBottom: "0.5rem" }}>Basic Maintenance Costs (Years 2–20)</h4>
+          <h4 style={{ marginTop: "1.25rem", marginBottom: "0.5rem" }}>{t("Basic Maintenance Costs (Years 2–{horizon})", { horizon })}</h4>
           <InfoBox
             title="What to include"
-            text={activeTabData.maintenanceCostInfo}
+            text={withHorizon(tLines(activeTabData.maintenanceCostInfo), horizon)}
           />
           <p className="form-hint" style={{ marginTop: "0.5rem" }}>
-            Add cost segments for different year ranges. The chart updates live. The total is carried to the Maintenance Cost field below.
+            {t("Add cost segments for different year ranges. The chart updates live. The total is carried to the Maintenance Cost field below.")}
           </p>
-          <CostTimelineBuilder
-            key={activeTab}
-            startYear={1}
-            maxYear={20}
-            value={maintenanceSegments}
-            onChange={(segments: CostSegment[]) =>
-              setValue(`methodCosts.${activeTab}.maintenanceSegments`, segments, { shouldDirty: true })
-            }
-            onTotalChange={(total) =>
-              setValue(`methodCosts.${activeTab}.maintenanceCost`, total, { shouldDirty: true })
+          <div data-field={segmentPrefix}>
+            <CostTimelineBuilder
+              key={activeTab}
+              startYear={1}
+              maxYear={horizon}
+              value={maintenanceSegments.map((seg) => ({ ...seg, cost: area.fromPerHa(seg.cost) }))}
+              onChange={(segments: CostSegment[]) =>
+                setValue(
+                  `methodCosts.${activeTab}.maintenanceSegments`,
+                  segments.map((seg) => ({ ...seg, cost: area.toPerHa(seg.cost) })),
+                  { shouldDirty: true },
+                )
+              }
+              onTotalChange={(total) =>
+                setValue(`methodCosts.${activeTab}.maintenanceCost`, area.toPerHa(total), { shouldDirty: true })
+              }
+              currencySymbol={currency.symbol}
+              areaSymbol={area.symbol}
+              isAnrEnrichment={activeTab === "anr_30" || activeTab === "anr_30_ntfp"}
+            />
+          </div>
+          <IssueNotes issues={maintenanceSegmentIssues}>
+            {(issue) =>
+              issue.ruleId === "segment.accumulated" && (
+                <>
+                  {" "}
+                  <button
+                    type="button"
+                    className="btn btn--small btn--secondary"
+                    onClick={() => applySpreadAsTotal(issue.target.segmentIndex!)}
+                  >
+                    {t("Interpret as total and spread over years")}
+                  </button>
+                </>
+              )
             }
-            isAnrEnrichment={activeTab === "anr_30" || activeTab === "anr_30_ntfp"}
-          />
+          </IssueNotes>
 
           <div className="cost-distribution">
             <div className="cost-distribution-header">
-              <p className="cost-distribution-label">Cost distribution</p>
+              <p className="cost-distribution-label">{t("Cost distribution")}</p>
               <DistributionPie slices={[
-                { label: "Labor",     value: Number(maintLabor) || 0, color: "#2596be" },
-                { label: "Machinery", value: Number(maintMach)  || 0, color: "#b45309" },
-                { label: "Materials", value: Number(maintMat)   || 0, color: "#7c3aed" },
+                { label: t("Labor"),     value: Number(maintLabor) || 0, color: "#2596be" },
+                { label: t("Machinery"), value: Number(maintMach)  || 0, color: "#b45309" },
+                { label: t("Materials"), value: Number(maintMat)   || 0, color: "#7c3aed" },
               ]} />
             </div>
             <p className="cost-distribution-hint">
-              What is the average percentage of the total maintenance cost that refers to labor, materials, and machinery? The three values must sum to 100%.
+              {t("What is the average percentage of the total maintenance cost that refers to labor, materials, and machinery? The three values must sum to 100%.")}
             </p>
-            {isMaintDistFilled && Math.abs(maintSum - 100) >= 0.01 && (
-              <p className="cost-distribution-warning">
-                The distribution must sum to exactly 100%. Currently: {maintSum.toFixed(1)}%.
-              </p>
-            )}
+            <IssueNotes issues={fieldIssues("maintenanceDistribution.labor")} />
             <div className="cost-distribution-fields">
               <FormField
                 label="Labor (%)"
@@ -380,6 +415,7 @@ export function ContextSection() {
                   valueAsNumber: true,
                 })}
                 error={isMaintDistFilled ? errors.methodCosts?.[activeTab]?.maintenanceDistribution?.machinery : undefined}
+                issues={machineryIssues("maintenance")}
               />
               <FormField
                 label="Materials (%)"
@@ -395,13 +431,13 @@ export function ContextSection() {
             </div>
             {isMaintDistFilled && Number(maintCostVal) > 0 && (
               <p className="cost-distribution-abs">
-                Labor: US$ {((Number(maintLabor) || 0) / 100 * Number(maintCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
-                {" · "}Machinery: US$ {((Number(maintMach) || 0) / 100 * Number(maintCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
-                {" · "}Materials: US$ {((Number(maintMat) || 0) / 100 * Number(maintCostVal)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}/ha
+                {t("Labor")}: {currency.format(area.fromPerHa((Number(maintLabor) || 0) / 100 * Number(maintCostVal)))}/{area.symbol}
+                {" · "}{t("Machinery")}: {currency.format(area.fromPerHa((Number(maintMach) || 0) / 100 * Number(maintCostVal)))}/{area.symbol}
+                {" · "}{t("Materials")}: {currency.format(area.fromPerHa((Number(maintMat) || 0) / 100 * Number(maintCostVal)))}/{area.symbol}
               </p>
             )}
             <p className="cost-distribution-examples">
-              Materials: {activeTabData.maintenanceMaterialExamples}
+              {t("Materials")}: {t(activeTabData.maintenanceMaterialExamples)}
             </p>
           </div>
 
@@ -411,16 +447,16 @@ export function ContextSection() {
               <hr className="cost-section-divider" />
               <div className="ntfp-revenue-section">
                 <h4 style={{ marginTop: "1.25rem", marginBottom: "0.5rem", color: "#1a7a42" }}>
-                  🌿 NTFP Revenue
+                  🌿 {t("NTFP Revenue")}
                 </h4>
                 <p className="form-hint" style={{ marginBottom: "0.75rem" }}>
-                  Estimate the expected revenue from Non-Timber Forest Products (NTFP) harvested during the maintenance period.
+                  {t("Estimate the expected revenue from Non-Timber Forest Products (NTFP) harvested during the maintenance period.")}
                 </p>
 
                 {/* ── Data mode selector ─────────────────────── */}
                 <div className="ntfp-data-mode-selector" style={{ marginBottom: "1rem", padding: "0.75rem 1rem", background: "#f5faf6", border: "1px solid #cfe6d6", borderRadius: "6px" }}>
                   <p style={{ margin: "0 0 0.5rem", fontWeight: 600, fontSize: "0.9rem", color: "#1a7a42" }}>
-                    Which NTFP data will you provide?
+                    {t("Which NTFP data will you provide?")}
                   </p>
                   <div style={{ display: "flex", gap: "1.5rem", flexWrap: "wrap" }}>
                     <label style={{ display: "flex", alignItems: "center", gap: "0.4rem", cursor: "pointer" }}>
@@ -433,7 +469,7 @@ export function ContextSection() {
                           setValue(`methodCosts.${activeTab}.ntfpDataMode`, "production", { shouldDirty: true })
                         }
                       />
-                      <span>Productivity data (kg/ha/yr)</span>
+                      <span>{t("Productivity data (kg/{area}/yr)", { area: area.symbol })}</span>
                     </label>
                     <label style={{ display: "flex", alignItems: "center", gap: "0.4rem", cursor: "pointer" }}>
                       <input
@@ -445,31 +481,39 @@ export function ContextSection() {
                           setValue(`methodCosts.${activeTab}.ntfpDataMode`, "revenue", { shouldDirty: true })
                         }
                       />
-                      <span>Revenue data (US$/ha/yr)</span>
+                      <span>{t("Revenue data ({currency}/{area}/yr)", { currency: currency.symbol, area: area.symbol })}</span>
                     </label>
                   </div>
                   <p style={{ margin: "0.4rem 0 0", fontSize: "0.78rem", color: "#4b6354" }}>
-                    Switching modes keeps the data on both sides — you can toggle freely.
+                    {t("Switching modes keeps the data on both sides — you can toggle freely.")}
                   </p>
                 </div>
 
                 {ntfpDataMode === "production" && (
-                  <div style={{ marginBottom: "1rem" }}>
-                    <h5 style={{ marginBottom: "0.35rem", color: "#92400e", fontSize: "0.9rem" }}>Average NTFP Productivity</h5>
+                  <div style={{ marginBottom: "1rem" }} data-field={`methodCosts.${activeTab}.ntfpProductivity`}>
+                    <h5 style={{ marginBottom: "0.35rem", color: "#92400e", fontSize: "0.9rem" }}>{t("Average NTFP Productivity")}</h5>
                     <p className="form-hint" style={{ marginBottom: "0.5rem" }}>
-                      Estimate how NTFP productivity (kg/ha/yr) changes over the maintenance period as the forest matures.
+                      {t("Estimate how NTFP productivity (kg/{area}/yr) changes over the maintenance period as the forest matures.", { area: area.symbol })}
                     </p>
                     <ProductivityTimelineBuilder
                       key={`prod-${activeTab}`}
                       startYear={1}
-                      maxYear={20}
-                      value={ntfpProductivitySegments}
+                      maxYear={horizon}
+                      value={ntfpProductivitySegments.map((seg) => ({ ...seg, productivity: area.fromPerHa(seg.productivity) }))}
                       onChange={(segments: ProductivitySegment[]) =>
-                        setValue(`methodCosts.${activeTab}.ntfpProductivitySegments`, segments, { shouldDirty: true })
+                        setValue(
+                          `methodCosts.${activeTab}.ntfpProductivitySegments`,
+                          segments.map((seg) => ({ ...seg, productivity: area.toPerHa(seg.productivity) })),
+                          { shouldDirty: true },
+                        )
                       }
                       onAverageChange={(avg) =>
-                        setValue(`methodCosts.${activeTab}.ntfpProductivity`, avg, { shouldDirty: true })
+                        setValue(`methodCosts.${activeTab}.ntfpProductivity`, area.toPerHa(avg), { shouldDirty: true })
                       }
+                      areaSymbol={area.symbol}
+                    />
+                    <IssueNotes
+                      issues={[...fieldIssues("ntfpProductivitySegments"), ...fieldIssues("ntfpProductivity")]}
                     />
                   </div>
                 )}
@@ -477,7 +521,7 @@ export function ContextSection() {
                 <div className="form-grid" style={{ maxWidth: "480px", marginBottom: "1rem" }}>
                   <FormField
                     label="Average Price during Harvesting Season"
-                    unit="US$/kg"
+                    unit={currency.unit("US$/kg")}
                     type="number"
                     min="0"
                     step="0.01"
@@ -486,26 +530,36 @@ export function ContextSection() {
                       valueAsNumber: true,
                     })}
                     error={errors.methodCosts?.[activeTab]?.ntfpPrice}
+                    issues={fieldIssues("ntfpPrice")}
                   />
                 </div>
 
                 {ntfpDataMode === "revenue" && (
                   <>
                     <p className="form-hint" style={{ marginTop: "0.5rem" }}>
-                      Add revenue segments for different year ranges. NTFP productivity may vary as the forest matures.
+                      {t("Add revenue segments for different year ranges. NTFP productivity may vary as the forest matures.")}
                     </p>
-                    <RevenueTimelineBuilder
-                      key={`rev-${activeTab}`}
-                      startYear={1}
-                      maxYear={20}
-                      value={ntfpRevenueSegments}
-                      onChange={(segments: RevenueSegment[]) =>
-                        setValue(`methodCosts.${activeTab}.ntfpRevenueSegments`, segments, { shouldDirty: true })
-                      }
-                      onTotalChange={(total) =>
-                        setValue(`methodCosts.${activeTab}.ntfpRevenue`, total, { shouldDirty: true })
-                      }
-                    />
+                    <div data-field={`methodCosts.${activeTab}.ntfpRevenueSegments`}>
+                      <RevenueTimelineBuilder
+                        key={`rev-${activeTab}`}
+                        startYear={1}
+                        maxYear={horizon}
+                        value={ntfpRevenueSegments.map((seg) => ({ ...seg, revenue: area.fromPerHa(seg.revenue) }))}
+                        onChange={(segments: RevenueSegment[]) =>
+                          setValue(
+                            `methodCosts.${activeTab}.ntfpRevenueSegments`,
+                            segments.map((seg) => ({ ...seg, revenue: area.toPerHa(seg.revenue) })),
+                            { shouldDirty: true },
+                          )
+                        }
+                        onTotalChange={(total) =>
+                          setValue(`methodCosts.${activeTab}.ntfpRevenue`, area.toPerHa(total), { shouldDirty: true })
+                        }
+                        currencySymbol={currency.symbol}
+                        areaSymbol={area.symbol}
+                      />
+                    </div>
+                    <IssueNotes issues={fieldIssues("ntfpRevenueSegments")} />
                   </>
                 )}
               </div>
@@ -0,0 +1,195 @@
+/**
+ * EmploymentSection – Employment generation indicators per restoration method.
+ *
+ * Converts the labor in each year's costs into person-days with the regional
+ * hired labor rate (Section 4) and shows:
+ *   — KPI cards: person-days over the horizon, FTE jobs per 1,000 ha in the
+ *     implementation year, over the maintenance years and on average
+ *   — Person-days by year, stacked hired / non-hired
+ *   — Person-days by gender
+ *   — Phase table (implementation / maintenance / total)
+ *
+ * Person-days are shown per the questionnaire's area unit; jobs are always
+ * per 1,000 ha. The same indicators are written to the "Employment" sheet
+ * of the CBA export.
+ */
+
+import { useMemo, useState } from "react";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Users } from "lucide-react";
+import type { RestorationModelFormData } from "../../schemas";
+import type { RestorationModel } from "../../types";
+import { FTE_DAYS_PER_YEAR } from "../../constants";
+import { computeActiveResults } from "../../utils/report";
+import { computeEmployment, type MethodEmployment } from "../../utils/employment";
+import { resolveHorizon } from "../../utils/computations";
+import { resolveAreaUnit, fromPerHa } from "../../utils/area";
+import { useI18n } from "../../hooks";
+import { CollapsibleSection, SummaryTable } from "../ui";
+
+const PALETTE = {
+  hired:    "#2596be",
+  nonHired: "#b45309",
+  male:     "#2596be",
+  female:   "#e91e8c",
+  other:    "#7c3aed",
+};
+
+interface Props {
+  values: RestorationModelFormData;
+}
+
+export function EmploymentSection({ values }: Props) {
+  const { t } = useI18n();
+  const entered = values as unknown as RestorationModel;
+  const areaUnit = resolveAreaUnit(entered.areaUnit);
+  const hasRate = (Number(entered.laborBreakdown?.hiredLaborCostPerDay) || 0) > 0;
+
+  // Per-hectare results in the entry currency, the currency of the hired rate
+  const employment = useMemo<MethodEmployment[]>(() => {
+    const data = { ...(values as unknown as RestorationModel), areaUnit: "ha" as const };
+    return computeActiveResults(data, "local")
+      .map((cba) => computeEmployment(cba, data))
+      .filter((e): e is MethodEmployment => e !== null);
+  }, [values]);
+
+  const [activeId, setActiveId] = useState<string>("");
+  const active = employment.find((e) => e.methodId === activeId) ?? employment[0] ?? null;
+
+  if (hasRate && !active) return null;
+
+  return (
+    <CollapsibleSection
+      title="Employment"
+      subtitle={t("Labor person-days and full-time-equivalent jobs over {horizon} years per restoration method", { horizon: resolveHorizon(values.timeHorizon) })}
+      defaultOpen={false}
+      icon={<Users size={20} />}
+    >
+      {!active ? (
+        <p className="form-empty">{t("Enter the hired labor cost per day in Section 4 to derive person-days and jobs.")}</p>
+      ) : (
+        <>
+          {employment.length > 1 && (
+            <div className="cba-method-tabs">
+              {employment.map((e) => (
+                <button
+                  key={e.methodId}
+                  type="button"
+                  className={`cba-method-tab${active.methodId === e.methodId ? " cba-method-tab--active" : ""}`}
+                  onClick={() => setActiveId(e.methodId)}
+                >
+                  {t(e.methodLabel)}
+                </button>
+              ))}
+            </div>
+          )}
+          <EmploymentView employment={active} areaUnit={areaUnit.id} areaSymbol={areaUnit.symbol} />
+        </>
+      )}
+    </CollapsibleSection>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Per-method view
+// ---------------------------------------------------------------------------
+
+function EmploymentView({ employment: e, areaUnit, areaSymbol }: { employment: MethodEmployment; areaUnit: string; areaSymbol: string }) {
+  const { t, formatNumber } = useI18n();
+  const fmtDays = (n: number) => formatNumber(n, { maximumFractionDigits: 1 });
+  const perArea = (daysPerHa: number) => fromPerHa(daysPerHa, areaUnit);
+  const daysUnit = t("days/{area}", { area: areaSymbol });
+  const lastYear = e.years.length;
+
+  const yearData = e.years.map((y) => ({
+    year: `Y${y.projectYear}`,
+    hired: perArea(y.hiredDays),
+    nonHired: perArea(y.nonHiredDays),
+  }));
+
+  const genderData = [
+    { group: t("Male"), days: perArea(e.daysByGender.male), fill: PALETTE.male },
+    { group: t("Female"), days: perArea(e.daysByGender.female), fill: PALETTE.female },
+    { group: t("Others"), days: perArea(e.daysByGender.other), fill: PALETTE.other },
+  ];
+
+  const phaseRow = (label: string, ys: MethodEmployment["years"], fte: number) => ({
+    label,
+    values: [
+      fmtDays(perArea(ys.reduce((s, y) => s + y.laborDays, 0))),
+      fmtDays(perArea(ys.reduce((s, y) => s + y.hiredDays, 0))),
+      fmtDays(perArea(ys.reduce((s, y) => s + y.nonHiredDays, 0))),
+      fmtDays(fte),
+    ],
+  });
+
+  return (
+    <div className="cba-method-view">
+      <div className="cba-kpi-row">
+        <div className="cba-kpi-card cba-kpi-card--neutral">
+          <div className="cba-kpi-label">{t("Person-Days")}</div>
+          <div className="cba-kpi-value">{fmtDays(perArea(e.totalDays))}</div>
+          <div className="cba-kpi-sub">{t("{unit} over {years} years", { unit: daysUnit, years: lastYear })}</div>
+        </div>
+        <div className="cba-kpi-card cba-kpi-card--positive">
+          <div className="cba-kpi-label">{t("Jobs in Year 1")}</div>
+          <div className="cba-kpi-value">{fmtDays(e.implementationFtePer1000Ha)}</div>
+          <div className="cba-kpi-sub">{t("FTE per 1,000 ha during implementation")}</div>
+        </div>
+        <div className="cba-kpi-card cba-kpi-card--positive">
+          <div className="cba-kpi-label">{t("Jobs in Maintenance")}</div>
+          <div className="cba-kpi-value">{fmtDays(e.maintenanceFtePer1000Ha)}</div>
+          <div className="cba-kpi-sub">{t("Mean FTE per 1,000 ha, years 2–{last}", { last: lastYear })}</div>
+        </div>
+        <div className="cba-kpi-card cba-kpi-card--neutral">
+          <div className="cba-kpi-label">{t("Average Jobs")}</div>
+          <div className="cba-kpi-value">{fmtDays(e.averageFtePer1000Ha)}</div>
+          <div className="cba-kpi-sub">{t("Mean FTE per 1,000 ha over the horizon ({days} days = 1 FTE)", { days: FTE_DAYS_PER_YEAR })}</div>
+        </div>
+      </div>
+
+      <div className="cba-charts-2col">
+        <div className="cba-chart-block">
+          <h4 className="cba-chart-title">{t("Person-Days by Year ({unit})", { unit: daysUnit })}</h4>
+          <p className="cba-chart-hint">{t("Labor in the implementation, maintenance and constraint costs, hired vs non-hired.")}</p>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={yearData} barSize={10} margin={{ top: 8, right: 16, left: 4, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+              <XAxis dataKey="year" tick={{ fontSize: 9 }} />
+              <YAxis tick={{ fontSize: 9 }} />
+              <Tooltip formatter={(v, name) => [fmtDays(Number(v)), String(name)]} />
+              <Legend wrapperStyle={{ fontSize: 10, paddingTop: 4 }} />
+              <Bar dataKey="hired" name={t("Hired")} stackId="d" fill={PALETTE.hired} />
+              <Bar dataKey="nonHired" name={t("Non-hired")} stackId="d" fill={PALETTE.nonHired} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="cba-chart-block">
+          <h4 className="cba-chart-title">{t("Person-Days by Gender ({unit})", { unit: daysUnit })}</h4>
+          <p className="cba-chart-hint">{t("Total person-days split by the gender distribution of Section 4.")}</p>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={genderData} layout="vertical" barSize={22} margin={{ top: 8, right: 16, left: 4, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+              <XAxis type="number" tick={{ fontSize: 10 }} />
+              <YAxis type="category" dataKey="group" tick={{ fontSize: 11 }} width={60} />
+              <Tooltip formatter={(v) => [fmtDays(Number(v)), daysUnit]} />
+              <Bar dataKey="days" name={t("Person-days")}>
+                {genderData.map((g) => <Cell key={g.group} fill={g.fill} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <SummaryTable
+        headers={[t("Phase"), t("Person-Days ({unit})", { unit: daysUnit }), t("Hired"), t("Non-Hired"), t("FTE per 1,000 ha")]}
+        rows={[
+          phaseRow(t("Implementation (Year 1)"), e.years.filter((y) => y.phase === "implementation"), e.implementationFtePer1000Ha),
+          phaseRow(t("Maintenance (Years 2–{last})", { last: lastYear }), e.years.filter((y) => y.phase === "maintenance"), e.maintenanceFtePer1000Ha),
+          { ...phaseRow(t("Whole horizon"), e.years, e.averageFtePer1000Ha), className: "summary-table-total" },
+        ]}
+      />
+    </div>
+  );
+}
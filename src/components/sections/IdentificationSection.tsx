@@ -2,22 +2,28 @@
  * IdentificationSection
  *
  * First step: identify the ecosystem, country, restoration method,
- * and time horizon for this model specification.
+ * and time horizon for this model specification, and the currency the
+ * amounts are entered in with its exchange rate to US$, and the unit of
+ * area used throughout the form.
  */
 
 import { useState, useRef, useEffect } from "react";
 import { useFormContext } from "react-hook-form";
 import type { RestorationModelFormData } from "../../schemas";
 import { CollapsibleSection, FormField, FormSelect } from "../ui";
-import { ECOSYSTEM_OPTIONS } from "../../constants";
+import { ECOSYSTEM_OPTIONS, MIN_TIME_HORIZON, MAX_TIME_HORIZON, CURRENCY_OPTIONS, AREA_UNITS } from "../../constants";
 import { ClipboardList } from "lucide-react";
+import { useI18n } from "../../hooks/useI18n";
 
 export function IdentificationSection() {
   const {
     register,
     setValue,
+    watch,
     formState: { errors },
   } = useFormContext<RestorationModelFormData>();
+  const { t } = useI18n();
+  const currencyCode = watch("currency.code") || "USD";
 
   const [gpsStatus, setGpsStatus] = useState<"idle" | "loading" | "error" | "denied">("idle");
   const [latitude, setLatitude] = useState("");
@@ -93,9 +99,7 @@ export function IdentificationSection() {
       icon={<ClipboardList size={20} />}
     >
       <p className="form-hint">
-        Each model specification applies to one <strong>ecosystem</strong>. If you filled
-        the questionnaire based on an online interview, consider GPS coordinates of any
-        area that could represent the model you are referring to.
+        {t("Each model specification applies to one ecosystem. If you filled the questionnaire based on an online interview, consider GPS coordinates of any area that could represent the model you are referring to.")}
       </p>
 
       <div className="form-grid">
@@ -108,7 +112,7 @@ export function IdentificationSection() {
 
         {/* GPS coordinates field with manual lat/lon inputs and browser geolocation button */}
         <div className="form-field" style={{ gridColumn: "1 / -1" }}>
-          <label className="form-label">GPS Coordinates</label>
+          <label className="form-label">{t("GPS Coordinates")}</label>
           <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-start" }}>
             <div style={{ flex: 1, display: "flex", gap: "0.5rem" }}>
               <div style={{ flex: 1 }}>
@@ -117,28 +121,28 @@ export function IdentificationSection() {
                   className="form-input"
                   type="number"
                   step="any"
-                  placeholder="Latitude (Y)"
+                  placeholder={t("Latitude (Y)")}
                   value={latitude}
                   onChange={(e) => {
                     setLatitude(e.target.value);
                     handleLatLonChange(e.target.value, longitude);
                   }}
                 />
-                <p className="form-hint" style={{ marginTop: "0.25rem", fontSize: "0.75rem", marginBottom: 0 }}>Latitude (Y)</p>
+                <p className="form-hint" style={{ marginTop: "0.25rem", fontSize: "0.75rem", marginBottom: 0 }}>{t("Latitude (Y)")}</p>
               </div>
               <div style={{ flex: 1 }}>
                 <input
                   className="form-input"
                   type="number"
                   step="any"
-                  placeholder="Longitude (X)"
+                  placeholder={t("Longitude (X)")}
                   value={longitude}
                   onChange={(e) => {
                     setLongitude(e.target.value);
                     handleLatLonChange(latitude, e.target.value);
                   }}
                 />
-                <p className="form-hint" style={{ marginTop: "0.25rem", fontSize: "0.75rem", marginBottom: 0 }}>Longitude (X)</p>
+                <p className="form-hint" style={{ marginTop: "0.25rem", fontSize: "0.75rem", marginBottom: 0 }}>{t("Longitude (X)")}</p>
               </div>
             </div>
             <div ref={gpsMenuRef} style={{ position: "relative", flexShrink: 0 }}>
@@ -151,7 +155,7 @@ export function IdentificationSection() {
                 aria-expanded={gpsMenuOpen}
                 style={{ whiteSpace: "nowrap" }}
               >
-                {gpsStatus === "loading" ? "Locating…" : "📍 Set GPS ▾"}
+                {gpsStatus === "loading" ? t("Locating…") : `📍 ${t("Set GPS")} ▾`}
               </button>
               {gpsMenuOpen && (
                 <div
@@ -187,7 +191,7 @@ export function IdentificationSection() {
                     onMouseEnter={(e) => (e.currentTarget.style.background = "#f3f4f6")}
                     onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
                   >
-                    📡 Auto-detect from browser
+                    📡 {t("Auto-detect from browser")}
                   </button>
                   <button
                     type="button"
@@ -207,7 +211,7 @@ export function IdentificationSection() {
                     onMouseEnter={(e) => (e.currentTarget.style.background = "#f3f4f6")}
                     onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
                   >
-                    ✏️ Enter manually
+                    ✏️ {t("Enter manually")}
                   </button>
                 </div>
               )}
@@ -215,13 +219,13 @@ export function IdentificationSection() {
           </div>
           <input type="hidden" {...register("gpsCoordinates")} />
           {gpsStatus === "denied" && (
-            <p className="form-error">Location access was denied. Please allow it in your browser settings.</p>
+            <p className="form-error">{t("Location access was denied. Please allow it in your browser settings.")}</p>
           )}
           {gpsStatus === "error" && (
-            <p className="form-error">Unable to retrieve GPS coordinates.</p>
+            <p className="form-error">{t("Unable to retrieve GPS coordinates.")}</p>
           )}
           <p className="form-hint" style={{ marginTop: "0.5rem", fontSize: "0.82rem" }}>
-            Click "Set GPS" to choose between auto-detecting from your browser or entering coordinates manually.
+            {t("Click \"Set GPS\" to choose between auto-detecting from your browser or entering coordinates manually.")}
           </p>
         </div>
 
@@ -246,6 +250,60 @@ export function IdentificationSection() {
           registration={register("city")}
           error={errors.city}
         />
+
+        <FormField
+          label="Analysis Time Horizon"
+          unit="years"
+          type="number"
+          min={String(MIN_TIME_HORIZON)}
+          max={String(MAX_TIME_HORIZON)}
+          step="1"
+          registration={register("timeHorizon", { valueAsNumber: true })}
+          error={errors.timeHorizon}
+          helpText={t("Between {min} and {max} years. Year 1 is implementation; maintenance and revenues run from year 2 to the last year.", { min: MIN_TIME_HORIZON, max: MAX_TIME_HORIZON })}
+        />
+
+        <FormSelect
+          label="Currency of the amounts"
+          options={CURRENCY_OPTIONS.map((c) => ({ value: c.code, label: `${c.code} — ${t(c.label)}` }))}
+          registration={register("currency.code", {
+            // US$ amounts need no conversion
+            onChange: (e) => {
+              if (e.target.value === "USD") setValue("currency.exchangeRate", 1, { shouldValidate: true });
+            },
+          })}
+          error={errors.currency?.code}
+        />
+
+        {currencyCode !== "USD" && (
+          <>
+            <FormField
+              label="Exchange rate"
+              unit={t("{currency} per US$", { currency: currencyCode })}
+              type="number"
+              min="0"
+              step="any"
+              placeholder="e.g., 5.40"
+              registration={register("currency.exchangeRate", { valueAsNumber: true })}
+              error={errors.currency?.exchangeRate}
+              helpText="Units of the local currency for 1 US$. Amounts are stored as entered and converted to US$ with this rate for the reference ranges, aggregation and the Excel export."
+            />
+
+            <FormField
+              label="Exchange rate date"
+              type="date"
+              registration={register("currency.rateDate")}
+              error={errors.currency?.rateDate}
+            />
+          </>
+        )}
+
+        <FormSelect
+          label="Area unit"
+          options={AREA_UNITS.map((u) => ({ value: u.id, label: `${t(u.label)} (${u.symbol})` }))}
+          registration={register("areaUnit")}
+          error={errors.areaUnit}
+        />
       </div>
     </CollapsibleSection>
   );
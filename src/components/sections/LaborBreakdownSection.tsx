@@ -5,12 +5,14 @@
  * separately for implementation (Year 1) and maintenance (Years 2–T) phases,
  * plus an overall gender distribution of the workforce.
  *
- * Each distribution must sum to 100%.
+ * Each distribution must sum to 100% (rules labor.*.sum in utils/rules).
  */
 
 import { useFormContext } from "react-hook-form";
 import type { RestorationModelFormData } from "../../schemas";
-import { CollapsibleSection, FormField, DistributionPie } from "../ui";
+import { CollapsibleSection, FormField, ConvertedFormField, DistributionPie, IssueNotes } from "../ui";
+import { useValidationIssues, useI18n, useEntryCurrency, useAreaUnit } from "../../hooks";
+import { resolveHorizon } from "../../utils/computations";
 import { HardHat } from "lucide-react";
 
 export function LaborBreakdownSection() {
@@ -27,10 +29,13 @@ export function LaborBreakdownSection() {
   const genderMale   = watch("laborBreakdown.genderDistribution.male");
   const genderFemale = watch("laborBreakdown.genderDistribution.female");
   const genderOther  = watch("laborBreakdown.genderDistribution.other");
+  const horizon = resolveHorizon(watch("timeHorizon"));
 
-  const implSum   = (Number(implHired) || 0) + (Number(implFamily) || 0);
-  const maintSum  = (Number(maintHired) || 0) + (Number(maintFamily) || 0);
-  const genderSum = (Number(genderMale) || 0) + (Number(genderFemale) || 0) + (Number(genderOther) || 0);
+  const issues = useValidationIssues();
+  const { t } = useI18n();
+  const currency = useEntryCurrency();
+  const areaUnit = useAreaUnit();
+  const ruleIssues = (ruleId: string) => issues.filter((i) => i.ruleId === ruleId);
 
   const laborErrors = errors.laborBreakdown;
 
@@ -39,33 +44,26 @@ export function LaborBreakdownSection() {
       title="4. Labor Breakdown &amp; Machinery"
       subtitle="Hired Labour vs Non Hired Labour — by phase"
       icon={<HardHat size={20} />}
+      fieldPrefixes={["laborBreakdown"]}
     >
       <p className="form-hint">
-        Of the total labor hours involved in the restoration project, what
-        percentage corresponds to <strong>hired labor</strong> (paid workers) and
-        what percentage to <strong>non-hired labour</strong> (includes any type of
-        labour that is not hired, such as family or community labour)?
+        {t("Of the total labor hours involved in the restoration project, what percentage corresponds to hired labor (paid workers) and what percentage to non-hired labour (includes any type of labour that is not hired, such as family or community labour)?")}
       </p>
       <p className="form-hint">
-        Please provide estimates for each phase. Each row must sum to{" "}
-        <strong>100%</strong>.
+        {t("Please provide estimates for each phase. Each row must sum to 100%.")}
       </p>
 
       {/* ── Implementation phase ──────────────────────────────── */}
-      <h3 className="subsection-title">Implementation (Year 1)</h3>
+      <h3 className="subsection-title">{t("Implementation (Year 1)")}</h3>
       <div className="cost-distribution" style={{ marginTop: "0.25rem" }}>
         <div className="cost-distribution-header">
-          <p className="cost-distribution-label">Labor hour distribution</p>
+          <p className="cost-distribution-label">{t("Labor hour distribution")}</p>
           <DistributionPie slices={[
-            { label: "Hired Labour",  value: Number(implHired)  || 0, color: "#2596be" },
-            { label: "Non Hired Labour", value: Number(implFamily) || 0, color: "#b45309" },
+            { label: t("Hired Labour"),  value: Number(implHired)  || 0, color: "#2596be" },
+            { label: t("Non Hired Labour"), value: Number(implFamily) || 0, color: "#b45309" },
           ]} />
         </div>
-        {implSum > 0 && Math.abs(implSum - 100) >= 0.01 && (
-          <p className="cost-distribution-warning">
-            Hired + Non Hired labour must sum to 100%. Currently: {implSum.toFixed(1)}%.
-          </p>
-        )}
+        <IssueNotes issues={ruleIssues("labor.implementation.sum")} />
         <div className="form-grid form-grid--2">
           <FormField
             label="Hired Labour"
@@ -99,22 +97,17 @@ export function LaborBreakdownSection() {
 
       {/* ── Maintenance phase ──────────────────────────────────── */}
       <h3 className="subsection-title" style={{ marginTop: "1.25rem" }}>
-        Maintenance (Years 2–20)
+        {t("Maintenance (Years 2–{horizon})", { horizon })}
       </h3>
       <div className="cost-distribution" style={{ marginTop: "0.25rem" }}>
         <div className="cost-distribution-header">
-          <p className="cost-distribution-label">Labor hour distribution</p>
+          <p className="cost-distribution-label">{t("Labor hour distribution")}</p>
           <DistributionPie slices={[
-            { label: "Hired Labour",  value: Number(maintHired)  || 0, color: "#2596be" },
-            { label: "Non Hired Labour", value: Number(maintFamily) || 0, color: "#b45309" },
+            { label: t("Hired Labour"),  value: Number(maintHired)  || 0, color: "#2596be" },
+            { label: t("Non Hired Labour"), value: Number(maintFamily) || 0, color: "#b45309" },
           ]} />
         </div>
-        {maintSum > 0 && Math.abs(maintSum - 100) >= 0.01 && (
-          <p className="cost-distribution-warning">
-            Hired + Non Hired labour must sum to 100%. Currently:{" "}
-            {maintSum.toFixed(1)}%.
-          </p>
-        )}
+        <IssueNotes issues={ruleIssues("labor.maintenance.sum")} />
         <div className="form-grid form-grid--2">
           <FormField
             label="Hired Labour"
@@ -148,27 +141,21 @@ export function LaborBreakdownSection() {
 
       {/* ── Gender Distribution ────────────────────────────────── */}
       <h3 className="subsection-title" style={{ marginTop: "1.5rem" }}>
-        Gender Distribution
+        {t("Gender Distribution")}
       </h3>
       <p className="form-hint">
-        Of the total labor hours involved in this project, what percentage is
-        contributed by each gender group? Must sum to <strong>100%</strong>.
+        {t("Of the total labor hours involved in this project, what percentage is contributed by each gender group? Must sum to 100%.")}
       </p>
       <div className="cost-distribution" style={{ marginTop: "0.25rem" }}>
         <div className="cost-distribution-header">
-          <p className="cost-distribution-label">Gender distribution</p>
+          <p className="cost-distribution-label">{t("Gender distribution")}</p>
           <DistributionPie slices={[
-            { label: "Male",   value: Number(genderMale)   || 0, color: "#2596be" },
-            { label: "Female", value: Number(genderFemale) || 0, color: "#e91e8c" },
-            { label: "Others", value: Number(genderOther)  || 0, color: "#7c3aed" },
+            { label: t("Male"),   value: Number(genderMale)   || 0, color: "#2596be" },
+            { label: t("Female"), value: Number(genderFemale) || 0, color: "#e91e8c" },
+            { label: t("Others"), value: Number(genderOther)  || 0, color: "#7c3aed" },
           ]} />
         </div>
-        {genderSum > 0 && Math.abs(genderSum - 100) >= 0.01 && (
-          <p className="cost-distribution-warning">
-            Gender distribution must sum to 100%. Currently:{" "}
-            {genderSum.toFixed(1)}%.
-          </p>
-        )}
+        <IssueNotes issues={ruleIssues("labor.gender.sum")} />
         <div className="form-grid form-grid--3">
           <FormField
             label="Male"
@@ -214,12 +201,12 @@ export function LaborBreakdownSection() {
 
       {/* Hired Labor Cost Reference & Machinery Unit Cost */}
       <div className="labor-rate-box" style={{ marginTop: "1.5rem" }}>
-        <h5 className="labor-rate-title">Hired Labor Cost Reference</h5>
+        <h5 className="labor-rate-title">{t("Hired Labor Cost Reference")}</h5>
         <div style={{ display: "flex", gap: "1.5rem", flexWrap: "wrap" }}>
           <div style={{ maxWidth: "280px", flex: "1 1 240px" }}>
             <FormField
               label="Hired Labor Cost"
-              unit="US$/day"
+              unit={currency.unit("US$/day")}
               type="number"
               min="0"
               step="0.01"
@@ -232,7 +219,7 @@ export function LaborBreakdownSection() {
           <div style={{ maxWidth: "280px", flex: "1 1 240px" }}>
             <FormField
               label="Machinery Unit Cost"
-              unit="US$/hour"
+              unit={currency.unit("US$/hour")}
               type="number"
               min="0"
               step="0.01"
@@ -244,28 +231,29 @@ export function LaborBreakdownSection() {
           </div>
         </div>
         <p className="labor-rate-hint">
-          Average daily wage for hired field workers and hourly cost of machinery in this region.
+          {t("Average daily wage for hired field workers and hourly cost of machinery in this region.")}
         </p>
+        <IssueNotes issues={ruleIssues("labor.machinery-rate.missing")} />
       </div>
 
       {/* Land Lease Reference */}
       <div className="labor-rate-box" style={{ marginTop: "1.5rem" }}>
-        <h5 className="labor-rate-title">Land Lease Reference</h5>
+        <h5 className="labor-rate-title">{t("Land Lease Reference")}</h5>
         <div style={{ maxWidth: "280px" }}>
-          <FormField
+          <ConvertedFormField
+            key={areaUnit.id}
             label="Average Land Lease Cost"
-            unit="US$/ha/year"
-            type="number"
+            unit={areaUnit.unit(currency.unit("US$/ha/year"))}
             min="0"
             step="0.01"
-            registration={register("laborBreakdown.landLeaseCostPerHaPerYear", {
-              valueAsNumber: true,
-            })}
+            name="laborBreakdown.landLeaseCostPerHaPerYear"
+            toDisplay={areaUnit.fromPerHa}
+            fromDisplay={areaUnit.toPerHa}
             error={laborErrors?.landLeaseCostPerHaPerYear}
           />
         </div>
         <p className="labor-rate-hint">
-          Average annual cost to lease (rent) one hectare of land in this region.
+          {t("Average annual cost to lease (rent) one {area} of land in this region.", { area: areaUnit.symbol })}
         </p>
       </div>
     </CollapsibleSection>
@@ -0,0 +1,281 @@
+/**
+ * ProjectScenarioSection – Project-level scaling of the per-hectare CBA.
+ *
+ * The analyst enters, per restoration method, the hectares implemented in
+ * each project year (planting schedule) and the ramp-up of the context
+ * constraint costs. The per-hectare cash flows are rolled up into project
+ * cash flows by year (see utils/project) and shown as:
+ *   — KPI cards: total area, total budget, peak financing need, project NPV
+ *   — Annual costs and benefits with the cumulative cash position
+ *   — Per-method totals
+ * The scenario is stored in `project` on the form and saved with the model.
+ * Amounts are in the entry currency; the project workbook is in US$.
+ */
+
+import { useMemo } from "react";
+import { useFormContext } from "react-hook-form";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { Download, Map as MapIcon } from "lucide-react";
+import type { RestorationModelFormData } from "../../schemas";
+import type { RestorationModel, MethodType, PlantingCohort } from "../../types";
+import { getMethodLabel } from "../../constants";
+import { activeMethods } from "../../utils/report";
+import { computeProjectCBA, resolveProjectScenario, type ProjectCBA } from "../../utils/project";
+import { exportProjectCBAToXlsx } from "../../utils/cbaExport";
+import { formatAmount, modelInCurrency } from "../../utils/currency";
+import { useAreaUnit, useEntryCurrency, useI18n } from "../../hooks";
+import { CollapsibleSection, FormField, SummaryTable } from "../ui";
+
+const PALETTE = {
+  cost:     "#c0392b",
+  benefit:  "#4E8465",
+  position: "#1a3530",
+};
+
+interface Props {
+  values: RestorationModelFormData;
+}
+
+export function ProjectScenarioSection({ values }: Props) {
+  const { register, setValue, formState: { errors } } = useFormContext<RestorationModelFormData>();
+  const { t, formatNumber } = useI18n();
+  const area = useAreaUnit();
+  const currency = useEntryCurrency();
+  const fmtArea = (ha: number) => formatNumber(area.fromHa(ha), { maximumFractionDigits: 2 });
+
+  const data = values as unknown as RestorationModel;
+  const scenario = resolveProjectScenario(data.project);
+  const methods = activeMethods(data);
+  const projectErrors = errors.project;
+
+  // Results are shown in the entry currency, so the carbon price (US$) is converted first
+  const project = useMemo<ProjectCBA | null>(
+    () => computeProjectCBA(modelInCurrency(values as unknown as RestorationModel, "local")),
+    [values],
+  );
+
+  const setCohorts = (methodId: MethodType, cohorts: PlantingCohort[]) =>
+    setValue(`project.plantings.${methodId}`, cohorts, { shouldDirty: true, shouldValidate: true });
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    exportProjectCBAToXlsx(data, `project_cba_${date}.xlsx`);
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void, label: string, step: string) => (
+    <input
+      className="form-input"
+      type="number"
+      min={step === "1" ? "1" : "0"}
+      step={step}
+      aria-label={label}
+      style={{ width: "6.5rem" }}
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+    />
+  );
+
+  return (
+    <CollapsibleSection
+      title="Project Scenario"
+      subtitle="Scale the per-hectare results to a project: area per method, planting schedule and total budget"
+      defaultOpen={false}
+      icon={<MapIcon size={20} />}
+      headerClassName="section-header--light"
+    >
+      <p className="form-hint">
+        {t("Enter the area implemented with each method in each project year. Every planting follows the method's per-hectare cash flow from its own year, so the project runs until the last planting reaches the end of the {horizon}-year horizon. Methods without an implementation cost are left out.", { horizon: values.timeHorizon })}
+      </p>
+
+      {/* ── Planting schedule ─────────────────────────────────── */}
+      <table className="summary-table" style={{ marginBottom: "0.75rem" }}>
+        <thead>
+          <tr>
+            <th>{t("Method")}</th>
+            <th>{t("Planting schedule (project year / area in {unit})", { unit: area.symbol })}</th>
+            <th>{t("Total ({unit})", { unit: area.symbol })}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {methods.map((mk) => {
+            const cohorts = scenario.plantings[mk] ?? [];
+            const nextYear = cohorts.reduce((max, c) => Math.max(max, Number(c.year) || 0), 0) + 1;
+            const patch = (i: number, next: Partial<PlantingCohort>) =>
+              setCohorts(mk, cohorts.map((c, j) => (j === i ? { ...c, ...next } : c)));
+            return (
+              <tr key={mk}>
+                <td>{t(getMethodLabel(mk))}</td>
+                <td>
+                  <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}>
+                    {cohorts.map((c, i) => (
+                      <div key={i} style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+                        <span className="form-unit">Y</span>
+                        {numberInput(c.year, (v) => patch(i, { year: v }), t("Project year"), "1")}
+                        {numberInput(area.fromHa(c.area), (v) => patch(i, { area: area.toHa(v) }), t("Area"), "any")}
+                        <button
+                          type="button"
+                          className="btn btn--small btn--secondary"
+                          onClick={() => setCohorts(mk, cohorts.filter((_, j) => j !== i))}
+                          title={t("Remove planting year")}
+                          aria-label={t("Remove planting year")}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn btn--small btn--secondary"
+                      onClick={() => setCohorts(mk, [...cohorts, { year: nextYear, area: 0 }])}
+                    >
+                      + {t("Add planting year")}
+                    </button>
+                  </div>
+                </td>
+                <td>{fmtArea(cohorts.reduce((s, c) => s + (Number(c.area) || 0), 0))}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {projectErrors?.plantings && (
+        <p className="form-error">{t("Check the planting schedule: project years are whole numbers from 1, areas cannot be negative.")}</p>
+      )}
+
+      {/* ── Constraint ramp-up ────────────────────────────────── */}
+      <div className="form-grid" style={{ maxWidth: "720px" }}>
+        <FormField
+          label="Constraint Costs in Year 1"
+          unit="% of full cost"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          registration={register("project.constraintRampStartPct", { valueAsNumber: true })}
+          error={projectErrors?.constraintRampStartPct}
+          helpText="Share of the per-hectare firebreak, fencing, weed and pest control costs incurred in the first project year"
+        />
+        <FormField
+          label="Constraint Ramp-Up Period"
+          unit="years"
+          type="number"
+          min="0"
+          step="1"
+          registration={register("project.constraintRampYears", { valueAsNumber: true })}
+          error={projectErrors?.constraintRampYears}
+          helpText="Project years over which the constraint costs rise linearly to their full level. 0 = full costs from year 1"
+        />
+      </div>
+
+      {project ? (
+        <ProjectResults project={project} code={currency.code} fmtArea={fmtArea} areaSymbol={area.symbol} onExport={handleExport} />
+      ) : (
+        <p className="form-empty">{t("Add a planting year with an area to a method with an implementation cost to see project results.")}</p>
+      )}
+    </CollapsibleSection>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Project results
+// ---------------------------------------------------------------------------
+
+interface ResultsProps {
+  project: ProjectCBA;
+  code: string;
+  fmtArea: (ha: number) => string;
+  areaSymbol: string;
+  onExport: () => void;
+}
+
+function ProjectResults({ project: p, code, fmtArea, areaSymbol, onExport }: ResultsProps) {
+  const { t } = useI18n();
+  const fmt = (n: number) => formatAmount(n, code, 0);
+  const rateLabel = `${p.discountRate}%`;
+
+  const chartData = p.years.map((y) => ({
+    year: `Y${y.projectYear}`,
+    cost: -y.financialCost,
+    benefit: y.totalBenefit,
+    position: y.cumulativeFinancialNet,
+  }));
+
+  return (
+    <div className="cba-method-view" style={{ marginTop: "1rem" }}>
+      <div className="cba-kpi-row">
+        <div className="cba-kpi-card cba-kpi-card--neutral">
+          <div className="cba-kpi-label">{t("Total Area")}</div>
+          <div className="cba-kpi-value">{fmtArea(p.totalArea)} {areaSymbol}</div>
+          <div className="cba-kpi-sub">{t("over {years} project years", { years: p.years.length })}</div>
+        </div>
+        <div className="cba-kpi-card cba-kpi-card--neutral">
+          <div className="cba-kpi-label">{t("Total Budget")}</div>
+          <div className="cba-kpi-value">{fmt(p.totalBudget)}</div>
+          <div className="cba-kpi-sub">{t("cash outlays, undiscounted (economic cost {cost})", { cost: fmt(p.totalEconomicCost) })}</div>
+        </div>
+        <div className={`cba-kpi-card ${p.peakFinancingNeed > 0 ? "cba-kpi-card--negative" : "cba-kpi-card--positive"}`}>
+          <div className="cba-kpi-label">{t("Peak Financing Need")}</div>
+          <div className="cba-kpi-value">{fmt(p.peakFinancingNeed)}</div>
+          <div className="cba-kpi-sub">
+            {p.peakFinancingYear !== null
+              ? t("largest cumulative cash deficit, year {year}", { year: p.peakFinancingYear })
+              : t("the cash position never goes negative")}
+          </div>
+        </div>
+        <div className={`cba-kpi-card ${p.npv >= 0 ? "cba-kpi-card--positive" : "cba-kpi-card--negative"}`}>
+          <div className="cba-kpi-label">{t("Project NPV")}</div>
+          <div className="cba-kpi-value">{fmt(p.npv)}</div>
+          <div className="cba-kpi-sub">{t("@ {rate}, economic (financial {npv})", { rate: rateLabel, npv: fmt(p.financialNpv) })}</div>
+        </div>
+      </div>
+
+      <div className="cba-chart-block">
+        <h4 className="cba-chart-title">{t("Project Cash Flow by Year ({currency})", { currency: code })}</h4>
+        <p className="cba-chart-hint">{t("Cash outlays and benefits of all plantings, with the cumulative cash position.")}</p>
+        <ResponsiveContainer width="100%" height={280}>
+          <ComposedChart data={chartData} margin={{ top: 8, right: 16, left: 16, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+            <XAxis dataKey="year" tick={{ fontSize: 9 }} />
+            <YAxis tick={{ fontSize: 9 }} tickFormatter={(v: number) => `${(v / 1000).toFixed(0)}k`} />
+            <Tooltip formatter={(v, name) => [fmt(Number(v)), String(name)]} />
+            <Legend wrapperStyle={{ fontSize: 10, paddingTop: 4 }} />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Bar dataKey="cost" name={t("Cash outlays")} fill={PALETTE.cost} barSize={10} />
+            <Bar dataKey="benefit" name={t("Benefits")} fill={PALETTE.benefit} barSize={10} />
+            <Line dataKey="position" name={t("Cumulative cash position")} stroke={PALETTE.position} dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <SummaryTable
+        headers={[t("Method"), t("Area ({unit})", { unit: areaSymbol }), t("Budget (cash outlays)"), t("Economic Cost"), t("Benefits"), t("NPV @{rate}", { rate: rateLabel })]}
+        rows={[
+          ...p.methods.map((m) => ({
+            label: t(m.methodLabel),
+            values: [fmtArea(m.area), fmt(m.financialCost), fmt(m.totalCost), fmt(m.totalBenefit), fmt(m.npv)],
+          })),
+          {
+            label: t("Project"),
+            values: [fmtArea(p.totalArea), fmt(p.totalBudget), fmt(p.totalEconomicCost), fmt(p.totalBenefits), fmt(p.npv)],
+            className: "summary-table-total",
+          },
+        ]}
+      />
+
+      <button type="button" className="btn btn--secondary btn--small" onClick={onExport} style={{ marginTop: "0.75rem" }}>
+        <Download size={14} /> {t("Export project workbook (.xlsx)")}
+      </button>
+    </div>
+  );
+}
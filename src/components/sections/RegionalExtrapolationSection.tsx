@@ -0,0 +1,229 @@
+/**
+ * RegionalExtrapolationSection
+ *
+ * Re-prices the current questionnaire for another country/region using the
+ * factor-of-production shares of each cost row and an editable table of
+ * labor / materials / machinery price indices, then shows the extrapolated
+ * CBA beside the original. Both can be exported to one workbook.
+ *
+ * The index table is analyst data, not part of the questionnaire: edits are
+ * kept in local storage and shared by every model.
+ */
+
+import { useMemo, useState } from "react";
+import { Globe2, Download } from "lucide-react";
+import type { RestorationModelFormData } from "../../schemas";
+import type { RestorationModel, PriceIndexEntry } from "../../types";
+import { CollapsibleSection } from "../ui";
+import { computeMethodCBA, METHOD_KEYS, type MethodCBA } from "../../utils/cba";
+import { exportRegionalCBAToXlsx } from "../../utils/cbaExport";
+import {
+  loadPriceIndices,
+  savePriceIndices,
+  resetPriceIndices,
+  findPriceIndex,
+  repriceModel,
+} from "../../utils/priceIndex";
+import { formatUSD } from "../../utils/computations";
+import { toUSD } from "../../utils/currency";
+import { useI18n } from "../../hooks";
+
+const INDEX_FIELDS = ["labor", "materials", "machinery"] as const;
+
+interface Props {
+  values: RestorationModelFormData;
+}
+
+function computeResults(data: RestorationModel): MethodCBA[] {
+  const disabled = new Set<string>(data.disabledMethods ?? []);
+  return METHOD_KEYS
+    .filter((mk) => !disabled.has(mk))
+    .map((mk) => {
+      const method = data.methodCosts?.[mk];
+      if (!method || !((method.implementationCost ?? 0) > 0)) return null;
+      try { return computeMethodCBA(mk, method, data); } catch { return null; }
+    })
+    .filter((r): r is MethodCBA => r !== null);
+}
+
+export function RegionalExtrapolationSection({ values }: Props) {
+  const { t } = useI18n();
+  // Costs are compared in US$ whatever currency they were entered in
+  const data = useMemo(() => toUSD(values as unknown as RestorationModel), [values]);
+  const [table, setTable] = useState<PriceIndexEntry[]>(() => loadPriceIndices());
+  const [originRegion, setOriginRegion] = useState<string>(
+    () => findPriceIndex(table, values.country)?.region ?? "",
+  );
+  const [targetRegion, setTargetRegion] = useState<string>("");
+  const [editing, setEditing] = useState(false);
+
+  const origin = findPriceIndex(table, originRegion);
+  const target = findPriceIndex(table, targetRegion);
+
+  const updateTable = (next: PriceIndexEntry[]) => {
+    setTable(next);
+    savePriceIndices(next);
+  };
+
+  const patchEntry = (i: number, patch: Partial<PriceIndexEntry>) =>
+    updateTable(table.map((e, j) => (j === i ? { ...e, ...patch } : e)));
+
+  const original = useMemo(() => computeResults(data), [data]);
+  const repriced = useMemo(
+    () => (origin && target ? computeResults(repriceModel(data, origin, target)) : []),
+    [data, origin, target],
+  );
+
+  const handleExport = () => {
+    if (!origin || !target) return;
+    const date = new Date().toISOString().slice(0, 10);
+    const slug = (s: string) => s.replace(/\s+/g, "_");
+    exportRegionalCBAToXlsx(data, origin, target, `regional_cba_${slug(origin.region)}_to_${slug(target.region)}_${date}.xlsx`);
+  };
+
+  const regionSelect = (value: string, onChange: (v: string) => void, label: string) => (
+    <div className="form-field">
+      <label className="form-label">{t(label)}</label>
+      <select className="form-input" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">{t("Select region…")}</option>
+        {table.map((e) => (
+          <option key={e.region} value={e.region}>{e.region}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <CollapsibleSection
+      title="Regional Cost Extrapolation"
+      subtitle="Re-price this questionnaire for another country or region using local price indices"
+      defaultOpen={false}
+      icon={<Globe2 size={20} />}
+      headerClassName="section-header--light"
+    >
+      <p className="form-hint">
+        {t("Each cost is re-priced with its labor / materials / machinery shares: AdjustedCost = Σ (share × target index ÷ origin index) × cost. NTFP and carbon revenues are not changed. The bundled indices are illustrative — review them before use.")}
+      </p>
+
+      <div className="form-grid" style={{ maxWidth: "720px" }}>
+        {regionSelect(originRegion, setOriginRegion, "Origin (where the data was collected)")}
+        {regionSelect(targetRegion, setTargetRegion, "Target region")}
+      </div>
+
+      {/* ── Index table ─────────────────────────────────────── */}
+      <div style={{ margin: "0.75rem 0" }}>
+        <button type="button" className="btn btn--secondary btn--small" onClick={() => setEditing((v) => !v)}>
+          {t(editing ? "Hide price index table" : "Edit price index table")}
+        </button>
+      </div>
+
+      {editing && (
+        <>
+          <table className="summary-table">
+            <thead>
+              <tr>
+                <th>{t("Region")}</th>
+                <th>{t("Labor")}</th>
+                <th>{t("Materials")}</th>
+                <th>{t("Machinery")}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {table.map((e, i) => (
+                <tr key={i}>
+                  <td>
+                    <input
+                      className="form-input"
+                      value={e.region}
+                      onChange={(ev) => patchEntry(i, { region: ev.target.value })}
+                    />
+                  </td>
+                  {INDEX_FIELDS.map((k) => (
+                    <td key={k}>
+                      <input
+                        className="form-input"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        style={{ width: "6rem" }}
+                        value={Number.isFinite(e[k]) ? e[k] : ""}
+                        onChange={(ev) => patchEntry(i, { [k]: ev.target.value === "" ? 0 : Number(ev.target.value) })}
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button
+                      type="button"
+                      className="btn btn--small btn--danger"
+                      onClick={() => updateTable(table.filter((_, j) => j !== i))}
+                      aria-label={t("Remove region")}
+                      title={t("Remove region")}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ display: "flex", gap: "0.5rem", marginBottom: "1rem" }}>
+            <button
+              type="button"
+              className="btn btn--secondary btn--small"
+              onClick={() => updateTable([...table, { region: t("New region"), labor: 1, materials: 1, machinery: 1 }])}
+            >
+              + {t("Add region")}
+            </button>
+            <button type="button" className="btn btn--secondary btn--small" onClick={() => setTable(resetPriceIndices())}>
+              {t("Reset to bundled values")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ── Comparison ──────────────────────────────────────── */}
+      {original.length === 0 ? (
+        <p className="form-empty">{t("Complete at least one method's costs to extrapolate.")}</p>
+      ) : !origin || !target ? (
+        <p className="form-empty">{t("Select an origin and a target region to compare.")}</p>
+      ) : (
+        <>
+          <table className="summary-table">
+            <caption>{origin.region} → {target.region}</caption>
+            <thead>
+              <tr>
+                <th>{t("Method")}</th>
+                <th>{t("Total cost ({region})", { region: origin.region })}</th>
+                <th>{t("Total cost ({region})", { region: target.region })}</th>
+                <th>{t("NPV ({region})", { region: origin.region })}</th>
+                <th>{t("NPV ({region})", { region: target.region })}</th>
+                <th>{t("BCR ({region})", { region: origin.region })}</th>
+                <th>{t("BCR ({region})", { region: target.region })}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {original.map((o) => {
+                const priced = repriced.find((r) => r.methodId === o.methodId);
+                return (
+                  <tr key={o.methodId}>
+                    <td>{t(o.methodLabel)}</td>
+                    <td>{formatUSD(o.totalCostsUndiscounted)}</td>
+                    <td>{priced ? formatUSD(priced.totalCostsUndiscounted) : "—"}</td>
+                    <td>{formatUSD(o.npv)}</td>
+                    <td style={{ color: priced && priced.npv < 0 ? "#c0392b" : undefined }}>{priced ? formatUSD(priced.npv) : "—"}</td>
+                    <td>{o.bcr.toFixed(2)}</td>
+                    <td>{priced ? priced.bcr.toFixed(2) : "—"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button type="button" className="btn btn--secondary btn--small" onClick={handleExport}>
+            <Download size={14} /> {t("Export comparison (.xlsx)")}
+          </button>
+        </>
+      )}
+    </CollapsibleSection>
+  );
+}
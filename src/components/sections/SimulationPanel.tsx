@@ -0,0 +1,260 @@
+/**
+ * SimulationPanel – Monte Carlo uncertainty analysis for one CBA method.
+ *
+ * Lets the analyst attach an optional distribution to each cost, price and
+ * productivity input (triangular min/mode/max or a ±% band), set the number
+ * of iterations and the seed, and run the simulation. Shows P10/P50/P90 NPV,
+ * the probability that NPV > 0 and a histogram of simulated NPVs.
+ *
+ * Distributions, iterations and seed are stored in `uncertainty` on the form
+ * so they are saved with the model and reused by the CBA export. Money
+ * distributions are in the entry currency, the carbon price in US$; the
+ * simulation runs in the currency chosen for the results. Per-hectare
+ * inputs and the simulated NPVs are shown per the questionnaire's area unit.
+ */
+
+import { useState } from "react";
+import { useFormContext } from "react-hook-form";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from "recharts";
+import type { RestorationModelFormData } from "../../schemas";
+import type { RestorationModel, MethodType, InputDistribution } from "../../types";
+import { DEFAULT_UNCERTAINTY_SETTINGS } from "../../constants";
+import { listUncertainInputs, runSimulation, type SimulationResult } from "../../utils/simulation";
+import { resolveCurrency, currencyUnit, modelInCurrency, type ResultCurrency } from "../../utils/currency";
+import { resolveAreaUnit, perAreaUnit, fromPerHa, toPerHa } from "../../utils/area";
+import { useI18n } from "../../hooks";
+
+const DEFAULT_BAND_PCT = 20;
+
+interface Props {
+  methodId: MethodType;
+  values: RestorationModelFormData;
+  /** Currency the simulated NPVs are computed and shown in */
+  resultCurrency: ResultCurrency;
+}
+
+export function SimulationPanel({ methodId, values, resultCurrency }: Props) {
+  const { register, setValue, formState: { errors } } = useFormContext<RestorationModelFormData>();
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const { t, formatNumber, formatCurrency } = useI18n();
+
+  const data = values as unknown as RestorationModel;
+  const settings = { ...DEFAULT_UNCERTAINTY_SETTINGS, ...data.uncertainty };
+  const distributions = settings.distributions ?? {};
+  const inputs = listUncertainInputs(methodId, data);
+  const uncertaintyErrors = errors.uncertainty;
+  const entryCode = resolveCurrency(data.currency).code;
+  const resultCode = resultCurrency === "USD" ? "USD" : entryCode;
+  // Simulated NPVs are per hectare
+  const { hectares } = resolveAreaUnit(data.areaUnit);
+  const fmt = (n: number) => formatCurrency(n * hectares, resultCode, 0);
+  const fixed = (n: number, digits: number) => formatNumber(n, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+  const setDistribution = (id: string, dist: InputDistribution | null) => {
+    const next = { ...distributions };
+    if (dist) next[id] = dist;
+    else delete next[id];
+    setValue("uncertainty.distributions", next, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const changeKind = (id: string, kind: string, pointValue: number) => {
+    if (kind === "triangular") {
+      setDistribution(id, { kind, min: pointValue * 0.8, mode: pointValue, max: pointValue * 1.2 });
+    } else if (kind === "band") {
+      setDistribution(id, { kind, pct: DEFAULT_BAND_PCT });
+    } else {
+      setDistribution(id, null);
+    }
+  };
+
+  const run = () => {
+    // Distributions are converted along with the amounts they describe
+    const model = modelInCurrency(data, resultCurrency);
+    setResult(runSimulation(methodId, model, { ...DEFAULT_UNCERTAINTY_SETTINGS, ...model.uncertainty }));
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void, label: string) => (
+    <input
+      className="form-input"
+      type="number"
+      min="0"
+      step="any"
+      aria-label={label}
+      style={{ width: "6.5rem" }}
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+    />
+  );
+
+  const histogramData = (result?.npvHistogram ?? []).map((b) => ({
+    bin: `${fixed((b.from * hectares) / 1000, 1)}k`,
+    mid: (b.from + b.to) / 2,
+    range: `${fmt(b.from)} – ${fmt(b.to)}`,
+    count: b.count,
+  }));
+
+  return (
+    <div className="cba-chart-block" style={{ marginTop: "1rem" }}>
+      <h4 className="cba-chart-title">{t("Uncertainty Analysis (Monte Carlo)")}</h4>
+      <p className="cba-chart-hint">
+        {t("Give any input a distribution, then run the simulation. Inputs without a distribution keep their point estimate. The same seed always gives the same results.")}
+      </p>
+
+      <table className="summary-table" style={{ marginBottom: "0.75rem" }}>
+        <thead>
+          <tr>
+            <th>{t("Input")}</th>
+            <th>{t("Point estimate")}</th>
+            <th>{t("Distribution")}</th>
+            <th>{t("Parameters")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {inputs.map((input) => {
+            const dist = distributions[input.id];
+            // Per-hectare inputs are shown and typed per the chosen area unit
+            const perHa = input.unit.includes("/ha");
+            const shown = (v: number) => (perHa ? fromPerHa(v, data.areaUnit) : v);
+            const stored = (v: number) => (perHa ? toPerHa(v, data.areaUnit) : v);
+            const unit = perAreaUnit(input.unit, data.areaUnit);
+            return (
+              <tr key={input.id}>
+                <td>{t(input.label)} <span className="form-unit">({input.id === "carbonPrice" ? unit : currencyUnit(unit, entryCode)})</span></td>
+                <td>{formatNumber(shown(input.value), { maximumFractionDigits: 2 })}</td>
+                <td>
+                  <select
+                    className="form-input"
+                    value={dist?.kind ?? ""}
+                    onChange={(e) => changeKind(input.id, e.target.value, input.value)}
+                  >
+                    <option value="">{t("None (point estimate)")}</option>
+                    <option value="triangular">{t("Triangular")}</option>
+                    <option value="band">{t("± % band")}</option>
+                  </select>
+                </td>
+                <td>
+                  {dist?.kind === "triangular" && (
+                    <div style={{ display: "flex", gap: "0.35rem", alignItems: "center" }}>
+                      {numberInput(shown(dist.min), (v) => setDistribution(input.id, { ...dist, min: stored(v) }), t("Minimum"))}
+                      {numberInput(shown(dist.mode), (v) => setDistribution(input.id, { ...dist, mode: stored(v) }), t("Mode"))}
+                      {numberInput(shown(dist.max), (v) => setDistribution(input.id, { ...dist, max: stored(v) }), t("Maximum"))}
+                      <span className="form-unit">{t("min / mode / max")}</span>
+                    </div>
+                  )}
+                  {dist?.kind === "band" && (
+                    <div style={{ display: "flex", gap: "0.35rem", alignItems: "center" }}>
+                      <span>±</span>
+                      {numberInput(dist.pct, (v) => setDistribution(input.id, { ...dist, pct: v }), t("Band"))}
+                      <span className="form-unit">%</span>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {uncertaintyErrors?.distributions && (
+        <p className="form-error">{t("Check the distributions: for triangular inputs, min ≤ mode ≤ max.")}</p>
+      )}
+
+      <div style={{ display: "flex", gap: "0.75rem", alignItems: "flex-end", flexWrap: "wrap" }}>
+        <div className="form-field">
+          <label className="form-label">{t("Iterations")}</label>
+          <input
+            className={`form-input ${uncertaintyErrors?.iterations ? "form-input--error" : ""}`}
+            type="number"
+            min="100"
+            max="10000"
+            step="100"
+            style={{ width: "7rem" }}
+            {...register("uncertainty.iterations", { valueAsNumber: true })}
+          />
+        </div>
+        <div className="form-field">
+          <label className="form-label">{t("Seed")}</label>
+          <input
+            className={`form-input ${uncertaintyErrors?.seed ? "form-input--error" : ""}`}
+            type="number"
+            min="0"
+            step="1"
+            style={{ width: "7rem" }}
+            {...register("uncertainty.seed", { valueAsNumber: true })}
+          />
+        </div>
+        <button
+          type="button"
+          className="btn btn--secondary btn--small"
+          onClick={run}
+          disabled={!!uncertaintyErrors}
+        >
+          {t("Run simulation")}
+        </button>
+      </div>
+
+      {result && (
+        <div style={{ marginTop: "1rem" }}>
+          <div className="cba-kpi-row">
+            <SimKpi label={t("NPV P10")} value={fmt(result.npv.p10)} positive={result.npv.p10 >= 0} />
+            <SimKpi label={t("NPV P50")} value={fmt(result.npv.p50)} positive={result.npv.p50 >= 0} />
+            <SimKpi label={t("NPV P90")} value={fmt(result.npv.p90)} positive={result.npv.p90 >= 0} />
+            <SimKpi
+              label={t("P(NPV > 0)")}
+              value={`${fixed(result.probNpvPositive * 100, 1)}%`}
+              positive={result.probNpvPositive >= 0.5}
+            />
+          </div>
+          <p className="cba-chart-hint">
+            {t(
+              result.sampledInputs.length === 0
+                ? "{runs} runs, seed {seed} — no input has a distribution, so every run is identical."
+                : "{runs} runs, seed {seed}.",
+              { runs: formatNumber(result.iterations), seed: result.seed },
+            )}{" "}
+            {t("IRR P50: {irr} · BCR P50: {bcr}", {
+              irr: result.irr ? `${fixed(result.irr.p50 * 100, 1)}%` : t("N/A"),
+              bcr: fixed(result.bcr.p50, 2),
+            })}
+          </p>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={histogramData} barCategoryGap="4%" margin={{ top: 8, right: 16, left: 4, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e8f0e9" />
+              <XAxis dataKey="bin" tick={{ fontSize: 9 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 9 }} />
+              <Tooltip
+                formatter={(v) => [Number(v), t("Runs")]}
+                labelFormatter={(_, payload) => String(payload?.[0]?.payload?.range ?? "")}
+              />
+              <Bar dataKey="count" name={t("Runs")}>
+                {histogramData.map((d, i) => (
+                  <Cell key={i} fill={d.mid >= 0 ? "#4E8465" : "#c0392b"} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SimKpi({ label, value, positive }: { label: string; value: string; positive: boolean }) {
+  const { t } = useI18n();
+  return (
+    <div className={`cba-kpi-card cba-kpi-card--${positive ? "positive" : "negative"}`}>
+      <div className="cba-kpi-label">{label}</div>
+      <div className="cba-kpi-value">{value}</div>
+      <div className="cba-kpi-sub">{t("Simulated net present value")}</div>
+    </div>
+  );
+}
@@ -4,13 +4,18 @@
  * Generates one summary block per restoration method with:
  *   Section 1 — Favorable Scenario (implementation + maintenance)
  *   Section 2 — Context Constraints & Additional Costs
- *   Section 3 — Unfavourable Scenario (computed vs declared)
+ *   Section 3 — Unfavourable Scenario (computed vs declared, interaction adjustment)
  *   Production Factor Breakdown (weighted distributions)
- *   Mathematical Consistency Check (collapsible)
+ *   Machinery hours implied by the machinery shares and the unit cost per hour
+ *   Consistency check — rule issues for the declared unfavorable cost and
+ *   maintenance segments whose annual cost looks like an accumulated total
+ * preceded by the reference-range check (values outside the expected range
+ * for the ecosystem and method, see utils/outliers).
  *
  * All values are auto-computed from form state via useMemo.
  */
 
+import { useMemo } from "react";
 import { useWatch, useFormContext } from "react-hook-form";
 import { AlertTriangle, CheckCircle2 } from "lucide-react";
 import {
@@ -18,17 +23,27 @@ import {
   Legend, ResponsiveContainer, Cell,
 } from "recharts";
 import type { RestorationModelFormData } from "../../schemas";
-import type { MethodCostEntry, FactorShares, ContextConstraintEntry } from "../../types";
+import type { MethodCostEntry, MethodType, FactorShares, ContextConstraintEntry, RestorationModel } from "../../types";
 import { METHOD_TABS } from "../../constants";
-import { CollapsibleSection, SummaryTable } from "../ui";
-import { formatUSD } from "../../utils";
+import { CollapsibleSection, SummaryTable, ConvertedFormField, IssueNotes } from "../ui";
+import {
+  computeInteractionAdjustment,
+  computeMachinery,
+  issuesForField,
+  type InteractionAdjustment,
+  type MethodMachinery,
+  type RuleIssue,
+} from "../../utils";
+import { detectOutliers, loadReferenceRanges, outlierInEntryUnits } from "../../utils/outliers";
+import { formatNumber, translateMessage } from "../../utils/i18n";
+import { useValidationIssues, useEntryCurrency, useAreaUnit, useI18n } from "../../hooks";
 
 // ---------------------------------------------------------------------------
 // Constants for constraint labels & units
 // ---------------------------------------------------------------------------
 
 const CONSTRAINT_META: Record<string, { label: string; unit: string }> = {
-  fireRisk:                  { label: "Firebreak / Fire Risk",                    unit: "US$/ha" },
+  fireRisk:                  { label: "Firebreak / Fire Risk",                    unit: "US$/km" },
   grazingPressure:           { label: "Fencing / Grazing Pressure",               unit: "US$/km" },
   invasiveSpeciesPressure:   { label: "Weed Control / Invasive Species Pressure", unit: "US$/ha" },
   pestControl:               { label: "Pest Control / Pest Infestation Risk",      unit: "US$/ha" },
@@ -39,7 +54,7 @@ const CONSTRAINT_META: Record<string, { label: string; unit: string }> = {
 // ---------------------------------------------------------------------------
 
 function fmt(v: number): string {
-  return v.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return formatNumber(v, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 }
 
 function sharesSum(s: FactorShares): number {
@@ -90,8 +105,11 @@ interface MethodSummary {
   }[];
   totalAdditional: number;
   computedUnfavourable: number;
+  interaction: InteractionAdjustment;
   favorableShares: FactorShares;
   unfavourableShares: FactorShares;
+  /** Null without a machinery unit cost */
+  machinery: MethodMachinery | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -99,12 +117,25 @@ interface MethodSummary {
 // ---------------------------------------------------------------------------
 
 export function SummaryValidationSection() {
+  const { t } = useI18n();
   const { control } = useFormContext<RestorationModelFormData>();
 
   // useWatch subscribes to nested field changes and triggers re-renders
   const methodCosts = useWatch({ control, name: "methodCosts" });
   const contextVariables = useWatch({ control, name: "contextVariables" });
   const disabledMethods: string[] = (useWatch({ control, name: "disabledMethods" }) ?? []) as string[];
+  const ecosystem = useWatch({ control, name: "ecosystem" });
+  const currency = useWatch({ control, name: "currency" });
+  const timeHorizon = useWatch({ control, name: "timeHorizon" });
+  const laborBreakdown = useWatch({ control, name: "laborBreakdown" });
+  const issues = useValidationIssues();
+  const referenceRanges = useMemo(() => loadReferenceRanges(), []);
+  const areaUnit = useWatch({ control, name: "areaUnit" });
+  // Detected in US$/ha, shown in the entry currency and area unit
+  const outliers = detectOutliers(
+    { ecosystem, currency, methodCosts, contextVariables, disabledMethods } as unknown as RestorationModel,
+    referenceRanges,
+  ).map((f) => outlierInEntryUnits(f, { currency, areaUnit }));
 
   const methodSummaries: MethodSummary[] = (() => {
     const ctx = contextVariables ?? {};
@@ -149,6 +180,7 @@ export function SummaryValidationSection() {
 
       const totalAdditional = constraints.reduce((s, c) => s + c.totalCost, 0);
       const computedUnfavourable = totalFavorable + totalAdditional;
+      const interaction = computeInteractionAdjustment(entry, ctx as Partial<RestorationModelFormData["contextVariables"]>);
 
       // Weighted factor shares — favorable
       const favorableShares = weightedShares([
@@ -166,6 +198,12 @@ export function SummaryValidationSection() {
       ];
       const unfavourableShares = weightedShares(unfavourableComponents);
 
+      const machinery = computeMachinery(
+        tab.id as MethodType,
+        entry,
+        { timeHorizon, contextVariables, laborBreakdown } as unknown as RestorationModel,
+      );
+
       return {
         id: tab.id,
         title: tab.title,
@@ -177,8 +215,10 @@ export function SummaryValidationSection() {
         constraints,
         totalAdditional,
         computedUnfavourable,
+        interaction,
         favorableShares,
         unfavourableShares,
+        machinery,
       };
     });
   })();
@@ -191,8 +231,44 @@ export function SummaryValidationSection() {
       icon={<CheckCircle2 size={20} />}
       headerClassName="section-header--light"
     >
+      <div className="summary-method-block">
+        <h4 className="summary-method-title">{t("Reference range check")}</h4>
+        {outliers.length === 0 ? (
+          <p className="form-hint">{t("All entered costs, NTFP prices and productivities are within the reference ranges.")}</p>
+        ) : (
+          <>
+            <p className="summary-warning">
+              <AlertTriangle size={13} />
+              {t(
+                outliers.length === 1
+                  ? "{count} value is outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct."
+                  : "{count} values are outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.",
+                { count: outliers.length },
+              )}
+            </p>
+            <SummaryTable
+              headers={[t("Field"), t("Entered"), t("Expected range"), t("Deviation"), t("Source")]}
+              rows={outliers.map((f) => ({
+                label: translateMessage(f.label),
+                values: [
+                  `${fmt(f.value)} ${f.unit}`,
+                  `${fmt(f.range.min)}–${fmt(f.range.max)} ${f.unit}`,
+                  `${f.deviationPct >= 0 ? "+" : ""}${formatNumber(f.deviationPct, { maximumFractionDigits: 0 })}%`,
+                  f.range.ecosystem !== "*" ? `${t(f.range.source)} (${t(f.range.ecosystem)})` : t(f.range.source),
+                ],
+                className: "summary-row-warn",
+              }))}
+            />
+          </>
+        )}
+      </div>
+
       {methodSummaries.map((m) => (
-        <MethodSummaryBlock key={m.id} summary={m} />
+        <MethodSummaryBlock
+          key={m.id}
+          summary={m}
+          issues={issues.filter((i) => i.target.methodId === m.id)}
+        />
       ))}
     </CollapsibleSection>
   );
@@ -202,26 +278,35 @@ export function SummaryValidationSection() {
 // Per-method summary block
 // ---------------------------------------------------------------------------
 
-function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
+function MethodSummaryBlock({ summary: m, issues }: { summary: MethodSummary; issues: RuleIssue[] }) {
+  const { formState: { errors } } = useFormContext<RestorationModelFormData>();
+  const methodId = m.id as keyof RestorationModelFormData["methodCosts"];
+  const adj = m.interaction;
+  const { t } = useI18n();
+  const currency = useEntryCurrency();
+  // Summary values are per hectare; show them per chosen area unit
+  const area = useAreaUnit();
+  const perArea = (v: number) => currency.format(area.fromPerHa(v));
+
   // ── Cost bar chart data (horizontal) ──────────────────────────────────
   const costBars = [
-    { name: "Implementation", value: m.implCost, fill: "#2A4B46" },
-    { name: "Maintenance", value: m.maintCost, fill: "#4E8465" },
+    { name: t("Implementation"), value: area.fromPerHa(m.implCost), fill: "#2A4B46" },
+    { name: t("Maintenance"), value: area.fromPerHa(m.maintCost), fill: "#4E8465" },
     ...m.constraints
       .filter((c) => c.totalCost > 0)
-      .map((c) => ({ name: c.label.split(" / ")[0], value: c.totalCost, fill: "#c0602a" })),
+      .map((c) => ({ name: t(c.label).split(" / ")[0], value: area.fromPerHa(c.totalCost), fill: "#c0602a" })),
   ].filter((d) => d.value > 0);
 
   // ── Factor shares data (stacked horizontal bar) ───────────────────────
   const shareData = [
     {
-      name: "Favorable",
+      name: t("Favorable"),
       labor: Number(m.favorableShares.labor) || 0,
       materials: Number(m.favorableShares.materials) || 0,
       machinery: Number(m.favorableShares.machinery) || 0,
     },
     {
-      name: "Unfavorable",
+      name: t("Unfavorable"),
       labor: Number(m.unfavourableShares.labor) || 0,
       materials: Number(m.unfavourableShares.materials) || 0,
       machinery: Number(m.unfavourableShares.machinery) || 0,
@@ -233,14 +318,14 @@ function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
 
   return (
     <div className="summary-method-block">
-      <h4 className="summary-method-title">{m.title}</h4>
+      <h4 className="summary-method-title">{t(m.title)}</h4>
 
       {/* ── Visual summary row ──────────────────────────────────────────── */}
       <div className="summary-charts-row">
 
         {/* Cost breakdown bar chart */}
         <div className="summary-chart-col">
-          <p className="summary-chart-label">Cost Breakdown (US$/ha)</p>
+          <p className="summary-chart-label">{t("Cost Breakdown ({unit})", { unit: area.unit(currency.unit("US$/ha")) })}</p>
           <ResponsiveContainer width="100%" height={Math.max(100, costBars.length * 36 + 24)}>
             <BarChart
               data={costBars}
@@ -251,12 +336,12 @@ function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
               <XAxis
                 type="number"
                 tickFormatter={(v: number) =>
-                  v >= 1000 ? `$${(v / 1000).toFixed(0)}k` : `$${v.toFixed(0)}`
+                  v >= 1000 ? `${formatNumber(v / 1000, { maximumFractionDigits: 0 })}k` : formatNumber(v, { maximumFractionDigits: 0 })
                 }
                 tick={{ fontSize: 10 }}
               />
               <YAxis type="category" dataKey="name" tick={{ fontSize: 11 }} width={110} />
-              <Tooltip formatter={(v) => [formatUSD(Number(v)), ""]} />
+              <Tooltip formatter={(v) => [currency.format(Number(v)), ""]} />
               <Bar dataKey="value" radius={[0, 3, 3, 0]}>
                 {costBars.map((d, i) => (
                   <Cell key={i} fill={d.fill} />
@@ -266,14 +351,14 @@ function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
           </ResponsiveContainer>
           {/* Totals */}
           <div className="summary-cost-totals">
-            <span>Favorable: <strong>{formatUSD(m.totalFavorable)}</strong></span>
-            <span>Unfavorable: <strong>{formatUSD(m.computedUnfavourable)}</strong></span>
+            <span>{t("Favorable:")} <strong>{perArea(m.totalFavorable)}</strong></span>
+            <span>{t("Unfavorable:")} <strong>{perArea(adj.declared ?? m.computedUnfavourable)}</strong></span>
           </div>
         </div>
 
         {/* Factor shares stacked bar */}
         <div className="summary-chart-col">
-          <p className="summary-chart-label">Production Factors (%)</p>
+          <p className="summary-chart-label">{t("Production Factors (%)")}</p>
           <ResponsiveContainer width="100%" height={100}>
             <BarChart
               data={shareData}
@@ -288,19 +373,23 @@ function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
                 tick={{ fontSize: 10 }}
               />
               <YAxis type="category" dataKey="name" tick={{ fontSize: 11 }} width={80} />
-              <Tooltip formatter={(v, name) => [`${Number(v).toFixed(1)}%`, name]} />
+              <Tooltip formatter={(v, name) => [`${formatNumber(Number(v), { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`, name]} />
               <Legend wrapperStyle={{ fontSize: 10 }} />
-              <Bar dataKey="labor" stackId="f" fill="#4E8465" name="Labor" />
-              <Bar dataKey="materials" stackId="f" fill="#A8C2B4" name="Materials" />
-              <Bar dataKey="machinery" stackId="f" fill="#2A4B46" name="Machinery" />
+              <Bar dataKey="labor" stackId="f" fill="#4E8465" name={t("Labor")} />
+              <Bar dataKey="materials" stackId="f" fill="#A8C2B4" name={t("Materials")} />
+              <Bar dataKey="machinery" stackId="f" fill="#2A4B46" name={t("Machinery")} />
             </BarChart>
           </ResponsiveContainer>
           {(!favOk || !unfavOk) && (
             <p className="summary-warning" style={{ marginTop: "0.35rem", marginBottom: 0 }}>
-              <AlertTriangle size={13} />
-              {!favOk ? " Favorable" : ""}
-              {!favOk && !unfavOk ? " &" : ""}
-              {!unfavOk ? " Unfavorable" : ""} factor shares don't sum to 100%.
+              <AlertTriangle size={13} />{" "}
+              {t(
+                !favOk && !unfavOk
+                  ? "Favorable & Unfavorable factor shares don't sum to 100%."
+                  : !favOk
+                    ? "Favorable factor shares don't sum to 100%."
+                    : "Unfavorable factor shares don't sum to 100%.",
+              )}
             </p>
           )}
         </div>
@@ -309,29 +398,107 @@ function MethodSummaryBlock({ summary: m }: { summary: MethodSummary }) {
 
       {/* Context Constraints & Additional Costs — kept as table (detailed data) */}
       <SummaryTable
-        caption="Context Constraints &amp; Additional Costs"
-        headers={["Constraint", "Unit Cost", "Occurrences / Area", "Firebreak Area (ha)", "Total Cost"]}
+        caption={t("Context Constraints & Additional Costs")}
+        headers={[
+          t("Constraint"),
+          t("Unit Cost"),
+          t("Occurrences / Area"),
+          t("Firebreak Area ({unit})", { unit: area.symbol }),
+          t("Total Cost ({unit})", { unit: area.unit(currency.unit("US$/ha")) }),
+        ]}
         rows={[
           ...m.constraints.map((c) => ({
-            label: c.label,
+            label: t(c.label),
             values: [
-              c.unitCost > 0 ? `${fmt(c.unitCost)} ${c.unit}` : "—",
+              c.unitCost > 0
+                ? c.unit.endsWith("/ha")
+                  ? `${fmt(area.fromPerHa(c.unitCost))} ${area.unit(currency.unit(c.unit))}`
+                  : `${fmt(c.unitCost)} ${currency.unit(c.unit)}`
+                : "—",
               c.occurrences > 0
                 ? c.key === "grazingPressure"
-                  ? `${c.occurrences} ha`
+                  ? `${fmt(area.fromHa(c.occurrences))} ${area.symbol}`
                   : `${c.occurrences}`
                 : "—",
-              c.key === "fireRisk" && c.firebreakArea ? `${c.firebreakArea} ha` : "—",
-              c.totalCost > 0 ? formatUSD(c.totalCost) : "—",
+              c.key === "fireRisk" && c.firebreakArea ? `${fmt(area.fromHa(c.firebreakArea))} ${area.symbol}` : "—",
+              c.totalCost > 0 ? perArea(c.totalCost) : "—",
             ],
           })),
           {
-            label: "Total Additional Cost",
-            values: ["", "", "", formatUSD(m.totalAdditional)],
+            label: t("Total Additional Cost"),
+            values: ["", "", "", perArea(m.totalAdditional)],
+            className: "summary-table-total",
+          },
+        ]}
+      />
+
+      {/* Machinery hours implied by the machinery shares */}
+      {m.machinery ? (
+        <>
+          <SummaryTable
+            caption={t("Machinery Hours")}
+            headers={[
+              t("Cost Line"),
+              t("Machinery Cost ({unit})", { unit: area.unit(currency.unit("US$/ha")) }),
+              t("Hours ({unit})", { unit: area.unit("h/ha") }),
+            ]}
+            rows={[
+              ...m.machinery.lines.map((l) => ({
+                label: t(l.label),
+                values: [l.machineryCost > 0 ? perArea(l.machineryCost) : "—", l.hours > 0 ? fmt(area.fromPerHa(l.hours)) : "—"],
+              })),
+              {
+                label: t("Total over the horizon (plausible per year: ≤ {hours} {unit})", {
+                  hours: fmt(area.fromPerHa(m.machinery.maxHoursPerHa)),
+                  unit: area.unit("h/ha"),
+                }),
+                values: ["", fmt(area.fromPerHa(m.machinery.totalHours))],
+                className: "summary-table-total",
+              },
+            ]}
+          />
+          <IssueNotes issues={issues.filter((i) => i.ruleId.startsWith("method.machinery."))} />
+        </>
+      ) : (
+        <p className="form-hint">{t("Enter the machinery unit cost per hour in Section 4 to derive the machinery hours.")}</p>
+      )}
+
+      {/* Unfavourable scenario — computed (additive) vs declared */}
+      <div className="form-grid" style={{ maxWidth: "480px" }}>
+        <ConvertedFormField
+          key={area.id}
+          label="Declared Total Unfavorable Cost"
+          unit={area.unit(currency.unit("US$/ha"))}
+          min="0"
+          step="0.01"
+          name={`methodCosts.${methodId}.declaredUnfavorableCost`}
+          toDisplay={area.fromPerHa}
+          fromDisplay={area.toPerHa}
+          error={errors.methodCosts?.[methodId]?.declaredUnfavorableCost}
+          issues={issuesForField(issues, `methodCosts.${methodId}.declaredUnfavorableCost`)}
+          helpText="Your own estimate of the total cost (implementation + maintenance + all constraints) under the unfavorable scenario. The difference from the sum of the parts is the interaction adjustment. Leave 0 if you have no estimate."
+        />
+      </div>
+      <SummaryTable
+        caption={t("Unfavorable Scenario")}
+        headers={[t("Item"), area.unit(currency.unit("US$/ha"))]}
+        rows={[
+          { label: t("Favorable cost + Σ constraint costs (computed)"), values: [perArea(adj.computed)] },
+          { label: t("Declared unfavorable cost"), values: [adj.declared !== null ? perArea(adj.declared) : "—"] },
+          {
+            label: t("Interaction adjustment (declared − computed)"),
+            values: [
+              adj.declared !== null
+                ? `${perArea(adj.adjustment)}${adj.residualPct !== null ? ` (${adj.residualPct >= 0 ? "+" : ""}${formatNumber(adj.residualPct, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%)` : ""}`
+                : "—",
+            ],
             className: "summary-table-total",
           },
         ]}
       />
+      <IssueNotes issues={issues.filter((i) => i.ruleId === "segment.accumulated")}>
+        {() => ` ${t("Use “Interpret as total and spread over years” in the method tab if it was a total.")}`}
+      </IssueNotes>
     </div>
   );
 }
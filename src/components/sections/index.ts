@@ -4,4 +4,8 @@ export { ContextSection } from "./ContextSection";
 export { CostEstimatesSection } from "./BaseScenarioSection";
 export { LaborBreakdownSection } from "./LaborBreakdownSection";
 export { SummaryValidationSection } from "./SummaryValidationSection";
-export { CBAResultsSection } from "./CBAResultsSection";
+export { AssumptionsSection } from "./AssumptionsSection";
+export { CBAResultsSection, MethodCBAView } from "./CBAResultsSection";
+export { EmploymentSection } from "./EmploymentSection";
+export { ProjectScenarioSection } from "./ProjectScenarioSection";
+export { RegionalExtrapolationSection } from "./RegionalExtrapolationSection";
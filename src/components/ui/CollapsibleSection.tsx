@@ -1,10 +1,13 @@
 /**
  * Collapsible section wrapper used to organise the form into
  * expandable/collapsible blocks for a clean consultant-facing UI.
+ * Title and subtitle are given in English and shown in the active language.
  */
 
 import { useState, type ReactNode } from "react";
 import { ChevronDown, ChevronRight } from "lucide-react";
+import { useFieldFocusListener } from "../../hooks/useFieldFocus";
+import { useI18n } from "../../hooks/useI18n";
 
 interface CollapsibleSectionProps {
   title: string;
@@ -12,6 +15,8 @@ interface CollapsibleSectionProps {
   defaultOpen?: boolean;
   icon?: ReactNode;
   headerClassName?: string;
+  /** Field-path prefixes inside this section; a jump to one of them opens it */
+  fieldPrefixes?: string[];
   children: ReactNode;
 }
 
@@ -21,9 +26,16 @@ export function CollapsibleSection({
   defaultOpen = false,
   icon,
   headerClassName,
+  fieldPrefixes = [],
   children,
 }: CollapsibleSectionProps) {
   const [isOpen, setIsOpen] = useState(defaultOpen);
+  const { t } = useI18n();
+
+  useFieldFocusListener(
+    (path) => fieldPrefixes.some((p) => path === p || path.startsWith(`${p}.`)),
+    () => setIsOpen(true),
+  );
 
   return (
     <section className="collapsible-section">
@@ -37,8 +49,8 @@ export function CollapsibleSection({
           {isOpen ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
         </span>
         <div style={{ flex: 1 }}>
-          <h2 className="section-title">{title}</h2>
-          {subtitle && <p className="section-subtitle">{subtitle}</p>}
+          <h2 className="section-title">{t(title)}</h2>
+          {subtitle && <p className="section-subtitle">{t(subtitle)}</p>}
         </div>
         {icon && <span className="section-header-icon">{icon}</span>}
       </button>
@@ -2,20 +2,23 @@
  * CostTimelineBuilder
  *
  * Interactive step-line chart for entering maintenance costs by year range.
- * Each segment = (yearFrom, yearTo, cost US$/ha).
+ * Each segment = (yearFrom, yearTo, cost US$/ha), shown per `areaSymbol`.
  * A step-function line chart updates live as values are typed.
  * The sum of all segments is propagated via `onTotalChange`.
  */
 
 import { useId } from "react";
 import type { CostSegment } from "../../types";
+import { DEFAULT_TIME_HORIZON, MAINTENANCE_ACTIVITIES_ANR, MAINTENANCE_ACTIVITIES_OTHER } from "../../constants";
+import { useI18n } from "../../hooks";
+import { formatNumber } from "../../utils/i18n";
 
 // â”€â”€â”€ Types â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
 interface Props {
   /** First year on the timeline (default: 2 â€” year 1 is implementation) */
   startYear?: number;
-  /** Last year on the timeline (default: 20) */
+  /** Last year on the timeline — the model's time horizon (default: DEFAULT_TIME_HORIZON) */
   maxYear?: number;
   /** Current set of persisted segments */
   value: CostSegment[];
@@ -23,7 +26,11 @@ interface Props {
   onChange: (segments: CostSegment[]) => void;
   /** Called whenever the total cost changes */
   onTotalChange: (total: number) => void;  /** Whether this is for ANR/Enrichment methods (affects activity list) */
-  isAnrEnrichment?: boolean;}
+  isAnrEnrichment?: boolean;
+  /** Symbol of the entry currency shown in the chart and totals (default: "US$") */
+  currencySymbol?: string;
+  /** Symbol of the area unit the costs are shown per (default: "ha") */
+  areaSymbol?: string;}
 
 // â”€â”€â”€ Colours & geometry â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
@@ -41,7 +48,7 @@ const CW = VW - P.left - P.right;
 const CH = VH - P.top  - P.bottom;
 
 function formatUSD(v: number) {
-  return v.toLocaleString("en-US", { maximumFractionDigits: 0 });
+  return formatNumber(v, { maximumFractionDigits: 0 });
 }
 
 function getSegmentSpan(segment: CostSegment) {
@@ -55,8 +62,8 @@ function computeTotal(segments: CostSegment[]) {
 // â”€â”€â”€ Step-function line chart â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
 function LineChart({
-  segments, startYear, maxYear,
-}: { segments: CostSegment[]; startYear: number; maxYear: number; }) {
+  segments, startYear, maxYear, currencySymbol, areaSymbol,
+}: { segments: CostSegment[]; startYear: number; maxYear: number; currencySymbol: string; areaSymbol: string; }) {
   const years = maxYear - startYear + 1;
 
   const costMap: Record<number, number> = {};
@@ -116,7 +123,7 @@ function LineChart({
         </g>
       ))}
       <text x={22} y={P.top + CH / 2} fill="#64748b" fontSize="9" textAnchor="middle"
-        transform={`rotate(-90,22,${P.top + CH / 2})`}>US$/ha</text>
+        transform={`rotate(-90,22,${P.top + CH / 2})`}>{currencySymbol}/{areaSymbol}</text>
       <line x1={P.left} y1={P.top + CH} x2={P.left + CW} y2={P.top + CH} stroke="#94a3b8" strokeWidth="1.5" />
       {xTickYears.map((y) => (
         <g key={`x${y}`}>
@@ -133,7 +140,7 @@ function LineChart({
   );
 }
 
-function Legend({ segments }: { segments: CostSegment[] }) {
+function Legend({ segments, currencySymbol, areaSymbol }: { segments: CostSegment[]; currencySymbol: string; areaSymbol: string }) {
   const visible = segments.filter((s) => (Number(s.cost) || 0) > 0 || s.label);
   if (visible.length === 0) return null;
   return (
@@ -143,7 +150,7 @@ function Legend({ segments }: { segments: CostSegment[] }) {
           <span className="cost-timeline-legend-dot" style={{ background: colour(i) }} />
           {seg.label || `Segment ${i + 1}`}
           {(Number(seg.cost) || 0) > 0 && (
-            <span className="cost-timeline-legend-cost">US$ {formatUSD(seg.cost)}/ha</span>
+            <span className="cost-timeline-legend-cost">{currencySymbol} {formatUSD(seg.cost)}/{areaSymbol}</span>
           )}
         </span>
       ))}
@@ -153,28 +160,13 @@ function Legend({ segments }: { segments: CostSegment[] }) {
 
 // â”€â”€â”€ Main â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
-export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChange, onTotalChange, isAnrEnrichment = false }: Props) {
+export function CostTimelineBuilder({ startYear = 2, maxYear = DEFAULT_TIME_HORIZON, value, onChange, onTotalChange, isAnrEnrichment = false, currencySymbol = "US$", areaSymbol = "ha" }: Props) {
   const uid = useId();
+  const { t } = useI18n();
   const segments = value;
 
-  // Activity lists based on restoration method
-  const anrEnrichmentActivities = [
-    "Maintenance of regenerating individuals (e.g. prunning, thinning and support staking)",
-    "Maintenance of NTFP species (e.g. prunning, thinning and support staking)",
-    "Harvest",
-    "Technical assistance",
-    "Monitoring General Maintenance Activities (e.g. shade management)",
-  ];
-
-  const otherMethodActivities = [
-    "Maintenance of regenerating individuals (e.g. prunning, thinning and fertilization)",
-    "Maintenance of NTFP species (e.g. prunning, thinning and fertilization)",
-    "Harvest",
-    "Technical assistance",
-    "Monitoring General Maintenance Activities (e.g. shade management)",
-  ];
-
-  const activities = isAnrEnrichment ? anrEnrichmentActivities : otherMethodActivities;
+  // Activity list based on restoration method
+  const activities: readonly string[] = isAnrEnrichment ? MAINTENANCE_ACTIVITIES_ANR : MAINTENANCE_ACTIVITIES_OTHER;
 
   const MAX_PER_ACTIVITY = 10;
 
@@ -207,32 +199,32 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
 
   return (
     <div className="cost-timeline-builder">
-      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} />
-      <Legend segments={segments} />
+      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} currencySymbol={currencySymbol} areaSymbol={areaSymbol} />
+      <Legend segments={segments} currencySymbol={currencySymbol} areaSymbol={areaSymbol} />
 
       <div className="cost-timeline-rows">
         {segments.length === 0 && (
-          <p className="cost-timeline-empty">No segments yet — click "Add segment" to start.</p>
+          <p className="cost-timeline-empty">{t("No segments yet — click \"Add segment\" to start.")}</p>
         )}
         {segments.map((seg, i) => (
           <div key={seg.id} className="cost-timeline-row">
             <span className="cost-timeline-row-swatch" style={{ background: colour(i) }} />
 
             <div className="cost-timeline-field cost-timeline-field--label">
-              <label className="cost-timeline-input-label">Name</label>
+              <label className="cost-timeline-input-label">{t("Name")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.label}
                 onChange={(e) => patch(seg.id, { label: e.target.value })}
               >
-                <option value="">Select activity...</option>
+                <option value="">{t("Select activity...")}</option>
                 {activities.map((activity) => {
                   // Disable activities at the cap unless this is already the segment's current selection.
                   const isCurrent = seg.label === activity;
                   const isFull = countsByActivity[activity] >= MAX_PER_ACTIVITY && !isCurrent;
                   return (
                     <option key={activity} value={activity} disabled={isFull}>
-                      {activity}{isFull ? ` (max ${MAX_PER_ACTIVITY} reached)` : ""}
+                      {t(activity)}{isFull ? ` (${t("max {max} reached", { max: MAX_PER_ACTIVITY })})` : ""}
                     </option>
                   );
                 })}
@@ -240,7 +232,7 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">From year</label>
+              <label className="cost-timeline-input-label">{t("From year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearFrom}
@@ -250,13 +242,13 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
                 }}
               >
                 {Array.from({ length: maxYear - startYear + 1 }, (_, i) => startYear + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">To year</label>
+              <label className="cost-timeline-input-label">{t("To year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearTo}
@@ -266,13 +258,13 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
                 }}
               >
                 {Array.from({ length: maxYear - seg.yearFrom + 1 }, (_, i) => seg.yearFrom + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--cost">
-              <label className="cost-timeline-input-label">Total cost (US$/ha/yr)</label>
+              <label className="cost-timeline-input-label">{t("Total cost ({currency}/{area}/yr)", { currency: currencySymbol, area: areaSymbol })}</label>
               <input type="number" className="cost-timeline-input"
                 min={0} step={0.01} placeholder="0.00"
                 value={seg.cost === 0 ? "" : seg.cost}
@@ -280,7 +272,7 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
             </div>
 
             <button type="button" className="cost-timeline-remove"
-              onClick={() => remove(seg.id)} title="Remove segment" aria-label="Remove segment">
+              onClick={() => remove(seg.id)} title={t("Remove segment")} aria-label={t("Remove segment")}>
               <svg viewBox="0 0 10 10" width="10" height="10" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round">
                 <line x1="1" y1="1" x2="9" y2="9" />
                 <line x1="9" y1="1" x2="1" y2="9" />
@@ -298,20 +290,20 @@ export function CostTimelineBuilder({ startYear = 2, maxYear = 20, value, onChan
             onClick={add}
             disabled={allActivitiesFull}
             style={allActivitiesFull ? { opacity: 0.5, cursor: "not-allowed" } : undefined}
-          >+ Add segment</button>
+          >+ {t("Add segment")}</button>
           <span className="cost-timeline-add-hint">
             {allActivitiesFull
-              ? `All activities are at the maximum of ${MAX_PER_ACTIVITY} segments. Remove a segment to add a new one.`
-              : `Split the maintenance period into segments with different annual costs (e.g., intensive years vs. later years). Maximum ${MAX_PER_ACTIVITY} segments per activity.`}
+              ? t("All activities are at the maximum of {max} segments. Remove a segment to add a new one.", { max: MAX_PER_ACTIVITY })
+              : t("Split the maintenance period into segments with different annual costs (e.g., intensive years vs. later years). Maximum {max} segments per activity.", { max: MAX_PER_ACTIVITY })}
           </span>
         </div>
         {activitiesAtLimit.length > 0 && !allActivitiesFull && (
           <span className="cost-timeline-add-hint" style={{ color: "#b45309", fontSize: "0.78rem", display: "block", marginTop: "0.25rem" }}>
-            ⚠ Activities at the {MAX_PER_ACTIVITY}-segment limit: {activitiesAtLimit.map((a) => a.split(" (")[0]).join(", ")}
+            ⚠ {t("Activities at the {max}-segment limit", { max: MAX_PER_ACTIVITY })}: {activitiesAtLimit.map((a) => t(a).split(" (")[0]).join(", ")}
           </span>
         )}
         {segments.length > 0 && (
-          <span className="cost-timeline-total">Accumulated total: <strong>US$ {formatUSD(total)}/ha</strong></span>
+          <span className="cost-timeline-total">{t("Accumulated total")}: <strong>{currencySymbol} {formatUSD(total)}/{areaSymbol}</strong></span>
         )}
       </div>
     </div>
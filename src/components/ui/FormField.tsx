@@ -1,11 +1,18 @@
 /**
  * Reusable form field components that integrate with React Hook Form.
  * Each component reads errors from the form context and renders
- * validation messages automatically.
+ * validation messages automatically. Labels, units, placeholders, help
+ * texts and validation messages are given in English and shown in the
+ * active language (utils/i18n).
  */
 
-import type { FieldError, UseFormRegisterReturn } from "react-hook-form";
+import { useState } from "react";
+import { useController, type FieldError, type UseFormRegisterReturn } from "react-hook-form";
 import { HelpCircle } from "lucide-react";
+import type { RuleIssue } from "../../utils/rules";
+import { IssueBadges } from "./IssueBadges";
+import { useI18n } from "../../hooks/useI18n";
+import { translateMessage } from "../../utils/i18n";
 
 // ---------------------------------------------------------------------------
 // Text / Number Input
@@ -23,6 +30,23 @@ interface FormFieldProps {
   max?: string;
   disabled?: boolean;
   helpText?: string;
+  /** Rule-registry issues concerning this field, shown as badges under the input */
+  issues?: RuleIssue[];
+}
+
+function FieldLabel({ label, unit, helpText }: Pick<FormFieldProps, "label" | "unit" | "helpText">) {
+  const { t } = useI18n();
+  return (
+    <label className="form-label">
+      {t(label)}
+      {unit && <span className="form-unit"> ({t(unit)})</span>}
+      {helpText && (
+        <span className="form-help-icon" data-tooltip={t(helpText)}>
+          <HelpCircle size={14} />
+        </span>
+      )}
+    </label>
+  );
 }
 
 export function FormField({
@@ -37,29 +61,92 @@ export function FormField({
   max,
   disabled = false,
   helpText,
+  issues = [],
 }: FormFieldProps) {
+  const { t } = useI18n();
   return (
     <div className="form-field">
-      <label className="form-label">
-        {label}
-        {unit && <span className="form-unit"> ({unit})</span>}
-        {helpText && (
-          <span className="form-help-icon" data-tooltip={helpText}>
-            <HelpCircle size={14} />
-          </span>
-        )}
-      </label>
+      <FieldLabel label={label} unit={unit} helpText={helpText} />
       <input
         className={`form-input ${error ? "form-input--error" : ""}`}
         type={type}
-        placeholder={placeholder}
+        placeholder={placeholder && t(placeholder)}
         step={step}
         min={min}
         max={max}
         disabled={disabled}
         {...registration}
       />
-      {error && <span className="form-error">{error.message}</span>}
+      {error?.message && <span className="form-error">{translateMessage(error.message)}</span>}
+      {!error && <IssueBadges issues={issues} />}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Number input shown in another unit
+// ---------------------------------------------------------------------------
+
+interface ConvertedFormFieldProps extends Omit<FormFieldProps, "registration" | "type"> {
+  /** Form path of the stored number */
+  name: string;
+  /** Conversions between the stored value and the value shown and typed */
+  toDisplay: (stored: number) => number;
+  fromDisplay: (shown: number) => number;
+}
+
+/**
+ * Number field whose stored value is in a canonical unit (e.g. per hectare)
+ * while the respondent reads and types it in another (e.g. per acre). The
+ * typed text is kept while the field has focus so conversions never rewrite
+ * what is being typed; an empty field stores NaN like `valueAsNumber`.
+ */
+export function ConvertedFormField({
+  name,
+  toDisplay,
+  fromDisplay,
+  label,
+  unit,
+  error,
+  placeholder,
+  step,
+  min,
+  max,
+  disabled = false,
+  helpText,
+  issues = [],
+}: ConvertedFormFieldProps) {
+  const { t } = useI18n();
+  const { field: { value, onChange, onBlur, ref } } = useController({ name });
+  const [draft, setDraft] = useState<string | null>(null);
+  const stored = typeof value === "number" ? value : Number(value);
+  const shown = draft ?? (value === "" || value == null || !Number.isFinite(stored) ? "" : String(toDisplay(stored)));
+
+  return (
+    <div className="form-field">
+      <FieldLabel label={label} unit={unit} helpText={helpText} />
+      <input
+        className={`form-input ${error ? "form-input--error" : ""}`}
+        type="number"
+        placeholder={placeholder && t(placeholder)}
+        step={step}
+        min={min}
+        max={max}
+        disabled={disabled}
+        name={name}
+        ref={ref}
+        value={shown}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          onChange(e.target.value === "" ? NaN : fromDisplay(Number(e.target.value)));
+        }}
+        onBlur={() => {
+          setDraft(null);
+          onBlur();
+        }}
+      />
+      {error?.message && <span className="form-error">{translateMessage(error.message)}</span>}
+      {!error && <IssueBadges issues={issues} />}
     </div>
   );
 }
@@ -83,17 +170,19 @@ export function FormSelect({
   registration,
   placeholder,
 }: FormSelectProps) {
+  const { t } = useI18n();
   return (
     <div className="form-field">
-      <label className="form-label">{label}</label>
+      <label className="form-label">{t(label)}</label>
       <select
         className={`form-input ${error ? "form-input--error" : ""}`}
         {...registration}
       >
-        {placeholder && <option value="">{placeholder}</option>}
+        {placeholder && <option value="">{t(placeholder)}</option>}
         {options.map((opt) => {
           const value = typeof opt === "string" ? opt : opt.value;
-          const displayLabel = typeof opt === "string" ? opt : opt.label;
+          // Values are stored as given; only the displayed text is translated
+          const displayLabel = t(typeof opt === "string" ? opt : opt.label);
           return (
             <option key={value} value={value}>
               {displayLabel}
@@ -101,7 +190,7 @@ export function FormSelect({
           );
         })}
       </select>
-      {error && <span className="form-error">{error.message}</span>}
+      {error?.message && <span className="form-error">{translateMessage(error.message)}</span>}
     </div>
   );
 }
@@ -2,10 +2,12 @@
  * InfoBox – Reusable read-only information container.
  *
  * Displays explanatory text in a styled, non-editable box.
- * Supports multi-line text (split by \n) and an optional title.
+ * Supports multi-line text (split by \n) and an optional title, both
+ * given in English and shown in the active language line by line.
  */
 
 import { Info } from "lucide-react";
+import { useI18n } from "../../hooks/useI18n";
 
 interface InfoBoxProps {
   /** Optional title displayed above the text */
@@ -18,18 +20,19 @@ interface InfoBoxProps {
 
 export function InfoBox({ title, text, variant = "info" }: InfoBoxProps) {
   const className = variant === "warning" ? "info-box info-box--warning" : "info-box";
+  const { t } = useI18n();
 
   return (
     <div className={className}>
       {title && (
         <div className="info-box-header">
           <Info size={16} />
-          <strong>{title}</strong>
+          <strong>{t(title)}</strong>
         </div>
       )}
       <div className="info-box-body">
         {text.split("\n").map((line, i) => (
-          <p key={i}>{line}</p>
+          <p key={i}>{t(line)}</p>
         ))}
       </div>
     </div>
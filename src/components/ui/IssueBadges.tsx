@@ -0,0 +1,49 @@
+/**
+ * Rule-registry issues rendered next to the fields they concern:
+ * `IssueBadges` as compact lines under an input, `IssueNotes` as a block
+ * under a group of fields (distributions, segment lists).
+ */
+
+import type { ReactNode } from "react";
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import type { RuleIssue, RuleSeverity } from "../../utils/rules";
+import { translateMessage } from "../../utils/i18n";
+
+const ICONS: Record<RuleSeverity, typeof AlertCircle> = {
+  error: AlertCircle,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+export function IssueBadges({ issues }: { issues: RuleIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <span className="issue-badges">
+      {issues.map((issue, i) => {
+        const Icon = ICONS[issue.severity];
+        return (
+          <span key={`${issue.ruleId}-${i}`} className={`issue-badge issue-badge--${issue.severity}`} title={issue.ruleId}>
+            <Icon size={12} /> {translateMessage(issue.message)}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+export function IssueNotes({ issues, children }: { issues: RuleIssue[]; children?: (issue: RuleIssue) => ReactNode }) {
+  if (issues.length === 0) return null;
+  return (
+    <>
+      {issues.map((issue, i) => {
+        const Icon = ICONS[issue.severity];
+        return (
+          <p key={`${issue.ruleId}-${i}`} className={`issue-note issue-note--${issue.severity}`}>
+            <Icon size={13} /> {translateMessage(issue.message)}
+            {children?.(issue)}
+          </p>
+        );
+      })}
+    </>
+  );
+}
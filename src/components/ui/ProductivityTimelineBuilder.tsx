@@ -2,13 +2,16 @@
  * ProductivityTimelineBuilder
  *
  * Interactive step-line chart for entering NTFP productivity by year range.
- * Each segment = (yearFrom, yearTo, productivity kg/ha/yr).
+ * Each segment = (yearFrom, yearTo, productivity kg/ha/yr), shown per `areaSymbol`.
  * A step-function line chart updates live as values are typed.
  * The weighted average is propagated via `onAverageChange`.
  */
 
 import { useId } from "react";
 import type { ProductivitySegment } from "../../types";
+import { DEFAULT_TIME_HORIZON } from "../../constants";
+import { useI18n } from "../../hooks";
+import { formatNumber } from "../../utils/i18n";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -18,6 +21,8 @@ interface Props {
   value: ProductivitySegment[];
   onChange: (segments: ProductivitySegment[]) => void;
   onAverageChange: (weightedAvg: number) => void;
+  /** Symbol of the area unit productivity is shown per (default: "ha") */
+  areaSymbol?: string;
 }
 
 // ─── Colours & geometry ─────────────────────────────────────────────────────
@@ -34,14 +39,14 @@ const CW = VW - P.left - P.right;
 const CH = VH - P.top  - P.bottom;
 
 function formatNum(v: number) {
-  return v.toLocaleString("en-US", { maximumFractionDigits: 0 });
+  return formatNumber(v, { maximumFractionDigits: 0 });
 }
 
 // ─── Step-function line chart ───────────────────────────────────────────────
 
 function LineChart({
-  segments, startYear, maxYear,
-}: { segments: ProductivitySegment[]; startYear: number; maxYear: number; }) {
+  segments, startYear, maxYear, areaSymbol,
+}: { segments: ProductivitySegment[]; startYear: number; maxYear: number; areaSymbol: string; }) {
   const years = maxYear - startYear + 1;
 
   const prodMap: Record<number, number> = {};
@@ -101,7 +106,7 @@ function LineChart({
         </g>
       ))}
       <text x={22} y={P.top + CH / 2} fill="#64748b" fontSize="9" textAnchor="middle"
-        transform={`rotate(-90,22,${P.top + CH / 2})`}>kg/ha/yr</text>
+        transform={`rotate(-90,22,${P.top + CH / 2})`}>kg/{areaSymbol}/yr</text>
       <line x1={P.left} y1={P.top + CH} x2={P.left + CW} y2={P.top + CH} stroke="#94a3b8" strokeWidth="1.5" />
       {xTickYears.map((y) => (
         <g key={`x${y}`}>
@@ -118,7 +123,7 @@ function LineChart({
   );
 }
 
-function Legend({ segments }: { segments: ProductivitySegment[] }) {
+function Legend({ segments, areaSymbol }: { segments: ProductivitySegment[]; areaSymbol: string }) {
   const visible = segments.filter((s) => (Number(s.productivity) || 0) > 0 || s.label);
   if (visible.length === 0) return null;
   return (
@@ -128,7 +133,7 @@ function Legend({ segments }: { segments: ProductivitySegment[] }) {
           <span className="cost-timeline-legend-dot" style={{ background: colour(i) }} />
           {seg.label || `Segment ${i + 1}`}
           {(Number(seg.productivity) || 0) > 0 && (
-            <span className="cost-timeline-legend-cost" style={{ color: "#b45309" }}>{formatNum(seg.productivity)} kg/ha/yr</span>
+            <span className="cost-timeline-legend-cost" style={{ color: "#b45309" }}>{formatNum(seg.productivity)} kg/{areaSymbol}/yr</span>
           )}
         </span>
       ))}
@@ -138,8 +143,9 @@ function Legend({ segments }: { segments: ProductivitySegment[] }) {
 
 // ─── Main ───────────────────────────────────────────────────────────────────
 
-export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value, onChange, onAverageChange }: Props) {
+export function ProductivityTimelineBuilder({ startYear = 2, maxYear = DEFAULT_TIME_HORIZON, value, onChange, onAverageChange, areaSymbol = "ha" }: Props) {
   const uid = useId();
+  const { t } = useI18n();
   const segments = value;
 
   const computeWeightedAvg = (segs: ProductivitySegment[]) => {
@@ -176,24 +182,24 @@ export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value
 
   return (
     <div className="cost-timeline-builder productivity-timeline-builder">
-      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} />
-      <Legend segments={segments} />
+      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} areaSymbol={areaSymbol} />
+      <Legend segments={segments} areaSymbol={areaSymbol} />
 
       <div className="cost-timeline-rows">
         {segments.length === 0 && (
-          <p className="cost-timeline-empty">No segments yet — click "Add productivity segment" to start.</p>
+          <p className="cost-timeline-empty">{t("No segments yet — click \"Add productivity segment\" to start.")}</p>
         )}
         {segments.map((seg, i) => (
           <div key={seg.id} className="cost-timeline-row">
             <span className="cost-timeline-row-swatch" style={{ background: colour(i) }} />
 
             <div className="cost-timeline-field cost-timeline-field--label">
-              <label className="cost-timeline-input-label">Name</label>
-              <span className="cost-timeline-input cost-timeline-input--readonly">{`Segment ${i + 1}`}</span>
+              <label className="cost-timeline-input-label">{t("Name")}</label>
+              <span className="cost-timeline-input cost-timeline-input--readonly">{t("Segment {n}", { n: i + 1 })}</span>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">From year</label>
+              <label className="cost-timeline-input-label">{t("From year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearFrom}
@@ -203,13 +209,13 @@ export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value
                 }}
               >
                 {Array.from({ length: maxYear - startYear + 1 }, (_, i) => startYear + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">To year</label>
+              <label className="cost-timeline-input-label">{t("To year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearTo}
@@ -219,13 +225,13 @@ export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value
                 }}
               >
                 {Array.from({ length: maxYear - seg.yearFrom + 1 }, (_, i) => seg.yearFrom + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--cost">
-              <label className="cost-timeline-input-label">Productivity (kg/ha/yr)</label>
+              <label className="cost-timeline-input-label">{t("Productivity (kg/{area}/yr)", { area: areaSymbol })}</label>
               <input type="number" className="cost-timeline-input"
                 min={0} step={0.01} placeholder="0"
                 value={seg.productivity === 0 ? "" : seg.productivity}
@@ -233,7 +239,7 @@ export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value
             </div>
 
             <button type="button" className="cost-timeline-remove"
-              onClick={() => remove(seg.id)} title="Remove segment" aria-label="Remove segment">
+              onClick={() => remove(seg.id)} title={t("Remove segment")} aria-label={t("Remove segment")}>
               <svg viewBox="0 0 10 10" width="10" height="10" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round">
                 <line x1="1" y1="1" x2="9" y2="9" />
                 <line x1="9" y1="1" x2="1" y2="9" />
@@ -251,16 +257,16 @@ export function ProductivityTimelineBuilder({ startYear = 2, maxYear = 20, value
             onClick={add}
             disabled={atLimit}
             style={atLimit ? { opacity: 0.5, cursor: "not-allowed" } : undefined}
-          >+ Add productivity segment</button>
+          >+ {t("Add productivity segment")}</button>
           <span className="cost-timeline-add-hint">
             {atLimit
-              ? `Maximum of ${MAX_SEGMENTS} segments reached. Remove a segment to add a new one.`
-              : `NTFP productivity typically increases as the forest matures. Add segments for different growth phases. Maximum ${MAX_SEGMENTS} segments.`}
+              ? t("Maximum of {max} segments reached. Remove a segment to add a new one.", { max: MAX_SEGMENTS })
+              : t("NTFP productivity typically increases as the forest matures. Add segments for different growth phases. Maximum {max} segments.", { max: MAX_SEGMENTS })}
           </span>
         </div>
         {segments.length > 0 && (
           <span className="cost-timeline-total" style={{ color: "#b45309" }}>
-            Weighted avg: <strong>{avg.toFixed(1)} kg/ha/yr</strong>
+            {t("Weighted avg")}: <strong>{avg.toFixed(1)} kg/{areaSymbol}/yr</strong>
           </span>
         )}
       </div>
@@ -2,13 +2,16 @@
  * RevenueTimelineBuilder
  *
  * Interactive step-line chart for entering NTFP revenue by year range.
- * Each segment = (yearFrom, yearTo, revenue US$/ha).
+ * Each segment = (yearFrom, yearTo, revenue US$/ha), shown per `areaSymbol`.
  * A step-function line chart updates live as values are typed.
  * The sum of all segments is propagated via `onTotalChange`.
  */
 
 import { useId } from "react";
 import type { RevenueSegment } from "../../types";
+import { DEFAULT_TIME_HORIZON } from "../../constants";
+import { useI18n } from "../../hooks";
+import { formatNumber } from "../../utils/i18n";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -18,6 +21,9 @@ interface Props {
   value: RevenueSegment[];
   onChange: (segments: RevenueSegment[]) => void;
   onTotalChange: (total: number) => void;
+  currencySymbol?: string;
+  /** Symbol of the area unit the revenues are shown per (default: "ha") */
+  areaSymbol?: string;
 }
 
 // ─── Colours & geometry ─────────────────────────────────────────────────────
@@ -34,7 +40,7 @@ const CW = VW - P.left - P.right;
 const CH = VH - P.top  - P.bottom;
 
 function formatUSD(v: number) {
-  return v.toLocaleString("en-US", { maximumFractionDigits: 0 });
+  return formatNumber(v, { maximumFractionDigits: 0 });
 }
 
 function getSegmentSpan(segment: RevenueSegment) {
@@ -48,8 +54,8 @@ function computeTotal(segments: RevenueSegment[]) {
 // ─── Step-function line chart ───────────────────────────────────────────────
 
 function LineChart({
-  segments, startYear, maxYear,
-}: { segments: RevenueSegment[]; startYear: number; maxYear: number; }) {
+  segments, startYear, maxYear, currencySymbol, areaSymbol,
+}: { segments: RevenueSegment[]; startYear: number; maxYear: number; currencySymbol: string; areaSymbol: string; }) {
   const years = maxYear - startYear + 1;
 
   const revMap: Record<number, number> = {};
@@ -109,7 +115,7 @@ function LineChart({
         </g>
       ))}
       <text x={22} y={P.top + CH / 2} fill="#64748b" fontSize="9" textAnchor="middle"
-        transform={`rotate(-90,22,${P.top + CH / 2})`}>US$/ha</text>
+        transform={`rotate(-90,22,${P.top + CH / 2})`}>{currencySymbol}/{areaSymbol}</text>
       <line x1={P.left} y1={P.top + CH} x2={P.left + CW} y2={P.top + CH} stroke="#94a3b8" strokeWidth="1.5" />
       {xTickYears.map((y) => (
         <g key={`x${y}`}>
@@ -126,7 +132,7 @@ function LineChart({
   );
 }
 
-function Legend({ segments }: { segments: RevenueSegment[] }) {
+function Legend({ segments, currencySymbol, areaSymbol }: { segments: RevenueSegment[]; currencySymbol: string; areaSymbol: string }) {
   const visible = segments.filter((s) => (Number(s.revenue) || 0) > 0 || s.label);
   if (visible.length === 0) return null;
   return (
@@ -136,7 +142,7 @@ function Legend({ segments }: { segments: RevenueSegment[] }) {
           <span className="cost-timeline-legend-dot" style={{ background: colour(i) }} />
           {seg.label || `Segment ${i + 1}`}
           {(Number(seg.revenue) || 0) > 0 && (
-            <span className="cost-timeline-legend-cost" style={{ color: "#27ae60" }}>US$ {formatUSD(seg.revenue)}/ha</span>
+            <span className="cost-timeline-legend-cost" style={{ color: "#27ae60" }}>{currencySymbol} {formatUSD(seg.revenue)}/{areaSymbol}</span>
           )}
         </span>
       ))}
@@ -146,8 +152,9 @@ function Legend({ segments }: { segments: RevenueSegment[] }) {
 
 // ─── Main ───────────────────────────────────────────────────────────────────
 
-export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onChange, onTotalChange }: Props) {
+export function RevenueTimelineBuilder({ startYear = 2, maxYear = DEFAULT_TIME_HORIZON, value, onChange, onTotalChange, currencySymbol = "US$", areaSymbol = "ha" }: Props) {
   const uid = useId();
+  const { t } = useI18n();
   const segments = value;
 
   const update = (updated: RevenueSegment[]) => {
@@ -173,24 +180,24 @@ export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onC
 
   return (
     <div className="cost-timeline-builder revenue-timeline-builder">
-      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} />
-      <Legend segments={segments} />
+      <LineChart segments={segments} startYear={startYear} maxYear={maxYear} currencySymbol={currencySymbol} areaSymbol={areaSymbol} />
+      <Legend segments={segments} currencySymbol={currencySymbol} areaSymbol={areaSymbol} />
 
       <div className="cost-timeline-rows">
         {segments.length === 0 && (
-          <p className="cost-timeline-empty">No revenue segments yet — click "Add revenue segment" to start.</p>
+          <p className="cost-timeline-empty">{t("No revenue segments yet — click \"Add revenue segment\" to start.")}</p>
         )}
         {segments.map((seg, i) => (
           <div key={seg.id} className="cost-timeline-row">
             <span className="cost-timeline-row-swatch" style={{ background: colour(i) }} />
 
             <div className="cost-timeline-field cost-timeline-field--label">
-              <label className="cost-timeline-input-label">Name</label>
-              <span className="cost-timeline-input cost-timeline-input--readonly">{`Segment ${i + 1}`}</span>
+              <label className="cost-timeline-input-label">{t("Name")}</label>
+              <span className="cost-timeline-input cost-timeline-input--readonly">{t("Segment {n}", { n: i + 1 })}</span>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">From year</label>
+              <label className="cost-timeline-input-label">{t("From year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearFrom}
@@ -200,13 +207,13 @@ export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onC
                 }}
               >
                 {Array.from({ length: maxYear - startYear + 1 }, (_, i) => startYear + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--year">
-              <label className="cost-timeline-input-label">To year</label>
+              <label className="cost-timeline-input-label">{t("To year")}</label>
               <select
                 className="cost-timeline-input"
                 value={seg.yearTo}
@@ -216,13 +223,13 @@ export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onC
                 }}
               >
                 {Array.from({ length: maxYear - seg.yearFrom + 1 }, (_, i) => seg.yearFrom + i).map((y) => (
-                  <option key={y} value={y}>Yr {y}</option>
+                  <option key={y} value={y}>{t("Yr {year}", { year: y })}</option>
                 ))}
               </select>
             </div>
 
             <div className="cost-timeline-field cost-timeline-field--cost">
-              <label className="cost-timeline-input-label">Revenue (US$/ha/yr)</label>
+              <label className="cost-timeline-input-label">{t("Revenue ({currency}/{area}/yr)", { currency: currencySymbol, area: areaSymbol })}</label>
               <input type="number" className="cost-timeline-input"
                 min={0} step={0.01} placeholder="0.00"
                 value={seg.revenue === 0 ? "" : seg.revenue}
@@ -230,7 +237,7 @@ export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onC
             </div>
 
             <button type="button" className="cost-timeline-remove"
-              onClick={() => remove(seg.id)} title="Remove segment" aria-label="Remove segment">
+              onClick={() => remove(seg.id)} title={t("Remove segment")} aria-label={t("Remove segment")}>
               <svg viewBox="0 0 10 10" width="10" height="10" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round">
                 <line x1="1" y1="1" x2="9" y2="9" />
                 <line x1="9" y1="1" x2="1" y2="9" />
@@ -248,15 +255,15 @@ export function RevenueTimelineBuilder({ startYear = 2, maxYear = 20, value, onC
             onClick={add}
             disabled={atLimit}
             style={atLimit ? { opacity: 0.5, cursor: "not-allowed" } : undefined}
-          >+ Add revenue segment</button>
+          >+ {t("Add revenue segment")}</button>
           <span className="cost-timeline-add-hint">
             {atLimit
-              ? `Maximum of ${MAX_SEGMENTS} segments reached. Remove a segment to add a new one.`
-              : `Split the revenue period into segments with different annual revenues (e.g., early low-yield years vs. mature harvest years). Maximum ${MAX_SEGMENTS} segments.`}
+              ? t("Maximum of {max} segments reached. Remove a segment to add a new one.", { max: MAX_SEGMENTS })
+              : t("Split the revenue period into segments with different annual revenues (e.g., early low-yield years vs. mature harvest years). Maximum {max} segments.", { max: MAX_SEGMENTS })}
           </span>
         </div>
         {segments.length > 0 && (
-          <span className="cost-timeline-total" style={{ color: "#27ae60" }}>Accumulated total: <strong>US$ {formatUSD(total)}/ha</strong></span>
+          <span className="cost-timeline-total" style={{ color: "#27ae60" }}>{t("Accumulated total")}: <strong>{currencySymbol} {formatUSD(total)}/{areaSymbol}</strong></span>
         )}
       </div>
     </div>
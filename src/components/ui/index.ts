@@ -1,5 +1,5 @@
 export { CollapsibleSection } from "./CollapsibleSection";
-export { FormField, FormSelect } from "./FormField";
+export { FormField, ConvertedFormField, FormSelect } from "./FormField";
 export { InfoBox } from "./InfoBox";
 export { SummaryTable } from "./SummaryTable";
 export type { SummaryRow } from "./SummaryTable";
@@ -7,5 +7,6 @@ export { CostTimelineBuilder } from "./CostTimelineBuilder";
 export { RevenueTimelineBuilder } from "./RevenueTimelineBuilder";
 export { ProductivityTimelineBuilder } from "./ProductivityTimelineBuilder";
 export { DistributionPie } from "./DistributionPie";
+export { IssueBadges, IssueNotes } from "./IssueBadges";
 export type { PieSlice } from "./DistributionPie";
 export type { CostSegment, RevenueSegment, ProductivitySegment } from "../../types";
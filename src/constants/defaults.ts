@@ -3,10 +3,18 @@
  */
 
 import type { RestorationModelFormData } from "../schemas";
+import type { UncertaintySettings, PriceIndexEntry, ReferenceRange, Locale, CurrencySettings, AreaUnit, LandCostStart, MethodType, ProjectScenario } from "../types";
 
 /** Default time horizon in years */
 export const DEFAULT_TIME_HORIZON = 20;
 
+/** Allowed range for the analysis time horizon (years) */
+export const MIN_TIME_HORIZON = 10;
+export const MAX_TIME_HORIZON = 50;
+
+/** Placeholder in help texts replaced by the chosen time horizon (see withHorizon) */
+export const HORIZON_TOKEN = "{horizon}";
+
 /** Predefined ecosystem options (extendable) */
 export const ECOSYSTEM_OPTIONS = [
   "Arid or Semi-Arid Zones",
@@ -17,6 +25,52 @@ export const ECOSYSTEM_OPTIONS = [
   "Subtropical Forest",
 ] as const;
 
+/** Entry currency when none is recorded: amounts are already in US$ */
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  code: "USD",
+  exchangeRate: 1,
+  rateDate: "",
+};
+
+/** Entry currencies offered on the identification section (ISO 4217 code + name) */
+export const CURRENCY_OPTIONS: { code: string; label: string }[] = [
+  { code: "USD", label: "US dollar" },
+  { code: "ARS", label: "Argentine peso" },
+  { code: "BOB", label: "Bolivian boliviano" },
+  { code: "BRL", label: "Brazilian real" },
+  { code: "CLP", label: "Chilean peso" },
+  { code: "COP", label: "Colombian peso" },
+  { code: "CRC", label: "Costa Rican colón" },
+  { code: "EUR", label: "Euro" },
+  { code: "GTQ", label: "Guatemalan quetzal" },
+  { code: "HNL", label: "Honduran lempira" },
+  { code: "IDR", label: "Indonesian rupiah" },
+  { code: "INR", label: "Indian rupee" },
+  { code: "KES", label: "Kenyan shilling" },
+  { code: "MGA", label: "Malagasy ariary" },
+  { code: "MXN", label: "Mexican peso" },
+  { code: "PEN", label: "Peruvian sol" },
+  { code: "PYG", label: "Paraguayan guaraní" },
+  { code: "TZS", label: "Tanzanian shilling" },
+  { code: "XAF", label: "Central African CFA franc" },
+  { code: "XOF", label: "West African CFA franc" },
+];
+
+/** Area unit when none is recorded */
+export const DEFAULT_AREA_UNIT: AreaUnit = "ha";
+
+/**
+ * Area units offered on the identification section, with their size in
+ * hectares. Manzana and tarea vary by country: the manzana is the Central
+ * American one (10,000 square varas), the tarea the Dominican one (628.86 m²).
+ */
+export const AREA_UNITS: { id: AreaUnit; label: string; symbol: string; hectares: number }[] = [
+  { id: "ha",      label: "Hectare", symbol: "ha", hectares: 1 },
+  { id: "acre",    label: "Acre",    symbol: "ac", hectares: 0.40468564224 },
+  { id: "manzana", label: "Manzana", symbol: "mz", hectares: 0.6987 },
+  { id: "tarea",   label: "Tarea",   symbol: "ta", hectares: 0.062886 },
+];
+
 /**
  * Method tab configurations.
  * Each tab defines a baseline ecological scenario with preset conditions.
@@ -30,7 +84,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions.\nThis includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition, planting labor, and light localized soil correction.\nDo not include costs related to invasive species control, fencing, fire management, or other activities beside the basic implementation. These must be modeled as assistance costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment.\nThis may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.\nDo not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment.\nThis may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.\nDo not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., seedlings, fertilizer, stakes, tree guards, localized soil amendments",
     maintenanceMaterialExamples: "e.g., replacement seedlings, monitoring tags, minor repair materials",
     soilDegradation: "Low to Moderate",
@@ -50,7 +104,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions, considering NTFP species.\nThis includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition (with NTFP species), planting labor, and light localized soil correction.\nDo not include costs related to invasive species control, fencing, fire management, or other activities beside the basic implementation. These must be modeled as assistance costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment, including NTFP harvesting and management.\nThis may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.\nDo not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment, including NTFP harvesting and management.\nThis may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.\nDo not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, localized soil amendments",
     maintenanceMaterialExamples: "e.g., replacement seedlings, monitoring tags, NTFP harvesting tools, minor repair materials",
     soilDegradation: "Low to Moderate",
@@ -70,7 +124,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions.\nThis includes seed acquisition, seed treatment (if applicable), light surface soil preparation, and seed distribution.\nDo not include fencing, invasive species control, firebreak construction, pest control, or other external restriction-related costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should reflect the minimum follow-up required after direct seeding under moderately restrictive but stable ecological conditions.\nThis may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections and NTFP harvesting (in case there is any).\nDo not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should reflect the minimum follow-up required after direct seeding under moderately restrictive but stable ecological conditions.\nThis may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections and NTFP harvesting (in case there is any).\nDo not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., native seeds, seed coating/treatment products, basic soil amendments",
     maintenanceMaterialExamples: "e.g., replacement seeds, monitoring supplies, small-area reseeding materials",
     soilDegradation: "Moderate",
@@ -88,7 +142,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions, considering NTFP species.\nThis includes seed acquisition (including NTFP species), seed treatment (if applicable), light surface soil preparation, and seed distribution.\nDo not include fencing, invasive species control, firebreak construction, pest control, or other external restriction-related costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should reflect the minimum follow-up required after direct seeding, including NTFP harvesting and management.\nThis may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections, and NTFP harvesting.\nDo not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should reflect the minimum follow-up required after direct seeding, including NTFP harvesting and management.\nThis may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections, and NTFP harvesting.\nDo not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., native seeds (including NTFP species), seed coating/treatment products, basic soil amendments",
     maintenanceMaterialExamples: "e.g., replacement seeds, monitoring supplies, NTFP harvesting tools, small-area reseeding materials",
     soilDegradation: "Moderate",
@@ -106,7 +160,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability.\nThis includes seedling production or acquisition, transport, standard soil preparation, planting labor, and basic fertilization at planting.\nDo not include erosion control infrastructure, invasive species management, fencing, irrigation systems, or other external constraint-related costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment of planted seedlings under degraded but stable ecological conditions.\nThis may include survival monitoring, limited replanting of failed seedlings, and basic follow-up inspections.\nDo not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment of planted seedlings under degraded but stable ecological conditions.\nThis may include survival monitoring, limited replanting of failed seedlings, and basic follow-up inspections.\nDo not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., seedlings, fertilizer, stakes, tree guards, soil amendments, basic planting tools",
     maintenanceMaterialExamples: "e.g., replacement seedlings, fertilizer, monitoring tags, minor repair materials",
     soilDegradation: "High",
@@ -124,7 +178,7 @@ export const METHOD_TABS = [
     implementationCostInfo:
       "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability, considering NTFP species.\nThis includes seedling production or acquisition (including NTFP species), transport, standard soil preparation, planting labor, and basic fertilization at planting.\nDo not include erosion control infrastructure, invasive species management, fencing, irrigation systems, or other external constraint-related costs. These items will be covered in the next section (additional context constraints).",
     maintenanceCostInfo:
-      "Enter the accumulated total cost over the entire maintenance period (Years 2\u201320), not the annual cost.\nBasic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment, including NTFP harvesting and management.\nThis may include survival monitoring, limited replanting of failed seedlings, NTFP harvesting, and basic follow-up inspections.\nDo not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).",
+      "Enter the accumulated total cost over the entire maintenance period (Years 2\u2013{horizon}), not the annual cost.\nBasic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment, including NTFP harvesting and management.\nThis may include survival monitoring, limited replanting of failed seedlings, NTFP harvesting, and basic follow-up inspections.\nDo not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).",
     implementationMaterialExamples: "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, soil amendments, basic planting tools",
     maintenanceMaterialExamples: "e.g., replacement seedlings, fertilizer, NTFP harvesting tools, monitoring tags, minor repair materials",
     soilDegradation: "High",
@@ -136,14 +190,175 @@ export const METHOD_TABS = [
   },
 ] as const;
 
+/**
+ * Maintenance activities offered by the cost timeline builder. ANR/Enrichment
+ * methods and the other methods word the first two activities differently;
+ * the order is the same in both lists and matches the Excel export blocks.
+ */
+export const MAINTENANCE_ACTIVITIES_ANR = [
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and support staking)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and support staking)",
+  "Harvest",
+  "Technical assistance",
+  "Monitoring General Maintenance Activities (e.g. shade management)",
+] as const;
+
+export const MAINTENANCE_ACTIVITIES_OTHER = [
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and fertilization)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and fertilization)",
+  "Harvest",
+  "Technical assistance",
+  "Monitoring General Maintenance Activities (e.g. shade management)",
+] as const;
+
+/** Maintenance activity list for a method (ANR/Enrichment methods use their own wording). */
+export function getMaintenanceActivities(methodType: string): readonly string[] {
+  return methodType === "anr_30" || methodType === "anr_30_ntfp"
+    ? MAINTENANCE_ACTIVITIES_ANR
+    : MAINTENANCE_ACTIVITIES_OTHER;
+}
+
 /** Display label for a method type */
 export function getMethodLabel(methodType: string): string {
   return METHOD_TABS.find((t) => t.id === methodType)?.title || methodType;
 }
 
+/**
+ * Interaction adjustments larger than this share of the computed unfavorable
+ * cost are flagged in the consistency check (%).
+ */
+export const INTERACTION_RESIDUAL_WARN_PCT = 20;
+
+/**
+ * Annual-vs-accumulated check: a multi-year maintenance segment whose annual
+ * cost is at least this share of the implementation cost is suspected of
+ * being a total for the whole period.
+ */
+export const ACCUMULATED_ANNUAL_VS_IMPL_RATIO = 0.5;
+
+/**
+ * Annual-vs-accumulated check: a single segment covering the whole
+ * maintenance period whose total exceeds this multiple of the
+ * implementation cost is suspected of holding a total as its annual cost.
+ */
+export const ACCUMULATED_TOTAL_VS_IMPL_RATIO = 5;
+
+/**
+ * Working days in one full-time-equivalent job-year, for the employment
+ * indicators (person-days → FTE jobs).
+ */
+export const FTE_DAYS_PER_YEAR = 220;
+
+/**
+ * Implied machinery hours per hectare above which the implementation year,
+ * or any single maintenance year, is flagged as implausible for the method.
+ */
+export const MACHINERY_HOURS_MAX_PER_HA: Record<MethodType, number> = {
+  anr_30: 200,
+  anr_30_ntfp: 200,
+  seed_dispersal: 300,
+  seed_dispersal_ntfp: 300,
+  seedling_planting: 400,
+  seedling_planting_ntfp: 400,
+};
+
+/**
+ * Version of the persisted model format, written to saved JSON, local-storage
+ * entries and Excel exports. Bump it together with a new migration in
+ * utils/migrations.ts whenever a stored field changes meaning or shape.
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+/**
+ * Default threshold for flagging an answer in the model comparison: rows
+ * whose spread (max − min) / |mean| exceeds this share are highlighted (%).
+ */
+export const COMPARISON_DIFF_THRESHOLD_PCT = 25;
+
 /** Local storage key for saved models */
 export const STORAGE_KEY = "restoration-calculator-models";
 
+/** Local storage key for the autosaved draft (localStorage backend only) */
+export const DRAFT_STORAGE_KEY = "restoration-calculator-draft";
+
+/** IndexedDB database holding saved models and the autosaved draft */
+export const MODEL_DB_NAME = "restoration-calculator";
+
+/** Delay after the last edit before the current form is autosaved as a draft (ms) */
+export const AUTOSAVE_DEBOUNCE_MS = 1500;
+
+/** Local storage key for per-browser user preferences (interface language) */
+export const PREFERENCES_STORAGE_KEY = "restoration-calculator-preferences";
+
+/** Language used when no preference is stored */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * Interface languages offered by the switcher: native name and the BCP 47
+ * tag used for number, date and currency formatting.
+ */
+export const SUPPORTED_LOCALES: { id: Locale; label: string; tag: string }[] = [
+  { id: "en", label: "English",   tag: "en-US" },
+  { id: "pt", label: "Português", tag: "pt-BR" },
+  { id: "es", label: "Español",   tag: "es-419" },
+  { id: "fr", label: "Français",  tag: "fr-FR" },
+];
+
+/** Local storage key for the analyst-edited price index table */
+export const PRICE_INDEX_STORAGE_KEY = "restoration-calculator-price-indices";
+
+/**
+ * Bundled labor / materials / machinery price indices (Brazil = 1.00).
+ * Illustrative starting values — review and edit them in the Regional Cost
+ * Extrapolation panel before using the results.
+ */
+export const DEFAULT_PRICE_INDICES: PriceIndexEntry[] = [
+  { region: "Argentina",     labor: 1.05, materials: 1.10, machinery: 1.05 },
+  { region: "Bolivia",       labor: 0.60, materials: 0.90, machinery: 0.95 },
+  { region: "Brazil",        labor: 1.00, materials: 1.00, machinery: 1.00 },
+  { region: "Chile",         labor: 1.35, materials: 1.05, machinery: 1.05 },
+  { region: "Colombia",      labor: 0.85, materials: 0.95, machinery: 0.95 },
+  { region: "Costa Rica",    labor: 1.25, materials: 1.05, machinery: 1.05 },
+  { region: "Ecuador",       labor: 0.80, materials: 0.95, machinery: 1.00 },
+  { region: "Guatemala",     labor: 0.70, materials: 0.95, machinery: 1.00 },
+  { region: "Honduras",      labor: 0.60, materials: 0.90, machinery: 1.00 },
+  { region: "India",         labor: 0.40, materials: 0.85, machinery: 0.90 },
+  { region: "Indonesia",     labor: 0.55, materials: 0.90, machinery: 1.00 },
+  { region: "Kenya",         labor: 0.45, materials: 1.00, machinery: 1.10 },
+  { region: "Madagascar",    labor: 0.25, materials: 1.05, machinery: 1.15 },
+  { region: "Mexico",        labor: 0.95, materials: 0.95, machinery: 0.95 },
+  { region: "Paraguay",      labor: 0.70, materials: 0.95, machinery: 1.00 },
+  { region: "Peru",          labor: 0.75, materials: 0.95, machinery: 0.95 },
+  { region: "Tanzania",      labor: 0.35, materials: 1.00, machinery: 1.10 },
+  { region: "United States", labor: 4.50, materials: 1.30, machinery: 1.20 },
+];
+
+/** Local storage key for reference ranges derived from aggregated respondents */
+export const REFERENCE_RANGES_STORAGE_KEY = "restoration-calculator-reference-ranges";
+
+/**
+ * Bundled reference ranges for outlier detection. Illustrative, deliberately
+ * wide bounds (any ecosystem) meant to catch unit and order-of-magnitude
+ * mistakes; ranges aggregated from respondents take precedence.
+ * Units: implementation US$/ha, maintenance US$/ha/yr, constraint costs in
+ * each constraint's unit, NTFP price US$/kg and productivity kg/ha/yr.
+ */
+export const DEFAULT_REFERENCE_RANGES: ReferenceRange[] = [
+  { ecosystem: "*", methodType: "anr_30",                 kind: "implementationCost", min: 100, max: 2500, source: "bundled" },
+  { ecosystem: "*", methodType: "anr_30_ntfp",            kind: "implementationCost", min: 150, max: 3000, source: "bundled" },
+  { ecosystem: "*", methodType: "seed_dispersal",         kind: "implementationCost", min: 300, max: 4000, source: "bundled" },
+  { ecosystem: "*", methodType: "seed_dispersal_ntfp",    kind: "implementationCost", min: 400, max: 5000, source: "bundled" },
+  { ecosystem: "*", methodType: "seedling_planting",      kind: "implementationCost", min: 1000, max: 10000, source: "bundled" },
+  { ecosystem: "*", methodType: "seedling_planting_ntfp", kind: "implementationCost", min: 1200, max: 12000, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "maintenanceAnnual", min: 5, max: 1500, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "constraintCost", subject: "fireRisk",                min: 50, max: 3000, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "constraintCost", subject: "grazingPressure",         min: 500, max: 10000, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "constraintCost", subject: "invasiveSpeciesPressure", min: 20, max: 1500, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "constraintCost", subject: "pestControl",             min: 10, max: 800, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "ntfpPrice",        min: 0.1, max: 50, source: "bundled" },
+  { ecosystem: "*", methodType: "*", kind: "ntfpProductivity", min: 10, max: 20000, source: "bundled" },
+];
+
 /** Empty cost distribution */
 export const EMPTY_COST_DISTRIBUTION = {
   labor: 0,
@@ -165,6 +380,7 @@ export const EMPTY_METHOD_COST_ENTRY = {
   maintenanceSegments: [],
   ntfpProductivitySegments: [],
   ntfpRevenueSegments: [],
+  declaredUnfavorableCost: 0,
 };
 
 /** Default empty method costs for all tabs */
@@ -185,8 +401,40 @@ export const EMPTY_CONTEXT_CONSTRAINT = {
   distribution: { labor: 0, materials: 0, machinery: 0 },
 };
 
+/** Default CBA external assumptions (percentages, see CBAAssumptions) */
+export const DEFAULT_CBA_ASSUMPTIONS = {
+  discountRates: [3, 6, 8, 10, 12],
+  defaultDiscountRate: 6,
+  carbonPrice: 10,
+  carbonPriceEscalation: 0,
+  carbonBufferShare: 20,
+  carbonFallbackRate: 6.0,
+  ntfpLagYears: 4,
+  fencingUpfrontShare: 70,
+  sensitivityFlexPct: 20,
+  landOpportunityCost: false,
+  landCostStart: "year1" as LandCostStart,
+  landCostEscalation: 0,
+  familyLaborShadowWage: 100,
+};
+
+/** Default Monte Carlo settings (no input is uncertain until a distribution is set) */
+export const DEFAULT_UNCERTAINTY_SETTINGS: UncertaintySettings = {
+  iterations: 1000,
+  seed: 12345,
+  distributions: {},
+};
+
+/** Default project scenario: nothing planted, no constraint ramp-up */
+export const DEFAULT_PROJECT_SCENARIO: ProjectScenario = {
+  plantings: {},
+  constraintRampStartPct: 100,
+  constraintRampYears: 0,
+};
+
 /** Default form values */
 export const DEFAULT_FORM_VALUES: RestorationModelFormData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   userName: "",
   dataCollectionDate: "",
   respondentName: "",
@@ -195,6 +443,8 @@ export const DEFAULT_FORM_VALUES: RestorationModelFormData = {
   country: "",
   city: "",
   timeHorizon: DEFAULT_TIME_HORIZON,
+  currency: { ...DEFAULT_CURRENCY_SETTINGS },
+  areaUnit: DEFAULT_AREA_UNIT,
   disabledMethods: [],
   methodType: "anr_30",
   enrichmentIntensity: 50,
@@ -213,4 +463,10 @@ export const DEFAULT_FORM_VALUES: RestorationModelFormData = {
     landLeaseCostPerHaPerYear: 0,
     genderDistribution: { male: 0, female: 0, other: 0 },
   },
+  assumptions: {
+    ...DEFAULT_CBA_ASSUMPTIONS,
+    discountRates: [...DEFAULT_CBA_ASSUMPTIONS.discountRates],
+  },
+  uncertainty: { ...DEFAULT_UNCERTAINTY_SETTINGS },
+  project: { ...DEFAULT_PROJECT_SCENARIO, plantings: {} },
 };
@@ -1 +1,2 @@
 export * from "./defaults";
+export * from "./locales";
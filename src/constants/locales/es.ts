@@ -0,0 +1,2119 @@
+/**
+ * Spanish (Latin America) messages, keyed by the English text (see utils/i18n).
+ */
+
+export const ES_MESSAGES: Record<string, string> = {
+  // ── Application ───────────────────────────────────────────────────────────
+  "Restoration Cost-Benefit Questionnaire":
+    "Cuestionario de Costo-Beneficio de la Restauración",
+  "Restoration Calculator icon":
+    "Ícono de la Calculadora de Restauración",
+  "A project by":
+    "Un proyecto de",
+  "Interface language":
+    "Idioma de la interfaz",
+  "Unsaved draft found":
+    "Se encontró un borrador sin guardar",
+  "A questionnaire autosaved on {date}{ecosystem} was not saved or exported. Restore it to continue where you left off.":
+    "Un cuestionario guardado automáticamente el {date}{ecosystem} no se guardó ni se exportó. Restáurelo para continuar donde lo dejó.",
+  "Restore draft":
+    "Restaurar borrador",
+  "Discard":
+    "Descartar",
+  "Could not restore the draft: {error}":
+    "No se pudo restaurar el borrador: {error}",
+
+  // ── Instructions ──────────────────────────────────────────────────────────
+  "Please read before answering":
+    "Lea antes de responder",
+  "Each questionnaire entry corresponds to a single ecosystem. GPS coordinates of any area that represents the model in question may be used.":
+    "Cada cuestionario corresponde a un único ecosistema. Se pueden usar las coordenadas GPS de cualquier área que represente el modelo en cuestión.",
+  "The restoration method is defined based on soil conditions and the availability of naturally regenerating seedlings. The analysis horizon is {horizon} years (10–50, set in Project Identification). Before starting, indicate which methods have no cost data available — the corresponding tabs will be removed from the form. All selected methods must be fully completed.":
+    "El método de restauración se define según las condiciones del suelo y la disponibilidad de plántulas de regeneración natural. El horizonte de análisis es de {horizon} años (10–50, definido en Identificación del Proyecto). Antes de comenzar, indique para qué métodos no dispone de datos de costos — las pestañas correspondientes se quitarán del formulario. Todos los métodos seleccionados deben completarse en su totalidad.",
+  "For each method, fill in Implementation (Year 1) and Maintenance (Years 2–{horizon}):":
+    "Para cada método, complete Implementación (Año 1) y Mantenimiento (Años 2–{horizon}):",
+  "Basic Implementation Costs (Year 1):":
+    "Costos Básicos de Implementación (Año 1):",
+  "Include the minimum cost required to initiate restoration under the method's conditions. For ANR/50% Enrichment, for example, this includes all base natural regeneration activities plus localized enrichment planting at 50% intensity (seedling acquisition, planting labor, and localized soil correction).":
+    "Incluya el costo mínimo necesario para iniciar la restauración en las condiciones del método. Para RNA/Enriquecimiento 50%, por ejemplo, esto incluye todas las actividades básicas de regeneración natural más la plantación de enriquecimiento localizada con 50% de intensidad (adquisición de plántulas, mano de obra de plantación y corrección localizada del suelo).",
+  "Do not include:":
+    "No incluya:",
+  "invasive species control, fencing, fire management, or any other activities beyond basic implementation — these must be modeled as constraint costs in Section 3.":
+    "control de especies invasoras, cercado, manejo del fuego ni ninguna otra actividad más allá de la implementación básica — estos deben modelarse como costos de restricción en la Sección 3.",
+  "Basic Maintenance Costs (Years 2–{horizon}):":
+    "Costos Básicos de Mantenimiento (Años 2–{horizon}):",
+  "Enter the total accumulated cost over the entire maintenance period (Years 2 to {horizon}), not the annual cost. Include minimal follow-up activities such as survival checks, limited replacement of failed seedlings, NTFP harvesting, and light monitoring.":
+    "Ingrese el costo total acumulado durante todo el período de mantenimiento (Años 2 a {horizon}), no el costo anual. Incluya actividades mínimas de seguimiento, como controles de supervivencia, reposición limitada de plántulas perdidas, cosecha de PFNM y monitoreo ligero.",
+  "invasive species control, fencing, firebreak maintenance, pest management, or any other costs related to external constraints — these must be modeled separately in Section 3.":
+    "control de especies invasoras, cercado, mantenimiento de cortafuegos, manejo de plagas ni ningún otro costo relacionado con restricciones externas — estos deben modelarse por separado en la Sección 3.",
+  "The form allows you to split the maintenance period into segments with different costs (e.g., more intensive early years vs. later years). The chart updates in real time as segments are added.":
+    "El formulario permite dividir el período de mantenimiento en segmentos con costos diferentes (p. ej., primeros años más intensivos vs. años posteriores). El gráfico se actualiza en tiempo real a medida que se agregan segmentos.",
+  "Context Constraints & Additional Costs (Section 3):":
+    "Restricciones de Contexto y Costos Adicionales (Sección 3):",
+  "Given an unfavorable scenario with contextual constraints, estimate the additional cost required to overcome those constraints and achieve the same level of ecological success as in a favorable scenario. These costs are the same across all methods, so this section is filled in only once. Pay attention to the unit of each cost field.":
+    "Dado un escenario desfavorable con restricciones de contexto, estime el costo adicional necesario para superarlas y lograr el mismo nivel de éxito ecológico que en un escenario favorable. Estos costos son iguales para todos los métodos, por lo que esta sección se completa una sola vez. Preste atención a la unidad de cada campo de costo.",
+  "The system automatically generates a Summary & Validation at the end with all calculations. Watch out for the following common errors flagged by the form:":
+    "El sistema genera automáticamente, al final, un Resumen y Validación con todos los cálculos. Preste atención a los siguientes errores comunes señalados por el formulario:",
+  "Percentage distributions that do not sum to 100% in any section":
+    "Distribuciones porcentuales que no suman 100% en alguna sección",
+  "Confusion between annual cost and total accumulated cost in the maintenance section":
+    "Confusión entre costo anual y costo total acumulado en la sección de mantenimiento",
+  "Inclusion of constraint costs (fire, fencing, invasive species, pests) within basic costs — these must appear exclusively in Section 3":
+    "Inclusión de costos de restricción (fuego, cercado, especies invasoras, plagas) en los costos básicos — deben aparecer exclusivamente en la Sección 3",
+  "Leaving methods incomplete without marking them as having no data at the beginning of Section 2":
+    "Dejar métodos incompletos sin marcarlos como sin datos al inicio de la Sección 2",
+
+  // ── Form actions ──────────────────────────────────────────────────────────
+  "Name for this questionnaire in the library:":
+    "Nombre de este cuestionario en la biblioteca:",
+  "Could not save to the library: {error}":
+    "No se pudo guardar en la biblioteca: {error}",
+  "Could not import the Excel file: {error}":
+    "No se pudo importar el archivo Excel: {error}",
+  "Invalid JSON file. Please select a valid form data file.":
+    "Archivo JSON no válido. Seleccione un archivo de datos del formulario válido.",
+  "Loaded from an older format version. Review these fields:":
+    "Cargado desde una versión de formato anterior. Revise estos campos:",
+  "Excel file imported with {count} issue:":
+    "Archivo Excel importado con {count} problema:",
+  "Excel file imported with {count} issues:":
+    "Archivo Excel importado con {count} problemas:",
+  "Dismiss":
+    "Cerrar",
+  "…and {count} more":
+    "…y {count} más",
+  "Please complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Complete al menos una pestaña de método (costos y distribuciones de implementación y mantenimiento) antes de guardar o exportar.",
+  "Are you sure you want to reset the form? All unsaved data will be lost.":
+    "¿Seguro que desea restablecer el formulario? Se perderán todos los datos no guardados.",
+  "Reset Form":
+    "Restablecer Formulario",
+  "Overwrite \"{name}\" in the library":
+    "Sobrescribir «{name}» en la biblioteca",
+  "Save a new entry in the library":
+    "Guardar una nueva entrada en la biblioteca",
+  "Update in Library":
+    "Actualizar en la Biblioteca",
+  "Save to Library":
+    "Guardar en la Biblioteca",
+  "Save as Copy":
+    "Guardar como Copia",
+  "Save Form":
+    "Guardar Formulario",
+  "Load Form":
+    "Cargar Formulario",
+  "Export your data:":
+    "Exporte sus datos:",
+  "Export Excel":
+    "Exportar Excel",
+
+  // ── Issues panel ──────────────────────────────────────────────────────────
+  "No issues found by the consistency checks.":
+    "Las verificaciones de consistencia no encontraron problemas.",
+  "Issues":
+    "Problemas",
+  "{count} error":
+    "{count} error",
+  "{count} errors":
+    "{count} errores",
+  "{count} warning":
+    "{count} advertencia",
+  "{count} warnings":
+    "{count} advertencias",
+  "{count} note":
+    "{count} nota",
+  "{count} notes":
+    "{count} notas",
+  "Hide":
+    "Ocultar",
+  "Show all":
+    "Mostrar todo",
+  "Go to field":
+    "Ir al campo",
+
+  // ── Section titles ────────────────────────────────────────────────────────
+  "0. User Identification":
+    "0. Identificación del Usuario",
+  "Tell us who is filling in this questionnaire":
+    "Cuéntenos quién completa este cuestionario",
+  "1. Project Identification":
+    "1. Identificación del Proyecto",
+  "Tell us about the restoration project you are evaluating":
+    "Cuéntenos sobre el proyecto de restauración que está evaluando",
+  "2. Context & Scenario Definition":
+    "2. Contexto y Definición del Escenario",
+  "Define the restoration method and local conditions":
+    "Defina el método de restauración y las condiciones locales",
+  "3. Context Constraints & Additional Costs":
+    "3. Restricciones de Contexto y Costos Adicionales",
+  "Costs that apply independently of the restoration method":
+    "Costos que se aplican independientemente del método de restauración",
+  "4. Labor Breakdown & Machinery":
+    "4. Desglose de Mano de Obra y Maquinaria",
+  "Hired Labour vs Non Hired Labour — by phase":
+    "Mano de obra contratada vs no contratada — por fase",
+  "Summary & Validation":
+    "Resumen y Validación",
+  "Auto-generated summary — review data consistency before saving":
+    "Resumen generado automáticamente — revise la consistencia de los datos antes de guardar",
+  "CBA External Assumptions":
+    "Supuestos Externos del ACB",
+  "Analyst parameters used by the cost-benefit analysis — not part of the questionnaire":
+    "Parámetros del analista usados en el análisis costo-beneficio — no forman parte del cuestionario",
+  "Results: Cost-Benefit Analysis":
+    "Resultados: Análisis Costo-Beneficio",
+  "Regional Cost Extrapolation":
+    "Extrapolación Regional de Costos",
+  "Re-price this questionnaire for another country or region using local price indices":
+    "Recalcule los precios de este cuestionario para otro país o región con índices de precios locales",
+
+  // ── Identification ────────────────────────────────────────────────────────
+  "Your Name":
+    "Su Nombre",
+  "e.g., João Silva":
+    "p. ej., João Silva",
+  "Date of Data Collection":
+    "Fecha de Recolección de Datos",
+  "Respondent Name":
+    "Nombre del Encuestado",
+  "e.g., Maria Oliveira":
+    "p. ej., Maria Oliveira",
+  "Ecosystem":
+    "Ecosistema",
+  "Select ecosystem…":
+    "Seleccione el ecosistema…",
+  "Country":
+    "País",
+  "e.g., Brazil":
+    "p. ej., Brasil",
+  "City":
+    "Ciudad",
+  "e.g., São Paulo":
+    "p. ej., São Paulo",
+  "Analysis Time Horizon":
+    "Horizonte de Análisis",
+  "years":
+    "años",
+  "Between {min} and {max} years. Year 1 is implementation; maintenance and revenues run from year 2 to the last year.":
+    "Entre {min} y {max} años. El año 1 es la implementación; el mantenimiento y los ingresos van del año 2 al último año.",
+  "Each model specification applies to one ecosystem. If you filled the questionnaire based on an online interview, consider GPS coordinates of any area that could represent the model you are referring to.":
+    "Cada especificación de modelo se aplica a un ecosistema. Si completó el cuestionario a partir de una entrevista en línea, considere las coordenadas GPS de cualquier área que pueda representar el modelo en cuestión.",
+  "GPS Coordinates":
+    "Coordenadas GPS",
+  "Latitude (Y)":
+    "Latitud (Y)",
+  "Longitude (X)":
+    "Longitud (X)",
+  "Locating…":
+    "Localizando…",
+  "Set GPS":
+    "Definir GPS",
+  "Auto-detect from browser":
+    "Detectar desde el navegador",
+  "Enter manually":
+    "Ingresar manualmente",
+  "Location access was denied. Please allow it in your browser settings.":
+    "Se denegó el acceso a la ubicación. Permítalo en la configuración del navegador.",
+  "Unable to retrieve GPS coordinates.":
+    "No se pudieron obtener las coordenadas GPS.",
+  "Click \"Set GPS\" to choose between auto-detecting from your browser or entering coordinates manually.":
+    "Haga clic en «Definir GPS» para elegir entre detectar desde el navegador o ingresar las coordenadas manualmente.",
+
+  // ── Ecosystems ────────────────────────────────────────────────────────────
+  "Arid or Semi-Arid Zones":
+    "Zonas Áridas o Semiáridas",
+  "Savanna or Dry Forest":
+    "Sabana o Bosque Seco",
+  "Mountaine Forest":
+    "Bosque Montano",
+  "Tropical Forest":
+    "Bosque Tropical",
+  "Mangrove":
+    "Manglar",
+  "Subtropical Forest":
+    "Bosque Subtropical",
+
+  // ── Restoration methods ───────────────────────────────────────────────────
+  "ANR/50% Enrichment":
+    "RNA/Enriquecimiento 50%",
+  "ANR/50% Enrichment (with NTFP)":
+    "RNA/Enriquecimiento 50% (con PFNM)",
+  "Seed Dispersal":
+    "Siembra Directa",
+  "Seed Dispersal (with NTFP)":
+    "Siembra Directa (con PFNM)",
+  "Full Seedling Plantation":
+    "Plantación Total de Plántulas",
+  "Full Seedling Plantation NTFP (agroforestry)":
+    "Plantación Total de Plántulas con PFNM (agroforestería)",
+
+  // ── Method descriptions ───────────────────────────────────────────────────
+  "This scenario assumes a slightly less favorable context than a context for pure natural regeneration, with minor soil degradation and moderate availability of natural regeneration sources.":
+    "Este escenario supone un contexto algo menos favorable que el de la regeneración natural pura, con leve degradación del suelo y disponibilidad moderada de fuentes de regeneración natural.",
+  "Enrichment planting is applied at 50% intensity to support regeneration and accelerate structural recovery.":
+    "La plantación de enriquecimiento se aplica con 50% de intensidad para apoyar la regeneración y acelerar la recuperación estructural.",
+  "Enrichment intensity is fixed at 50%.":
+    "La intensidad de enriquecimiento está fijada en 50%.",
+  "Same ecological scenario as ANR/50% Enrichment, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mismo escenario ecológico que RNA/Enriquecimiento 50%, pero incluye la cosecha de Productos Forestales No Maderables (PFNM) en las actividades de mantenimiento.",
+  "Include any additional costs or savings associated with NTFP collection and management.":
+    "Incluya cualquier costo adicional o ahorro asociado a la recolección y el manejo de PFNM.",
+  "This scenario assumes moderate soil degradation and low to moderate availability of natural regeneration sources.":
+    "Este escenario supone una degradación moderada del suelo y una disponibilidad baja a moderada de fuentes de regeneración natural.",
+  "Regeneration cannot rely solely on natural processes and requires active seed dispersal across the site.":
+    "La regeneración no puede depender solo de procesos naturales y requiere la dispersión activa de semillas en todo el sitio.",
+  "Approach to cover 100% of the area.":
+    "Enfoque para cubrir el 100% del área.",
+  "Same ecological scenario as Seed Dispersal, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mismo escenario ecológico que Siembra Directa, pero incluye la cosecha de Productos Forestales No Maderables (PFNM) en las actividades de mantenimiento.",
+  "Approach to cover 100% of the area, being NTFP 50% on average.":
+    "Enfoque para cubrir el 100% del área, con PFNM en un 50% en promedio.",
+  "Include any additional costs associated with NTFP collection and management.":
+    "Incluya cualquier costo adicional asociado a la recolección y el manejo de PFNM.",
+  "This scenario assumes high soil degradation and low availability of natural regeneration sources.":
+    "Este escenario supone una alta degradación del suelo y baja disponibilidad de fuentes de regeneración natural.",
+  "Natural regeneration is not sufficient to reach the benchmark carbon curve, and full-scale seedling planting is required.":
+    "La regeneración natural no alcanza la curva de carbono de referencia y se requiere la plantación total de plántulas.",
+  "Same ecological scenario as Full Seedling Plantation, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mismo escenario ecológico que Plantación Total de Plántulas, pero incluye la cosecha de Productos Forestales No Maderables (PFNM) en las actividades de mantenimiento.",
+  "Approach to cover 100% of the area, with NTFP covering 50% on average.":
+    "Enfoque para cubrir el 100% del área, con PFNM cubriendo un 50% en promedio.",
+
+  // ── Implementation cost guidance ──────────────────────────────────────────
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions.":
+    "El costo básico de implementación debe incluir el costo mínimo necesario para iniciar la regeneración natural asistida en condiciones levemente restrictivas.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition, planting labor, and light localized soil correction.":
+    "Esto incluye todas las actividades básicas de Regeneración Natural más la plantación de enriquecimiento localizada con 50% de intensidad, incluida la adquisición de plántulas, la mano de obra de plantación y una ligera corrección localizada del suelo.",
+  "Do not include costs related to invasive species control, fencing, fire management, or other activities beside the basic implementation. These must be modeled as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "No incluya costos de control de especies invasoras, cercado, manejo del fuego u otras actividades además de la implementación básica. Deben modelarse como costos de asistencia. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions, considering NTFP species.":
+    "El costo básico de implementación debe incluir el costo mínimo necesario para iniciar la regeneración natural asistida en condiciones levemente restrictivas, considerando especies de PFNM.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition (with NTFP species), planting labor, and light localized soil correction.":
+    "Esto incluye todas las actividades básicas de Regeneración Natural más la plantación de enriquecimiento localizada con 50% de intensidad, incluida la adquisición de plántulas (con especies de PFNM), la mano de obra de plantación y una ligera corrección localizada del suelo.",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions.":
+    "El costo básico de implementación debe reflejar el costo mínimo necesario para realizar la siembra directa en condiciones ecológicas moderadamente restrictivas.",
+  "This includes seed acquisition, seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Esto incluye la adquisición de semillas, el tratamiento de semillas (si corresponde), una preparación ligera de la superficie del suelo y la distribución de las semillas.",
+  "Do not include fencing, invasive species control, firebreak construction, pest control, or other external restriction-related costs. These items will be covered in the next section (additional context constraints).":
+    "No incluya cercado, control de especies invasoras, construcción de cortafuegos, control de plagas u otros costos relacionados con restricciones externas. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions, considering NTFP species.":
+    "El costo básico de implementación debe reflejar el costo mínimo necesario para realizar la siembra directa en condiciones ecológicas moderadamente restrictivas, considerando especies de PFNM.",
+  "This includes seed acquisition (including NTFP species), seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Esto incluye la adquisición de semillas (incluidas especies de PFNM), el tratamiento de semillas (si corresponde), una preparación ligera de la superficie del suelo y la distribución de las semillas.",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability.":
+    "El costo básico de implementación debe reflejar el costo mínimo necesario para establecer la plantación total de plántulas en suelo degradado y con baja disponibilidad de propágulos.",
+  "This includes seedling production or acquisition, transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Esto incluye la producción o adquisición de plántulas, el transporte, la preparación estándar del suelo, la mano de obra de plantación y la fertilización básica al plantar.",
+  "Do not include erosion control infrastructure, invasive species management, fencing, irrigation systems, or other external constraint-related costs. These items will be covered in the next section (additional context constraints).":
+    "No incluya infraestructura de control de erosión, manejo de especies invasoras, cercado, sistemas de riego u otros costos relacionados con restricciones externas. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability, considering NTFP species.":
+    "El costo básico de implementación debe reflejar el costo mínimo necesario para establecer la plantación total de plántulas en suelo degradado y con baja disponibilidad de propágulos, considerando especies de PFNM.",
+  "This includes seedling production or acquisition (including NTFP species), transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Esto incluye la producción o adquisición de plántulas (incluidas especies de PFNM), el transporte, la preparación estándar del suelo, la mano de obra de plantación y la fertilización básica al plantar.",
+
+  // ── Maintenance cost guidance ─────────────────────────────────────────────
+  "Enter the accumulated total cost over the entire maintenance period (Years 2–{horizon}), not the annual cost.":
+    "Ingrese el costo total acumulado durante todo el período de mantenimiento (Años 2–{horizon}), no el costo anual.",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment.":
+    "Los costos básicos de mantenimiento deben incluir las actividades mínimas de seguimiento necesarias para apoyar la regeneración natural asistida con 50% de enriquecimiento.",
+  "This may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.":
+    "Esto puede incluir controles de supervivencia, reposición limitada de plántulas de enriquecimiento perdidas, cosecha de PFNM y actividades ligeras de monitoreo.",
+  "Do not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "No incluya control de especies invasoras, cercado, mantenimiento de cortafuegos, manejo de plagas u otros costos relacionados con restricciones externas. Deben modelarse por separado como costos de asistencia. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment, including NTFP harvesting and management.":
+    "Los costos básicos de mantenimiento deben incluir las actividades mínimas de seguimiento necesarias para apoyar la regeneración natural asistida con 50% de enriquecimiento, incluida la cosecha y el manejo de PFNM.",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding under moderately restrictive but stable ecological conditions.":
+    "Los costos básicos de mantenimiento deben reflejar el seguimiento mínimo necesario tras la siembra directa en condiciones ecológicas moderadamente restrictivas pero estables.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections and NTFP harvesting (in case there is any).":
+    "Esto puede incluir el monitoreo del éxito de la germinación, una resiembra limitada en áreas pequeñas si es necesario, inspecciones básicas del sitio y la cosecha de PFNM (si la hubiera).",
+  "Do not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).":
+    "No incluya replantación a gran escala, control de especies invasoras, cercado, manejo del fuego u otras intervenciones derivadas del contexto. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding, including NTFP harvesting and management.":
+    "Los costos básicos de mantenimiento deben reflejar el seguimiento mínimo necesario tras la siembra directa, incluida la cosecha y el manejo de PFNM.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections, and NTFP harvesting.":
+    "Esto puede incluir el monitoreo del éxito de la germinación, una resiembra limitada en áreas pequeñas si es necesario, inspecciones básicas del sitio y la cosecha de PFNM.",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment of planted seedlings under degraded but stable ecological conditions.":
+    "Los costos básicos de mantenimiento deben reflejar los gastos recurrentes mínimos necesarios para asegurar el establecimiento de las plántulas en condiciones ecológicas degradadas pero estables.",
+  "This may include survival monitoring, limited replanting of failed seedlings, and basic follow-up inspections.":
+    "Esto puede incluir el monitoreo de la supervivencia, la replantación limitada de plántulas perdidas e inspecciones básicas de seguimiento.",
+  "Do not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).":
+    "No incluya manejo de especies invasoras, cercado, mantenimiento de cortafuegos, sistemas de riego más allá del establecimiento inicial u otras intervenciones específicas del contexto. Estos elementos se tratarán en la siguiente sección (restricciones de contexto adicionales).",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment, including NTFP harvesting and management.":
+    "Los costos básicos de mantenimiento deben reflejar los gastos recurrentes mínimos necesarios para asegurar el establecimiento, incluida la cosecha y el manejo de PFNM.",
+  "This may include survival monitoring, limited replanting of failed seedlings, NTFP harvesting, and basic follow-up inspections.":
+    "Esto puede incluir el monitoreo de la supervivencia, la replantación limitada de plántulas perdidas, la cosecha de PFNM e inspecciones básicas de seguimiento.",
+
+  // ── Material examples ─────────────────────────────────────────────────────
+  "e.g., seedlings, fertilizer, stakes, tree guards, localized soil amendments":
+    "p. ej., plántulas, fertilizante, tutores, protectores de árboles, enmiendas localizadas del suelo",
+  "e.g., replacement seedlings, monitoring tags, minor repair materials":
+    "p. ej., plántulas de reposición, etiquetas de monitoreo, materiales para reparaciones menores",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, localized soil amendments":
+    "p. ej., plántulas (incluidas especies de PFNM), fertilizante, tutores, protectores de árboles, enmiendas localizadas del suelo",
+  "e.g., replacement seedlings, monitoring tags, NTFP harvesting tools, minor repair materials":
+    "p. ej., plántulas de reposición, etiquetas de monitoreo, herramientas de cosecha de PFNM, materiales para reparaciones menores",
+  "e.g., native seeds, seed coating/treatment products, basic soil amendments":
+    "p. ej., semillas nativas, productos de recubrimiento/tratamiento de semillas, enmiendas básicas del suelo",
+  "e.g., replacement seeds, monitoring supplies, small-area reseeding materials":
+    "p. ej., semillas de reposición, insumos de monitoreo, materiales para resiembra en áreas pequeñas",
+  "e.g., native seeds (including NTFP species), seed coating/treatment products, basic soil amendments":
+    "p. ej., semillas nativas (incluidas especies de PFNM), productos de recubrimiento/tratamiento de semillas, enmiendas básicas del suelo",
+  "e.g., replacement seeds, monitoring supplies, NTFP harvesting tools, small-area reseeding materials":
+    "p. ej., semillas de reposición, insumos de monitoreo, herramientas de cosecha de PFNM, materiales para resiembra en áreas pequeñas",
+  "e.g., seedlings, fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "p. ej., plántulas, fertilizante, tutores, protectores de árboles, enmiendas del suelo, herramientas básicas de plantación",
+  "e.g., replacement seedlings, fertilizer, monitoring tags, minor repair materials":
+    "p. ej., plántulas de reposición, fertilizante, etiquetas de monitoreo, materiales para reparaciones menores",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "p. ej., plántulas (incluidas especies de PFNM), fertilizante, tutores, protectores de árboles, enmiendas del suelo, herramientas básicas de plantación",
+  "e.g., replacement seedlings, fertilizer, NTFP harvesting tools, monitoring tags, minor repair materials":
+    "p. ej., plántulas de reposición, fertilizante, herramientas de cosecha de PFNM, etiquetas de monitoreo, materiales para reparaciones menores",
+
+  // ── Maintenance activities ────────────────────────────────────────────────
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and support staking)":
+    "Mantenimiento de individuos en regeneración (p. ej., poda, raleo y tutorado)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and support staking)":
+    "Mantenimiento de especies de PFNM (p. ej., poda, raleo y tutorado)",
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and fertilization)":
+    "Mantenimiento de individuos en regeneración (p. ej., poda, raleo y fertilización)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and fertilization)":
+    "Mantenimiento de especies de PFNM (p. ej., poda, raleo y fertilización)",
+  "Harvest":
+    "Cosecha",
+  "Technical assistance":
+    "Asistencia técnica",
+  "Monitoring General Maintenance Activities (e.g. shade management)":
+    "Monitoreo y actividades generales de mantenimiento (p. ej., manejo de sombra)",
+
+  // ── Context & scenario ────────────────────────────────────────────────────
+  "Are there any methods for which you have no cost information?":
+    "¿Hay algún método para el que no tenga información de costos?",
+  "Check the methods below for which you have no cost data. The corresponding tab will be removed from the form.":
+    "Marque abajo los métodos para los que no tiene datos de costos. La pestaña correspondiente se quitará del formulario.",
+  "Only one tab is visible. Please complete at least this method.":
+    "Solo hay una pestaña visible. Complete al menos este método.",
+  "{count} method(s) hidden due to missing data.":
+    "{count} método(s) oculto(s) por falta de datos.",
+  "We define the restoration method initially based on soil condition and natural regenerating seedlings availability. The time horizon for the analysis is {horizon} years (set in Project Identification).":
+    "Definimos el método de restauración inicialmente según la condición del suelo y la disponibilidad de plántulas de regeneración natural. El horizonte de análisis es de {horizon} años (definido en Identificación del Proyecto).",
+  "All methods have been marked as having no data. Uncheck at least one above to fill in cost information.":
+    "Todos los métodos se marcaron como sin datos. Desmarque al menos uno arriba para completar la información de costos.",
+  "Complete all {count} restoration methods below.":
+    "Complete los {count} métodos de restauración a continuación.",
+  "Click each tab to fill in costs and distributions.":
+    "Haga clic en cada pestaña para completar costos y distribuciones.",
+  "{done} of {count} completed":
+    "{done} de {count} completados",
+  "Completed":
+    "Completado",
+  "Click to fill in":
+    "Haga clic para completar",
+  "Restoration method illustration":
+    "Ilustración del método de restauración",
+  "What to include":
+    "Qué incluir",
+  "NTFP Species":
+    "Especie de PFNM",
+  "Select one native Non-Timber Forest Product (NTFP) species with good market potential in your region.":
+    "Seleccione una especie nativa de Producto Forestal No Maderable (PFNM) con buen potencial de mercado en su región.",
+  "e.g., Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)":
+    "p. ej., Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)",
+  "Basic Implementation Costs (Year 1)":
+    "Costos Básicos de Implementación (Año 1)",
+  "Implementation Cost":
+    "Costo de Implementación",
+  "What is the average percentage of the total implementation cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "¿Cuál es el porcentaje promedio del costo total de implementación que corresponde a mano de obra, materiales y maquinaria? Los tres valores deben sumar 100%.",
+  "Basic Maintenance Costs (Years 2–{horizon})":
+    "Costos Básicos de Mantenimiento (Años 2–{horizon})",
+  "Add cost segments for different year ranges. The chart updates live. The total is carried to the Maintenance Cost field below.":
+    "Agregue segmentos de costo para distintos rangos de años. El gráfico se actualiza en vivo. El total se traslada al campo Costo de Mantenimiento más abajo.",
+  "Interpret as total and spread over years":
+    "Interpretar como total y repartir entre los años",
+  "What is the average percentage of the total maintenance cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "¿Cuál es el porcentaje promedio del costo total de mantenimiento que corresponde a mano de obra, materiales y maquinaria? Los tres valores deben sumar 100%.",
+  "NTFP Revenue":
+    "Ingresos de PFNM",
+  "Estimate the expected revenue from Non-Timber Forest Products (NTFP) harvested during the maintenance period.":
+    "Estime los ingresos esperados de los Productos Forestales No Maderables (PFNM) cosechados durante el período de mantenimiento.",
+  "Average Price during Harvesting Season":
+    "Precio Promedio en Temporada de Cosecha",
+  "e.g., 2.50":
+    "p. ej., 2,50",
+  "Which NTFP data will you provide?":
+    "¿Qué datos de PFNM proporcionará?",
+  "Productivity data (kg/{area}/yr)":
+    "Datos de productividad (kg/{area}/año)",
+  "Revenue data ({currency}/{area}/yr)":
+    "Datos de ingresos ({currency}/{area}/año)",
+  "Switching modes keeps the data on both sides — you can toggle freely.":
+    "Cambiar de modo conserva los datos de ambos lados — puede alternar libremente.",
+  "Average NTFP Productivity":
+    "Productividad Promedio de PFNM",
+  "Estimate how NTFP productivity (kg/{area}/yr) changes over the maintenance period as the forest matures.":
+    "Estime cómo cambia la productividad de PFNM (kg/{area}/año) durante el período de mantenimiento a medida que el bosque madura.",
+  "Add revenue segments for different year ranges. NTFP productivity may vary as the forest matures.":
+    "Agregue segmentos de ingresos para distintos rangos de años. La productividad de PFNM puede variar a medida que el bosque madura.",
+  "Labor":
+    "Mano de obra",
+  "Machinery":
+    "Maquinaria",
+  "Materials":
+    "Materiales",
+  "Labor (%)":
+    "Mano de obra (%)",
+  "Machinery (%)":
+    "Maquinaria (%)",
+  "Materials (%)":
+    "Materiales (%)",
+  "Cost distribution":
+    "Distribución del costo",
+  "Total cost":
+    "Costo total",
+
+  // ── Timeline builders ─────────────────────────────────────────────────────
+  "Name":
+    "Nombre",
+  "No segments yet — click \"Add segment\" to start.":
+    "Aún no hay segmentos — haga clic en «Agregar segmento» para comenzar.",
+  "No segments yet — click \"Add productivity segment\" to start.":
+    "Aún no hay segmentos — haga clic en «Agregar segmento de productividad» para comenzar.",
+  "No revenue segments yet — click \"Add revenue segment\" to start.":
+    "Aún no hay segmentos de ingresos — haga clic en «Agregar segmento de ingresos» para comenzar.",
+  "Select activity...":
+    "Seleccione la actividad...",
+  "max {max} reached":
+    "máx. de {max} alcanzado",
+  "From year":
+    "Año inicial",
+  "To year":
+    "Año final",
+  "Yr {year}":
+    "Año {year}",
+  "Segment {n}":
+    "Segmento {n}",
+  "Total cost ({currency}/{area}/yr)":
+    "Costo total ({currency}/{area}/año)",
+  "Productivity (kg/{area}/yr)":
+    "Productividad (kg/{area}/año)",
+  "Revenue ({currency}/{area}/yr)":
+    "Ingresos ({currency}/{area}/año)",
+  "Remove segment":
+    "Quitar segmento",
+  "Add segment":
+    "Agregar segmento",
+  "Add productivity segment":
+    "Agregar segmento de productividad",
+  "Add revenue segment":
+    "Agregar segmento de ingresos",
+  "All activities are at the maximum of {max} segments. Remove a segment to add a new one.":
+    "Todas las actividades están en el máximo de {max} segmentos. Quite un segmento para agregar otro.",
+  "Split the maintenance period into segments with different annual costs (e.g., intensive years vs. later years). Maximum {max} segments per activity.":
+    "Divida el período de mantenimiento en segmentos con costos anuales diferentes (p. ej., años intensivos vs. años posteriores). Máximo de {max} segmentos por actividad.",
+  "Activities at the {max}-segment limit":
+    "Actividades en el límite de {max} segmentos",
+  "Maximum of {max} segments reached. Remove a segment to add a new one.":
+    "Se alcanzó el máximo de {max} segmentos. Quite un segmento para agregar otro.",
+  "Split the revenue period into segments with different annual revenues (e.g., early low-yield years vs. mature harvest years). Maximum {max} segments.":
+    "Divida el período de ingresos en segmentos con ingresos anuales diferentes (p. ej., primeros años de bajo rendimiento vs. años de cosecha madura). Máximo de {max} segmentos.",
+  "NTFP productivity typically increases as the forest matures. Add segments for different growth phases. Maximum {max} segments.":
+    "La productividad de PFNM suele aumentar a medida que el bosque madura. Agregue segmentos para distintas fases de crecimiento. Máximo de {max} segmentos.",
+  "Accumulated total":
+    "Total acumulado",
+  "Weighted avg":
+    "Promedio ponderado",
+
+  // ── Context constraints ───────────────────────────────────────────────────
+  "Given an unfavourable scenario with contextual constraints, estimate the additional cost required to overcome these constraints and achieve the same level of ecological success as in a favourable scenario. These additional activities would have the same costs for all methods, so you need to fill this up just once. Pay attention to the unit of each cost field.":
+    "Dado un escenario desfavorable con restricciones de contexto, estime el costo adicional necesario para superar esas restricciones y lograr el mismo nivel de éxito ecológico que en un escenario favorable. Estas actividades adicionales tendrían los mismos costos para todos los métodos, por lo que basta con completarlas una vez. Preste atención a la unidad de cada campo de costo.",
+  "Firebreak / Fire Risk":
+    "Cortafuegos / Riesgo de Incendio",
+  "Fencing / Grazing Pressure":
+    "Cercado / Presión de Pastoreo",
+  "Weed Control / Invasive Species Pressure":
+    "Control de Malezas / Presión de Especies Invasoras",
+  "Pest Control / Pest Infestation Risk":
+    "Control de Plagas / Riesgo de Infestación",
+  "Consider the linear cost (1 km = 1000 m) and the total area of each lot that probably will need to be fenced ({area}). You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Considere el costo lineal (1 km = 1000 m) y el área total de cada lote que probablemente deba cercarse ({area}). Puede ingresar el costo directamente en {currency}/km o escribir {currency}/{area} y se convertirá automáticamente.",
+  "Consider the linear cost (1 km = 1000 m) and the total area that needs fire breaks. You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Considere el costo lineal (1 km = 1000 m) y el área total que necesita cortafuegos. Puede ingresar el costo directamente en {currency}/km o escribir {currency}/{area} y se convertirá automáticamente.",
+  "Consider the total number of times this activity will need to occur over the {horizon}-year project horizon (including both implementation and maintenance phases).":
+    "Considere el número total de veces que esta actividad deberá realizarse durante el horizonte de {horizon} años del proyecto (incluidas las fases de implementación y mantenimiento).",
+  "Unit Cost":
+    "Costo Unitario",
+  "or enter per area":
+    "o ingrese por área",
+  "optional":
+    "opcional",
+  "Fill in the area field to enable conversion":
+    "Complete el campo de área para habilitar la conversión",
+  "Converts to {currency}/km using √({area} ha)":
+    "Convierte a {currency}/km usando √({area} ha)",
+  "Average area that needs fences in one typical property":
+    "Área promedio que necesita cercas en una propiedad típica",
+  "Average total area that needs fire breaks":
+    "Área total promedio que necesita cortafuegos",
+  "Number of occurrences over {horizon} years":
+    "Número de ocurrencias en {horizon} años",
+  "times":
+    "veces",
+  "e.g., 50":
+    "p. ej., 50",
+  "e.g., 10":
+    "p. ej., 10",
+  "e.g., 5":
+    "p. ej., 5",
+
+  // ── Labor breakdown ───────────────────────────────────────────────────────
+  "Of the total labor hours involved in the restoration project, what percentage corresponds to hired labor (paid workers) and what percentage to non-hired labour (includes any type of labour that is not hired, such as family or community labour)?":
+    "Del total de horas de trabajo del proyecto de restauración, ¿qué porcentaje corresponde a mano de obra contratada (trabajadores remunerados) y qué porcentaje a mano de obra no contratada (cualquier tipo de trabajo no contratado, como familiar o comunitario)?",
+  "Please provide estimates for each phase. Each row must sum to 100%.":
+    "Proporcione estimaciones para cada fase. Cada fila debe sumar 100%.",
+  "Implementation (Year 1)":
+    "Implementación (Año 1)",
+  "Maintenance (Years 2–{horizon})":
+    "Mantenimiento (Años 2–{horizon})",
+  "Labor hour distribution":
+    "Distribución de horas de trabajo",
+  "Hired Labour":
+    "Mano de obra contratada",
+  "Non Hired Labour":
+    "Mano de obra no contratada",
+  "Includes any type of labour that is not hired, such as family or community labour":
+    "Incluye cualquier tipo de trabajo no contratado, como familiar o comunitario",
+  "Gender Distribution":
+    "Distribución por Género",
+  "Gender distribution":
+    "Distribución por género",
+  "Of the total labor hours involved in this project, what percentage is contributed by each gender group? Must sum to 100%.":
+    "Del total de horas de trabajo de este proyecto, ¿qué porcentaje aporta cada grupo de género? Debe sumar 100%.",
+  "Male":
+    "Masculino",
+  "Female":
+    "Femenino",
+  "Others":
+    "Otros",
+  "Hired Labor Cost Reference":
+    "Referencia de Costo de Mano de Obra Contratada",
+  "Average daily wage for hired field workers and hourly cost of machinery in this region.":
+    "Jornal diario promedio de trabajadores de campo contratados y costo por hora de maquinaria en esta región.",
+  "Hired Labor Cost":
+    "Costo de Mano de Obra Contratada",
+  "Machinery Unit Cost":
+    "Costo Unitario de Maquinaria",
+  "Land Lease Reference":
+    "Referencia de Arrendamiento de Tierra",
+  "Average annual cost to lease (rent) one {area} of land in this region.":
+    "Costo anual promedio de arrendar 1 {area} de tierra en esta región.",
+  "Average Land Lease Cost":
+    "Costo Promedio de Arrendamiento",
+
+  // ── Summary & assumptions ─────────────────────────────────────────────────
+  "Declared Total Unfavorable Cost":
+    "Costo Total Desfavorable Declarado",
+  "Your own estimate of the total cost (implementation + maintenance + all constraints) under the unfavorable scenario. The difference from the sum of the parts is the interaction adjustment. Leave 0 if you have no estimate.":
+    "Su propia estimación del costo total (implementación + mantenimiento + todas las restricciones) en el escenario desfavorable. La diferencia con la suma de las partes es el ajuste por interacción. Deje 0 si no tiene una estimación.",
+  "Default Discount Rate":
+    "Tasa de Descuento Predeterminada",
+  "Used for the headline NPV, BCR, payback year and cost per tCO2":
+    "Se usa para el VAN principal, la RBC, el año de recuperación y el costo por tCO2",
+  "Tornado Sensitivity Flex":
+    "Variación de la Sensibilidad (Tornado)",
+  "Each driver is moved down and up by this share in the one-way sensitivity":
+    "Cada factor se reduce y aumenta en esta proporción en la sensibilidad univariada",
+  "Carbon Price (Year 1)":
+    "Precio del Carbono (Año 1)",
+  "Carbon Price Escalation":
+    "Variación del Precio del Carbono",
+  "Annual real change of the carbon price; 0 keeps the price flat":
+    "Variación real anual del precio del carbono; 0 lo mantiene constante",
+  "Buffer Pool Deduction":
+    "Deducción para Reserva de Amortiguación",
+  "Share of sequestered carbon withheld by the registry and not sold":
+    "Proporción del carbono secuestrado retenida por el registro y no vendida",
+  "Fallback Sequestration Rate":
+    "Tasa de Secuestro Alternativa",
+  "Mean rate used when the ecosystem has no reference sequestration value":
+    "Tasa media usada cuando el ecosistema no tiene un valor de secuestro de referencia",
+  "NTFP Maturation Lag":
+    "Desfase de Maduración del PFNM",
+  "Years before NTFP revenue starts when only a revenue total is available":
+    "Años antes de que comiencen los ingresos de PFNM cuando solo se dispone del total",
+  "Fencing Cost in Year 1":
+    "Costo de Cercado en el Año 1",
+  "Share of total fencing cost incurred at implementation; the rest is spread over the maintenance years":
+    "Proporción del costo total de cercado incurrida en la implementación; el resto se reparte en los años de mantenimiento",
+
+  // ── Validation messages ───────────────────────────────────────────────────
+  "Cannot be negative":
+    "No puede ser negativo",
+  "Cannot exceed 100%":
+    "No puede superar el 100%",
+  "Cannot exceed 50%":
+    "No puede superar el 50%",
+  "Cannot exceed 20%":
+    "No puede superar el 20%",
+  "Cannot be below -20%":
+    "No puede ser inferior a -20%",
+  "Must be a whole number":
+    "Debe ser un número entero",
+  "Must be at least 1%":
+    "Debe ser al menos 1%",
+  "Labor % is required":
+    "El % de mano de obra es obligatorio",
+  "Materials % is required":
+    "El % de materiales es obligatorio",
+  "Machinery % is required":
+    "El % de maquinaria es obligatorio",
+  "Segment id is required":
+    "El id del segmento es obligatorio",
+  "Start year is required":
+    "El año inicial es obligatorio",
+  "End year is required":
+    "El año final es obligatorio",
+  "Minimum year 2 (year 1 is implementation)":
+    "Año mínimo 2 (el año 1 es la implementación)",
+  "Maximum {max} years":
+    "Máximo {max} años",
+  "Minimum {min} years":
+    "Mínimo {min} años",
+  "End year must be greater than or equal to start year":
+    "El año final debe ser mayor o igual que el año inicial",
+  "End year exceeds the {horizon}-year time horizon":
+    "El año final supera el horizonte de {horizon} años",
+  "Cost is required":
+    "El costo es obligatorio",
+  "Revenue is required":
+    "Los ingresos son obligatorios",
+  "Productivity is required":
+    "La productividad es obligatoria",
+  "Number of occurrences is required":
+    "El número de ocurrencias es obligatorio",
+  "Implementation cost is required":
+    "El costo de implementación es obligatorio",
+  "Maintenance cost is required":
+    "El costo de mantenimiento es obligatorio",
+  "Ecosystem is required":
+    "El ecosistema es obligatorio",
+  "Time horizon is required":
+    "El horizonte de análisis es obligatorio",
+  "Hired Labour % is required":
+    "El % de mano de obra contratada es obligatorio",
+  "Non Hired Labour % is required":
+    "El % de mano de obra no contratada es obligatorio",
+  "Hired labor cost is required":
+    "El costo de mano de obra contratada es obligatorio",
+  "Machinery unit cost is required":
+    "El costo unitario de maquinaria es obligatorio",
+  "Land lease cost is required":
+    "El costo de arrendamiento es obligatorio",
+  "Male % is required":
+    "El % masculino es obligatorio",
+  "Female % is required":
+    "El % femenino es obligatorio",
+  "Other % is required":
+    "El % de otros es obligatorio",
+
+  // ── Consistency rules ─────────────────────────────────────────────────────
+  "Implementation hired + non hired labour":
+    "Mano de obra contratada + no contratada en la implementación",
+  "Maintenance hired + non hired labour":
+    "Mano de obra contratada + no contratada en el mantenimiento",
+  "{label} must sum to 100%. Currently: {sum}%.":
+    "{label} debe sumar 100%. Actualmente: {sum}%.",
+  "Some segments end after year {horizon}. Shorten them or extend the time horizon.":
+    "Algunos segmentos terminan después del año {horizon}. Acórtelos o amplíe el horizonte de análisis.",
+  "Complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Complete al menos una pestaña de método (costos y distribuciones de implementación y mantenimiento) antes de guardar o exportar.",
+  "Enter the implementation cost (year 1), or mark the method as having no data.":
+    "Ingrese el costo de implementación (año 1) o marque el método como sin datos.",
+  "Add at least one maintenance segment with a cost, or mark the method as having no data.":
+    "Agregue al menos un segmento de mantenimiento con costo o marque el método como sin datos.",
+  "The implementation cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "La distribución del costo de implementación debe sumar exactamente 100%. Actualmente: {sum}%.",
+  "Please fill in the implementation cost distribution (must sum to 100%).":
+    "Complete la distribución del costo de implementación (debe sumar 100%).",
+  "The maintenance cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "La distribución del costo de mantenimiento debe sumar exactamente 100%. Actualmente: {sum}%.",
+  "Please fill in the maintenance cost distribution (must sum to 100%).":
+    "Complete la distribución del costo de mantenimiento (debe sumar 100%).",
+  "The declared unfavorable cost differs from the sum of its parts by more than {pct}%. Check for missing or double-counted constraint costs, or annual vs total maintenance confusion.":
+    "El costo desfavorable declarado difiere de la suma de sus partes en más de {pct}%. Revise costos de restricción faltantes o contados dos veces, o confusión entre mantenimiento anual y total.",
+  "No unfavorable-scenario cost declared; the interaction adjustment is taken as 0.":
+    "No se declaró un costo de escenario desfavorable; el ajuste por interacción se toma como 0.",
+  "The maintenance segment for years {from}–{to} has no activity selected.":
+    "El segmento de mantenimiento de los años {from}–{to} no tiene una actividad seleccionada.",
+  "Firebreak":
+    "Cortafuegos",
+  "Fencing":
+    "Cercado",
+  "Weed control":
+    "Control de malezas",
+  "Pest control":
+    "Control de plagas",
+  "{label}: the distribution must sum to exactly 100%. Currently: {sum}%.":
+    "{label}: la distribución debe sumar exactamente 100%. Actualmente: {sum}%.",
+  "{label}: please fill in the cost distribution for this cost category (must sum to 100%).":
+    "{label}: complete la distribución de costo de esta categoría (debe sumar 100%).",
+  "{label}: a unit cost is entered but the fenced area is 0, so it adds no cost.":
+    "{label}: se ingresó un costo unitario, pero el área cercada es 0, por lo que no suma costo.",
+  "{label}: a unit cost is entered but the number of occurrences is 0, so it adds no cost.":
+    "{label}: se ingresó un costo unitario, pero el número de ocurrencias es 0, por lo que no suma costo.",
+  "{activity}: the annual cost {cost}/yr is close to the whole implementation cost ({impl}). Over {years} years it adds up to {total}, {ratio}× implementation. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity}: el costo anual de {cost}/año se acerca al costo total de implementación ({impl}). En {years} años suma {total}, {ratio}× la implementación. Leído como total, equivale a {annual}/año en los años {from}–{to}.",
+  "{activity}: one segment covers the whole maintenance period and its {cost}/yr adds up to {total}, {ratio}× the implementation cost. The value may be the accumulated total. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity}: un solo segmento cubre todo el período de mantenimiento y sus {cost}/año suman {total}, {ratio}× el costo de implementación. El valor puede ser el total acumulado. Leído como total, equivale a {annual}/año en los años {from}–{to}.",
+  "This segment":
+    "Este segmento",
+
+  // ── Excel export ──────────────────────────────────────────────────────────
+  "Field":
+    "Campo",
+  "Unit":
+    "Unidad",
+  "Section":
+    "Sección",
+  "Description":
+    "Descripción",
+  "Form Path":
+    "Ruta en el Formulario",
+  "Value":
+    "Valor",
+  "Expected Min":
+    "Mínimo Esperado",
+  "Expected Max":
+    "Máximo Esperado",
+  "Deviation (%)":
+    "Desviación (%)",
+  "Range Source":
+    "Origen del Rango",
+  "Message":
+    "Mensaje",
+  "Rule ID":
+    "ID de la Regla",
+  "Severity":
+    "Gravedad",
+  "Fields":
+    "Campos",
+  "error":
+    "error",
+  "warning":
+    "advertencia",
+  "info":
+    "nota",
+  "No field outside its reference range":
+    "Ningún campo fuera de su rango de referencia",
+  "No issue found by the consistency rules":
+    "Las reglas de consistencia no encontraron problemas",
+
+  // ── Export metadata ───────────────────────────────────────────────────────
+  "text":
+    "texto",
+  "text \"lat, lon\"":
+    "texto «lat, lon»",
+  "integer":
+    "entero",
+  "count":
+    "conteo",
+  "year (From/To) or US$/ha/yr (Annual_USD)":
+    "año (From/To) o US$/ha/año (Annual_USD)",
+  "year (From/To) or kg/ha/yr (kg_ha_yr)":
+    "año (From/To) o kg/ha/año (kg_ha_yr)",
+  "1. Identification":
+    "1. Identificación",
+  "2. Method":
+    "2. Método",
+  "3. Implementation":
+    "3. Implementación",
+  "4. Maintenance segments":
+    "4. Segmentos de mantenimiento",
+  "5. Maintenance distribution":
+    "5. Distribución del mantenimiento",
+  "6. NTFP species & price":
+    "6. Especie y precio del PFNM",
+  "7. NTFP Productivity segments":
+    "7. Segmentos de productividad de PFNM",
+  "8. NTFP Revenue segments":
+    "8. Segmentos de ingresos de PFNM",
+  "9. Context Constraints":
+    "9. Restricciones de Contexto",
+  "10. Labor Breakdown":
+    "10. Desglose de Mano de Obra",
+  "11. Unfavorable Scenario":
+    "11. Escenario Desfavorable",
+  "Name of the field expert / consultant who provided the data":
+    "Nombre del experto de campo / consultor que proporcionó los datos",
+  "Name of the person filling out the questionnaire":
+    "Nombre de la persona que completó el cuestionario",
+  "Date when the data was collected":
+    "Fecha en que se recolectaron los datos",
+  "GPS coordinates of the project site":
+    "Coordenadas GPS del sitio del proyecto",
+  "Ecosystem type (e.g., Tropical Forest, Cerrado, Mangrove)":
+    "Tipo de ecosistema (p. ej., Bosque Tropical, Cerrado, Manglar)",
+  "Country where the project is located":
+    "País donde se ubica el proyecto",
+  "City where the project is located":
+    "Ciudad donde se ubica el proyecto",
+  "Analysis time horizon (10–50 years); all segment years fall within it":
+    "Horizonte de análisis (10–50 años); todos los años de los segmentos quedan dentro de él",
+  "Format version of the questionnaire that wrote this file; used to migrate older files on import":
+    "Versión de formato del cuestionario que escribió este archivo; se usa para migrar archivos antiguos al importar",
+  "Display label of the restoration method for this row":
+    "Nombre visible del método de restauración de esta fila",
+  "Internal ID of the method (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)":
+    "ID interno del método (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)",
+  "Basic implementation cost (Year 1) for this method":
+    "Costo básico de implementación (Año 1) de este método",
+  "Share of implementation cost attributable to labor (must sum to 100% with Mater/Mach)":
+    "Proporción del costo de implementación atribuible a mano de obra (debe sumar 100% con Mater/Mach)",
+  "Share of implementation cost attributable to materials":
+    "Proporción del costo de implementación atribuible a materiales",
+  "Share of implementation cost attributable to machinery/services":
+    "Proporción del costo de implementación atribuible a maquinaria/servicios",
+  "Segments for 'Maintenance of regenerating individuals' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr (start year), To_yr (end year, >= From_yr), Annual_USD (annual cost in US$/ha)}. Empty when the user has not used that segment slot.":
+    "Segmentos de 'Mantenimiento de individuos en regeneración' (poda, raleo, tutorado). <N> en 1..10. <Field> en {From_yr (año inicial), To_yr (año final, >= From_yr), Annual_USD (costo anual en US$/ha)}. Vacío cuando el usuario no usó esa posición de segmento.",
+  "Segments for 'Maintenance of NTFP species' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Mantenimiento de especies de PFNM' (poda, raleo, tutorado). <N> en 1..10. <Field> en {From_yr, To_yr, Annual_USD}. Vacío cuando la posición no se usó.",
+  "Segments for 'Harvest' activity (e.g. NTFP collection, when treated as a maintenance cost). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de la actividad 'Cosecha' (p. ej., recolección de PFNM, cuando se trata como costo de mantenimiento). <N> en 1..10. <Field> en {From_yr, To_yr, Annual_USD}. Vacío cuando la posición no se usó.",
+  "Segments for 'Technical assistance' (agronomist/forester visits, planning, training). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Asistencia técnica' (visitas de agrónomo/ingeniero forestal, planificación, capacitación). <N> en 1..10. <Field> en {From_yr, To_yr, Annual_USD}. Vacío cuando la posición no se usó.",
+  "Segments for 'Monitoring General Maintenance Activities' (e.g. shade management, light interventions). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Monitoreo y actividades generales de mantenimiento' (p. ej., manejo de sombra, intervenciones ligeras). <N> en 1..10. <Field> en {From_yr, To_yr, Annual_USD}. Vacío cuando la posición no se usó.",
+  "Share of maintenance cost attributable to labor (sum to 100%)":
+    "Proporción del costo de mantenimiento atribuible a mano de obra (suma 100%)",
+  "Share of maintenance cost attributable to materials":
+    "Proporción del costo de mantenimiento atribuible a materiales",
+  "Share of maintenance cost attributable to machinery/services":
+    "Proporción del costo de mantenimiento atribuible a maquinaria/servicios",
+  "Selected Non-Timber Forest Product species (NTFP methods only - empty otherwise)":
+    "Especie de Producto Forestal No Maderable seleccionada (solo métodos con PFNM - vacío en los demás)",
+  "Average price of the NTFP during harvesting season (NTFP methods only)":
+    "Precio promedio del PFNM en temporada de cosecha (solo métodos con PFNM)",
+  "NTFP productivity segments. <N> in 1..5. <Field> in {From_yr, To_yr, kg_ha_yr (annual productivity)}. Filled only when the user picks 'Productivity data' mode for an NTFP method. Empty otherwise.":
+    "Segmentos de productividad de PFNM. <N> en 1..5. <Field> en {From_yr, To_yr, kg_ha_yr (productividad anual)}. Se completa solo cuando el usuario elige el modo 'Datos de productividad' en un método con PFNM. Vacío en los demás casos.",
+  "NTFP revenue segments. <N> in 1..5. <Field> in {From_yr, To_yr, Annual_USD (annual revenue)}. Filled only when the user picks 'Revenue data' mode for an NTFP method. Empty otherwise.":
+    "Segmentos de ingresos de PFNM. <N> en 1..5. <Field> en {From_yr, To_yr, Annual_USD (ingreso anual)}. Se completa solo cuando el usuario elige el modo 'Datos de ingresos' en un método con PFNM. Vacío en los demás casos.",
+  "Firebreak unit cost per linear km":
+    "Costo unitario de cortafuegos por km lineal",
+  "Firebreak unit cost per hectare (derived from US$/km via firebreak area)":
+    "Costo unitario de cortafuegos por hectárea (derivado de US$/km mediante el área de cortafuegos)",
+  "Number of times firebreak activity occurs over the time horizon":
+    "Número de veces que se realiza la actividad de cortafuegos en el horizonte de análisis",
+  "Share of firebreak cost attributable to labor (sum to 100%)":
+    "Proporción del costo de cortafuegos atribuible a mano de obra (suma 100%)",
+  "Share of firebreak cost attributable to materials":
+    "Proporción del costo de cortafuegos atribuible a materiales",
+  "Share of firebreak cost attributable to machinery/services":
+    "Proporción del costo de cortafuegos atribuible a maquinaria/servicios",
+  "Fencing unit cost per linear km":
+    "Costo unitario de cercado por km lineal",
+  "Fencing unit cost per hectare (derived from US$/km via fenced area)":
+    "Costo unitario de cercado por hectárea (derivado de US$/km mediante el área cercada)",
+  "Share of fencing cost attributable to labor":
+    "Proporción del costo de cercado atribuible a mano de obra",
+  "Share of fencing cost attributable to materials":
+    "Proporción del costo de cercado atribuible a materiales",
+  "Share of fencing cost attributable to machinery/services":
+    "Proporción del costo de cercado atribuible a maquinaria/servicios",
+  "Invasive species / weed control unit cost":
+    "Costo unitario del control de especies invasoras / malezas",
+  "Number of weed-control occurrences over the time horizon":
+    "Número de ocurrencias de control de malezas en el horizonte de análisis",
+  "Share of weed-control cost attributable to labor":
+    "Proporción del costo de control de malezas atribuible a mano de obra",
+  "Share of weed-control cost attributable to materials":
+    "Proporción del costo de control de malezas atribuible a materiales",
+  "Share of weed-control cost attributable to machinery/services":
+    "Proporción del costo de control de malezas atribuible a maquinaria/servicios",
+  "Pest control unit cost":
+    "Costo unitario del control de plagas",
+  "Number of pest-control occurrences over the time horizon":
+    "Número de ocurrencias de control de plagas en el horizonte de análisis",
+  "Share of pest-control cost attributable to labor":
+    "Proporción del costo de control de plagas atribuible a mano de obra",
+  "Share of pest-control cost attributable to materials":
+    "Proporción del costo de control de plagas atribuible a materiales",
+  "Share of pest-control cost attributable to machinery/services":
+    "Proporción del costo de control de plagas atribuible a maquinaria/servicios",
+  "Implementation labor: share of hired (paid) workers (Hired+Family = 100%)":
+    "Mano de obra en la implementación: proporción de trabajadores contratados (remunerados) (Contratada+Familiar = 100%)",
+  "Implementation labor: share of family (unpaid) labor":
+    "Mano de obra en la implementación: proporción de trabajo familiar (no remunerado)",
+  "Maintenance labor: share of hired (paid) workers":
+    "Mano de obra en el mantenimiento: proporción de trabajadores contratados (remunerados)",
+  "Maintenance labor: share of family (unpaid) labor":
+    "Mano de obra en el mantenimiento: proporción de trabajo familiar (no remunerado)",
+  "Regional reference: average daily wage for hired field workers":
+    "Referencia regional: jornal diario promedio de trabajadores de campo contratados",
+  "Regional reference: hourly cost of machinery":
+    "Referencia regional: costo por hora de maquinaria",
+  "Regional reference: average annual land lease (rent) rate per hectare":
+    "Referencia regional: valor promedio anual de arrendamiento por hectárea",
+  "Share of total labor hours contributed by male workers (sum to 100% with Female/Other)":
+    "Proporción del total de horas de trabajo aportada por hombres (suma 100% con Female/Other)",
+  "Share of total labor hours contributed by female workers":
+    "Proporción del total de horas de trabajo aportada por mujeres",
+  "Share of total labor hours contributed by non-binary / other workers":
+    "Proporción del total de horas de trabajo aportada por personas no binarias / otras",
+  "Respondent's declared total cost of the unfavorable scenario over the horizon. Empty when not declared":
+    "Costo total del escenario desfavorable en el horizonte, declarado por el encuestado. Vacío si no se declaró",
+  "Additive estimate: implementation + maintenance + Σ(constraint unit cost × occurrences)":
+    "Estimación aditiva: implementación + mantenimiento + Σ(costo unitario de la restricción × ocurrencias)",
+  "Interaction adjustment = declared − computed; carried into the CBA cash flows. Empty when not declared":
+    "Ajuste por interacción = declarado − calculado; se traslada a los flujos de caja del ACB. Vacío si no se declaró",
+
+  // ── Entry currency ────────────────────────────────────────────────────────
+  "Currency of the amounts":
+    "Moneda de los montos",
+  "Exchange rate":
+    "Tipo de cambio",
+  "{currency} per US$":
+    "{currency} por US$",
+  "Units of the local currency for 1 US$. Amounts are stored as entered and converted to US$ with this rate for the reference ranges, aggregation and the Excel export.":
+    "Unidades de la moneda local por 1 US$. Los montos se guardan tal como se ingresaron y se convierten a US$ con este tipo para los rangos de referencia, la agregación y la exportación a Excel.",
+  "Exchange rate date":
+    "Fecha del tipo de cambio",
+  "Currency":
+    "Moneda",
+  "ISO 4217 code":
+    "código ISO 4217",
+  "local units per US$":
+    "unidades locales por US$",
+  "Currency the respondent entered the amounts in (USD = entered in US dollars)":
+    "Moneda en la que el encuestado ingresó los montos (USD = ingresados en dólares estadounidenses)",
+  "Exchange rate used to convert the entered amounts to the US$ columns; amount as entered = US$ value × rate":
+    "Tipo de cambio usado para convertir los montos ingresados a las columnas en US$; monto ingresado = valor en US$ × tipo",
+  "Date the exchange rate was taken on":
+    "Fecha en que se tomó el tipo de cambio",
+  "US dollar":
+    "Dólar estadounidense",
+  "Argentine peso":
+    "Peso argentino",
+  "Bolivian boliviano":
+    "Boliviano",
+  "Brazilian real":
+    "Real brasileño",
+  "Chilean peso":
+    "Peso chileno",
+  "Colombian peso":
+    "Peso colombiano",
+  "Costa Rican colón":
+    "Colón costarricense",
+  "Euro":
+    "Euro",
+  "Guatemalan quetzal":
+    "Quetzal guatemalteco",
+  "Honduran lempira":
+    "Lempira hondureño",
+  "Indonesian rupiah":
+    "Rupia indonesia",
+  "Indian rupee":
+    "Rupia india",
+  "Kenyan shilling":
+    "Chelín keniano",
+  "Malagasy ariary":
+    "Ariary malgache",
+  "Mexican peso":
+    "Peso mexicano",
+  "Peruvian sol":
+    "Sol peruano",
+  "Paraguayan guaraní":
+    "Guaraní paraguayo",
+  "Tanzanian shilling":
+    "Chelín tanzano",
+  "Central African CFA franc":
+    "Franco CFA de África Central",
+  "West African CFA franc":
+    "Franco CFA de África Occidental",
+
+  // ── Area unit ─────────────────────────────────────────────────────────────
+  "Area unit":
+    "Unidad de área",
+  "Hectare":
+    "Hectárea",
+  "Acre":
+    "Acre",
+  "Manzana":
+    "Manzana",
+  "Tarea":
+    "Tarea",
+  "ha | acre | manzana | tarea":
+    "ha | acre | manzana | tarea",
+  "Area unit the respondent used on the form; every area-denominated column is still per hectare":
+    "Unidad de área que usó el encuestado en el formulario; todas las columnas por área siguen siendo por hectárea",
+
+  // ── Questionnaire report ──────────────────────────────────────────────────
+  "Report":
+    "Informe",
+  "Printable report of the questionnaire (print or save as PDF)":
+    "Informe imprimible del cuestionario (imprimir o guardar como PDF)",
+  "Questionnaire report":
+    "Informe del cuestionario",
+  "Print / Save as PDF":
+    "Imprimir / Guardar como PDF",
+  "Close report":
+    "Cerrar informe",
+  "Restoration cost questionnaire":
+    "Cuestionario de costos de restauración",
+  "Report generated on {date}":
+    "Informe generado el {date}",
+  "Identification":
+    "Identificación",
+  "Item":
+    "Ítem",
+  "{rate} {code} per US$":
+    "{rate} {code} por US$",
+  "Methods without data":
+    "Métodos sin datos",
+  "Context Constraints":
+    "Restricciones de contexto",
+  "Constraint":
+    "Restricción",
+  "Occurrences":
+    "Ocurrencias",
+  "Firebreak area":
+    "Área de cortafuegos",
+  "Labor Breakdown":
+    "Distribución de la mano de obra",
+  "Consistency checks":
+    "Verificaciones de consistencia",
+  "Method":
+    "Método",
+  "Issue":
+    "Problema",
+  "Error":
+    "Error",
+  "Warning":
+    "Advertencia",
+  "Note":
+    "Nota",
+  "Interaction adjustment":
+    "Ajuste de interacción",
+  "No segments":
+    "Sin segmentos",
+  "Maintenance":
+    "Mantenimiento",
+  "Annual timeline ({unit})":
+    "Cronograma anual ({unit})",
+  "Cost-benefit analysis":
+    "Análisis costo-beneficio",
+  "No results: the implementation cost is missing.":
+    "Sin resultados: falta el costo de implementación.",
+  "Respondent":
+    "Encuestado",
+  "Reviewer":
+    "Revisor",
+  "Date":
+    "Fecha",
+
+  // ── Machinery hours ───────────────────────────────────────────────────────
+  "Enter the machinery unit cost per hour to derive the machinery hours implied by the machinery shares.":
+    "Ingrese el costo unitario de maquinaria por hora para derivar las horas de maquinaria implícitas en las participaciones de maquinaria.",
+  "The implementation cost implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "El costo de implementación implica {hours} horas de maquinaria por ha, más que las {max} h/ha plausibles para este método. Revise la participación de maquinaria y el costo unitario de maquinaria.",
+  "Maintenance in year {year} implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "El mantenimiento en el año {year} implica {hours} horas de maquinaria por ha, más que las {max} h/ha plausibles para este método. Revise la participación de maquinaria y el costo unitario de maquinaria.",
+
+  // ── Employment ────────────────────────────────────────────────────────────
+  "Employment":
+    "Empleo",
+  "Labor person-days and full-time-equivalent jobs over {horizon} years per restoration method":
+    "Días-persona de trabajo y empleos equivalentes a tiempo completo a lo largo de {horizon} años por método de restauración",
+  "Enter the hired labor cost per day in Section 4 to derive person-days and jobs.":
+    "Ingrese el costo diario de la mano de obra contratada en la Sección 4 para derivar días-persona y empleos.",
+  "days/{area}":
+    "días/{area}",
+  "Person-Days":
+    "Días-Persona",
+  "{unit} over {years} years":
+    "{unit} en {years} años",
+  "Jobs in Year 1":
+    "Empleos en el Año 1",
+  "FTE per 1,000 ha during implementation":
+    "ETC por 1.000 ha durante la implementación",
+  "Jobs in Maintenance":
+    "Empleos en el Mantenimiento",
+  "Mean FTE per 1,000 ha, years 2–{last}":
+    "ETC medio por 1.000 ha, años 2–{last}",
+  "Average Jobs":
+    "Empleos Promedio",
+  "Mean FTE per 1,000 ha over the horizon ({days} days = 1 FTE)":
+    "ETC medio por 1.000 ha en el horizonte ({days} días = 1 ETC)",
+  "Person-Days by Year ({unit})":
+    "Días-Persona por Año ({unit})",
+  "Labor in the implementation, maintenance and constraint costs, hired vs non-hired.":
+    "Mano de obra en los costos de implementación, mantenimiento y restricciones, contratada vs no contratada.",
+  "Hired":
+    "Contratada",
+  "Non-hired":
+    "No contratada",
+  "Person-Days by Gender ({unit})":
+    "Días-Persona por Género ({unit})",
+  "Total person-days split by the gender distribution of Section 4.":
+    "Total de días-persona dividido por la distribución por género de la Sección 4.",
+  "Person-days":
+    "Días-persona",
+  "Phase":
+    "Fase",
+  "Person-Days ({unit})":
+    "Días-Persona ({unit})",
+  "Non-Hired":
+    "No Contratada",
+  "FTE per 1,000 ha":
+    "ETC por 1.000 ha",
+  "Maintenance (Years 2–{last})":
+    "Mantenimiento (Años 2–{last})",
+  "Whole horizon":
+    "Horizonte completo",
+  "Person-Days (days/ha)":
+    "Días-Persona (días/ha)",
+  "Hired (days/ha)":
+    "Contratada (días/ha)",
+  "Non-Hired (days/ha)":
+    "No Contratada (días/ha)",
+  "Male (days/ha)":
+    "Masculino (días/ha)",
+  "Female (days/ha)":
+    "Femenino (días/ha)",
+  "Others (days/ha)":
+    "Otros (días/ha)",
+  "Implementation (days/ha)":
+    "Implementación (días/ha)",
+  "Maintenance (days/ha)":
+    "Mantenimiento (días/ha)",
+  "FTE per 1,000 ha — Year 1":
+    "ETC por 1.000 ha — Año 1",
+  "FTE per 1,000 ha — Maintenance (mean)":
+    "ETC por 1.000 ha — Mantenimiento (media)",
+  "FTE per 1,000 ha — Horizon (mean)":
+    "ETC por 1.000 ha — Horizonte (media)",
+  "Project Year":
+    "Año del Proyecto",
+  "Implementation":
+    "Implementación",
+  "EMPLOYMENT — labor in the costs ÷ hired labor rate; 1 FTE = {days} days/year":
+    "EMPLEO — mano de obra en los costos ÷ jornal de la mano de obra contratada; 1 ETC = {days} días/año",
+  "PERSON-DAYS BY YEAR":
+    "DÍAS-PERSONA POR AÑO",
+
+  // ── Project scenario ──────────────────────────────────────────────────────
+  "Project Scenario":
+    "Escenario de Proyecto",
+  "Scale the per-hectare results to a project: area per method, planting schedule and total budget":
+    "Escale los resultados por hectárea a un proyecto: área por método, calendario de plantación y presupuesto total",
+  "Enter the area implemented with each method in each project year. Every planting follows the method's per-hectare cash flow from its own year, so the project runs until the last planting reaches the end of the {horizon}-year horizon. Methods without an implementation cost are left out.":
+    "Ingrese el área implementada con cada método en cada año del proyecto. Cada plantación sigue el flujo de caja por hectárea del método desde su propio año, de modo que el proyecto dura hasta que la última plantación llega al final del horizonte de {horizon} años. Los métodos sin costo de implementación quedan fuera.",
+  "Planting schedule (project year / area in {unit})":
+    "Calendario de plantación (año del proyecto / área en {unit})",
+  "Total ({unit})":
+    "Total ({unit})",
+  "Project year":
+    "Año del proyecto",
+  "Area":
+    "Área",
+  "Remove planting year":
+    "Quitar año de plantación",
+  "Add planting year":
+    "Agregar año de plantación",
+  "Check the planting schedule: project years are whole numbers from 1, areas cannot be negative.":
+    "Revise el calendario de plantación: los años del proyecto son números enteros desde 1 y las áreas no pueden ser negativas.",
+  "Constraint Costs in Year 1":
+    "Costos de Restricciones en el Año 1",
+  "% of full cost":
+    "% del costo total",
+  "Share of the per-hectare firebreak, fencing, weed and pest control costs incurred in the first project year":
+    "Proporción de los costos por hectárea de cortafuegos, cercas, control de malezas y de plagas incurrida en el primer año del proyecto",
+  "Constraint Ramp-Up Period":
+    "Período de Aumento de las Restricciones",
+  "Project years over which the constraint costs rise linearly to their full level. 0 = full costs from year 1":
+    "Años del proyecto durante los cuales los costos de restricciones suben linealmente hasta su nivel total. 0 = costos totales desde el año 1",
+  "Add a planting year with an area to a method with an implementation cost to see project results.":
+    "Agregue un año de plantación con área a un método con costo de implementación para ver los resultados del proyecto.",
+  "Total Area":
+    "Área Total",
+  "over {years} project years":
+    "en {years} años de proyecto",
+  "Total Budget":
+    "Presupuesto Total",
+  "cash outlays, undiscounted (economic cost {cost})":
+    "desembolsos, sin descontar (costo económico {cost})",
+  "Peak Financing Need":
+    "Necesidad Máxima de Financiamiento",
+  "largest cumulative cash deficit, year {year}":
+    "mayor déficit de caja acumulado, año {year}",
+  "the cash position never goes negative":
+    "el saldo de caja nunca es negativo",
+  "Project NPV":
+    "VAN del Proyecto",
+  "@ {rate}, economic (financial {npv})":
+    "al {rate}, económico (financiero {npv})",
+  "Project Cash Flow by Year ({currency})":
+    "Flujo de Caja del Proyecto por Año ({currency})",
+  "Cash outlays and benefits of all plantings, with the cumulative cash position.":
+    "Desembolsos y beneficios de todas las plantaciones, con el saldo de caja acumulado.",
+  "Cash outlays":
+    "Desembolsos",
+  "Benefits":
+    "Beneficios",
+  "Cumulative cash position":
+    "Saldo de caja acumulado",
+  "Area ({unit})":
+    "Área ({unit})",
+  "Budget (cash outlays)":
+    "Presupuesto (desembolsos)",
+  "Economic Cost":
+    "Costo Económico",
+  "NPV @{rate}":
+    "VAN al {rate}",
+  "Project":
+    "Proyecto",
+  "Export project workbook (.xlsx)":
+    "Exportar libro del proyecto (.xlsx)",
+  "Area (ha)":
+    "Área (ha)",
+  "Total Cost, economic (US$)":
+    "Costo Total, económico (US$)",
+  "Budget, cash outlays (US$)":
+    "Presupuesto, desembolsos (US$)",
+  "Total Benefits (US$)":
+    "Beneficios Totales (US$)",
+  "NPV @{rate} (US$)":
+    "VAN al {rate} (US$)",
+  "Financial NPV @{rate} (US$)":
+    "VAN Financiero al {rate} (US$)",
+  "PROJECT COST-BENEFIT ANALYSIS":
+    "ANÁLISIS COSTO-BENEFICIO DEL PROYECTO",
+  "Project Length (years)":
+    "Duración del Proyecto (años)",
+  "Total Area (ha)":
+    "Área Total (ha)",
+  "Total Budget, cash outlays (US$)":
+    "Presupuesto Total, desembolsos (US$)",
+  "Project NPV @{rate} (US$)":
+    "VAN del Proyecto al {rate} (US$)",
+  "Project Financial NPV @{rate} (US$)":
+    "VAN Financiero del Proyecto al {rate} (US$)",
+  "Peak Financing Need (US$)":
+    "Necesidad Máxima de Financiamiento (US$)",
+  "Peak Financing Year":
+    "Año de la Necesidad Máxima",
+  "N/A":
+    "N/D",
+  "PLANTING SCHEDULE":
+    "CALENDARIO DE PLANTACIÓN",
+  "CONSTRAINT COST RAMP-UP":
+    "AUMENTO DE LOS COSTOS DE RESTRICCIONES",
+  "Share in Year 1 (%)":
+    "Proporción en el Año 1 (%)",
+  "Years to 100%":
+    "Años hasta 100%",
+  "Constraint Costs Incurred (%)":
+    "Costos de Restricciones Incurridos (%)",
+  "Area Planted (ha)":
+    "Área Plantada (ha)",
+  "Area Managed (ha)":
+    "Área Manejada (ha)",
+  "Maintenance Cost":
+    "Costo de Mantenimiento",
+  "Constraint Cost (after ramp-up)":
+    "Costo de Restricciones (tras el aumento)",
+  "Adjustment, Land & Shadow Labor":
+    "Ajuste, Tierra y Mano de Obra Sombra",
+  "Total Cost (economic)":
+    "Costo Total (económico)",
+  "Total Benefits":
+    "Beneficios Totales",
+  "Net Cash Flow":
+    "Flujo de Caja Neto",
+  "Discounted Net Flow":
+    "Flujo Neto Descontado",
+  "Financial Cost (cash outlays)":
+    "Costo Financiero (desembolsos)",
+  "Financial Net Flow":
+    "Flujo Neto Financiero",
+  "Cumulative Financial Net":
+    "Saldo Financiero Acumulado",
+
+  // ── Regional extrapolation and CBA results ────────────────────────────────
+  "{horizon}-year NPV, IRR, BCR and cash-flow projections per restoration method":
+    "VAN, TIR, RBC y proyecciones de flujo de caja a {horizon} años por método de restauración",
+  "Origin (where the data was collected)":
+    "Origen (donde se recopilaron los datos)",
+  "Target region":
+    "Región de destino",
+  "Select region…":
+    "Seleccione la región…",
+  "Each cost is re-priced with its labor / materials / machinery shares: AdjustedCost = Σ (share × target index ÷ origin index) × cost. NTFP and carbon revenues are not changed. The bundled indices are illustrative — review them before use.":
+    "Cada costo se reajusta con sus participaciones de mano de obra / materiales / maquinaria: CostoAjustado = Σ (participación × índice de destino ÷ índice de origen) × costo. Los ingresos de PFNM y de carbono no cambian. Los índices incluidos son ilustrativos — revíselos antes de usarlos.",
+  "Hide price index table":
+    "Ocultar tabla de índices de precios",
+  "Edit price index table":
+    "Editar tabla de índices de precios",
+  "Region":
+    "Región",
+  "Remove region":
+    "Quitar región",
+  "New region":
+    "Nueva región",
+  "Add region":
+    "Agregar región",
+  "Reset to bundled values":
+    "Restablecer valores incluidos",
+  "Complete at least one method's costs to extrapolate.":
+    "Complete los costos de al menos un método para extrapolar.",
+  "Select an origin and a target region to compare.":
+    "Seleccione una región de origen y una de destino para comparar.",
+  "Total cost ({region})":
+    "Costo total ({region})",
+  "NPV ({region})":
+    "VAN ({region})",
+  "BCR ({region})":
+    "RBC ({region})",
+  "Export comparison (.xlsx)":
+    "Exportar comparación (.xlsx)",
+
+  // ── CBA results panel ─────────────────────────────────────────────────────
+  "Results in {currency}":
+    "Resultados en {currency}",
+  "Complete at least one method's costs to see results.":
+    "Complete los costos de al menos un método para ver los resultados.",
+  "Economic NPV ({rate} discount)":
+    "VAN económico (descuento de {rate})",
+  "NPV ({rate} discount)":
+    "VAN (descuento de {rate})",
+  "{horizon}-year NPV with non-hired labor and land at their opportunity cost":
+    "VAN a {horizon} años con la mano de obra no contratada y la tierra a su costo de oportunidad",
+  "{horizon}-year net present value":
+    "Valor actual neto a {horizon} años",
+  "Financial NPV ({rate} discount)":
+    "VAN financiero (descuento de {rate})",
+  "Cash outlays only · BCR {bcr} · IRR {irr}":
+    "Solo desembolsos · RBC {bcr} · TIR {irr}",
+  "BCR":
+    "RBC",
+  "Benefit-cost ratio":
+    "Relación beneficio-costo",
+  "IRR":
+    "TIR",
+  "Internal rate of return":
+    "Tasa interna de retorno",
+  "Payback Year":
+    "Año de Recuperación",
+  "Year {year}":
+    "Año {year}",
+  "Not reached":
+    "No alcanzado",
+  "Discounted payback":
+    "Recuperación descontada",
+  "Carbon Revenue":
+    "Ingresos de Carbono",
+  "{credits} tCO2/{area} credited ({rate} t/{area}/yr gross)":
+    "{credits} tCO2/{area} acreditadas ({rate} t/{area}/año bruto)",
+  "Cost per tCO2":
+    "Costo por tCO2",
+  "Discounted cost per tonne sequestered":
+    "Costo descontado por tonelada secuestrada",
+  "Annual Cost Components ({unit})":
+    "Componentes Anuales de Costo ({unit})",
+  "Stacked breakdown by implementation, maintenance, and constraint costs per year, plus any interaction adjustment, land opportunity cost and shadow-wage revaluation of non-hired labor.":
+    "Desglose anual apilado de los costos de implementación, mantenimiento y restricciones, más el eventual ajuste de interacción, el costo de oportunidad de la tierra y la revalorización de la mano de obra no contratada al salario sombra.",
+  "Constraints":
+    "Restricciones",
+  "Interaction adj.":
+    "Ajuste de interacción",
+  "Land opportunity cost":
+    "Costo de oportunidad de la tierra",
+  "Shadow labor adj.":
+    "Ajuste salario sombra",
+  "NPV Sensitivity to Discount Rate":
+    "Sensibilidad del VAN a la Tasa de Descuento",
+  "How different discount rate assumptions affect net present value.":
+    "Cómo distintas tasas de descuento afectan el valor actual neto.",
+  "NPV":
+    "VAN",
+  "NPV ({unit})":
+    "VAN ({unit})",
+  "Total Costs (undiscounted)":
+    "Costos Totales (sin descontar)",
+  "Total Costs (disc. {rate})":
+    "Costos Totales (desc. {rate})",
+  "of which Land Opportunity Cost (undiscounted)":
+    "de los cuales Costo de Oportunidad de la Tierra (sin descontar)",
+  "Non-Hired Labor in Costs (as entered)":
+    "Mano de Obra No Contratada en los Costos (según lo ingresado)",
+  "Total Benefits (undiscounted)":
+    "Beneficios Totales (sin descontar)",
+  "Total Benefits (disc. {rate})":
+    "Beneficios Totales (desc. {rate})",
+  "One-Way Sensitivity (±{pct}%)":
+    "Sensibilidad Univariada (±{pct}%)",
+  "Change in NPV when each driver moves down or up by {pct}% with everything else held at its point estimate; base NPV {npv}. Drivers are ranked by NPV swing.":
+    "Variación del VAN cuando cada factor baja o sube un {pct}% con todo lo demás en su estimación puntual; VAN base {npv}. Los factores se ordenan por amplitud del VAN.",
+  "No driver changes the NPV.":
+    "Ningún factor cambia el VAN.",
+  "{change} (NPV {npv})":
+    "{change} (VAN {npv})",
+  "Driver −{pct}%":
+    "Factor −{pct}%",
+  "Driver +{pct}%":
+    "Factor +{pct}%",
+  "Implementation cost":
+    "Costo de implementación",
+  "Maintenance — {activity}":
+    "Mantenimiento — {activity}",
+  "Maintenance cost":
+    "Costo de mantenimiento",
+  "Weed Control / Invasive Species":
+    "Control de Malezas / Especies Invasoras",
+  "Pest Control / Pest Infestation":
+    "Control de Plagas / Infestación de Plagas",
+  "NTFP price":
+    "Precio del PFNM",
+  "NTFP productivity":
+    "Productividad del PFNM",
+  "Discount rate":
+    "Tasa de descuento",
+  "Unlabelled":
+    "Sin etiqueta",
+
+  // ── Summary and reference ranges ──────────────────────────────────────────
+  "Reference range check":
+    "Verificación de rangos de referencia",
+  "All entered costs, NTFP prices and productivities are within the reference ranges.":
+    "Todos los costos, precios y productividades de PFNM ingresados están dentro de los rangos de referencia.",
+  "{count} value is outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valor está fuera del rango esperado para este ecosistema y método. Verifique las unidades y los montos anuales vs totales; mantenga el valor si es correcto.",
+  "{count} values are outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valores están fuera del rango esperado para este ecosistema y método. Verifique las unidades y los montos anuales vs totales; mantenga el valor si es correcto.",
+  "Entered":
+    "Ingresado",
+  "Expected range":
+    "Rango esperado",
+  "Deviation":
+    "Desviación",
+  "Source":
+    "Fuente",
+  "bundled":
+    "incluida",
+  "aggregated":
+    "agregada",
+  "{method} — Implementation cost":
+    "{method} — Costo de implementación",
+  "{method} — {activity}, years {from}–{to}":
+    "{method} — {activity}, años {from}–{to}",
+  "{method} — NTFP price":
+    "{method} — Precio del PFNM",
+  "{method} — NTFP productivity (average)":
+    "{method} — Productividad del PFNM (promedio)",
+  "Firebreak unit cost":
+    "Costo unitario del cortafuegos",
+  "Fencing unit cost":
+    "Costo unitario del cercado",
+  "Weed control unit cost":
+    "Costo unitario del control de malezas",
+  "Maintenance of regenerating individuals":
+    "Mantenimiento de los individuos en regeneración",
+  "Maintenance of NTFP species":
+    "Mantenimiento de las especies de PFNM",
+  "Monitoring General Maintenance Activities":
+    "Monitoreo y actividades generales de mantenimiento",
+  "{value} is {pct}% above the expected {range} ({source} range)":
+    "{value} está un {pct}% por encima del rango esperado {range} (rango {source})",
+  "{value} is {pct}% below the expected {range} ({source} range)":
+    "{value} está un {pct}% por debajo del rango esperado {range} (rango {source})",
+  "{value} is {pct}% above the expected {range} ({source} range for {ecosystem})":
+    "{value} está un {pct}% por encima del rango esperado {range} (rango {source} para {ecosystem})",
+  "{value} is {pct}% below the expected {range} ({source} range for {ecosystem})":
+    "{value} está un {pct}% por debajo del rango esperado {range} (rango {source} para {ecosystem})",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range).":
+    "{field}: {value} está un {pct}% por encima del rango esperado {range} (rango {source}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range).":
+    "{field}: {value} está un {pct}% por debajo del rango esperado {range} (rango {source}).",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range for {ecosystem}).":
+    "{field}: {value} está un {pct}% por encima del rango esperado {range} (rango {source} para {ecosystem}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range for {ecosystem}).":
+    "{field}: {value} está un {pct}% por debajo del rango esperado {range} (rango {source} para {ecosystem}).",
+  "Favorable":
+    "Favorable",
+  "Unfavorable":
+    "Desfavorable",
+  "Favorable:":
+    "Favorable:",
+  "Unfavorable:":
+    "Desfavorable:",
+  "Cost Breakdown ({unit})":
+    "Desglose de Costos ({unit})",
+  "Production Factors (%)":
+    "Factores de Producción (%)",
+  "Favorable & Unfavorable factor shares don't sum to 100%.":
+    "Las participaciones de los factores de los escenarios favorable y desfavorable no suman 100%.",
+  "Favorable factor shares don't sum to 100%.":
+    "Las participaciones de los factores del escenario favorable no suman 100%.",
+  "Unfavorable factor shares don't sum to 100%.":
+    "Las participaciones de los factores del escenario desfavorable no suman 100%.",
+  "Context Constraints & Additional Costs":
+    "Restricciones de Contexto y Costos Adicionales",
+  "Occurrences / Area":
+    "Ocurrencias / Área",
+  "Firebreak Area ({unit})":
+    "Área de Cortafuegos ({unit})",
+  "Total Cost ({unit})":
+    "Costo Total ({unit})",
+  "Total Additional Cost":
+    "Costo Adicional Total",
+  "Machinery Hours":
+    "Horas de Maquinaria",
+  "Cost Line":
+    "Línea de Costo",
+  "Machinery Cost ({unit})":
+    "Costo de Maquinaria ({unit})",
+  "Hours ({unit})":
+    "Horas ({unit})",
+  "Total over the horizon (plausible per year: ≤ {hours} {unit})":
+    "Total en el horizonte (plausible por año: ≤ {hours} {unit})",
+  "Enter the machinery unit cost per hour in Section 4 to derive the machinery hours.":
+    "Ingrese el costo unitario de maquinaria por hora en la Sección 4 para obtener las horas de maquinaria.",
+  "Unfavorable Scenario":
+    "Escenario Desfavorable",
+  "Favorable cost + Σ constraint costs (computed)":
+    "Costo favorable + Σ costos de las restricciones (calculado)",
+  "Declared unfavorable cost":
+    "Costo desfavorable declarado",
+  "Interaction adjustment (declared − computed)":
+    "Ajuste de interacción (declarado − calculado)",
+  "Use “Interpret as total and spread over years” in the method tab if it was a total.":
+    "Use “Interpretar como total y repartir entre los años” en la pestaña del método si era un total.",
+  "Firebreaks":
+    "Cortafuegos",
+
+  // ── Uncertainty analysis ──────────────────────────────────────────────────
+  "Uncertainty Analysis (Monte Carlo)":
+    "Análisis de Incertidumbre (Monte Carlo)",
+  "Give any input a distribution, then run the simulation. Inputs without a distribution keep their point estimate. The same seed always gives the same results.":
+    "Asigne una distribución a cualquier entrada y ejecute la simulación. Las entradas sin distribución mantienen su estimación puntual. La misma semilla siempre da los mismos resultados.",
+  "Input":
+    "Entrada",
+  "Point estimate":
+    "Estimación puntual",
+  "Distribution":
+    "Distribución",
+  "Parameters":
+    "Parámetros",
+  "None (point estimate)":
+    "Ninguna (estimación puntual)",
+  "Triangular":
+    "Triangular",
+  "± % band":
+    "Banda ± %",
+  "Minimum":
+    "Mínimo",
+  "Mode":
+    "Moda",
+  "Maximum":
+    "Máximo",
+  "min / mode / max":
+    "mín / moda / máx",
+  "Band":
+    "Banda",
+  "Check the distributions: for triangular inputs, min ≤ mode ≤ max.":
+    "Verifique las distribuciones: para entradas triangulares, mín ≤ moda ≤ máx.",
+  "Iterations":
+    "Iteraciones",
+  "Seed":
+    "Semilla",
+  "Run simulation":
+    "Ejecutar simulación",
+  "NPV P10":
+    "VAN P10",
+  "NPV P50":
+    "VAN P50",
+  "NPV P90":
+    "VAN P90",
+  "P(NPV > 0)":
+    "P(VAN > 0)",
+  "{runs} runs, seed {seed} — no input has a distribution, so every run is identical.":
+    "{runs} ejecuciones, semilla {seed} — ninguna entrada tiene distribución, así que todas las ejecuciones son idénticas.",
+  "{runs} runs, seed {seed}.":
+    "{runs} ejecuciones, semilla {seed}.",
+  "IRR P50: {irr} · BCR P50: {bcr}":
+    "TIR P50: {irr} · RBC P50: {bcr}",
+  "Runs":
+    "Ejecuciones",
+  "Simulated net present value":
+    "Valor actual neto simulado",
+  "Maintenance cost (total)":
+    "Costo de mantenimiento (total)",
+  "NTFP productivity (average)":
+    "Productividad del PFNM (promedio)",
+  "NTFP revenue (total)":
+    "Ingresos del PFNM (total)",
+  "Carbon price":
+    "Precio del carbono",
+
+  // ── CBA external assumptions ──────────────────────────────────────────────
+  "These parameters are not asked of the respondent. Change them to test other assumptions; the values used are saved with the form and written to the Parameters sheet of the CBA workbook.":
+    "Estos parámetros no se preguntan al encuestado. Cámbielos para probar otros supuestos; los valores usados se guardan con el formulario y se escriben en la hoja Parámetros del libro del ACB.",
+  "Discounting":
+    "Descuento",
+  "Sensitivity Discount Rates":
+    "Tasas de Descuento de la Sensibilidad",
+  "Remove rate":
+    "Quitar tasa",
+  "+ Add rate":
+    "+ Agregar tasa",
+  "Carbon":
+    "Carbono",
+  "Timing of Costs & Revenues":
+    "Calendario de Costos e Ingresos",
+  "Land Opportunity Cost":
+    "Costo de Oportunidad de la Tierra",
+  "Charges the regional land lease from Section 4 ({lease}/{area}/year) as a cost in every year, so the headline NPV becomes the economic NPV. The financial NPV, without the forgone rent, is reported next to it.":
+    "Carga el arriendo regional de la tierra de la Sección 4 ({lease}/{area}/año) como costo en cada año, de modo que el VAN principal pasa a ser el VAN económico. El VAN financiero, sin la renta a la que se renuncia, se muestra al lado.",
+  "Include the land opportunity cost in the cash flow":
+    "Incluir el costo de oportunidad de la tierra en el flujo de caja",
+  "Land Cost Starts":
+    "Inicio del Costo de la Tierra",
+  "Year 1 (from implementation)":
+    "Año 1 (desde la implementación)",
+  "Year 2 (after implementation)":
+    "Año 2 (después de la implementación)",
+  "Land Lease Escalation":
+    "Reajuste del Arriendo de la Tierra",
+  "%/yr":
+    "%/año",
+  "Annual real change of the land lease; 0 keeps it flat":
+    "Variación real anual del arriendo de la tierra; 0 lo mantiene constante",
+  "Non-Hired Labor":
+    "Mano de Obra No Contratada",
+  "The non-hired share of each phase (Section 4) applied to the labor share of the implementation, maintenance and constraint costs is treated as unpaid: the financial view leaves it out of the cash outflows, the economic view values it at the shadow wage below.":
+    "La parte no contratada de cada fase (Sección 4), aplicada a la parte de mano de obra de los costos de implementación, mantenimiento y restricciones, se trata como no remunerada: la visión financiera la excluye de los desembolsos y la visión económica la valora al salario sombra indicado abajo.",
+  "Shadow Wage":
+    "Salario Sombra",
+  "% of hired rate":
+    "% del jornal contratado",
+  "≈ {shadow}/day against a hired rate of {hired}/day; 100 values non-hired labor like hired labor":
+    "≈ {shadow}/día frente a un jornal contratado de {hired}/día; 100 valora la mano de obra no contratada como la contratada",
+  "100 values non-hired labor like hired labor":
+    "100 valora la mano de obra no contratada como la contratada",
+  "Reset to defaults":
+    "Restablecer valores predeterminados",
+
+  // ── Saved models library ──────────────────────────────────────────────────
+  "Saved Models ({count})":
+    "Modelos Guardados ({count})",
+  "Could not load the saved model: {error}":
+    "No se pudo cargar el modelo guardado: {error}",
+  "Delete \"{name}\"? This cannot be undone.":
+    "¿Eliminar \"{name}\"? Esto no se puede deshacer.",
+  "Delete {count} saved questionnaire? This cannot be undone.":
+    "¿Eliminar {count} cuestionario guardado? Esto no se puede deshacer.",
+  "Delete {count} saved questionnaires? This cannot be undone.":
+    "¿Eliminar {count} cuestionarios guardados? Esto no se puede deshacer.",
+  "Search name or tag":
+    "Buscar nombre o etiqueta",
+  "All ecosystems":
+    "Todos los ecosistemas",
+  "From":
+    "Desde",
+  "To":
+    "Hasta",
+  "Sort by":
+    "Ordenar por",
+  "Sort: {key}":
+    "Ordenar: {key}",
+  "Last saved":
+    "Último guardado",
+  "Collection date":
+    "Fecha de recolección",
+  "Headline NPV":
+    "VAN principal",
+  "Toggle sort direction":
+    "Invertir el orden",
+  "↓ Desc":
+    "↓ Desc",
+  "↑ Asc":
+    "↑ Asc",
+  "Select all shown":
+    "Seleccionar todos los mostrados",
+  "{shown} of {total} shown · {selected} selected":
+    "{shown} de {total} mostrados · {selected} seleccionados",
+  "Export selected":
+    "Exportar seleccionados",
+  "Compare the selected questionnaires side by side":
+    "Comparar los cuestionarios seleccionados lado a lado",
+  "Compare selected":
+    "Comparar seleccionados",
+  "Aggregate the selected respondents into reference values":
+    "Agregar los encuestados seleccionados en valores de referencia",
+  "Aggregate selected":
+    "Agregar seleccionados",
+  "Delete selected":
+    "Eliminar seleccionados",
+  "Select {name}":
+    "Seleccionar {name}",
+  "Tags, comma-separated":
+    "Etiquetas, separadas por comas",
+  "Save":
+    "Guardar",
+  "Cancel":
+    "Cancelar",
+  "No identification":
+    "Sin identificación",
+  "collected {date} · saved {saved}":
+    "recolectado el {date} · guardado el {saved}",
+  "{complete}/{answered} methods complete":
+    "{complete}/{answered} métodos completos",
+  "Best NPV {npv}/ha ({method})":
+    "Mejor VAN {npv}/ha ({method})",
+  "NPV not available":
+    "VAN no disponible",
+  "Load into form":
+    "Cargar en el formulario",
+  "Load":
+    "Cargar",
+  "Rename / edit tags":
+    "Renombrar / editar etiquetas",
+  "Duplicate":
+    "Duplicar",
+  "Delete":
+    "Eliminar",
+  "No saved questionnaire matches the filters.":
+    "Ningún cuestionario guardado coincide con los filtros.",
+
+  // ── Respondent aggregation ────────────────────────────────────────────────
+  "Could not read:":
+    "No se pudo leer:",
+  "No group has enough respondents (at least 3 with a positive weight) to derive reference ranges.":
+    "Ningún grupo tiene suficientes encuestados (al menos 3 con peso positivo) para derivar rangos de referencia.",
+  "Replace the stored aggregated reference ranges with {count} ranges from these respondents?":
+    "¿Reemplazar los rangos de referencia agregados guardados por {count} rangos de estos encuestados?",
+  "Aggregating {count} respondents":
+    "Agregando {count} encuestados",
+  "Add exported JSON or Excel questionnaires":
+    "Añadir cuestionarios exportados en JSON o Excel",
+  "Add files":
+    "Añadir archivos",
+  "Export Aggregated":
+    "Exportar Agregado",
+  "Use these groups as reference ranges for the outlier check (Q1 − 1.5·IQR to Q3 + 1.5·IQR)":
+    "Usar estos grupos como rangos de referencia para la verificación de valores atípicos (Q1 − 1,5·RIC a Q3 + 1,5·RIC)",
+  "Use as reference ranges":
+    "Usar como rangos de referencia",
+  "Close aggregation":
+    "Cerrar agregación",
+  "Close":
+    "Cerrar",
+  "Weight":
+    "Peso",
+  "Remove from aggregation":
+    "Quitar de la agregación",
+  "Group (ecosystem · country · method)":
+    "Grupo (ecosistema · país · método)",
+  "Weighted statistics over the group's respondents. ▲ / ▼ mark a respondent's value above / below the group's interquartile range (Q1–Q3).":
+    "Estadísticas ponderadas de los encuestados del grupo. ▲ / ▼ marcan un valor por encima / por debajo del rango intercuartílico del grupo (Q1–Q3).",
+  "no ecosystem":
+    "sin ecosistema",
+  "no country":
+    "sin país",
+  "Mean":
+    "Media",
+  "Median":
+    "Mediana",
+  "IQR (Q1–Q3)":
+    "RIC (Q1–Q3)",
+  "Min":
+    "Mín.",
+  "Max":
+    "Máx.",
+  "No answered method to aggregate. Add respondents with a positive weight.":
+    "Ningún método respondido para agregar. Añada encuestados con peso positivo.",
+
+  // ── Questionnaire comparison ──────────────────────────────────────────────
+  "Comparing {count} questionnaires":
+    "Comparando {count} cuestionarios",
+  "Close comparison":
+    "Cerrar comparación",
+  "Highlight differences above (% of mean)":
+    "Resaltar diferencias superiores a (% de la media)",
+  "{flagged} of {total} items differ by more than {threshold}% between the answers. “—” means the method is disabled in that questionnaire.":
+    "{flagged} de {total} ítems difieren en más de {threshold}% entre las respuestas. “—” indica que el método está desactivado en ese cuestionario.",
+  "Spread":
+    "Dispersión",
+  "Cumulative Discounted Net Cash Flow — {method}":
+    "Flujo de Caja Neto Descontado Acumulado — {method}",
+  "Each line ends at that questionnaire's NPV. Models without a cost for this method are omitted.":
+    "Cada línea termina en la VAN de ese cuestionario. Se omiten los modelos sin costo para este método.",
+  "No questionnaire has an implementation cost for this method.":
+    "Ningún cuestionario tiene costo de implementación para este método.",
+  "Year":
+    "Año",
+  "{name} (NPV {npv})":
+    "{name} (VAN {npv})",
+  "Headline indicators":
+    "Indicadores principales",
+  "Indicator":
+    "Indicador",
+  "NPV (US$/ha)":
+    "VAN (US$/ha)",
+  "Payback year":
+    "Año de recuperación",
+  "Horizon (years)":
+    "Horizonte (años)",
+  "NTFP":
+    "PFNM",
+  "Context constraints":
+    "Restricciones de contexto",
+  "Labor share":
+    "Participación de la mano de obra",
+  "Materials share":
+    "Participación de los materiales",
+  "Machinery share":
+    "Participación de la maquinaria",
+  "Maintenance total":
+    "Mantenimiento total",
+  "Other / unlabelled activities":
+    "Otras actividades / sin etiqueta",
+  "Implementation hired labor":
+    "Mano de obra contratada en la implementación",
+  "Maintenance hired labor":
+    "Mano de obra contratada en el mantenimiento",
+  "Hired labor daily wage":
+    "Jornal de la mano de obra contratada",
+  "Machinery unit cost":
+    "Costo unitario de la maquinaria",
+  "Land lease":
+    "Arrendamiento de la tierra",
+  "Female share of labor":
+    "Participación femenina en la mano de obra",
+  "{item} unit cost":
+    "{item}: costo unitario",
+  "{item} occurrences":
+    "{item}: ocurrencias",
+  "{item} fenced area":
+    "{item}: área cercada",
+  "US$/ha (total)":
+    "US$/ha (total)",
+  "kg/ha/yr":
+    "kg/ha/año",
+  "US$/day":
+    "US$/día",
+  "US$/hour":
+    "US$/hora",
+  "US$/ha/yr":
+    "US$/ha/año",
+
+  // ── CBA workbook ──────────────────────────────────────────────────────────
+  "COST-BENEFIT ANALYSIS — KEY PARAMETERS":
+    "ANÁLISIS COSTO-BENEFICIO — PARÁMETROS PRINCIPALES",
+  "User":
+    "Usuario",
+  "Time Horizon (years)":
+    "Horizonte Temporal (años)",
+  "EXTERNAL ASSUMPTIONS":
+    "SUPUESTOS EXTERNOS",
+  "Discount Rate":
+    "Tasa de Descuento",
+  "Carbon Price (US$/tCO2)":
+    "Precio del Carbono (US$/tCO2)",
+  "Carbon Price Escalation (%/yr)":
+    "Incremento del Precio del Carbono (%/año)",
+  "Carbon Buffer Pool (%)":
+    "Reserva de Amortiguación de Carbono (%)",
+  "Carbon Seq. Rate (tCO2/ha/yr)":
+    "Tasa de Secuestro de Carbono (tCO2/ha/año)",
+  "Carbon Fallback Rate (tCO2/ha/yr)":
+    "Tasa de Carbono por Defecto (tCO2/ha/año)",
+  "Carbon Growth Curve":
+    "Curva de Crecimiento del Carbono",
+  "NTFP Maturation Lag (years)":
+    "Retardo de Maduración del PFNM (años)",
+  "Fencing Upfront Share (%)":
+    "Proporción Inicial del Cercado (%)",
+  "Charged":
+    "Cobrado",
+  "Not charged":
+    "No cobrado",
+  "Land Lease (US$/ha/yr)":
+    "Arrendamiento de la Tierra (US$/ha/año)",
+  "After implementation (year 2)":
+    "Después de la implementación (año 2)",
+  "Year 1":
+    "Año 1",
+  "Land Cost Escalation (%/yr)":
+    "Incremento del Costo de la Tierra (%/año)",
+  "Non-Hired Labor Shadow Wage (% of hired rate)":
+    "Salario Sombra de la Mano de Obra No Contratada (% del jornal contratado)",
+  "Hired Labor Rate (US$/day)":
+    "Jornal de la Mano de Obra Contratada (US$/día)",
+  "Machinery Unit Cost (US$/hour)":
+    "Costo Unitario de la Maquinaria (US$/hora)",
+  "Tornado Sensitivity Flex (±%)":
+    "Variación de la Sensibilidad Tornado (±%)",
+  "CONTEXT CONSTRAINTS":
+    "RESTRICCIONES DE CONTEXTO",
+  "Total Cost":
+    "Costo Total",
+  "Impl. Cost (US$/ha)":
+    "Costo de Impl. (US$/ha)",
+  "Maint. Cost (US$/ha)":
+    "Costo de Mant. (US$/ha)",
+  "Land Opportunity Cost {horizon} (US$/ha)":
+    "Costo de Oportunidad de la Tierra {horizon} (US$/ha)",
+  "Total Cost {horizon} (US$/ha)":
+    "Costo Total {horizon} (US$/ha)",
+  "NTFP Revenue {horizon} (US$/ha)":
+    "Ingresos de PFNM {horizon} (US$/ha)",
+  "Carbon Benefit {horizon} (US$/ha)":
+    "Beneficio de Carbono {horizon} (US$/ha)",
+  "Carbon Sequestered {horizon} (tCO2/ha)":
+    "Carbono Secuestrado {horizon} (tCO2/ha)",
+  "Carbon Credits {horizon} (tCO2/ha)":
+    "Créditos de Carbono {horizon} (tCO2/ha)",
+  "Total Benefits {horizon} (US$/ha)":
+    "Beneficios Totales {horizon} (US$/ha)",
+  "NPV @{rate} (US$/ha)":
+    "VAN al {rate} (US$/ha)",
+  "Payback (year)":
+    "Recuperación (año)",
+  "Carbon Seq. (tCO2/ha/yr)":
+    "Secuestro de Carbono (tCO2/ha/año)",
+  "Cost per tCO2 (US$)":
+    "Costo por tCO2 (US$)",
+  "Financial NPV @{rate} (US$/ha)":
+    "VAN Financiero al {rate} (US$/ha)",
+  "Financial IRR":
+    "TIR Financiera",
+  "Financial BCR":
+    "RBC Financiera",
+  "Non-Hired Labor {horizon} (US$/ha)":
+    "Mano de Obra No Contratada {horizon} (US$/ha)",
+  "Discount Period":
+    "Período de Descuento",
+  "Constraint Cost":
+    "Costo de las Restricciones",
+  "Interaction Adjustment":
+    "Ajuste de Interacción",
+  "Non-Hired Labor (as entered)":
+    "Mano de Obra No Contratada (como se ingresó)",
+  "Shadow Labor Adjustment":
+    "Ajuste del Salario Sombra",
+  "NTFP Productivity":
+    "Productividad de PFNM",
+  "Carbon Sequestration (tCO2)":
+    "Secuestro de Carbono (tCO2)",
+  "Carbon Credits (tCO2)":
+    "Créditos de Carbono (tCO2)",
+  "Carbon Benefit":
+    "Beneficio de Carbono",
+  "Cumulative Net":
+    "Neto Acumulado",
+  "Cumulative Discounted":
+    "Descontado Acumulado",
+  "Machinery Hours (h/ha)":
+    "Horas de Maquinaria (h/ha)",
+  "KEY INDICATORS":
+    "INDICADORES PRINCIPALES",
+  "NPV ({rate}, economic)":
+    "VAN ({rate}, económico)",
+  "Financial NPV ({rate}, cash outlays)":
+    "VAN Financiero ({rate}, desembolsos)",
+  "Carbon Sequestered (tCO2/ha)":
+    "Carbono Secuestrado (tCO2/ha)",
+  "Carbon Revenue (US$/ha)":
+    "Ingresos de Carbono (US$/ha)",
+  "Interaction Adjustment (US$/ha)":
+    "Ajuste de Interacción (US$/ha)",
+  "Land Opportunity Cost (US$/ha)":
+    "Costo de Oportunidad de la Tierra (US$/ha)",
+  "Non-Hired Labor in Costs (US$/ha)":
+    "Mano de Obra No Contratada en los Costos (US$/ha)",
+  "Rank":
+    "Posición",
+  "Driver":
+    "Factor",
+  "Base Value":
+    "Valor Base",
+  "Value −{flex}":
+    "Valor −{flex}",
+  "Value +{flex}":
+    "Valor +{flex}",
+  "Base NPV":
+    "VAN Base",
+  "NPV @ −{flex}":
+    "VAN a −{flex}",
+  "NPV @ +{flex}":
+    "VAN a +{flex}",
+  "NPV Swing":
+    "Amplitud de la VAN",
+  "Total (h/ha)":
+    "Total (h/ha)",
+  "Busiest Maintenance Year":
+    "Año de Mantenimiento Más Intenso",
+  "Maintenance in Busiest Year (h/ha)":
+    "Mantenimiento en el Año Más Intenso (h/ha)",
+  "Plausible Max per Year (h/ha)":
+    "Máximo Plausible por Año (h/ha)",
+  "MACHINERY HOURS — machinery share of each cost ÷ machinery unit cost ({rate} US$/hour)":
+    "HORAS DE MAQUINARIA — proporción de maquinaria de cada costo ÷ costo unitario de la maquinaria ({rate} US$/hora)",
+  "MACHINERY HOURS BY YEAR (h/ha)":
+    "HORAS DE MAQUINARIA POR AÑO (h/ha)",
+  "MONTE CARLO SIMULATION":
+    "SIMULACIÓN DE MONTE CARLO",
+  "Sampled Inputs":
+    "Entradas Muestreadas",
+  "NPV Mean":
+    "VAN Media",
+  "IRR P10":
+    "TIR P10",
+  "IRR P50":
+    "TIR P50",
+  "IRR P90":
+    "TIR P90",
+  "IRR Mean":
+    "TIR Media",
+  "BCR P10":
+    "RBC P10",
+  "BCR P50":
+    "RBC P50",
+  "BCR P90":
+    "RBC P90",
+  "BCR Mean":
+    "RBC Media",
+  "Run":
+    "Ejecución",
+  "NPV — {method}":
+    "VAN — {method}",
+  "REGIONAL COST EXTRAPOLATION":
+    "EXTRAPOLACIÓN REGIONAL DE COSTOS",
+  "Labor Index":
+    "Índice de Mano de Obra",
+  "Materials Index":
+    "Índice de Materiales",
+  "Machinery Index":
+    "Índice de Maquinaria",
+  "Origin: {region}":
+    "Origen: {region}",
+  "Target: {region}":
+    "Destino: {region}",
+  "Cost Row":
+    "Fila de Costo",
+  "Labor %":
+    "Mano de Obra %",
+  "Materials %":
+    "Materiales %",
+  "Machinery %":
+    "Maquinaria %",
+  "Cost Factor":
+    "Factor de Costo",
+  "Total Cost ({region})":
+    "Costo Total ({region})",
+  "NPV @{rate} ({region})":
+    "VAN al {rate} ({region})",
+  "NPV Change":
+    "Variación de la VAN",
+  "IRR ({region})":
+    "TIR ({region})",
+};
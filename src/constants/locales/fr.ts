@@ -0,0 +1,2119 @@
+/**
+ * French messages, keyed by the English text (see utils/i18n).
+ */
+
+export const FR_MESSAGES: Record<string, string> = {
+  // ── Application ───────────────────────────────────────────────────────────
+  "Restoration Cost-Benefit Questionnaire":
+    "Questionnaire coûts-bénéfices de la restauration",
+  "Restoration Calculator icon":
+    "Icône du calculateur de restauration",
+  "A project by":
+    "Un projet de",
+  "Interface language":
+    "Langue de l'interface",
+  "Unsaved draft found":
+    "Brouillon non enregistré trouvé",
+  "A questionnaire autosaved on {date}{ecosystem} was not saved or exported. Restore it to continue where you left off.":
+    "Un questionnaire enregistré automatiquement le {date}{ecosystem} n'a pas été enregistré ni exporté. Restaurez-le pour reprendre là où vous vous étiez arrêté.",
+  "Restore draft":
+    "Restaurer le brouillon",
+  "Discard":
+    "Ignorer",
+  "Could not restore the draft: {error}":
+    "Impossible de restaurer le brouillon : {error}",
+
+  // ── Instructions ──────────────────────────────────────────────────────────
+  "Please read before answering":
+    "À lire avant de répondre",
+  "Each questionnaire entry corresponds to a single ecosystem. GPS coordinates of any area that represents the model in question may be used.":
+    "Chaque questionnaire correspond à un seul écosystème. Les coordonnées GPS de toute zone représentative du modèle concerné peuvent être utilisées.",
+  "The restoration method is defined based on soil conditions and the availability of naturally regenerating seedlings. The analysis horizon is {horizon} years (10–50, set in Project Identification). Before starting, indicate which methods have no cost data available — the corresponding tabs will be removed from the form. All selected methods must be fully completed.":
+    "La méthode de restauration est définie selon l'état du sol et la disponibilité de semis issus de la régénération naturelle. L'horizon d'analyse est de {horizon} ans (10–50, défini dans l'Identification du projet). Avant de commencer, indiquez les méthodes pour lesquelles aucune donnée de coût n'est disponible — les onglets correspondants seront retirés du formulaire. Toutes les méthodes retenues doivent être entièrement renseignées.",
+  "For each method, fill in Implementation (Year 1) and Maintenance (Years 2–{horizon}):":
+    "Pour chaque méthode, renseignez la mise en œuvre (année 1) et l'entretien (années 2–{horizon}) :",
+  "Basic Implementation Costs (Year 1):":
+    "Coûts de mise en œuvre de base (année 1) :",
+  "Include the minimum cost required to initiate restoration under the method's conditions. For ANR/50% Enrichment, for example, this includes all base natural regeneration activities plus localized enrichment planting at 50% intensity (seedling acquisition, planting labor, and localized soil correction).":
+    "Incluez le coût minimal nécessaire pour lancer la restauration dans les conditions de la méthode. Pour RNA/Enrichissement 50 %, par exemple, cela comprend toutes les activités de base de régénération naturelle ainsi que la plantation d'enrichissement localisée à 50 % d'intensité (achat de plants, main-d'œuvre de plantation et correction localisée du sol).",
+  "Do not include:":
+    "Ne pas inclure :",
+  "invasive species control, fencing, fire management, or any other activities beyond basic implementation — these must be modeled as constraint costs in Section 3.":
+    "la lutte contre les espèces envahissantes, les clôtures, la gestion des feux ou toute autre activité au-delà de la mise en œuvre de base — ces éléments doivent être modélisés comme coûts de contrainte dans la section 3.",
+  "Basic Maintenance Costs (Years 2–{horizon}):":
+    "Coûts d'entretien de base (années 2–{horizon}) :",
+  "Enter the total accumulated cost over the entire maintenance period (Years 2 to {horizon}), not the annual cost. Include minimal follow-up activities such as survival checks, limited replacement of failed seedlings, NTFP harvesting, and light monitoring.":
+    "Saisissez le coût total cumulé sur toute la période d'entretien (années 2 à {horizon}), et non le coût annuel. Incluez les activités de suivi minimales : contrôles de survie, remplacement limité des plants morts, récolte des PFNL et suivi léger.",
+  "invasive species control, fencing, firebreak maintenance, pest management, or any other costs related to external constraints — these must be modeled separately in Section 3.":
+    "la lutte contre les espèces envahissantes, les clôtures, l'entretien des pare-feu, la lutte contre les ravageurs ou tout autre coût lié à des contraintes externes — ces éléments doivent être modélisés séparément dans la section 3.",
+  "The form allows you to split the maintenance period into segments with different costs (e.g., more intensive early years vs. later years). The chart updates in real time as segments are added.":
+    "Le formulaire permet de découper la période d'entretien en segments de coûts différents (p. ex. premières années plus intensives vs années suivantes). Le graphique se met à jour en temps réel à mesure que les segments sont ajoutés.",
+  "Context Constraints & Additional Costs (Section 3):":
+    "Contraintes de contexte et coûts additionnels (section 3) :",
+  "Given an unfavorable scenario with contextual constraints, estimate the additional cost required to overcome those constraints and achieve the same level of ecological success as in a favorable scenario. These costs are the same across all methods, so this section is filled in only once. Pay attention to the unit of each cost field.":
+    "Dans un scénario défavorable présentant des contraintes de contexte, estimez le coût additionnel nécessaire pour les surmonter et atteindre le même niveau de réussite écologique que dans un scénario favorable. Ces coûts sont identiques pour toutes les méthodes : cette section n'est donc remplie qu'une seule fois. Faites attention à l'unité de chaque champ de coût.",
+  "The system automatically generates a Summary & Validation at the end with all calculations. Watch out for the following common errors flagged by the form:":
+    "Le système génère automatiquement, à la fin, un Résumé et validation avec tous les calculs. Attention aux erreurs courantes suivantes signalées par le formulaire :",
+  "Percentage distributions that do not sum to 100% in any section":
+    "Répartitions en pourcentage dont la somme n'est pas de 100 % dans une section",
+  "Confusion between annual cost and total accumulated cost in the maintenance section":
+    "Confusion entre coût annuel et coût total cumulé dans la section entretien",
+  "Inclusion of constraint costs (fire, fencing, invasive species, pests) within basic costs — these must appear exclusively in Section 3":
+    "Inclusion de coûts de contrainte (feu, clôtures, espèces envahissantes, ravageurs) dans les coûts de base — ils doivent figurer uniquement dans la section 3",
+  "Leaving methods incomplete without marking them as having no data at the beginning of Section 2":
+    "Laisser des méthodes incomplètes sans les marquer comme sans données au début de la section 2",
+
+  // ── Form actions ──────────────────────────────────────────────────────────
+  "Name for this questionnaire in the library:":
+    "Nom de ce questionnaire dans la bibliothèque :",
+  "Could not save to the library: {error}":
+    "Impossible d'enregistrer dans la bibliothèque : {error}",
+  "Could not import the Excel file: {error}":
+    "Impossible d'importer le fichier Excel : {error}",
+  "Invalid JSON file. Please select a valid form data file.":
+    "Fichier JSON non valide. Sélectionnez un fichier de données de formulaire valide.",
+  "Loaded from an older format version. Review these fields:":
+    "Chargé depuis une version de format plus ancienne. Vérifiez ces champs :",
+  "Excel file imported with {count} issue:":
+    "Fichier Excel importé avec {count} problème :",
+  "Excel file imported with {count} issues:":
+    "Fichier Excel importé avec {count} problèmes :",
+  "Dismiss":
+    "Fermer",
+  "…and {count} more":
+    "…et {count} de plus",
+  "Please complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Complétez au moins un onglet de méthode (coûts et répartitions de mise en œuvre et d'entretien) avant d'enregistrer ou d'exporter.",
+  "Are you sure you want to reset the form? All unsaved data will be lost.":
+    "Voulez-vous vraiment réinitialiser le formulaire ? Toutes les données non enregistrées seront perdues.",
+  "Reset Form":
+    "Réinitialiser le formulaire",
+  "Overwrite \"{name}\" in the library":
+    "Remplacer « {name} » dans la bibliothèque",
+  "Save a new entry in the library":
+    "Enregistrer une nouvelle entrée dans la bibliothèque",
+  "Update in Library":
+    "Mettre à jour dans la bibliothèque",
+  "Save to Library":
+    "Enregistrer dans la bibliothèque",
+  "Save as Copy":
+    "Enregistrer une copie",
+  "Save Form":
+    "Enregistrer le formulaire",
+  "Load Form":
+    "Charger un formulaire",
+  "Export your data:":
+    "Exportez vos données :",
+  "Export Excel":
+    "Exporter en Excel",
+
+  // ── Issues panel ──────────────────────────────────────────────────────────
+  "No issues found by the consistency checks.":
+    "Aucun problème détecté par les contrôles de cohérence.",
+  "Issues":
+    "Problèmes",
+  "{count} error":
+    "{count} erreur",
+  "{count} errors":
+    "{count} erreurs",
+  "{count} warning":
+    "{count} avertissement",
+  "{count} warnings":
+    "{count} avertissements",
+  "{count} note":
+    "{count} remarque",
+  "{count} notes":
+    "{count} remarques",
+  "Hide":
+    "Masquer",
+  "Show all":
+    "Tout afficher",
+  "Go to field":
+    "Aller au champ",
+
+  // ── Section titles ────────────────────────────────────────────────────────
+  "0. User Identification":
+    "0. Identification de l'utilisateur",
+  "Tell us who is filling in this questionnaire":
+    "Indiquez qui remplit ce questionnaire",
+  "1. Project Identification":
+    "1. Identification du projet",
+  "Tell us about the restoration project you are evaluating":
+    "Présentez le projet de restauration que vous évaluez",
+  "2. Context & Scenario Definition":
+    "2. Contexte et définition du scénario",
+  "Define the restoration method and local conditions":
+    "Définissez la méthode de restauration et les conditions locales",
+  "3. Context Constraints & Additional Costs":
+    "3. Contraintes de contexte et coûts additionnels",
+  "Costs that apply independently of the restoration method":
+    "Coûts qui s'appliquent quelle que soit la méthode de restauration",
+  "4. Labor Breakdown & Machinery":
+    "4. Répartition de la main-d'œuvre et machines",
+  "Hired Labour vs Non Hired Labour — by phase":
+    "Main-d'œuvre salariée vs non salariée — par phase",
+  "Summary & Validation":
+    "Résumé et validation",
+  "Auto-generated summary — review data consistency before saving":
+    "Résumé généré automatiquement — vérifiez la cohérence des données avant d'enregistrer",
+  "CBA External Assumptions":
+    "Hypothèses externes de l'ACB",
+  "Analyst parameters used by the cost-benefit analysis — not part of the questionnaire":
+    "Paramètres de l'analyste utilisés par l'analyse coûts-bénéfices — hors questionnaire",
+  "Results: Cost-Benefit Analysis":
+    "Résultats : analyse coûts-bénéfices",
+  "Regional Cost Extrapolation":
+    "Extrapolation régionale des coûts",
+  "Re-price this questionnaire for another country or region using local price indices":
+    "Réévaluez ce questionnaire pour un autre pays ou une autre région à l'aide d'indices de prix locaux",
+
+  // ── Identification ────────────────────────────────────────────────────────
+  "Your Name":
+    "Votre nom",
+  "e.g., João Silva":
+    "p. ex. João Silva",
+  "Date of Data Collection":
+    "Date de collecte des données",
+  "Respondent Name":
+    "Nom du répondant",
+  "e.g., Maria Oliveira":
+    "p. ex. Maria Oliveira",
+  "Ecosystem":
+    "Écosystème",
+  "Select ecosystem…":
+    "Sélectionnez l'écosystème…",
+  "Country":
+    "Pays",
+  "e.g., Brazil":
+    "p. ex. Brésil",
+  "City":
+    "Ville",
+  "e.g., São Paulo":
+    "p. ex. São Paulo",
+  "Analysis Time Horizon":
+    "Horizon d'analyse",
+  "years":
+    "ans",
+  "Between {min} and {max} years. Year 1 is implementation; maintenance and revenues run from year 2 to the last year.":
+    "Entre {min} et {max} ans. L'année 1 est la mise en œuvre ; l'entretien et les recettes courent de l'année 2 à la dernière année.",
+  "Each model specification applies to one ecosystem. If you filled the questionnaire based on an online interview, consider GPS coordinates of any area that could represent the model you are referring to.":
+    "Chaque spécification de modèle s'applique à un écosystème. Si vous avez rempli le questionnaire lors d'un entretien en ligne, utilisez les coordonnées GPS de toute zone pouvant représenter le modèle concerné.",
+  "GPS Coordinates":
+    "Coordonnées GPS",
+  "Latitude (Y)":
+    "Latitude (Y)",
+  "Longitude (X)":
+    "Longitude (X)",
+  "Locating…":
+    "Localisation…",
+  "Set GPS":
+    "Définir le GPS",
+  "Auto-detect from browser":
+    "Détecter via le navigateur",
+  "Enter manually":
+    "Saisir manuellement",
+  "Location access was denied. Please allow it in your browser settings.":
+    "L'accès à la position a été refusé. Autorisez-le dans les paramètres du navigateur.",
+  "Unable to retrieve GPS coordinates.":
+    "Impossible d'obtenir les coordonnées GPS.",
+  "Click \"Set GPS\" to choose between auto-detecting from your browser or entering coordinates manually.":
+    "Cliquez sur « Définir le GPS » pour choisir entre la détection via le navigateur et la saisie manuelle des coordonnées.",
+
+  // ── Ecosystems ────────────────────────────────────────────────────────────
+  "Arid or Semi-Arid Zones":
+    "Zones arides ou semi-arides",
+  "Savanna or Dry Forest":
+    "Savane ou forêt sèche",
+  "Mountaine Forest":
+    "Forêt de montagne",
+  "Tropical Forest":
+    "Forêt tropicale",
+  "Mangrove":
+    "Mangrove",
+  "Subtropical Forest":
+    "Forêt subtropicale",
+
+  // ── Restoration methods ───────────────────────────────────────────────────
+  "ANR/50% Enrichment":
+    "RNA/Enrichissement 50 %",
+  "ANR/50% Enrichment (with NTFP)":
+    "RNA/Enrichissement 50 % (avec PFNL)",
+  "Seed Dispersal":
+    "Semis direct",
+  "Seed Dispersal (with NTFP)":
+    "Semis direct (avec PFNL)",
+  "Full Seedling Plantation":
+    "Plantation complète de plants",
+  "Full Seedling Plantation NTFP (agroforestry)":
+    "Plantation complète de plants avec PFNL (agroforesterie)",
+
+  // ── Method descriptions ───────────────────────────────────────────────────
+  "This scenario assumes a slightly less favorable context than a context for pure natural regeneration, with minor soil degradation and moderate availability of natural regeneration sources.":
+    "Ce scénario suppose un contexte un peu moins favorable que celui de la régénération naturelle pure, avec une légère dégradation du sol et une disponibilité modérée de sources de régénération naturelle.",
+  "Enrichment planting is applied at 50% intensity to support regeneration and accelerate structural recovery.":
+    "La plantation d'enrichissement est appliquée à 50 % d'intensité pour soutenir la régénération et accélérer la reconstitution de la structure.",
+  "Enrichment intensity is fixed at 50%.":
+    "L'intensité d'enrichissement est fixée à 50 %.",
+  "Same ecological scenario as ANR/50% Enrichment, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Même scénario écologique que RNA/Enrichissement 50 %, mais la récolte de produits forestiers non ligneux (PFNL) fait partie des activités d'entretien.",
+  "Include any additional costs or savings associated with NTFP collection and management.":
+    "Incluez tout coût ou toute économie supplémentaire lié à la collecte et à la gestion des PFNL.",
+  "This scenario assumes moderate soil degradation and low to moderate availability of natural regeneration sources.":
+    "Ce scénario suppose une dégradation modérée du sol et une disponibilité faible à modérée de sources de régénération naturelle.",
+  "Regeneration cannot rely solely on natural processes and requires active seed dispersal across the site.":
+    "La régénération ne peut reposer uniquement sur les processus naturels et nécessite une dispersion active de semences sur tout le site.",
+  "Approach to cover 100% of the area.":
+    "Approche couvrant 100 % de la surface.",
+  "Same ecological scenario as Seed Dispersal, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Même scénario écologique que le semis direct, mais la récolte de produits forestiers non ligneux (PFNL) fait partie des activités d'entretien.",
+  "Approach to cover 100% of the area, being NTFP 50% on average.":
+    "Approche couvrant 100 % de la surface, dont 50 % de PFNL en moyenne.",
+  "Include any additional costs associated with NTFP collection and management.":
+    "Incluez tout coût supplémentaire lié à la collecte et à la gestion des PFNL.",
+  "This scenario assumes high soil degradation and low availability of natural regeneration sources.":
+    "Ce scénario suppose une forte dégradation du sol et une faible disponibilité de sources de régénération naturelle.",
+  "Natural regeneration is not sufficient to reach the benchmark carbon curve, and full-scale seedling planting is required.":
+    "La régénération naturelle ne suffit pas à atteindre la courbe de carbone de référence : une plantation complète de plants est nécessaire.",
+  "Same ecological scenario as Full Seedling Plantation, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Même scénario écologique que la plantation complète de plants, mais la récolte de produits forestiers non ligneux (PFNL) fait partie des activités d'entretien.",
+  "Approach to cover 100% of the area, with NTFP covering 50% on average.":
+    "Approche couvrant 100 % de la surface, les PFNL en couvrant 50 % en moyenne.",
+
+  // ── Implementation cost guidance ──────────────────────────────────────────
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions.":
+    "Le coût de mise en œuvre de base doit inclure le coût minimal nécessaire pour lancer la régénération naturelle assistée dans des conditions légèrement contraignantes.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition, planting labor, and light localized soil correction.":
+    "Cela comprend toutes les activités de base de régénération naturelle ainsi que la plantation d'enrichissement localisée à 50 % d'intensité, y compris l'achat de plants, la main-d'œuvre de plantation et une légère correction localisée du sol.",
+  "Do not include costs related to invasive species control, fencing, fire management, or other activities beside the basic implementation. These must be modeled as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas les coûts liés à la lutte contre les espèces envahissantes, aux clôtures, à la gestion des feux ou à d'autres activités hors mise en œuvre de base. Ils doivent être modélisés comme coûts d'assistance. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions, considering NTFP species.":
+    "Le coût de mise en œuvre de base doit inclure le coût minimal nécessaire pour lancer la régénération naturelle assistée dans des conditions légèrement contraignantes, en tenant compte des espèces à PFNL.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition (with NTFP species), planting labor, and light localized soil correction.":
+    "Cela comprend toutes les activités de base de régénération naturelle ainsi que la plantation d'enrichissement localisée à 50 % d'intensité, y compris l'achat de plants (avec des espèces à PFNL), la main-d'œuvre de plantation et une légère correction localisée du sol.",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions.":
+    "Le coût de mise en œuvre de base doit refléter le coût minimal nécessaire pour réaliser un semis direct dans des conditions écologiques modérément contraignantes.",
+  "This includes seed acquisition, seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Cela comprend l'achat des semences, leur traitement (le cas échéant), une préparation légère de la surface du sol et la distribution des semences.",
+  "Do not include fencing, invasive species control, firebreak construction, pest control, or other external restriction-related costs. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas les clôtures, la lutte contre les espèces envahissantes, la création de pare-feu, la lutte contre les ravageurs ou d'autres coûts liés à des contraintes externes. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions, considering NTFP species.":
+    "Le coût de mise en œuvre de base doit refléter le coût minimal nécessaire pour réaliser un semis direct dans des conditions écologiques modérément contraignantes, en tenant compte des espèces à PFNL.",
+  "This includes seed acquisition (including NTFP species), seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Cela comprend l'achat des semences (y compris d'espèces à PFNL), leur traitement (le cas échéant), une préparation légère de la surface du sol et la distribution des semences.",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability.":
+    "Le coût de mise en œuvre de base doit refléter le coût minimal nécessaire pour réaliser une plantation complète de plants sur sol dégradé et avec une faible disponibilité de propagules.",
+  "This includes seedling production or acquisition, transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Cela comprend la production ou l'achat des plants, le transport, la préparation standard du sol, la main-d'œuvre de plantation et la fertilisation de base à la plantation.",
+  "Do not include erosion control infrastructure, invasive species management, fencing, irrigation systems, or other external constraint-related costs. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas les ouvrages de lutte contre l'érosion, la gestion des espèces envahissantes, les clôtures, les systèmes d'irrigation ou d'autres coûts liés à des contraintes externes. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability, considering NTFP species.":
+    "Le coût de mise en œuvre de base doit refléter le coût minimal nécessaire pour réaliser une plantation complète de plants sur sol dégradé et avec une faible disponibilité de propagules, en tenant compte des espèces à PFNL.",
+  "This includes seedling production or acquisition (including NTFP species), transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Cela comprend la production ou l'achat des plants (y compris d'espèces à PFNL), le transport, la préparation standard du sol, la main-d'œuvre de plantation et la fertilisation de base à la plantation.",
+
+  // ── Maintenance cost guidance ─────────────────────────────────────────────
+  "Enter the accumulated total cost over the entire maintenance period (Years 2–{horizon}), not the annual cost.":
+    "Saisissez le coût total cumulé sur toute la période d'entretien (années 2–{horizon}), et non le coût annuel.",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment.":
+    "Les coûts d'entretien de base doivent inclure les activités de suivi minimales nécessaires pour soutenir la régénération naturelle assistée avec 50 % d'enrichissement.",
+  "This may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.":
+    "Cela peut inclure des contrôles de survie, le remplacement limité des plants d'enrichissement morts, la récolte des PFNL et des activités de suivi légères.",
+  "Do not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas la lutte contre les espèces envahissantes, les clôtures, l'entretien des pare-feu, la lutte contre les ravageurs ou d'autres coûts liés à des contraintes externes. Ils doivent être modélisés séparément comme coûts d'assistance. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment, including NTFP harvesting and management.":
+    "Les coûts d'entretien de base doivent inclure les activités de suivi minimales nécessaires pour soutenir la régénération naturelle assistée avec 50 % d'enrichissement, y compris la récolte et la gestion des PFNL.",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding under moderately restrictive but stable ecological conditions.":
+    "Les coûts d'entretien de base doivent refléter le suivi minimal nécessaire après un semis direct dans des conditions écologiques modérément contraignantes mais stables.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections and NTFP harvesting (in case there is any).":
+    "Cela peut inclure le suivi de la germination, un ressemis limité sur de petites zones si nécessaire, des inspections de base du site et la récolte des PFNL (le cas échéant).",
+  "Do not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas de replantation à grande échelle, la lutte contre les espèces envahissantes, les clôtures, la gestion des feux ou d'autres interventions liées au contexte. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding, including NTFP harvesting and management.":
+    "Les coûts d'entretien de base doivent refléter le suivi minimal nécessaire après un semis direct, y compris la récolte et la gestion des PFNL.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections, and NTFP harvesting.":
+    "Cela peut inclure le suivi de la germination, un ressemis limité sur de petites zones si nécessaire, des inspections de base du site et la récolte des PFNL.",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment of planted seedlings under degraded but stable ecological conditions.":
+    "Les coûts d'entretien de base doivent refléter les dépenses récurrentes minimales nécessaires pour assurer l'établissement des plants dans des conditions écologiques dégradées mais stables.",
+  "This may include survival monitoring, limited replanting of failed seedlings, and basic follow-up inspections.":
+    "Cela peut inclure le suivi de la survie, la replantation limitée des plants morts et des inspections de suivi de base.",
+  "Do not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).":
+    "N'incluez pas la gestion des espèces envahissantes, les clôtures, l'entretien des pare-feu, les systèmes d'irrigation au-delà de l'établissement initial ou d'autres interventions propres au contexte. Ces éléments sont traités dans la section suivante (contraintes de contexte additionnelles).",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment, including NTFP harvesting and management.":
+    "Les coûts d'entretien de base doivent refléter les dépenses récurrentes minimales nécessaires pour assurer l'établissement, y compris la récolte et la gestion des PFNL.",
+  "This may include survival monitoring, limited replanting of failed seedlings, NTFP harvesting, and basic follow-up inspections.":
+    "Cela peut inclure le suivi de la survie, la replantation limitée des plants morts, la récolte des PFNL et des inspections de suivi de base.",
+
+  // ── Material examples ─────────────────────────────────────────────────────
+  "e.g., seedlings, fertilizer, stakes, tree guards, localized soil amendments":
+    "p. ex. plants, engrais, tuteurs, protections d'arbres, amendements localisés du sol",
+  "e.g., replacement seedlings, monitoring tags, minor repair materials":
+    "p. ex. plants de remplacement, étiquettes de suivi, petit matériel de réparation",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, localized soil amendments":
+    "p. ex. plants (y compris d'espèces à PFNL), engrais, tuteurs, protections d'arbres, amendements localisés du sol",
+  "e.g., replacement seedlings, monitoring tags, NTFP harvesting tools, minor repair materials":
+    "p. ex. plants de remplacement, étiquettes de suivi, outils de récolte des PFNL, petit matériel de réparation",
+  "e.g., native seeds, seed coating/treatment products, basic soil amendments":
+    "p. ex. semences indigènes, produits d'enrobage/traitement des semences, amendements de base du sol",
+  "e.g., replacement seeds, monitoring supplies, small-area reseeding materials":
+    "p. ex. semences de remplacement, fournitures de suivi, matériel de ressemis sur petites zones",
+  "e.g., native seeds (including NTFP species), seed coating/treatment products, basic soil amendments":
+    "p. ex. semences indigènes (y compris d'espèces à PFNL), produits d'enrobage/traitement des semences, amendements de base du sol",
+  "e.g., replacement seeds, monitoring supplies, NTFP harvesting tools, small-area reseeding materials":
+    "p. ex. semences de remplacement, fournitures de suivi, outils de récolte des PFNL, matériel de ressemis sur petites zones",
+  "e.g., seedlings, fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "p. ex. plants, engrais, tuteurs, protections d'arbres, amendements du sol, outils de plantation de base",
+  "e.g., replacement seedlings, fertilizer, monitoring tags, minor repair materials":
+    "p. ex. plants de remplacement, engrais, étiquettes de suivi, petit matériel de réparation",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "p. ex. plants (y compris d'espèces à PFNL), engrais, tuteurs, protections d'arbres, amendements du sol, outils de plantation de base",
+  "e.g., replacement seedlings, fertilizer, NTFP harvesting tools, monitoring tags, minor repair materials":
+    "p. ex. plants de remplacement, engrais, outils de récolte des PFNL, étiquettes de suivi, petit matériel de réparation",
+
+  // ── Maintenance activities ────────────────────────────────────────────────
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and support staking)":
+    "Entretien des individus en régénération (p. ex. taille, éclaircie et tuteurage)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and support staking)":
+    "Entretien des espèces à PFNL (p. ex. taille, éclaircie et tuteurage)",
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and fertilization)":
+    "Entretien des individus en régénération (p. ex. taille, éclaircie et fertilisation)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and fertilization)":
+    "Entretien des espèces à PFNL (p. ex. taille, éclaircie et fertilisation)",
+  "Harvest":
+    "Récolte",
+  "Technical assistance":
+    "Assistance technique",
+  "Monitoring General Maintenance Activities (e.g. shade management)":
+    "Suivi et activités générales d'entretien (p. ex. gestion de l'ombrage)",
+
+  // ── Context & scenario ────────────────────────────────────────────────────
+  "Are there any methods for which you have no cost information?":
+    "Existe-t-il des méthodes pour lesquelles vous n'avez aucune information de coût ?",
+  "Check the methods below for which you have no cost data. The corresponding tab will be removed from the form.":
+    "Cochez ci-dessous les méthodes pour lesquelles vous n'avez pas de données de coût. L'onglet correspondant sera retiré du formulaire.",
+  "Only one tab is visible. Please complete at least this method.":
+    "Un seul onglet est visible. Complétez au moins cette méthode.",
+  "{count} method(s) hidden due to missing data.":
+    "{count} méthode(s) masquée(s) faute de données.",
+  "We define the restoration method initially based on soil condition and natural regenerating seedlings availability. The time horizon for the analysis is {horizon} years (set in Project Identification).":
+    "La méthode de restauration est d'abord définie selon l'état du sol et la disponibilité de semis issus de la régénération naturelle. L'horizon d'analyse est de {horizon} ans (défini dans l'Identification du projet).",
+  "All methods have been marked as having no data. Uncheck at least one above to fill in cost information.":
+    "Toutes les méthodes sont marquées sans données. Décochez-en au moins une ci-dessus pour saisir les coûts.",
+  "Complete all {count} restoration methods below.":
+    "Complétez les {count} méthodes de restauration ci-dessous.",
+  "Click each tab to fill in costs and distributions.":
+    "Cliquez sur chaque onglet pour saisir les coûts et les répartitions.",
+  "{done} of {count} completed":
+    "{done} sur {count} terminées",
+  "Completed":
+    "Terminé",
+  "Click to fill in":
+    "Cliquez pour remplir",
+  "Restoration method illustration":
+    "Illustration de la méthode de restauration",
+  "What to include":
+    "Ce qu'il faut inclure",
+  "NTFP Species":
+    "Espèce à PFNL",
+  "Select one native Non-Timber Forest Product (NTFP) species with good market potential in your region.":
+    "Sélectionnez une espèce indigène de produit forestier non ligneux (PFNL) ayant un bon potentiel commercial dans votre région.",
+  "e.g., Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)":
+    "p. ex. Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)",
+  "Basic Implementation Costs (Year 1)":
+    "Coûts de mise en œuvre de base (année 1)",
+  "Implementation Cost":
+    "Coût de mise en œuvre",
+  "What is the average percentage of the total implementation cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "Quelle part moyenne du coût total de mise en œuvre correspond à la main-d'œuvre, aux matériaux et aux machines ? Les trois valeurs doivent totaliser 100 %.",
+  "Basic Maintenance Costs (Years 2–{horizon})":
+    "Coûts d'entretien de base (années 2–{horizon})",
+  "Add cost segments for different year ranges. The chart updates live. The total is carried to the Maintenance Cost field below.":
+    "Ajoutez des segments de coût pour différentes plages d'années. Le graphique se met à jour en direct. Le total est reporté dans le champ Coût d'entretien ci-dessous.",
+  "Interpret as total and spread over years":
+    "Interpréter comme un total et répartir sur les années",
+  "What is the average percentage of the total maintenance cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "Quelle part moyenne du coût total d'entretien correspond à la main-d'œuvre, aux matériaux et aux machines ? Les trois valeurs doivent totaliser 100 %.",
+  "NTFP Revenue":
+    "Recettes des PFNL",
+  "Estimate the expected revenue from Non-Timber Forest Products (NTFP) harvested during the maintenance period.":
+    "Estimez les recettes attendues des produits forestiers non ligneux (PFNL) récoltés pendant la période d'entretien.",
+  "Average Price during Harvesting Season":
+    "Prix moyen pendant la saison de récolte",
+  "e.g., 2.50":
+    "p. ex. 2,50",
+  "Which NTFP data will you provide?":
+    "Quelles données de PFNL allez-vous fournir ?",
+  "Productivity data (kg/{area}/yr)":
+    "Données de productivité (kg/{area}/an)",
+  "Revenue data ({currency}/{area}/yr)":
+    "Données de recettes ({currency}/{area}/an)",
+  "Switching modes keeps the data on both sides — you can toggle freely.":
+    "Changer de mode conserve les données des deux côtés — vous pouvez basculer librement.",
+  "Average NTFP Productivity":
+    "Productivité moyenne des PFNL",
+  "Estimate how NTFP productivity (kg/{area}/yr) changes over the maintenance period as the forest matures.":
+    "Estimez l'évolution de la productivité des PFNL (kg/{area}/an) pendant la période d'entretien, à mesure que la forêt mûrit.",
+  "Add revenue segments for different year ranges. NTFP productivity may vary as the forest matures.":
+    "Ajoutez des segments de recettes pour différentes plages d'années. La productivité des PFNL peut varier à mesure que la forêt mûrit.",
+  "Labor":
+    "Main-d'œuvre",
+  "Machinery":
+    "Machines",
+  "Materials":
+    "Matériaux",
+  "Labor (%)":
+    "Main-d'œuvre (%)",
+  "Machinery (%)":
+    "Machines (%)",
+  "Materials (%)":
+    "Matériaux (%)",
+  "Cost distribution":
+    "Répartition du coût",
+  "Total cost":
+    "Coût total",
+
+  // ── Timeline builders ─────────────────────────────────────────────────────
+  "Name":
+    "Nom",
+  "No segments yet — click \"Add segment\" to start.":
+    "Aucun segment pour l'instant — cliquez sur « Ajouter un segment » pour commencer.",
+  "No segments yet — click \"Add productivity segment\" to start.":
+    "Aucun segment pour l'instant — cliquez sur « Ajouter un segment de productivité » pour commencer.",
+  "No revenue segments yet — click \"Add revenue segment\" to start.":
+    "Aucun segment de recettes pour l'instant — cliquez sur « Ajouter un segment de recettes » pour commencer.",
+  "Select activity...":
+    "Sélectionnez l'activité...",
+  "max {max} reached":
+    "max. {max} atteint",
+  "From year":
+    "Année de début",
+  "To year":
+    "Année de fin",
+  "Yr {year}":
+    "An {year}",
+  "Segment {n}":
+    "Segment {n}",
+  "Total cost ({currency}/{area}/yr)":
+    "Coût total ({currency}/{area}/an)",
+  "Productivity (kg/{area}/yr)":
+    "Productivité (kg/{area}/an)",
+  "Revenue ({currency}/{area}/yr)":
+    "Recettes ({currency}/{area}/an)",
+  "Remove segment":
+    "Supprimer le segment",
+  "Add segment":
+    "Ajouter un segment",
+  "Add productivity segment":
+    "Ajouter un segment de productivité",
+  "Add revenue segment":
+    "Ajouter un segment de recettes",
+  "All activities are at the maximum of {max} segments. Remove a segment to add a new one.":
+    "Toutes les activités ont atteint le maximum de {max} segments. Supprimez un segment pour en ajouter un nouveau.",
+  "Split the maintenance period into segments with different annual costs (e.g., intensive years vs. later years). Maximum {max} segments per activity.":
+    "Découpez la période d'entretien en segments de coûts annuels différents (p. ex. années intensives vs années suivantes). {max} segments au maximum par activité.",
+  "Activities at the {max}-segment limit":
+    "Activités à la limite de {max} segments",
+  "Maximum of {max} segments reached. Remove a segment to add a new one.":
+    "Maximum de {max} segments atteint. Supprimez un segment pour en ajouter un nouveau.",
+  "Split the revenue period into segments with different annual revenues (e.g., early low-yield years vs. mature harvest years). Maximum {max} segments.":
+    "Découpez la période de recettes en segments de recettes annuelles différentes (p. ex. premières années à faible rendement vs années de pleine récolte). {max} segments au maximum.",
+  "NTFP productivity typically increases as the forest matures. Add segments for different growth phases. Maximum {max} segments.":
+    "La productivité des PFNL augmente généralement à mesure que la forêt mûrit. Ajoutez des segments pour les différentes phases de croissance. {max} segments au maximum.",
+  "Accumulated total":
+    "Total cumulé",
+  "Weighted avg":
+    "Moyenne pondérée",
+
+  // ── Context constraints ───────────────────────────────────────────────────
+  "Given an unfavourable scenario with contextual constraints, estimate the additional cost required to overcome these constraints and achieve the same level of ecological success as in a favourable scenario. These additional activities would have the same costs for all methods, so you need to fill this up just once. Pay attention to the unit of each cost field.":
+    "Dans un scénario défavorable présentant des contraintes de contexte, estimez le coût additionnel nécessaire pour surmonter ces contraintes et atteindre le même niveau de réussite écologique que dans un scénario favorable. Ces activités additionnelles auraient les mêmes coûts pour toutes les méthodes : il suffit donc de les renseigner une fois. Faites attention à l'unité de chaque champ de coût.",
+  "Firebreak / Fire Risk":
+    "Pare-feu / risque d'incendie",
+  "Fencing / Grazing Pressure":
+    "Clôtures / pression de pâturage",
+  "Weed Control / Invasive Species Pressure":
+    "Désherbage / pression des espèces envahissantes",
+  "Pest Control / Pest Infestation Risk":
+    "Lutte contre les ravageurs / risque d'infestation",
+  "Consider the linear cost (1 km = 1000 m) and the total area of each lot that probably will need to be fenced ({area}). You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Tenez compte du coût linéaire (1 km = 1000 m) et de la surface totale de chaque parcelle qui devra probablement être clôturée ({area}). Vous pouvez saisir le coût directement en {currency}/km, ou en {currency}/{area} pour une conversion automatique.",
+  "Consider the linear cost (1 km = 1000 m) and the total area that needs fire breaks. You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Tenez compte du coût linéaire (1 km = 1000 m) et de la surface totale nécessitant des pare-feu. Vous pouvez saisir le coût directement en {currency}/km, ou en {currency}/{area} pour une conversion automatique.",
+  "Consider the total number of times this activity will need to occur over the {horizon}-year project horizon (including both implementation and maintenance phases).":
+    "Tenez compte du nombre total de fois où cette activité devra avoir lieu sur l'horizon de {horizon} ans du projet (phases de mise en œuvre et d'entretien comprises).",
+  "Unit Cost":
+    "Coût unitaire",
+  "or enter per area":
+    "ou saisissez par unité de surface",
+  "optional":
+    "facultatif",
+  "Fill in the area field to enable conversion":
+    "Renseignez le champ de surface pour activer la conversion",
+  "Converts to {currency}/km using √({area} ha)":
+    "Conversion en {currency}/km avec √({area} ha)",
+  "Average area that needs fences in one typical property":
+    "Surface moyenne à clôturer dans une propriété type",
+  "Average total area that needs fire breaks":
+    "Surface totale moyenne nécessitant des pare-feu",
+  "Number of occurrences over {horizon} years":
+    "Nombre d'occurrences sur {horizon} ans",
+  "times":
+    "fois",
+  "e.g., 50":
+    "p. ex. 50",
+  "e.g., 10":
+    "p. ex. 10",
+  "e.g., 5":
+    "p. ex. 5",
+
+  // ── Labor breakdown ───────────────────────────────────────────────────────
+  "Of the total labor hours involved in the restoration project, what percentage corresponds to hired labor (paid workers) and what percentage to non-hired labour (includes any type of labour that is not hired, such as family or community labour)?":
+    "Sur le total des heures de travail du projet de restauration, quelle part correspond à la main-d'œuvre salariée (travailleurs rémunérés) et quelle part à la main-d'œuvre non salariée (tout travail non rémunéré, comme le travail familial ou communautaire) ?",
+  "Please provide estimates for each phase. Each row must sum to 100%.":
+    "Indiquez des estimations pour chaque phase. Chaque ligne doit totaliser 100 %.",
+  "Implementation (Year 1)":
+    "Mise en œuvre (année 1)",
+  "Maintenance (Years 2–{horizon})":
+    "Entretien (années 2–{horizon})",
+  "Labor hour distribution":
+    "Répartition des heures de travail",
+  "Hired Labour":
+    "Main-d'œuvre salariée",
+  "Non Hired Labour":
+    "Main-d'œuvre non salariée",
+  "Includes any type of labour that is not hired, such as family or community labour":
+    "Comprend tout travail non salarié, comme le travail familial ou communautaire",
+  "Gender Distribution":
+    "Répartition par genre",
+  "Gender distribution":
+    "Répartition par genre",
+  "Of the total labor hours involved in this project, what percentage is contributed by each gender group? Must sum to 100%.":
+    "Sur le total des heures de travail de ce projet, quelle part est fournie par chaque groupe de genre ? Le total doit être de 100 %.",
+  "Male":
+    "Hommes",
+  "Female":
+    "Femmes",
+  "Others":
+    "Autres",
+  "Hired Labor Cost Reference":
+    "Référence du coût de la main-d'œuvre salariée",
+  "Average daily wage for hired field workers and hourly cost of machinery in this region.":
+    "Salaire journalier moyen des ouvriers agricoles salariés et coût horaire des machines dans cette région.",
+  "Hired Labor Cost":
+    "Coût de la main-d'œuvre salariée",
+  "Machinery Unit Cost":
+    "Coût unitaire des machines",
+  "Land Lease Reference":
+    "Référence de location de terres",
+  "Average annual cost to lease (rent) one {area} of land in this region.":
+    "Coût annuel moyen de location de 1 {area} de terre dans cette région.",
+  "Average Land Lease Cost":
+    "Coût moyen de location des terres",
+
+  // ── Summary & assumptions ─────────────────────────────────────────────────
+  "Declared Total Unfavorable Cost":
+    "Coût total défavorable déclaré",
+  "Your own estimate of the total cost (implementation + maintenance + all constraints) under the unfavorable scenario. The difference from the sum of the parts is the interaction adjustment. Leave 0 if you have no estimate.":
+    "Votre propre estimation du coût total (mise en œuvre + entretien + toutes les contraintes) dans le scénario défavorable. L'écart avec la somme des composantes est l'ajustement d'interaction. Laissez 0 si vous n'avez pas d'estimation.",
+  "Default Discount Rate":
+    "Taux d'actualisation par défaut",
+  "Used for the headline NPV, BCR, payback year and cost per tCO2":
+    "Utilisé pour la VAN principale, le RBC, l'année de retour sur investissement et le coût par tCO2",
+  "Tornado Sensitivity Flex":
+    "Variation de sensibilité (tornade)",
+  "Each driver is moved down and up by this share in the one-way sensitivity":
+    "Chaque facteur est diminué puis augmenté de cette part dans la sensibilité univariée",
+  "Carbon Price (Year 1)":
+    "Prix du carbone (année 1)",
+  "Carbon Price Escalation":
+    "Évolution du prix du carbone",
+  "Annual real change of the carbon price; 0 keeps the price flat":
+    "Variation réelle annuelle du prix du carbone ; 0 le maintient constant",
+  "Buffer Pool Deduction":
+    "Déduction pour réserve tampon",
+  "Share of sequestered carbon withheld by the registry and not sold":
+    "Part du carbone séquestré retenue par le registre et non vendue",
+  "Fallback Sequestration Rate":
+    "Taux de séquestration par défaut",
+  "Mean rate used when the ecosystem has no reference sequestration value":
+    "Taux moyen utilisé lorsque l'écosystème n'a pas de valeur de séquestration de référence",
+  "NTFP Maturation Lag":
+    "Délai de maturation des PFNL",
+  "Years before NTFP revenue starts when only a revenue total is available":
+    "Années avant le début des recettes des PFNL lorsque seul un total de recettes est disponible",
+  "Fencing Cost in Year 1":
+    "Coût des clôtures en année 1",
+  "Share of total fencing cost incurred at implementation; the rest is spread over the maintenance years":
+    "Part du coût total des clôtures engagée à la mise en œuvre ; le reste est réparti sur les années d'entretien",
+
+  // ── Validation messages ───────────────────────────────────────────────────
+  "Cannot be negative":
+    "Ne peut pas être négatif",
+  "Cannot exceed 100%":
+    "Ne peut pas dépasser 100 %",
+  "Cannot exceed 50%":
+    "Ne peut pas dépasser 50 %",
+  "Cannot exceed 20%":
+    "Ne peut pas dépasser 20 %",
+  "Cannot be below -20%":
+    "Ne peut pas être inférieur à -20 %",
+  "Must be a whole number":
+    "Doit être un nombre entier",
+  "Must be at least 1%":
+    "Doit être d'au moins 1 %",
+  "Labor % is required":
+    "Le % de main-d'œuvre est obligatoire",
+  "Materials % is required":
+    "Le % de matériaux est obligatoire",
+  "Machinery % is required":
+    "Le % de machines est obligatoire",
+  "Segment id is required":
+    "L'identifiant du segment est obligatoire",
+  "Start year is required":
+    "L'année de début est obligatoire",
+  "End year is required":
+    "L'année de fin est obligatoire",
+  "Minimum year 2 (year 1 is implementation)":
+    "Année 2 minimum (l'année 1 est la mise en œuvre)",
+  "Maximum {max} years":
+    "{max} ans maximum",
+  "Minimum {min} years":
+    "{min} ans minimum",
+  "End year must be greater than or equal to start year":
+    "L'année de fin doit être supérieure ou égale à l'année de début",
+  "End year exceeds the {horizon}-year time horizon":
+    "L'année de fin dépasse l'horizon de {horizon} ans",
+  "Cost is required":
+    "Le coût est obligatoire",
+  "Revenue is required":
+    "La recette est obligatoire",
+  "Productivity is required":
+    "La productivité est obligatoire",
+  "Number of occurrences is required":
+    "Le nombre d'occurrences est obligatoire",
+  "Implementation cost is required":
+    "Le coût de mise en œuvre est obligatoire",
+  "Maintenance cost is required":
+    "Le coût d'entretien est obligatoire",
+  "Ecosystem is required":
+    "L'écosystème est obligatoire",
+  "Time horizon is required":
+    "L'horizon d'analyse est obligatoire",
+  "Hired Labour % is required":
+    "Le % de main-d'œuvre salariée est obligatoire",
+  "Non Hired Labour % is required":
+    "Le % de main-d'œuvre non salariée est obligatoire",
+  "Hired labor cost is required":
+    "Le coût de la main-d'œuvre salariée est obligatoire",
+  "Machinery unit cost is required":
+    "Le coût unitaire des machines est obligatoire",
+  "Land lease cost is required":
+    "Le coût de location des terres est obligatoire",
+  "Male % is required":
+    "Le % d'hommes est obligatoire",
+  "Female % is required":
+    "Le % de femmes est obligatoire",
+  "Other % is required":
+    "Le % d'autres est obligatoire",
+
+  // ── Consistency rules ─────────────────────────────────────────────────────
+  "Implementation hired + non hired labour":
+    "Main-d'œuvre salariée + non salariée de la mise en œuvre",
+  "Maintenance hired + non hired labour":
+    "Main-d'œuvre salariée + non salariée de l'entretien",
+  "{label} must sum to 100%. Currently: {sum}%.":
+    "{label} doit totaliser 100 %. Actuellement : {sum} %.",
+  "Some segments end after year {horizon}. Shorten them or extend the time horizon.":
+    "Certains segments se terminent après l'année {horizon}. Raccourcissez-les ou allongez l'horizon d'analyse.",
+  "Complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Complétez au moins un onglet de méthode (coûts et répartitions de mise en œuvre et d'entretien) avant d'enregistrer ou d'exporter.",
+  "Enter the implementation cost (year 1), or mark the method as having no data.":
+    "Saisissez le coût de mise en œuvre (année 1) ou marquez la méthode comme sans données.",
+  "Add at least one maintenance segment with a cost, or mark the method as having no data.":
+    "Ajoutez au moins un segment d'entretien avec un coût ou marquez la méthode comme sans données.",
+  "The implementation cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "La répartition du coût de mise en œuvre doit totaliser exactement 100 %. Actuellement : {sum} %.",
+  "Please fill in the implementation cost distribution (must sum to 100%).":
+    "Renseignez la répartition du coût de mise en œuvre (total de 100 %).",
+  "The maintenance cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "La répartition du coût d'entretien doit totaliser exactement 100 %. Actuellement : {sum} %.",
+  "Please fill in the maintenance cost distribution (must sum to 100%).":
+    "Renseignez la répartition du coût d'entretien (total de 100 %).",
+  "The declared unfavorable cost differs from the sum of its parts by more than {pct}%. Check for missing or double-counted constraint costs, or annual vs total maintenance confusion.":
+    "Le coût défavorable déclaré s'écarte de la somme de ses composantes de plus de {pct} %. Vérifiez les coûts de contrainte manquants ou comptés deux fois, ou une confusion entre entretien annuel et total.",
+  "No unfavorable-scenario cost declared; the interaction adjustment is taken as 0.":
+    "Aucun coût de scénario défavorable déclaré ; l'ajustement d'interaction est pris égal à 0.",
+  "The maintenance segment for years {from}–{to} has no activity selected.":
+    "Le segment d'entretien des années {from}–{to} n'a pas d'activité sélectionnée.",
+  "Firebreak":
+    "Pare-feu",
+  "Fencing":
+    "Clôtures",
+  "Weed control":
+    "Désherbage",
+  "Pest control":
+    "Lutte contre les ravageurs",
+  "{label}: the distribution must sum to exactly 100%. Currently: {sum}%.":
+    "{label} : la répartition doit totaliser exactement 100 %. Actuellement : {sum} %.",
+  "{label}: please fill in the cost distribution for this cost category (must sum to 100%).":
+    "{label} : renseignez la répartition du coût de cette catégorie (total de 100 %).",
+  "{label}: a unit cost is entered but the fenced area is 0, so it adds no cost.":
+    "{label} : un coût unitaire est saisi mais la surface clôturée est de 0, il n'ajoute donc aucun coût.",
+  "{label}: a unit cost is entered but the number of occurrences is 0, so it adds no cost.":
+    "{label} : un coût unitaire est saisi mais le nombre d'occurrences est de 0, il n'ajoute donc aucun coût.",
+  "{activity}: the annual cost {cost}/yr is close to the whole implementation cost ({impl}). Over {years} years it adds up to {total}, {ratio}× implementation. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity} : le coût annuel de {cost}/an est proche du coût total de mise en œuvre ({impl}). Sur {years} ans, il totalise {total}, soit {ratio}× la mise en œuvre. Lu comme un total, il représente {annual}/an sur les années {from}–{to}.",
+  "{activity}: one segment covers the whole maintenance period and its {cost}/yr adds up to {total}, {ratio}× the implementation cost. The value may be the accumulated total. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity} : un seul segment couvre toute la période d'entretien et ses {cost}/an totalisent {total}, soit {ratio}× le coût de mise en œuvre. La valeur est peut-être le total cumulé. Lu comme un total, il représente {annual}/an sur les années {from}–{to}.",
+  "This segment":
+    "Ce segment",
+
+  // ── Excel export ──────────────────────────────────────────────────────────
+  "Field":
+    "Champ",
+  "Unit":
+    "Unité",
+  "Section":
+    "Section",
+  "Description":
+    "Description",
+  "Form Path":
+    "Chemin dans le formulaire",
+  "Value":
+    "Valeur",
+  "Expected Min":
+    "Minimum attendu",
+  "Expected Max":
+    "Maximum attendu",
+  "Deviation (%)":
+    "Écart (%)",
+  "Range Source":
+    "Source de la plage",
+  "Message":
+    "Message",
+  "Rule ID":
+    "ID de la règle",
+  "Severity":
+    "Gravité",
+  "Fields":
+    "Champs",
+  "error":
+    "erreur",
+  "warning":
+    "avertissement",
+  "info":
+    "remarque",
+  "No field outside its reference range":
+    "Aucun champ hors de sa plage de référence",
+  "No issue found by the consistency rules":
+    "Aucun problème détecté par les règles de cohérence",
+
+  // ── Export metadata ───────────────────────────────────────────────────────
+  "text":
+    "texte",
+  "text \"lat, lon\"":
+    "texte « lat, lon »",
+  "integer":
+    "entier",
+  "count":
+    "nombre",
+  "year (From/To) or US$/ha/yr (Annual_USD)":
+    "année (From/To) ou US$/ha/an (Annual_USD)",
+  "year (From/To) or kg/ha/yr (kg_ha_yr)":
+    "année (From/To) ou kg/ha/an (kg_ha_yr)",
+  "1. Identification":
+    "1. Identification",
+  "2. Method":
+    "2. Méthode",
+  "3. Implementation":
+    "3. Mise en œuvre",
+  "4. Maintenance segments":
+    "4. Segments d'entretien",
+  "5. Maintenance distribution":
+    "5. Répartition de l'entretien",
+  "6. NTFP species & price":
+    "6. Espèce et prix des PFNL",
+  "7. NTFP Productivity segments":
+    "7. Segments de productivité des PFNL",
+  "8. NTFP Revenue segments":
+    "8. Segments de recettes des PFNL",
+  "9. Context Constraints":
+    "9. Contraintes de contexte",
+  "10. Labor Breakdown":
+    "10. Répartition de la main-d'œuvre",
+  "11. Unfavorable Scenario":
+    "11. Scénario défavorable",
+  "Name of the field expert / consultant who provided the data":
+    "Nom de l'expert de terrain / du consultant ayant fourni les données",
+  "Name of the person filling out the questionnaire":
+    "Nom de la personne ayant rempli le questionnaire",
+  "Date when the data was collected":
+    "Date de collecte des données",
+  "GPS coordinates of the project site":
+    "Coordonnées GPS du site du projet",
+  "Ecosystem type (e.g., Tropical Forest, Cerrado, Mangrove)":
+    "Type d'écosystème (p. ex. forêt tropicale, Cerrado, mangrove)",
+  "Country where the project is located":
+    "Pays où se situe le projet",
+  "City where the project is located":
+    "Ville où se situe le projet",
+  "Analysis time horizon (10–50 years); all segment years fall within it":
+    "Horizon d'analyse (10–50 ans) ; toutes les années des segments s'y inscrivent",
+  "Format version of the questionnaire that wrote this file; used to migrate older files on import":
+    "Version de format du questionnaire ayant écrit ce fichier ; sert à migrer les anciens fichiers à l'import",
+  "Display label of the restoration method for this row":
+    "Libellé de la méthode de restauration de cette ligne",
+  "Internal ID of the method (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)":
+    "Identifiant interne de la méthode (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)",
+  "Basic implementation cost (Year 1) for this method":
+    "Coût de mise en œuvre de base (année 1) de cette méthode",
+  "Share of implementation cost attributable to labor (must sum to 100% with Mater/Mach)":
+    "Part du coût de mise en œuvre imputable à la main-d'œuvre (total de 100 % avec Mater/Mach)",
+  "Share of implementation cost attributable to materials":
+    "Part du coût de mise en œuvre imputable aux matériaux",
+  "Share of implementation cost attributable to machinery/services":
+    "Part du coût de mise en œuvre imputable aux machines/services",
+  "Segments for 'Maintenance of regenerating individuals' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr (start year), To_yr (end year, >= From_yr), Annual_USD (annual cost in US$/ha)}. Empty when the user has not used that segment slot.":
+    "Segments « Entretien des individus en régénération » (taille, éclaircie, tuteurage). <N> dans 1..10. <Field> dans {From_yr (année de début), To_yr (année de fin, >= From_yr), Annual_USD (coût annuel en US$/ha)}. Vide lorsque l'emplacement de segment n'a pas été utilisé.",
+  "Segments for 'Maintenance of NTFP species' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segments « Entretien des espèces à PFNL » (taille, éclaircie, tuteurage). <N> dans 1..10. <Field> dans {From_yr, To_yr, Annual_USD}. Vide lorsque l'emplacement n'a pas été utilisé.",
+  "Segments for 'Harvest' activity (e.g. NTFP collection, when treated as a maintenance cost). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segments de l'activité « Récolte » (p. ex. collecte des PFNL, lorsqu'elle est traitée comme coût d'entretien). <N> dans 1..10. <Field> dans {From_yr, To_yr, Annual_USD}. Vide lorsque l'emplacement n'a pas été utilisé.",
+  "Segments for 'Technical assistance' (agronomist/forester visits, planning, training). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segments « Assistance technique » (visites d'agronome/forestier, planification, formation). <N> dans 1..10. <Field> dans {From_yr, To_yr, Annual_USD}. Vide lorsque l'emplacement n'a pas été utilisé.",
+  "Segments for 'Monitoring General Maintenance Activities' (e.g. shade management, light interventions). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segments « Suivi et activités générales d'entretien » (p. ex. gestion de l'ombrage, interventions légères). <N> dans 1..10. <Field> dans {From_yr, To_yr, Annual_USD}. Vide lorsque l'emplacement n'a pas été utilisé.",
+  "Share of maintenance cost attributable to labor (sum to 100%)":
+    "Part du coût d'entretien imputable à la main-d'œuvre (total de 100 %)",
+  "Share of maintenance cost attributable to materials":
+    "Part du coût d'entretien imputable aux matériaux",
+  "Share of maintenance cost attributable to machinery/services":
+    "Part du coût d'entretien imputable aux machines/services",
+  "Selected Non-Timber Forest Product species (NTFP methods only - empty otherwise)":
+    "Espèce de produit forestier non ligneux sélectionnée (méthodes avec PFNL uniquement - vide sinon)",
+  "Average price of the NTFP during harvesting season (NTFP methods only)":
+    "Prix moyen du PFNL pendant la saison de récolte (méthodes avec PFNL uniquement)",
+  "NTFP productivity segments. <N> in 1..5. <Field> in {From_yr, To_yr, kg_ha_yr (annual productivity)}. Filled only when the user picks 'Productivity data' mode for an NTFP method. Empty otherwise.":
+    "Segments de productivité des PFNL. <N> dans 1..5. <Field> dans {From_yr, To_yr, kg_ha_yr (productivité annuelle)}. Rempli uniquement lorsque l'utilisateur choisit le mode « Données de productivité » pour une méthode avec PFNL. Vide sinon.",
+  "NTFP revenue segments. <N> in 1..5. <Field> in {From_yr, To_yr, Annual_USD (annual revenue)}. Filled only when the user picks 'Revenue data' mode for an NTFP method. Empty otherwise.":
+    "Segments de recettes des PFNL. <N> dans 1..5. <Field> dans {From_yr, To_yr, Annual_USD (recette annuelle)}. Rempli uniquement lorsque l'utilisateur choisit le mode « Données de recettes » pour une méthode avec PFNL. Vide sinon.",
+  "Firebreak unit cost per linear km":
+    "Coût unitaire des pare-feu par km linéaire",
+  "Firebreak unit cost per hectare (derived from US$/km via firebreak area)":
+    "Coût unitaire des pare-feu par hectare (déduit des US$/km via la surface de pare-feu)",
+  "Number of times firebreak activity occurs over the time horizon":
+    "Nombre de fois où l'activité pare-feu a lieu sur l'horizon d'analyse",
+  "Share of firebreak cost attributable to labor (sum to 100%)":
+    "Part du coût des pare-feu imputable à la main-d'œuvre (total de 100 %)",
+  "Share of firebreak cost attributable to materials":
+    "Part du coût des pare-feu imputable aux matériaux",
+  "Share of firebreak cost attributable to machinery/services":
+    "Part du coût des pare-feu imputable aux machines/services",
+  "Fencing unit cost per linear km":
+    "Coût unitaire des clôtures par km linéaire",
+  "Fencing unit cost per hectare (derived from US$/km via fenced area)":
+    "Coût unitaire des clôtures par hectare (déduit des US$/km via la surface clôturée)",
+  "Share of fencing cost attributable to labor":
+    "Part du coût des clôtures imputable à la main-d'œuvre",
+  "Share of fencing cost attributable to materials":
+    "Part du coût des clôtures imputable aux matériaux",
+  "Share of fencing cost attributable to machinery/services":
+    "Part du coût des clôtures imputable aux machines/services",
+  "Invasive species / weed control unit cost":
+    "Coût unitaire de la lutte contre les espèces envahissantes / du désherbage",
+  "Number of weed-control occurrences over the time horizon":
+    "Nombre d'opérations de désherbage sur l'horizon d'analyse",
+  "Share of weed-control cost attributable to labor":
+    "Part du coût du désherbage imputable à la main-d'œuvre",
+  "Share of weed-control cost attributable to materials":
+    "Part du coût du désherbage imputable aux matériaux",
+  "Share of weed-control cost attributable to machinery/services":
+    "Part du coût du désherbage imputable aux machines/services",
+  "Pest control unit cost":
+    "Coût unitaire de la lutte contre les ravageurs",
+  "Number of pest-control occurrences over the time horizon":
+    "Nombre d'opérations de lutte contre les ravageurs sur l'horizon d'analyse",
+  "Share of pest-control cost attributable to labor":
+    "Part du coût de la lutte contre les ravageurs imputable à la main-d'œuvre",
+  "Share of pest-control cost attributable to materials":
+    "Part du coût de la lutte contre les ravageurs imputable aux matériaux",
+  "Share of pest-control cost attributable to machinery/services":
+    "Part du coût de la lutte contre les ravageurs imputable aux machines/services",
+  "Implementation labor: share of hired (paid) workers (Hired+Family = 100%)":
+    "Main-d'œuvre de mise en œuvre : part des travailleurs salariés (rémunérés) (Salariée+Familiale = 100 %)",
+  "Implementation labor: share of family (unpaid) labor":
+    "Main-d'œuvre de mise en œuvre : part du travail familial (non rémunéré)",
+  "Maintenance labor: share of hired (paid) workers":
+    "Main-d'œuvre d'entretien : part des travailleurs salariés (rémunérés)",
+  "Maintenance labor: share of family (unpaid) labor":
+    "Main-d'œuvre d'entretien : part du travail familial (non rémunéré)",
+  "Regional reference: average daily wage for hired field workers":
+    "Référence régionale : salaire journalier moyen des ouvriers agricoles salariés",
+  "Regional reference: hourly cost of machinery":
+    "Référence régionale : coût horaire des machines",
+  "Regional reference: average annual land lease (rent) rate per hectare":
+    "Référence régionale : loyer annuel moyen de la terre par hectare",
+  "Share of total labor hours contributed by male workers (sum to 100% with Female/Other)":
+    "Part des heures de travail totales fournie par les hommes (total de 100 % avec Female/Other)",
+  "Share of total labor hours contributed by female workers":
+    "Part des heures de travail totales fournie par les femmes",
+  "Share of total labor hours contributed by non-binary / other workers":
+    "Part des heures de travail totales fournie par des personnes non binaires / autres",
+  "Respondent's declared total cost of the unfavorable scenario over the horizon. Empty when not declared":
+    "Coût total du scénario défavorable sur l'horizon déclaré par le répondant. Vide s'il n'est pas déclaré",
+  "Additive estimate: implementation + maintenance + Σ(constraint unit cost × occurrences)":
+    "Estimation additive : mise en œuvre + entretien + Σ(coût unitaire de la contrainte × occurrences)",
+  "Interaction adjustment = declared − computed; carried into the CBA cash flows. Empty when not declared":
+    "Ajustement d'interaction = déclaré − calculé ; reporté dans les flux de trésorerie de l'ACB. Vide s'il n'est pas déclaré",
+
+  // ── Entry currency ────────────────────────────────────────────────────────
+  "Currency of the amounts":
+    "Devise des montants",
+  "Exchange rate":
+    "Taux de change",
+  "{currency} per US$":
+    "{currency} pour 1 US$",
+  "Units of the local currency for 1 US$. Amounts are stored as entered and converted to US$ with this rate for the reference ranges, aggregation and the Excel export.":
+    "Unités de la devise locale pour 1 US$. Les montants sont conservés tels que saisis et convertis en US$ avec ce taux pour les plages de référence, l'agrégation et l'export Excel.",
+  "Exchange rate date":
+    "Date du taux de change",
+  "Currency":
+    "Devise",
+  "ISO 4217 code":
+    "code ISO 4217",
+  "local units per US$":
+    "unités locales pour 1 US$",
+  "Currency the respondent entered the amounts in (USD = entered in US dollars)":
+    "Devise dans laquelle le répondant a saisi les montants (USD = saisis en dollars américains)",
+  "Exchange rate used to convert the entered amounts to the US$ columns; amount as entered = US$ value × rate":
+    "Taux de change utilisé pour convertir les montants saisis dans les colonnes en US$ ; montant saisi = valeur en US$ × taux",
+  "Date the exchange rate was taken on":
+    "Date à laquelle le taux de change a été relevé",
+  "US dollar":
+    "Dollar américain",
+  "Argentine peso":
+    "Peso argentin",
+  "Bolivian boliviano":
+    "Boliviano bolivien",
+  "Brazilian real":
+    "Réal brésilien",
+  "Chilean peso":
+    "Peso chilien",
+  "Colombian peso":
+    "Peso colombien",
+  "Costa Rican colón":
+    "Colón costaricien",
+  "Euro":
+    "Euro",
+  "Guatemalan quetzal":
+    "Quetzal guatémaltèque",
+  "Honduran lempira":
+    "Lempira hondurien",
+  "Indonesian rupiah":
+    "Roupie indonésienne",
+  "Indian rupee":
+    "Roupie indienne",
+  "Kenyan shilling":
+    "Shilling kényan",
+  "Malagasy ariary":
+    "Ariary malgache",
+  "Mexican peso":
+    "Peso mexicain",
+  "Peruvian sol":
+    "Sol péruvien",
+  "Paraguayan guaraní":
+    "Guaraní paraguayen",
+  "Tanzanian shilling":
+    "Shilling tanzanien",
+  "Central African CFA franc":
+    "Franc CFA d'Afrique centrale",
+  "West African CFA franc":
+    "Franc CFA d'Afrique de l'Ouest",
+
+  // ── Area unit ─────────────────────────────────────────────────────────────
+  "Area unit":
+    "Unité de surface",
+  "Hectare":
+    "Hectare",
+  "Acre":
+    "Acre",
+  "Manzana":
+    "Manzana",
+  "Tarea":
+    "Tarea",
+  "ha | acre | manzana | tarea":
+    "ha | acre | manzana | tarea",
+  "Area unit the respondent used on the form; every area-denominated column is still per hectare":
+    "Unité de surface utilisée par le répondant dans le formulaire ; toutes les colonnes par surface restent par hectare",
+
+  // ── Questionnaire report ──────────────────────────────────────────────────
+  "Report":
+    "Rapport",
+  "Printable report of the questionnaire (print or save as PDF)":
+    "Rapport imprimable du questionnaire (imprimer ou enregistrer en PDF)",
+  "Questionnaire report":
+    "Rapport du questionnaire",
+  "Print / Save as PDF":
+    "Imprimer / Enregistrer en PDF",
+  "Close report":
+    "Fermer le rapport",
+  "Restoration cost questionnaire":
+    "Questionnaire sur les coûts de restauration",
+  "Report generated on {date}":
+    "Rapport généré le {date}",
+  "Identification":
+    "Identification",
+  "Item":
+    "Élément",
+  "{rate} {code} per US$":
+    "{rate} {code} par US$",
+  "Methods without data":
+    "Méthodes sans données",
+  "Context Constraints":
+    "Contraintes de contexte",
+  "Constraint":
+    "Contrainte",
+  "Occurrences":
+    "Occurrences",
+  "Firebreak area":
+    "Surface de pare-feu",
+  "Labor Breakdown":
+    "Répartition de la main-d'œuvre",
+  "Consistency checks":
+    "Contrôles de cohérence",
+  "Method":
+    "Méthode",
+  "Issue":
+    "Problème",
+  "Error":
+    "Erreur",
+  "Warning":
+    "Avertissement",
+  "Note":
+    "Remarque",
+  "Interaction adjustment":
+    "Ajustement d'interaction",
+  "No segments":
+    "Aucun segment",
+  "Maintenance":
+    "Entretien",
+  "Annual timeline ({unit})":
+    "Calendrier annuel ({unit})",
+  "Cost-benefit analysis":
+    "Analyse coûts-avantages",
+  "No results: the implementation cost is missing.":
+    "Pas de résultats : le coût de mise en œuvre manque.",
+  "Respondent":
+    "Répondant",
+  "Reviewer":
+    "Relecteur",
+  "Date":
+    "Date",
+
+  // ── Machinery hours ───────────────────────────────────────────────────────
+  "Enter the machinery unit cost per hour to derive the machinery hours implied by the machinery shares.":
+    "Saisissez le coût unitaire des machines par heure pour déduire les heures de machines impliquées par les parts de machines.",
+  "The implementation cost implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "Le coût de mise en œuvre implique {hours} heures de machines par ha, plus que les {max} h/ha plausibles pour cette méthode. Vérifiez la part des machines et le coût unitaire des machines.",
+  "Maintenance in year {year} implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "L'entretien de l'année {year} implique {hours} heures de machines par ha, plus que les {max} h/ha plausibles pour cette méthode. Vérifiez la part des machines et le coût unitaire des machines.",
+
+  // ── Employment ────────────────────────────────────────────────────────────
+  "Employment":
+    "Emploi",
+  "Labor person-days and full-time-equivalent jobs over {horizon} years per restoration method":
+    "Jours-personne de travail et emplois équivalent temps plein sur {horizon} ans par méthode de restauration",
+  "Enter the hired labor cost per day in Section 4 to derive person-days and jobs.":
+    "Saisissez le coût journalier de la main-d'œuvre salariée à la section 4 pour déduire les jours-personne et les emplois.",
+  "days/{area}":
+    "jours/{area}",
+  "Person-Days":
+    "Jours-Personne",
+  "{unit} over {years} years":
+    "{unit} sur {years} ans",
+  "Jobs in Year 1":
+    "Emplois en année 1",
+  "FTE per 1,000 ha during implementation":
+    "ETP pour 1 000 ha pendant la mise en œuvre",
+  "Jobs in Maintenance":
+    "Emplois en entretien",
+  "Mean FTE per 1,000 ha, years 2–{last}":
+    "ETP moyen pour 1 000 ha, années 2–{last}",
+  "Average Jobs":
+    "Emplois moyens",
+  "Mean FTE per 1,000 ha over the horizon ({days} days = 1 FTE)":
+    "ETP moyen pour 1 000 ha sur l'horizon ({days} jours = 1 ETP)",
+  "Person-Days by Year ({unit})":
+    "Jours-personne par année ({unit})",
+  "Labor in the implementation, maintenance and constraint costs, hired vs non-hired.":
+    "Main-d'œuvre dans les coûts de mise en œuvre, d'entretien et de contraintes, salariée vs non salariée.",
+  "Hired":
+    "Salariée",
+  "Non-hired":
+    "Non salariée",
+  "Person-Days by Gender ({unit})":
+    "Jours-personne par genre ({unit})",
+  "Total person-days split by the gender distribution of Section 4.":
+    "Total des jours-personne réparti selon la distribution par genre de la section 4.",
+  "Person-days":
+    "Jours-personne",
+  "Phase":
+    "Phase",
+  "Person-Days ({unit})":
+    "Jours-personne ({unit})",
+  "Non-Hired":
+    "Non salariée",
+  "FTE per 1,000 ha":
+    "ETP pour 1 000 ha",
+  "Maintenance (Years 2–{last})":
+    "Entretien (années 2–{last})",
+  "Whole horizon":
+    "Horizon complet",
+  "Person-Days (days/ha)":
+    "Jours-personne (jours/ha)",
+  "Hired (days/ha)":
+    "Salariée (jours/ha)",
+  "Non-Hired (days/ha)":
+    "Non salariée (jours/ha)",
+  "Male (days/ha)":
+    "Hommes (jours/ha)",
+  "Female (days/ha)":
+    "Femmes (jours/ha)",
+  "Others (days/ha)":
+    "Autres (jours/ha)",
+  "Implementation (days/ha)":
+    "Mise en œuvre (jours/ha)",
+  "Maintenance (days/ha)":
+    "Entretien (jours/ha)",
+  "FTE per 1,000 ha — Year 1":
+    "ETP pour 1 000 ha — année 1",
+  "FTE per 1,000 ha — Maintenance (mean)":
+    "ETP pour 1 000 ha — entretien (moyenne)",
+  "FTE per 1,000 ha — Horizon (mean)":
+    "ETP pour 1 000 ha — horizon (moyenne)",
+  "Project Year":
+    "Année du projet",
+  "Implementation":
+    "Mise en œuvre",
+  "EMPLOYMENT — labor in the costs ÷ hired labor rate; 1 FTE = {days} days/year":
+    "EMPLOI — main-d'œuvre dans les coûts ÷ salaire journalier; 1 ETP = {days} jours/an",
+  "PERSON-DAYS BY YEAR":
+    "JOURS-PERSONNE PAR ANNÉE",
+
+  // ── Project scenario ──────────────────────────────────────────────────────
+  "Project Scenario":
+    "Scénario de projet",
+  "Scale the per-hectare results to a project: area per method, planting schedule and total budget":
+    "Passez des résultats par hectare à un projet : surface par méthode, calendrier de plantation et budget total",
+  "Enter the area implemented with each method in each project year. Every planting follows the method's per-hectare cash flow from its own year, so the project runs until the last planting reaches the end of the {horizon}-year horizon. Methods without an implementation cost are left out.":
+    "Saisissez la surface mise en œuvre avec chaque méthode pour chaque année du projet. Chaque plantation suit le flux de trésorerie par hectare de la méthode à partir de sa propre année : le projet dure jusqu'à ce que la dernière plantation atteigne la fin de l'horizon de {horizon} ans. Les méthodes sans coût de mise en œuvre sont exclues.",
+  "Planting schedule (project year / area in {unit})":
+    "Calendrier de plantation (année du projet / surface en {unit})",
+  "Total ({unit})":
+    "Total ({unit})",
+  "Project year":
+    "Année du projet",
+  "Area":
+    "Surface",
+  "Remove planting year":
+    "Supprimer l'année de plantation",
+  "Add planting year":
+    "Ajouter une année de plantation",
+  "Check the planting schedule: project years are whole numbers from 1, areas cannot be negative.":
+    "Vérifiez le calendrier de plantation : les années du projet sont des nombres entiers à partir de 1 et les surfaces ne peuvent pas être négatives.",
+  "Constraint Costs in Year 1":
+    "Coûts des contraintes en année 1",
+  "% of full cost":
+    "% du coût total",
+  "Share of the per-hectare firebreak, fencing, weed and pest control costs incurred in the first project year":
+    "Part des coûts par hectare de pare-feu, clôtures, lutte contre les adventices et les ravageurs engagée la première année du projet",
+  "Constraint Ramp-Up Period":
+    "Période de montée en charge des contraintes",
+  "Project years over which the constraint costs rise linearly to their full level. 0 = full costs from year 1":
+    "Années du projet pendant lesquelles les coûts des contraintes augmentent linéairement jusqu'à leur niveau plein. 0 = coûts pleins dès l'année 1",
+  "Add a planting year with an area to a method with an implementation cost to see project results.":
+    "Ajoutez une année de plantation avec une surface à une méthode ayant un coût de mise en œuvre pour voir les résultats du projet.",
+  "Total Area":
+    "Surface totale",
+  "over {years} project years":
+    "sur {years} années de projet",
+  "Total Budget":
+    "Budget total",
+  "cash outlays, undiscounted (economic cost {cost})":
+    "décaissements, non actualisés (coût économique {cost})",
+  "Peak Financing Need":
+    "Besoin de financement maximal",
+  "largest cumulative cash deficit, year {year}":
+    "plus grand déficit de trésorerie cumulé, année {year}",
+  "the cash position never goes negative":
+    "la trésorerie ne devient jamais négative",
+  "Project NPV":
+    "VAN du projet",
+  "@ {rate}, economic (financial {npv})":
+    "à {rate}, économique (financière {npv})",
+  "Project Cash Flow by Year ({currency})":
+    "Flux de trésorerie du projet par année ({currency})",
+  "Cash outlays and benefits of all plantings, with the cumulative cash position.":
+    "Décaissements et bénéfices de toutes les plantations, avec la trésorerie cumulée.",
+  "Cash outlays":
+    "Décaissements",
+  "Benefits":
+    "Bénéfices",
+  "Cumulative cash position":
+    "Trésorerie cumulée",
+  "Area ({unit})":
+    "Surface ({unit})",
+  "Budget (cash outlays)":
+    "Budget (décaissements)",
+  "Economic Cost":
+    "Coût économique",
+  "NPV @{rate}":
+    "VAN à {rate}",
+  "Project":
+    "Projet",
+  "Export project workbook (.xlsx)":
+    "Exporter le classeur du projet (.xlsx)",
+  "Area (ha)":
+    "Surface (ha)",
+  "Total Cost, economic (US$)":
+    "Coût total, économique (US$)",
+  "Budget, cash outlays (US$)":
+    "Budget, décaissements (US$)",
+  "Total Benefits (US$)":
+    "Bénéfices totaux (US$)",
+  "NPV @{rate} (US$)":
+    "VAN à {rate} (US$)",
+  "Financial NPV @{rate} (US$)":
+    "VAN financière à {rate} (US$)",
+  "PROJECT COST-BENEFIT ANALYSIS":
+    "ANALYSE COÛTS-AVANTAGES DU PROJET",
+  "Project Length (years)":
+    "Durée du projet (années)",
+  "Total Area (ha)":
+    "Surface totale (ha)",
+  "Total Budget, cash outlays (US$)":
+    "Budget total, décaissements (US$)",
+  "Project NPV @{rate} (US$)":
+    "VAN du projet à {rate} (US$)",
+  "Project Financial NPV @{rate} (US$)":
+    "VAN financière du projet à {rate} (US$)",
+  "Peak Financing Need (US$)":
+    "Besoin de financement maximal (US$)",
+  "Peak Financing Year":
+    "Année du besoin maximal",
+  "N/A":
+    "N/D",
+  "PLANTING SCHEDULE":
+    "CALENDRIER DE PLANTATION",
+  "CONSTRAINT COST RAMP-UP":
+    "MONTÉE EN CHARGE DES COÛTS DES CONTRAINTES",
+  "Share in Year 1 (%)":
+    "Part en année 1 (%)",
+  "Years to 100%":
+    "Années jusqu'à 100 %",
+  "Constraint Costs Incurred (%)":
+    "Coûts des contraintes engagés (%)",
+  "Area Planted (ha)":
+    "Surface plantée (ha)",
+  "Area Managed (ha)":
+    "Surface gérée (ha)",
+  "Maintenance Cost":
+    "Coût d'entretien",
+  "Constraint Cost (after ramp-up)":
+    "Coût des contraintes (après montée en charge)",
+  "Adjustment, Land & Shadow Labor":
+    "Ajustement, terre et main-d'œuvre fictive",
+  "Total Cost (economic)":
+    "Coût total (économique)",
+  "Total Benefits":
+    "Bénéfices totaux",
+  "Net Cash Flow":
+    "Flux de trésorerie net",
+  "Discounted Net Flow":
+    "Flux net actualisé",
+  "Financial Cost (cash outlays)":
+    "Coût financier (décaissements)",
+  "Financial Net Flow":
+    "Flux net financier",
+  "Cumulative Financial Net":
+    "Solde financier cumulé",
+
+  // ── Regional extrapolation and CBA results ────────────────────────────────
+  "{horizon}-year NPV, IRR, BCR and cash-flow projections per restoration method":
+    "VAN, TRI, RBC et projections de flux de trésorerie sur {horizon} ans par méthode de restauration",
+  "Origin (where the data was collected)":
+    "Origine (où les données ont été collectées)",
+  "Target region":
+    "Région cible",
+  "Select region…":
+    "Choisissez la région…",
+  "Each cost is re-priced with its labor / materials / machinery shares: AdjustedCost = Σ (share × target index ÷ origin index) × cost. NTFP and carbon revenues are not changed. The bundled indices are illustrative — review them before use.":
+    "Chaque coût est réévalué avec ses parts de main-d'œuvre / matériaux / machines : CoûtAjusté = Σ (part × indice cible ÷ indice d'origine) × coût. Les revenus des PFNL et du carbone ne changent pas. Les indices fournis sont indicatifs — vérifiez-les avant usage.",
+  "Hide price index table":
+    "Masquer la table des indices de prix",
+  "Edit price index table":
+    "Modifier la table des indices de prix",
+  "Region":
+    "Région",
+  "Remove region":
+    "Supprimer la région",
+  "New region":
+    "Nouvelle région",
+  "Add region":
+    "Ajouter une région",
+  "Reset to bundled values":
+    "Rétablir les valeurs fournies",
+  "Complete at least one method's costs to extrapolate.":
+    "Renseignez les coûts d'au moins une méthode pour extrapoler.",
+  "Select an origin and a target region to compare.":
+    "Choisissez une région d'origine et une région cible pour comparer.",
+  "Total cost ({region})":
+    "Coût total ({region})",
+  "NPV ({region})":
+    "VAN ({region})",
+  "BCR ({region})":
+    "RBC ({region})",
+  "Export comparison (.xlsx)":
+    "Exporter la comparaison (.xlsx)",
+
+  // ── CBA results panel ─────────────────────────────────────────────────────
+  "Results in {currency}":
+    "Résultats en {currency}",
+  "Complete at least one method's costs to see results.":
+    "Renseignez les coûts d'au moins une méthode pour voir les résultats.",
+  "Economic NPV ({rate} discount)":
+    "VAN économique (actualisation à {rate})",
+  "NPV ({rate} discount)":
+    "VAN (actualisation à {rate})",
+  "{horizon}-year NPV with non-hired labor and land at their opportunity cost":
+    "VAN sur {horizon} ans avec la main-d'œuvre non salariée et la terre à leur coût d'opportunité",
+  "{horizon}-year net present value":
+    "Valeur actuelle nette sur {horizon} ans",
+  "Financial NPV ({rate} discount)":
+    "VAN financière (actualisation à {rate})",
+  "Cash outlays only · BCR {bcr} · IRR {irr}":
+    "Décaissements seulement · RBC {bcr} · TRI {irr}",
+  "BCR":
+    "RBC",
+  "Benefit-cost ratio":
+    "Rapport bénéfices-coûts",
+  "IRR":
+    "TRI",
+  "Internal rate of return":
+    "Taux de rentabilité interne",
+  "Payback Year":
+    "Année de retour sur investissement",
+  "Year {year}":
+    "Année {year}",
+  "Not reached":
+    "Non atteint",
+  "Discounted payback":
+    "Retour actualisé",
+  "Carbon Revenue":
+    "Revenus carbone",
+  "{credits} tCO2/{area} credited ({rate} t/{area}/yr gross)":
+    "{credits} tCO2/{area} créditées ({rate} t/{area}/an brut)",
+  "Cost per tCO2":
+    "Coût par tCO2",
+  "Discounted cost per tonne sequestered":
+    "Coût actualisé par tonne séquestrée",
+  "Annual Cost Components ({unit})":
+    "Composantes annuelles des coûts ({unit})",
+  "Stacked breakdown by implementation, maintenance, and constraint costs per year, plus any interaction adjustment, land opportunity cost and shadow-wage revaluation of non-hired labor.":
+    "Répartition annuelle empilée des coûts de mise en œuvre, d'entretien et de contraintes, plus l'éventuel ajustement d'interaction, le coût d'opportunité de la terre et la revalorisation de la main-d'œuvre non salariée au salaire fictif.",
+  "Constraints":
+    "Contraintes",
+  "Interaction adj.":
+    "Ajust. d'interaction",
+  "Land opportunity cost":
+    "Coût d'opportunité de la terre",
+  "Shadow labor adj.":
+    "Ajust. salaire fictif",
+  "NPV Sensitivity to Discount Rate":
+    "Sensibilité de la VAN au taux d'actualisation",
+  "How different discount rate assumptions affect net present value.":
+    "Effet de différentes hypothèses de taux d'actualisation sur la valeur actuelle nette.",
+  "NPV":
+    "VAN",
+  "NPV ({unit})":
+    "VAN ({unit})",
+  "Total Costs (undiscounted)":
+    "Coûts totaux (non actualisés)",
+  "Total Costs (disc. {rate})":
+    "Coûts totaux (act. {rate})",
+  "of which Land Opportunity Cost (undiscounted)":
+    "dont coût d'opportunité de la terre (non actualisé)",
+  "Non-Hired Labor in Costs (as entered)":
+    "Main-d'œuvre non salariée dans les coûts (telle que saisie)",
+  "Total Benefits (undiscounted)":
+    "Bénéfices totaux (non actualisés)",
+  "Total Benefits (disc. {rate})":
+    "Bénéfices totaux (act. {rate})",
+  "One-Way Sensitivity (±{pct}%)":
+    "Sensibilité univariée (±{pct} %)",
+  "Change in NPV when each driver moves down or up by {pct}% with everything else held at its point estimate; base NPV {npv}. Drivers are ranked by NPV swing.":
+    "Variation de la VAN quand chaque facteur baisse ou monte de {pct} %, tout le reste étant maintenu à son estimation ponctuelle ; VAN de base {npv}. Les facteurs sont classés par amplitude de la VAN.",
+  "No driver changes the NPV.":
+    "Aucun facteur ne modifie la VAN.",
+  "{change} (NPV {npv})":
+    "{change} (VAN {npv})",
+  "Driver −{pct}%":
+    "Facteur −{pct} %",
+  "Driver +{pct}%":
+    "Facteur +{pct} %",
+  "Implementation cost":
+    "Coût de mise en œuvre",
+  "Maintenance — {activity}":
+    "Entretien — {activity}",
+  "Maintenance cost":
+    "Coût d'entretien",
+  "Weed Control / Invasive Species":
+    "Désherbage / Espèces envahissantes",
+  "Pest Control / Pest Infestation":
+    "Lutte antiparasitaire / Infestation de ravageurs",
+  "NTFP price":
+    "Prix du PFNL",
+  "NTFP productivity":
+    "Productivité du PFNL",
+  "Discount rate":
+    "Taux d'actualisation",
+  "Unlabelled":
+    "Sans libellé",
+
+  // ── Summary and reference ranges ──────────────────────────────────────────
+  "Reference range check":
+    "Contrôle des plages de référence",
+  "All entered costs, NTFP prices and productivities are within the reference ranges.":
+    "Tous les coûts, prix et productivités de PFNL saisis sont dans les plages de référence.",
+  "{count} value is outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valeur est hors de la plage attendue pour cet écosystème et cette méthode. Vérifiez les unités et les montants annuels vs totaux ; gardez la valeur si elle est correcte.",
+  "{count} values are outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valeurs sont hors de la plage attendue pour cet écosystème et cette méthode. Vérifiez les unités et les montants annuels vs totaux ; gardez la valeur si elle est correcte.",
+  "Entered":
+    "Saisi",
+  "Expected range":
+    "Plage attendue",
+  "Deviation":
+    "Écart",
+  "Source":
+    "Source",
+  "bundled":
+    "fournie",
+  "aggregated":
+    "agrégée",
+  "{method} — Implementation cost":
+    "{method} — Coût de mise en œuvre",
+  "{method} — {activity}, years {from}–{to}":
+    "{method} — {activity}, années {from}–{to}",
+  "{method} — NTFP price":
+    "{method} — Prix du PFNL",
+  "{method} — NTFP productivity (average)":
+    "{method} — Productivité du PFNL (moyenne)",
+  "Firebreak unit cost":
+    "Coût unitaire du pare-feu",
+  "Fencing unit cost":
+    "Coût unitaire de la clôture",
+  "Weed control unit cost":
+    "Coût unitaire du désherbage",
+  "Maintenance of regenerating individuals":
+    "Entretien des individus en régénération",
+  "Maintenance of NTFP species":
+    "Entretien des espèces de PFNL",
+  "Monitoring General Maintenance Activities":
+    "Suivi et activités générales d'entretien",
+  "{value} is {pct}% above the expected {range} ({source} range)":
+    "{value} est {pct} % au-dessus de la plage attendue {range} (plage {source})",
+  "{value} is {pct}% below the expected {range} ({source} range)":
+    "{value} est {pct} % en dessous de la plage attendue {range} (plage {source})",
+  "{value} is {pct}% above the expected {range} ({source} range for {ecosystem})":
+    "{value} est {pct} % au-dessus de la plage attendue {range} (plage {source} pour {ecosystem})",
+  "{value} is {pct}% below the expected {range} ({source} range for {ecosystem})":
+    "{value} est {pct} % en dessous de la plage attendue {range} (plage {source} pour {ecosystem})",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range).":
+    "{field} : {value} est {pct} % au-dessus de la plage attendue {range} (plage {source}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range).":
+    "{field} : {value} est {pct} % en dessous de la plage attendue {range} (plage {source}).",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range for {ecosystem}).":
+    "{field} : {value} est {pct} % au-dessus de la plage attendue {range} (plage {source} pour {ecosystem}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range for {ecosystem}).":
+    "{field} : {value} est {pct} % en dessous de la plage attendue {range} (plage {source} pour {ecosystem}).",
+  "Favorable":
+    "Favorable",
+  "Unfavorable":
+    "Défavorable",
+  "Favorable:":
+    "Favorable :",
+  "Unfavorable:":
+    "Défavorable :",
+  "Cost Breakdown ({unit})":
+    "Répartition des coûts ({unit})",
+  "Production Factors (%)":
+    "Facteurs de production (%)",
+  "Favorable & Unfavorable factor shares don't sum to 100%.":
+    "Les parts des facteurs des scénarios favorable et défavorable ne font pas 100 %.",
+  "Favorable factor shares don't sum to 100%.":
+    "Les parts des facteurs du scénario favorable ne font pas 100 %.",
+  "Unfavorable factor shares don't sum to 100%.":
+    "Les parts des facteurs du scénario défavorable ne font pas 100 %.",
+  "Context Constraints & Additional Costs":
+    "Contraintes de contexte et coûts supplémentaires",
+  "Occurrences / Area":
+    "Occurrences / Surface",
+  "Firebreak Area ({unit})":
+    "Surface de pare-feu ({unit})",
+  "Total Cost ({unit})":
+    "Coût total ({unit})",
+  "Total Additional Cost":
+    "Coût supplémentaire total",
+  "Machinery Hours":
+    "Heures de machines",
+  "Cost Line":
+    "Poste de coût",
+  "Machinery Cost ({unit})":
+    "Coût des machines ({unit})",
+  "Hours ({unit})":
+    "Heures ({unit})",
+  "Total over the horizon (plausible per year: ≤ {hours} {unit})":
+    "Total sur l'horizon (plausible par an : ≤ {hours} {unit})",
+  "Enter the machinery unit cost per hour in Section 4 to derive the machinery hours.":
+    "Saisissez le coût unitaire des machines par heure à la section 4 pour obtenir les heures de machines.",
+  "Unfavorable Scenario":
+    "Scénario défavorable",
+  "Favorable cost + Σ constraint costs (computed)":
+    "Coût favorable + Σ coûts des contraintes (calculé)",
+  "Declared unfavorable cost":
+    "Coût défavorable déclaré",
+  "Interaction adjustment (declared − computed)":
+    "Ajustement d'interaction (déclaré − calculé)",
+  "Use “Interpret as total and spread over years” in the method tab if it was a total.":
+    "Utilisez « Interpréter comme un total et répartir sur les années » dans l'onglet de la méthode s'il s'agissait d'un total.",
+  "Firebreaks":
+    "Pare-feu",
+
+  // ── Uncertainty analysis ──────────────────────────────────────────────────
+  "Uncertainty Analysis (Monte Carlo)":
+    "Analyse d'incertitude (Monte-Carlo)",
+  "Give any input a distribution, then run the simulation. Inputs without a distribution keep their point estimate. The same seed always gives the same results.":
+    "Attribuez une distribution à n'importe quelle entrée, puis lancez la simulation. Les entrées sans distribution gardent leur estimation ponctuelle. La même graine donne toujours les mêmes résultats.",
+  "Input":
+    "Entrée",
+  "Point estimate":
+    "Estimation ponctuelle",
+  "Distribution":
+    "Distribution",
+  "Parameters":
+    "Paramètres",
+  "None (point estimate)":
+    "Aucune (estimation ponctuelle)",
+  "Triangular":
+    "Triangulaire",
+  "± % band":
+    "Bande ± %",
+  "Minimum":
+    "Minimum",
+  "Mode":
+    "Mode",
+  "Maximum":
+    "Maximum",
+  "min / mode / max":
+    "min / mode / max",
+  "Band":
+    "Bande",
+  "Check the distributions: for triangular inputs, min ≤ mode ≤ max.":
+    "Vérifiez les distributions : pour les entrées triangulaires, min ≤ mode ≤ max.",
+  "Iterations":
+    "Itérations",
+  "Seed":
+    "Graine",
+  "Run simulation":
+    "Lancer la simulation",
+  "NPV P10":
+    "VAN P10",
+  "NPV P50":
+    "VAN P50",
+  "NPV P90":
+    "VAN P90",
+  "P(NPV > 0)":
+    "P(VAN > 0)",
+  "{runs} runs, seed {seed} — no input has a distribution, so every run is identical.":
+    "{runs} tirages, graine {seed} — aucune entrée n'a de distribution, donc tous les tirages sont identiques.",
+  "{runs} runs, seed {seed}.":
+    "{runs} tirages, graine {seed}.",
+  "IRR P50: {irr} · BCR P50: {bcr}":
+    "TRI P50 : {irr} · RBC P50 : {bcr}",
+  "Runs":
+    "Tirages",
+  "Simulated net present value":
+    "Valeur actuelle nette simulée",
+  "Maintenance cost (total)":
+    "Coût d'entretien (total)",
+  "NTFP productivity (average)":
+    "Productivité du PFNL (moyenne)",
+  "NTFP revenue (total)":
+    "Recettes du PFNL (total)",
+  "Carbon price":
+    "Prix du carbone",
+
+  // ── CBA external assumptions ──────────────────────────────────────────────
+  "These parameters are not asked of the respondent. Change them to test other assumptions; the values used are saved with the form and written to the Parameters sheet of the CBA workbook.":
+    "Ces paramètres ne sont pas demandés au répondant. Modifiez-les pour tester d'autres hypothèses ; les valeurs utilisées sont enregistrées avec le formulaire et écrites dans la feuille Paramètres du classeur de l'ACB.",
+  "Discounting":
+    "Actualisation",
+  "Sensitivity Discount Rates":
+    "Taux d'actualisation de la sensibilité",
+  "Remove rate":
+    "Supprimer le taux",
+  "+ Add rate":
+    "+ Ajouter un taux",
+  "Carbon":
+    "Carbone",
+  "Timing of Costs & Revenues":
+    "Calendrier des coûts et des recettes",
+  "Land Opportunity Cost":
+    "Coût d'opportunité de la terre",
+  "Charges the regional land lease from Section 4 ({lease}/{area}/year) as a cost in every year, so the headline NPV becomes the economic NPV. The financial NPV, without the forgone rent, is reported next to it.":
+    "Impute le fermage régional de la section 4 ({lease}/{area}/an) comme coût chaque année, de sorte que la VAN principale devient la VAN économique. La VAN financière, sans le loyer auquel on renonce, est indiquée à côté.",
+  "Include the land opportunity cost in the cash flow":
+    "Inclure le coût d'opportunité de la terre dans les flux de trésorerie",
+  "Land Cost Starts":
+    "Début du coût de la terre",
+  "Year 1 (from implementation)":
+    "Année 1 (dès la mise en œuvre)",
+  "Year 2 (after implementation)":
+    "Année 2 (après la mise en œuvre)",
+  "Land Lease Escalation":
+    "Indexation du fermage",
+  "%/yr":
+    "%/an",
+  "Annual real change of the land lease; 0 keeps it flat":
+    "Variation réelle annuelle du fermage ; 0 le maintient constant",
+  "Non-Hired Labor":
+    "Main-d'œuvre non salariée",
+  "The non-hired share of each phase (Section 4) applied to the labor share of the implementation, maintenance and constraint costs is treated as unpaid: the financial view leaves it out of the cash outflows, the economic view values it at the shadow wage below.":
+    "La part non salariée de chaque phase (section 4), appliquée à la part de main-d'œuvre des coûts de mise en œuvre, d'entretien et de contraintes, est traitée comme non rémunérée : la vue financière l'exclut des décaissements, la vue économique la valorise au salaire fictif ci-dessous.",
+  "Shadow Wage":
+    "Salaire fictif",
+  "% of hired rate":
+    "% du taux salarié",
+  "≈ {shadow}/day against a hired rate of {hired}/day; 100 values non-hired labor like hired labor":
+    "≈ {shadow}/jour pour un taux salarié de {hired}/jour ; 100 valorise la main-d'œuvre non salariée comme la main-d'œuvre salariée",
+  "100 values non-hired labor like hired labor":
+    "100 valorise la main-d'œuvre non salariée comme la main-d'œuvre salariée",
+  "Reset to defaults":
+    "Rétablir les valeurs par défaut",
+
+  // ── Saved models library ──────────────────────────────────────────────────
+  "Saved Models ({count})":
+    "Modèles enregistrés ({count})",
+  "Could not load the saved model: {error}":
+    "Impossible de charger le modèle enregistré : {error}",
+  "Delete \"{name}\"? This cannot be undone.":
+    "Supprimer « {name} » ? Cette action est irréversible.",
+  "Delete {count} saved questionnaire? This cannot be undone.":
+    "Supprimer {count} questionnaire enregistré ? Cette action est irréversible.",
+  "Delete {count} saved questionnaires? This cannot be undone.":
+    "Supprimer {count} questionnaires enregistrés ? Cette action est irréversible.",
+  "Search name or tag":
+    "Rechercher un nom ou une étiquette",
+  "All ecosystems":
+    "Tous les écosystèmes",
+  "From":
+    "Du",
+  "To":
+    "Au",
+  "Sort by":
+    "Trier par",
+  "Sort: {key}":
+    "Tri : {key}",
+  "Last saved":
+    "Dernier enregistrement",
+  "Collection date":
+    "Date de collecte",
+  "Headline NPV":
+    "VAN principale",
+  "Toggle sort direction":
+    "Inverser l'ordre de tri",
+  "↓ Desc":
+    "↓ Décr.",
+  "↑ Asc":
+    "↑ Croiss.",
+  "Select all shown":
+    "Tout sélectionner parmi les affichés",
+  "{shown} of {total} shown · {selected} selected":
+    "{shown} sur {total} affichés · {selected} sélectionnés",
+  "Export selected":
+    "Exporter la sélection",
+  "Compare the selected questionnaires side by side":
+    "Comparer côte à côte les questionnaires sélectionnés",
+  "Compare selected":
+    "Comparer la sélection",
+  "Aggregate the selected respondents into reference values":
+    "Agréger les répondants sélectionnés en valeurs de référence",
+  "Aggregate selected":
+    "Agréger la sélection",
+  "Delete selected":
+    "Supprimer la sélection",
+  "Select {name}":
+    "Sélectionner {name}",
+  "Tags, comma-separated":
+    "Étiquettes, séparées par des virgules",
+  "Save":
+    "Enregistrer",
+  "Cancel":
+    "Annuler",
+  "No identification":
+    "Sans identification",
+  "collected {date} · saved {saved}":
+    "collecté le {date} · enregistré le {saved}",
+  "{complete}/{answered} methods complete":
+    "{complete}/{answered} méthodes complètes",
+  "Best NPV {npv}/ha ({method})":
+    "Meilleure VAN {npv}/ha ({method})",
+  "NPV not available":
+    "VAN non disponible",
+  "Load into form":
+    "Charger dans le formulaire",
+  "Load":
+    "Charger",
+  "Rename / edit tags":
+    "Renommer / modifier les étiquettes",
+  "Duplicate":
+    "Dupliquer",
+  "Delete":
+    "Supprimer",
+  "No saved questionnaire matches the filters.":
+    "Aucun questionnaire enregistré ne correspond aux filtres.",
+
+  // ── Respondent aggregation ────────────────────────────────────────────────
+  "Could not read:":
+    "Lecture impossible :",
+  "No group has enough respondents (at least 3 with a positive weight) to derive reference ranges.":
+    "Aucun groupe n'a assez de répondants (au moins 3 avec un poids positif) pour en dériver des plages de référence.",
+  "Replace the stored aggregated reference ranges with {count} ranges from these respondents?":
+    "Remplacer les plages de référence agrégées enregistrées par {count} plages issues de ces répondants ?",
+  "Aggregating {count} respondents":
+    "Agrégation de {count} répondants",
+  "Add exported JSON or Excel questionnaires":
+    "Ajouter des questionnaires exportés en JSON ou Excel",
+  "Add files":
+    "Ajouter des fichiers",
+  "Export Aggregated":
+    "Exporter l'agrégation",
+  "Use these groups as reference ranges for the outlier check (Q1 − 1.5·IQR to Q3 + 1.5·IQR)":
+    "Utiliser ces groupes comme plages de référence pour le contrôle des valeurs aberrantes (Q1 − 1,5·EI à Q3 + 1,5·EI)",
+  "Use as reference ranges":
+    "Utiliser comme plages de référence",
+  "Close aggregation":
+    "Fermer l'agrégation",
+  "Close":
+    "Fermer",
+  "Weight":
+    "Poids",
+  "Remove from aggregation":
+    "Retirer de l'agrégation",
+  "Group (ecosystem · country · method)":
+    "Groupe (écosystème · pays · méthode)",
+  "Weighted statistics over the group's respondents. ▲ / ▼ mark a respondent's value above / below the group's interquartile range (Q1–Q3).":
+    "Statistiques pondérées des répondants du groupe. ▲ / ▼ signalent une valeur au-dessus / au-dessous de l'écart interquartile du groupe (Q1–Q3).",
+  "no ecosystem":
+    "sans écosystème",
+  "no country":
+    "sans pays",
+  "Mean":
+    "Moyenne",
+  "Median":
+    "Médiane",
+  "IQR (Q1–Q3)":
+    "EI (Q1–Q3)",
+  "Min":
+    "Min.",
+  "Max":
+    "Max.",
+  "No answered method to aggregate. Add respondents with a positive weight.":
+    "Aucune méthode renseignée à agréger. Ajoutez des répondants avec un poids positif.",
+
+  // ── Questionnaire comparison ──────────────────────────────────────────────
+  "Comparing {count} questionnaires":
+    "Comparaison de {count} questionnaires",
+  "Close comparison":
+    "Fermer la comparaison",
+  "Highlight differences above (% of mean)":
+    "Mettre en évidence les écarts supérieurs à (% de la moyenne)",
+  "{flagged} of {total} items differ by more than {threshold}% between the answers. “—” means the method is disabled in that questionnaire.":
+    "{flagged} éléments sur {total} diffèrent de plus de {threshold} % entre les réponses. « — » indique que la méthode est désactivée dans ce questionnaire.",
+  "Spread":
+    "Dispersion",
+  "Cumulative Discounted Net Cash Flow — {method}":
+    "Flux de trésorerie net actualisé cumulé — {method}",
+  "Each line ends at that questionnaire's NPV. Models without a cost for this method are omitted.":
+    "Chaque courbe se termine à la VAN de ce questionnaire. Les modèles sans coût pour cette méthode sont omis.",
+  "No questionnaire has an implementation cost for this method.":
+    "Aucun questionnaire n'a de coût de mise en œuvre pour cette méthode.",
+  "Year":
+    "Année",
+  "{name} (NPV {npv})":
+    "{name} (VAN {npv})",
+  "Headline indicators":
+    "Indicateurs clés",
+  "Indicator":
+    "Indicateur",
+  "NPV (US$/ha)":
+    "VAN (US$/ha)",
+  "Payback year":
+    "Année de retour sur investissement",
+  "Horizon (years)":
+    "Horizon (années)",
+  "NTFP":
+    "PFNL",
+  "Context constraints":
+    "Contraintes de contexte",
+  "Labor share":
+    "Part de la main-d'œuvre",
+  "Materials share":
+    "Part des matériaux",
+  "Machinery share":
+    "Part des machines",
+  "Maintenance total":
+    "Entretien total",
+  "Other / unlabelled activities":
+    "Autres activités / sans libellé",
+  "Implementation hired labor":
+    "Main-d'œuvre salariée — mise en œuvre",
+  "Maintenance hired labor":
+    "Main-d'œuvre salariée — entretien",
+  "Hired labor daily wage":
+    "Salaire journalier de la main-d'œuvre salariée",
+  "Machinery unit cost":
+    "Coût unitaire des machines",
+  "Land lease":
+    "Location des terres",
+  "Female share of labor":
+    "Part des femmes dans la main-d'œuvre",
+  "{item} unit cost":
+    "{item} : coût unitaire",
+  "{item} occurrences":
+    "{item} : occurrences",
+  "{item} fenced area":
+    "{item} : surface clôturée",
+  "US$/ha (total)":
+    "US$/ha (total)",
+  "kg/ha/yr":
+    "kg/ha/an",
+  "US$/day":
+    "US$/jour",
+  "US$/hour":
+    "US$/heure",
+  "US$/ha/yr":
+    "US$/ha/an",
+
+  // ── CBA workbook ──────────────────────────────────────────────────────────
+  "COST-BENEFIT ANALYSIS — KEY PARAMETERS":
+    "ANALYSE COÛTS-BÉNÉFICES — PARAMÈTRES CLÉS",
+  "User":
+    "Utilisateur",
+  "Time Horizon (years)":
+    "Horizon temporel (années)",
+  "EXTERNAL ASSUMPTIONS":
+    "HYPOTHÈSES EXTERNES",
+  "Discount Rate":
+    "Taux d'actualisation",
+  "Carbon Price (US$/tCO2)":
+    "Prix du carbone (US$/tCO2)",
+  "Carbon Price Escalation (%/yr)":
+    "Progression du prix du carbone (%/an)",
+  "Carbon Buffer Pool (%)":
+    "Réserve tampon de carbone (%)",
+  "Carbon Seq. Rate (tCO2/ha/yr)":
+    "Taux de séquestration du carbone (tCO2/ha/an)",
+  "Carbon Fallback Rate (tCO2/ha/yr)":
+    "Taux de carbone par défaut (tCO2/ha/an)",
+  "Carbon Growth Curve":
+    "Courbe de croissance du carbone",
+  "NTFP Maturation Lag (years)":
+    "Délai de maturation des PFNL (années)",
+  "Fencing Upfront Share (%)":
+    "Part initiale de la clôture (%)",
+  "Charged":
+    "Imputé",
+  "Not charged":
+    "Non imputé",
+  "Land Lease (US$/ha/yr)":
+    "Location des terres (US$/ha/an)",
+  "After implementation (year 2)":
+    "Après la mise en œuvre (année 2)",
+  "Year 1":
+    "Année 1",
+  "Land Cost Escalation (%/yr)":
+    "Progression du coût de la terre (%/an)",
+  "Non-Hired Labor Shadow Wage (% of hired rate)":
+    "Salaire fictif de la main-d'œuvre non salariée (% du taux salarié)",
+  "Hired Labor Rate (US$/day)":
+    "Taux de la main-d'œuvre salariée (US$/jour)",
+  "Machinery Unit Cost (US$/hour)":
+    "Coût unitaire des machines (US$/heure)",
+  "Tornado Sensitivity Flex (±%)":
+    "Variation de la sensibilité tornade (±%)",
+  "CONTEXT CONSTRAINTS":
+    "CONTRAINTES DE CONTEXTE",
+  "Total Cost":
+    "Coût total",
+  "Impl. Cost (US$/ha)":
+    "Coût de mise en œuvre (US$/ha)",
+  "Maint. Cost (US$/ha)":
+    "Coût d'entretien (US$/ha)",
+  "Land Opportunity Cost {horizon} (US$/ha)":
+    "Coût d'opportunité de la terre {horizon} (US$/ha)",
+  "Total Cost {horizon} (US$/ha)":
+    "Coût total {horizon} (US$/ha)",
+  "NTFP Revenue {horizon} (US$/ha)":
+    "Recettes des PFNL {horizon} (US$/ha)",
+  "Carbon Benefit {horizon} (US$/ha)":
+    "Bénéfice carbone {horizon} (US$/ha)",
+  "Carbon Sequestered {horizon} (tCO2/ha)":
+    "Carbone séquestré {horizon} (tCO2/ha)",
+  "Carbon Credits {horizon} (tCO2/ha)":
+    "Crédits carbone {horizon} (tCO2/ha)",
+  "Total Benefits {horizon} (US$/ha)":
+    "Bénéfices totaux {horizon} (US$/ha)",
+  "NPV @{rate} (US$/ha)":
+    "VAN à {rate} (US$/ha)",
+  "Payback (year)":
+    "Retour sur investissement (année)",
+  "Carbon Seq. (tCO2/ha/yr)":
+    "Séquestration du carbone (tCO2/ha/an)",
+  "Cost per tCO2 (US$)":
+    "Coût par tCO2 (US$)",
+  "Financial NPV @{rate} (US$/ha)":
+    "VAN financière à {rate} (US$/ha)",
+  "Financial IRR":
+    "TRI financier",
+  "Financial BCR":
+    "RBC financier",
+  "Non-Hired Labor {horizon} (US$/ha)":
+    "Main-d'œuvre non salariée {horizon} (US$/ha)",
+  "Discount Period":
+    "Période d'actualisation",
+  "Constraint Cost":
+    "Coût des contraintes",
+  "Interaction Adjustment":
+    "Ajustement d'interaction",
+  "Non-Hired Labor (as entered)":
+    "Main-d'œuvre non salariée (telle que saisie)",
+  "Shadow Labor Adjustment":
+    "Ajustement du salaire fictif",
+  "NTFP Productivity":
+    "Productivité des PFNL",
+  "Carbon Sequestration (tCO2)":
+    "Séquestration du carbone (tCO2)",
+  "Carbon Credits (tCO2)":
+    "Crédits carbone (tCO2)",
+  "Carbon Benefit":
+    "Bénéfice carbone",
+  "Cumulative Net":
+    "Net cumulé",
+  "Cumulative Discounted":
+    "Actualisé cumulé",
+  "Machinery Hours (h/ha)":
+    "Heures de machines (h/ha)",
+  "KEY INDICATORS":
+    "INDICATEURS CLÉS",
+  "NPV ({rate}, economic)":
+    "VAN ({rate}, économique)",
+  "Financial NPV ({rate}, cash outlays)":
+    "VAN financière ({rate}, décaissements)",
+  "Carbon Sequestered (tCO2/ha)":
+    "Carbone séquestré (tCO2/ha)",
+  "Carbon Revenue (US$/ha)":
+    "Recettes carbone (US$/ha)",
+  "Interaction Adjustment (US$/ha)":
+    "Ajustement d'interaction (US$/ha)",
+  "Land Opportunity Cost (US$/ha)":
+    "Coût d'opportunité de la terre (US$/ha)",
+  "Non-Hired Labor in Costs (US$/ha)":
+    "Main-d'œuvre non salariée dans les coûts (US$/ha)",
+  "Rank":
+    "Rang",
+  "Driver":
+    "Facteur",
+  "Base Value":
+    "Valeur de base",
+  "Value −{flex}":
+    "Valeur −{flex}",
+  "Value +{flex}":
+    "Valeur +{flex}",
+  "Base NPV":
+    "VAN de base",
+  "NPV @ −{flex}":
+    "VAN à −{flex}",
+  "NPV @ +{flex}":
+    "VAN à +{flex}",
+  "NPV Swing":
+    "Amplitude de la VAN",
+  "Total (h/ha)":
+    "Total (h/ha)",
+  "Busiest Maintenance Year":
+    "Année d'entretien la plus chargée",
+  "Maintenance in Busiest Year (h/ha)":
+    "Entretien de l'année la plus chargée (h/ha)",
+  "Plausible Max per Year (h/ha)":
+    "Maximum plausible par an (h/ha)",
+  "MACHINERY HOURS — machinery share of each cost ÷ machinery unit cost ({rate} US$/hour)":
+    "HEURES DE MACHINES — part des machines de chaque coût ÷ coût unitaire des machines ({rate} US$/heure)",
+  "MACHINERY HOURS BY YEAR (h/ha)":
+    "HEURES DE MACHINES PAR ANNÉE (h/ha)",
+  "MONTE CARLO SIMULATION":
+    "SIMULATION DE MONTE-CARLO",
+  "Sampled Inputs":
+    "Entrées échantillonnées",
+  "NPV Mean":
+    "VAN moyenne",
+  "IRR P10":
+    "TRI P10",
+  "IRR P50":
+    "TRI P50",
+  "IRR P90":
+    "TRI P90",
+  "IRR Mean":
+    "TRI moyen",
+  "BCR P10":
+    "RBC P10",
+  "BCR P50":
+    "RBC P50",
+  "BCR P90":
+    "RBC P90",
+  "BCR Mean":
+    "RBC moyen",
+  "Run":
+    "Tirage",
+  "NPV — {method}":
+    "VAN — {method}",
+  "REGIONAL COST EXTRAPOLATION":
+    "EXTRAPOLATION RÉGIONALE DES COÛTS",
+  "Labor Index":
+    "Indice de main-d'œuvre",
+  "Materials Index":
+    "Indice des matériaux",
+  "Machinery Index":
+    "Indice des machines",
+  "Origin: {region}":
+    "Origine : {region}",
+  "Target: {region}":
+    "Cible : {region}",
+  "Cost Row":
+    "Ligne de coût",
+  "Labor %":
+    "Main-d'œuvre %",
+  "Materials %":
+    "Matériaux %",
+  "Machinery %":
+    "Machines %",
+  "Cost Factor":
+    "Facteur de coût",
+  "Total Cost ({region})":
+    "Coût total ({region})",
+  "NPV @{rate} ({region})":
+    "VAN à {rate} ({region})",
+  "NPV Change":
+    "Variation de la VAN",
+  "IRR ({region})":
+    "TRI ({region})",
+};
@@ -0,0 +1,11 @@
+import type { Locale } from "../../types";
+import { PT_MESSAGES } from "./pt";
+import { ES_MESSAGES } from "./es";
+import { FR_MESSAGES } from "./fr";
+
+/** Message catalog of every non-English locale (English is the message ID). */
+export const LOCALE_MESSAGES: Record<Exclude<Locale, "en">, Record<string, string>> = {
+  pt: PT_MESSAGES,
+  es: ES_MESSAGES,
+  fr: FR_MESSAGES,
+};
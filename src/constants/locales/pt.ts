@@ -0,0 +1,2119 @@
+/**
+ * Portuguese (Brazil) messages, keyed by the English text (see utils/i18n).
+ */
+
+export const PT_MESSAGES: Record<string, string> = {
+  // ── Application ───────────────────────────────────────────────────────────
+  "Restoration Cost-Benefit Questionnaire":
+    "Questionário de Custo-Benefício da Restauração",
+  "Restoration Calculator icon":
+    "Ícone da Calculadora de Restauração",
+  "A project by":
+    "Um projeto de",
+  "Interface language":
+    "Idioma da interface",
+  "Unsaved draft found":
+    "Rascunho não salvo encontrado",
+  "A questionnaire autosaved on {date}{ecosystem} was not saved or exported. Restore it to continue where you left off.":
+    "Um questionário salvo automaticamente em {date}{ecosystem} não foi salvo nem exportado. Restaure-o para continuar de onde parou.",
+  "Restore draft":
+    "Restaurar rascunho",
+  "Discard":
+    "Descartar",
+  "Could not restore the draft: {error}":
+    "Não foi possível restaurar o rascunho: {error}",
+
+  // ── Instructions ──────────────────────────────────────────────────────────
+  "Please read before answering":
+    "Leia antes de responder",
+  "Each questionnaire entry corresponds to a single ecosystem. GPS coordinates of any area that represents the model in question may be used.":
+    "Cada questionário corresponde a um único ecossistema. Podem ser usadas as coordenadas GPS de qualquer área que represente o modelo em questão.",
+  "The restoration method is defined based on soil conditions and the availability of naturally regenerating seedlings. The analysis horizon is {horizon} years (10–50, set in Project Identification). Before starting, indicate which methods have no cost data available — the corresponding tabs will be removed from the form. All selected methods must be fully completed.":
+    "O método de restauração é definido com base nas condições do solo e na disponibilidade de regenerantes naturais. O horizonte de análise é de {horizon} anos (10–50, definido em Identificação do Projeto). Antes de começar, indique para quais métodos não há dados de custo — as abas correspondentes serão removidas do formulário. Todos os métodos selecionados devem ser preenchidos por completo.",
+  "For each method, fill in Implementation (Year 1) and Maintenance (Years 2–{horizon}):":
+    "Para cada método, preencha Implantação (Ano 1) e Manutenção (Anos 2–{horizon}):",
+  "Basic Implementation Costs (Year 1):":
+    "Custos Básicos de Implantação (Ano 1):",
+  "Include the minimum cost required to initiate restoration under the method's conditions. For ANR/50% Enrichment, for example, this includes all base natural regeneration activities plus localized enrichment planting at 50% intensity (seedling acquisition, planting labor, and localized soil correction).":
+    "Inclua o custo mínimo necessário para iniciar a restauração nas condições do método. Para RNA/Enriquecimento 50%, por exemplo, isso inclui todas as atividades básicas de regeneração natural mais o plantio de enriquecimento localizado com 50% de intensidade (aquisição de mudas, mão de obra de plantio e correção localizada do solo).",
+  "Do not include:":
+    "Não inclua:",
+  "invasive species control, fencing, fire management, or any other activities beyond basic implementation — these must be modeled as constraint costs in Section 3.":
+    "controle de espécies invasoras, cercamento, manejo do fogo ou quaisquer outras atividades além da implantação básica — esses itens devem ser modelados como custos de restrição na Seção 3.",
+  "Basic Maintenance Costs (Years 2–{horizon}):":
+    "Custos Básicos de Manutenção (Anos 2–{horizon}):",
+  "Enter the total accumulated cost over the entire maintenance period (Years 2 to {horizon}), not the annual cost. Include minimal follow-up activities such as survival checks, limited replacement of failed seedlings, NTFP harvesting, and light monitoring.":
+    "Informe o custo total acumulado em todo o período de manutenção (Anos 2 a {horizon}), não o custo anual. Inclua atividades mínimas de acompanhamento, como verificação de sobrevivência, reposição limitada de mudas perdidas, colheita de PFNM e monitoramento leve.",
+  "invasive species control, fencing, firebreak maintenance, pest management, or any other costs related to external constraints — these must be modeled separately in Section 3.":
+    "controle de espécies invasoras, cercamento, manutenção de aceiros, manejo de pragas ou quaisquer outros custos ligados a restrições externas — esses itens devem ser modelados separadamente na Seção 3.",
+  "The form allows you to split the maintenance period into segments with different costs (e.g., more intensive early years vs. later years). The chart updates in real time as segments are added.":
+    "O formulário permite dividir o período de manutenção em segmentos com custos diferentes (ex.: primeiros anos mais intensivos vs. anos posteriores). O gráfico é atualizado em tempo real à medida que os segmentos são adicionados.",
+  "Context Constraints & Additional Costs (Section 3):":
+    "Restrições de Contexto e Custos Adicionais (Seção 3):",
+  "Given an unfavorable scenario with contextual constraints, estimate the additional cost required to overcome those constraints and achieve the same level of ecological success as in a favorable scenario. These costs are the same across all methods, so this section is filled in only once. Pay attention to the unit of each cost field.":
+    "Dado um cenário desfavorável com restrições de contexto, estime o custo adicional necessário para superá-las e alcançar o mesmo nível de sucesso ecológico de um cenário favorável. Esses custos são iguais para todos os métodos, por isso esta seção é preenchida apenas uma vez. Atenção à unidade de cada campo de custo.",
+  "The system automatically generates a Summary & Validation at the end with all calculations. Watch out for the following common errors flagged by the form:":
+    "O sistema gera automaticamente, ao final, um Resumo e Validação com todos os cálculos. Fique atento aos seguintes erros comuns sinalizados pelo formulário:",
+  "Percentage distributions that do not sum to 100% in any section":
+    "Distribuições percentuais que não somam 100% em alguma seção",
+  "Confusion between annual cost and total accumulated cost in the maintenance section":
+    "Confusão entre custo anual e custo total acumulado na seção de manutenção",
+  "Inclusion of constraint costs (fire, fencing, invasive species, pests) within basic costs — these must appear exclusively in Section 3":
+    "Inclusão de custos de restrição (fogo, cercamento, espécies invasoras, pragas) nos custos básicos — eles devem aparecer exclusivamente na Seção 3",
+  "Leaving methods incomplete without marking them as having no data at the beginning of Section 2":
+    "Deixar métodos incompletos sem marcá-los como sem dados no início da Seção 2",
+
+  // ── Form actions ──────────────────────────────────────────────────────────
+  "Name for this questionnaire in the library:":
+    "Nome deste questionário na biblioteca:",
+  "Could not save to the library: {error}":
+    "Não foi possível salvar na biblioteca: {error}",
+  "Could not import the Excel file: {error}":
+    "Não foi possível importar o arquivo Excel: {error}",
+  "Invalid JSON file. Please select a valid form data file.":
+    "Arquivo JSON inválido. Selecione um arquivo de dados do formulário válido.",
+  "Loaded from an older format version. Review these fields:":
+    "Carregado de uma versão de formato mais antiga. Revise estes campos:",
+  "Excel file imported with {count} issue:":
+    "Arquivo Excel importado com {count} problema:",
+  "Excel file imported with {count} issues:":
+    "Arquivo Excel importado com {count} problemas:",
+  "Dismiss":
+    "Fechar",
+  "…and {count} more":
+    "…e mais {count}",
+  "Please complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Preencha pelo menos uma aba de método (custos e distribuições de implantação e manutenção) antes de salvar ou exportar.",
+  "Are you sure you want to reset the form? All unsaved data will be lost.":
+    "Tem certeza de que deseja limpar o formulário? Todos os dados não salvos serão perdidos.",
+  "Reset Form":
+    "Limpar Formulário",
+  "Overwrite \"{name}\" in the library":
+    "Substituir “{name}” na biblioteca",
+  "Save a new entry in the library":
+    "Salvar uma nova entrada na biblioteca",
+  "Update in Library":
+    "Atualizar na Biblioteca",
+  "Save to Library":
+    "Salvar na Biblioteca",
+  "Save as Copy":
+    "Salvar como Cópia",
+  "Save Form":
+    "Salvar Formulário",
+  "Load Form":
+    "Carregar Formulário",
+  "Export your data:":
+    "Exporte seus dados:",
+  "Export Excel":
+    "Exportar Excel",
+
+  // ── Issues panel ──────────────────────────────────────────────────────────
+  "No issues found by the consistency checks.":
+    "Nenhum problema encontrado pelas verificações de consistência.",
+  "Issues":
+    "Problemas",
+  "{count} error":
+    "{count} erro",
+  "{count} errors":
+    "{count} erros",
+  "{count} warning":
+    "{count} aviso",
+  "{count} warnings":
+    "{count} avisos",
+  "{count} note":
+    "{count} observação",
+  "{count} notes":
+    "{count} observações",
+  "Hide":
+    "Ocultar",
+  "Show all":
+    "Mostrar tudo",
+  "Go to field":
+    "Ir para o campo",
+
+  // ── Section titles ────────────────────────────────────────────────────────
+  "0. User Identification":
+    "0. Identificação do Usuário",
+  "Tell us who is filling in this questionnaire":
+    "Conte-nos quem está preenchendo este questionário",
+  "1. Project Identification":
+    "1. Identificação do Projeto",
+  "Tell us about the restoration project you are evaluating":
+    "Conte-nos sobre o projeto de restauração que você está avaliando",
+  "2. Context & Scenario Definition":
+    "2. Contexto e Definição do Cenário",
+  "Define the restoration method and local conditions":
+    "Defina o método de restauração e as condições locais",
+  "3. Context Constraints & Additional Costs":
+    "3. Restrições de Contexto e Custos Adicionais",
+  "Costs that apply independently of the restoration method":
+    "Custos que se aplicam independentemente do método de restauração",
+  "4. Labor Breakdown & Machinery":
+    "4. Composição da Mão de Obra e Maquinário",
+  "Hired Labour vs Non Hired Labour — by phase":
+    "Mão de obra contratada vs não contratada — por fase",
+  "Summary & Validation":
+    "Resumo e Validação",
+  "Auto-generated summary — review data consistency before saving":
+    "Resumo gerado automaticamente — revise a consistência dos dados antes de salvar",
+  "CBA External Assumptions":
+    "Premissas Externas da ACB",
+  "Analyst parameters used by the cost-benefit analysis — not part of the questionnaire":
+    "Parâmetros do analista usados na análise custo-benefício — não fazem parte do questionário",
+  "Results: Cost-Benefit Analysis":
+    "Resultados: Análise Custo-Benefício",
+  "Regional Cost Extrapolation":
+    "Extrapolação Regional de Custos",
+  "Re-price this questionnaire for another country or region using local price indices":
+    "Reprecifique este questionário para outro país ou região usando índices de preços locais",
+
+  // ── Identification ────────────────────────────────────────────────────────
+  "Your Name":
+    "Seu Nome",
+  "e.g., João Silva":
+    "ex.: João Silva",
+  "Date of Data Collection":
+    "Data da Coleta de Dados",
+  "Respondent Name":
+    "Nome do Respondente",
+  "e.g., Maria Oliveira":
+    "ex.: Maria Oliveira",
+  "Ecosystem":
+    "Ecossistema",
+  "Select ecosystem…":
+    "Selecione o ecossistema…",
+  "Country":
+    "País",
+  "e.g., Brazil":
+    "ex.: Brasil",
+  "City":
+    "Cidade",
+  "e.g., São Paulo":
+    "ex.: São Paulo",
+  "Analysis Time Horizon":
+    "Horizonte de Análise",
+  "years":
+    "anos",
+  "Between {min} and {max} years. Year 1 is implementation; maintenance and revenues run from year 2 to the last year.":
+    "Entre {min} e {max} anos. O ano 1 é a implantação; manutenção e receitas vão do ano 2 até o último ano.",
+  "Each model specification applies to one ecosystem. If you filled the questionnaire based on an online interview, consider GPS coordinates of any area that could represent the model you are referring to.":
+    "Cada especificação de modelo se aplica a um ecossistema. Se você preencheu o questionário com base em uma entrevista online, considere as coordenadas GPS de qualquer área que possa representar o modelo em questão.",
+  "GPS Coordinates":
+    "Coordenadas GPS",
+  "Latitude (Y)":
+    "Latitude (Y)",
+  "Longitude (X)":
+    "Longitude (X)",
+  "Locating…":
+    "Localizando…",
+  "Set GPS":
+    "Definir GPS",
+  "Auto-detect from browser":
+    "Detectar pelo navegador",
+  "Enter manually":
+    "Digitar manualmente",
+  "Location access was denied. Please allow it in your browser settings.":
+    "O acesso à localização foi negado. Permita-o nas configurações do navegador.",
+  "Unable to retrieve GPS coordinates.":
+    "Não foi possível obter as coordenadas GPS.",
+  "Click \"Set GPS\" to choose between auto-detecting from your browser or entering coordinates manually.":
+    "Clique em “Definir GPS” para escolher entre detectar pelo navegador ou digitar as coordenadas manualmente.",
+
+  // ── Ecosystems ────────────────────────────────────────────────────────────
+  "Arid or Semi-Arid Zones":
+    "Zonas Áridas ou Semiáridas",
+  "Savanna or Dry Forest":
+    "Savana ou Floresta Seca",
+  "Mountaine Forest":
+    "Floresta Montana",
+  "Tropical Forest":
+    "Floresta Tropical",
+  "Mangrove":
+    "Manguezal",
+  "Subtropical Forest":
+    "Floresta Subtropical",
+
+  // ── Restoration methods ───────────────────────────────────────────────────
+  "ANR/50% Enrichment":
+    "RNA/Enriquecimento 50%",
+  "ANR/50% Enrichment (with NTFP)":
+    "RNA/Enriquecimento 50% (com PFNM)",
+  "Seed Dispersal":
+    "Semeadura Direta",
+  "Seed Dispersal (with NTFP)":
+    "Semeadura Direta (com PFNM)",
+  "Full Seedling Plantation":
+    "Plantio Total de Mudas",
+  "Full Seedling Plantation NTFP (agroforestry)":
+    "Plantio Total de Mudas com PFNM (agrofloresta)",
+
+  // ── Method descriptions ───────────────────────────────────────────────────
+  "This scenario assumes a slightly less favorable context than a context for pure natural regeneration, with minor soil degradation and moderate availability of natural regeneration sources.":
+    "Este cenário pressupõe um contexto um pouco menos favorável que o da regeneração natural pura, com leve degradação do solo e disponibilidade moderada de fontes de regeneração natural.",
+  "Enrichment planting is applied at 50% intensity to support regeneration and accelerate structural recovery.":
+    "O plantio de enriquecimento é aplicado com 50% de intensidade para apoiar a regeneração e acelerar a recuperação estrutural.",
+  "Enrichment intensity is fixed at 50%.":
+    "A intensidade de enriquecimento é fixada em 50%.",
+  "Same ecological scenario as ANR/50% Enrichment, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mesmo cenário ecológico de RNA/Enriquecimento 50%, mas inclui a colheita de Produtos Florestais Não Madeireiros (PFNM) nas atividades de manutenção.",
+  "Include any additional costs or savings associated with NTFP collection and management.":
+    "Inclua quaisquer custos adicionais ou economias associados à coleta e ao manejo de PFNM.",
+  "This scenario assumes moderate soil degradation and low to moderate availability of natural regeneration sources.":
+    "Este cenário pressupõe degradação moderada do solo e disponibilidade baixa a moderada de fontes de regeneração natural.",
+  "Regeneration cannot rely solely on natural processes and requires active seed dispersal across the site.":
+    "A regeneração não pode depender apenas de processos naturais e exige a dispersão ativa de sementes em toda a área.",
+  "Approach to cover 100% of the area.":
+    "Abordagem para cobrir 100% da área.",
+  "Same ecological scenario as Seed Dispersal, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mesmo cenário ecológico de Semeadura Direta, mas inclui a colheita de Produtos Florestais Não Madeireiros (PFNM) nas atividades de manutenção.",
+  "Approach to cover 100% of the area, being NTFP 50% on average.":
+    "Abordagem para cobrir 100% da área, sendo em média 50% de PFNM.",
+  "Include any additional costs associated with NTFP collection and management.":
+    "Inclua quaisquer custos adicionais associados à coleta e ao manejo de PFNM.",
+  "This scenario assumes high soil degradation and low availability of natural regeneration sources.":
+    "Este cenário pressupõe alta degradação do solo e baixa disponibilidade de fontes de regeneração natural.",
+  "Natural regeneration is not sufficient to reach the benchmark carbon curve, and full-scale seedling planting is required.":
+    "A regeneração natural não é suficiente para atingir a curva de carbono de referência, sendo necessário o plantio total de mudas.",
+  "Same ecological scenario as Full Seedling Plantation, but includes Non-Timber Forest Product (NTFP) harvesting as part of the maintenance activities.":
+    "Mesmo cenário ecológico de Plantio Total de Mudas, mas inclui a colheita de Produtos Florestais Não Madeireiros (PFNM) nas atividades de manutenção.",
+  "Approach to cover 100% of the area, with NTFP covering 50% on average.":
+    "Abordagem para cobrir 100% da área, com PFNM cobrindo em média 50%.",
+
+  // ── Implementation cost guidance ──────────────────────────────────────────
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions.":
+    "O custo básico de implantação deve incluir o custo mínimo necessário para iniciar a regeneração natural assistida em condições levemente restritivas.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition, planting labor, and light localized soil correction.":
+    "Isso inclui todas as atividades básicas de Regeneração Natural mais o plantio de enriquecimento localizado com 50% de intensidade, incluindo aquisição de mudas, mão de obra de plantio e leve correção localizada do solo.",
+  "Do not include costs related to invasive species control, fencing, fire management, or other activities beside the basic implementation. These must be modeled as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "Não inclua custos de controle de espécies invasoras, cercamento, manejo do fogo ou outras atividades além da implantação básica. Eles devem ser modelados como custos de assistência. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic implementation cost should include the minimum cost required to initiate assisted natural regeneration under mildly restrictive conditions, considering NTFP species.":
+    "O custo básico de implantação deve incluir o custo mínimo necessário para iniciar a regeneração natural assistida em condições levemente restritivas, considerando espécies de PFNM.",
+  "This includes all Natural Regeneration base activities plus localized enrichment planting at 50% intensity, including seedling acquisition (with NTFP species), planting labor, and light localized soil correction.":
+    "Isso inclui todas as atividades básicas de Regeneração Natural mais o plantio de enriquecimento localizado com 50% de intensidade, incluindo aquisição de mudas (com espécies de PFNM), mão de obra de plantio e leve correção localizada do solo.",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions.":
+    "O custo básico de implantação deve refletir o custo mínimo necessário para realizar a semeadura direta em condições ecológicas moderadamente restritivas.",
+  "This includes seed acquisition, seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Isso inclui aquisição de sementes, tratamento de sementes (se aplicável), preparo leve da superfície do solo e distribuição das sementes.",
+  "Do not include fencing, invasive species control, firebreak construction, pest control, or other external restriction-related costs. These items will be covered in the next section (additional context constraints).":
+    "Não inclua cercamento, controle de espécies invasoras, construção de aceiros, controle de pragas ou outros custos ligados a restrições externas. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic implementation cost should reflect the minimum cost required to implement direct seeding under moderately restrictive ecological conditions, considering NTFP species.":
+    "O custo básico de implantação deve refletir o custo mínimo necessário para realizar a semeadura direta em condições ecológicas moderadamente restritivas, considerando espécies de PFNM.",
+  "This includes seed acquisition (including NTFP species), seed treatment (if applicable), light surface soil preparation, and seed distribution.":
+    "Isso inclui aquisição de sementes (incluindo espécies de PFNM), tratamento de sementes (se aplicável), preparo leve da superfície do solo e distribuição das sementes.",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability.":
+    "O custo básico de implantação deve refletir o custo mínimo necessário para estabelecer o plantio total de mudas em solo degradado e com baixa disponibilidade de propágulos.",
+  "This includes seedling production or acquisition, transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Isso inclui produção ou aquisição de mudas, transporte, preparo padrão do solo, mão de obra de plantio e adubação básica no plantio.",
+  "Do not include erosion control infrastructure, invasive species management, fencing, irrigation systems, or other external constraint-related costs. These items will be covered in the next section (additional context constraints).":
+    "Não inclua infraestrutura de controle de erosão, manejo de espécies invasoras, cercamento, sistemas de irrigação ou outros custos ligados a restrições externas. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic implementation cost should reflect the minimum cost required to establish full seedling planting under degraded soil and low propagule availability, considering NTFP species.":
+    "O custo básico de implantação deve refletir o custo mínimo necessário para estabelecer o plantio total de mudas em solo degradado e com baixa disponibilidade de propágulos, considerando espécies de PFNM.",
+  "This includes seedling production or acquisition (including NTFP species), transport, standard soil preparation, planting labor, and basic fertilization at planting.":
+    "Isso inclui produção ou aquisição de mudas (incluindo espécies de PFNM), transporte, preparo padrão do solo, mão de obra de plantio e adubação básica no plantio.",
+
+  // ── Maintenance cost guidance ─────────────────────────────────────────────
+  "Enter the accumulated total cost over the entire maintenance period (Years 2–{horizon}), not the annual cost.":
+    "Informe o custo total acumulado em todo o período de manutenção (Anos 2–{horizon}), não o custo anual.",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment.":
+    "Os custos básicos de manutenção devem incluir as atividades mínimas de acompanhamento necessárias para apoiar a regeneração natural assistida com 50% de enriquecimento.",
+  "This may include survival checks, limited replacement of failed enriched seedlings, NTFP harvesting, and light monitoring activities.":
+    "Isso pode incluir verificação de sobrevivência, reposição limitada de mudas de enriquecimento perdidas, colheita de PFNM e atividades leves de monitoramento.",
+  "Do not include invasive species control, fencing, firebreak maintenance, pest management, or other external constraint-related costs. These should be modeled separately as assistance costs. These items will be covered in the next section (additional context constraints).":
+    "Não inclua controle de espécies invasoras, cercamento, manutenção de aceiros, manejo de pragas ou outros custos ligados a restrições externas. Eles devem ser modelados separadamente como custos de assistência. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic maintenance costs should include minimal follow-up activities required to support assisted natural regeneration with 50% enrichment, including NTFP harvesting and management.":
+    "Os custos básicos de manutenção devem incluir as atividades mínimas de acompanhamento necessárias para apoiar a regeneração natural assistida com 50% de enriquecimento, incluindo colheita e manejo de PFNM.",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding under moderately restrictive but stable ecological conditions.":
+    "Os custos básicos de manutenção devem refletir o acompanhamento mínimo necessário após a semeadura direta em condições ecológicas moderadamente restritivas, porém estáveis.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections and NTFP harvesting (in case there is any).":
+    "Isso pode incluir monitoramento do sucesso da germinação, ressemeadura limitada em pequenas áreas se necessário, inspeções básicas da área e colheita de PFNM (se houver).",
+  "Do not include large-scale replanting, invasive species control, fencing, fire management, or other context-driven interventions. These items will be covered in the next section (additional context constraints).":
+    "Não inclua replantio em larga escala, controle de espécies invasoras, cercamento, manejo do fogo ou outras intervenções decorrentes do contexto. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic maintenance costs should reflect the minimum follow-up required after direct seeding, including NTFP harvesting and management.":
+    "Os custos básicos de manutenção devem refletir o acompanhamento mínimo necessário após a semeadura direta, incluindo colheita e manejo de PFNM.",
+  "This may include monitoring germination success, limited reseeding in small areas if necessary, basic site inspections, and NTFP harvesting.":
+    "Isso pode incluir monitoramento do sucesso da germinação, ressemeadura limitada em pequenas áreas se necessário, inspeções básicas da área e colheita de PFNM.",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment of planted seedlings under degraded but stable ecological conditions.":
+    "Os custos básicos de manutenção devem refletir as despesas recorrentes mínimas necessárias para garantir o estabelecimento das mudas plantadas em condições ecológicas degradadas, porém estáveis.",
+  "This may include survival monitoring, limited replanting of failed seedlings, and basic follow-up inspections.":
+    "Isso pode incluir monitoramento da sobrevivência, replantio limitado de mudas perdidas e inspeções básicas de acompanhamento.",
+  "Do not include invasive species management, fencing, firebreak maintenance, irrigation systems beyond initial establishment, or other context-specific interventions. These items will be covered in the next section (additional context constraints).":
+    "Não inclua manejo de espécies invasoras, cercamento, manutenção de aceiros, sistemas de irrigação além do estabelecimento inicial ou outras intervenções específicas do contexto. Esses itens serão tratados na próxima seção (restrições de contexto adicionais).",
+  "Basic maintenance costs should reflect the minimum recurring expenses required to ensure successful establishment, including NTFP harvesting and management.":
+    "Os custos básicos de manutenção devem refletir as despesas recorrentes mínimas necessárias para garantir o estabelecimento, incluindo colheita e manejo de PFNM.",
+  "This may include survival monitoring, limited replanting of failed seedlings, NTFP harvesting, and basic follow-up inspections.":
+    "Isso pode incluir monitoramento da sobrevivência, replantio limitado de mudas perdidas, colheita de PFNM e inspeções básicas de acompanhamento.",
+
+  // ── Material examples ─────────────────────────────────────────────────────
+  "e.g., seedlings, fertilizer, stakes, tree guards, localized soil amendments":
+    "ex.: mudas, adubo, estacas, protetores de mudas, corretivos de solo localizados",
+  "e.g., replacement seedlings, monitoring tags, minor repair materials":
+    "ex.: mudas de reposição, etiquetas de monitoramento, materiais para pequenos reparos",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, localized soil amendments":
+    "ex.: mudas (incluindo espécies de PFNM), adubo, estacas, protetores de mudas, corretivos de solo localizados",
+  "e.g., replacement seedlings, monitoring tags, NTFP harvesting tools, minor repair materials":
+    "ex.: mudas de reposição, etiquetas de monitoramento, ferramentas de colheita de PFNM, materiais para pequenos reparos",
+  "e.g., native seeds, seed coating/treatment products, basic soil amendments":
+    "ex.: sementes nativas, produtos para revestimento/tratamento de sementes, corretivos básicos de solo",
+  "e.g., replacement seeds, monitoring supplies, small-area reseeding materials":
+    "ex.: sementes de reposição, insumos de monitoramento, materiais para ressemeadura em pequenas áreas",
+  "e.g., native seeds (including NTFP species), seed coating/treatment products, basic soil amendments":
+    "ex.: sementes nativas (incluindo espécies de PFNM), produtos para revestimento/tratamento de sementes, corretivos básicos de solo",
+  "e.g., replacement seeds, monitoring supplies, NTFP harvesting tools, small-area reseeding materials":
+    "ex.: sementes de reposição, insumos de monitoramento, ferramentas de colheita de PFNM, materiais para ressemeadura em pequenas áreas",
+  "e.g., seedlings, fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "ex.: mudas, adubo, estacas, protetores de mudas, corretivos de solo, ferramentas básicas de plantio",
+  "e.g., replacement seedlings, fertilizer, monitoring tags, minor repair materials":
+    "ex.: mudas de reposição, adubo, etiquetas de monitoramento, materiais para pequenos reparos",
+  "e.g., seedlings (including NTFP species), fertilizer, stakes, tree guards, soil amendments, basic planting tools":
+    "ex.: mudas (incluindo espécies de PFNM), adubo, estacas, protetores de mudas, corretivos de solo, ferramentas básicas de plantio",
+  "e.g., replacement seedlings, fertilizer, NTFP harvesting tools, monitoring tags, minor repair materials":
+    "ex.: mudas de reposição, adubo, ferramentas de colheita de PFNM, etiquetas de monitoramento, materiais para pequenos reparos",
+
+  // ── Maintenance activities ────────────────────────────────────────────────
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and support staking)":
+    "Manutenção dos indivíduos regenerantes (ex.: poda, desbaste e tutoramento)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and support staking)":
+    "Manutenção das espécies de PFNM (ex.: poda, desbaste e tutoramento)",
+  "Maintenance of regenerating individuals (e.g. prunning, thinning and fertilization)":
+    "Manutenção dos indivíduos regenerantes (ex.: poda, desbaste e adubação)",
+  "Maintenance of NTFP species (e.g. prunning, thinning and fertilization)":
+    "Manutenção das espécies de PFNM (ex.: poda, desbaste e adubação)",
+  "Harvest":
+    "Colheita",
+  "Technical assistance":
+    "Assistência técnica",
+  "Monitoring General Maintenance Activities (e.g. shade management)":
+    "Monitoramento e atividades gerais de manutenção (ex.: manejo de sombra)",
+
+  // ── Context & scenario ────────────────────────────────────────────────────
+  "Are there any methods for which you have no cost information?":
+    "Há algum método para o qual você não tem informações de custo?",
+  "Check the methods below for which you have no cost data. The corresponding tab will be removed from the form.":
+    "Marque abaixo os métodos para os quais você não tem dados de custo. A aba correspondente será removida do formulário.",
+  "Only one tab is visible. Please complete at least this method.":
+    "Apenas uma aba está visível. Preencha pelo menos este método.",
+  "{count} method(s) hidden due to missing data.":
+    "{count} método(s) oculto(s) por falta de dados.",
+  "We define the restoration method initially based on soil condition and natural regenerating seedlings availability. The time horizon for the analysis is {horizon} years (set in Project Identification).":
+    "Definimos o método de restauração inicialmente com base na condição do solo e na disponibilidade de regenerantes naturais. O horizonte de análise é de {horizon} anos (definido em Identificação do Projeto).",
+  "All methods have been marked as having no data. Uncheck at least one above to fill in cost information.":
+    "Todos os métodos foram marcados como sem dados. Desmarque pelo menos um acima para preencher as informações de custo.",
+  "Complete all {count} restoration methods below.":
+    "Preencha os {count} métodos de restauração abaixo.",
+  "Click each tab to fill in costs and distributions.":
+    "Clique em cada aba para preencher custos e distribuições.",
+  "{done} of {count} completed":
+    "{done} de {count} concluídos",
+  "Completed":
+    "Concluído",
+  "Click to fill in":
+    "Clique para preencher",
+  "Restoration method illustration":
+    "Ilustração do método de restauração",
+  "What to include":
+    "O que incluir",
+  "NTFP Species":
+    "Espécie de PFNM",
+  "Select one native Non-Timber Forest Product (NTFP) species with good market potential in your region.":
+    "Selecione uma espécie nativa de Produto Florestal Não Madeireiro (PFNM) com bom potencial de mercado na sua região.",
+  "e.g., Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)":
+    "ex.: Açaí (Euterpe oleracea), Babaçu (Attalea speciosa)",
+  "Basic Implementation Costs (Year 1)":
+    "Custos Básicos de Implantação (Ano 1)",
+  "Implementation Cost":
+    "Custo de Implantação",
+  "What is the average percentage of the total implementation cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "Qual é o percentual médio do custo total de implantação referente a mão de obra, materiais e maquinário? Os três valores devem somar 100%.",
+  "Basic Maintenance Costs (Years 2–{horizon})":
+    "Custos Básicos de Manutenção (Anos 2–{horizon})",
+  "Add cost segments for different year ranges. The chart updates live. The total is carried to the Maintenance Cost field below.":
+    "Adicione segmentos de custo para diferentes intervalos de anos. O gráfico é atualizado em tempo real. O total é levado ao campo Custo de Manutenção abaixo.",
+  "Interpret as total and spread over years":
+    "Interpretar como total e distribuir pelos anos",
+  "What is the average percentage of the total maintenance cost that refers to labor, materials, and machinery? The three values must sum to 100%.":
+    "Qual é o percentual médio do custo total de manutenção referente a mão de obra, materiais e maquinário? Os três valores devem somar 100%.",
+  "NTFP Revenue":
+    "Receita de PFNM",
+  "Estimate the expected revenue from Non-Timber Forest Products (NTFP) harvested during the maintenance period.":
+    "Estime a receita esperada dos Produtos Florestais Não Madeireiros (PFNM) colhidos durante o período de manutenção.",
+  "Average Price during Harvesting Season":
+    "Preço Médio na Safra",
+  "e.g., 2.50":
+    "ex.: 2,50",
+  "Which NTFP data will you provide?":
+    "Quais dados de PFNM você vai informar?",
+  "Productivity data (kg/{area}/yr)":
+    "Dados de produtividade (kg/{area}/ano)",
+  "Revenue data ({currency}/{area}/yr)":
+    "Dados de receita ({currency}/{area}/ano)",
+  "Switching modes keeps the data on both sides — you can toggle freely.":
+    "Trocar de modo mantém os dados dos dois lados — você pode alternar livremente.",
+  "Average NTFP Productivity":
+    "Produtividade Média de PFNM",
+  "Estimate how NTFP productivity (kg/{area}/yr) changes over the maintenance period as the forest matures.":
+    "Estime como a produtividade de PFNM (kg/{area}/ano) varia ao longo do período de manutenção à medida que a floresta amadurece.",
+  "Add revenue segments for different year ranges. NTFP productivity may vary as the forest matures.":
+    "Adicione segmentos de receita para diferentes intervalos de anos. A produtividade de PFNM pode variar à medida que a floresta amadurece.",
+  "Labor":
+    "Mão de obra",
+  "Machinery":
+    "Maquinário",
+  "Materials":
+    "Materiais",
+  "Labor (%)":
+    "Mão de obra (%)",
+  "Machinery (%)":
+    "Maquinário (%)",
+  "Materials (%)":
+    "Materiais (%)",
+  "Cost distribution":
+    "Distribuição do custo",
+  "Total cost":
+    "Custo total",
+
+  // ── Timeline builders ─────────────────────────────────────────────────────
+  "Name":
+    "Nome",
+  "No segments yet — click \"Add segment\" to start.":
+    "Nenhum segmento ainda — clique em “Adicionar segmento” para começar.",
+  "No segments yet — click \"Add productivity segment\" to start.":
+    "Nenhum segmento ainda — clique em “Adicionar segmento de produtividade” para começar.",
+  "No revenue segments yet — click \"Add revenue segment\" to start.":
+    "Nenhum segmento de receita ainda — clique em “Adicionar segmento de receita” para começar.",
+  "Select activity...":
+    "Selecione a atividade...",
+  "max {max} reached":
+    "máx. de {max} atingido",
+  "From year":
+    "Ano inicial",
+  "To year":
+    "Ano final",
+  "Yr {year}":
+    "Ano {year}",
+  "Segment {n}":
+    "Segmento {n}",
+  "Total cost ({currency}/{area}/yr)":
+    "Custo total ({currency}/{area}/ano)",
+  "Productivity (kg/{area}/yr)":
+    "Produtividade (kg/{area}/ano)",
+  "Revenue ({currency}/{area}/yr)":
+    "Receita ({currency}/{area}/ano)",
+  "Remove segment":
+    "Remover segmento",
+  "Add segment":
+    "Adicionar segmento",
+  "Add productivity segment":
+    "Adicionar segmento de produtividade",
+  "Add revenue segment":
+    "Adicionar segmento de receita",
+  "All activities are at the maximum of {max} segments. Remove a segment to add a new one.":
+    "Todas as atividades estão no máximo de {max} segmentos. Remova um segmento para adicionar outro.",
+  "Split the maintenance period into segments with different annual costs (e.g., intensive years vs. later years). Maximum {max} segments per activity.":
+    "Divida o período de manutenção em segmentos com custos anuais diferentes (ex.: anos intensivos vs. anos posteriores). Máximo de {max} segmentos por atividade.",
+  "Activities at the {max}-segment limit":
+    "Atividades no limite de {max} segmentos",
+  "Maximum of {max} segments reached. Remove a segment to add a new one.":
+    "Máximo de {max} segmentos atingido. Remova um segmento para adicionar outro.",
+  "Split the revenue period into segments with different annual revenues (e.g., early low-yield years vs. mature harvest years). Maximum {max} segments.":
+    "Divida o período de receita em segmentos com receitas anuais diferentes (ex.: primeiros anos de baixa produção vs. anos de colheita madura). Máximo de {max} segmentos.",
+  "NTFP productivity typically increases as the forest matures. Add segments for different growth phases. Maximum {max} segments.":
+    "A produtividade de PFNM normalmente aumenta à medida que a floresta amadurece. Adicione segmentos para diferentes fases de crescimento. Máximo de {max} segmentos.",
+  "Accumulated total":
+    "Total acumulado",
+  "Weighted avg":
+    "Média ponderada",
+
+  // ── Context constraints ───────────────────────────────────────────────────
+  "Given an unfavourable scenario with contextual constraints, estimate the additional cost required to overcome these constraints and achieve the same level of ecological success as in a favourable scenario. These additional activities would have the same costs for all methods, so you need to fill this up just once. Pay attention to the unit of each cost field.":
+    "Dado um cenário desfavorável com restrições de contexto, estime o custo adicional necessário para superar essas restrições e alcançar o mesmo nível de sucesso ecológico de um cenário favorável. Essas atividades adicionais teriam os mesmos custos para todos os métodos, por isso basta preencher uma vez. Atenção à unidade de cada campo de custo.",
+  "Firebreak / Fire Risk":
+    "Aceiro / Risco de Fogo",
+  "Fencing / Grazing Pressure":
+    "Cercamento / Pressão de Pastejo",
+  "Weed Control / Invasive Species Pressure":
+    "Controle de Plantas Daninhas / Pressão de Espécies Invasoras",
+  "Pest Control / Pest Infestation Risk":
+    "Controle de Pragas / Risco de Infestação",
+  "Consider the linear cost (1 km = 1000 m) and the total area of each lot that probably will need to be fenced ({area}). You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Considere o custo linear (1 km = 1000 m) e a área total de cada lote que provavelmente precisará ser cercada ({area}). Você pode informar o custo diretamente em {currency}/km ou digitar {currency}/{area}, que será convertido automaticamente.",
+  "Consider the linear cost (1 km = 1000 m) and the total area that needs fire breaks. You can enter the cost directly in {currency}/km, or type {currency}/{area} and it will be converted automatically.":
+    "Considere o custo linear (1 km = 1000 m) e a área total que precisa de aceiros. Você pode informar o custo diretamente em {currency}/km ou digitar {currency}/{area}, que será convertido automaticamente.",
+  "Consider the total number of times this activity will need to occur over the {horizon}-year project horizon (including both implementation and maintenance phases).":
+    "Considere o número total de vezes que esta atividade precisará ocorrer ao longo do horizonte de {horizon} anos do projeto (incluindo as fases de implantação e manutenção).",
+  "Unit Cost":
+    "Custo Unitário",
+  "or enter per area":
+    "ou informe por área",
+  "optional":
+    "opcional",
+  "Fill in the area field to enable conversion":
+    "Preencha o campo de área para habilitar a conversão",
+  "Converts to {currency}/km using √({area} ha)":
+    "Converte para {currency}/km usando √({area} ha)",
+  "Average area that needs fences in one typical property":
+    "Área média que precisa de cerca em uma propriedade típica",
+  "Average total area that needs fire breaks":
+    "Área total média que precisa de aceiros",
+  "Number of occurrences over {horizon} years":
+    "Número de ocorrências em {horizon} anos",
+  "times":
+    "vezes",
+  "e.g., 50":
+    "ex.: 50",
+  "e.g., 10":
+    "ex.: 10",
+  "e.g., 5":
+    "ex.: 5",
+
+  // ── Labor breakdown ───────────────────────────────────────────────────────
+  "Of the total labor hours involved in the restoration project, what percentage corresponds to hired labor (paid workers) and what percentage to non-hired labour (includes any type of labour that is not hired, such as family or community labour)?":
+    "Do total de horas de trabalho envolvidas no projeto de restauração, qual percentual corresponde a mão de obra contratada (trabalhadores pagos) e qual a mão de obra não contratada (qualquer tipo de trabalho não contratado, como familiar ou comunitário)?",
+  "Please provide estimates for each phase. Each row must sum to 100%.":
+    "Informe estimativas para cada fase. Cada linha deve somar 100%.",
+  "Implementation (Year 1)":
+    "Implantação (Ano 1)",
+  "Maintenance (Years 2–{horizon})":
+    "Manutenção (Anos 2–{horizon})",
+  "Labor hour distribution":
+    "Distribuição das horas de trabalho",
+  "Hired Labour":
+    "Mão de obra contratada",
+  "Non Hired Labour":
+    "Mão de obra não contratada",
+  "Includes any type of labour that is not hired, such as family or community labour":
+    "Inclui qualquer tipo de trabalho não contratado, como familiar ou comunitário",
+  "Gender Distribution":
+    "Distribuição por Gênero",
+  "Gender distribution":
+    "Distribuição por gênero",
+  "Of the total labor hours involved in this project, what percentage is contributed by each gender group? Must sum to 100%.":
+    "Do total de horas de trabalho deste projeto, qual percentual é realizado por cada grupo de gênero? Deve somar 100%.",
+  "Male":
+    "Masculino",
+  "Female":
+    "Feminino",
+  "Others":
+    "Outros",
+  "Hired Labor Cost Reference":
+    "Referência de Custo da Mão de Obra Contratada",
+  "Average daily wage for hired field workers and hourly cost of machinery in this region.":
+    "Diária média de trabalhadores de campo contratados e custo horário de maquinário nesta região.",
+  "Hired Labor Cost":
+    "Custo da Mão de Obra Contratada",
+  "Machinery Unit Cost":
+    "Custo Unitário de Maquinário",
+  "Land Lease Reference":
+    "Referência de Arrendamento de Terra",
+  "Average annual cost to lease (rent) one {area} of land in this region.":
+    "Custo anual médio para arrendar 1 {area} de terra nesta região.",
+  "Average Land Lease Cost":
+    "Custo Médio de Arrendamento",
+
+  // ── Summary & assumptions ─────────────────────────────────────────────────
+  "Declared Total Unfavorable Cost":
+    "Custo Total Desfavorável Declarado",
+  "Your own estimate of the total cost (implementation + maintenance + all constraints) under the unfavorable scenario. The difference from the sum of the parts is the interaction adjustment. Leave 0 if you have no estimate.":
+    "Sua própria estimativa do custo total (implantação + manutenção + todas as restrições) no cenário desfavorável. A diferença em relação à soma das partes é o ajuste de interação. Deixe 0 se não tiver estimativa.",
+  "Default Discount Rate":
+    "Taxa de Desconto Padrão",
+  "Used for the headline NPV, BCR, payback year and cost per tCO2":
+    "Usada no VPL principal, na RBC, no ano de payback e no custo por tCO2",
+  "Tornado Sensitivity Flex":
+    "Variação da Sensibilidade (Tornado)",
+  "Each driver is moved down and up by this share in the one-way sensitivity":
+    "Cada fator é reduzido e aumentado nesta proporção na sensibilidade univariada",
+  "Carbon Price (Year 1)":
+    "Preço do Carbono (Ano 1)",
+  "Carbon Price Escalation":
+    "Reajuste do Preço do Carbono",
+  "Annual real change of the carbon price; 0 keeps the price flat":
+    "Variação real anual do preço do carbono; 0 mantém o preço constante",
+  "Buffer Pool Deduction":
+    "Dedução para Reserva de Garantia",
+  "Share of sequestered carbon withheld by the registry and not sold":
+    "Parcela do carbono sequestrado retida pelo registro e não vendida",
+  "Fallback Sequestration Rate":
+    "Taxa de Sequestro Alternativa",
+  "Mean rate used when the ecosystem has no reference sequestration value":
+    "Taxa média usada quando o ecossistema não tem valor de sequestro de referência",
+  "NTFP Maturation Lag":
+    "Defasagem de Maturação do PFNM",
+  "Years before NTFP revenue starts when only a revenue total is available":
+    "Anos até o início da receita de PFNM quando só há o total de receita",
+  "Fencing Cost in Year 1":
+    "Custo de Cercamento no Ano 1",
+  "Share of total fencing cost incurred at implementation; the rest is spread over the maintenance years":
+    "Parcela do custo total de cercamento incorrida na implantação; o restante é distribuído pelos anos de manutenção",
+
+  // ── Validation messages ───────────────────────────────────────────────────
+  "Cannot be negative":
+    "Não pode ser negativo",
+  "Cannot exceed 100%":
+    "Não pode exceder 100%",
+  "Cannot exceed 50%":
+    "Não pode exceder 50%",
+  "Cannot exceed 20%":
+    "Não pode exceder 20%",
+  "Cannot be below -20%":
+    "Não pode ser inferior a -20%",
+  "Must be a whole number":
+    "Deve ser um número inteiro",
+  "Must be at least 1%":
+    "Deve ser pelo menos 1%",
+  "Labor % is required":
+    "O % de mão de obra é obrigatório",
+  "Materials % is required":
+    "O % de materiais é obrigatório",
+  "Machinery % is required":
+    "O % de maquinário é obrigatório",
+  "Segment id is required":
+    "O id do segmento é obrigatório",
+  "Start year is required":
+    "O ano inicial é obrigatório",
+  "End year is required":
+    "O ano final é obrigatório",
+  "Minimum year 2 (year 1 is implementation)":
+    "Ano mínimo 2 (o ano 1 é a implantação)",
+  "Maximum {max} years":
+    "Máximo de {max} anos",
+  "Minimum {min} years":
+    "Mínimo de {min} anos",
+  "End year must be greater than or equal to start year":
+    "O ano final deve ser maior ou igual ao ano inicial",
+  "End year exceeds the {horizon}-year time horizon":
+    "O ano final excede o horizonte de {horizon} anos",
+  "Cost is required":
+    "O custo é obrigatório",
+  "Revenue is required":
+    "A receita é obrigatória",
+  "Productivity is required":
+    "A produtividade é obrigatória",
+  "Number of occurrences is required":
+    "O número de ocorrências é obrigatório",
+  "Implementation cost is required":
+    "O custo de implantação é obrigatório",
+  "Maintenance cost is required":
+    "O custo de manutenção é obrigatório",
+  "Ecosystem is required":
+    "O ecossistema é obrigatório",
+  "Time horizon is required":
+    "O horizonte de análise é obrigatório",
+  "Hired Labour % is required":
+    "O % de mão de obra contratada é obrigatório",
+  "Non Hired Labour % is required":
+    "O % de mão de obra não contratada é obrigatório",
+  "Hired labor cost is required":
+    "O custo da mão de obra contratada é obrigatório",
+  "Machinery unit cost is required":
+    "O custo unitário de maquinário é obrigatório",
+  "Land lease cost is required":
+    "O custo de arrendamento é obrigatório",
+  "Male % is required":
+    "O % masculino é obrigatório",
+  "Female % is required":
+    "O % feminino é obrigatório",
+  "Other % is required":
+    "O % de outros é obrigatório",
+
+  // ── Consistency rules ─────────────────────────────────────────────────────
+  "Implementation hired + non hired labour":
+    "Mão de obra contratada + não contratada na implantação",
+  "Maintenance hired + non hired labour":
+    "Mão de obra contratada + não contratada na manutenção",
+  "{label} must sum to 100%. Currently: {sum}%.":
+    "{label} deve somar 100%. Atualmente: {sum}%.",
+  "Some segments end after year {horizon}. Shorten them or extend the time horizon.":
+    "Alguns segmentos terminam depois do ano {horizon}. Encurte-os ou amplie o horizonte de análise.",
+  "Complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.":
+    "Preencha pelo menos uma aba de método (custos e distribuições de implantação e manutenção) antes de salvar ou exportar.",
+  "Enter the implementation cost (year 1), or mark the method as having no data.":
+    "Informe o custo de implantação (ano 1) ou marque o método como sem dados.",
+  "Add at least one maintenance segment with a cost, or mark the method as having no data.":
+    "Adicione pelo menos um segmento de manutenção com custo ou marque o método como sem dados.",
+  "The implementation cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "A distribuição do custo de implantação deve somar exatamente 100%. Atualmente: {sum}%.",
+  "Please fill in the implementation cost distribution (must sum to 100%).":
+    "Preencha a distribuição do custo de implantação (deve somar 100%).",
+  "The maintenance cost distribution must sum to exactly 100%. Currently: {sum}%.":
+    "A distribuição do custo de manutenção deve somar exatamente 100%. Atualmente: {sum}%.",
+  "Please fill in the maintenance cost distribution (must sum to 100%).":
+    "Preencha a distribuição do custo de manutenção (deve somar 100%).",
+  "The declared unfavorable cost differs from the sum of its parts by more than {pct}%. Check for missing or double-counted constraint costs, or annual vs total maintenance confusion.":
+    "O custo desfavorável declarado difere da soma das partes em mais de {pct}%. Verifique custos de restrição ausentes ou contados em dobro, ou confusão entre manutenção anual e total.",
+  "No unfavorable-scenario cost declared; the interaction adjustment is taken as 0.":
+    "Nenhum custo de cenário desfavorável declarado; o ajuste de interação é considerado 0.",
+  "The maintenance segment for years {from}–{to} has no activity selected.":
+    "O segmento de manutenção dos anos {from}–{to} não tem atividade selecionada.",
+  "Firebreak":
+    "Aceiro",
+  "Fencing":
+    "Cercamento",
+  "Weed control":
+    "Controle de plantas daninhas",
+  "Pest control":
+    "Controle de pragas",
+  "{label}: the distribution must sum to exactly 100%. Currently: {sum}%.":
+    "{label}: a distribuição deve somar exatamente 100%. Atualmente: {sum}%.",
+  "{label}: please fill in the cost distribution for this cost category (must sum to 100%).":
+    "{label}: preencha a distribuição de custo desta categoria (deve somar 100%).",
+  "{label}: a unit cost is entered but the fenced area is 0, so it adds no cost.":
+    "{label}: há um custo unitário informado, mas a área cercada é 0, então nenhum custo é somado.",
+  "{label}: a unit cost is entered but the number of occurrences is 0, so it adds no cost.":
+    "{label}: há um custo unitário informado, mas o número de ocorrências é 0, então nenhum custo é somado.",
+  "{activity}: the annual cost {cost}/yr is close to the whole implementation cost ({impl}). Over {years} years it adds up to {total}, {ratio}× implementation. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity}: o custo anual de {cost}/ano é próximo ao custo total de implantação ({impl}). Em {years} anos ele soma {total}, {ratio}× a implantação. Lido como total, equivale a {annual}/ano nos anos {from}–{to}.",
+  "{activity}: one segment covers the whole maintenance period and its {cost}/yr adds up to {total}, {ratio}× the implementation cost. The value may be the accumulated total. Read as a total, it is {annual}/yr over years {from}–{to}.":
+    "{activity}: um único segmento cobre todo o período de manutenção e seus {cost}/ano somam {total}, {ratio}× o custo de implantação. O valor pode ser o total acumulado. Lido como total, equivale a {annual}/ano nos anos {from}–{to}.",
+  "This segment":
+    "Este segmento",
+
+  // ── Excel export ──────────────────────────────────────────────────────────
+  "Field":
+    "Campo",
+  "Unit":
+    "Unidade",
+  "Section":
+    "Seção",
+  "Description":
+    "Descrição",
+  "Form Path":
+    "Caminho no Formulário",
+  "Value":
+    "Valor",
+  "Expected Min":
+    "Mínimo Esperado",
+  "Expected Max":
+    "Máximo Esperado",
+  "Deviation (%)":
+    "Desvio (%)",
+  "Range Source":
+    "Origem da Faixa",
+  "Message":
+    "Mensagem",
+  "Rule ID":
+    "ID da Regra",
+  "Severity":
+    "Gravidade",
+  "Fields":
+    "Campos",
+  "error":
+    "erro",
+  "warning":
+    "aviso",
+  "info":
+    "observação",
+  "No field outside its reference range":
+    "Nenhum campo fora da faixa de referência",
+  "No issue found by the consistency rules":
+    "Nenhum problema encontrado pelas regras de consistência",
+
+  // ── Export metadata ───────────────────────────────────────────────────────
+  "text":
+    "texto",
+  "text \"lat, lon\"":
+    "texto “lat, lon”",
+  "integer":
+    "inteiro",
+  "count":
+    "contagem",
+  "year (From/To) or US$/ha/yr (Annual_USD)":
+    "ano (From/To) ou US$/ha/ano (Annual_USD)",
+  "year (From/To) or kg/ha/yr (kg_ha_yr)":
+    "ano (From/To) ou kg/ha/ano (kg_ha_yr)",
+  "1. Identification":
+    "1. Identificação",
+  "2. Method":
+    "2. Método",
+  "3. Implementation":
+    "3. Implantação",
+  "4. Maintenance segments":
+    "4. Segmentos de manutenção",
+  "5. Maintenance distribution":
+    "5. Distribuição da manutenção",
+  "6. NTFP species & price":
+    "6. Espécie e preço do PFNM",
+  "7. NTFP Productivity segments":
+    "7. Segmentos de produtividade de PFNM",
+  "8. NTFP Revenue segments":
+    "8. Segmentos de receita de PFNM",
+  "9. Context Constraints":
+    "9. Restrições de Contexto",
+  "10. Labor Breakdown":
+    "10. Composição da Mão de Obra",
+  "11. Unfavorable Scenario":
+    "11. Cenário Desfavorável",
+  "Name of the field expert / consultant who provided the data":
+    "Nome do especialista de campo / consultor que forneceu os dados",
+  "Name of the person filling out the questionnaire":
+    "Nome da pessoa que preencheu o questionário",
+  "Date when the data was collected":
+    "Data em que os dados foram coletados",
+  "GPS coordinates of the project site":
+    "Coordenadas GPS da área do projeto",
+  "Ecosystem type (e.g., Tropical Forest, Cerrado, Mangrove)":
+    "Tipo de ecossistema (ex.: Floresta Tropical, Cerrado, Manguezal)",
+  "Country where the project is located":
+    "País onde o projeto está localizado",
+  "City where the project is located":
+    "Cidade onde o projeto está localizado",
+  "Analysis time horizon (10–50 years); all segment years fall within it":
+    "Horizonte de análise (10–50 anos); todos os anos dos segmentos ficam dentro dele",
+  "Format version of the questionnaire that wrote this file; used to migrate older files on import":
+    "Versão de formato do questionário que gravou este arquivo; usada para migrar arquivos antigos na importação",
+  "Display label of the restoration method for this row":
+    "Nome de exibição do método de restauração desta linha",
+  "Internal ID of the method (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)":
+    "ID interno do método (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)",
+  "Basic implementation cost (Year 1) for this method":
+    "Custo básico de implantação (Ano 1) deste método",
+  "Share of implementation cost attributable to labor (must sum to 100% with Mater/Mach)":
+    "Parcela do custo de implantação atribuível à mão de obra (deve somar 100% com Mater/Mach)",
+  "Share of implementation cost attributable to materials":
+    "Parcela do custo de implantação atribuível a materiais",
+  "Share of implementation cost attributable to machinery/services":
+    "Parcela do custo de implantação atribuível a maquinário/serviços",
+  "Segments for 'Maintenance of regenerating individuals' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr (start year), To_yr (end year, >= From_yr), Annual_USD (annual cost in US$/ha)}. Empty when the user has not used that segment slot.":
+    "Segmentos de 'Manutenção dos indivíduos regenerantes' (poda, desbaste, tutoramento). <N> em 1..10. <Field> em {From_yr (ano inicial), To_yr (ano final, >= From_yr), Annual_USD (custo anual em US$/ha)}. Vazio quando o usuário não usou essa posição de segmento.",
+  "Segments for 'Maintenance of NTFP species' (pruning, thinning, support staking). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Manutenção das espécies de PFNM' (poda, desbaste, tutoramento). <N> em 1..10. <Field> em {From_yr, To_yr, Annual_USD}. Vazio quando a posição não foi usada.",
+  "Segments for 'Harvest' activity (e.g. NTFP collection, when treated as a maintenance cost). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos da atividade 'Colheita' (ex.: coleta de PFNM, quando tratada como custo de manutenção). <N> em 1..10. <Field> em {From_yr, To_yr, Annual_USD}. Vazio quando a posição não foi usada.",
+  "Segments for 'Technical assistance' (agronomist/forester visits, planning, training). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Assistência técnica' (visitas de agrônomo/engenheiro florestal, planejamento, capacitação). <N> em 1..10. <Field> em {From_yr, To_yr, Annual_USD}. Vazio quando a posição não foi usada.",
+  "Segments for 'Monitoring General Maintenance Activities' (e.g. shade management, light interventions). <N> in 1..10. <Field> in {From_yr, To_yr, Annual_USD}. Empty when the slot was not used.":
+    "Segmentos de 'Monitoramento e atividades gerais de manutenção' (ex.: manejo de sombra, intervenções leves). <N> em 1..10. <Field> em {From_yr, To_yr, Annual_USD}. Vazio quando a posição não foi usada.",
+  "Share of maintenance cost attributable to labor (sum to 100%)":
+    "Parcela do custo de manutenção atribuível à mão de obra (soma 100%)",
+  "Share of maintenance cost attributable to materials":
+    "Parcela do custo de manutenção atribuível a materiais",
+  "Share of maintenance cost attributable to machinery/services":
+    "Parcela do custo de manutenção atribuível a maquinário/serviços",
+  "Selected Non-Timber Forest Product species (NTFP methods only - empty otherwise)":
+    "Espécie de Produto Florestal Não Madeireiro selecionada (apenas métodos com PFNM - vazio nos demais)",
+  "Average price of the NTFP during harvesting season (NTFP methods only)":
+    "Preço médio do PFNM na safra (apenas métodos com PFNM)",
+  "NTFP productivity segments. <N> in 1..5. <Field> in {From_yr, To_yr, kg_ha_yr (annual productivity)}. Filled only when the user picks 'Productivity data' mode for an NTFP method. Empty otherwise.":
+    "Segmentos de produtividade de PFNM. <N> em 1..5. <Field> em {From_yr, To_yr, kg_ha_yr (produtividade anual)}. Preenchido apenas quando o usuário escolhe o modo 'Dados de produtividade' em um método com PFNM. Vazio nos demais casos.",
+  "NTFP revenue segments. <N> in 1..5. <Field> in {From_yr, To_yr, Annual_USD (annual revenue)}. Filled only when the user picks 'Revenue data' mode for an NTFP method. Empty otherwise.":
+    "Segmentos de receita de PFNM. <N> em 1..5. <Field> em {From_yr, To_yr, Annual_USD (receita anual)}. Preenchido apenas quando o usuário escolhe o modo 'Dados de receita' em um método com PFNM. Vazio nos demais casos.",
+  "Firebreak unit cost per linear km":
+    "Custo unitário de aceiro por km linear",
+  "Firebreak unit cost per hectare (derived from US$/km via firebreak area)":
+    "Custo unitário de aceiro por hectare (derivado de US$/km pela área de aceiros)",
+  "Number of times firebreak activity occurs over the time horizon":
+    "Número de vezes que a atividade de aceiro ocorre no horizonte de análise",
+  "Share of firebreak cost attributable to labor (sum to 100%)":
+    "Parcela do custo de aceiro atribuível à mão de obra (soma 100%)",
+  "Share of firebreak cost attributable to materials":
+    "Parcela do custo de aceiro atribuível a materiais",
+  "Share of firebreak cost attributable to machinery/services":
+    "Parcela do custo de aceiro atribuível a maquinário/serviços",
+  "Fencing unit cost per linear km":
+    "Custo unitário de cercamento por km linear",
+  "Fencing unit cost per hectare (derived from US$/km via fenced area)":
+    "Custo unitário de cercamento por hectare (derivado de US$/km pela área cercada)",
+  "Share of fencing cost attributable to labor":
+    "Parcela do custo de cercamento atribuível à mão de obra",
+  "Share of fencing cost attributable to materials":
+    "Parcela do custo de cercamento atribuível a materiais",
+  "Share of fencing cost attributable to machinery/services":
+    "Parcela do custo de cercamento atribuível a maquinário/serviços",
+  "Invasive species / weed control unit cost":
+    "Custo unitário do controle de espécies invasoras / plantas daninhas",
+  "Number of weed-control occurrences over the time horizon":
+    "Número de ocorrências de controle de plantas daninhas no horizonte de análise",
+  "Share of weed-control cost attributable to labor":
+    "Parcela do custo de controle de plantas daninhas atribuível à mão de obra",
+  "Share of weed-control cost attributable to materials":
+    "Parcela do custo de controle de plantas daninhas atribuível a materiais",
+  "Share of weed-control cost attributable to machinery/services":
+    "Parcela do custo de controle de plantas daninhas atribuível a maquinário/serviços",
+  "Pest control unit cost":
+    "Custo unitário do controle de pragas",
+  "Number of pest-control occurrences over the time horizon":
+    "Número de ocorrências de controle de pragas no horizonte de análise",
+  "Share of pest-control cost attributable to labor":
+    "Parcela do custo de controle de pragas atribuível à mão de obra",
+  "Share of pest-control cost attributable to materials":
+    "Parcela do custo de controle de pragas atribuível a materiais",
+  "Share of pest-control cost attributable to machinery/services":
+    "Parcela do custo de controle de pragas atribuível a maquinário/serviços",
+  "Implementation labor: share of hired (paid) workers (Hired+Family = 100%)":
+    "Mão de obra na implantação: parcela de trabalhadores contratados (pagos) (Contratada+Familiar = 100%)",
+  "Implementation labor: share of family (unpaid) labor":
+    "Mão de obra na implantação: parcela de trabalho familiar (não pago)",
+  "Maintenance labor: share of hired (paid) workers":
+    "Mão de obra na manutenção: parcela de trabalhadores contratados (pagos)",
+  "Maintenance labor: share of family (unpaid) labor":
+    "Mão de obra na manutenção: parcela de trabalho familiar (não pago)",
+  "Regional reference: average daily wage for hired field workers":
+    "Referência regional: diária média de trabalhadores de campo contratados",
+  "Regional reference: hourly cost of machinery":
+    "Referência regional: custo horário de maquinário",
+  "Regional reference: average annual land lease (rent) rate per hectare":
+    "Referência regional: valor médio anual de arrendamento por hectare",
+  "Share of total labor hours contributed by male workers (sum to 100% with Female/Other)":
+    "Parcela do total de horas de trabalho realizada por homens (soma 100% com Female/Other)",
+  "Share of total labor hours contributed by female workers":
+    "Parcela do total de horas de trabalho realizada por mulheres",
+  "Share of total labor hours contributed by non-binary / other workers":
+    "Parcela do total de horas de trabalho realizada por pessoas não binárias / outras",
+  "Respondent's declared total cost of the unfavorable scenario over the horizon. Empty when not declared":
+    "Custo total do cenário desfavorável no horizonte, declarado pelo respondente. Vazio quando não declarado",
+  "Additive estimate: implementation + maintenance + Σ(constraint unit cost × occurrences)":
+    "Estimativa aditiva: implantação + manutenção + Σ(custo unitário da restrição × ocorrências)",
+  "Interaction adjustment = declared − computed; carried into the CBA cash flows. Empty when not declared":
+    "Ajuste de interação = declarado − calculado; levado aos fluxos de caixa da ACB. Vazio quando não declarado",
+
+  // ── Entry currency ────────────────────────────────────────────────────────
+  "Currency of the amounts":
+    "Moeda dos valores",
+  "Exchange rate":
+    "Taxa de câmbio",
+  "{currency} per US$":
+    "{currency} por US$",
+  "Units of the local currency for 1 US$. Amounts are stored as entered and converted to US$ with this rate for the reference ranges, aggregation and the Excel export.":
+    "Unidades da moeda local por 1 US$. Os valores são guardados como informados e convertidos para US$ com esta taxa nas faixas de referência, na agregação e na exportação Excel.",
+  "Exchange rate date":
+    "Data da taxa de câmbio",
+  "Currency":
+    "Moeda",
+  "ISO 4217 code":
+    "código ISO 4217",
+  "local units per US$":
+    "unidades locais por US$",
+  "Currency the respondent entered the amounts in (USD = entered in US dollars)":
+    "Moeda em que o respondente informou os valores (USD = informados em dólares americanos)",
+  "Exchange rate used to convert the entered amounts to the US$ columns; amount as entered = US$ value × rate":
+    "Taxa de câmbio usada para converter os valores informados nas colunas em US$; valor informado = valor em US$ × taxa",
+  "Date the exchange rate was taken on":
+    "Data em que a taxa de câmbio foi obtida",
+  "US dollar":
+    "Dólar americano",
+  "Argentine peso":
+    "Peso argentino",
+  "Bolivian boliviano":
+    "Boliviano",
+  "Brazilian real":
+    "Real brasileiro",
+  "Chilean peso":
+    "Peso chileno",
+  "Colombian peso":
+    "Peso colombiano",
+  "Costa Rican colón":
+    "Colón costarriquenho",
+  "Euro":
+    "Euro",
+  "Guatemalan quetzal":
+    "Quetzal guatemalteco",
+  "Honduran lempira":
+    "Lempira hondurenha",
+  "Indonesian rupiah":
+    "Rupia indonésia",
+  "Indian rupee":
+    "Rupia indiana",
+  "Kenyan shilling":
+    "Xelim queniano",
+  "Malagasy ariary":
+    "Ariary malgaxe",
+  "Mexican peso":
+    "Peso mexicano",
+  "Peruvian sol":
+    "Sol peruano",
+  "Paraguayan guaraní":
+    "Guarani paraguaio",
+  "Tanzanian shilling":
+    "Xelim tanzaniano",
+  "Central African CFA franc":
+    "Franco CFA da África Central",
+  "West African CFA franc":
+    "Franco CFA da África Ocidental",
+
+  // ── Area unit ─────────────────────────────────────────────────────────────
+  "Area unit":
+    "Unidade de área",
+  "Hectare":
+    "Hectare",
+  "Acre":
+    "Acre",
+  "Manzana":
+    "Manzana",
+  "Tarea":
+    "Tarefa",
+  "ha | acre | manzana | tarea":
+    "ha | acre | manzana | tarea",
+  "Area unit the respondent used on the form; every area-denominated column is still per hectare":
+    "Unidade de área usada pelo respondente no formulário; todas as colunas por área continuam por hectare",
+
+  // ── Questionnaire report ──────────────────────────────────────────────────
+  "Report":
+    "Relatório",
+  "Printable report of the questionnaire (print or save as PDF)":
+    "Relatório do questionário para impressão (imprimir ou salvar como PDF)",
+  "Questionnaire report":
+    "Relatório do questionário",
+  "Print / Save as PDF":
+    "Imprimir / Salvar como PDF",
+  "Close report":
+    "Fechar relatório",
+  "Restoration cost questionnaire":
+    "Questionário de custos de restauração",
+  "Report generated on {date}":
+    "Relatório gerado em {date}",
+  "Identification":
+    "Identificação",
+  "Item":
+    "Item",
+  "{rate} {code} per US$":
+    "{rate} {code} por US$",
+  "Methods without data":
+    "Métodos sem dados",
+  "Context Constraints":
+    "Restrições de contexto",
+  "Constraint":
+    "Restrição",
+  "Occurrences":
+    "Ocorrências",
+  "Firebreak area":
+    "Área de aceiros",
+  "Labor Breakdown":
+    "Distribuição da mão de obra",
+  "Consistency checks":
+    "Verificações de consistência",
+  "Method":
+    "Método",
+  "Issue":
+    "Problema",
+  "Error":
+    "Erro",
+  "Warning":
+    "Aviso",
+  "Note":
+    "Nota",
+  "Interaction adjustment":
+    "Ajuste de interação",
+  "No segments":
+    "Sem segmentos",
+  "Maintenance":
+    "Manutenção",
+  "Annual timeline ({unit})":
+    "Cronograma anual ({unit})",
+  "Cost-benefit analysis":
+    "Análise custo-benefício",
+  "No results: the implementation cost is missing.":
+    "Sem resultados: falta o custo de implantação.",
+  "Respondent":
+    "Respondente",
+  "Reviewer":
+    "Revisor",
+  "Date":
+    "Data",
+
+  // ── Machinery hours ───────────────────────────────────────────────────────
+  "Enter the machinery unit cost per hour to derive the machinery hours implied by the machinery shares.":
+    "Informe o custo unitário de máquinas por hora para derivar as horas de máquina implícitas nas participações de máquinas.",
+  "The implementation cost implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "O custo de implantação implica {hours} horas de máquina por ha, mais que as {max} h/ha plausíveis para este método. Verifique a participação de máquinas e o custo unitário de máquinas.",
+  "Maintenance in year {year} implies {hours} machinery hours per ha, more than the {max} h/ha plausible for this method. Check the machinery share and the machinery unit cost.":
+    "A manutenção no ano {year} implica {hours} horas de máquina por ha, mais que as {max} h/ha plausíveis para este método. Verifique a participação de máquinas e o custo unitário de máquinas.",
+
+  // ── Employment ────────────────────────────────────────────────────────────
+  "Employment":
+    "Emprego",
+  "Labor person-days and full-time-equivalent jobs over {horizon} years per restoration method":
+    "Dias-pessoa de trabalho e empregos em tempo integral equivalente ao longo de {horizon} anos por método de restauração",
+  "Enter the hired labor cost per day in Section 4 to derive person-days and jobs.":
+    "Informe o custo diário da mão de obra contratada na Seção 4 para derivar dias-pessoa e empregos.",
+  "days/{area}":
+    "dias/{area}",
+  "Person-Days":
+    "Dias-Pessoa",
+  "{unit} over {years} years":
+    "{unit} em {years} anos",
+  "Jobs in Year 1":
+    "Empregos no Ano 1",
+  "FTE per 1,000 ha during implementation":
+    "ETI por 1.000 ha durante a implantação",
+  "Jobs in Maintenance":
+    "Empregos na Manutenção",
+  "Mean FTE per 1,000 ha, years 2–{last}":
+    "ETI médio por 1.000 ha, anos 2–{last}",
+  "Average Jobs":
+    "Empregos Médios",
+  "Mean FTE per 1,000 ha over the horizon ({days} days = 1 FTE)":
+    "ETI médio por 1.000 ha no horizonte ({days} dias = 1 ETI)",
+  "Person-Days by Year ({unit})":
+    "Dias-Pessoa por Ano ({unit})",
+  "Labor in the implementation, maintenance and constraint costs, hired vs non-hired.":
+    "Mão de obra nos custos de implantação, manutenção e restrições, contratada vs não contratada.",
+  "Hired":
+    "Contratada",
+  "Non-hired":
+    "Não contratada",
+  "Person-Days by Gender ({unit})":
+    "Dias-Pessoa por Gênero ({unit})",
+  "Total person-days split by the gender distribution of Section 4.":
+    "Total de dias-pessoa dividido pela distribuição por gênero da Seção 4.",
+  "Person-days":
+    "Dias-pessoa",
+  "Phase":
+    "Fase",
+  "Person-Days ({unit})":
+    "Dias-Pessoa ({unit})",
+  "Non-Hired":
+    "Não Contratada",
+  "FTE per 1,000 ha":
+    "ETI por 1.000 ha",
+  "Maintenance (Years 2–{last})":
+    "Manutenção (Anos 2–{last})",
+  "Whole horizon":
+    "Horizonte completo",
+  "Person-Days (days/ha)":
+    "Dias-Pessoa (dias/ha)",
+  "Hired (days/ha)":
+    "Contratada (dias/ha)",
+  "Non-Hired (days/ha)":
+    "Não Contratada (dias/ha)",
+  "Male (days/ha)":
+    "Masculino (dias/ha)",
+  "Female (days/ha)":
+    "Feminino (dias/ha)",
+  "Others (days/ha)":
+    "Outros (dias/ha)",
+  "Implementation (days/ha)":
+    "Implantação (dias/ha)",
+  "Maintenance (days/ha)":
+    "Manutenção (dias/ha)",
+  "FTE per 1,000 ha — Year 1":
+    "ETI por 1.000 ha — Ano 1",
+  "FTE per 1,000 ha — Maintenance (mean)":
+    "ETI por 1.000 ha — Manutenção (média)",
+  "FTE per 1,000 ha — Horizon (mean)":
+    "ETI por 1.000 ha — Horizonte (média)",
+  "Project Year":
+    "Ano do Projeto",
+  "Implementation":
+    "Implantação",
+  "EMPLOYMENT — labor in the costs ÷ hired labor rate; 1 FTE = {days} days/year":
+    "EMPREGO — mão de obra nos custos ÷ diária da mão de obra contratada; 1 ETI = {days} dias/ano",
+  "PERSON-DAYS BY YEAR":
+    "DIAS-PESSOA POR ANO",
+
+  // ── Project scenario ──────────────────────────────────────────────────────
+  "Project Scenario":
+    "Cenário de Projeto",
+  "Scale the per-hectare results to a project: area per method, planting schedule and total budget":
+    "Escale os resultados por hectare para um projeto: área por método, cronograma de plantio e orçamento total",
+  "Enter the area implemented with each method in each project year. Every planting follows the method's per-hectare cash flow from its own year, so the project runs until the last planting reaches the end of the {horizon}-year horizon. Methods without an implementation cost are left out.":
+    "Informe a área implantada com cada método em cada ano do projeto. Cada plantio segue o fluxo de caixa por hectare do método a partir do seu próprio ano, de modo que o projeto dura até o último plantio chegar ao fim do horizonte de {horizon} anos. Métodos sem custo de implantação ficam de fora.",
+  "Planting schedule (project year / area in {unit})":
+    "Cronograma de plantio (ano do projeto / área em {unit})",
+  "Total ({unit})":
+    "Total ({unit})",
+  "Project year":
+    "Ano do projeto",
+  "Area":
+    "Área",
+  "Remove planting year":
+    "Remover ano de plantio",
+  "Add planting year":
+    "Adicionar ano de plantio",
+  "Check the planting schedule: project years are whole numbers from 1, areas cannot be negative.":
+    "Verifique o cronograma de plantio: os anos do projeto são números inteiros a partir de 1 e as áreas não podem ser negativas.",
+  "Constraint Costs in Year 1":
+    "Custos de Restrições no Ano 1",
+  "% of full cost":
+    "% do custo total",
+  "Share of the per-hectare firebreak, fencing, weed and pest control costs incurred in the first project year":
+    "Parcela dos custos por hectare de aceiros, cercas, controle de plantas invasoras e de pragas incorrida no primeiro ano do projeto",
+  "Constraint Ramp-Up Period":
+    "Período de Aumento das Restrições",
+  "Project years over which the constraint costs rise linearly to their full level. 0 = full costs from year 1":
+    "Anos do projeto ao longo dos quais os custos de restrições sobem linearmente até o nível total. 0 = custos totais desde o ano 1",
+  "Add a planting year with an area to a method with an implementation cost to see project results.":
+    "Adicione um ano de plantio com área a um método com custo de implantação para ver os resultados do projeto.",
+  "Total Area":
+    "Área Total",
+  "over {years} project years":
+    "em {years} anos de projeto",
+  "Total Budget":
+    "Orçamento Total",
+  "cash outlays, undiscounted (economic cost {cost})":
+    "desembolsos, sem desconto (custo econômico {cost})",
+  "Peak Financing Need":
+    "Necessidade Máxima de Financiamento",
+  "largest cumulative cash deficit, year {year}":
+    "maior déficit de caixa acumulado, ano {year}",
+  "the cash position never goes negative":
+    "o saldo de caixa nunca fica negativo",
+  "Project NPV":
+    "VPL do Projeto",
+  "@ {rate}, economic (financial {npv})":
+    "a {rate}, econômico (financeiro {npv})",
+  "Project Cash Flow by Year ({currency})":
+    "Fluxo de Caixa do Projeto por Ano ({currency})",
+  "Cash outlays and benefits of all plantings, with the cumulative cash position.":
+    "Desembolsos e benefícios de todos os plantios, com o saldo de caixa acumulado.",
+  "Cash outlays":
+    "Desembolsos",
+  "Benefits":
+    "Benefícios",
+  "Cumulative cash position":
+    "Saldo de caixa acumulado",
+  "Area ({unit})":
+    "Área ({unit})",
+  "Budget (cash outlays)":
+    "Orçamento (desembolsos)",
+  "Economic Cost":
+    "Custo Econômico",
+  "NPV @{rate}":
+    "VPL a {rate}",
+  "Project":
+    "Projeto",
+  "Export project workbook (.xlsx)":
+    "Exportar planilha do projeto (.xlsx)",
+  "Area (ha)":
+    "Área (ha)",
+  "Total Cost, economic (US$)":
+    "Custo Total, econômico (US$)",
+  "Budget, cash outlays (US$)":
+    "Orçamento, desembolsos (US$)",
+  "Total Benefits (US$)":
+    "Benefícios Totais (US$)",
+  "NPV @{rate} (US$)":
+    "VPL a {rate} (US$)",
+  "Financial NPV @{rate} (US$)":
+    "VPL Financeiro a {rate} (US$)",
+  "PROJECT COST-BENEFIT ANALYSIS":
+    "ANÁLISE CUSTO-BENEFÍCIO DO PROJETO",
+  "Project Length (years)":
+    "Duração do Projeto (anos)",
+  "Total Area (ha)":
+    "Área Total (ha)",
+  "Total Budget, cash outlays (US$)":
+    "Orçamento Total, desembolsos (US$)",
+  "Project NPV @{rate} (US$)":
+    "VPL do Projeto a {rate} (US$)",
+  "Project Financial NPV @{rate} (US$)":
+    "VPL Financeiro do Projeto a {rate} (US$)",
+  "Peak Financing Need (US$)":
+    "Necessidade Máxima de Financiamento (US$)",
+  "Peak Financing Year":
+    "Ano da Necessidade Máxima",
+  "N/A":
+    "N/D",
+  "PLANTING SCHEDULE":
+    "CRONOGRAMA DE PLANTIO",
+  "CONSTRAINT COST RAMP-UP":
+    "AUMENTO DOS CUSTOS DE RESTRIÇÕES",
+  "Share in Year 1 (%)":
+    "Parcela no Ano 1 (%)",
+  "Years to 100%":
+    "Anos até 100%",
+  "Constraint Costs Incurred (%)":
+    "Custos de Restrições Incorridos (%)",
+  "Area Planted (ha)":
+    "Área Plantada (ha)",
+  "Area Managed (ha)":
+    "Área Manejada (ha)",
+  "Maintenance Cost":
+    "Custo de Manutenção",
+  "Constraint Cost (after ramp-up)":
+    "Custo de Restrições (após aumento)",
+  "Adjustment, Land & Shadow Labor":
+    "Ajuste, Terra e Mão de Obra Sombra",
+  "Total Cost (economic)":
+    "Custo Total (econômico)",
+  "Total Benefits":
+    "Benefícios Totais",
+  "Net Cash Flow":
+    "Fluxo de Caixa Líquido",
+  "Discounted Net Flow":
+    "Fluxo Líquido Descontado",
+  "Financial Cost (cash outlays)":
+    "Custo Financeiro (desembolsos)",
+  "Financial Net Flow":
+    "Fluxo Líquido Financeiro",
+  "Cumulative Financial Net":
+    "Saldo Financeiro Acumulado",
+
+  // ── Regional extrapolation and CBA results ────────────────────────────────
+  "{horizon}-year NPV, IRR, BCR and cash-flow projections per restoration method":
+    "VPL, TIR, RBC e projeções de fluxo de caixa em {horizon} anos por método de restauração",
+  "Origin (where the data was collected)":
+    "Origem (onde os dados foram coletados)",
+  "Target region":
+    "Região de destino",
+  "Select region…":
+    "Selecione a região…",
+  "Each cost is re-priced with its labor / materials / machinery shares: AdjustedCost = Σ (share × target index ÷ origin index) × cost. NTFP and carbon revenues are not changed. The bundled indices are illustrative — review them before use.":
+    "Cada custo é reprecificado com suas participações de mão de obra / materiais / máquinas: CustoAjustado = Σ (participação × índice de destino ÷ índice de origem) × custo. As receitas de PFNM e de carbono não mudam. Os índices incluídos são ilustrativos — revise-os antes de usar.",
+  "Hide price index table":
+    "Ocultar tabela de índices de preços",
+  "Edit price index table":
+    "Editar tabela de índices de preços",
+  "Region":
+    "Região",
+  "Remove region":
+    "Remover região",
+  "New region":
+    "Nova região",
+  "Add region":
+    "Adicionar região",
+  "Reset to bundled values":
+    "Restaurar valores incluídos",
+  "Complete at least one method's costs to extrapolate.":
+    "Preencha os custos de pelo menos um método para extrapolar.",
+  "Select an origin and a target region to compare.":
+    "Selecione uma região de origem e uma de destino para comparar.",
+  "Total cost ({region})":
+    "Custo total ({region})",
+  "NPV ({region})":
+    "VPL ({region})",
+  "BCR ({region})":
+    "RBC ({region})",
+  "Export comparison (.xlsx)":
+    "Exportar comparação (.xlsx)",
+
+  // ── CBA results panel ─────────────────────────────────────────────────────
+  "Results in {currency}":
+    "Resultados em {currency}",
+  "Complete at least one method's costs to see results.":
+    "Preencha os custos de pelo menos um método para ver os resultados.",
+  "Economic NPV ({rate} discount)":
+    "VPL econômico (desconto de {rate})",
+  "NPV ({rate} discount)":
+    "VPL (desconto de {rate})",
+  "{horizon}-year NPV with non-hired labor and land at their opportunity cost":
+    "VPL em {horizon} anos com a mão de obra não contratada e a terra ao seu custo de oportunidade",
+  "{horizon}-year net present value":
+    "Valor presente líquido em {horizon} anos",
+  "Financial NPV ({rate} discount)":
+    "VPL financeiro (desconto de {rate})",
+  "Cash outlays only · BCR {bcr} · IRR {irr}":
+    "Apenas desembolsos · RBC {bcr} · TIR {irr}",
+  "BCR":
+    "RBC",
+  "Benefit-cost ratio":
+    "Relação benefício-custo",
+  "IRR":
+    "TIR",
+  "Internal rate of return":
+    "Taxa interna de retorno",
+  "Payback Year":
+    "Ano de Retorno",
+  "Year {year}":
+    "Ano {year}",
+  "Not reached":
+    "Não alcançado",
+  "Discounted payback":
+    "Retorno descontado",
+  "Carbon Revenue":
+    "Receita de Carbono",
+  "{credits} tCO2/{area} credited ({rate} t/{area}/yr gross)":
+    "{credits} tCO2/{area} creditadas ({rate} t/{area}/ano bruto)",
+  "Cost per tCO2":
+    "Custo por tCO2",
+  "Discounted cost per tonne sequestered":
+    "Custo descontado por tonelada sequestrada",
+  "Annual Cost Components ({unit})":
+    "Componentes Anuais de Custo ({unit})",
+  "Stacked breakdown by implementation, maintenance, and constraint costs per year, plus any interaction adjustment, land opportunity cost and shadow-wage revaluation of non-hired labor.":
+    "Composição anual empilhada dos custos de implantação, manutenção e restrições, mais o eventual ajuste de interação, o custo de oportunidade da terra e a revalorização da mão de obra não contratada ao salário-sombra.",
+  "Constraints":
+    "Restrições",
+  "Interaction adj.":
+    "Ajuste de interação",
+  "Land opportunity cost":
+    "Custo de oportunidade da terra",
+  "Shadow labor adj.":
+    "Ajuste salário-sombra",
+  "NPV Sensitivity to Discount Rate":
+    "Sensibilidade do VPL à Taxa de Desconto",
+  "How different discount rate assumptions affect net present value.":
+    "Como diferentes taxas de desconto afetam o valor presente líquido.",
+  "NPV":
+    "VPL",
+  "NPV ({unit})":
+    "VPL ({unit})",
+  "Total Costs (undiscounted)":
+    "Custos Totais (não descontados)",
+  "Total Costs (disc. {rate})":
+    "Custos Totais (desc. {rate})",
+  "of which Land Opportunity Cost (undiscounted)":
+    "dos quais Custo de Oportunidade da Terra (não descontado)",
+  "Non-Hired Labor in Costs (as entered)":
+    "Mão de Obra Não Contratada nos Custos (como informado)",
+  "Total Benefits (undiscounted)":
+    "Benefícios Totais (não descontados)",
+  "Total Benefits (disc. {rate})":
+    "Benefícios Totais (desc. {rate})",
+  "One-Way Sensitivity (±{pct}%)":
+    "Sensibilidade Univariada (±{pct}%)",
+  "Change in NPV when each driver moves down or up by {pct}% with everything else held at its point estimate; base NPV {npv}. Drivers are ranked by NPV swing.":
+    "Variação do VPL quando cada fator cai ou sobe {pct}% com todo o resto mantido na estimativa pontual; VPL base {npv}. Os fatores são ordenados pela amplitude do VPL.",
+  "No driver changes the NPV.":
+    "Nenhum fator altera o VPL.",
+  "{change} (NPV {npv})":
+    "{change} (VPL {npv})",
+  "Driver −{pct}%":
+    "Fator −{pct}%",
+  "Driver +{pct}%":
+    "Fator +{pct}%",
+  "Implementation cost":
+    "Custo de implantação",
+  "Maintenance — {activity}":
+    "Manutenção — {activity}",
+  "Maintenance cost":
+    "Custo de manutenção",
+  "Weed Control / Invasive Species":
+    "Controle de Plantas Daninhas / Espécies Invasoras",
+  "Pest Control / Pest Infestation":
+    "Controle de Pragas / Infestação de Pragas",
+  "NTFP price":
+    "Preço do PFNM",
+  "NTFP productivity":
+    "Produtividade do PFNM",
+  "Discount rate":
+    "Taxa de desconto",
+  "Unlabelled":
+    "Sem rótulo",
+
+  // ── Summary and reference ranges ──────────────────────────────────────────
+  "Reference range check":
+    "Verificação das faixas de referência",
+  "All entered costs, NTFP prices and productivities are within the reference ranges.":
+    "Todos os custos, preços e produtividades de PFNM informados estão dentro das faixas de referência.",
+  "{count} value is outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valor está fora da faixa esperada para este ecossistema e método. Verifique as unidades e os valores anuais vs totais; mantenha o valor se estiver correto.",
+  "{count} values are outside the expected range for this ecosystem and method. Check units and annual vs total amounts; keep the value if it is correct.":
+    "{count} valores estão fora da faixa esperada para este ecossistema e método. Verifique as unidades e os valores anuais vs totais; mantenha o valor se estiver correto.",
+  "Entered":
+    "Informado",
+  "Expected range":
+    "Faixa esperada",
+  "Deviation":
+    "Desvio",
+  "Source":
+    "Fonte",
+  "bundled":
+    "incluída",
+  "aggregated":
+    "agregada",
+  "{method} — Implementation cost":
+    "{method} — Custo de implantação",
+  "{method} — {activity}, years {from}–{to}":
+    "{method} — {activity}, anos {from}–{to}",
+  "{method} — NTFP price":
+    "{method} — Preço do PFNM",
+  "{method} — NTFP productivity (average)":
+    "{method} — Produtividade do PFNM (média)",
+  "Firebreak unit cost":
+    "Custo unitário do aceiro",
+  "Fencing unit cost":
+    "Custo unitário do cercamento",
+  "Weed control unit cost":
+    "Custo unitário do controle de plantas daninhas",
+  "Maintenance of regenerating individuals":
+    "Manutenção dos indivíduos regenerantes",
+  "Maintenance of NTFP species":
+    "Manutenção das espécies de PFNM",
+  "Monitoring General Maintenance Activities":
+    "Monitoramento e atividades gerais de manutenção",
+  "{value} is {pct}% above the expected {range} ({source} range)":
+    "{value} está {pct}% acima da faixa esperada {range} (faixa {source})",
+  "{value} is {pct}% below the expected {range} ({source} range)":
+    "{value} está {pct}% abaixo da faixa esperada {range} (faixa {source})",
+  "{value} is {pct}% above the expected {range} ({source} range for {ecosystem})":
+    "{value} está {pct}% acima da faixa esperada {range} (faixa {source} para {ecosystem})",
+  "{value} is {pct}% below the expected {range} ({source} range for {ecosystem})":
+    "{value} está {pct}% abaixo da faixa esperada {range} (faixa {source} para {ecosystem})",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range).":
+    "{field}: {value} está {pct}% acima da faixa esperada {range} (faixa {source}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range).":
+    "{field}: {value} está {pct}% abaixo da faixa esperada {range} (faixa {source}).",
+  "{field}: {value} is {pct}% above the expected {range} ({source} range for {ecosystem}).":
+    "{field}: {value} está {pct}% acima da faixa esperada {range} (faixa {source} para {ecosystem}).",
+  "{field}: {value} is {pct}% below the expected {range} ({source} range for {ecosystem}).":
+    "{field}: {value} está {pct}% abaixo da faixa esperada {range} (faixa {source} para {ecosystem}).",
+  "Favorable":
+    "Favorável",
+  "Unfavorable":
+    "Desfavorável",
+  "Favorable:":
+    "Favorável:",
+  "Unfavorable:":
+    "Desfavorável:",
+  "Cost Breakdown ({unit})":
+    "Composição dos Custos ({unit})",
+  "Production Factors (%)":
+    "Fatores de Produção (%)",
+  "Favorable & Unfavorable factor shares don't sum to 100%.":
+    "As participações dos fatores dos cenários favorável e desfavorável não somam 100%.",
+  "Favorable factor shares don't sum to 100%.":
+    "As participações dos fatores do cenário favorável não somam 100%.",
+  "Unfavorable factor shares don't sum to 100%.":
+    "As participações dos fatores do cenário desfavorável não somam 100%.",
+  "Context Constraints & Additional Costs":
+    "Restrições de Contexto e Custos Adicionais",
+  "Occurrences / Area":
+    "Ocorrências / Área",
+  "Firebreak Area ({unit})":
+    "Área de Aceiro ({unit})",
+  "Total Cost ({unit})":
+    "Custo Total ({unit})",
+  "Total Additional Cost":
+    "Custo Adicional Total",
+  "Machinery Hours":
+    "Horas de Máquina",
+  "Cost Line":
+    "Linha de Custo",
+  "Machinery Cost ({unit})":
+    "Custo de Maquinário ({unit})",
+  "Hours ({unit})":
+    "Horas ({unit})",
+  "Total over the horizon (plausible per year: ≤ {hours} {unit})":
+    "Total no horizonte (plausível por ano: ≤ {hours} {unit})",
+  "Enter the machinery unit cost per hour in Section 4 to derive the machinery hours.":
+    "Informe o custo unitário de maquinário por hora na Seção 4 para obter as horas de máquina.",
+  "Unfavorable Scenario":
+    "Cenário Desfavorável",
+  "Favorable cost + Σ constraint costs (computed)":
+    "Custo favorável + Σ custos das restrições (calculado)",
+  "Declared unfavorable cost":
+    "Custo desfavorável declarado",
+  "Interaction adjustment (declared − computed)":
+    "Ajuste de interação (declarado − calculado)",
+  "Use “Interpret as total and spread over years” in the method tab if it was a total.":
+    "Use “Interpretar como total e distribuir pelos anos” na aba do método se era um total.",
+  "Firebreaks":
+    "Aceiros",
+
+  // ── Uncertainty analysis ──────────────────────────────────────────────────
+  "Uncertainty Analysis (Monte Carlo)":
+    "Análise de Incerteza (Monte Carlo)",
+  "Give any input a distribution, then run the simulation. Inputs without a distribution keep their point estimate. The same seed always gives the same results.":
+    "Atribua uma distribuição a qualquer entrada e execute a simulação. Entradas sem distribuição mantêm sua estimativa pontual. A mesma semente sempre dá os mesmos resultados.",
+  "Input":
+    "Entrada",
+  "Point estimate":
+    "Estimativa pontual",
+  "Distribution":
+    "Distribuição",
+  "Parameters":
+    "Parâmetros",
+  "None (point estimate)":
+    "Nenhuma (estimativa pontual)",
+  "Triangular":
+    "Triangular",
+  "± % band":
+    "Faixa ± %",
+  "Minimum":
+    "Mínimo",
+  "Mode":
+    "Moda",
+  "Maximum":
+    "Máximo",
+  "min / mode / max":
+    "mín / moda / máx",
+  "Band":
+    "Faixa",
+  "Check the distributions: for triangular inputs, min ≤ mode ≤ max.":
+    "Verifique as distribuições: para entradas triangulares, mín ≤ moda ≤ máx.",
+  "Iterations":
+    "Iterações",
+  "Seed":
+    "Semente",
+  "Run simulation":
+    "Executar simulação",
+  "NPV P10":
+    "VPL P10",
+  "NPV P50":
+    "VPL P50",
+  "NPV P90":
+    "VPL P90",
+  "P(NPV > 0)":
+    "P(VPL > 0)",
+  "{runs} runs, seed {seed} — no input has a distribution, so every run is identical.":
+    "{runs} execuções, semente {seed} — nenhuma entrada tem distribuição, então todas as execuções são idênticas.",
+  "{runs} runs, seed {seed}.":
+    "{runs} execuções, semente {seed}.",
+  "IRR P50: {irr} · BCR P50: {bcr}":
+    "TIR P50: {irr} · RBC P50: {bcr}",
+  "Runs":
+    "Execuções",
+  "Simulated net present value":
+    "Valor presente líquido simulado",
+  "Maintenance cost (total)":
+    "Custo de manutenção (total)",
+  "NTFP productivity (average)":
+    "Produtividade do PFNM (média)",
+  "NTFP revenue (total)":
+    "Receita do PFNM (total)",
+  "Carbon price":
+    "Preço do carbono",
+
+  // ── CBA external assumptions ──────────────────────────────────────────────
+  "These parameters are not asked of the respondent. Change them to test other assumptions; the values used are saved with the form and written to the Parameters sheet of the CBA workbook.":
+    "Estes parâmetros não são perguntados ao respondente. Altere-os para testar outras premissas; os valores usados são salvos com o formulário e gravados na planilha Parâmetros da pasta de trabalho da ACB.",
+  "Discounting":
+    "Desconto",
+  "Sensitivity Discount Rates":
+    "Taxas de Desconto da Sensibilidade",
+  "Remove rate":
+    "Remover taxa",
+  "+ Add rate":
+    "+ Adicionar taxa",
+  "Carbon":
+    "Carbono",
+  "Timing of Costs & Revenues":
+    "Calendário de Custos e Receitas",
+  "Land Opportunity Cost":
+    "Custo de Oportunidade da Terra",
+  "Charges the regional land lease from Section 4 ({lease}/{area}/year) as a cost in every year, so the headline NPV becomes the economic NPV. The financial NPV, without the forgone rent, is reported next to it.":
+    "Cobra o arrendamento regional da terra da Seção 4 ({lease}/{area}/ano) como custo em todos os anos, de modo que o VPL principal passa a ser o VPL econômico. O VPL financeiro, sem o aluguel renunciado, é mostrado ao lado.",
+  "Include the land opportunity cost in the cash flow":
+    "Incluir o custo de oportunidade da terra no fluxo de caixa",
+  "Land Cost Starts":
+    "Início do Custo da Terra",
+  "Year 1 (from implementation)":
+    "Ano 1 (desde a implantação)",
+  "Year 2 (after implementation)":
+    "Ano 2 (após a implantação)",
+  "Land Lease Escalation":
+    "Reajuste do Arrendamento da Terra",
+  "%/yr":
+    "%/ano",
+  "Annual real change of the land lease; 0 keeps it flat":
+    "Variação real anual do arrendamento da terra; 0 o mantém constante",
+  "Non-Hired Labor":
+    "Mão de Obra Não Contratada",
+  "The non-hired share of each phase (Section 4) applied to the labor share of the implementation, maintenance and constraint costs is treated as unpaid: the financial view leaves it out of the cash outflows, the economic view values it at the shadow wage below.":
+    "A parcela não contratada de cada fase (Seção 4), aplicada à parcela de mão de obra dos custos de implantação, manutenção e restrições, é tratada como não remunerada: a visão financeira a exclui dos desembolsos e a visão econômica a valoriza ao salário-sombra abaixo.",
+  "Shadow Wage":
+    "Salário-Sombra",
+  "% of hired rate":
+    "% da diária contratada",
+  "≈ {shadow}/day against a hired rate of {hired}/day; 100 values non-hired labor like hired labor":
+    "≈ {shadow}/dia frente a uma diária contratada de {hired}/dia; 100 valoriza a mão de obra não contratada como a contratada",
+  "100 values non-hired labor like hired labor":
+    "100 valoriza a mão de obra não contratada como a contratada",
+  "Reset to defaults":
+    "Restaurar padrões",
+
+  // ── Saved models library ──────────────────────────────────────────────────
+  "Saved Models ({count})":
+    "Modelos Salvos ({count})",
+  "Could not load the saved model: {error}":
+    "Não foi possível carregar o modelo salvo: {error}",
+  "Delete \"{name}\"? This cannot be undone.":
+    "Excluir \"{name}\"? Isso não pode ser desfeito.",
+  "Delete {count} saved questionnaire? This cannot be undone.":
+    "Excluir {count} questionário salvo? Isso não pode ser desfeito.",
+  "Delete {count} saved questionnaires? This cannot be undone.":
+    "Excluir {count} questionários salvos? Isso não pode ser desfeito.",
+  "Search name or tag":
+    "Buscar nome ou etiqueta",
+  "All ecosystems":
+    "Todos os ecossistemas",
+  "From":
+    "De",
+  "To":
+    "Até",
+  "Sort by":
+    "Ordenar por",
+  "Sort: {key}":
+    "Ordenar: {key}",
+  "Last saved":
+    "Último salvamento",
+  "Collection date":
+    "Data de coleta",
+  "Headline NPV":
+    "VPL principal",
+  "Toggle sort direction":
+    "Inverter a ordem",
+  "↓ Desc":
+    "↓ Desc",
+  "↑ Asc":
+    "↑ Asc",
+  "Select all shown":
+    "Selecionar todos os exibidos",
+  "{shown} of {total} shown · {selected} selected":
+    "{shown} de {total} exibidos · {selected} selecionados",
+  "Export selected":
+    "Exportar selecionados",
+  "Compare the selected questionnaires side by side":
+    "Comparar os questionários selecionados lado a lado",
+  "Compare selected":
+    "Comparar selecionados",
+  "Aggregate the selected respondents into reference values":
+    "Agregar os respondentes selecionados em valores de referência",
+  "Aggregate selected":
+    "Agregar selecionados",
+  "Delete selected":
+    "Excluir selecionados",
+  "Select {name}":
+    "Selecionar {name}",
+  "Tags, comma-separated":
+    "Etiquetas, separadas por vírgula",
+  "Save":
+    "Salvar",
+  "Cancel":
+    "Cancelar",
+  "No identification":
+    "Sem identificação",
+  "collected {date} · saved {saved}":
+    "coletado em {date} · salvo em {saved}",
+  "{complete}/{answered} methods complete":
+    "{complete}/{answered} métodos completos",
+  "Best NPV {npv}/ha ({method})":
+    "Melhor VPL {npv}/ha ({method})",
+  "NPV not available":
+    "VPL indisponível",
+  "Load into form":
+    "Carregar no formulário",
+  "Load":
+    "Carregar",
+  "Rename / edit tags":
+    "Renomear / editar etiquetas",
+  "Duplicate":
+    "Duplicar",
+  "Delete":
+    "Excluir",
+  "No saved questionnaire matches the filters.":
+    "Nenhum questionário salvo corresponde aos filtros.",
+
+  // ── Respondent aggregation ────────────────────────────────────────────────
+  "Could not read:":
+    "Não foi possível ler:",
+  "No group has enough respondents (at least 3 with a positive weight) to derive reference ranges.":
+    "Nenhum grupo tem respondentes suficientes (pelo menos 3 com peso positivo) para derivar faixas de referência.",
+  "Replace the stored aggregated reference ranges with {count} ranges from these respondents?":
+    "Substituir as faixas de referência agregadas armazenadas por {count} faixas destes respondentes?",
+  "Aggregating {count} respondents":
+    "Agregando {count} respondentes",
+  "Add exported JSON or Excel questionnaires":
+    "Adicionar questionários exportados em JSON ou Excel",
+  "Add files":
+    "Adicionar arquivos",
+  "Export Aggregated":
+    "Exportar Agregado",
+  "Use these groups as reference ranges for the outlier check (Q1 − 1.5·IQR to Q3 + 1.5·IQR)":
+    "Usar estes grupos como faixas de referência na verificação de valores atípicos (Q1 − 1,5·IIQ a Q3 + 1,5·IIQ)",
+  "Use as reference ranges":
+    "Usar como faixas de referência",
+  "Close aggregation":
+    "Fechar agregação",
+  "Close":
+    "Fechar",
+  "Weight":
+    "Peso",
+  "Remove from aggregation":
+    "Remover da agregação",
+  "Group (ecosystem · country · method)":
+    "Grupo (ecossistema · país · método)",
+  "Weighted statistics over the group's respondents. ▲ / ▼ mark a respondent's value above / below the group's interquartile range (Q1–Q3).":
+    "Estatísticas ponderadas dos respondentes do grupo. ▲ / ▼ marcam um valor acima / abaixo do intervalo interquartil do grupo (Q1–Q3).",
+  "no ecosystem":
+    "sem ecossistema",
+  "no country":
+    "sem país",
+  "Mean":
+    "Média",
+  "Median":
+    "Mediana",
+  "IQR (Q1–Q3)":
+    "IIQ (Q1–Q3)",
+  "Min":
+    "Mín.",
+  "Max":
+    "Máx.",
+  "No answered method to aggregate. Add respondents with a positive weight.":
+    "Nenhum método respondido para agregar. Adicione respondentes com peso positivo.",
+
+  // ── Questionnaire comparison ──────────────────────────────────────────────
+  "Comparing {count} questionnaires":
+    "Comparando {count} questionários",
+  "Close comparison":
+    "Fechar comparação",
+  "Highlight differences above (% of mean)":
+    "Destacar diferenças acima de (% da média)",
+  "{flagged} of {total} items differ by more than {threshold}% between the answers. “—” means the method is disabled in that questionnaire.":
+    "{flagged} de {total} itens diferem mais de {threshold}% entre as respostas. “—” indica que o método está desativado nesse questionário.",
+  "Spread":
+    "Dispersão",
+  "Cumulative Discounted Net Cash Flow — {method}":
+    "Fluxo de Caixa Líquido Descontado Acumulado — {method}",
+  "Each line ends at that questionnaire's NPV. Models without a cost for this method are omitted.":
+    "Cada linha termina no VPL desse questionário. Modelos sem custo para este método são omitidos.",
+  "No questionnaire has an implementation cost for this method.":
+    "Nenhum questionário tem custo de implantação para este método.",
+  "Year":
+    "Ano",
+  "{name} (NPV {npv})":
+    "{name} (VPL {npv})",
+  "Headline indicators":
+    "Indicadores principais",
+  "Indicator":
+    "Indicador",
+  "NPV (US$/ha)":
+    "VPL (US$/ha)",
+  "Payback year":
+    "Ano de retorno",
+  "Horizon (years)":
+    "Horizonte (anos)",
+  "NTFP":
+    "PFNM",
+  "Context constraints":
+    "Restrições de contexto",
+  "Labor share":
+    "Participação da mão de obra",
+  "Materials share":
+    "Participação dos materiais",
+  "Machinery share":
+    "Participação das máquinas",
+  "Maintenance total":
+    "Manutenção total",
+  "Other / unlabelled activities":
+    "Outras atividades / sem rótulo",
+  "Implementation hired labor":
+    "Mão de obra contratada na implantação",
+  "Maintenance hired labor":
+    "Mão de obra contratada na manutenção",
+  "Hired labor daily wage":
+    "Diária da mão de obra contratada",
+  "Machinery unit cost":
+    "Custo unitário das máquinas",
+  "Land lease":
+    "Arrendamento da terra",
+  "Female share of labor":
+    "Participação feminina na mão de obra",
+  "{item} unit cost":
+    "{item}: custo unitário",
+  "{item} occurrences":
+    "{item}: ocorrências",
+  "{item} fenced area":
+    "{item}: área cercada",
+  "US$/ha (total)":
+    "US$/ha (total)",
+  "kg/ha/yr":
+    "kg/ha/ano",
+  "US$/day":
+    "US$/dia",
+  "US$/hour":
+    "US$/hora",
+  "US$/ha/yr":
+    "US$/ha/ano",
+
+  // ── CBA workbook ──────────────────────────────────────────────────────────
+  "COST-BENEFIT ANALYSIS — KEY PARAMETERS":
+    "ANÁLISE CUSTO-BENEFÍCIO — PARÂMETROS PRINCIPAIS",
+  "User":
+    "Usuário",
+  "Time Horizon (years)":
+    "Horizonte de Tempo (anos)",
+  "EXTERNAL ASSUMPTIONS":
+    "PREMISSAS EXTERNAS",
+  "Discount Rate":
+    "Taxa de Desconto",
+  "Carbon Price (US$/tCO2)":
+    "Preço do Carbono (US$/tCO2)",
+  "Carbon Price Escalation (%/yr)":
+    "Reajuste do Preço do Carbono (%/ano)",
+  "Carbon Buffer Pool (%)":
+    "Reserva de Garantia de Carbono (%)",
+  "Carbon Seq. Rate (tCO2/ha/yr)":
+    "Taxa de Seq. de Carbono (tCO2/ha/ano)",
+  "Carbon Fallback Rate (tCO2/ha/yr)":
+    "Taxa de Carbono Padrão (tCO2/ha/ano)",
+  "Carbon Growth Curve":
+    "Curva de Crescimento do Carbono",
+  "NTFP Maturation Lag (years)":
+    "Defasagem de Maturação do PFNM (anos)",
+  "Fencing Upfront Share (%)":
+    "Parcela Inicial do Cercamento (%)",
+  "Charged":
+    "Cobrado",
+  "Not charged":
+    "Não cobrado",
+  "Land Lease (US$/ha/yr)":
+    "Arrendamento da Terra (US$/ha/ano)",
+  "After implementation (year 2)":
+    "Após a implantação (ano 2)",
+  "Year 1":
+    "Ano 1",
+  "Land Cost Escalation (%/yr)":
+    "Reajuste do Custo da Terra (%/ano)",
+  "Non-Hired Labor Shadow Wage (% of hired rate)":
+    "Salário-Sombra da Mão de Obra Não Contratada (% da diária contratada)",
+  "Hired Labor Rate (US$/day)":
+    "Diária da Mão de Obra Contratada (US$/dia)",
+  "Machinery Unit Cost (US$/hour)":
+    "Custo Unitário das Máquinas (US$/hora)",
+  "Tornado Sensitivity Flex (±%)":
+    "Variação da Sensibilidade Tornado (±%)",
+  "CONTEXT CONSTRAINTS":
+    "RESTRIÇÕES DE CONTEXTO",
+  "Total Cost":
+    "Custo Total",
+  "Impl. Cost (US$/ha)":
+    "Custo de Impl. (US$/ha)",
+  "Maint. Cost (US$/ha)":
+    "Custo de Manut. (US$/ha)",
+  "Land Opportunity Cost {horizon} (US$/ha)":
+    "Custo de Oportunidade da Terra {horizon} (US$/ha)",
+  "Total Cost {horizon} (US$/ha)":
+    "Custo Total {horizon} (US$/ha)",
+  "NTFP Revenue {horizon} (US$/ha)":
+    "Receita de PFNM {horizon} (US$/ha)",
+  "Carbon Benefit {horizon} (US$/ha)":
+    "Benefício de Carbono {horizon} (US$/ha)",
+  "Carbon Sequestered {horizon} (tCO2/ha)":
+    "Carbono Sequestrado {horizon} (tCO2/ha)",
+  "Carbon Credits {horizon} (tCO2/ha)":
+    "Créditos de Carbono {horizon} (tCO2/ha)",
+  "Total Benefits {horizon} (US$/ha)":
+    "Benefícios Totais {horizon} (US$/ha)",
+  "NPV @{rate} (US$/ha)":
+    "VPL a {rate} (US$/ha)",
+  "Payback (year)":
+    "Retorno (ano)",
+  "Carbon Seq. (tCO2/ha/yr)":
+    "Seq. de Carbono (tCO2/ha/ano)",
+  "Cost per tCO2 (US$)":
+    "Custo por tCO2 (US$)",
+  "Financial NPV @{rate} (US$/ha)":
+    "VPL Financeiro a {rate} (US$/ha)",
+  "Financial IRR":
+    "TIR Financeira",
+  "Financial BCR":
+    "RBC Financeira",
+  "Non-Hired Labor {horizon} (US$/ha)":
+    "Mão de Obra Não Contratada {horizon} (US$/ha)",
+  "Discount Period":
+    "Período de Desconto",
+  "Constraint Cost":
+    "Custo das Restrições",
+  "Interaction Adjustment":
+    "Ajuste de Interação",
+  "Non-Hired Labor (as entered)":
+    "Mão de Obra Não Contratada (como informada)",
+  "Shadow Labor Adjustment":
+    "Ajuste do Salário-Sombra",
+  "NTFP Productivity":
+    "Produtividade de PFNM",
+  "Carbon Sequestration (tCO2)":
+    "Sequestro de Carbono (tCO2)",
+  "Carbon Credits (tCO2)":
+    "Créditos de Carbono (tCO2)",
+  "Carbon Benefit":
+    "Benefício de Carbono",
+  "Cumulative Net":
+    "Líquido Acumulado",
+  "Cumulative Discounted":
+    "Descontado Acumulado",
+  "Machinery Hours (h/ha)":
+    "Horas de Máquina (h/ha)",
+  "KEY INDICATORS":
+    "INDICADORES PRINCIPAIS",
+  "NPV ({rate}, economic)":
+    "VPL ({rate}, econômico)",
+  "Financial NPV ({rate}, cash outlays)":
+    "VPL Financeiro ({rate}, desembolsos)",
+  "Carbon Sequestered (tCO2/ha)":
+    "Carbono Sequestrado (tCO2/ha)",
+  "Carbon Revenue (US$/ha)":
+    "Receita de Carbono (US$/ha)",
+  "Interaction Adjustment (US$/ha)":
+    "Ajuste de Interação (US$/ha)",
+  "Land Opportunity Cost (US$/ha)":
+    "Custo de Oportunidade da Terra (US$/ha)",
+  "Non-Hired Labor in Costs (US$/ha)":
+    "Mão de Obra Não Contratada nos Custos (US$/ha)",
+  "Rank":
+    "Posição",
+  "Driver":
+    "Fator",
+  "Base Value":
+    "Valor Base",
+  "Value −{flex}":
+    "Valor −{flex}",
+  "Value +{flex}":
+    "Valor +{flex}",
+  "Base NPV":
+    "VPL Base",
+  "NPV @ −{flex}":
+    "VPL a −{flex}",
+  "NPV @ +{flex}":
+    "VPL a +{flex}",
+  "NPV Swing":
+    "Amplitude do VPL",
+  "Total (h/ha)":
+    "Total (h/ha)",
+  "Busiest Maintenance Year":
+    "Ano de Manutenção Mais Intenso",
+  "Maintenance in Busiest Year (h/ha)":
+    "Manutenção no Ano Mais Intenso (h/ha)",
+  "Plausible Max per Year (h/ha)":
+    "Máximo Plausível por Ano (h/ha)",
+  "MACHINERY HOURS — machinery share of each cost ÷ machinery unit cost ({rate} US$/hour)":
+    "HORAS DE MÁQUINA — parcela de máquinas de cada custo ÷ custo unitário das máquinas ({rate} US$/hora)",
+  "MACHINERY HOURS BY YEAR (h/ha)":
+    "HORAS DE MÁQUINA POR ANO (h/ha)",
+  "MONTE CARLO SIMULATION":
+    "SIMULAÇÃO DE MONTE CARLO",
+  "Sampled Inputs":
+    "Entradas Amostradas",
+  "NPV Mean":
+    "VPL Médio",
+  "IRR P10":
+    "TIR P10",
+  "IRR P50":
+    "TIR P50",
+  "IRR P90":
+    "TIR P90",
+  "IRR Mean":
+    "TIR Média",
+  "BCR P10":
+    "RBC P10",
+  "BCR P50":
+    "RBC P50",
+  "BCR P90":
+    "RBC P90",
+  "BCR Mean":
+    "RBC Média",
+  "Run":
+    "Execução",
+  "NPV — {method}":
+    "VPL — {method}",
+  "REGIONAL COST EXTRAPOLATION":
+    "EXTRAPOLAÇÃO REGIONAL DE CUSTOS",
+  "Labor Index":
+    "Índice de Mão de Obra",
+  "Materials Index":
+    "Índice de Materiais",
+  "Machinery Index":
+    "Índice de Máquinas",
+  "Origin: {region}":
+    "Origem: {region}",
+  "Target: {region}":
+    "Destino: {region}",
+  "Cost Row":
+    "Linha de Custo",
+  "Labor %":
+    "Mão de Obra %",
+  "Materials %":
+    "Materiais %",
+  "Machinery %":
+    "Máquinas %",
+  "Cost Factor":
+    "Fator de Custo",
+  "Total Cost ({region})":
+    "Custo Total ({region})",
+  "NPV @{rate} ({region})":
+    "VPL a {rate} ({region})",
+  "NPV Change":
+    "Variação do VPL",
+  "IRR ({region})":
+    "TIR ({region})",
+};
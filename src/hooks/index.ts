@@ -1 +1,7 @@
 export { useRestorationForm, type RestorationForm } from "./useRestorationForm";
+export { useDraftAutosave } from "./useDraftAutosave";
+export { useValidationIssues } from "./useValidationIssues";
+export { jumpToField, useFieldFocusListener } from "./useFieldFocus";
+export { useEntryCurrency, type EntryCurrency } from "./useEntryCurrency";
+export { useAreaUnit, type AreaUnitView } from "./useAreaUnit";
+export { I18nContext, useI18n, type I18nContextValue } from "./useI18n";
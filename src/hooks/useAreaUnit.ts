@@ -0,0 +1,43 @@
+/**
+ * Area unit chosen on the identification section, for converting
+ * per-hectare form values on entry and display. Follows the choice as it
+ * changes; stored values stay per hectare.
+ */
+
+import { useFormContext, useWatch } from "react-hook-form";
+import type { AreaUnit } from "../types";
+import type { RestorationModelFormData } from "../schemas";
+import { resolveAreaUnit, perAreaUnit, fromPerHa, toPerHa, fromHectares, toHectares } from "../utils/area";
+
+export interface AreaUnitView {
+  id: AreaUnit;
+  /** Short symbol, e.g. "ac" */
+  symbol: string;
+  /** Size of one unit in hectares (1 for hectares) */
+  hectares: number;
+  /** A per-hectare unit in the chosen unit, e.g. "US$/ha" → "US$/ac" */
+  unit: (haUnit: string) => string;
+  /** Per-hectare value → per chosen unit */
+  fromPerHa: (value: number) => number;
+  /** Per chosen unit → per-hectare value */
+  toPerHa: (value: number) => number;
+  /** Area in hectares → chosen unit */
+  fromHa: (area: number) => number;
+  /** Area in the chosen unit → hectares */
+  toHa: (area: number) => number;
+}
+
+export function useAreaUnit(): AreaUnitView {
+  const { control } = useFormContext<RestorationModelFormData>();
+  const { id, symbol, hectares } = resolveAreaUnit(useWatch({ control, name: "areaUnit" }));
+  return {
+    id,
+    symbol,
+    hectares,
+    unit: (haUnit) => perAreaUnit(haUnit, id),
+    fromPerHa: (value) => fromPerHa(value, id),
+    toPerHa: (value) => toPerHa(value, id),
+    fromHa: (area) => fromHectares(area, id),
+    toHa: (area) => toHectares(area, id),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Debounced autosave of the current form as a draft, so a browser crash
+ * does not lose an interview. Writes only when the values actually changed
+ * since the last autosave.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import type { RestorationModelFormData } from "../schemas";
+import type { RestorationModel } from "../types";
+import { AUTOSAVE_DEBOUNCE_MS } from "../constants";
+import { saveDraft, clearDraft } from "../utils/storage";
+
+/**
+ * Save `values` as the draft `AUTOSAVE_DEBOUNCE_MS` after the last change.
+ * Nothing is written while `enabled` is false (e.g. the form is untouched or
+ * the user has not yet decided whether to restore an earlier draft).
+ *
+ * Returns the function that discards the draft once the work is saved
+ * elsewhere: it also cancels a pending autosave of the current values, which
+ * would otherwise write the draft back.
+ */
+export function useDraftAutosave(values: RestorationModelFormData, enabled: boolean): () => Promise<void> {
+  const json = JSON.stringify(values);
+  const lastSaved = useRef<string | null>(null);
+  const pending = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!enabled || json === lastSaved.current) return;
+    const timer = setTimeout(() => {
+      pending.current = null;
+      lastSaved.current = json;
+      saveDraft(JSON.parse(json) as RestorationModel).catch(() => {
+        console.warn("Failed to autosave the draft.");
+      });
+    }, AUTOSAVE_DEBOUNCE_MS);
+    pending.current = timer;
+    return () => clearTimeout(timer);
+  }, [json, enabled]);
+
+  return useCallback(() => {
+    if (pending.current !== null) clearTimeout(pending.current);
+    pending.current = null;
+    lastSaved.current = json;
+    return clearDraft();
+  }, [json]);
+}
@@ -0,0 +1,31 @@
+/**
+ * Currency the questionnaire's amounts are entered in, for unit labels and
+ * amount formatting inside the form. Follows the identification section's
+ * currency choice as it changes.
+ */
+
+import { useFormContext, useWatch } from "react-hook-form";
+import type { RestorationModelFormData } from "../schemas";
+import { resolveCurrency, currencySymbol, currencyUnit, formatAmount } from "../utils/currency";
+
+export interface EntryCurrency {
+  /** ISO 4217 code ("USD" when none is chosen) */
+  code: string;
+  /** "US$" or the ISO code */
+  symbol: string;
+  /** A US$ unit in the entry currency, e.g. "US$/ha" → "BRL/ha" */
+  unit: (usdUnit: string) => string;
+  /** Amount with the entry currency symbol */
+  format: (value: number) => string;
+}
+
+export function useEntryCurrency(): EntryCurrency {
+  const { control } = useFormContext<RestorationModelFormData>();
+  const { code } = resolveCurrency(useWatch({ control, name: "currency" }));
+  return {
+    code,
+    symbol: currencySymbol(code),
+    unit: (usdUnit) => currencyUnit(usdUnit, code),
+    format: (value) => formatAmount(value, code),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Jump-to-field for the Issues list. `jumpToField` announces the path on a
+ * window event so collapsed sections and method tabs that contain it can open
+ * first, then scrolls to and focuses the matching element: an input whose
+ * `name` is the path, or any element with `data-field` set to it. When no
+ * element matches, the path is shortened one segment at a time.
+ */
+
+import { useEffect, useRef } from "react";
+
+const FIELD_FOCUS_EVENT = "restoration:focus-field";
+
+/** Delay before looking up the element, so opened sections have rendered (ms) */
+const FOCUS_LOOKUP_DELAY_MS = 80;
+
+function findFieldElement(path: string): HTMLElement | null {
+  const parts = path.split(".");
+  while (parts.length > 0) {
+    const p = CSS.escape(parts.join("."));
+    const el = document.querySelector<HTMLElement>(`[name="${p}"], [data-field="${p}"]`);
+    if (el) return el;
+    parts.pop();
+  }
+  return null;
+}
+
+export function jumpToField(path: string): void {
+  window.dispatchEvent(new CustomEvent<string>(FIELD_FOCUS_EVENT, { detail: path }));
+  setTimeout(() => {
+    const el = findFieldElement(path);
+    if (!el) return;
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    if (typeof el.focus === "function") el.focus({ preventScroll: true });
+    el.classList.add("field-focus-flash");
+    setTimeout(() => el.classList.remove("field-focus-flash"), 1500);
+  }, FOCUS_LOOKUP_DELAY_MS);
+}
+
+/** Call `onFocus(path)` whenever a jump targets a path accepted by `matches`. */
+export function useFieldFocusListener(matches: (path: string) => boolean, onFocus: (path: string) => void): void {
+  // Keep the latest callbacks without re-subscribing on every render
+  const latest = useRef({ matches, onFocus });
+  useEffect(() => {
+    latest.current = { matches, onFocus };
+  });
+
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const path = (e as CustomEvent<string>).detail;
+      if (latest.current.matches(path)) latest.current.onFocus(path);
+    };
+    window.addEventListener(FIELD_FOCUS_EVENT, handler);
+    return () => window.removeEventListener(FIELD_FOCUS_EVENT, handler);
+  }, []);
+}
@@ -0,0 +1,25 @@
+/**
+ * Active language for components. App provides the context; `t` and the
+ * formatters come from utils/i18n, so components using this hook re-render
+ * when the language changes.
+ */
+
+import { createContext, useContext } from "react";
+import type { Locale } from "../types";
+import { DEFAULT_LOCALE } from "../constants";
+import { t, tLines, formatNumber, formatCurrency, formatDate, formatDateTime } from "../utils/i18n";
+
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => undefined,
+});
+
+export function useI18n() {
+  const { locale, setLocale } = useContext(I18nContext);
+  return { locale, setLocale, t, tLines, formatNumber, formatCurrency, formatDate, formatDateTime };
+}
@@ -0,0 +1,21 @@
+/**
+ * Rule-registry issues for the current form values, recomputed on every
+ * change. Reference ranges are read once per mounted component.
+ */
+
+import { useMemo } from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+import type { RestorationModelFormData } from "../schemas";
+import type { RestorationModel } from "../types";
+import { runRules, VALIDATION_RULES, type RuleIssue } from "../utils/rules";
+import { loadReferenceRanges } from "../utils/outliers";
+
+export function useValidationIssues(): RuleIssue[] {
+  const { control } = useFormContext<RestorationModelFormData>();
+  const values = useWatch({ control });
+  const ranges = useMemo(() => loadReferenceRanges(), []);
+  return useMemo(
+    () => runRules(values as unknown as RestorationModel, VALIDATION_RULES, ranges),
+    [values, ranges],
+  );
+}
@@ -8,12 +8,18 @@
  *   2. Per-method implementation/maintenance costs and segments
  *   3. Context constraints (fire/fence/weed/ant) — shared across methods
  *   4. Labor breakdown (hired/family, gender, rates)
+ *   5. CBA external assumptions (discount rates, carbon, NTFP lag, fencing split, land cost, shadow wage)
+ *   6. Monte Carlo settings and optional input distributions
+ *   7. Time horizon (10–50 years) — segments and NTFP lag must fit inside it
+ *   8. Entry currency (ISO code, positive exchange rate to US$)
+ *   9. Area unit (values are always validated in hectares)
  *
  * Consumed by @hookform/resolvers for React Hook Form validation.
  * =============================================================================
  */
 
 import { z } from "zod";
+import { DEFAULT_TIME_HORIZON, MIN_TIME_HORIZON, MAX_TIME_HORIZON } from "../constants";
 
 // ---------------------------------------------------------------------------
 // Cost distribution (labor / materials / machinery — must sum to 100%)
@@ -32,8 +38,8 @@ export const costDistributionSchema = z.object({
 export const yearRangeSegmentSchema = z.object({
   id: z.string().min(1, "Segment id is required"),
   label: z.string().default(""),
-  yearFrom: z.number({ message: "Start year is required" }).int("Must be a whole number").min(2, "Minimum year 2 (year 1 is implementation)").max(20, "Maximum 20 years"),
-  yearTo:   z.number({ message: "End year is required" }).int("Must be a whole number").min(2, "Minimum year 2 (year 1 is implementation)").max(20, "Maximum 20 years"),
+  yearFrom: z.number({ message: "Start year is required" }).int("Must be a whole number").min(2, "Minimum year 2 (year 1 is implementation)").max(MAX_TIME_HORIZON, `Maximum ${MAX_TIME_HORIZON} years`),
+  yearTo:   z.number({ message: "End year is required" }).int("Must be a whole number").min(2, "Minimum year 2 (year 1 is implementation)").max(MAX_TIME_HORIZON, `Maximum ${MAX_TIME_HORIZON} years`),
 }).refine((segment) => segment.yearTo >= segment.yearFrom, {
   message: "End year must be greater than or equal to start year",
   path: ["yearTo"],
@@ -81,6 +87,8 @@ export const methodCostEntrySchema = z.object({
   maintenanceSegments:        z.array(costSegmentSchema).optional().default([]),
   ntfpProductivitySegments:   z.array(productivitySegmentSchema).optional().default([]),
   ntfpRevenueSegments:        z.array(revenueSegmentSchema).optional().default([]),
+  // declared total unfavorable cost; 0 = not declared
+  declaredUnfavorableCost:    z.number().min(0, "Cannot be negative").optional().default(0),
 });
 
 const METHOD_ID_ENUM = z.enum([
@@ -98,11 +106,84 @@ export const methodCostsSchema = z.object({
   seedling_planting_ntfp: methodCostEntrySchema,
 });
 
+// ---------------------------------------------------------------------------
+// Entry currency (amounts are stored as entered; see utils/currency)
+// ---------------------------------------------------------------------------
+
+export const currencySettingsSchema = z.object({
+  code:         z.string().min(1, "Currency is required").default("USD"),
+  exchangeRate: z.number({ message: "Exchange rate is required" }).positive("Must be greater than 0").default(1),
+  rateDate:     z.string().optional().default(""),
+});
+
+// ---------------------------------------------------------------------------
+// CBA external assumptions (analyst-editable, not asked of the respondent)
+// ---------------------------------------------------------------------------
+
+export const cbaAssumptionsSchema = z.object({
+  discountRates:         z.array(
+                           z.number({ message: "Rate is required" }).min(0, "Cannot be negative").max(50, "Cannot exceed 50%"),
+                         ).min(1, "At least one discount rate is required").max(8, "At most 8 discount rates"),
+  defaultDiscountRate:   z.number({ message: "Default discount rate is required" }).min(0, "Cannot be negative").max(50, "Cannot exceed 50%"),
+  carbonPrice:           z.number({ message: "Carbon price is required" }).min(0, "Cannot be negative"),
+  carbonPriceEscalation: z.number({ message: "Escalation is required" }).min(-20, "Cannot be below -20%").max(20, "Cannot exceed 20%"),
+  carbonBufferShare:     z.number({ message: "Buffer share is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%"),
+  carbonFallbackRate:    z.number({ message: "Fallback rate is required" }).min(0, "Cannot be negative"),
+  ntfpLagYears:          z.number({ message: "NTFP lag is required" }).int("Must be a whole number").min(0, "Cannot be negative").max(MAX_TIME_HORIZON - 1, "Must leave at least one revenue year"),
+  fencingUpfrontShare:   z.number({ message: "Fencing share is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%"),
+  sensitivityFlexPct:    z.number({ message: "Sensitivity flex is required" }).min(1, "Must be at least 1%").max(100, "Cannot exceed 100%"),
+  landOpportunityCost:   z.boolean().optional().default(false),
+  landCostStart:         z.enum(["year1", "afterImplementation"]).optional().default("year1"),
+  landCostEscalation:    z.number({ message: "Escalation is required" }).min(-20, "Cannot be below -20%").max(20, "Cannot exceed 20%").optional().default(0),
+  familyLaborShadowWage: z.number({ message: "Shadow wage is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%").optional().default(100),
+});
+
+// ---------------------------------------------------------------------------
+// Uncertainty (Monte Carlo) — optional distribution per input
+// ---------------------------------------------------------------------------
+
+export const inputDistributionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("triangular"),
+    min:  z.number({ message: "Minimum is required" }).min(0, "Cannot be negative"),
+    mode: z.number({ message: "Mode is required" }).min(0, "Cannot be negative"),
+    max:  z.number({ message: "Maximum is required" }).min(0, "Cannot be negative"),
+  }).refine((d) => d.min <= d.mode && d.mode <= d.max, {
+    message: "Must satisfy min ≤ mode ≤ max",
+    path: ["mode"],
+  }),
+  z.object({
+    kind: z.literal("band"),
+    pct:  z.number({ message: "Band is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%"),
+  }),
+]);
+
+export const uncertaintySettingsSchema = z.object({
+  iterations:    z.number({ message: "Number of runs is required" }).int("Must be a whole number").min(100, "At least 100 runs").max(10000, "At most 10,000 runs"),
+  seed:          z.number({ message: "Seed is required" }).int("Must be a whole number").min(0, "Cannot be negative"),
+  distributions: z.record(z.string(), inputDistributionSchema).default({}),
+});
+
+export const plantingCohortSchema = z.object({
+  year: z.number({ message: "Planting year is required" }).int("Must be a whole number")
+          .min(1, "Minimum year 1").max(MAX_TIME_HORIZON, `Maximum year ${MAX_TIME_HORIZON}`),
+  area: z.number({ message: "Area is required" }).min(0, "Cannot be negative"),
+});
+
+export const projectScenarioSchema = z.object({
+  plantings:              z.partialRecord(METHOD_ID_ENUM, z.array(plantingCohortSchema)).default({}),
+  constraintRampStartPct: z.number({ message: "Ramp-up start is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%").default(100),
+  constraintRampYears:    z.number({ message: "Ramp-up years are required" }).int("Must be a whole number").min(0, "Cannot be negative").max(MAX_TIME_HORIZON, `Maximum ${MAX_TIME_HORIZON} years`).default(0),
+});
+
 // ---------------------------------------------------------------------------
 // Full Restoration Model Schema
 // ---------------------------------------------------------------------------
 
 export const restorationModelSchema = z.object({
+  // Persistence format version (set on save, upgraded by migrations on load)
+  schemaVersion: z.number().int().min(0).optional(),
+
   // User identification
   userName:           z.string().optional().default(""),
   dataCollectionDate: z.string().optional().default(""),
@@ -113,7 +194,15 @@ export const restorationModelSchema = z.object({
   ecosystem:      z.string().min(1, "Ecosystem is required"),
   country:        z.string().optional().default(""),
   city:           z.string().optional().default(""),
-  timeHorizon:    z.literal(20).default(20),
+  timeHorizon:    z.number({ message: "Time horizon is required" }).int("Must be a whole number")
+                    .min(MIN_TIME_HORIZON, `Minimum ${MIN_TIME_HORIZON} years`).max(MAX_TIME_HORIZON, `Maximum ${MAX_TIME_HORIZON} years`)
+                    .default(DEFAULT_TIME_HORIZON),
+
+  // Currency of the entered amounts and its rate to US$ (US$ when absent)
+  currency: currencySettingsSchema.optional(),
+
+  // Unit areas are entered and shown in; values are stored per hectare
+  areaUnit: z.enum(["ha", "acre", "manzana", "tarea"]).optional().default("ha"),
 
   // Methods the user opts out of (those tabs disappear from the UI)
   disabledMethods: z.array(METHOD_ID_ENUM).optional().default([]),
@@ -147,6 +236,43 @@ export const restorationModelSchema = z.object({
       other:  z.number({ message: "Other % is required" }).min(0, "Cannot be negative").max(100, "Cannot exceed 100%").default(0),
     }).default({ male: 0, female: 0, other: 0 }),
   }),
+
+  // CBA external assumptions (saved with the model; defaults when absent)
+  assumptions: cbaAssumptionsSchema.optional(),
+
+  // Monte Carlo settings + optional input distributions
+  uncertainty: uncertaintySettingsSchema.optional(),
+
+  // Project-level scaling: planting schedule per method, constraint ramp-up
+  project: projectScenarioSchema.optional(),
+}).superRefine((model, ctx) => {
+  // Segments and the NTFP lag must fit inside the chosen time horizon.
+  const horizon = model.timeHorizon;
+  for (const [mk, entry] of Object.entries(model.methodCosts)) {
+    const series = [
+      ["maintenanceSegments", entry.maintenanceSegments],
+      ["ntfpProductivitySegments", entry.ntfpProductivitySegments],
+      ["ntfpRevenueSegments", entry.ntfpRevenueSegments],
+    ] as const;
+    for (const [field, segments] of series) {
+      (segments ?? []).forEach((segment, i) => {
+        if (segment.yearTo > horizon) {
+          ctx.addIssue({
+            code: "custom",
+            message: `End year exceeds the ${horizon}-year time horizon`,
+            path: ["methodCosts", mk, field, i, "yearTo"],
+          });
+        }
+      });
+    }
+  }
+  if (model.assumptions && model.assumptions.ntfpLagYears >= horizon) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Must leave at least one revenue year",
+      path: ["assumptions", "ntfpLagYears"],
+    });
+  }
 });
 
 // ---------------------------------------------------------------------------
@@ -35,6 +35,7 @@
  * Factor shares must always sum to exactly 100%.
  * They enable regional cost extrapolation via local price indices:
  *   AdjustedCost = Σ_k (FactorShare_k × LocalPriceIndex_k × BaseCost)
+ * (implemented by repriceModel in utils/priceIndex.ts).
  */
 export interface FactorShares {
   /** Percentage of cost attributable to labor (0–100) */
@@ -82,7 +83,7 @@ export interface ProductivitySegment extends YearRangeSegment {
 export interface ContextConstraintEntry {
   /** Unit cost to address this constraint (US$/ha or US$/km) */
   cost: number;
-  /** Number of times this activity needs to occur over the 20-year horizon */
+  /** Number of times this activity needs to occur over the time horizon */
   occurrences: number;
   /** Average total area that needs firebreaks in one property (ha) — only for fireRisk */
   firebreakArea?: number;
@@ -173,6 +174,13 @@ export interface MethodCostEntry {
   ntfpProductivitySegments?: ProductivitySegment[];
   /** NTFP revenue by year range, each with annual revenue */
   ntfpRevenueSegments?: RevenueSegment[];
+  /**
+   * Respondent's declared total cost of the unfavorable scenario over the
+   * horizon (US$/ha): implementation + maintenance + all constraint costs.
+   * 0 / absent = not declared. The interaction adjustment is derived as
+   * declared − (favorable + Σ constraint costs); see computeInteractionAdjustment.
+   */
+  declaredUnfavorableCost?: number;
 }
 
 /**
@@ -189,6 +197,10 @@ export type MethodCosts = Record<MethodType, MethodCostEntry>;
  * Each instance fully parameterises the economic model for a single combination.
  */
 export interface RestorationModel {
+  // ---- Persistence ----
+  /** Version of the stored format (absent in files saved before versioning; see utils/migrations) */
+  schemaVersion?: number;
+
   // ---- User Identification ----
   /** Name of the person filling in the questionnaire */
   userName?: string;
@@ -206,9 +218,17 @@ export interface RestorationModel {
   country: string;
   /** City where the project is located */
   city?: string;
-  /** Time horizon in years (fixed: 20) */
+  /** Time horizon in years (10–50, default 20) */
   timeHorizon: number;
 
+  // ---- Entry Currency ----
+  /** Currency the amounts were entered in and its rate to US$; US$ when absent */
+  currency?: CurrencySettings;
+
+  // ---- Area Unit ----
+  /** Unit areas are entered and shown in; stored values stay per hectare. Hectares when absent */
+  areaUnit?: AreaUnit;
+
   // ---- Disabled Methods (no data available) ----
   /** Methods for which the respondent has no cost information */
   disabledMethods?: MethodType[];
@@ -228,6 +248,18 @@ export interface RestorationModel {
   // ---- Labor Breakdown ----
   /** Breakdown of labor hours into hired vs non-hired labor (must sum to 100% each) */
   laborBreakdown: LaborBreakdown;
+
+  // ---- CBA External Assumptions ----
+  /** Analyst-editable CBA parameters; defaults apply when absent (older saved models) */
+  assumptions?: CBAAssumptions;
+
+  // ---- Uncertainty (Monte Carlo) ----
+  /** Optional input distributions and simulation settings */
+  uncertainty?: UncertaintySettings;
+
+  // ---- Project Scenario ----
+  /** Hectares and planting years per method for the project-level CBA; absent in older saved models */
+  project?: ProjectScenario;
 }
 
 // ---------------------------------------------------------------------------
@@ -277,3 +309,197 @@ export interface GenderDistribution {
   /** Percentage of labor hours from non-binary / other (0–100) */
   other: number;
 }
+
+// ---------------------------------------------------------------------------
+// Entry Currency
+// ---------------------------------------------------------------------------
+
+/**
+ * Currency of the questionnaire's costs, prices and revenues. Amounts are
+ * stored as entered; their US$ values are derived with the recorded rate
+ * (see utils/currency.ts). The CBA assumptions (carbon price) stay in US$.
+ */
+export interface CurrencySettings {
+  /** ISO 4217 code of the entry currency ("USD" = no conversion) */
+  code: string;
+  /** Units of the entry currency per 1 US$ */
+  exchangeRate: number;
+  /** Date the exchange rate was taken on (ISO date string) */
+  rateDate: string;
+}
+
+// ---------------------------------------------------------------------------
+// Area Unit
+// ---------------------------------------------------------------------------
+
+/**
+ * Unit of area used on the form. Every area-denominated value (costs and
+ * revenues per area, productivity per area, fenced and firebreak areas) is
+ * stored in hectares and converted for entry and display (see utils/area.ts).
+ */
+export type AreaUnit = "ha" | "acre" | "manzana" | "tarea";
+
+// ---------------------------------------------------------------------------
+// CBA External Assumptions
+// ---------------------------------------------------------------------------
+
+/**
+ * Parameters of the cost-benefit analysis that are NOT asked of the respondent.
+ * Analysts may change them per run; the values used are saved with the model
+ * and written to the "Parameters" sheet of the CBA workbook.
+ * Rates and shares are percentages (0–100).
+ */
+export interface CBAAssumptions {
+  /** Discount rates reported in the NPV sensitivity (%) */
+  discountRates: number[];
+  /** Discount rate for the headline NPV, BCR, payback and cost per tCO2 (%) */
+  defaultDiscountRate: number;
+  /** Carbon price in year 1 (US$/tCO2) */
+  carbonPrice: number;
+  /** Annual real escalation of the carbon price (%/yr, 0 = flat) */
+  carbonPriceEscalation: number;
+  /** Share of sequestration withheld in the registry buffer pool (%) */
+  carbonBufferShare: number;
+  /** Sequestration rate used when the ecosystem has no reference value (tCO2/ha/yr) */
+  carbonFallbackRate: number;
+  /** Years before NTFP revenue starts when only a revenue total is available */
+  ntfpLagYears: number;
+  /** Share of the total fencing cost incurred in year 1; the rest is spread over years 2–T (%) */
+  fencingUpfrontShare: number;
+  /** ± flex applied to each driver in the one-way (tornado) sensitivity (%) */
+  sensitivityFlexPct: number;
+  /**
+   * Charge the regional land lease (laborBreakdown.landLeaseCostPerHaPerYear)
+   * as the opportunity cost of the land: the headline NPV becomes the
+   * economic NPV and the financial NPV leaves it out.
+   */
+  landOpportunityCost: boolean;
+  /** First year the land cost is charged */
+  landCostStart: LandCostStart;
+  /** Annual real escalation of the land lease (%/yr, 0 = flat) */
+  landCostEscalation: number;
+  /**
+   * Shadow wage of non-hired (family / community) labor as a share of the
+   * hired rate (%). Values the non-hired part of the labor costs in the
+   * economic view; the financial view leaves it out of the cash outflows.
+   * 100 = valued like hired labor, as entered.
+   */
+  familyLaborShadowWage: number;
+}
+
+/**
+ * When the forgone land rent starts:
+ *   year1               — from implementation (year 1)
+ *   afterImplementation — from year 2, once the site is established
+ */
+export type LandCostStart = "year1" | "afterImplementation";
+
+// ---------------------------------------------------------------------------
+// Uncertainty (Monte Carlo)
+// ---------------------------------------------------------------------------
+
+/**
+ * Optional distribution attached to a cost, price or productivity input.
+ *   triangular: absolute min / mode / max, in the unit of the input
+ *   band:       uniform ±pct% around the questionnaire point estimate
+ */
+export type InputDistribution =
+  | { kind: "triangular"; min: number; mode: number; max: number }
+  | { kind: "band"; pct: number };
+
+export interface UncertaintySettings {
+  /** Number of simulation runs */
+  iterations: number;
+  /** Seed of the pseudo-random generator — the same seed reproduces the same runs */
+  seed: number;
+  /**
+   * Distribution per uncertain input, keyed by input id
+   * (e.g. "anr_30:implementationCost", "context:fireRisk", "carbonPrice").
+   * Inputs without an entry keep their point estimate.
+   */
+  distributions: Record<string, InputDistribution>;
+}
+
+// ---------------------------------------------------------------------------
+// Project scenario
+// ---------------------------------------------------------------------------
+
+/** Hectares on which a method is implemented in one project year */
+export interface PlantingCohort {
+  /** Project year of implementation (1 = first year of the project) */
+  year: number;
+  /** Area implemented (ha) */
+  area: number;
+}
+
+/**
+ * Project layer over the per-hectare model: the planting schedule of each
+ * method and the ramp-up of the context-constraint costs.
+ */
+export interface ProjectScenario {
+  /** Planting schedule per method; methods without cohorts are not in the project */
+  plantings: Partial<Record<MethodType, PlantingCohort[]>>;
+  /** Share of the per-hectare constraint costs incurred in project year 1 (%) */
+  constraintRampStartPct: number;
+  /** Project years over which the constraint costs rise linearly to 100% (0 = no ramp-up) */
+  constraintRampYears: number;
+}
+
+// ---------------------------------------------------------------------------
+// Regional price indices
+// ---------------------------------------------------------------------------
+
+/**
+ * Relative price level of each factor of production in one country/region.
+ * Indices are relative to a common base (1.00); only ratios between two
+ * regions matter. Used with FactorShares to re-price costs:
+ *   AdjustedCost = Σ_k (FactorShare_k × Index_k(target) / Index_k(origin)) × BaseCost
+ */
+export interface PriceIndexEntry {
+  /** Country or region name */
+  region: string;
+  labor: number;
+  materials: number;
+  machinery: number;
+}
+
+// ---------------------------------------------------------------------------
+// Reference cost ranges (outlier detection)
+// ---------------------------------------------------------------------------
+
+/** Kind of answer a reference range applies to. */
+export type ReferenceFieldKind =
+  | "implementationCost"
+  | "maintenanceAnnual"
+  | "constraintCost"
+  | "ntfpPrice"
+  | "ntfpProductivity";
+
+/**
+ * Expected range of one answer. `ecosystem` and `methodType` may be "*" to
+ * match any; the most specific matching range wins. `subject` names the
+ * maintenance activity (maintenanceAnnual) or the context constraint key
+ * (constraintCost).
+ */
+export interface ReferenceRange {
+  ecosystem: string;
+  methodType: MethodType | "*";
+  kind: ReferenceFieldKind;
+  subject?: string;
+  min: number;
+  max: number;
+  /** "bundled" (shipped with the app) or "aggregated" (from respondents) */
+  source: "bundled" | "aggregated";
+}
+
+// ---------------------------------------------------------------------------
+// Localization & user preferences
+// ---------------------------------------------------------------------------
+
+/** Interface language. English is the source language of all copy. */
+export type Locale = "en" | "pt" | "es" | "fr";
+
+/** Per-browser preferences, kept apart from the questionnaire data. */
+export interface UserPreferences {
+  locale: Locale;
+}
@@ -0,0 +1,332 @@
+/**
+ * Multi-respondent aggregation into ecosystem-level reference values.
+ *
+ * Respondents (saved or imported questionnaires) are grouped by ecosystem,
+ * country and method. For every numeric answer of the method, the shared
+ * context constraints and labor breakdown, and the derived CBA indicators,
+ * each group gets the weighted mean, median, quartiles (IQR), min and max.
+ *
+ * Weighted quantiles interpolate between the midpoints of each respondent's
+ * weight, so with equal weights the median of an even count is the mean of
+ * the two middle values. Respondents with weight 0 are left out. Amounts
+ * are aggregated in US$ (each respondent converted at its own rate).
+ */
+
+import type { RestorationModel, MethodType, MethodCostEntry } from "../types";
+import { getMethodLabel, getMaintenanceActivities } from "../constants";
+import { computeMethodCBA, METHOD_KEYS, type MethodCBA } from "./cba";
+import { toUSD } from "./currency";
+import * as XLSX from "xlsx";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AggregationRespondent {
+  id: string;
+  /** Name shown in tables and the workbook */
+  label: string;
+  /** Relative weight (≥ 0); 0 excludes the respondent */
+  weight: number;
+  data: RestorationModel;
+}
+
+export interface FieldStats {
+  /** Respondents with a value */
+  n: number;
+  totalWeight: number;
+  mean: number;
+  median: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  min: number;
+  max: number;
+}
+
+export interface AggregatedField {
+  /** Dotted path of the answer, or "cba.<indicator>" for derived values */
+  field: string;
+  label: string;
+  stats: FieldStats;
+  /** One value per respondent of the group (null when not available) */
+  values: (number | null)[];
+}
+
+export interface AggregationGroup {
+  /** "<ecosystem>|<country>|<methodId>", case-insensitive on the names */
+  key: string;
+  ecosystem: string;
+  country: string;
+  methodId: MethodType;
+  methodLabel: string;
+  /** Ids of the respondents in this group, in input order */
+  respondentIds: string[];
+  fields: AggregatedField[];
+}
+
+/** Where a respondent's value sits relative to the group's IQR. */
+export type SpreadPosition = "below" | "within" | "above";
+
+// ---------------------------------------------------------------------------
+// Weighted statistics
+// ---------------------------------------------------------------------------
+
+/**
+ * Weighted quantile of `sorted` (ascending, weights > 0): linear interpolation
+ * between the weight midpoints, clamped to the extremes.
+ */
+function weightedQuantile(sorted: { value: number; weight: number }[], total: number, q: number): number {
+  let cumulative = 0;
+  const positions = sorted.map((s) => {
+    const p = (cumulative + s.weight / 2) / total;
+    cumulative += s.weight;
+    return p;
+  });
+  if (q <= positions[0]) return sorted[0].value;
+  for (let i = 1; i < sorted.length; i++) {
+    if (q <= positions[i]) {
+      const t = (q - positions[i - 1]) / (positions[i] - positions[i - 1]);
+      return sorted[i - 1].value + t * (sorted[i].value - sorted[i - 1].value);
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/** Weighted summary of `samples`; null when no sample has a positive weight. */
+export function weightedStats(samples: { value: number; weight: number }[]): FieldStats | null {
+  const valid = samples
+    .filter((s) => Number.isFinite(s.value) && s.weight > 0)
+    .sort((a, b) => a.value - b.value);
+  if (valid.length === 0) return null;
+  const total = valid.reduce((s, x) => s + x.weight, 0);
+  const q1 = weightedQuantile(valid, total, 0.25);
+  const q3 = weightedQuantile(valid, total, 0.75);
+  return {
+    n: valid.length,
+    totalWeight: total,
+    mean: valid.reduce((s, x) => s + x.value * x.weight, 0) / total,
+    median: weightedQuantile(valid, total, 0.5),
+    q1,
+    q3,
+    iqr: q3 - q1,
+    min: valid[0].value,
+    max: valid[valid.length - 1].value,
+  };
+}
+
+export function spreadPosition(value: number, stats: FieldStats): SpreadPosition {
+  if (value < stats.q1) return "below";
+  if (value > stats.q3) return "above";
+  return "within";
+}
+
+// ---------------------------------------------------------------------------
+// Fields
+// ---------------------------------------------------------------------------
+
+/** Numeric leaves of `obj` keyed by dotted path; arrays are skipped. */
+function numericLeaves(obj: unknown, prefix: string, out: Map<string, number>): Map<string, number> {
+  if (obj === null || typeof obj !== "object" || Array.isArray(obj)) return out;
+  for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+    const path = `${prefix}.${key}`;
+    if (typeof value === "number") {
+      if (Number.isFinite(value)) out.set(path, value);
+    } else {
+      numericLeaves(value, path, out);
+    }
+  }
+  return out;
+}
+
+const CBA_FIELDS: { key: keyof MethodCBA; label: string }[] = [
+  { key: "npv",                       label: "CBA: NPV (US$/ha)" },
+  { key: "irr",                       label: "CBA: IRR (fraction)" },
+  { key: "bcr",                       label: "CBA: BCR" },
+  { key: "paybackYear",               label: "CBA: Payback year" },
+  { key: "totalCostsUndiscounted",    label: "CBA: Total costs, undiscounted (US$/ha)" },
+  { key: "totalBenefitsUndiscounted", label: "CBA: Total benefits, undiscounted (US$/ha)" },
+  { key: "interactionAdjustment",     label: "CBA: Interaction adjustment (US$/ha)" },
+  { key: "costPerTCO2",               label: "CBA: Cost per tCO2 (US$)" },
+];
+
+/**
+ * Every numeric value of one respondent for one method: the method's answers
+ * (plus maintenance total and mean annual cost per activity), the shared
+ * context constraints and labor breakdown, the time horizon and the CBA
+ * indicators.
+ */
+function respondentValues(d: RestorationModel, methodId: MethodType): Map<string, number> {
+  const method = d.methodCosts[methodId];
+  const values = new Map<string, number>();
+  values.set("timeHorizon", Number(d.timeHorizon) || 0);
+  numericLeaves(method, "method", values);
+  for (const activity of getMaintenanceActivities(methodId)) {
+    const segments = (method.maintenanceSegments ?? []).filter((s) => s.label === activity);
+    const years = segments.reduce((sum, s) => sum + Math.max(0, s.yearTo - s.yearFrom + 1), 0);
+    const total = segments.reduce((sum, s) => sum + (Number(s.cost) || 0) * Math.max(0, s.yearTo - s.yearFrom + 1), 0);
+    const name = activity.split(" (")[0];
+    values.set(`method.maintenanceByActivity.${name}`, total);
+    // Mean annual cost over the years the activity is carried out
+    if (years > 0) values.set(`method.maintenanceAnnualByActivity.${name}`, total / years);
+  }
+  numericLeaves(d.contextVariables, "contextVariables", values);
+  numericLeaves(d.laborBreakdown, "laborBreakdown", values);
+
+  if ((method.implementationCost ?? 0) > 0) {
+    try {
+      const cba = computeMethodCBA(methodId, method, d);
+      for (const f of CBA_FIELDS) {
+        const v = cba[f.key];
+        if (typeof v === "number" && Number.isFinite(v)) values.set(`cba.${f.key}`, v);
+      }
+    } catch {
+      // Incomplete answers: the group keeps this respondent's raw values only
+    }
+  }
+  return values;
+}
+
+function fieldLabel(field: string): string {
+  return CBA_FIELDS.find((f) => `cba.${f.key}` === field)?.label ?? field;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+const groupPart = (s: string | undefined) => (s ?? "").trim();
+
+/** An implementation or maintenance cost was entered; an empty tab is not an answer. */
+const hasEnteredCosts = (m: MethodCostEntry) =>
+  (Number(m.implementationCost) || 0) > 0 ||
+  (Number(m.maintenanceCost) || 0) > 0 ||
+  (m.maintenanceSegments ?? []).some((s) => (Number(s.cost) || 0) > 0);
+
+/**
+ * Group `respondents` by ecosystem × country × method (answered methods
+ * only: not disabled and with costs entered) and summarize every field.
+ * Groups are sorted by ecosystem, country, method.
+ */
+export function aggregateRespondents(respondents: AggregationRespondent[]): AggregationGroup[] {
+  const groups = new Map<string, { group: AggregationGroup; values: Map<string, number>[]; weights: number[] }>();
+
+  for (const r of respondents) {
+    const data = toUSD(r.data);
+    const disabled = new Set<string>(data.disabledMethods ?? []);
+    for (const methodId of METHOD_KEYS) {
+      const method = data.methodCosts?.[methodId];
+      if (disabled.has(methodId) || !method || !hasEnteredCosts(method)) continue;
+      const ecosystem = groupPart(data.ecosystem);
+      const country = groupPart(data.country);
+      const key = `${ecosystem.toLowerCase()}|${country.toLowerCase()}|${methodId}`;
+      let entry = groups.get(key);
+      if (!entry) {
+        entry = {
+          group: { key, ecosystem, country, methodId, methodLabel: getMethodLabel(methodId), respondentIds: [], fields: [] },
+          values: [],
+          weights: [],
+        };
+        groups.set(key, entry);
+      }
+      entry.group.respondentIds.push(r.id);
+      entry.values.push(respondentValues(data, methodId));
+      entry.weights.push(Math.max(0, Number(r.weight) || 0));
+    }
+  }
+
+  for (const { group, values, weights } of groups.values()) {
+    // Union of the paths in first-seen order, CBA indicators last
+    const paths = [...new Set(values.flatMap((v) => [...v.keys()]))];
+    paths.sort((a, b) => Number(a.startsWith("cba.")) - Number(b.startsWith("cba.")));
+    for (const field of paths) {
+      const perRespondent = values.map((v) => v.get(field) ?? null);
+      const stats = weightedStats(
+        perRespondent.flatMap((value, i) => (value === null ? [] : [{ value, weight: weights[i] }])),
+      );
+      if (stats) group.fields.push({ field, label: fieldLabel(field), stats, values: perRespondent });
+    }
+  }
+
+  return [...groups.values()]
+    .map((g) => g.group)
+    .sort((a, b) =>
+      a.ecosystem.localeCompare(b.ecosystem) ||
+      a.country.localeCompare(b.country) ||
+      METHOD_KEYS.indexOf(a.methodId) - METHOD_KEYS.indexOf(b.methodId),
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Excel export
+// ---------------------------------------------------------------------------
+
+const round = (n: number) => Number(n.toFixed(4));
+
+/**
+ * "Aggregated" workbook: the reference values per group and field, each
+ * respondent's value beside its group's median and IQR, and the respondents
+ * with their weights.
+ */
+export function exportAggregatedToXlsx(
+  groups: AggregationGroup[],
+  respondents: AggregationRespondent[],
+  filename: string,
+): void {
+  const byId = new Map(respondents.map((r) => [r.id, r]));
+  const wb = XLSX.utils.book_new();
+
+  // ── Sheet: Aggregated ────────────────────────────────────────────────
+  const aggHeaders = [
+    "Ecosystem", "Country", "Method", "Field",
+    "N", "Total Weight", "Mean", "Median", "Q1", "Q3", "IQR", "Min", "Max",
+  ];
+  const aggRows = groups.flatMap((g) =>
+    g.fields.map((f) => [
+      g.ecosystem, g.country, g.methodLabel, f.label,
+      f.stats.n, round(f.stats.totalWeight),
+      round(f.stats.mean), round(f.stats.median), round(f.stats.q1), round(f.stats.q3),
+      round(f.stats.iqr), round(f.stats.min), round(f.stats.max),
+    ]),
+  );
+  const wsAgg = XLSX.utils.aoa_to_sheet([aggHeaders, ...aggRows]);
+  wsAgg["!cols"] = [{ wch: 20 }, { wch: 14 }, { wch: 26 }, { wch: 52 }, ...Array.from({ length: 9 }, () => ({ wch: 12 }))];
+  XLSX.utils.book_append_sheet(wb, wsAgg, "Aggregated");
+
+  // ── Sheet: Respondents vs Group ──────────────────────────────────────
+  const posHeaders = [
+    "Ecosystem", "Country", "Method", "Field", "Respondent", "Weight",
+    "Value", "Group Median", "Group Q1", "Group Q3", "Position vs IQR", "Deviation from Median (%)",
+  ];
+  const posRows = groups.flatMap((g) =>
+    g.fields.flatMap((f) =>
+      f.values.flatMap((value, i) => {
+        if (value === null) return [];
+        const r = byId.get(g.respondentIds[i]);
+        const deviation = f.stats.median !== 0 ? round(((value - f.stats.median) / Math.abs(f.stats.median)) * 100) : "";
+        return [[
+          g.ecosystem, g.country, g.methodLabel, f.label, r?.label ?? g.respondentIds[i], r?.weight ?? "",
+          round(value), round(f.stats.median), round(f.stats.q1), round(f.stats.q3),
+          spreadPosition(value, f.stats), deviation,
+        ]];
+      }),
+    ),
+  );
+  const wsPos = XLSX.utils.aoa_to_sheet([posHeaders, ...posRows]);
+  wsPos["!cols"] = [{ wch: 20 }, { wch: 14 }, { wch: 26 }, { wch: 52 }, { wch: 24 }, ...Array.from({ length: 7 }, () => ({ wch: 14 }))];
+  XLSX.utils.book_append_sheet(wb, wsPos, "Respondents vs Group");
+
+  // ── Sheet: Respondents ───────────────────────────────────────────────
+  const respRows = [
+    ["Respondent", "Weight", "Ecosystem", "Country", "Respondent Name", "Data Collection Date"],
+    ...respondents.map((r) => [
+      r.label, r.weight, r.data.ecosystem ?? "", r.data.country ?? "",
+      r.data.respondentName ?? "", r.data.dataCollectionDate ?? "",
+    ]),
+  ];
+  const wsResp = XLSX.utils.aoa_to_sheet(respRows);
+  wsResp["!cols"] = [{ wch: 28 }, { wch: 10 }, { wch: 20 }, { wch: 14 }, { wch: 24 }, { wch: 16 }];
+  XLSX.utils.book_append_sheet(wb, wsResp, "Respondents");
+
+  XLSX.writeFile(wb, filename);
+}
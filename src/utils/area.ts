@@ -0,0 +1,137 @@
+/**
+ * Area units (hectare, acre, manzana, tarea).
+ *
+ * The model is always stored per hectare: costs and revenues per ha,
+ * productivity in kg/ha, fenced and firebreak areas in ha. The respondent
+ * may enter and read them in another unit recorded in `areaUnit`; the form
+ * converts on entry and display with the helpers below, and the CBA results
+ * (computed per ha) are scaled to the chosen unit for display. Exports stay
+ * per hectare.
+ */
+
+import type { AreaUnit } from "../types";
+import { AREA_UNITS, DEFAULT_AREA_UNIT } from "../constants";
+import type { MethodCBA } from "./cba";
+import type { TornadoResult } from "./sensitivity";
+
+export interface AreaUnitInfo {
+  id: AreaUnit;
+  label: string;
+  /** Short symbol used in units, e.g. "ac" */
+  symbol: string;
+  /** Size of one unit in hectares */
+  hectares: number;
+}
+
+/** The unit's definition; hectares for a missing or unknown id. */
+export function resolveAreaUnit(unit?: string): AreaUnitInfo {
+  return AREA_UNITS.find((u) => u.id === unit) ?? AREA_UNITS.find((u) => u.id === DEFAULT_AREA_UNIT)!;
+}
+
+/** A per-hectare unit in `unit`, e.g. "US$/ha/yr" → "US$/ac/yr"; "ha" → "ac". */
+export function perAreaUnit(haUnit: string, unit?: string): string {
+  const { symbol } = resolveAreaUnit(unit);
+  return haUnit === "ha" ? symbol : haUnit.replace("/ha", `/${symbol}`);
+}
+
+// Drop floating-point noise left by converting back and forth
+function clean(value: number): number {
+  return Number.isFinite(value) ? Number(value.toPrecision(12)) : value;
+}
+
+/** Value per hectare → value per `unit` (e.g. US$/ha → US$/ac). */
+export function fromPerHa(valuePerHa: number, unit?: string): number {
+  return clean(valuePerHa * resolveAreaUnit(unit).hectares);
+}
+
+/** Value per `unit` → value per hectare. */
+export function toPerHa(valuePerUnit: number, unit?: string): number {
+  return clean(valuePerUnit / resolveAreaUnit(unit).hectares);
+}
+
+/** Area in hectares → area in `unit`. */
+export function fromHectares(areaHa: number, unit?: string): number {
+  return clean(areaHa / resolveAreaUnit(unit).hectares);
+}
+
+/** Area in `unit` → area in hectares. */
+export function toHectares(area: number, unit?: string): number {
+  return clean(area * resolveAreaUnit(unit).hectares);
+}
+
+// ---------------------------------------------------------------------------
+// Results per area unit
+// ---------------------------------------------------------------------------
+
+/**
+ * CBA result expressed per `unit` instead of per hectare. Per-area flows and
+ * totals are scaled; ratios (IRR, BCR, payback, cost per tCO2) and the
+ * carbon price are unchanged.
+ */
+export function cbaPerAreaUnit(cba: MethodCBA, unit?: string): MethodCBA {
+  const f = resolveAreaUnit(unit).hectares;
+  if (f === 1) return cba;
+  return {
+    ...cba,
+    cashFlows: cba.cashFlows.map((cf) => ({
+      ...cf,
+      implCost: cf.implCost * f,
+      maintCost: cf.maintCost * f,
+      constraintCost: cf.constraintCost * f,
+      adjustmentCost: cf.adjustmentCost * f,
+      landCost: cf.landCost * f,
+      laborCost: cf.laborCost * f,
+      machineryCost: cf.machineryCost * f,
+      familyLaborCost: cf.familyLaborCost * f,
+      shadowLaborAdjustment: cf.shadowLaborAdjustment * f,
+      totalCost: cf.totalCost * f,
+      ntfpProductivity: cf.ntfpProductivity * f,
+      ntfpRevenue: cf.ntfpRevenue * f,
+      carbonSequestration: cf.carbonSequestration * f,
+      carbonCredits: cf.carbonCredits * f,
+      carbonBenefit: cf.carbonBenefit * f,
+      totalBenefit: cf.totalBenefit * f,
+      netFlow: cf.netFlow * f,
+      cumulativeNet: cf.cumulativeNet * f,
+      discountedNet: cf.discountedNet * f,
+      cumulativeDiscountedNet: cf.cumulativeDiscountedNet * f,
+      financialCost: cf.financialCost * f,
+      financialNetFlow: cf.financialNetFlow * f,
+    })),
+    npvByRate: cba.npvByRate.map((r) => ({ ...r, npv: r.npv * f })),
+    interactionAdjustment: cba.interactionAdjustment * f,
+    totalCostsUndiscounted: cba.totalCostsUndiscounted * f,
+    totalBenefitsUndiscounted: cba.totalBenefitsUndiscounted * f,
+    npv: cba.npv * f,
+    financialNpv: cba.financialNpv * f,
+    totalLandCost: cba.totalLandCost * f,
+    totalFamilyLaborCost: cba.totalFamilyLaborCost * f,
+    carbonSeqRate: cba.carbonSeqRate * f,
+    totalCarbonSeq: cba.totalCarbonSeq * f,
+    totalCarbonCredits: cba.totalCarbonCredits * f,
+    totalCarbonRevenue: cba.totalCarbonRevenue * f,
+  };
+}
+
+/** Tornado result with NPVs, and drivers given per hectare, expressed per `unit`. */
+export function tornadoPerAreaUnit(tornado: TornadoResult, unit?: string): TornadoResult {
+  const f = resolveAreaUnit(unit).hectares;
+  if (f === 1) return tornado;
+  return {
+    ...tornado,
+    baseNpv: tornado.baseNpv * f,
+    drivers: tornado.drivers.map((d) => {
+      const g = d.unit.includes("/ha") ? f : 1;
+      return {
+        ...d,
+        unit: perAreaUnit(d.unit, unit),
+        baseValue: d.baseValue * g,
+        lowValue: d.lowValue * g,
+        highValue: d.highValue * g,
+        npvLow: d.npvLow * f,
+        npvHigh: d.npvHigh * f,
+        swing: d.swing * f,
+      };
+    }),
+  };
+}
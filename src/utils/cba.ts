@@ -1,30 +1,37 @@
 /**
- * Cost-Benefit Analysis (CBA) computation and Excel export.
+ * Cost-Benefit Analysis (CBA) computation.
  *
  * Reads all user-provided data from the questionnaire form and computes
- * NPV, IRR, BCR, and 20-year cash flow for each answered method.
+ * NPV, IRR, BCR, and the cash flow over the chosen time horizon (10–50
+ * years, default 20) for each answered method.
  *
  * External parameters (discount rates, carbon price, sequestration curves)
  * use sensible defaults and are clearly separated.
+ *
+ * Two views of the costs are computed:
+ *   economic  — the headline results: costs as entered, non-hired labor at
+ *               the shadow wage and, when charged, the land opportunity cost
+ *   financial — cash outlays only: without the non-hired labor and the land
+ *               opportunity cost
  */
 
-import type { RestorationModel, MethodType, MethodCostEntry } from "../types";
-import * as XLSX from "xlsx";
+import type { RestorationModel, MethodType, MethodCostEntry, CBAAssumptions, FactorShares } from "../types";
+import { DEFAULT_CBA_ASSUMPTIONS } from "../constants";
+import { resolveHorizon, computeInteractionAdjustment } from "./computations";
 
 // ---------------------------------------------------------------------------
 // External parameters (NOT in questionnaire)
 // ---------------------------------------------------------------------------
-
-const DISCOUNT_RATES = [0.03, 0.06, 0.08, 0.10, 0.12];
-export const DEFAULT_DISCOUNT_RATE = 0.06;
-
-/** Carbon price US$/tCO2 — default for main analysis + range for sensitivity */
-const CARBON_PRICE = 10;
+//
+// Discount rates, carbon price/escalation/buffer, the carbon fallback rate,
+// the NTFP lag, the fencing split, the land opportunity cost settings and the
+// shadow wage are analyst-editable CBAAssumptions (see
+// DEFAULT_CBA_ASSUMPTIONS). The reference tables below are fixed.
 
 /**
  * Carbon sequestration by ecosystem (tCO2/ha/yr).
  * Literature-based rough averages. These are the mean annual values
- * over a 20-year restoration horizon.
+ * over a 20-year reference period; longer horizons follow the growth curve.
  */
 const CARBON_SEQ: Record<string, number> = {
   "Tropical Forest": 12.0,
@@ -35,6 +42,32 @@ const CARBON_SEQ: Record<string, number> = {
   "Arid or Semi-Arid Zones": 2.5,
 };
 
+/** Years over which the CARBON_SEQ means are defined (used to calibrate the curves) */
+const CARBON_REFERENCE_YEARS = 20;
+
+/**
+ * Shape of the cumulative carbon stock over time.
+ *   chapman-richards: S(t) = A · (1 − e^(−k·t))^p
+ *   sigmoid:          logistic curve with inflection at `midpoint`, shifted so S(0) = 0
+ * The asymptote A is calibrated so the stock after CARBON_REFERENCE_YEARS equals
+ * the CARBON_SEQ mean × years — the curve redistributes the mean over time.
+ */
+type CarbonCurve =
+  | { model: "chapman-richards"; k: number; p: number }
+  | { model: "sigmoid"; k: number; midpoint: number };
+
+/** Growth curve shape by ecosystem */
+const CARBON_CURVES: Record<string, CarbonCurve> = {
+  "Tropical Forest": { model: "chapman-richards", k: 0.08, p: 1.8 },
+  "Subtropical Forest": { model: "chapman-richards", k: 0.06, p: 1.8 },
+  "Savanna or Dry Forest": { model: "sigmoid", k: 0.30, midpoint: 10 },
+  "Mangrove": { model: "chapman-richards", k: 0.10, p: 1.5 },
+  "Mountaine Forest": { model: "chapman-richards", k: 0.05, p: 2.0 },
+  "Arid or Semi-Arid Zones": { model: "sigmoid", k: 0.25, midpoint: 12 },
+};
+
+const DEFAULT_CARBON_CURVE: CarbonCurve = { model: "chapman-richards", k: 0.07, p: 1.8 };
+
 /** Method-specific carbon multiplier relative to full seedling planting (=1.0) */
 const METHOD_CARBON_MULT: Record<string, number> = {
   anr_30: 0.65,
@@ -45,8 +78,19 @@ const METHOD_CARBON_MULT: Record<string, number> = {
   seedling_planting_ntfp: 1.0,
 };
 
-/** NTFP maturation lag — years before revenue starts */
-const NTFP_LAG_YEARS = 4;
+/**
+ * Method-specific growth-rate multiplier applied to the curve's k.
+ * ANR starts from existing regenerants (faster early uptake); direct seeding
+ * needs time to establish (slower start).
+ */
+const METHOD_GROWTH_MULT: Record<string, number> = {
+  anr_30: 1.2,
+  anr_30_ntfp: 1.2,
+  seed_dispersal: 0.85,
+  seed_dispersal_ntfp: 0.85,
+  seedling_planting: 1.0,
+  seedling_planting_ntfp: 1.0,
+};
 
 const METHOD_LABELS: Record<string, string> = {
   anr_30: "ANR/50% Enrichment",
@@ -67,15 +111,38 @@ export interface YearCashFlow {
   implCost: number;
   maintCost: number;
   constraintCost: number;
+  /** Share of the interaction adjustment (declared − additive cost) booked in the year */
+  adjustmentCost: number;
+  /** Forgone land rent (opportunity cost of the land); 0 unless enabled in the assumptions */
+  landCost: number;
+  /** Labor in the implementation, maintenance and constraint costs (labor shares), as entered */
+  laborCost: number;
+  /** Machinery in the implementation, maintenance and constraint costs (machinery shares), as entered */
+  machineryCost: number;
+  /** Non-hired part of `laborCost` */
+  familyLaborCost: number;
+  /** Revaluation of the non-hired labor at the shadow wage (≤ 0 below the hired rate) */
+  shadowLaborAdjustment: number;
+  /** Economic cost: every line above, including the shadow labor adjustment */
   totalCost: number;
   ntfpProductivity: number;
   ntfpRevenue: number;
+  /** Gross carbon sequestered in the year (tCO2/ha) */
+  carbonSequestration: number;
+  /** Sequestration net of the buffer-pool deduction, i.e. saleable credits (tCO2/ha) */
+  carbonCredits: number;
+  /** Carbon price applied in the year, after escalation (US$/tCO2) */
+  carbonPrice: number;
   carbonBenefit: number;
   totalBenefit: number;
   netFlow: number;
   cumulativeNet: number;
   discountedNet: number;
   cumulativeDiscountedNet: number;
+  /** Cash outlays: costs without the non-hired labor and the land opportunity cost */
+  financialCost: number;
+  /** totalBenefit − financialCost */
+  financialNetFlow: number;
 }
 
 export interface MethodCBA {
@@ -87,39 +154,178 @@ export interface MethodCBA {
   irr: number | null;
   bcr: number;
   paybackYear: number | null;
-  totalCosts20yr: number;
-  totalBenefits20yr: number;
+  /** Number of years in the cash flow */
+  horizon: number;
+  /** Interaction adjustment carried into the cash flow, undiscounted (US$/ha) */
+  interactionAdjustment: number;
+  /** Undiscounted costs over the horizon (US$/ha) */
+  totalCostsUndiscounted: number;
+  /** Undiscounted benefits over the horizon (US$/ha) */
+  totalBenefitsUndiscounted: number;
+  /** Discount rate used for the headline indicators (fraction) */
+  discountRate: number;
+  /** NPV at `discountRate` (US$/ha); the economic NPV when the land opportunity cost is charged */
+  npv: number;
+  /** NPV at `discountRate` of the financial view (cash outlays only) (US$/ha) */
+  financialNpv: number;
+  /** IRR of the financial view */
+  financialIrr: number | null;
+  /** BCR of the financial view at `discountRate` */
+  financialBcr: number;
+  /** Undiscounted non-hired labor in the costs, valued as entered (US$/ha) */
+  totalFamilyLaborCost: number;
+  /** Undiscounted land opportunity cost over the horizon (US$/ha) */
+  totalLandCost: number;
+  /** Mean annual sequestration over the horizon (tCO2/ha/yr) */
   carbonSeqRate: number;
+  /** Gross carbon sequestered over the horizon (tCO2/ha) */
+  totalCarbonSeq: number;
+  /** Credits sold over the horizon, net of the buffer pool (tCO2/ha) */
+  totalCarbonCredits: number;
+  /** Undiscounted carbon revenue over the horizon (US$/ha) */
+  totalCarbonRevenue: number;
+  /** PV of costs per discounted tonne sequestered (US$/tCO2) */
   costPerTCO2: number | null;
 }
 
+// ---------------------------------------------------------------------------
+// Assumptions
+// ---------------------------------------------------------------------------
+
+/** Keep `value` when it is a finite number, otherwise use `fallback`. */
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && isFinite(value) ? value : fallback;
+}
+
+/**
+ * Fill any missing or blank assumption with its default. The default discount
+ * rate is always part of the sensitivity list, which is returned sorted.
+ */
+export function resolveAssumptions(assumptions?: Partial<CBAAssumptions>): CBAAssumptions {
+  const d = DEFAULT_CBA_ASSUMPTIONS;
+  const a = assumptions ?? {};
+  const defaultDiscountRate = finiteOr(a.defaultDiscountRate, d.defaultDiscountRate);
+  const rates = (a.discountRates ?? d.discountRates).filter((r) => typeof r === "number" && isFinite(r));
+  const discountRates = Array.from(new Set([...(rates.length > 0 ? rates : d.discountRates), defaultDiscountRate]))
+    .sort((x, y) => x - y);
+
+  return {
+    discountRates,
+    defaultDiscountRate,
+    carbonPrice:           finiteOr(a.carbonPrice, d.carbonPrice),
+    carbonPriceEscalation: finiteOr(a.carbonPriceEscalation, d.carbonPriceEscalation),
+    carbonBufferShare:     finiteOr(a.carbonBufferShare, d.carbonBufferShare),
+    carbonFallbackRate:    finiteOr(a.carbonFallbackRate, d.carbonFallbackRate),
+    ntfpLagYears:          Math.round(finiteOr(a.ntfpLagYears, d.ntfpLagYears)),
+    fencingUpfrontShare:   finiteOr(a.fencingUpfrontShare, d.fencingUpfrontShare),
+    sensitivityFlexPct:    finiteOr(a.sensitivityFlexPct, d.sensitivityFlexPct),
+    landOpportunityCost:   a.landOpportunityCost ?? d.landOpportunityCost,
+    landCostStart:         a.landCostStart === "afterImplementation" ? "afterImplementation" : "year1",
+    landCostEscalation:    finiteOr(a.landCostEscalation, d.landCostEscalation),
+    familyLaborShadowWage: finiteOr(a.familyLaborShadowWage, d.familyLaborShadowWage),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Core computations
 // ---------------------------------------------------------------------------
 
-function getCarbon(ecosystem: string): number {
+/** Mean reference sequestration rate for an ecosystem (tCO2/ha/yr). */
+export function getCarbon(ecosystem: string, fallback: number): number {
   // Try exact match, then partial match
   if (CARBON_SEQ[ecosystem]) return CARBON_SEQ[ecosystem];
   const key = Object.keys(CARBON_SEQ).find((k) =>
     ecosystem.toLowerCase().includes(k.toLowerCase()) ||
     k.toLowerCase().includes(ecosystem.toLowerCase())
   );
-  return key ? CARBON_SEQ[key] : 6.0; // fallback
+  return key ? CARBON_SEQ[key] : fallback;
+}
+
+function getCarbonCurve(ecosystem: string): CarbonCurve {
+  if (CARBON_CURVES[ecosystem]) return CARBON_CURVES[ecosystem];
+  const key = Object.keys(CARBON_CURVES).find((k) =>
+    ecosystem.toLowerCase().includes(k.toLowerCase()) ||
+    k.toLowerCase().includes(ecosystem.toLowerCase())
+  );
+  return key ? CARBON_CURVES[key] : DEFAULT_CARBON_CURVE;
+}
+
+/** Human-readable description of the ecosystem's carbon growth curve. */
+export function describeCarbonCurve(ecosystem: string): string {
+  const curve = getCarbonCurve(ecosystem);
+  return curve.model === "chapman-richards"
+    ? `Chapman-Richards (k=${curve.k}, p=${curve.p})`
+    : `Sigmoid (k=${curve.k}, midpoint=${curve.midpoint} yr)`;
+}
+
+/** Un-scaled cumulative stock shape, 0 at t = 0 and tending to 1. */
+function curveShape(curve: CarbonCurve, t: number): number {
+  if (t <= 0) return 0;
+  if (curve.model === "chapman-richards") {
+    return Math.pow(1 - Math.exp(-curve.k * t), curve.p);
+  }
+  const logistic = (x: number) => 1 / (1 + Math.exp(-curve.k * (x - curve.midpoint)));
+  const base = logistic(0);
+  return (logistic(t) - base) / (1 - base);
+}
+
+/**
+ * Annual gross sequestration (tCO2/ha) for project years 1..horizon,
+ * following the ecosystem curve scaled by the method multipliers.
+ */
+function buildCarbonSeries(
+  ecosystem: string,
+  methodId: string,
+  horizon: number,
+  fallbackRate: number,
+): number[] {
+  const base = getCarbonCurve(ecosystem);
+  const curve: CarbonCurve = { ...base, k: base.k * (METHOD_GROWTH_MULT[methodId] ?? 1) };
+  const meanRate = getCarbon(ecosystem, fallbackRate) * (METHOD_CARBON_MULT[methodId] || 0.75);
+  const refShape = curveShape(curve, CARBON_REFERENCE_YEARS);
+  const asymptote = refShape > 0 ? (meanRate * CARBON_REFERENCE_YEARS) / refShape : 0;
+
+  const series: number[] = [];
+  for (let year = 1; year <= horizon; year++) {
+    series.push(asymptote * (curveShape(curve, year) - curveShape(curve, year - 1)));
+  }
+  return series;
+}
+
+/** Carbon price in a given discount period, with annual escalation. */
+function carbonPriceAt(period: number, assumptions: CBAAssumptions): number {
+  return assumptions.carbonPrice * Math.pow(1 + assumptions.carbonPriceEscalation / 100, period);
 }
 
+/**
+ * Forgone land rent in a given discount period: the regional lease, escalated
+ * annually, from the first charged period on (US$/ha).
+ */
+function landCostAt(period: number, leasePerYear: number, assumptions: CBAAssumptions): number {
+  if (!assumptions.landOpportunityCost) return 0;
+  if (period === 0 && assumptions.landCostStart === "afterImplementation") return 0;
+  return leasePerYear * Math.pow(1 + assumptions.landCostEscalation / 100, period);
+}
+
+/** Net flow of the economic (headline) view */
+const economicNet = (cf: YearCashFlow) => cf.netFlow;
+
+/** Net flow of the financial view */
+const financialNet = (cf: YearCashFlow) => cf.financialNetFlow;
+
 /**
  * Compute NPV at a given rate.
  */
-function computeNPV(cashFlows: YearCashFlow[], rate: number): number {
-  return cashFlows.reduce((sum, cf) => sum + cf.netFlow / Math.pow(1 + rate, cf.year), 0);
+function computeNPV(cashFlows: YearCashFlow[], rate: number, net = economicNet): number {
+  return cashFlows.reduce((sum, cf) => sum + net(cf) / Math.pow(1 + rate, cf.year), 0);
 }
 
 /**
  * Compute IRR using bisection method.
  */
-function computeIRR(cashFlows: YearCashFlow[]): number | null {
+function computeIRR(cashFlows: YearCashFlow[], net = economicNet): number | null {
   let lo = -0.5, hi = 5.0;
-  const npvAt = (r: number) => cashFlows.reduce((s, cf) => s + cf.netFlow / Math.pow(1 + r, cf.year), 0);
+  const npvAt = (r: number) => computeNPV(cashFlows, r, net);
 
   // Check if IRR exists (sign change)
   if (npvAt(lo) * npvAt(hi) > 0) return null;
@@ -157,7 +363,8 @@ function addSegmentSeries(
   return yearMap;
 }
 
-function buildMaintenanceCostMap(method: MethodCostEntry, horizon: number): Record<number, number> {
+/** Maintenance cost by project year (years 2–horizon): the segments, or the total spread evenly. */
+export function buildMaintenanceCostMap(method: MethodCostEntry, horizon: number): Record<number, number> {
   const maintenanceByYear = createYearMap(horizon);
   const segments = method.maintenanceSegments ?? [];
 
@@ -190,7 +397,18 @@ function buildProductivityMap(method: MethodCostEntry, horizon: number): Record<
   return productivityByYear;
 }
 
-function buildRevenueMap(method: MethodCostEntry, horizon: number): Record<number, number> {
+/**
+ * True when the NTFP revenue is derived as productivity × price; otherwise it
+ * comes from the entered revenue segments or total and price and
+ * productivity do not enter the cash flow.
+ */
+export function ntfpRevenueFromPrice(method: MethodCostEntry): boolean {
+  return (method.ntfpRevenueSegments ?? []).length === 0
+    && (method.ntfpProductivitySegments ?? []).length > 0
+    && (method.ntfpPrice || 0) > 0;
+}
+
+function buildRevenueMap(method: MethodCostEntry, horizon: number, lagYears: number): Record<number, number> {
   const revenueByYear = createYearMap(horizon);
   const revenueSegments = method.ntfpRevenueSegments ?? [];
 
@@ -198,8 +416,7 @@ function buildRevenueMap(method: MethodCostEntry, horizon: number): Record<numbe
     return addSegmentSeries(revenueByYear, revenueSegments, (segment) => (segment as { revenue?: number }).revenue ?? 0);
   }
 
-  const productivitySegments = method.ntfpProductivitySegments ?? [];
-  if (productivitySegments.length > 0 && (method.ntfpPrice || 0) > 0) {
+  if (ntfpRevenueFromPrice(method)) {
     const productivityByYear = buildProductivityMap(method, horizon);
     for (let year = 2; year <= horizon; year++) {
       revenueByYear[year] = productivityByYear[year] * (method.ntfpPrice || 0);
@@ -208,24 +425,25 @@ function buildRevenueMap(method: MethodCostEntry, horizon: number): Record<numbe
   }
 
   const ntfpRevenueTotal = method.ntfpRevenue || 0;
-  const ntfpRevenueYears = Math.max(1, horizon - NTFP_LAG_YEARS);
+  const ntfpRevenueYears = Math.max(1, horizon - lagYears);
   const ntfpPerYear = ntfpRevenueTotal / ntfpRevenueYears;
-  for (let year = NTFP_LAG_YEARS + 1; year <= horizon; year++) {
+  for (let year = lagYears + 1; year <= horizon; year++) {
     revenueByYear[year] = ntfpPerYear;
   }
   return revenueByYear;
 }
 
 /**
- * Build 20-year cash flow for one method.
+ * Build the cash flow for one method over the model's time horizon.
  */
 function buildCashFlows(
   method: MethodCostEntry,
   methodId: string,
   data: RestorationModel,
-  discountRate: number,
+  assumptions: CBAAssumptions,
 ): YearCashFlow[] {
-  const horizon = data.timeHorizon || 20;
+  const discountRate = assumptions.defaultDiscountRate / 100;
+  const horizon = resolveHorizon(data.timeHorizon);
   const maintYears = horizon - 1;
   const flows: YearCashFlow[] = [];
 
@@ -242,18 +460,39 @@ function buildCashFlows(
 
   // Fire: spread evenly over horizon
   const firePerYear = fireTotal / horizon;
-  // Fencing: 70% in year 0, 30% spread over remaining years
-  const fenceYear0 = fenceTotal * 0.7;
-  const fencePerYearMaint = (fenceTotal * 0.3) / Math.max(1, maintYears);
+  // Fencing: upfront share in year 0, remainder spread over remaining years
+  const fenceUpfront = assumptions.fencingUpfrontShare / 100;
+  const fenceYear0 = fenceTotal * fenceUpfront;
+  const fencePerYearMaint = (fenceTotal * (1 - fenceUpfront)) / Math.max(1, maintYears);
   // Weed: spread evenly over horizon
   const weedPerYear = weedTotal / horizon;
   // Pest control: spread evenly over horizon
   const pestPerYear = pestTotal / horizon;
 
+  // Interaction adjustment: the gap between the declared unfavorable cost and
+  // the additive estimate, spread in proportion to each year's computed cost.
+  const { adjustment } = computeInteractionAdjustment(method, ctx);
+  let additiveTotal = implCostTotal + fireTotal + fenceTotal + weedTotal + pestTotal;
+  for (let year = 2; year <= horizon; year++) additiveTotal += maintenanceByYear[year] || 0;
+  const adjustmentRate = additiveTotal > 0 ? adjustment / additiveTotal : 0;
+
+  // Land opportunity cost: not part of the additive estimate above
+  const landLease = data.laborBreakdown?.landLeaseCostPerHaPerYear || 0;
+
+  // Labor and machinery in the costs: factor share of each cost line;
+  // non-hired labor: labor in the costs × the phase's non-hired share
+  const factorShare = (factor: keyof FactorShares) => (s?: Partial<FactorShares>) => (Number(s?.[factor]) || 0) / 100;
+  const laborShare = factorShare("labor");
+  const machineryShare = factorShare("machinery");
+  const implFamilyShare = (Number(data.laborBreakdown?.implementation?.familyLabor) || 0) / 100;
+  const maintFamilyShare = (Number(data.laborBreakdown?.maintenance?.familyLabor) || 0) / 100;
+  const shadowFactor = assumptions.familyLaborShadowWage / 100;
+
   // --- BENEFITS ---
   const isNtfp = methodId.endsWith("_ntfp");
   const productivityByYear = isNtfp ? buildProductivityMap(method, horizon) : createYearMap(horizon);
-  const revenueByYear = isNtfp ? buildRevenueMap(method, horizon) : createYearMap(horizon);
+  const revenueByYear = isNtfp ? buildRevenueMap(method, horizon, assumptions.ntfpLagYears) : createYearMap(horizon);
+  const carbonByYear = buildCarbonSeries(data.ecosystem ?? "", methodId, horizon, assumptions.carbonFallbackRate);
 
   let cumNet = 0;
   let cumDiscNet = 0;
@@ -264,17 +503,39 @@ function buildCashFlows(
     const yearNumber = t + 1;
     const maintCost = t > 0 ? maintenanceByYear[yearNumber] || 0 : 0;
 
-    const constraintCost =
-      (isImpl ? fenceYear0 : fencePerYearMaint) + firePerYear + weedPerYear + pestPerYear;
+    const fenceCost = isImpl ? fenceYear0 : fencePerYearMaint;
+    const constraintCost = fenceCost + firePerYear + weedPerYear + pestPerYear;
+
+    const adjustmentCost = (implCost + maintCost + constraintCost) * adjustmentRate;
+
+    const landCost = landCostAt(t, landLease, assumptions);
 
-    const totalCost = implCost + maintCost + constraintCost;
+    const inCosts = (share: (s?: Partial<FactorShares>) => number) =>
+      implCost * share(method.implementationDistribution) +
+      maintCost * share(method.maintenanceDistribution) +
+      fenceCost * share(ctx?.grazingPressure?.distribution) +
+      firePerYear * share(ctx?.fireRisk?.distribution) +
+      weedPerYear * share(ctx?.invasiveSpeciesPressure?.distribution) +
+      pestPerYear * share(ctx?.pestControl?.distribution);
+    const laborInCosts = inCosts(laborShare);
+    const machineryInCosts = inCosts(machineryShare);
+    const familyLaborCost = laborInCosts * (isImpl ? implFamilyShare : maintFamilyShare);
+    const shadowLaborAdjustment = familyLaborCost * (shadowFactor - 1);
+
+    const totalCost = implCost + maintCost + constraintCost + adjustmentCost + landCost + shadowLaborAdjustment;
+    const financialCost = implCost + maintCost + constraintCost + adjustmentCost - familyLaborCost;
 
     const ntfpProductivity = isNtfp ? productivityByYear[yearNumber] || 0 : 0;
     const ntfpRev = isNtfp ? revenueByYear[yearNumber] || 0 : 0;
 
-    // Carbon benefit disabled
-    const totalBenefit = ntfpRev;
+    const carbonSequestration = carbonByYear[t] || 0;
+    const carbonCredits = carbonSequestration * (1 - assumptions.carbonBufferShare / 100);
+    const carbonPrice = carbonPriceAt(t, assumptions);
+    const carbonBenefit = carbonCredits * carbonPrice;
+
+    const totalBenefit = ntfpRev + carbonBenefit;
     const netFlow = totalBenefit - totalCost;
+    const financialNetFlow = totalBenefit - financialCost;
     cumNet += netFlow;
 
     const discFactor = Math.pow(1 + discountRate, t);
@@ -287,15 +548,26 @@ function buildCashFlows(
       implCost,
       maintCost,
       constraintCost,
+      adjustmentCost,
+      landCost,
+      laborCost: laborInCosts,
+      machineryCost: machineryInCosts,
+      familyLaborCost,
+      shadowLaborAdjustment,
       totalCost,
       ntfpProductivity,
       ntfpRevenue: ntfpRev,
-      carbonBenefit: 0,
+      carbonSequestration,
+      carbonCredits,
+      carbonPrice,
+      carbonBenefit,
       totalBenefit,
       netFlow,
       cumulativeNet: cumNet,
       discountedNet: discNet,
       cumulativeDiscountedNet: cumDiscNet,
+      financialCost,
+      financialNetFlow,
     });
   }
 
@@ -304,32 +576,37 @@ function buildCashFlows(
 
 /**
  * Compute full CBA for one method.
+ * `assumptions` defaults to the model's own (resolved) assumptions.
  */
 export function computeMethodCBA(
   methodId: string,
   method: MethodCostEntry,
   data: RestorationModel,
+  assumptions: CBAAssumptions = resolveAssumptions(data.assumptions),
 ): MethodCBA {
-  const cashFlows = buildCashFlows(method, methodId, data, DEFAULT_DISCOUNT_RATE);
+  const cashFlows = buildCashFlows(method, methodId, data, assumptions);
   const isNtfp = methodId.endsWith("_ntfp");
+  const discountRate = assumptions.defaultDiscountRate / 100;
 
-  const npvByRate = DISCOUNT_RATES.map((rate) => ({
-    rate,
-    npv: computeNPV(cashFlows, rate),
+  const npvByRate = assumptions.discountRates.map((pct) => ({
+    rate: pct / 100,
+    npv: computeNPV(cashFlows, pct / 100),
   }));
 
   const irr = computeIRR(cashFlows);
 
-  const totalCosts = cashFlows.reduce((s, cf) => s + cf.totalCost / Math.pow(1 + DEFAULT_DISCOUNT_RATE, cf.year), 0);
-  const totalBenefits = cashFlows.reduce((s, cf) => s + cf.totalBenefit / Math.pow(1 + DEFAULT_DISCOUNT_RATE, cf.year), 0);
+  const totalCosts = cashFlows.reduce((s, cf) => s + cf.totalCost / Math.pow(1 + discountRate, cf.year), 0);
+  const totalBenefits = cashFlows.reduce((s, cf) => s + cf.totalBenefit / Math.pow(1 + discountRate, cf.year), 0);
   const bcr = totalCosts > 0 ? totalBenefits / totalCosts : 0;
+  const financialCosts = cashFlows.reduce((s, cf) => s + cf.financialCost / Math.pow(1 + discountRate, cf.year), 0);
 
   // Payback: first year where cumulative discounted net >= 0
   const paybackYear = cashFlows.find((cf) => cf.cumulativeDiscountedNet >= 0)?.projectYear ?? null;
 
-  const carbonSeqRate = getCarbon(data.ecosystem) * (METHOD_CARBON_MULT[methodId] || 0.75);
+  const totalCarbonSeq = cashFlows.reduce((s, cf) => s + cf.carbonSequestration, 0);
+  const carbonSeqRate = cashFlows.length > 0 ? totalCarbonSeq / cashFlows.length : 0;
   const totalCarbonPV = cashFlows.reduce(
-    (s, cf) => s + cf.carbonBenefit / CARBON_PRICE / Math.pow(1 + DEFAULT_DISCOUNT_RATE, cf.year),
+    (s, cf) => s + cf.carbonSequestration / Math.pow(1 + discountRate, cf.year),
     0,
   );
   const costPerTCO2 = totalCarbonPV > 0 ? totalCosts / totalCarbonPV : null;
@@ -343,15 +620,27 @@ export function computeMethodCBA(
     irr,
     bcr,
     paybackYear,
-    totalCosts20yr: cashFlows.reduce((s, cf) => s + cf.totalCost, 0),
-    totalBenefits20yr: cashFlows.reduce((s, cf) => s + cf.totalBenefit, 0),
+    horizon: cashFlows.length,
+    interactionAdjustment: cashFlows.reduce((s, cf) => s + cf.adjustmentCost, 0),
+    totalCostsUndiscounted: cashFlows.reduce((s, cf) => s + cf.totalCost, 0),
+    totalBenefitsUndiscounted: cashFlows.reduce((s, cf) => s + cf.totalBenefit, 0),
+    discountRate,
+    npv: computeNPV(cashFlows, discountRate),
+    financialNpv: computeNPV(cashFlows, discountRate, financialNet),
+    financialIrr: computeIRR(cashFlows, financialNet),
+    financialBcr: financialCosts > 0 ? totalBenefits / financialCosts : 0,
+    totalLandCost: cashFlows.reduce((s, cf) => s + cf.landCost, 0),
+    totalFamilyLaborCost: cashFlows.reduce((s, cf) => s + cf.familyLaborCost, 0),
     carbonSeqRate,
+    totalCarbonSeq,
+    totalCarbonCredits: cashFlows.reduce((s, cf) => s + cf.carbonCredits, 0),
+    totalCarbonRevenue: cashFlows.reduce((s, cf) => s + cf.carbonBenefit, 0),
     costPerTCO2,
   };
 }
 
 // ---------------------------------------------------------------------------
-// Excel export
+// Method keys
 // ---------------------------------------------------------------------------
 
 export const METHOD_KEYS: MethodType[] = [
@@ -359,181 +648,3 @@ export const METHOD_KEYS: MethodType[] = [
   "seed_dispersal", "seed_dispersal_ntfp",
   "seedling_planting", "seedling_planting_ntfp",
 ];
-
-function fmt(n: number): string {
-  return Number(n.toFixed(2)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-}
-
-/** Sanitize string for use as Excel sheet name (max 31 chars, no \/?*[]) */
-function safeSheetName(name: string): string {
-  return name.replace(/[\\\/?*\[\]]/g, "-").substring(0, 31);
-}
-
-/**
- * Export full CBA as multi-sheet Excel workbook.
- */
-export function exportCBAToXlsx(data: RestorationModel, filename: string): void {
-  const disabled = new Set(data.disabledMethods ?? []);
-  const answered = METHOD_KEYS.filter((mk) => !disabled.has(mk));
-
-  if (answered.length === 0) return;
-
-  const results = answered.map((mk) => {
-    const method = data.methodCosts?.[mk];
-    if (!method) return null;
-    return computeMethodCBA(mk, method, data);
-  }).filter(Boolean) as MethodCBA[];
-
-  const wb = XLSX.utils.book_new();
-
-  // ── Sheet 1: Parameters ──────────────────────────────────────────────
-  const paramRows = [
-    ["COST-BENEFIT ANALYSIS — KEY PARAMETERS", ""],
-    ["", ""],
-    ["Respondent", data.respondentName ?? ""],
-    ["User", data.userName ?? ""],
-    ["Date", data.dataCollectionDate ?? ""],
-    ["Ecosystem", data.ecosystem ?? ""],
-    ["Country", data.country ?? ""],
-    ["City", data.city ?? ""],
-    ["Time Horizon (years)", data.timeHorizon ?? 20],
-    ["", ""],
-    ["EXTERNAL ASSUMPTIONS", ""],
-    ["Default Discount Rate", `${(DEFAULT_DISCOUNT_RATE * 100).toFixed(0)}%`],
-    ["Carbon Price (US$/tCO2)", CARBON_PRICE],
-    ["Carbon Seq. Rate (tCO2/ha/yr)", getCarbon(data.ecosystem)],
-    ["NTFP Maturation Lag (years)", NTFP_LAG_YEARS],
-    ["", ""],
-    ["CONTEXT CONSTRAINTS", "Unit Cost", "Occurrences / Area", "Total Cost"],
-    [
-      "Firebreak / Fire Risk",
-      data.contextVariables?.fireRisk?.cost ?? 0,
-      data.contextVariables?.fireRisk?.occurrences ?? 0,
-      (data.contextVariables?.fireRisk?.cost ?? 0) * (data.contextVariables?.fireRisk?.occurrences ?? 0),
-    ],
-    [
-      "Fencing / Grazing Pressure",
-      data.contextVariables?.grazingPressure?.cost ?? 0,
-      data.contextVariables?.grazingPressure?.occurrences ?? 0,
-      (data.contextVariables?.grazingPressure?.cost ?? 0) * (data.contextVariables?.grazingPressure?.occurrences ?? 0),
-    ],
-    [
-      "Weed Control / Invasive Species",
-      data.contextVariables?.invasiveSpeciesPressure?.cost ?? 0,
-      data.contextVariables?.invasiveSpeciesPressure?.occurrences ?? 0,
-      (data.contextVariables?.invasiveSpeciesPressure?.cost ?? 0) * (data.contextVariables?.invasiveSpeciesPressure?.occurrences ?? 0),
-    ],
-    [
-      "Pest Control / Pest Infestation",
-      data.contextVariables?.pestControl?.cost ?? 0,
-      data.contextVariables?.pestControl?.occurrences ?? 0,
-      (data.contextVariables?.pestControl?.cost ?? 0) * (data.contextVariables?.pestControl?.occurrences ?? 0),
-    ],
-  ];
-  const wsParams = XLSX.utils.aoa_to_sheet(paramRows);
-  wsParams["!cols"] = [{ wch: 35 }, { wch: 18 }, { wch: 18 }, { wch: 18 }];
-  XLSX.utils.book_append_sheet(wb, wsParams, "Parameters");
-
-  // ── Sheet 2: Summary (all methods compared) ──────────────────────────
-  const summaryHeaders = [
-    "Method",
-    "Impl. Cost (US$/ha)",
-    "Maint. Cost (US$/ha)",
-    "Total Cost 20yr (US$/ha)",
-    "NTFP Revenue 20yr (US$/ha)",
-    "Carbon Benefit 20yr (US$/ha)",
-    "Total Benefits 20yr (US$/ha)",
-    `NPV @${(DEFAULT_DISCOUNT_RATE * 100).toFixed(0)}% (US$/ha)`,
-    "IRR",
-    "BCR",
-    "Payback (year)",
-    "Carbon Seq. (tCO2/ha/yr)",
-    "Cost per tCO2 (US$)",
-    ...DISCOUNT_RATES.map((r) => `NPV @${(r * 100).toFixed(0)}%`),
-  ];
-
-  const summaryRows = results.map((r) => [
-    r.methodLabel,
-    fmt(r.cashFlows[0]?.implCost ?? 0),
-    fmt(r.totalCosts20yr - (r.cashFlows[0]?.implCost ?? 0)),
-    fmt(r.totalCosts20yr),
-    fmt(r.cashFlows.reduce((s, cf) => s + cf.ntfpRevenue, 0)),
-    fmt(r.cashFlows.reduce((s, cf) => s + cf.carbonBenefit, 0)),
-    fmt(r.totalBenefits20yr),
-    fmt(r.npvByRate.find((n) => n.rate === DEFAULT_DISCOUNT_RATE)?.npv ?? 0),
-    r.irr !== null ? `${(r.irr * 100).toFixed(1)}%` : "N/A",
-    r.bcr.toFixed(2),
-    r.paybackYear !== null ? `Year ${r.paybackYear}` : "N/A",
-    r.carbonSeqRate.toFixed(1),
-    r.costPerTCO2 !== null ? fmt(r.costPerTCO2) : "N/A",
-    ...r.npvByRate.map((n) => fmt(n.npv)),
-  ]);
-
-  const wsSummary = XLSX.utils.aoa_to_sheet([summaryHeaders, ...summaryRows]);
-  wsSummary["!cols"] = summaryHeaders.map(() => ({ wch: 22 }));
-  XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
-
-  // ── Sheet 3+: Cash Flow per method ───────────────────────────────────
-  for (const r of results) {
-    const cfHeaders = [
-      "Discount Period",
-      "Project Year",
-      "Implementation Cost",
-      "Maintenance Cost",
-      "Constraint Cost",
-      "Total Cost",
-      "NTFP Productivity",
-      "NTFP Revenue",
-      "Carbon Benefit",
-      "Total Benefits",
-      "Net Cash Flow",
-      "Cumulative Net",
-      "Discounted Net Flow",
-      "Cumulative Discounted",
-    ];
-
-    const cfRows = r.cashFlows.map((cf) => [
-      cf.year,
-      cf.projectYear,
-      fmt(cf.implCost),
-      fmt(cf.maintCost),
-      fmt(cf.constraintCost),
-      fmt(cf.totalCost),
-      fmt(cf.ntfpProductivity),
-      fmt(cf.ntfpRevenue),
-      fmt(cf.carbonBenefit),
-      fmt(cf.totalBenefit),
-      fmt(cf.netFlow),
-      fmt(cf.cumulativeNet),
-      fmt(cf.discountedNet),
-      fmt(cf.cumulativeDiscountedNet),
-    ]);
-
-    // Add summary row at bottom
-    cfRows.push([]);
-    cfRows.push(["KEY INDICATORS", ""]);
-    cfRows.push(["NPV (6%)", fmt(r.npvByRate.find((n) => n.rate === DEFAULT_DISCOUNT_RATE)?.npv ?? 0)]);
-    cfRows.push(["IRR", r.irr !== null ? `${(r.irr * 100).toFixed(1)}%` : "N/A"]);
-    cfRows.push(["BCR", r.bcr.toFixed(2)]);
-    cfRows.push(["Payback Year", r.paybackYear !== null ? r.paybackYear : "N/A"]);
-    cfRows.push(["Cost per tCO2", r.costPerTCO2 !== null ? fmt(r.costPerTCO2) : "N/A"]);
-
-    const wsCF = XLSX.utils.aoa_to_sheet([cfHeaders, ...cfRows]);
-    wsCF["!cols"] = cfHeaders.map(() => ({ wch: 20 }));
-
-    const sheetName = safeSheetName(r.methodLabel);
-    XLSX.utils.book_append_sheet(wb, wsCF, sheetName);
-  }
-
-  // ── Sheet: NPV Sensitivity ──────────────────────────────────────────
-  const sensHeaders = ["Method", ...DISCOUNT_RATES.map((r) => `NPV @${(r * 100).toFixed(0)}%`)];
-  const sensRows = results.map((r) => [
-    r.methodLabel,
-    ...r.npvByRate.map((n) => fmt(n.npv)),
-  ]);
-  const wsSens = XLSX.utils.aoa_to_sheet([sensHeaders, ...sensRows]);
-  wsSens["!cols"] = sensHeaders.map(() => ({ wch: 22 }));
-  XLSX.utils.book_append_sheet(wb, wsSens, "NPV Sensitivity");
-
-  XLSX.writeFile(wb, filename);
-}
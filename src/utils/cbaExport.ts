@@ -0,0 +1,669 @@
+/**
+ * CBA Excel export.
+ *
+ * Builds the multi-sheet CBA workbook (Parameters, Summary, one cash-flow
+ * sheet per method, NPV Sensitivity, one-way Sensitivity, Employment,
+ * Machinery and, when any input carries a distribution, Simulation) from the
+ * engine in ./cba, the regional comparison workbook (original vs re-priced
+ * CBA) and the project workbook (planting schedule rolled up to project
+ * totals, see ./project).
+ */
+
+import type { RestorationModel, MethodType, CBAAssumptions, PriceIndexEntry } from "../types";
+import {
+  computeMethodCBA,
+  resolveAssumptions,
+  getCarbon,
+  describeCarbonCurve,
+  METHOD_KEYS,
+  type MethodCBA,
+} from "./cba";
+import { resolveHorizon } from "./computations";
+import { repriceModel, repricingFactor } from "./priceIndex";
+import { toUSD } from "./currency";
+import { t, translateMessage } from "./i18n";
+import { computeTornado } from "./sensitivity";
+import { runSimulation, hasDistributions, type SimulationResult } from "./simulation";
+import { computeEmployment, type MethodEmployment } from "./employment";
+import { computeMachinery, machineryRate, machineryHoursByYear, type MethodMachinery } from "./machinery";
+import { computeProjectCBA, resolveProjectScenario, constraintRampFactor } from "./project";
+import { FTE_DAYS_PER_YEAR } from "../constants";
+import * as XLSX from "xlsx";
+
+function fmt(n: number): string {
+  return Number(n.toFixed(2)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Sanitize string for use as Excel sheet name (max 31 chars, no \/?*[]) */
+function safeSheetName(name: string): string {
+  return name.replace(/[\\\/?*\[\]]/g, "-").substring(0, 31);
+}
+
+/** CBA results for every answered (non-disabled) method. */
+function computeAnsweredCBA(data: RestorationModel, assumptions: CBAAssumptions): MethodCBA[] {
+  const disabled = new Set(data.disabledMethods ?? []);
+  return METHOD_KEYS
+    .filter((mk) => !disabled.has(mk))
+    .map((mk) => {
+      const method = data.methodCosts?.[mk];
+      if (!method) return null;
+      return computeMethodCBA(mk, method, data, assumptions);
+    })
+    .filter(Boolean) as MethodCBA[];
+}
+
+/** "Summary" sheet: one row per method with totals and headline indicators. */
+function buildSummarySheet(results: MethodCBA[], assumptions: CBAAssumptions, horizon: number): XLSX.WorkSheet {
+  const defaultRateLabel = `${assumptions.defaultDiscountRate}%`;
+  const horizonLabel = `${horizon}yr`;
+  const summaryHeaders = [
+    t("Method"),
+    t("Impl. Cost (US$/ha)"),
+    t("Maint. Cost (US$/ha)"),
+    t("Land Opportunity Cost {horizon} (US$/ha)", { horizon: horizonLabel }),
+    t("Total Cost {horizon} (US$/ha)", { horizon: horizonLabel }),
+    t("NTFP Revenue {horizon} (US$/ha)", { horizon: horizonLabel }),
+    t("Carbon Benefit {horizon} (US$/ha)", { horizon: horizonLabel }),
+    t("Carbon Sequestered {horizon} (tCO2/ha)", { horizon: horizonLabel }),
+    t("Carbon Credits {horizon} (tCO2/ha)", { horizon: horizonLabel }),
+    t("Total Benefits {horizon} (US$/ha)", { horizon: horizonLabel }),
+    t("NPV @{rate} (US$/ha)", { rate: defaultRateLabel }),
+    t("IRR"),
+    t("BCR"),
+    t("Payback (year)"),
+    t("Carbon Seq. (tCO2/ha/yr)"),
+    t("Cost per tCO2 (US$)"),
+    t("Financial NPV @{rate} (US$/ha)", { rate: defaultRateLabel }),
+    t("Financial IRR"),
+    t("Financial BCR"),
+    t("Non-Hired Labor {horizon} (US$/ha)", { horizon: horizonLabel }),
+    ...assumptions.discountRates.map((r) => t("NPV @{rate}", { rate: `${r}%` })),
+  ];
+
+  const summaryRows = results.map((r) => [
+    r.methodLabel,
+    fmt(r.cashFlows[0]?.implCost ?? 0),
+    fmt(r.cashFlows.reduce((s, cf) => s + cf.maintCost + cf.constraintCost + cf.adjustmentCost, 0)),
+    fmt(r.totalLandCost),
+    fmt(r.totalCostsUndiscounted),
+    fmt(r.cashFlows.reduce((s, cf) => s + cf.ntfpRevenue, 0)),
+    fmt(r.totalCarbonRevenue),
+    fmt(r.totalCarbonSeq),
+    fmt(r.totalCarbonCredits),
+    fmt(r.totalBenefitsUndiscounted),
+    fmt(r.npv),
+    r.irr !== null ? `${(r.irr * 100).toFixed(1)}%` : t("N/A"),
+    r.bcr.toFixed(2),
+    r.paybackYear !== null ? t("Year {year}", { year: r.paybackYear }) : t("N/A"),
+    r.carbonSeqRate.toFixed(1),
+    r.costPerTCO2 !== null ? fmt(r.costPerTCO2) : t("N/A"),
+    fmt(r.financialNpv),
+    r.financialIrr !== null ? `${(r.financialIrr * 100).toFixed(1)}%` : t("N/A"),
+    r.financialBcr.toFixed(2),
+    fmt(r.totalFamilyLaborCost),
+    ...r.npvByRate.map((n) => fmt(n.npv)),
+  ]);
+
+  const wsSummary = XLSX.utils.aoa_to_sheet([summaryHeaders, ...summaryRows]);
+  wsSummary["!cols"] = summaryHeaders.map(() => ({ wch: 22 }));
+  return wsSummary;
+}
+
+/**
+ * "Employment" sheet: per-method totals (person-days, hired / non-hired,
+ * by gender, FTE jobs per 1,000 ha), then person-days by year. Labels
+ * follow the active language.
+ */
+function buildEmploymentSheet(employment: MethodEmployment[]): XLSX.WorkSheet {
+  const summaryHeaders = [
+    t("Method"),
+    t("Person-Days (days/ha)"),
+    t("Hired (days/ha)"),
+    t("Non-Hired (days/ha)"),
+    t("Male (days/ha)"),
+    t("Female (days/ha)"),
+    t("Others (days/ha)"),
+    t("Implementation (days/ha)"),
+    t("Maintenance (days/ha)"),
+    t("FTE per 1,000 ha — Year 1"),
+    t("FTE per 1,000 ha — Maintenance (mean)"),
+    t("FTE per 1,000 ha — Horizon (mean)"),
+  ];
+  const summaryRows = employment.map((e) => [
+    e.methodLabel,
+    fmt(e.totalDays),
+    fmt(e.hiredDays),
+    fmt(e.nonHiredDays),
+    fmt(e.daysByGender.male),
+    fmt(e.daysByGender.female),
+    fmt(e.daysByGender.other),
+    fmt(e.implementationDays),
+    fmt(e.maintenanceDays),
+    fmt(e.implementationFtePer1000Ha),
+    fmt(e.maintenanceFtePer1000Ha),
+    fmt(e.averageFtePer1000Ha),
+  ]);
+
+  const yearHeaders = [
+    t("Method"), t("Project Year"), t("Phase"),
+    t("Person-Days (days/ha)"), t("Hired (days/ha)"), t("Non-Hired (days/ha)"), t("FTE per 1,000 ha"),
+  ];
+  const yearRows = employment.flatMap((e) =>
+    e.years.map((y) => [
+      e.methodLabel,
+      y.projectYear,
+      t(y.phase === "implementation" ? "Implementation" : "Maintenance"),
+      fmt(y.laborDays),
+      fmt(y.hiredDays),
+      fmt(y.nonHiredDays),
+      fmt(y.ftePer1000Ha),
+    ]),
+  );
+
+  const ws = XLSX.utils.aoa_to_sheet([
+    [t("EMPLOYMENT — labor in the costs ÷ hired labor rate; 1 FTE = {days} days/year", { days: FTE_DAYS_PER_YEAR })],
+    [],
+    summaryHeaders,
+    ...summaryRows,
+    [],
+    [t("PERSON-DAYS BY YEAR")],
+    yearHeaders,
+    ...yearRows,
+  ]);
+  ws["!cols"] = summaryHeaders.map((_, i) => ({ wch: i === 0 ? 32 : 18 }));
+  return ws;
+}
+
+/**
+ * "Machinery" sheet: per-method machinery hours by cost line with the
+ * plausibility limit, then hours by year (one column per method).
+ */
+function buildMachinerySheet(machinery: MethodMachinery[], results: MethodCBA[], rate: number): XLSX.WorkSheet {
+  const lineLabels = machinery[0]?.lines.map((l) => `${t(l.label)} (h/ha)`) ?? [];
+  const summaryHeaders = [
+    t("Method"),
+    ...lineLabels,
+    t("Total (h/ha)"),
+    t("Busiest Maintenance Year"),
+    t("Maintenance in Busiest Year (h/ha)"),
+    t("Plausible Max per Year (h/ha)"),
+  ];
+  const summaryRows = machinery.map((m) => [
+    m.methodLabel,
+    ...m.lines.map((l) => fmt(l.hours)),
+    fmt(m.totalHours),
+    m.peakMaintenanceYear ?? "—",
+    fmt(m.peakMaintenanceHours),
+    m.maxHoursPerHa,
+  ]);
+
+  const byYear = results.map((r) => machineryHoursByYear(r.cashFlows, rate));
+  const yearRows = (results[0]?.cashFlows ?? []).map((cf, i) => [cf.projectYear, ...byYear.map((hours) => fmt(hours[i] ?? 0))]);
+
+  const ws = XLSX.utils.aoa_to_sheet([
+    [t("MACHINERY HOURS — machinery share of each cost ÷ machinery unit cost ({rate} US$/hour)", { rate: fmt(rate) })],
+    [],
+    summaryHeaders,
+    ...summaryRows,
+    [],
+    [t("MACHINERY HOURS BY YEAR (h/ha)")],
+    [t("Project Year"), ...results.map((r) => r.methodLabel)],
+    ...yearRows,
+  ]);
+  ws["!cols"] = summaryHeaders.map((_, i) => ({ wch: i === 0 ? 32 : 18 }));
+  return ws;
+}
+
+/**
+ * Export full CBA as multi-sheet Excel workbook (amounts in US$). Sheet
+ * names stay in English; labels follow the active language.
+ */
+export function exportCBAToXlsx(entered: RestorationModel, filename: string): void {
+  const data = toUSD(entered);
+  const assumptions = resolveAssumptions(data.assumptions);
+  const defaultRateLabel = `${assumptions.defaultDiscountRate}%`;
+  const horizon = resolveHorizon(data.timeHorizon);
+
+  const results = computeAnsweredCBA(data, assumptions);
+  if (results.length === 0) return;
+
+  const wb = XLSX.utils.book_new();
+
+  // ── Sheet 1: Parameters ──────────────────────────────────────────────
+  const paramRows = [
+    [t("COST-BENEFIT ANALYSIS — KEY PARAMETERS"), ""],
+    ["", ""],
+    [t("Respondent"), data.respondentName ?? ""],
+    [t("User"), data.userName ?? ""],
+    [t("Date"), data.dataCollectionDate ?? ""],
+    [t("Ecosystem"), data.ecosystem ?? ""],
+    [t("Country"), data.country ?? ""],
+    [t("City"), data.city ?? ""],
+    [t("Time Horizon (years)"), horizon],
+    ["", ""],
+    [t("EXTERNAL ASSUMPTIONS"), ""],
+    [t("Default Discount Rate"), defaultRateLabel],
+    [t("Sensitivity Discount Rates"), assumptions.discountRates.map((r) => `${r}%`).join(", ")],
+    [t("Carbon Price (US$/tCO2)"), assumptions.carbonPrice],
+    [t("Carbon Price Escalation (%/yr)"), assumptions.carbonPriceEscalation],
+    [t("Carbon Buffer Pool (%)"), assumptions.carbonBufferShare],
+    [t("Carbon Seq. Rate (tCO2/ha/yr)"), getCarbon(data.ecosystem, assumptions.carbonFallbackRate)],
+    [t("Carbon Fallback Rate (tCO2/ha/yr)"), assumptions.carbonFallbackRate],
+    [t("Carbon Growth Curve"), describeCarbonCurve(data.ecosystem)],
+    [t("NTFP Maturation Lag (years)"), assumptions.ntfpLagYears],
+    [t("Fencing Upfront Share (%)"), assumptions.fencingUpfrontShare],
+    [t("Land Opportunity Cost"), t(assumptions.landOpportunityCost ? "Charged" : "Not charged")],
+    [t("Land Lease (US$/ha/yr)"), data.laborBreakdown?.landLeaseCostPerHaPerYear ?? 0],
+    [t("Land Cost Starts"), t(assumptions.landCostStart === "afterImplementation" ? "After implementation (year 2)" : "Year 1")],
+    [t("Land Cost Escalation (%/yr)"), assumptions.landCostEscalation],
+    [t("Non-Hired Labor Shadow Wage (% of hired rate)"), assumptions.familyLaborShadowWage],
+    [t("Hired Labor Rate (US$/day)"), data.laborBreakdown?.hiredLaborCostPerDay ?? 0],
+    [t("Machinery Unit Cost (US$/hour)"), data.laborBreakdown?.machineryUnitCostPerHour ?? 0],
+    [t("Tornado Sensitivity Flex (±%)"), assumptions.sensitivityFlexPct],
+    ["", ""],
+    [t("CONTEXT CONSTRAINTS"), t("Unit Cost"), t("Occurrences / Area"), t("Total Cost")],
+    [
+      t("Firebreak / Fire Risk"),
+      data.contextVariables?.fireRisk?.cost ?? 0,
+      data.contextVariables?.fireRisk?.occurrences ?? 0,
+      (data.contextVariables?.fireRisk?.cost ?? 0) * (data.contextVariables?.fireRisk?.occurrences ?? 0),
+    ],
+    [
+      t("Fencing / Grazing Pressure"),
+      data.contextVariables?.grazingPressure?.cost ?? 0,
+      data.contextVariables?.grazingPressure?.occurrences ?? 0,
+      (data.contextVariables?.grazingPressure?.cost ?? 0) * (data.contextVariables?.grazingPressure?.occurrences ?? 0),
+    ],
+    [
+      t("Weed Control / Invasive Species"),
+      data.contextVariables?.invasiveSpeciesPressure?.cost ?? 0,
+      data.contextVariables?.invasiveSpeciesPressure?.occurrences ?? 0,
+      (data.contextVariables?.invasiveSpeciesPressure?.cost ?? 0) * (data.contextVariables?.invasiveSpeciesPressure?.occurrences ?? 0),
+    ],
+    [
+      t("Pest Control / Pest Infestation"),
+      data.contextVariables?.pestControl?.cost ?? 0,
+      data.contextVariables?.pestControl?.occurrences ?? 0,
+      (data.contextVariables?.pestControl?.cost ?? 0) * (data.contextVariables?.pestControl?.occurrences ?? 0),
+    ],
+  ];
+  const wsParams = XLSX.utils.aoa_to_sheet(paramRows);
+  wsParams["!cols"] = [{ wch: 35 }, { wch: 18 }, { wch: 18 }, { wch: 18 }];
+  XLSX.utils.book_append_sheet(wb, wsParams, "Parameters");
+
+  // ── Sheet 2: Summary (all methods compared) ──────────────────────────
+  const wsSummary = buildSummarySheet(results, assumptions, horizon);
+  XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
+
+  // ── Sheet 3+: Cash Flow per method ───────────────────────────────────
+  const rate = machineryRate(data);
+  for (const r of results) {
+    const machineryHours = machineryHoursByYear(r.cashFlows, rate);
+    const cfHeaders = [
+      t("Discount Period"),
+      t("Project Year"),
+      t("Implementation Cost"),
+      t("Maintenance Cost"),
+      t("Constraint Cost"),
+      t("Interaction Adjustment"),
+      t("Land Opportunity Cost"),
+      t("Non-Hired Labor (as entered)"),
+      t("Shadow Labor Adjustment"),
+      t("Total Cost (economic)"),
+      t("NTFP Productivity"),
+      t("NTFP Revenue"),
+      t("Carbon Sequestration (tCO2)"),
+      t("Carbon Credits (tCO2)"),
+      t("Carbon Price (US$/tCO2)"),
+      t("Carbon Benefit"),
+      t("Total Benefits"),
+      t("Net Cash Flow"),
+      t("Cumulative Net"),
+      t("Discounted Net Flow"),
+      t("Cumulative Discounted"),
+      t("Financial Cost (cash outlays)"),
+      t("Financial Net Flow"),
+      t("Machinery Hours (h/ha)"),
+    ];
+
+    const cfRows = r.cashFlows.map((cf) => [
+      cf.year,
+      cf.projectYear,
+      fmt(cf.implCost),
+      fmt(cf.maintCost),
+      fmt(cf.constraintCost),
+      fmt(cf.adjustmentCost),
+      fmt(cf.landCost),
+      fmt(cf.familyLaborCost),
+      fmt(cf.shadowLaborAdjustment),
+      fmt(cf.totalCost),
+      fmt(cf.ntfpProductivity),
+      fmt(cf.ntfpRevenue),
+      fmt(cf.carbonSequestration),
+      fmt(cf.carbonCredits),
+      fmt(cf.carbonPrice),
+      fmt(cf.carbonBenefit),
+      fmt(cf.totalBenefit),
+      fmt(cf.netFlow),
+      fmt(cf.cumulativeNet),
+      fmt(cf.discountedNet),
+      fmt(cf.cumulativeDiscountedNet),
+      fmt(cf.financialCost),
+      fmt(cf.financialNetFlow),
+      fmt(machineryHours[cf.year] ?? 0),
+    ]);
+
+    // Add summary row at bottom
+    cfRows.push([]);
+    cfRows.push([t("KEY INDICATORS"), ""]);
+    cfRows.push([t("NPV ({rate}, economic)", { rate: defaultRateLabel }), fmt(r.npv)]);
+    cfRows.push([t("Financial NPV ({rate}, cash outlays)", { rate: defaultRateLabel }), fmt(r.financialNpv)]);
+    cfRows.push([t("Financial IRR"), r.financialIrr !== null ? `${(r.financialIrr * 100).toFixed(1)}%` : t("N/A")]);
+    cfRows.push([t("Financial BCR"), r.financialBcr.toFixed(2)]);
+    cfRows.push([t("IRR"), r.irr !== null ? `${(r.irr * 100).toFixed(1)}%` : t("N/A")]);
+    cfRows.push([t("BCR"), r.bcr.toFixed(2)]);
+    cfRows.push([t("Payback Year"), r.paybackYear !== null ? r.paybackYear : t("N/A")]);
+    cfRows.push([t("Carbon Sequestered (tCO2/ha)"), fmt(r.totalCarbonSeq)]);
+    cfRows.push([t("Carbon Revenue (US$/ha)"), fmt(r.totalCarbonRevenue)]);
+    cfRows.push([t("Cost per tCO2"), r.costPerTCO2 !== null ? fmt(r.costPerTCO2) : t("N/A")]);
+    cfRows.push([t("Interaction Adjustment (US$/ha)"), fmt(r.interactionAdjustment)]);
+    cfRows.push([t("Land Opportunity Cost (US$/ha)"), fmt(r.totalLandCost)]);
+    cfRows.push([t("Non-Hired Labor in Costs (US$/ha)"), fmt(r.totalFamilyLaborCost)]);
+    cfRows.push([t("Machinery Hours (h/ha)"), rate > 0 ? fmt(machineryHours.reduce((s, h) => s + h, 0)) : t("N/A")]);
+
+    const wsCF = XLSX.utils.aoa_to_sheet([cfHeaders, ...cfRows]);
+    wsCF["!cols"] = cfHeaders.map(() => ({ wch: 20 }));
+
+    const sheetName = safeSheetName(r.methodLabel);
+    XLSX.utils.book_append_sheet(wb, wsCF, sheetName);
+  }
+
+  // ── Sheet: NPV Sensitivity ──────────────────────────────────────────
+  const sensHeaders = [t("Method"), ...assumptions.discountRates.map((r) => t("NPV @{rate}", { rate: `${r}%` }))];
+  const sensRows = results.map((r) => [
+    r.methodLabel,
+    ...r.npvByRate.map((n) => fmt(n.npv)),
+  ]);
+  const wsSens = XLSX.utils.aoa_to_sheet([sensHeaders, ...sensRows]);
+  wsSens["!cols"] = sensHeaders.map(() => ({ wch: 22 }));
+  XLSX.utils.book_append_sheet(wb, wsSens, "NPV Sensitivity");
+
+  // ── Sheet: Sensitivity (one-way / tornado) ──────────────────────────
+  const flexLabel = `${assumptions.sensitivityFlexPct}%`;
+  const tornadoHeaders = [
+    t("Method"), t("Rank"), t("Driver"), t("Unit"), t("Base Value"),
+    t("Value −{flex}", { flex: flexLabel }), t("Value +{flex}", { flex: flexLabel }),
+    t("Base NPV"), t("NPV @ −{flex}", { flex: flexLabel }), t("NPV @ +{flex}", { flex: flexLabel }), t("NPV Swing"),
+  ];
+  const tornadoRows: (string | number)[][] = [];
+  for (const r of results) {
+    const tornado = computeTornado(r.methodId as MethodType, data, assumptions.sensitivityFlexPct);
+    tornado.drivers.forEach((d, i) => tornadoRows.push([
+      r.methodLabel, i + 1, translateMessage(d.label), d.unit,
+      fmt(d.baseValue), fmt(d.lowValue), fmt(d.highValue),
+      fmt(tornado.baseNpv), fmt(d.npvLow), fmt(d.npvHigh), fmt(d.swing),
+    ]));
+  }
+  const wsTornado = XLSX.utils.aoa_to_sheet([tornadoHeaders, ...tornadoRows]);
+  wsTornado["!cols"] = [{ wch: 32 }, { wch: 6 }, { wch: 36 }, { wch: 20 }, ...Array.from({ length: 7 }, () => ({ wch: 14 }))];
+  XLSX.utils.book_append_sheet(wb, wsTornado, "Sensitivity");
+
+  // ── Sheet: Employment ───────────────────────────────────────────────
+  const employment = results
+    .map((r) => computeEmployment(r, data))
+    .filter((e): e is MethodEmployment => e !== null);
+  if (employment.length > 0) {
+    XLSX.utils.book_append_sheet(wb, buildEmploymentSheet(employment), "Employment");
+  }
+
+  // ── Sheet: Machinery ────────────────────────────────────────────────
+  if (rate > 0) {
+    const machinery = results
+      .map((r) => computeMachinery(r.methodId as MethodType, data.methodCosts?.[r.methodId as MethodType], data))
+      .filter((m): m is MethodMachinery => m !== null);
+    XLSX.utils.book_append_sheet(wb, buildMachinerySheet(machinery, results, rate), "Machinery");
+  }
+
+  // ── Sheet: Simulation (Monte Carlo) ─────────────────────────────────
+  const simulated = results
+    .filter((r) => hasDistributions(r.methodId as MethodType, data))
+    .map((r) => ({ label: r.methodLabel, sim: runSimulation(r.methodId as MethodType, data) }));
+
+  if (simulated.length > 0) {
+    const pct = (s: SimulationResult["npv"], f: (n: number) => string) => [f(s.p10), f(s.p50), f(s.p90), f(s.mean)];
+    const irrPct = (n: number) => `${(n * 100).toFixed(2)}%`;
+    const simRows: (string | number)[][] = [
+      [t("MONTE CARLO SIMULATION"), ""],
+      [t("Iterations"), simulated[0].sim.iterations],
+      [t("Seed"), simulated[0].sim.seed],
+      [t("Discount Rate"), defaultRateLabel],
+      [],
+      [
+        t("Method"), t("Sampled Inputs"),
+        t("NPV P10"), t("NPV P50"), t("NPV P90"), t("NPV Mean"), t("P(NPV > 0)"),
+        t("IRR P10"), t("IRR P50"), t("IRR P90"), t("IRR Mean"),
+        t("BCR P10"), t("BCR P50"), t("BCR P90"), t("BCR Mean"),
+      ],
+      ...simulated.map(({ label, sim }) => [
+        label,
+        sim.sampledInputs.join(", "),
+        ...pct(sim.npv, fmt),
+        `${(sim.probNpvPositive * 100).toFixed(1)}%`,
+        ...(sim.irr ? pct(sim.irr, irrPct) : [t("N/A"), t("N/A"), t("N/A"), t("N/A")]),
+        ...pct(sim.bcr, (n) => n.toFixed(2)),
+      ]),
+      [],
+      [t("Run"), ...simulated.map(({ label }) => t("NPV — {method}", { method: label }))],
+      ...simulated[0].sim.runs.map((_, i) => [i + 1, ...simulated.map(({ sim }) => Number(sim.runs[i].npv.toFixed(2)))]),
+    ];
+    const wsSim = XLSX.utils.aoa_to_sheet(simRows);
+    wsSim["!cols"] = [{ wch: 32 }, { wch: 40 }, ...Array.from({ length: 13 }, () => ({ wch: 14 }))];
+    XLSX.utils.book_append_sheet(wb, wsSim, "Simulation");
+  }
+
+  XLSX.writeFile(wb, filename);
+}
+
+/**
+ * Export the original CBA beside the CBA re-priced for a target region:
+ * the price indices and per-row factors used, a Summary sheet for each and
+ * a method-by-method comparison. Amounts are in US$; labels follow the
+ * active language.
+ */
+export function exportRegionalCBAToXlsx(
+  entered: RestorationModel,
+  origin: PriceIndexEntry,
+  target: PriceIndexEntry,
+  filename: string,
+): void {
+  const data = toUSD(entered);
+  const assumptions = resolveAssumptions(data.assumptions);
+  const horizon = resolveHorizon(data.timeHorizon);
+  const extrapolated = repriceModel(data, origin, target);
+  const original = computeAnsweredCBA(data, assumptions);
+  const repriced = computeAnsweredCBA(extrapolated, assumptions);
+  if (original.length === 0) return;
+
+  const wb = XLSX.utils.book_new();
+
+  // ── Sheet: Price Indices ─────────────────────────────────────────────
+  const factorRow = (label: string, shares: Parameters<typeof repricingFactor>[0]) => [
+    label,
+    Number(shares?.labor) || 0,
+    Number(shares?.materials) || 0,
+    Number(shares?.machinery) || 0,
+    Number(repricingFactor(shares, origin, target).toFixed(4)),
+  ];
+  const indexRows: (string | number)[][] = [
+    [t("REGIONAL COST EXTRAPOLATION"), ""],
+    ["AdjustedCost = Σ_k (FactorShare_k × Index_k(target) / Index_k(origin)) × BaseCost", ""],
+    [],
+    [t("Region"), t("Labor Index"), t("Materials Index"), t("Machinery Index")],
+    [t("Origin: {region}", { region: origin.region }), origin.labor, origin.materials, origin.machinery],
+    [t("Target: {region}", { region: target.region }), target.labor, target.materials, target.machinery],
+    [],
+    [t("Cost Row"), t("Labor %"), t("Materials %"), t("Machinery %"), t("Cost Factor")],
+    ...original.flatMap((r) => {
+      const m = data.methodCosts[r.methodId as MethodType];
+      return [
+        factorRow(`${r.methodLabel} — ${t("Implementation")}`, m?.implementationDistribution),
+        factorRow(`${r.methodLabel} — ${t("Maintenance")}`, m?.maintenanceDistribution),
+      ];
+    }),
+    factorRow("Firebreak / Fire Risk", data.contextVariables?.fireRisk?.distribution),
+    factorRow("Fencing / Grazing Pressure", data.contextVariables?.grazingPressure?.distribution),
+    factorRow("Weed Control / Invasive Species", data.contextVariables?.invasiveSpeciesPressure?.distribution),
+    factorRow("Pest Control / Pest Infestation", data.contextVariables?.pestControl?.distribution),
+  ];
+  const wsIndex = XLSX.utils.aoa_to_sheet(indexRows);
+  wsIndex["!cols"] = [{ wch: 48 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(wb, wsIndex, "Price Indices");
+
+  // ── Sheets: Summary per region ───────────────────────────────────────
+  XLSX.utils.book_append_sheet(wb, buildSummarySheet(original, assumptions, horizon), safeSheetName(`Summary - ${origin.region}`));
+  XLSX.utils.book_append_sheet(wb, buildSummarySheet(repriced, assumptions, horizon), safeSheetName(`Summary - ${target.region}`));
+
+  // ── Sheet: Comparison ────────────────────────────────────────────────
+  const rateLabel = `${assumptions.defaultDiscountRate}%`;
+  const compHeaders = [
+    t("Method"),
+    t("Total Cost ({region})", { region: origin.region }), t("Total Cost ({region})", { region: target.region }),
+    t("NPV @{rate} ({region})", { rate: rateLabel, region: origin.region }),
+    t("NPV @{rate} ({region})", { rate: rateLabel, region: target.region }),
+    t("NPV Change"),
+    t("BCR ({region})", { region: origin.region }), t("BCR ({region})", { region: target.region }),
+    t("IRR ({region})", { region: origin.region }), t("IRR ({region})", { region: target.region }),
+  ];
+  const irr = (v: number | null) => (v !== null ? `${(v * 100).toFixed(1)}%` : t("N/A"));
+  const compRows = original.map((o) => {
+    const priced = repriced.find((r) => r.methodId === o.methodId) ?? o;
+    return [
+      o.methodLabel,
+      fmt(o.totalCostsUndiscounted), fmt(priced.totalCostsUndiscounted),
+      fmt(o.npv), fmt(priced.npv), fmt(priced.npv - o.npv),
+      o.bcr.toFixed(2), priced.bcr.toFixed(2),
+      irr(o.irr), irr(priced.irr),
+    ];
+  });
+  const wsComp = XLSX.utils.aoa_to_sheet([compHeaders, ...compRows]);
+  wsComp["!cols"] = compHeaders.map(() => ({ wch: 22 }));
+  XLSX.utils.book_append_sheet(wb, wsComp, "Comparison");
+
+  XLSX.writeFile(wb, filename);
+}
+
+/**
+ * Export the project-level CBA: the planting schedule and ramp-up, the
+ * project cash flow by year and the per-method totals with the headline
+ * indicators. Amounts are project totals in US$; labels follow the active
+ * language.
+ */
+export function exportProjectCBAToXlsx(entered: RestorationModel, filename: string): void {
+  const data = toUSD(entered);
+  const project = computeProjectCBA(data);
+  if (!project) return;
+  const scenario = resolveProjectScenario(data.project);
+  const rateLabel = `${project.discountRate}%`;
+
+  const wb = XLSX.utils.book_new();
+
+  // ── Sheet: Project Summary ───────────────────────────────────────────
+  const methodHeaders = [
+    t("Method"),
+    t("Area (ha)"),
+    t("Total Cost, economic (US$)"),
+    t("Budget, cash outlays (US$)"),
+    t("Total Benefits (US$)"),
+    t("NPV @{rate} (US$)", { rate: rateLabel }),
+    t("Financial NPV @{rate} (US$)", { rate: rateLabel }),
+  ];
+  const methodRows = project.methods.map((m) => [
+    m.methodLabel,
+    fmt(m.area),
+    fmt(m.totalCost),
+    fmt(m.financialCost),
+    fmt(m.totalBenefit),
+    fmt(m.npv),
+    fmt(m.financialNpv),
+  ]);
+  const wsSummary = XLSX.utils.aoa_to_sheet([
+    [t("PROJECT COST-BENEFIT ANALYSIS"), ""],
+    ["", ""],
+    [t("Respondent"), data.respondentName ?? ""],
+    [t("Ecosystem"), data.ecosystem ?? ""],
+    [t("Country"), data.country ?? ""],
+    [t("Project Length (years)"), project.years.length],
+    [t("Total Area (ha)"), fmt(project.totalArea)],
+    [t("Total Budget, cash outlays (US$)"), fmt(project.totalBudget)],
+    [t("Total Cost, economic (US$)"), fmt(project.totalEconomicCost)],
+    [t("Total Benefits (US$)"), fmt(project.totalBenefits)],
+    [t("Project NPV @{rate} (US$)", { rate: rateLabel }), fmt(project.npv)],
+    [t("Project Financial NPV @{rate} (US$)", { rate: rateLabel }), fmt(project.financialNpv)],
+    [t("Peak Financing Need (US$)"), fmt(project.peakFinancingNeed)],
+    [t("Peak Financing Year"), project.peakFinancingYear ?? t("N/A")],
+    [],
+    methodHeaders,
+    ...methodRows,
+  ]);
+  wsSummary["!cols"] = methodHeaders.map((_, i) => ({ wch: i === 0 ? 36 : 22 }));
+  XLSX.utils.book_append_sheet(wb, wsSummary, "Project Summary");
+
+  // ── Sheet: Planting Schedule ─────────────────────────────────────────
+  const scheduleRows: (string | number)[][] = [
+    [t("PLANTING SCHEDULE"), ""],
+    [],
+    [t("Method"), t("Project Year"), t("Area (ha)")],
+    ...project.methods.flatMap((m) => m.cohorts.map((c) => [m.methodLabel, c.year, fmt(c.area)])),
+    [],
+    [t("CONSTRAINT COST RAMP-UP"), ""],
+    [t("Share in Year 1 (%)"), scenario.constraintRampStartPct],
+    [t("Years to 100%"), scenario.constraintRampYears],
+    [],
+    [t("Project Year"), t("Constraint Costs Incurred (%)")],
+    ...project.years
+      .slice(0, Math.max(1, scenario.constraintRampYears + 1))
+      .map((y) => [y.projectYear, Number((constraintRampFactor(y.projectYear, scenario) * 100).toFixed(1))]),
+  ];
+  const wsSchedule = XLSX.utils.aoa_to_sheet(scheduleRows);
+  wsSchedule["!cols"] = [{ wch: 36 }, { wch: 16 }, { wch: 16 }];
+  XLSX.utils.book_append_sheet(wb, wsSchedule, "Planting Schedule");
+
+  // ── Sheet: Project Cash Flow ─────────────────────────────────────────
+  const cfHeaders = [
+    t("Project Year"),
+    t("Area Planted (ha)"),
+    t("Area Managed (ha)"),
+    t("Implementation Cost"),
+    t("Maintenance Cost"),
+    t("Constraint Cost (after ramp-up)"),
+    t("Adjustment, Land & Shadow Labor"),
+    t("Total Cost (economic)"),
+    t("Total Benefits"),
+    t("Net Cash Flow"),
+    t("Discounted Net Flow"),
+    t("Financial Cost (cash outlays)"),
+    t("Financial Net Flow"),
+    t("Cumulative Financial Net"),
+  ];
+  const cfRows = project.years.map((y) => [
+    y.projectYear,
+    fmt(y.areaPlanted),
+    fmt(y.areaManaged),
+    fmt(y.implCost),
+    fmt(y.maintCost),
+    fmt(y.constraintCost),
+    fmt(y.otherCost),
+    fmt(y.totalCost),
+    fmt(y.totalBenefit),
+    fmt(y.netFlow),
+    fmt(y.discountedNet),
+    fmt(y.financialCost),
+    fmt(y.financialNetFlow),
+    fmt(y.cumulativeFinancialNet),
+  ]);
+  const wsCF = XLSX.utils.aoa_to_sheet([cfHeaders, ...cfRows]);
+  wsCF["!cols"] = cfHeaders.map(() => ({ wch: 20 }));
+  XLSX.utils.book_append_sheet(wb, wsCF, "Project Cash Flow");
+
+  XLSX.writeFile(wb, filename);
+}
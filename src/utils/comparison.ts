@@ -0,0 +1,168 @@
+/**
+ * Side-by-side comparison of two or more questionnaires.
+ *
+ * For one method, lines up implementation costs, maintenance totals per
+ * activity, NTFP inputs, the shared context constraints and the labor
+ * breakdown across models. A row is flagged when the spread of its values,
+ * (max − min) / |mean|, exceeds the threshold. Cash flows and NPVs come
+ * from `computeMethodCBA` for each model. Amounts are compared in US$, so
+ * models entered in different currencies line up.
+ */
+
+import type { RestorationModel, MethodType, ContextVariables, CostSegment } from "../types";
+import { getMaintenanceActivities } from "../constants";
+import { computeMethodCBA, type MethodCBA } from "./cba";
+import { toUSD } from "./currency";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ComparisonRow {
+  section: string;
+  label: string;
+  unit: string;
+  /** One value per model; null when the method is disabled in that model */
+  values: (number | null)[];
+  /** (max − min) / |mean| × 100 over the non-null values; null when undefined */
+  spreadPct: number | null;
+  /** True when spreadPct exceeds the threshold */
+  differs: boolean;
+}
+
+export interface CashFlowOverlayPoint {
+  year: number;
+  /** Cumulative discounted net cash flow per model index ("m0", "m1", …) */
+  [series: string]: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Rows
+// ---------------------------------------------------------------------------
+
+const CONTEXT_ROWS: { key: keyof ContextVariables; label: string; costUnit: string; qtyLabel: string; qtyUnit: string }[] = [
+  { key: "fireRisk",                label: "Firebreak",      costUnit: "US$/km", qtyLabel: "occurrences",  qtyUnit: "times" },
+  { key: "grazingPressure",         label: "Fencing",        costUnit: "US$/km", qtyLabel: "fenced area",  qtyUnit: "ha" },
+  { key: "invasiveSpeciesPressure", label: "Weed control",   costUnit: "US$/ha", qtyLabel: "occurrences",  qtyUnit: "times" },
+  { key: "pestControl",             label: "Pest control",   costUnit: "US$/ha", qtyLabel: "occurrences",  qtyUnit: "times" },
+];
+
+/** Spread of the non-null values, in % of their mean magnitude. */
+function spread(values: (number | null)[]): number | null {
+  const v = values.filter((x): x is number => x !== null && Number.isFinite(x));
+  if (v.length < 2) return null;
+  const max = Math.max(...v);
+  const min = Math.min(...v);
+  if (max === min) return 0;
+  const mean = Math.abs(v.reduce((s, x) => s + x, 0) / v.length);
+  return mean > 0 ? ((max - min) / mean) * 100 : null;
+}
+
+/** Σ cost × years of the segments whose label is `label`. */
+function activityTotal(segments: CostSegment[], match: (label: string) => boolean): number {
+  return segments
+    .filter((s) => match(s.label ?? ""))
+    .reduce((sum, s) => sum + (Number(s.cost) || 0) * Math.max(0, s.yearTo - s.yearFrom + 1), 0);
+}
+
+/**
+ * Comparison rows for one method across `models`. Method rows are null for
+ * models that disabled the method; shared rows always have a value.
+ */
+export function compareModels(
+  entered: RestorationModel[],
+  methodId: MethodType,
+  thresholdPct: number,
+): ComparisonRow[] {
+  const models = entered.map(toUSD);
+  const rows: ComparisonRow[] = [];
+  const push = (section: string, label: string, unit: string, values: (number | null)[]) => {
+    const spreadPct = spread(values);
+    rows.push({ section, label, unit, values, spreadPct, differs: spreadPct !== null && spreadPct > thresholdPct });
+  };
+  const perMethod = (pick: (m: RestorationModel["methodCosts"][MethodType], d: RestorationModel) => number) =>
+    models.map((d) => {
+      const m = d.methodCosts?.[methodId];
+      return m && !(d.disabledMethods ?? []).includes(methodId) ? pick(m, d) : null;
+    });
+  const shared = (pick: (d: RestorationModel) => number) => models.map((d) => pick(d));
+
+  // Implementation
+  push("Implementation", "Implementation cost", "US$/ha", perMethod((m) => Number(m.implementationCost) || 0));
+  push("Implementation", "Labor share", "%", perMethod((m) => Number(m.implementationDistribution?.labor) || 0));
+  push("Implementation", "Materials share", "%", perMethod((m) => Number(m.implementationDistribution?.materials) || 0));
+  push("Implementation", "Machinery share", "%", perMethod((m) => Number(m.implementationDistribution?.machinery) || 0));
+
+  // Maintenance — total and one row per activity
+  push("Maintenance", "Maintenance total", "US$/ha", perMethod((m) => Number(m.maintenanceCost) || 0));
+  const activities = getMaintenanceActivities(methodId);
+  for (const activity of activities) {
+    push("Maintenance", activity.split(" (")[0], "US$/ha (total)",
+      perMethod((m) => activityTotal(m.maintenanceSegments ?? [], (l) => l === activity)));
+  }
+  const known = new Set<string>(activities);
+  const other = perMethod((m) => activityTotal(m.maintenanceSegments ?? [], (l) => !known.has(l)));
+  if (other.some((v) => (v ?? 0) > 0)) push("Maintenance", "Other / unlabelled activities", "US$/ha (total)", other);
+  push("Maintenance", "Labor share", "%", perMethod((m) => Number(m.maintenanceDistribution?.labor) || 0));
+  push("Maintenance", "Materials share", "%", perMethod((m) => Number(m.maintenanceDistribution?.materials) || 0));
+  push("Maintenance", "Machinery share", "%", perMethod((m) => Number(m.maintenanceDistribution?.machinery) || 0));
+
+  // NTFP
+  if (methodId.endsWith("_ntfp")) {
+    push("NTFP", "NTFP price", "US$/kg", perMethod((m) => Number(m.ntfpPrice) || 0));
+    push("NTFP", "NTFP productivity (average)", "kg/ha/yr", perMethod((m) => Number(m.ntfpProductivity) || 0));
+    push("NTFP", "NTFP revenue (total)", "US$/ha", perMethod((m) => Number(m.ntfpRevenue) || 0));
+  }
+
+  // Context constraints (shared by every method)
+  for (const c of CONTEXT_ROWS) {
+    push("Context constraints", `${c.label} unit cost`, c.costUnit, shared((d) => Number(d.contextVariables?.[c.key]?.cost) || 0));
+    push("Context constraints", `${c.label} ${c.qtyLabel}`, c.qtyUnit, shared((d) => Number(d.contextVariables?.[c.key]?.occurrences) || 0));
+  }
+
+  // Labor breakdown (shared)
+  push("Labor", "Implementation hired labor", "%", shared((d) => Number(d.laborBreakdown?.implementation?.hiredLabor) || 0));
+  push("Labor", "Maintenance hired labor", "%", shared((d) => Number(d.laborBreakdown?.maintenance?.hiredLabor) || 0));
+  push("Labor", "Hired labor daily wage", "US$/day", shared((d) => Number(d.laborBreakdown?.hiredLaborCostPerDay) || 0));
+  push("Labor", "Machinery unit cost", "US$/hour", shared((d) => Number(d.laborBreakdown?.machineryUnitCostPerHour) || 0));
+  push("Labor", "Land lease", "US$/ha/yr", shared((d) => Number(d.laborBreakdown?.landLeaseCostPerHaPerYear) || 0));
+  push("Labor", "Female share of labor", "%", shared((d) => Number(d.laborBreakdown?.genderDistribution?.female) || 0));
+
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// CBA overlay
+// ---------------------------------------------------------------------------
+
+/**
+ * CBA of one method for each model; null when the model disabled the method,
+ * has no implementation cost for it, or its data cannot be computed.
+ */
+export function compareCBA(models: RestorationModel[], methodId: MethodType): (MethodCBA | null)[] {
+  return models.map(toUSD).map((d) => {
+    const m = d.methodCosts?.[methodId];
+    if (!m || (d.disabledMethods ?? []).includes(methodId) || !((m.implementationCost ?? 0) > 0)) return null;
+    try {
+      return computeMethodCBA(methodId, m, d);
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Chart rows for overlaying cumulative discounted net cash flows: one row per
+ * project year up to the longest horizon, one series per model. The last
+ * point of each series is that model's NPV.
+ */
+export function cashFlowOverlay(results: (MethodCBA | null)[]): CashFlowOverlayPoint[] {
+  const years = Math.max(0, ...results.map((r) => r?.cashFlows.length ?? 0));
+  return Array.from({ length: years }, (_, i) => {
+    const point: CashFlowOverlayPoint = { year: i + 1 };
+    results.forEach((r, k) => {
+      point[`m${k}`] = r?.cashFlows[i]?.cumulativeDiscountedNet ?? null;
+    });
+    return point;
+  });
+}
@@ -1,41 +1,35 @@
 /**
  * Utility helpers for the active questionnaire flow.
  *
- * Only the pieces the rendered form actually consumes are kept here:
- *   - `atLeastOneMethodTabComplete`: gates the Export button.
- *   - `formatUSD`: shared currency formatter.
+ * Only the pieces the rendered form actually consumes are kept here
+ * (per-tab completeness lives with the validation rules in ./rules):
+ *   - `formatUSD`: shared currency formatter (separators of the active language).
  *   - `generateExportFilename`: builds the .xlsx filename for download.
+ *   - `resolveHorizon` / `withHorizon`: the chosen analysis time horizon and
+ *     the help texts that mention it.
+ *   - `computeInteractionAdjustment` / `holdInteractionAdjustment`: declared
+ *     vs additive unfavorable cost, and keeping it for derived models.
+ *   - `detectAccumulatedMaintenance` / `spreadSegmentAsTotal`: annual vs
+ *     accumulated maintenance-cost confusion and its one-click fix.
  */
 
-import type { MethodCosts } from "../types";
-
-/**
- * A method tab is "complete" when both implementation and maintenance costs
- * are > 0 and both distributions sum to 100%. The Export button stays
- * disabled until at least one tab passes this check.
- */
-export function atLeastOneMethodTabComplete(methodCosts: MethodCosts | undefined): boolean {
-  if (!methodCosts) return false;
-  const tabs = [
-    "anr_30", "anr_30_ntfp",
-    "seed_dispersal", "seed_dispersal_ntfp",
-    "seedling_planting", "seedling_planting_ntfp",
-  ] as const;
-  return tabs.some((t) => {
-    const entry = methodCosts[t];
-    if (!entry || entry.implementationCost <= 0 || entry.maintenanceCost <= 0) return false;
-    const id = entry.implementationDistribution;
-    const md = entry.maintenanceDistribution;
-    if (!id || !md) return false;
-    const iSum = (Number(id.labor) || 0) + (Number(id.machinery) || 0) + (Number(id.materials) || 0);
-    const mSum = (Number(md.labor) || 0) + (Number(md.machinery) || 0) + (Number(md.materials) || 0);
-    return Math.abs(iSum - 100) < 0.01 && Math.abs(mSum - 100) < 0.01;
-  });
-}
+import type { RestorationModel, MethodType, MethodCostEntry, ContextVariables, CostSegment } from "../types";
+import {
+  DEFAULT_TIME_HORIZON,
+  MIN_TIME_HORIZON,
+  MAX_TIME_HORIZON,
+  HORIZON_TOKEN,
+  INTERACTION_RESIDUAL_WARN_PCT,
+  ACCUMULATED_ANNUAL_VS_IMPL_RATIO,
+  ACCUMULATED_TOTAL_VS_IMPL_RATIO,
+} from "../constants";
+import { localeTag } from "./i18n";
+import { resolveCurrency, formatAmount } from "./currency";
+import { resolveAreaUnit, fromPerHa } from "./area";
 
 /** Format a number as US currency (used by various UI components). */
 export function formatUSD(value: number): string {
-  return `US$ ${value.toLocaleString("en-US", {
+  return `US$ ${value.toLocaleString(localeTag(), {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })}`;
@@ -48,3 +42,169 @@ export function generateExportFilename(ecosystem: string, method: string): strin
   const mth = method.replace(/\s+/g, "_") || "unknown";
   return `restoration_${eco}_${mth}_${ts}.json`;
 }
+
+/**
+ * Time horizon to use for a model: the saved value when it is a whole number
+ * in the allowed range, otherwise the default (older models saved before the
+ * horizon became configurable have 20).
+ */
+export function resolveHorizon(timeHorizon: number | undefined): number {
+  const t = Number(timeHorizon);
+  return Number.isInteger(t) && t >= MIN_TIME_HORIZON && t <= MAX_TIME_HORIZON ? t : DEFAULT_TIME_HORIZON;
+}
+
+/** Replace the horizon placeholder in a help text with the chosen horizon. */
+export function withHorizon(text: string, timeHorizon: number): string {
+  return text.split(HORIZON_TOKEN).join(String(timeHorizon));
+}
+
+export interface InteractionAdjustment {
+  /** Favorable cost + Σ constraint costs — the additive estimate (US$/ha) */
+  computed: number;
+  /** Respondent's declared unfavorable cost, or null when not declared (US$/ha) */
+  declared: number | null;
+  /** declared − computed; 0 when not declared (US$/ha) */
+  adjustment: number;
+  /** adjustment as a share of the computed cost (%), null when computed is 0 */
+  residualPct: number | null;
+  /** True when |residualPct| exceeds INTERACTION_RESIDUAL_WARN_PCT */
+  isLarge: boolean;
+}
+
+/**
+ * Derive the interaction adjustment of one method:
+ *   declaredUnfavorableCost ≈ favorableCost + Σ(assistanceCosts) + adjustment
+ * Constraint costs are unit cost × occurrences, as in the summary and the CBA.
+ */
+export function computeInteractionAdjustment(
+  entry: Partial<MethodCostEntry> | undefined,
+  contextVariables: Partial<ContextVariables> | undefined,
+): InteractionAdjustment {
+  const favorable = (Number(entry?.implementationCost) || 0) + (Number(entry?.maintenanceCost) || 0);
+  const constraints = Object.values(contextVariables ?? {}).reduce(
+    (s, c) => s + (Number(c?.cost) || 0) * (Number(c?.occurrences) || 0),
+    0,
+  );
+  const computed = favorable + constraints;
+  const declaredRaw = Number(entry?.declaredUnfavorableCost) || 0;
+  const declared = declaredRaw > 0 ? declaredRaw : null;
+  const adjustment = declared !== null ? declared - computed : 0;
+  const residualPct = declared !== null && computed > 0 ? (adjustment / computed) * 100 : null;
+
+  return {
+    computed,
+    declared,
+    adjustment,
+    residualPct,
+    isLarge: residualPct !== null && Math.abs(residualPct) > INTERACTION_RESIDUAL_WARN_PCT,
+  };
+}
+
+/**
+ * Keep the entered interaction adjustment in a model derived from `entered`
+ * (re-priced, or with perturbed or sampled inputs). The declared unfavorable
+ * cost of each method is rescaled so the adjustment stays the same share of
+ * the additive cost; otherwise it would absorb every change to the costs.
+ */
+export function holdInteractionAdjustment(entered: RestorationModel, derived: RestorationModel): RestorationModel {
+  const methodCosts = { ...derived.methodCosts };
+  for (const mk of Object.keys(methodCosts) as MethodType[]) {
+    const base = computeInteractionAdjustment(entered.methodCosts?.[mk], entered.contextVariables);
+    if (base.declared === null || base.computed <= 0 || !methodCosts[mk]) continue;
+    const { computed } = computeInteractionAdjustment(methodCosts[mk], derived.contextVariables);
+    methodCosts[mk] = { ...methodCosts[mk], declaredUnfavorableCost: (base.declared / base.computed) * computed };
+  }
+  return { ...derived, methodCosts };
+}
+
+// ---------------------------------------------------------------------------
+// Annual vs accumulated maintenance cost
+// ---------------------------------------------------------------------------
+
+export interface AccumulatedCostSuspicion {
+  /** Index of the segment in maintenanceSegments */
+  segmentIndex: number;
+  /**
+   * "nearImplementation": the annual cost is of the same order as the whole
+   * implementation cost; "singleSegmentTotal": one segment spans the whole
+   * maintenance period and adds up to many times the implementation cost.
+   */
+  reason: "nearImplementation" | "singleSegmentTotal";
+  message: string;
+  /** Annual cost when the entered value is read as the total for the segment's years */
+  suggestedAnnualCost: number;
+}
+
+const segmentYears = (s: CostSegment) => Math.max(0, s.yearTo - s.yearFrom + 1);
+
+/**
+ * Heuristics for maintenance segments whose "annual" cost looks like the
+ * accumulated total, comparing each segment with the implementation cost
+ * and the derived maintenance total. Single-year segments are never flagged
+ * (annual and total coincide); nothing is flagged without an implementation
+ * cost. Messages give the amounts in the entry currency per the chosen area
+ * unit (`display`); `suggestedAnnualCost` stays per hectare.
+ */
+export function detectAccumulatedMaintenance(
+  entry: Partial<MethodCostEntry> | undefined,
+  timeHorizon: number,
+  display: Pick<RestorationModel, "currency" | "areaUnit">,
+): AccumulatedCostSuspicion[] {
+  const impl = Number(entry?.implementationCost) || 0;
+  const segments = entry?.maintenanceSegments ?? [];
+  if (impl <= 0) return [];
+  const horizon = resolveHorizon(timeHorizon);
+  const maintenanceTotal = Number(entry?.maintenanceCost) || 0;
+  const { code } = resolveCurrency(display.currency);
+  const { symbol } = resolveAreaUnit(display.areaUnit);
+  const fmt = (n: number) => `${formatAmount(Math.round(fromPerHa(n, display.areaUnit)), code)}/${symbol}`;
+
+  const suspicions: AccumulatedCostSuspicion[] = [];
+  segments.forEach((s, segmentIndex) => {
+    const cost = Number(s.cost) || 0;
+    const years = segmentYears(s);
+    if (cost <= 0 || years < 2) return;
+    const activity = s.label?.split(" (")[0] || "This segment";
+    const suggestedAnnualCost = Math.round((cost / years) * 100) / 100;
+    const spread = `Read as a total, it is ${fmt(suggestedAnnualCost)}/yr over years ${s.yearFrom}–${s.yearTo}.`;
+
+    if (cost >= ACCUMULATED_ANNUAL_VS_IMPL_RATIO * impl) {
+      suspicions.push({
+        segmentIndex,
+        reason: "nearImplementation",
+        message:
+          `${activity}: the annual cost ${fmt(cost)}/yr is close to the whole implementation cost (${fmt(impl)}). ` +
+          `Over ${years} years it adds up to ${fmt(cost * years)}, ${(cost * years / impl).toFixed(1)}× implementation. ${spread}`,
+        suggestedAnnualCost,
+      });
+    } else if (
+      segments.length === 1 &&
+      years >= horizon - 1 &&
+      maintenanceTotal > ACCUMULATED_TOTAL_VS_IMPL_RATIO * impl
+    ) {
+      suspicions.push({
+        segmentIndex,
+        reason: "singleSegmentTotal",
+        message:
+          `${activity}: one segment covers the whole maintenance period and its ${fmt(cost)}/yr adds up to ` +
+          `${fmt(maintenanceTotal)}, ${(maintenanceTotal / impl).toFixed(1)}× the implementation cost. ` +
+          `The value may be the accumulated total. ${spread}`,
+        suggestedAnnualCost,
+      });
+    }
+  });
+  return suspicions;
+}
+
+/** Segments with the one at `index` re-read as a total spread over its years. */
+export function spreadSegmentAsTotal(segments: CostSegment[], index: number): CostSegment[] {
+  return segments.map((s, i) => {
+    const years = segmentYears(s);
+    return i === index && years > 0 ? { ...s, cost: Math.round(((Number(s.cost) || 0) / years) * 100) / 100 } : s;
+  });
+}
+
+/** Σ annual cost × years of the segments (the derived maintenanceCost). */
+export function maintenanceTotal(segments: CostSegment[]): number {
+  return segments.reduce((sum, s) => sum + segmentYears(s) * (Number(s.cost) || 0), 0);
+}
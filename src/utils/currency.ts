@@ -0,0 +1,164 @@
+/**
+ * Entry currency and conversion to US$.
+ *
+ * Respondents may enter amounts in a local currency (BRL, COP, XOF…). The
+ * questionnaire keeps every cost, price and revenue as entered, together
+ * with the currency code and the exchange rate (local units per US$) and
+ * its date, so the original figures are never lost; US$ values are derived
+ * here with the recorded rate.
+ *
+ * Anything that compares questionnaires or checks them against US$ figures
+ * (reference ranges, aggregation, model comparison, the library headline,
+ * the Data export) goes through `toUSD`. The CBA can run in either
+ * currency; the carbon price is an analyst assumption in US$ and is
+ * converted when the CBA runs in the local currency.
+ */
+
+import type { RestorationModel, MethodCostEntry, CurrencySettings, InputDistribution } from "../types";
+import { DEFAULT_CURRENCY_SETTINGS } from "../constants";
+import { METHOD_KEYS, resolveAssumptions } from "./cba";
+import { localeTag } from "./i18n";
+
+/** Currency the CBA results are shown in */
+export type ResultCurrency = "local" | "USD";
+
+// ---------------------------------------------------------------------------
+// Settings & labels
+// ---------------------------------------------------------------------------
+
+/**
+ * Currency settings with defaults filled in. US$ always has a rate of 1;
+ * a missing or non-positive rate is read as 1 (the form flags it).
+ */
+export function resolveCurrency(currency?: Partial<CurrencySettings>): CurrencySettings {
+  const code = (currency?.code ?? "").trim().toUpperCase() || DEFAULT_CURRENCY_SETTINGS.code;
+  const rate = Number(currency?.exchangeRate);
+  return {
+    code,
+    exchangeRate: code === "USD" || !Number.isFinite(rate) || rate <= 0 ? 1 : rate,
+    rateDate: currency?.rateDate ?? "",
+  };
+}
+
+/** True when the amounts were entered in a currency other than US$. */
+export function isLocalCurrency(data: Pick<RestorationModel, "currency">): boolean {
+  return resolveCurrency(data.currency).code !== "USD";
+}
+
+/** Symbol used in units and amounts: "US$" for US dollars, the ISO code otherwise. */
+export function currencySymbol(code: string): string {
+  return code === "USD" ? "US$" : code;
+}
+
+/** A US$ unit expressed in `code`, e.g. "US$/ha" → "BRL/ha". */
+export function currencyUnit(unit: string, code: string): string {
+  return unit.replace("US$", currencySymbol(code));
+}
+
+/** e.g. "BRL 1,234.50" — like formatUSD, with the separators of the active language. */
+export function formatAmount(value: number, code: string, fractionDigits = 2): string {
+  return `${currencySymbol(code)} ${value.toLocaleString(localeTag(), {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  })}`;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/** Method inputs (and their distributions) expressed in the entry currency */
+const METHOD_AMOUNT_INPUTS = ["implementationCost", "maintenanceCost", "ntfpPrice", "ntfpRevenue"];
+
+function scaleDistribution(dist: InputDistribution, factor: number): InputDistribution {
+  if (dist.kind !== "triangular" || factor === 1) return dist;
+  return { ...dist, min: dist.min * factor, mode: dist.mode * factor, max: dist.max * factor };
+}
+
+function scaleMethod(m: MethodCostEntry, f: number): MethodCostEntry {
+  return {
+    ...m,
+    implementationCost: (Number(m.implementationCost) || 0) * f,
+    maintenanceCost: (Number(m.maintenanceCost) || 0) * f,
+    maintenanceSegments: (m.maintenanceSegments ?? []).map((s) => ({ ...s, cost: s.cost * f })),
+    ntfpPrice: m.ntfpPrice != null ? m.ntfpPrice * f : m.ntfpPrice,
+    ntfpRevenue: m.ntfpRevenue != null ? m.ntfpRevenue * f : m.ntfpRevenue,
+    ntfpRevenueSegments: (m.ntfpRevenueSegments ?? []).map((s) => ({ ...s, revenue: s.revenue * f })),
+    declaredUnfavorableCost: m.declaredUnfavorableCost != null ? m.declaredUnfavorableCost * f : m.declaredUnfavorableCost,
+  };
+}
+
+/**
+ * Copy of `data` with the questionnaire amounts multiplied by `factor` and
+ * the carbon price by `carbonFactor`, triangular distributions included.
+ */
+function scaleAmounts(data: RestorationModel, factor: number, carbonFactor: number): RestorationModel {
+  const methodCosts = { ...data.methodCosts };
+  if (factor !== 1) {
+    for (const mk of METHOD_KEYS) {
+      if (methodCosts[mk]) methodCosts[mk] = scaleMethod(methodCosts[mk], factor);
+    }
+  }
+
+  const contextVariables = { ...data.contextVariables };
+  if (factor !== 1) {
+    for (const key of Object.keys(contextVariables) as (keyof typeof contextVariables)[]) {
+      const c = contextVariables[key];
+      if (c) contextVariables[key] = { ...c, cost: (Number(c.cost) || 0) * factor };
+    }
+  }
+
+  const lb = data.laborBreakdown;
+  const laborBreakdown = lb && factor !== 1
+    ? {
+        ...lb,
+        hiredLaborCostPerDay: (Number(lb.hiredLaborCostPerDay) || 0) * factor,
+        machineryUnitCostPerHour: (Number(lb.machineryUnitCostPerHour) || 0) * factor,
+        landLeaseCostPerHaPerYear: (Number(lb.landLeaseCostPerHaPerYear) || 0) * factor,
+      }
+    : lb;
+
+  let assumptions = data.assumptions;
+  if (carbonFactor !== 1) {
+    const resolved = resolveAssumptions(data.assumptions);
+    assumptions = { ...resolved, carbonPrice: resolved.carbonPrice * carbonFactor };
+  }
+
+  let uncertainty = data.uncertainty;
+  if (uncertainty?.distributions) {
+    const distributions: Record<string, InputDistribution> = {};
+    for (const [id, dist] of Object.entries(uncertainty.distributions)) {
+      const isAmount = id.startsWith("context:") || METHOD_AMOUNT_INPUTS.includes(id.split(":")[1] ?? "");
+      distributions[id] = scaleDistribution(dist, id === "carbonPrice" ? carbonFactor : isAmount ? factor : 1);
+    }
+    uncertainty = { ...uncertainty, distributions };
+  }
+
+  return { ...data, methodCosts, contextVariables, laborBreakdown, assumptions, uncertainty };
+}
+
+/** Copy of `data` with every amount in US$; the copy's currency is US$. */
+export function toUSD(data: RestorationModel): RestorationModel {
+  const { code, exchangeRate } = resolveCurrency(data.currency);
+  if (code === "USD") return data;
+  return { ...scaleAmounts(data, 1 / exchangeRate, 1), currency: { ...DEFAULT_CURRENCY_SETTINGS } };
+}
+
+/** Copy of a US$ model with its amounts converted into `currency` (e.g. after reading US$ columns). */
+export function fromUSD(data: RestorationModel, currency: CurrencySettings): RestorationModel {
+  const settings = resolveCurrency(currency);
+  if (settings.code === "USD") return { ...data, currency: { ...DEFAULT_CURRENCY_SETTINGS } };
+  return { ...scaleAmounts(data, settings.exchangeRate, 1), currency: settings };
+}
+
+/**
+ * `data` ready for the CBA in `target`: "USD" converts every amount, "local"
+ * keeps the amounts as entered and converts the carbon price to the entry
+ * currency. Only for computing — the local copy's carbon price is no longer
+ * in US$.
+ */
+export function modelInCurrency(data: RestorationModel, target: ResultCurrency): RestorationModel {
+  if (target === "USD") return toUSD(data);
+  const { code, exchangeRate } = resolveCurrency(data.currency);
+  return code === "USD" ? data : scaleAmounts(data, 1, exchangeRate);
+}
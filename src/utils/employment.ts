@@ -0,0 +1,101 @@
+/**
+ * Employment generation indicators.
+ *
+ * The labor in each year's costs (the labor share of the implementation,
+ * maintenance and constraint costs, as carried in the CBA cash flow) is
+ * turned into person-days with the regional hired labor rate, split into
+ * hired / non-hired with the phase shares of the labor breakdown and by
+ * gender with its gender distribution. Person-days become full-time
+ * equivalent jobs at FTE_DAYS_PER_YEAR working days per year.
+ *
+ * Costs and the hired rate must be in the same currency (both as entered,
+ * or both in US$). Indicators are per hectare; jobs are per 1,000 ha.
+ */
+
+import type { RestorationModel, GenderDistribution } from "../types";
+import { FTE_DAYS_PER_YEAR } from "../constants";
+import type { MethodCBA } from "./cba";
+
+export interface YearEmployment {
+  projectYear: number;
+  phase: "implementation" | "maintenance";
+  /** Person-days of labor (days/ha) */
+  laborDays: number;
+  hiredDays: number;
+  nonHiredDays: number;
+  /** Full-time equivalent jobs per 1,000 ha in the year */
+  ftePer1000Ha: number;
+}
+
+export interface MethodEmployment {
+  methodId: string;
+  methodLabel: string;
+  years: YearEmployment[];
+  /** Person-days over the horizon (days/ha) */
+  totalDays: number;
+  hiredDays: number;
+  nonHiredDays: number;
+  /** Person-days in year 1 (days/ha) */
+  implementationDays: number;
+  /** Person-days in years 2–T (days/ha) */
+  maintenanceDays: number;
+  /** Person-days by gender over the horizon (days/ha) */
+  daysByGender: GenderDistribution;
+  /** FTE jobs per 1,000 ha in year 1 */
+  implementationFtePer1000Ha: number;
+  /** Mean FTE jobs per 1,000 ha over the maintenance years */
+  maintenanceFtePer1000Ha: number;
+  /** Mean FTE jobs per 1,000 ha over the horizon */
+  averageFtePer1000Ha: number;
+}
+
+/** Person-days → FTE jobs per 1,000 ha. */
+function ftePer1000Ha(daysPerHa: number): number {
+  return (daysPerHa / FTE_DAYS_PER_YEAR) * 1000;
+}
+
+/**
+ * Employment indicators of one method from its (per-hectare) CBA result.
+ * Null when the model has no hired labor rate to convert costs into days.
+ */
+export function computeEmployment(cba: MethodCBA, data: RestorationModel): MethodEmployment | null {
+  const rate = Number(data.laborBreakdown?.hiredLaborCostPerDay) || 0;
+  if (rate <= 0) return null;
+
+  const years: YearEmployment[] = cba.cashFlows.map((cf) => {
+    const laborDays = cf.laborCost / rate;
+    const nonHiredDays = cf.familyLaborCost / rate;
+    return {
+      projectYear: cf.projectYear,
+      phase: cf.year === 0 ? "implementation" : "maintenance",
+      laborDays,
+      hiredDays: laborDays - nonHiredDays,
+      nonHiredDays,
+      ftePer1000Ha: ftePer1000Ha(laborDays),
+    };
+  });
+
+  const sum = (pick: (y: YearEmployment) => number, ys = years) => ys.reduce((s, y) => s + pick(y), 0);
+  const maintenanceYears = years.filter((y) => y.phase === "maintenance");
+  const totalDays = sum((y) => y.laborDays);
+  const implementationDays = sum((y) => y.laborDays, years.filter((y) => y.phase === "implementation"));
+  const maintenanceDays = sum((y) => y.laborDays, maintenanceYears);
+
+  const g = data.laborBreakdown?.genderDistribution;
+  const genderDays = (pct: number | undefined) => (totalDays * (Number(pct) || 0)) / 100;
+
+  return {
+    methodId: cba.methodId,
+    methodLabel: cba.methodLabel,
+    years,
+    totalDays,
+    hiredDays: sum((y) => y.hiredDays),
+    nonHiredDays: sum((y) => y.nonHiredDays),
+    implementationDays,
+    maintenanceDays,
+    daysByGender: { male: genderDays(g?.male), female: genderDays(g?.female), other: genderDays(g?.other) },
+    implementationFtePer1000Ha: ftePer1000Ha(implementationDays),
+    maintenanceFtePer1000Ha: maintenanceYears.length > 0 ? ftePer1000Ha(maintenanceDays / maintenanceYears.length) : 0,
+    averageFtePer1000Ha: years.length > 0 ? ftePer1000Ha(totalDays / years.length) : 0,
+  };
+}
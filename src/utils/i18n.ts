@@ -0,0 +1,153 @@
+/**
+ * Localization of the questionnaire.
+ *
+ * English text is the message ID (gettext style): copy stays readable where
+ * it is written, and a missing translation falls back to the English
+ * original. Catalogs (constants/locales) map English → translated text;
+ * `{name}` placeholders are filled from `params`. Multi-line copy such as
+ * the method descriptions is translated line by line so repeated sentences
+ * need one catalog entry.
+ *
+ * The active language is module state so that code outside React (Zod
+ * messages, Excel export) follows it; components read it through
+ * `useI18n` so they re-render when it changes.
+ *
+ * Stored data never changes with the language: select values, method IDs
+ * and export column IDs stay in English.
+ */
+
+import type { Locale } from "../types";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, LOCALE_MESSAGES } from "../constants";
+
+export type MessageParams = Record<string, string | number>;
+
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export function getLocale(): Locale {
+  return activeLocale;
+}
+
+/** Switch the language used by `t` and the formatters (see useI18n for React). */
+export function setLocale(locale: Locale): void {
+  activeLocale = SUPPORTED_LOCALES.some((l) => l.id === locale) ? locale : DEFAULT_LOCALE;
+}
+
+/** BCP 47 tag of a locale, e.g. "pt-BR". */
+export function localeTag(locale: Locale = activeLocale): string {
+  return SUPPORTED_LOCALES.find((l) => l.id === locale)?.tag ?? "en-US";
+}
+
+function interpolate(text: string, params?: MessageParams): string {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// ---------------------------------------------------------------------------
+// Translation
+// ---------------------------------------------------------------------------
+
+/** Translate an English message into `locale`, filling `{name}` placeholders. */
+export function translate(locale: Locale, message: string, params?: MessageParams): string {
+  const catalog = locale === "en" ? undefined : LOCALE_MESSAGES[locale];
+  return interpolate(catalog?.[message] ?? message, params);
+}
+
+/** Translate into the active language. */
+export function t(message: string, params?: MessageParams): string {
+  return translate(activeLocale, message, params);
+}
+
+/** Translate multi-line copy one line at a time. */
+export function tLines(text: string, params?: MessageParams): string {
+  return text
+    .split("\n")
+    .map((line) => t(line, params))
+    .join("\n");
+}
+
+interface MessagePattern {
+  pattern: RegExp;
+  names: string[];
+  translation: string;
+}
+
+// Catalog entries with placeholders, as patterns matching the filled-in English
+const patternCache = new Map<Locale, MessagePattern[]>();
+
+function placeholderPatterns(locale: Exclude<Locale, "en">): MessagePattern[] {
+  let patterns = patternCache.get(locale);
+  if (!patterns) {
+    patterns = Object.entries(LOCALE_MESSAGES[locale])
+      .filter(([message]) => /\{\w+\}/.test(message))
+      .map(([message, translation]) => {
+        const names: string[] = [];
+        const source = message
+          .split(/(\{\w+\})/)
+          .map((part) => {
+            const m = /^\{(\w+)\}$/.exec(part);
+            if (!m) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            names.push(m[1]);
+            return "(.+?)";
+          })
+          .join("");
+        return { pattern: new RegExp(`^${source}$`), names, translation };
+      });
+    patternCache.set(locale, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Translate a message that was built in English with values already filled
+ * in (validation messages such as "Maximum 50 years"): exact entries first,
+ * then entries with placeholders matched against the text. Filled-in values
+ * that are catalog entries themselves (e.g. a constraint name) are
+ * translated too.
+ */
+export function translateMessage(message: string): string {
+  if (activeLocale === "en") return message;
+  const catalog = LOCALE_MESSAGES[activeLocale];
+  const exact = catalog[message];
+  if (exact !== undefined) return exact;
+  for (const { pattern, names, translation } of placeholderPatterns(activeLocale)) {
+    const m = pattern.exec(message);
+    if (!m) continue;
+    const params: MessageParams = {};
+    names.forEach((name, i) => {
+      const value = m[i + 1] ?? "";
+      params[name] = catalog[value] ?? value;
+    });
+    return interpolate(translation, params);
+  }
+  return message;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(localeTag(), options);
+}
+
+/** Amount in `currency` with the active language's symbol placement and separators. */
+export function formatCurrency(value: number, currency = "USD", fractionDigits = 2): string {
+  return new Intl.NumberFormat(localeTag(), {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+}
+
+/** Calendar date (ISO string, timestamp or Date) in the active language. */
+export function formatDate(value: string | number | Date): string {
+  const d = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(d.getTime()) ? String(value) : d.toLocaleDateString(localeTag());
+}
+
+/** Date and time in the active language. */
+export function formatDateTime(value: string | number | Date): string {
+  const d = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(d.getTime()) ? String(value) : d.toLocaleString(localeTag());
+}
@@ -1,3 +1,22 @@
 export * from "./computations";
 export * from "./storage";
 export * from "./cba";
+export * from "./currency";
+export * from "./area";
+export * from "./report";
+export * from "./employment";
+export * from "./machinery";
+export * from "./project";
+export * from "./cbaExport";
+export * from "./simulation";
+export * from "./sensitivity";
+export * from "./priceIndex";
+export * from "./migrations";
+export * from "./modelStore";
+export * from "./library";
+export * from "./comparison";
+export * from "./aggregation";
+export * from "./outliers";
+export * from "./rules";
+export * from "./i18n";
+export * from "./preferences";
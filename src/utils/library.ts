@@ -0,0 +1,157 @@
+/**
+ * Saved-model library: per-entry summaries, filtering and sorting for the
+ * SavedModelsPanel, and the JSON bundle used for bulk export.
+ *
+ * The headline NPV of an entry is the best NPV (at the model's default
+ * discount rate, in US$) among its answered methods with an implementation
+ * cost.
+ */
+
+import type { MethodType } from "../types";
+import { CURRENT_SCHEMA_VERSION } from "../constants";
+import type { SavedModel } from "./storage";
+import { computeMethodCBA, METHOD_KEYS } from "./cba";
+import { toUSD } from "./currency";
+import { isMethodTabComplete } from "./rules";
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+export interface LibraryEntrySummary {
+  id: string;
+  /** Entry name, or "<ecosystem> — <country>" when unnamed */
+  name: string;
+  ecosystem: string;
+  country: string;
+  respondent: string;
+  /** Data collection date, falling back to the save date (YYYY-MM-DD) */
+  date: string;
+  /** Last save (ISO timestamp) */
+  updatedAt: string;
+  tags: string[];
+  /** Answered (non-disabled) methods */
+  answeredMethods: number;
+  /** Answered methods whose tab is complete */
+  completeMethods: number;
+  /** Best NPV among the answered methods, or null when none can be computed */
+  headline: { methodId: MethodType; methodLabel: string; npv: number } | null;
+}
+
+/** Name shown for an entry: its own name, else ecosystem and country. */
+export function libraryEntryName(entry: SavedModel): string {
+  if (entry.name?.trim()) return entry.name.trim();
+  const parts = [entry.data.ecosystem, entry.data.country].filter(Boolean);
+  return parts.length > 0 ? parts.join(" — ") : "Untitled questionnaire";
+}
+
+export function summarizeSavedModel(entry: SavedModel): LibraryEntrySummary {
+  const d = toUSD(entry.data);
+  const disabled = new Set<string>(d.disabledMethods ?? []);
+  const answered = METHOD_KEYS.filter((mk) => !disabled.has(mk));
+
+  let headline: LibraryEntrySummary["headline"] = null;
+  for (const mk of answered) {
+    const method = d.methodCosts?.[mk];
+    if (!method || !((method.implementationCost ?? 0) > 0)) continue;
+    try {
+      const cba = computeMethodCBA(mk, method, d);
+      if (!headline || cba.npv > headline.npv) {
+        headline = { methodId: mk, methodLabel: cba.methodLabel, npv: cba.npv };
+      }
+    } catch {
+      // Incomplete data in an older entry: no headline for this method
+    }
+  }
+
+  const updatedAt = entry.updatedAt ?? entry.savedAt;
+  return {
+    id: entry.id,
+    name: libraryEntryName(entry),
+    ecosystem: d.ecosystem ?? "",
+    country: d.country ?? "",
+    respondent: d.respondentName ?? "",
+    date: d.dataCollectionDate || updatedAt.slice(0, 10),
+    updatedAt,
+    tags: entry.tags ?? [],
+    answeredMethods: answered.length,
+    completeMethods: answered.filter((mk) => isMethodTabComplete(d.methodCosts?.[mk])).length,
+    headline,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Filtering & sorting
+// ---------------------------------------------------------------------------
+
+export interface LibraryFilter {
+  /** Free text matched against name and tags */
+  text: string;
+  ecosystem: string;
+  country: string;
+  respondent: string;
+  /** Inclusive YYYY-MM-DD bounds on `date`; empty = open */
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const EMPTY_LIBRARY_FILTER: LibraryFilter = {
+  text: "",
+  ecosystem: "",
+  country: "",
+  respondent: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+export type LibrarySortKey = "updatedAt" | "name" | "ecosystem" | "country" | "date" | "npv";
+
+const contains = (haystack: string, needle: string) =>
+  haystack.toLowerCase().includes(needle.trim().toLowerCase());
+
+export function filterLibrary(entries: LibraryEntrySummary[], f: LibraryFilter): LibraryEntrySummary[] {
+  return entries.filter((e) =>
+    (!f.text.trim() || contains(e.name, f.text) || e.tags.some((t) => contains(t, f.text))) &&
+    (!f.ecosystem || e.ecosystem === f.ecosystem) &&
+    (!f.country.trim() || contains(e.country, f.country)) &&
+    (!f.respondent.trim() || contains(e.respondent, f.respondent)) &&
+    (!f.dateFrom || e.date >= f.dateFrom) &&
+    (!f.dateTo || e.date <= f.dateTo),
+  );
+}
+
+/** Sort a copy; entries without a headline NPV sort last for "npv". */
+export function sortLibrary(
+  entries: LibraryEntrySummary[],
+  key: LibrarySortKey,
+  descending: boolean,
+): LibraryEntrySummary[] {
+  const dir = descending ? -1 : 1;
+  return [...entries].sort((a, b) => {
+    if (key === "npv") {
+      if (!a.headline || !b.headline) return a.headline ? -1 : b.headline ? 1 : 0;
+      return (a.headline.npv - b.headline.npv) * dir;
+    }
+    return a[key].localeCompare(b[key]) * dir;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Bulk export
+// ---------------------------------------------------------------------------
+
+/** Download the given entries as one JSON bundle. */
+export function exportLibraryBundle(entries: SavedModel[], filename: string): void {
+  const bundle = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    models: entries,
+  };
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,115 @@
+/**
+ * Implied machinery hours.
+ *
+ * The machinery share of each cost line (implementation, maintenance and
+ * each context constraint) divided by the machinery unit cost per hour of
+ * the labor breakdown gives the machinery hours the line implies. Lines
+ * follow the CBA: implementation in year 1, maintenance by year from the
+ * segments, constraint costs as unit cost × occurrences over the horizon.
+ *
+ * Costs and the unit cost must be in the same currency (both as entered,
+ * or both in US$). Hours are per hectare.
+ */
+
+import type { RestorationModel, MethodType, MethodCostEntry, ContextVariables, FactorShares } from "../types";
+import { MACHINERY_HOURS_MAX_PER_HA, getMethodLabel } from "../constants";
+import { resolveHorizon } from "./computations";
+import { buildMaintenanceCostMap, type YearCashFlow } from "./cba";
+
+export type MachineryLineId = "implementation" | "maintenance" | keyof ContextVariables;
+
+export interface MachineryLine {
+  id: MachineryLineId;
+  label: string;
+  /** Machinery part of the line's cost over the horizon (per ha) */
+  machineryCost: number;
+  /** Machinery hours over the horizon (h/ha) */
+  hours: number;
+}
+
+export interface MethodMachinery {
+  methodId: MethodType;
+  methodLabel: string;
+  lines: MachineryLine[];
+  /** Hours of the implementation cost, year 1 (h/ha) */
+  implementationHours: number;
+  /** Hours of the maintenance cost in its busiest year (h/ha) */
+  peakMaintenanceHours: number;
+  /** Year of `peakMaintenanceHours`; null without maintenance machinery */
+  peakMaintenanceYear: number | null;
+  /** Hours of every line over the horizon (h/ha) */
+  totalHours: number;
+  /** Plausibility limit for the method (h/ha, see MACHINERY_HOURS_MAX_PER_HA) */
+  maxHoursPerHa: number;
+}
+
+const CONSTRAINT_LINES: { key: keyof ContextVariables; label: string }[] = [
+  { key: "fireRisk", label: "Firebreaks" },
+  { key: "grazingPressure", label: "Fencing" },
+  { key: "invasiveSpeciesPressure", label: "Weed control" },
+  { key: "pestControl", label: "Pest control" },
+];
+
+const machineryShare = (s?: Partial<FactorShares>) => (Number(s?.machinery) || 0) / 100;
+
+/** Machinery unit cost per hour of the model; 0 when not entered. */
+export function machineryRate(data: Pick<RestorationModel, "laborBreakdown">): number {
+  return Number(data.laborBreakdown?.machineryUnitCostPerHour) || 0;
+}
+
+/**
+ * Machinery hours implied by one method's costs and the shared context
+ * constraints. Null when the model has no machinery unit cost.
+ */
+export function computeMachinery(
+  methodId: MethodType,
+  method: MethodCostEntry | undefined,
+  data: RestorationModel,
+): MethodMachinery | null {
+  const rate = machineryRate(data);
+  if (rate <= 0) return null;
+
+  const horizon = resolveHorizon(data.timeHorizon);
+  const implementationCost = (Number(method?.implementationCost) || 0) * machineryShare(method?.implementationDistribution);
+
+  const maintShare = machineryShare(method?.maintenanceDistribution);
+  const maintenanceByYear = method ? buildMaintenanceCostMap(method, horizon) : {};
+  let maintenanceCost = 0;
+  let peakMaintenanceCost = 0;
+  let peakMaintenanceYear: number | null = null;
+  for (let year = 2; year <= horizon; year++) {
+    const cost = (maintenanceByYear[year] || 0) * maintShare;
+    maintenanceCost += cost;
+    if (cost > peakMaintenanceCost) {
+      peakMaintenanceCost = cost;
+      peakMaintenanceYear = year;
+    }
+  }
+
+  const ctx = data.contextVariables;
+  const lines: MachineryLine[] = [
+    { id: "implementation", label: "Implementation", machineryCost: implementationCost, hours: implementationCost / rate },
+    { id: "maintenance", label: "Maintenance", machineryCost: maintenanceCost, hours: maintenanceCost / rate },
+    ...CONSTRAINT_LINES.map(({ key, label }) => {
+      const c = ctx?.[key];
+      const cost = (Number(c?.cost) || 0) * (Number(c?.occurrences) || 0) * machineryShare(c?.distribution);
+      return { id: key, label, machineryCost: cost, hours: cost / rate };
+    }),
+  ];
+
+  return {
+    methodId,
+    methodLabel: getMethodLabel(methodId),
+    lines,
+    implementationHours: implementationCost / rate,
+    peakMaintenanceHours: peakMaintenanceCost / rate,
+    peakMaintenanceYear,
+    totalHours: lines.reduce((s, l) => s + l.hours, 0),
+    maxHoursPerHa: MACHINERY_HOURS_MAX_PER_HA[methodId],
+  };
+}
+
+/** Machinery hours in each year of a (per-hectare) CBA cash flow. */
+export function machineryHoursByYear(cashFlows: YearCashFlow[], rate: number): number[] {
+  return cashFlows.map((cf) => (rate > 0 ? cf.machineryCost / rate : 0));
+}
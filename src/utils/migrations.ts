@@ -0,0 +1,176 @@
+/**
+ * Schema migrations for persisted models.
+ *
+ * Every load path (Load Form JSON, saved models in local storage, Excel
+ * import) passes the payload through `migrateModel`, which runs the ordered
+ * migrations from the payload's `schemaVersion` up to
+ * CURRENT_SCHEMA_VERSION. Payloads without a version are treated as
+ * version 0. Each migration reports what it changed or what the analyst
+ * should review, so a silent change of meaning becomes a visible note.
+ */
+
+import type { RestorationModel } from "../types";
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_TIME_HORIZON,
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_AREA_UNIT,
+  DEFAULT_PROJECT_SCENARIO,
+} from "../constants";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MigrationChange {
+  /** Version the migration upgraded to */
+  version: number;
+  /** Dotted path of the affected field */
+  path: string;
+  message: string;
+}
+
+export interface MigrationResult {
+  data: RestorationModel;
+  /** Version found in the payload (0 when it had none) */
+  fromVersion: number;
+  changes: MigrationChange[];
+}
+
+/** A loose view of the payload; migrations cannot assume the current shape. */
+type Payload = Record<string, unknown>;
+
+interface Migration {
+  /** Version produced by this migration; it runs on payloads below it */
+  to: number;
+  description: string;
+  /** Mutate `data` in place and return what was changed */
+  migrate: (data: Payload) => Omit<MigrationChange, "version">[];
+}
+
+function isObject(v: unknown): v is Payload {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// ---------------------------------------------------------------------------
+// Registry (ordered by `to`)
+// ---------------------------------------------------------------------------
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: "Unversioned files: fixed 20-year horizon, fencing count/area ambiguity and no declared unfavorable cost",
+    migrate: (data) => {
+      const changes: Omit<MigrationChange, "version">[] = [];
+
+      // The horizon was fixed at 20 years before it became configurable.
+      if (typeof data.timeHorizon !== "number") {
+        data.timeHorizon = DEFAULT_TIME_HORIZON;
+        changes.push({
+          path: "timeHorizon",
+          message: `Set to ${DEFAULT_TIME_HORIZON} years, the fixed horizon of files saved before it was configurable`,
+        });
+      }
+
+      // grazingPressure.occurrences used to be a count of fencing events; it
+      // now holds the fenced area in hectares. The two cannot be told apart,
+      // so the value is kept and flagged for review.
+      const ctx = isObject(data.contextVariables) ? data.contextVariables : undefined;
+      const fence = isObject(ctx?.grazingPressure) ? ctx.grazingPressure : undefined;
+      const value = Number(fence?.occurrences) || 0;
+      if (value > 0) {
+        changes.push({
+          path: "contextVariables.grazingPressure.occurrences",
+          message: `Now read as the fenced area (ha). Older files may hold a number of fencing occurrences here — check the value ${value}`,
+        });
+      }
+
+      // Some unversioned files predate the declared unfavorable cost: without
+      // it a method has no interaction adjustment.
+      const methods = isObject(data.methodCosts) ? data.methodCosts : {};
+      for (const [mk, entry] of Object.entries(methods)) {
+        if (!isObject(entry) || entry.declaredUnfavorableCost !== undefined) continue;
+        entry.declaredUnfavorableCost = 0;
+        if ((Number(entry.implementationCost) || 0) > 0) {
+          changes.push({
+            path: `methodCosts.${mk}.declaredUnfavorableCost`,
+            message: "Not declared in the file, so the CBA applies no interaction adjustment — enter it if the respondent gave one",
+          });
+        }
+      }
+
+      return changes;
+    },
+  },
+  {
+    to: 2,
+    description: "Entry currency recorded with the amounts",
+    migrate: (data) => {
+      if (isObject(data.currency)) return [];
+      data.currency = { ...DEFAULT_CURRENCY_SETTINGS };
+      return [{
+        path: "currency",
+        message: "Amounts read as US$, the only currency of files saved before the entry currency was recorded",
+      }];
+    },
+  },
+  {
+    to: 3,
+    description: "Area unit recorded with the per-area values",
+    migrate: (data) => {
+      if (typeof data.areaUnit === "string") return [];
+      data.areaUnit = DEFAULT_AREA_UNIT;
+      return [{
+        path: "areaUnit",
+        message: "Per-area values read per hectare, the only unit of files saved before the area unit was recorded",
+      }];
+    },
+  },
+  {
+    to: 4,
+    description: "Project scenario saved with the model",
+    migrate: (data) => {
+      if (isObject(data.project)) return [];
+      data.project = { ...DEFAULT_PROJECT_SCENARIO, plantings: {} };
+      return [{
+        path: "project",
+        message: "No project scenario in the file: the planting schedule is empty and constraint costs start at their full level",
+      }];
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+/** Version of a raw payload; 0 when it carries none. */
+export function payloadVersion(raw: unknown): number {
+  const v = isObject(raw) ? raw.schemaVersion : undefined;
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+/**
+ * Upgrade a loaded payload to CURRENT_SCHEMA_VERSION. The input is not
+ * mutated. Throws when the payload is not an object or was written by a
+ * newer version of the questionnaire.
+ */
+export function migrateModel(raw: unknown): MigrationResult {
+  if (!isObject(raw)) throw new Error("The file does not contain a questionnaire.");
+  const fromVersion = payloadVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `The file was saved with format version ${fromVersion}, newer than this questionnaire (version ${CURRENT_SCHEMA_VERSION}). Please update the application.`,
+    );
+  }
+
+  const data = structuredClone(raw);
+  const changes: MigrationChange[] = [];
+  for (const m of MIGRATIONS) {
+    if (m.to <= fromVersion) continue;
+    for (const c of m.migrate(data)) changes.push({ version: m.to, ...c });
+  }
+  data.schemaVersion = CURRENT_SCHEMA_VERSION;
+
+  return { data: data as unknown as RestorationModel, fromVersion, changes };
+}
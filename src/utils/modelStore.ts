@@ -0,0 +1,174 @@
+/**
+ * Storage backends for saved models and the autosaved draft.
+ *
+ * `ModelStore` is the adapter used by storage.ts. Two implementations exist:
+ *   - IndexedDB (preferred): one record per model, no practical quota issue
+ *   - localStorage (fallback): the original single-key list, used when
+ *     IndexedDB is unavailable (e.g. some private browsing modes)
+ *
+ * When the IndexedDB database is first created, models already kept in
+ * localStorage are copied into it and the old key is removed.
+ */
+
+import type { RestorationModel } from "../types";
+import type { SavedModel } from "./storage";
+import { STORAGE_KEY, DRAFT_STORAGE_KEY, MODEL_DB_NAME } from "../constants";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The form as it was at the last autosave. */
+export interface ModelDraft {
+  savedAt: string;
+  /** Format version of `data` */
+  schemaVersion: number;
+  data: RestorationModel;
+}
+
+export interface ModelStore {
+  /** "indexeddb" or "localstorage" */
+  readonly kind: string;
+  list(): Promise<SavedModel[]>;
+  put(entry: SavedModel): Promise<void>;
+  remove(id: string): Promise<void>;
+  getDraft(): Promise<ModelDraft | null>;
+  putDraft(draft: ModelDraft): Promise<void>;
+  clearDraft(): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// localStorage backend
+// ---------------------------------------------------------------------------
+
+function readLocalModels(): SavedModel[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return JSON.parse(raw) as SavedModel[];
+  } catch {
+    console.warn("Failed to load models from local storage.");
+    return [];
+  }
+}
+
+/** Models and draft kept as JSON under fixed localStorage keys. */
+export function createLocalStorageStore(): ModelStore {
+  const writeModels = (models: SavedModel[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+
+  return {
+    kind: "localstorage",
+    list: async () => readLocalModels(),
+    put: async (entry) => {
+      writeModels([...readLocalModels().filter((m) => m.id !== entry.id), entry]);
+    },
+    remove: async (id) => {
+      writeModels(readLocalModels().filter((m) => m.id !== id));
+    },
+    getDraft: async () => {
+      try {
+        const raw = localStorage.getItem(DRAFT_STORAGE_KEY);
+        return raw ? (JSON.parse(raw) as ModelDraft) : null;
+      } catch {
+        console.warn("Failed to load the draft from local storage.");
+        return null;
+      }
+    },
+    putDraft: async (draft) => localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft)),
+    clearDraft: async () => localStorage.removeItem(DRAFT_STORAGE_KEY),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB backend
+// ---------------------------------------------------------------------------
+
+const DB_VERSION = 1;
+const MODELS = "models";
+const DRAFTS = "drafts";
+const DRAFT_KEY = "current";
+
+/** Wrap an IDBRequest in a promise. */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Open the database, creating the stores on first use. The creating upgrade
+ * also copies the localStorage models in; the old key is removed only once
+ * that upgrade has committed.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(MODEL_DB_NAME, DB_VERSION);
+    let migrated = false;
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const models = db.createObjectStore(MODELS, { keyPath: "id" });
+      db.createObjectStore(DRAFTS);
+      for (const entry of readLocalModels()) models.put(entry);
+      migrated = true;
+    };
+    req.onsuccess = () => {
+      if (migrated) localStorage.removeItem(STORAGE_KEY);
+      resolve(req.result);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("The model database is blocked by another open tab."));
+  });
+}
+
+/** One record per model plus a single draft record. */
+export function createIndexedDbStore(db: IDBDatabase): ModelStore {
+  const store = (name: string, mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+
+  return {
+    kind: "indexeddb",
+    list: async () => {
+      const models = await request(store(MODELS, "readonly").getAll() as IDBRequest<SavedModel[]>);
+      return models.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+    },
+    put: async (entry) => {
+      await request(store(MODELS, "readwrite").put(entry));
+    },
+    remove: async (id) => {
+      await request(store(MODELS, "readwrite").delete(id));
+    },
+    getDraft: async () => {
+      const draft = await request(store(DRAFTS, "readonly").get(DRAFT_KEY) as IDBRequest<ModelDraft | undefined>);
+      return draft ?? null;
+    },
+    putDraft: async (draft) => {
+      await request(store(DRAFTS, "readwrite").put(draft, DRAFT_KEY));
+    },
+    clearDraft: async () => {
+      await request(store(DRAFTS, "readwrite").delete(DRAFT_KEY));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+let storePromise: Promise<ModelStore> | null = null;
+
+/**
+ * The store shared by the whole app: IndexedDB when it can be opened,
+ * localStorage otherwise. Resolved once and cached.
+ */
+export function getModelStore(): Promise<ModelStore> {
+  if (!storePromise) {
+    storePromise = (typeof indexedDB === "undefined"
+      ? Promise.reject(new Error("IndexedDB is not available."))
+      : openDatabase().then(createIndexedDbStore)
+    ).catch((err: unknown) => {
+      console.warn("Falling back to local storage for saved models.", err);
+      return createLocalStorageStore();
+    });
+  }
+  return storePromise;
+}
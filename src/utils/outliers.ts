@@ -0,0 +1,284 @@
+/**
+ * Outlier detection against reference cost ranges.
+ *
+ * Compares the entered implementation cost, the annual cost of each
+ * maintenance segment, the context-constraint unit costs and the NTFP price
+ * and productivity with the expected range for the questionnaire's
+ * ecosystem and method. Ranges come from the bundled table or from an
+ * aggregation of respondents (kept in local storage); the most specific
+ * matching range wins, and aggregated beats bundled at equal specificity.
+ *
+ * Ranges are in US$: answers entered in a local currency are converted
+ * with the questionnaire's exchange rate first, and flags are shown back in
+ * the entry currency and area unit (see outlierInEntryUnits). Unanswered (zero) values
+ * are not flagged — completeness is checked elsewhere.
+ */
+
+import type {
+  RestorationModel,
+  MethodType,
+  MethodCostEntry,
+  ContextVariables,
+  ReferenceRange,
+  ReferenceFieldKind,
+} from "../types";
+import { DEFAULT_REFERENCE_RANGES, REFERENCE_RANGES_STORAGE_KEY, getMethodLabel } from "../constants";
+import { METHOD_KEYS } from "./cba";
+import { toUSD, resolveCurrency, currencyUnit } from "./currency";
+import { fromPerHa, perAreaUnit } from "./area";
+import { formatNumber } from "./i18n";
+import type { AggregationGroup } from "./aggregation";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface OutlierFlag {
+  /** Method the value belongs to; null for the shared context constraints */
+  methodType: MethodType | null;
+  kind: ReferenceFieldKind;
+  /** Form path of the value (segments: "…maintenanceSegments.<index>") */
+  field: string;
+  label: string;
+  value: number;
+  unit: string;
+  range: ReferenceRange;
+  /** Signed distance beyond the nearest bound, in % of that bound */
+  deviationPct: number;
+}
+
+const CONSTRAINTS: { key: keyof ContextVariables; label: string; unit: string }[] = [
+  { key: "fireRisk",                label: "Firebreak unit cost",    unit: "US$/km" },
+  { key: "grazingPressure",         label: "Fencing unit cost",      unit: "US$/km" },
+  { key: "invasiveSpeciesPressure", label: "Weed control unit cost", unit: "US$/ha" },
+  { key: "pestControl",             label: "Pest control unit cost", unit: "US$/ha" },
+];
+
+/** Aggregated ranges need at least this many respondents in the group. */
+const MIN_RESPONDENTS_FOR_RANGE = 3;
+
+/** Activity name without its parenthesised examples. */
+const activityName = (label: string) => label.split(" (")[0].trim();
+
+// ---------------------------------------------------------------------------
+// Range table
+// ---------------------------------------------------------------------------
+
+/** Ranges derived from respondents, or an empty list when none are stored. */
+export function loadAggregatedRanges(): ReferenceRange[] {
+  try {
+    const raw = localStorage.getItem(REFERENCE_RANGES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ReferenceRange[]) : [];
+  } catch {
+    console.warn("Failed to load reference ranges from local storage.");
+    return [];
+  }
+}
+
+/** Persist ranges derived from respondents (replacing any stored before). */
+export function saveAggregatedRanges(ranges: ReferenceRange[]): void {
+  localStorage.setItem(REFERENCE_RANGES_STORAGE_KEY, JSON.stringify(ranges));
+}
+
+export function clearAggregatedRanges(): void {
+  localStorage.removeItem(REFERENCE_RANGES_STORAGE_KEY);
+}
+
+/** Stored aggregated ranges followed by the bundled ones. */
+export function loadReferenceRanges(): ReferenceRange[] {
+  return [...loadAggregatedRanges(), ...DEFAULT_REFERENCE_RANGES];
+}
+
+/**
+ * Reference ranges from aggregated groups: Tukey fences
+ * (Q1 − 1.5·IQR floored at 0, Q3 + 1.5·IQR) for every group with enough
+ * respondents. When several countries share an ecosystem, the group with
+ * the most respondents gives the range.
+ */
+export function rangesFromAggregation(groups: AggregationGroup[]): ReferenceRange[] {
+  const best = new Map<string, { n: number; range: ReferenceRange }>();
+  const add = (range: Omit<ReferenceRange, "min" | "max" | "source">, stats: { n: number; q1: number; q3: number; iqr: number }) => {
+    if (stats.n < MIN_RESPONDENTS_FOR_RANGE) return;
+    const key = [range.ecosystem.toLowerCase(), range.methodType, range.kind, range.subject ?? ""].join("|");
+    const prev = best.get(key);
+    if (prev && prev.n >= stats.n) return;
+    best.set(key, {
+      n: stats.n,
+      range: {
+        ...range,
+        min: Math.max(0, stats.q1 - 1.5 * stats.iqr),
+        max: stats.q3 + 1.5 * stats.iqr,
+        source: "aggregated",
+      },
+    });
+  };
+
+  for (const g of groups) {
+    if (!g.ecosystem) continue;
+    for (const f of g.fields) {
+      const base = { ecosystem: g.ecosystem, methodType: g.methodId };
+      if (f.field === "method.implementationCost") add({ ...base, kind: "implementationCost" }, f.stats);
+      else if (f.field === "method.ntfpPrice") add({ ...base, kind: "ntfpPrice" }, f.stats);
+      else if (f.field === "method.ntfpProductivity") add({ ...base, kind: "ntfpProductivity" }, f.stats);
+      else if (f.field.startsWith("method.maintenanceAnnualByActivity.")) {
+        add({ ...base, kind: "maintenanceAnnual", subject: f.field.slice("method.maintenanceAnnualByActivity.".length) }, f.stats);
+      } else {
+        const constraint = CONSTRAINTS.find((c) => f.field === `contextVariables.${c.key}.cost`);
+        if (constraint) add({ ecosystem: g.ecosystem, methodType: "*", kind: "constraintCost", subject: constraint.key }, f.stats);
+      }
+    }
+  }
+  return [...best.values()].map((b) => b.range);
+}
+
+/**
+ * Most specific range for one answer: exact ecosystem (case-insensitive)
+ * before "*", then exact method before "*", then aggregated before bundled.
+ */
+export function findReferenceRange(
+  ranges: ReferenceRange[],
+  ecosystem: string,
+  methodType: MethodType | "*",
+  kind: ReferenceFieldKind,
+  subject?: string,
+): ReferenceRange | null {
+  const eco = (ecosystem ?? "").trim().toLowerCase();
+  let best: ReferenceRange | null = null;
+  let bestScore = -1;
+  for (const r of ranges) {
+    if (r.kind !== kind) continue;
+    if (r.subject !== undefined && (subject === undefined || activityName(r.subject) !== activityName(subject))) continue;
+    const ecoExact = r.ecosystem.trim().toLowerCase() === eco;
+    if (!ecoExact && r.ecosystem !== "*") continue;
+    const methodExact = r.methodType === methodType && methodType !== "*";
+    if (!methodExact && r.methodType !== "*") continue;
+    const score =
+      (ecoExact ? 8 : 0) + (methodExact ? 4 : 0) + (r.subject !== undefined ? 2 : 0) + (r.source === "aggregated" ? 1 : 0);
+    if (score > bestScore) {
+      best = r;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+function check(
+  flags: OutlierFlag[],
+  range: ReferenceRange | null,
+  value: number | undefined,
+  flag: Omit<OutlierFlag, "range" | "deviationPct" | "value">,
+): void {
+  const v = Number(value);
+  if (!range || !Number.isFinite(v) || v <= 0) return;
+  if (v < range.min) {
+    flags.push({ ...flag, value: v, range, deviationPct: range.min > 0 ? ((v - range.min) / range.min) * 100 : 0 });
+  } else if (v > range.max) {
+    flags.push({ ...flag, value: v, range, deviationPct: range.max > 0 ? ((v - range.max) / range.max) * 100 : 0 });
+  }
+}
+
+/** Flags for one method's answers. */
+export function detectMethodOutliers(
+  ecosystem: string,
+  methodType: MethodType,
+  entry: MethodCostEntry | undefined,
+  ranges: ReferenceRange[],
+): OutlierFlag[] {
+  const flags: OutlierFlag[] = [];
+  if (!entry) return flags;
+  const methodLabel = getMethodLabel(methodType);
+  const path = `methodCosts.${methodType}`;
+
+  check(flags, findReferenceRange(ranges, ecosystem, methodType, "implementationCost"), entry.implementationCost, {
+    methodType, kind: "implementationCost", field: `${path}.implementationCost`,
+    label: `${methodLabel} — Implementation cost`, unit: "US$/ha",
+  });
+
+  (entry.maintenanceSegments ?? []).forEach((s, i) => {
+    const activity = activityName(s.label ?? "") || "Maintenance";
+    check(flags, findReferenceRange(ranges, ecosystem, methodType, "maintenanceAnnual", activity), s.cost, {
+      methodType, kind: "maintenanceAnnual", field: `${path}.maintenanceSegments.${i}`,
+      label: `${methodLabel} — ${activity}, years ${s.yearFrom}–${s.yearTo}`, unit: "US$/ha/yr",
+    });
+  });
+
+  if (methodType.endsWith("_ntfp")) {
+    check(flags, findReferenceRange(ranges, ecosystem, methodType, "ntfpPrice"), entry.ntfpPrice, {
+      methodType, kind: "ntfpPrice", field: `${path}.ntfpPrice`,
+      label: `${methodLabel} — NTFP price`, unit: "US$/kg",
+    });
+    if ((entry.ntfpDataMode ?? "production") === "production") {
+      check(flags, findReferenceRange(ranges, ecosystem, methodType, "ntfpProductivity"), entry.ntfpProductivity, {
+        methodType, kind: "ntfpProductivity", field: `${path}.ntfpProductivity`,
+        label: `${methodLabel} — NTFP productivity (average)`, unit: "kg/ha/yr",
+      });
+    }
+  }
+  return flags;
+}
+
+/** Flags for the shared context-constraint unit costs. */
+export function detectConstraintOutliers(
+  ecosystem: string,
+  contextVariables: ContextVariables | undefined,
+  ranges: ReferenceRange[],
+): OutlierFlag[] {
+  const flags: OutlierFlag[] = [];
+  for (const c of CONSTRAINTS) {
+    check(flags, findReferenceRange(ranges, ecosystem, "*", "constraintCost", c.key), contextVariables?.[c.key]?.cost, {
+      methodType: null, kind: "constraintCost", field: `contextVariables.${c.key}.cost`,
+      label: c.label, unit: c.unit,
+    });
+  }
+  return flags;
+}
+
+/** Flags for every answered method and the context constraints (values in US$). */
+export function detectOutliers(data: RestorationModel, ranges: ReferenceRange[] = loadReferenceRanges()): OutlierFlag[] {
+  const d = toUSD(data);
+  const disabled = new Set<string>(d.disabledMethods ?? []);
+  return [
+    ...METHOD_KEYS
+      .filter((mk) => !disabled.has(mk))
+      .flatMap((mk) => detectMethodOutliers(d.ecosystem, mk, d.methodCosts?.[mk], ranges)),
+    ...detectConstraintOutliers(d.ecosystem, d.contextVariables, ranges),
+  ];
+}
+
+const fmtNum = (n: number) => formatNumber(n, { maximumFractionDigits: 2 });
+
+/**
+ * The flag with its value and range in the questionnaire's entry currency
+ * and area unit (flags are detected in US$ per hectare).
+ */
+export function outlierInEntryUnits(
+  flag: OutlierFlag,
+  display: Pick<RestorationModel, "currency" | "areaUnit">,
+): OutlierFlag {
+  const { code, exchangeRate } = resolveCurrency(display.currency);
+  const convert = (n: number) => {
+    const amount = flag.unit.includes("US$") ? Number((n * exchangeRate).toPrecision(12)) : n;
+    return flag.unit.includes("/ha") ? fromPerHa(amount, display.areaUnit) : amount;
+  };
+  return {
+    ...flag,
+    value: convert(flag.value),
+    unit: perAreaUnit(currencyUnit(flag.unit, code), display.areaUnit),
+    range: { ...flag.range, min: convert(flag.range.min), max: convert(flag.range.max) },
+  };
+}
+
+/** e.g. "3,000 BRL/ha is 20% above the expected 500–12,500 BRL/ha (bundled range)". */
+export function describeOutlier(flag: OutlierFlag, display: Pick<RestorationModel, "currency" | "areaUnit">): string {
+  const { value, unit, range } = outlierInEntryUnits(flag, display);
+  const direction = flag.deviationPct < 0 ? "below" : "above";
+  return (
+    `${fmtNum(value)} ${unit} is ${fmtNum(Math.abs(flag.deviationPct))}% ${direction} the expected ` +
+    `${fmtNum(range.min)}–${fmtNum(range.max)} ${unit} (${range.source} range` +
+    `${range.ecosystem !== "*" ? ` for ${range.ecosystem}` : ""})`
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Per-browser user preferences (currently the interface language), kept in
+ * local storage apart from the questionnaires so they survive form resets
+ * and apply to every model.
+ */
+
+import type { UserPreferences } from "../types";
+import { DEFAULT_LOCALE, PREFERENCES_STORAGE_KEY, SUPPORTED_LOCALES } from "../constants";
+
+const DEFAULT_PREFERENCES: UserPreferences = { locale: DEFAULT_LOCALE };
+
+/** Stored preferences, with defaults for anything missing or unknown. */
+export function loadPreferences(): UserPreferences {
+  try {
+    const raw = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<UserPreferences>) : {};
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...stored,
+      locale: SUPPORTED_LOCALES.some((l) => l.id === stored.locale) ? stored.locale! : DEFAULT_LOCALE,
+    };
+  } catch {
+    console.warn("Failed to load preferences from local storage.");
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/** Merge `changes` into the stored preferences. */
+export function savePreferences(changes: Partial<UserPreferences>): UserPreferences {
+  const next = { ...loadPreferences(), ...changes };
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,118 @@
+/**
+ * Regional cost extrapolation.
+ *
+ * Re-prices a questionnaire collected in one country/region for another,
+ * using the factor-of-production shares captured with every cost row and a
+ * table of labor / materials / machinery price indices:
+ *   AdjustedCost = Σ_k (FactorShare_k × Index_k(target) / Index_k(origin)) × BaseCost
+ *
+ * Implementation costs use the implementation distribution, maintenance
+ * segments the maintenance distribution, and each context constraint its own
+ * distribution. Revenues (NTFP, carbon) are left unchanged. The interaction
+ * adjustment keeps its share of the re-priced additive cost.
+ *
+ * The index table ships with bundled defaults and the analyst's edits are
+ * kept in local storage.
+ */
+
+import type { RestorationModel, FactorShares, PriceIndexEntry, ContextVariables } from "../types";
+import { DEFAULT_PRICE_INDICES, PRICE_INDEX_STORAGE_KEY } from "../constants";
+import { METHOD_KEYS } from "./cba";
+import { holdInteractionAdjustment } from "./computations";
+
+// ---------------------------------------------------------------------------
+// Index table persistence
+// ---------------------------------------------------------------------------
+
+/** Load the edited index table, or the bundled defaults when none is stored. */
+export function loadPriceIndices(): PriceIndexEntry[] {
+  try {
+    const raw = localStorage.getItem(PRICE_INDEX_STORAGE_KEY);
+    if (!raw) return DEFAULT_PRICE_INDICES.map((e) => ({ ...e }));
+    return JSON.parse(raw) as PriceIndexEntry[];
+  } catch {
+    console.warn("Failed to load price indices from local storage.");
+    return DEFAULT_PRICE_INDICES.map((e) => ({ ...e }));
+  }
+}
+
+/** Persist the edited index table. */
+export function savePriceIndices(table: PriceIndexEntry[]): void {
+  localStorage.setItem(PRICE_INDEX_STORAGE_KEY, JSON.stringify(table));
+}
+
+/** Drop the analyst's edits and return the bundled defaults. */
+export function resetPriceIndices(): PriceIndexEntry[] {
+  localStorage.removeItem(PRICE_INDEX_STORAGE_KEY);
+  return DEFAULT_PRICE_INDICES.map((e) => ({ ...e }));
+}
+
+/** Case-insensitive lookup of a region in the index table. */
+export function findPriceIndex(table: PriceIndexEntry[], region: string | undefined): PriceIndexEntry | undefined {
+  const key = (region ?? "").trim().toLowerCase();
+  if (!key) return undefined;
+  return table.find((e) => e.region.trim().toLowerCase() === key);
+}
+
+// ---------------------------------------------------------------------------
+// Re-pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Cost multiplier for one cost row: Σ_k share_k × target_k / origin_k.
+ * Returns 1 when the shares are empty, so rows without a distribution keep
+ * their original cost.
+ */
+export function repricingFactor(
+  shares: FactorShares | undefined,
+  origin: PriceIndexEntry,
+  target: PriceIndexEntry,
+): number {
+  const labor = Number(shares?.labor) || 0;
+  const materials = Number(shares?.materials) || 0;
+  const machinery = Number(shares?.machinery) || 0;
+  const total = labor + materials + machinery;
+  if (total <= 0) return 1;
+
+  const ratio = (k: "labor" | "materials" | "machinery") =>
+    origin[k] > 0 ? target[k] / origin[k] : 1;
+
+  return (labor * ratio("labor") + materials * ratio("materials") + machinery * ratio("machinery")) / total;
+}
+
+const CONTEXT_KEYS: (keyof ContextVariables)[] = [
+  "fireRisk", "grazingPressure", "invasiveSpeciesPressure", "pestControl",
+];
+
+/**
+ * Return a copy of `data` with every cost re-priced from `origin` to
+ * `target`. The country of the copy is set to the target region.
+ */
+export function repriceModel(
+  data: RestorationModel,
+  origin: PriceIndexEntry,
+  target: PriceIndexEntry,
+): RestorationModel {
+  const methodCosts = { ...data.methodCosts };
+  for (const mk of METHOD_KEYS) {
+    const m = methodCosts[mk];
+    if (!m) continue;
+    const implFactor = repricingFactor(m.implementationDistribution, origin, target);
+    const maintFactor = repricingFactor(m.maintenanceDistribution, origin, target);
+    methodCosts[mk] = {
+      ...m,
+      implementationCost: (m.implementationCost || 0) * implFactor,
+      maintenanceCost: (m.maintenanceCost || 0) * maintFactor,
+      maintenanceSegments: (m.maintenanceSegments ?? []).map((s) => ({ ...s, cost: s.cost * maintFactor })),
+    };
+  }
+
+  const contextVariables = { ...data.contextVariables };
+  for (const key of CONTEXT_KEYS) {
+    const c = contextVariables[key];
+    if (!c) continue;
+    contextVariables[key] = { ...c, cost: (c.cost || 0) * repricingFactor(c.distribution, origin, target) };
+  }
+
+  return holdInteractionAdjustment(data, { ...data, country: target.region, methodCosts, contextVariables });
+}
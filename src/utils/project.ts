@@ -0,0 +1,206 @@
+/**
+ * Project-level scaling of the per-hectare CBA.
+ *
+ * The project scenario gives, per method, the hectares implemented in each
+ * project year (planting cohorts). Every cohort follows the method's
+ * per-hectare cash flow from its planting year — cohort year t falls in
+ * project year (planting year + t) — so the project runs until the last
+ * cohort reaches the end of the time horizon. The context-constraint costs
+ * are scaled by the ramp-up factor of the project year they fall in (the
+ * constraint cost line only; its labor content is not re-split).
+ *
+ * Amounts are project totals in the currency of the model passed in.
+ * Discounting is to project year 1 at the default discount rate. The
+ * financing need is the deepest point of the cumulative financial (cash
+ * outlay) net flow.
+ */
+
+import type { RestorationModel, MethodType, PlantingCohort, ProjectScenario } from "../types";
+import { DEFAULT_PROJECT_SCENARIO } from "../constants";
+import { computeMethodCBA, resolveAssumptions, type MethodCBA } from "./cba";
+import { activeMethods } from "./report";
+
+export interface ProjectYearFlow {
+  projectYear: number;
+  /** Hectares implemented in the year, all methods */
+  areaPlanted: number;
+  /** Hectares implemented so far and still within their horizon */
+  areaManaged: number;
+  implCost: number;
+  maintCost: number;
+  /** Constraint costs after the ramp-up */
+  constraintCost: number;
+  /** Interaction adjustment, land opportunity cost and shadow labor adjustment */
+  otherCost: number;
+  /** Economic cost */
+  totalCost: number;
+  totalBenefit: number;
+  netFlow: number;
+  discountedNet: number;
+  /** Cash outlays */
+  financialCost: number;
+  financialNetFlow: number;
+  cumulativeFinancialNet: number;
+}
+
+export interface ProjectMethodResult {
+  methodId: MethodType;
+  methodLabel: string;
+  cohorts: PlantingCohort[];
+  /** Hectares implemented over the project */
+  area: number;
+  totalCost: number;
+  financialCost: number;
+  totalBenefit: number;
+  npv: number;
+  financialNpv: number;
+}
+
+export interface ProjectCBA {
+  years: ProjectYearFlow[];
+  methods: ProjectMethodResult[];
+  totalArea: number;
+  /** Total cash outlays over the project (undiscounted) */
+  totalBudget: number;
+  /** Total economic cost over the project (undiscounted) */
+  totalEconomicCost: number;
+  totalBenefits: number;
+  /** Economic NPV at `discountRate` */
+  npv: number;
+  financialNpv: number;
+  /** Largest cumulative cash deficit (≥ 0) */
+  peakFinancingNeed: number;
+  /** Project year of `peakFinancingNeed`; null when the cash position never goes negative */
+  peakFinancingYear: number | null;
+  /** Default discount rate (%) */
+  discountRate: number;
+}
+
+/** Scenario of the model with defaults filled in. */
+export function resolveProjectScenario(project?: Partial<ProjectScenario>): ProjectScenario {
+  return { ...DEFAULT_PROJECT_SCENARIO, ...project, plantings: project?.plantings ?? {} };
+}
+
+/** Cohorts of a method with an area, in planting order. */
+export function plantedCohorts(scenario: ProjectScenario, methodId: MethodType): PlantingCohort[] {
+  return (scenario.plantings[methodId] ?? [])
+    .filter((c) => (Number(c.area) || 0) > 0 && Number.isInteger(c.year) && c.year >= 1)
+    .sort((a, b) => a.year - b.year);
+}
+
+/** Share of the full constraint costs incurred in a project year (0–1). */
+export function constraintRampFactor(projectYear: number, scenario: ProjectScenario): number {
+  const years = Number(scenario.constraintRampYears) || 0;
+  if (years <= 0) return 1;
+  const start = Math.min(1, Math.max(0, (Number(scenario.constraintRampStartPct) || 0) / 100));
+  return Math.min(1, start + ((1 - start) * (projectYear - 1)) / years);
+}
+
+/**
+ * Project-level CBA of every active method with an implementation cost and
+ * at least one planting cohort. Null when nothing is planted.
+ */
+export function computeProjectCBA(data: RestorationModel): ProjectCBA | null {
+  const scenario = resolveProjectScenario(data.project);
+  const assumptions = resolveAssumptions(data.assumptions);
+  const rate = assumptions.defaultDiscountRate / 100;
+
+  const planted = activeMethods(data)
+    .map((mk) => {
+      const method = data.methodCosts?.[mk];
+      const cohorts = plantedCohorts(scenario, mk);
+      if (!method || !((method.implementationCost ?? 0) > 0) || cohorts.length === 0) return null;
+      try { return { cba: computeMethodCBA(mk, method, data, assumptions), cohorts }; } catch { return null; }
+    })
+    .filter((p): p is { cba: MethodCBA; cohorts: PlantingCohort[] } => p !== null);
+  if (planted.length === 0) return null;
+
+  const length = Math.max(...planted.map(({ cba, cohorts }) => cohorts[cohorts.length - 1].year + cba.cashFlows.length - 1));
+  const years: ProjectYearFlow[] = Array.from({ length }, (_, i) => ({
+    projectYear: i + 1,
+    areaPlanted: 0,
+    areaManaged: 0,
+    implCost: 0,
+    maintCost: 0,
+    constraintCost: 0,
+    otherCost: 0,
+    totalCost: 0,
+    totalBenefit: 0,
+    netFlow: 0,
+    discountedNet: 0,
+    financialCost: 0,
+    financialNetFlow: 0,
+    cumulativeFinancialNet: 0,
+  }));
+  const discount = (projectYear: number) => Math.pow(1 + rate, projectYear - 1);
+
+  const methods: ProjectMethodResult[] = planted.map(({ cba, cohorts }) => {
+    const result: ProjectMethodResult = {
+      methodId: cba.methodId as MethodType,
+      methodLabel: cba.methodLabel,
+      cohorts,
+      area: cohorts.reduce((s, c) => s + c.area, 0),
+      totalCost: 0,
+      financialCost: 0,
+      totalBenefit: 0,
+      npv: 0,
+      financialNpv: 0,
+    };
+    for (const { year: plantingYear, area } of cohorts) {
+      years[plantingYear - 1].areaPlanted += area;
+      for (const cf of cba.cashFlows) {
+        const y = years[plantingYear - 1 + cf.year];
+        const constraintCost = cf.constraintCost * constraintRampFactor(y.projectYear, scenario);
+        const rampDelta = constraintCost - cf.constraintCost;
+        const totalCost = (cf.totalCost + rampDelta) * area;
+        const financialCost = (cf.financialCost + rampDelta) * area;
+        const totalBenefit = cf.totalBenefit * area;
+
+        y.areaManaged += area;
+        y.implCost += cf.implCost * area;
+        y.maintCost += cf.maintCost * area;
+        y.constraintCost += constraintCost * area;
+        y.otherCost += (cf.adjustmentCost + cf.landCost + cf.shadowLaborAdjustment) * area;
+        y.totalCost += totalCost;
+        y.financialCost += financialCost;
+        y.totalBenefit += totalBenefit;
+
+        result.totalCost += totalCost;
+        result.financialCost += financialCost;
+        result.totalBenefit += totalBenefit;
+        result.npv += (totalBenefit - totalCost) / discount(y.projectYear);
+        result.financialNpv += (totalBenefit - financialCost) / discount(y.projectYear);
+      }
+    }
+    return result;
+  });
+
+  let cumulative = 0;
+  let peakFinancingNeed = 0;
+  let peakFinancingYear: number | null = null;
+  for (const y of years) {
+    y.netFlow = y.totalBenefit - y.totalCost;
+    y.discountedNet = y.netFlow / discount(y.projectYear);
+    y.financialNetFlow = y.totalBenefit - y.financialCost;
+    cumulative += y.financialNetFlow;
+    y.cumulativeFinancialNet = cumulative;
+    if (-cumulative > peakFinancingNeed) {
+      peakFinancingNeed = -cumulative;
+      peakFinancingYear = y.projectYear;
+    }
+  }
+
+  return {
+    years,
+    methods,
+    totalArea: methods.reduce((s, m) => s + m.area, 0),
+    totalBudget: years.reduce((s, y) => s + y.financialCost, 0),
+    totalEconomicCost: years.reduce((s, y) => s + y.totalCost, 0),
+    totalBenefits: years.reduce((s, y) => s + y.totalBenefit, 0),
+    npv: methods.reduce((s, m) => s + m.npv, 0),
+    financialNpv: methods.reduce((s, m) => s + m.financialNpv, 0),
+    peakFinancingNeed,
+    peakFinancingYear,
+    discountRate: assumptions.defaultDiscountRate,
+  };
+}
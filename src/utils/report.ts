@@ -0,0 +1,32 @@
+/**
+ * Results shared by the CBA panel and the printable questionnaire report.
+ *
+ * The CBA runs per hectare in the chosen result currency; results are then
+ * expressed per the questionnaire's area unit (see utils/area.ts).
+ */
+
+import type { RestorationModel, MethodType } from "../types";
+import { computeMethodCBA, METHOD_KEYS, type MethodCBA } from "./cba";
+import { modelInCurrency, type ResultCurrency } from "./currency";
+import { cbaPerAreaUnit } from "./area";
+
+/** Methods not marked as having no data, in tab order. */
+export function activeMethods(data: Pick<RestorationModel, "disabledMethods">): MethodType[] {
+  const disabled = new Set<string>(data.disabledMethods ?? []);
+  return METHOD_KEYS.filter((mk) => !disabled.has(mk));
+}
+
+/**
+ * CBA of every active method that has an implementation cost, in `target`
+ * currency and per area unit. Methods whose CBA fails are left out.
+ */
+export function computeActiveResults(data: RestorationModel, target: ResultCurrency): MethodCBA[] {
+  const model = modelInCurrency(data, target);
+  return activeMethods(model)
+    .map((mk) => {
+      const method = model.methodCosts?.[mk];
+      if (!method || !((method.implementationCost ?? 0) > 0)) return null;
+      try { return cbaPerAreaUnit(computeMethodCBA(mk, method, model), model.areaUnit); } catch { return null; }
+    })
+    .filter((r): r is MethodCBA => r !== null);
+}
@@ -0,0 +1,451 @@
+/**
+ * Declarative registry of cross-field consistency rules.
+ *
+ * Each rule has an id, a severity, the field paths it concerns, a message and
+ * a predicate over the RestorationModel. Rules run once per target of their
+ * scope: the model, each answered method, each context constraint or each
+ * maintenance segment of an answered method. Field paths may contain
+ * {method}, {constraint} and {segment}, filled from the target.
+ *
+ * Single-field checks (types, ranges) stay in the Zod schema; the rules cover
+ * what spans several fields. Method rules with severity "error" are exactly
+ * the completeness conditions of a method tab (see isMethodTabComplete).
+ */
+
+import type {
+  RestorationModel,
+  MethodType,
+  MethodCostEntry,
+  MethodCosts,
+  FactorShares,
+  ContextVariables,
+  ReferenceRange,
+} from "../types";
+import { INTERACTION_RESIDUAL_WARN_PCT } from "../constants";
+import { resolveHorizon, computeInteractionAdjustment, detectAccumulatedMaintenance } from "./computations";
+import { detectOutliers, describeOutlier, loadReferenceRanges, type OutlierFlag } from "./outliers";
+import { METHOD_KEYS } from "./cba";
+import { computeMachinery, machineryRate } from "./machinery";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RuleSeverity = "error" | "warning" | "info";
+
+export type RuleScope = "model" | "method" | "constraint" | "segment";
+
+/** What a rule is evaluated for; only the keys of its scope are set. */
+export interface RuleTarget {
+  methodId?: MethodType;
+  constraint?: keyof ContextVariables;
+  segmentIndex?: number;
+}
+
+/** Values computed once per run and shared by the rules. */
+interface RuleEnv {
+  horizon: number;
+  outliers: OutlierFlag[];
+}
+
+export interface ValidationRule {
+  id: string;
+  severity: RuleSeverity;
+  scope: RuleScope;
+  /** Affected field paths (templates) */
+  fields: string[];
+  /** True when the model satisfies the rule at this target */
+  passes: (d: RestorationModel, t: RuleTarget, env: RuleEnv) => boolean;
+  message: (d: RestorationModel, t: RuleTarget, env: RuleEnv) => string;
+}
+
+export interface RuleIssue {
+  ruleId: string;
+  severity: RuleSeverity;
+  /** Resolved field paths */
+  fields: string[];
+  message: string;
+  target: RuleTarget;
+}
+
+// ---------------------------------------------------------------------------
+// Predicates
+// ---------------------------------------------------------------------------
+
+const sharesSum = (s: Partial<FactorShares> | undefined) =>
+  (Number(s?.labor) || 0) + (Number(s?.machinery) || 0) + (Number(s?.materials) || 0);
+
+const sumsTo100 = (sum: number) => Math.abs(sum - 100) < 0.01;
+
+/** Filled (any share > 0) but not summing to 100 */
+const partialSum = (sum: number) => sum > 0 && !sumsTo100(sum);
+
+/**
+ * A method tab is "complete" when both implementation and maintenance costs
+ * are > 0 and both distributions sum to 100%.
+ */
+export function isMethodTabComplete(entry: MethodCostEntry | undefined): boolean {
+  if (!entry || !(entry.implementationCost > 0) || !(entry.maintenanceCost > 0)) return false;
+  return sumsTo100(sharesSum(entry.implementationDistribution)) && sumsTo100(sharesSum(entry.maintenanceDistribution));
+}
+
+/**
+ * The Export button stays disabled until at least one method tab is complete.
+ */
+export function atLeastOneMethodTabComplete(methodCosts: MethodCosts | undefined): boolean {
+  if (!methodCosts) return false;
+  return METHOD_KEYS.some((mk) => isMethodTabComplete(methodCosts[mk]));
+}
+
+const entryOf = (d: RestorationModel, t: RuleTarget) => d.methodCosts?.[t.methodId!];
+const constraintOf = (d: RestorationModel, t: RuleTarget) => d.contextVariables?.[t.constraint!];
+const segmentOf = (d: RestorationModel, t: RuleTarget) => entryOf(d, t)?.maintenanceSegments?.[t.segmentIndex!];
+const outlierAt = (env: RuleEnv, field: string) => env.outliers.find((f) => f.field === field);
+const machineryOf = (d: RestorationModel, t: RuleTarget) => computeMachinery(t.methodId!, entryOf(d, t), d);
+
+/** Any answered method or context constraint with a machinery share */
+const hasMachineryShare = (d: RestorationModel) =>
+  METHOD_KEYS.some((mk) => {
+    const e = !(d.disabledMethods ?? []).includes(mk) ? d.methodCosts?.[mk] : undefined;
+    return (Number(e?.implementationDistribution?.machinery) || 0) > 0 || (Number(e?.maintenanceDistribution?.machinery) || 0) > 0;
+  }) ||
+  Object.values(d.contextVariables ?? {}).some((c) => (Number(c?.cost) || 0) > 0 && (Number(c?.distribution?.machinery) || 0) > 0);
+
+const CONSTRAINT_LABELS: Record<keyof ContextVariables, string> = {
+  fireRisk: "Firebreak",
+  grazingPressure: "Fencing",
+  invasiveSpeciesPressure: "Weed control",
+  pestControl: "Pest control",
+};
+
+/** Rule checking that a labor split sums to 100% once filled. */
+function laborSumRule(id: string, label: string, fields: string[], pick: (d: RestorationModel) => number[]): ValidationRule {
+  const sum = (d: RestorationModel) => pick(d).reduce((s, v) => s + (Number(v) || 0), 0);
+  return {
+    id,
+    severity: "error",
+    scope: "model",
+    fields,
+    passes: (d) => !partialSum(sum(d)),
+    message: (d) => `${label} must sum to 100%. Currently: ${sum(d).toFixed(1)}%.`,
+  };
+}
+
+/** Rule flagging segments saved under a longer horizon that now run past the last year. */
+function beyondHorizonRule(
+  id: string,
+  key: "maintenanceSegments" | "ntfpProductivitySegments" | "ntfpRevenueSegments",
+): ValidationRule {
+  return {
+    id,
+    severity: "warning",
+    scope: "method",
+    fields: [`methodCosts.{method}.${key}`],
+    passes: (d, t, env) => !(entryOf(d, t)?.[key] ?? []).some((s) => s.yearTo > env.horizon),
+    message: (_d, _t, env) => `Some segments end after year ${env.horizon}. Shorten them or extend the time horizon.`,
+  };
+}
+
+/** Rule flagging a value outside its reference range (see utils/outliers). */
+function referenceRule(id: string, scope: RuleScope, field: string): ValidationRule {
+  const resolve = (t: RuleTarget) => resolveFields([field], t)[0];
+  return {
+    id,
+    severity: "warning",
+    scope,
+    fields: [field],
+    passes: (_d, t, env) => !outlierAt(env, resolve(t)),
+    message: (d, t, env) => {
+      const flag = outlierAt(env, resolve(t))!;
+      return `${flag.label}: ${describeOutlier(flag, d)}.`;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  // ── Model ────────────────────────────────────────────────────────────
+  {
+    id: "methods.none-complete",
+    severity: "error",
+    scope: "model",
+    fields: ["disabledMethods"],
+    passes: (d) =>
+      METHOD_KEYS.some((mk) => !(d.disabledMethods ?? []).includes(mk) && isMethodTabComplete(d.methodCosts?.[mk])),
+    message: () =>
+      "Complete at least one method tab (implementation + maintenance costs and distributions) before saving or exporting.",
+  },
+  laborSumRule(
+    "labor.implementation.sum",
+    "Implementation hired + non hired labour",
+    ["laborBreakdown.implementation.hiredLabor", "laborBreakdown.implementation.familyLabor"],
+    (d) => [d.laborBreakdown?.implementation?.hiredLabor, d.laborBreakdown?.implementation?.familyLabor].map(Number),
+  ),
+  laborSumRule(
+    "labor.maintenance.sum",
+    "Maintenance hired + non hired labour",
+    ["laborBreakdown.maintenance.hiredLabor", "laborBreakdown.maintenance.familyLabor"],
+    (d) => [d.laborBreakdown?.maintenance?.hiredLabor, d.laborBreakdown?.maintenance?.familyLabor].map(Number),
+  ),
+  laborSumRule(
+    "labor.gender.sum",
+    "Gender distribution",
+    ["laborBreakdown.genderDistribution.male", "laborBreakdown.genderDistribution.female", "laborBreakdown.genderDistribution.other"],
+    (d) => {
+      const g = d.laborBreakdown?.genderDistribution;
+      return [g?.male, g?.female, g?.other].map(Number);
+    },
+  ),
+  {
+    id: "labor.machinery-rate.missing",
+    severity: "info",
+    scope: "model",
+    fields: ["laborBreakdown.machineryUnitCostPerHour"],
+    passes: (d) => machineryRate(d) > 0 || !hasMachineryShare(d),
+    message: () => "Enter the machinery unit cost per hour to derive the machinery hours implied by the machinery shares.",
+  },
+
+  // ── Method (answered methods) ────────────────────────────────────────
+  {
+    id: "method.implementation.missing",
+    severity: "error",
+    scope: "method",
+    fields: ["methodCosts.{method}.implementationCost"],
+    passes: (d, t) => (Number(entryOf(d, t)?.implementationCost) || 0) > 0,
+    message: () => "Enter the implementation cost (year 1), or mark the method as having no data.",
+  },
+  {
+    id: "method.maintenance.missing",
+    severity: "error",
+    scope: "method",
+    fields: ["methodCosts.{method}.maintenanceSegments"],
+    passes: (d, t) => (Number(entryOf(d, t)?.maintenanceCost) || 0) > 0,
+    message: () => "Add at least one maintenance segment with a cost, or mark the method as having no data.",
+  },
+  {
+    id: "method.implementationDistribution.sum",
+    severity: "error",
+    scope: "method",
+    fields: [
+      "methodCosts.{method}.implementationDistribution.labor",
+      "methodCosts.{method}.implementationDistribution.machinery",
+      "methodCosts.{method}.implementationDistribution.materials",
+    ],
+    passes: (d, t) => sumsTo100(sharesSum(entryOf(d, t)?.implementationDistribution)),
+    message: (d, t) => {
+      const sum = sharesSum(entryOf(d, t)?.implementationDistribution);
+      return sum > 0
+        ? `The implementation cost distribution must sum to exactly 100%. Currently: ${sum.toFixed(1)}%.`
+        : "Please fill in the implementation cost distribution (must sum to 100%).";
+    },
+  },
+  {
+    id: "method.maintenanceDistribution.sum",
+    severity: "error",
+    scope: "method",
+    fields: [
+      "methodCosts.{method}.maintenanceDistribution.labor",
+      "methodCosts.{method}.maintenanceDistribution.machinery",
+      "methodCosts.{method}.maintenanceDistribution.materials",
+    ],
+    passes: (d, t) => sumsTo100(sharesSum(entryOf(d, t)?.maintenanceDistribution)),
+    message: (d, t) => {
+      const sum = sharesSum(entryOf(d, t)?.maintenanceDistribution);
+      return sum > 0
+        ? `The maintenance cost distribution must sum to exactly 100%. Currently: ${sum.toFixed(1)}%.`
+        : "Please fill in the maintenance cost distribution (must sum to 100%).";
+    },
+  },
+  beyondHorizonRule("method.maintenanceSegments.beyond-horizon", "maintenanceSegments"),
+  beyondHorizonRule("method.ntfpProductivitySegments.beyond-horizon", "ntfpProductivitySegments"),
+  beyondHorizonRule("method.ntfpRevenueSegments.beyond-horizon", "ntfpRevenueSegments"),
+  {
+    id: "method.interaction.large",
+    severity: "warning",
+    scope: "method",
+    fields: ["methodCosts.{method}.declaredUnfavorableCost"],
+    passes: (d, t) => !computeInteractionAdjustment(entryOf(d, t), d.contextVariables).isLarge,
+    message: () =>
+      `The declared unfavorable cost differs from the sum of its parts by more than ${INTERACTION_RESIDUAL_WARN_PCT}%. ` +
+      "Check for missing or double-counted constraint costs, or annual vs total maintenance confusion.",
+  },
+  {
+    id: "method.unfavorable.not-declared",
+    severity: "info",
+    scope: "method",
+    fields: ["methodCosts.{method}.declaredUnfavorableCost"],
+    passes: (d, t) => (Number(entryOf(d, t)?.declaredUnfavorableCost) || 0) > 0,
+    message: () => "No unfavorable-scenario cost declared; the interaction adjustment is taken as 0.",
+  },
+  {
+    id: "method.machinery.implementation",
+    severity: "warning",
+    scope: "method",
+    fields: ["methodCosts.{method}.implementationDistribution.machinery"],
+    passes: (d, t) => {
+      const m = machineryOf(d, t);
+      return !m || m.implementationHours <= m.maxHoursPerHa;
+    },
+    message: (d, t) => {
+      const m = machineryOf(d, t)!;
+      return `The implementation cost implies ${m.implementationHours.toFixed(0)} machinery hours per ha, more than the ${m.maxHoursPerHa} h/ha plausible for this method. Check the machinery share and the machinery unit cost.`;
+    },
+  },
+  {
+    id: "method.machinery.maintenance",
+    severity: "warning",
+    scope: "method",
+    fields: ["methodCosts.{method}.maintenanceDistribution.machinery"],
+    passes: (d, t) => {
+      const m = machineryOf(d, t);
+      return !m || m.peakMaintenanceHours <= m.maxHoursPerHa;
+    },
+    message: (d, t) => {
+      const m = machineryOf(d, t)!;
+      return `Maintenance in year ${m.peakMaintenanceYear} implies ${m.peakMaintenanceHours.toFixed(0)} machinery hours per ha, more than the ${m.maxHoursPerHa} h/ha plausible for this method. Check the machinery share and the machinery unit cost.`;
+    },
+  },
+  referenceRule("method.reference.implementation", "method", "methodCosts.{method}.implementationCost"),
+  referenceRule("method.reference.ntfp-price", "method", "methodCosts.{method}.ntfpPrice"),
+  referenceRule("method.reference.ntfp-productivity", "method", "methodCosts.{method}.ntfpProductivity"),
+
+  // ── Maintenance segments ─────────────────────────────────────────────
+  {
+    id: "segment.accumulated",
+    severity: "warning",
+    scope: "segment",
+    fields: ["methodCosts.{method}.maintenanceSegments.{segment}"],
+    passes: (d, t, env) =>
+      !detectAccumulatedMaintenance(entryOf(d, t), env.horizon, d).some((s) => s.segmentIndex === t.segmentIndex),
+    message: (d, t, env) =>
+      detectAccumulatedMaintenance(entryOf(d, t), env.horizon, d).find((s) => s.segmentIndex === t.segmentIndex)!.message,
+  },
+  referenceRule("segment.reference", "segment", "methodCosts.{method}.maintenanceSegments.{segment}"),
+  {
+    id: "segment.activity.missing",
+    severity: "info",
+    scope: "segment",
+    fields: ["methodCosts.{method}.maintenanceSegments.{segment}"],
+    passes: (d, t) => !!segmentOf(d, t)?.label,
+    message: (d, t) => {
+      const s = segmentOf(d, t)!;
+      return `The maintenance segment for years ${s.yearFrom}–${s.yearTo} has no activity selected.`;
+    },
+  },
+
+  // ── Context constraints ──────────────────────────────────────────────
+  {
+    id: "constraint.distribution.sum",
+    severity: "error",
+    scope: "constraint",
+    fields: [
+      "contextVariables.{constraint}.distribution.labor",
+      "contextVariables.{constraint}.distribution.machinery",
+      "contextVariables.{constraint}.distribution.materials",
+    ],
+    passes: (d, t) => !partialSum(sharesSum(constraintOf(d, t)?.distribution)),
+    message: (d, t) =>
+      `${CONSTRAINT_LABELS[t.constraint!]}: the distribution must sum to exactly 100%. ` +
+      `Currently: ${sharesSum(constraintOf(d, t)?.distribution).toFixed(1)}%.`,
+  },
+  {
+    id: "constraint.distribution.missing",
+    severity: "warning",
+    scope: "constraint",
+    fields: [
+      "contextVariables.{constraint}.distribution.labor",
+      "contextVariables.{constraint}.distribution.machinery",
+      "contextVariables.{constraint}.distribution.materials",
+    ],
+    passes: (d, t) => !((Number(constraintOf(d, t)?.cost) || 0) > 0) || sharesSum(constraintOf(d, t)?.distribution) > 0,
+    message: (_d, t) =>
+      `${CONSTRAINT_LABELS[t.constraint!]}: please fill in the cost distribution for this cost category (must sum to 100%).`,
+  },
+  {
+    id: "constraint.occurrences.missing",
+    severity: "warning",
+    scope: "constraint",
+    fields: ["contextVariables.{constraint}.occurrences"],
+    passes: (d, t) => !((Number(constraintOf(d, t)?.cost) || 0) > 0) || (Number(constraintOf(d, t)?.occurrences) || 0) > 0,
+    message: (_d, t) =>
+      `${CONSTRAINT_LABELS[t.constraint!]}: a unit cost is entered but the ${t.constraint === "grazingPressure" ? "fenced area" : "number of occurrences"} is 0, so it adds no cost.`,
+  },
+  referenceRule("constraint.reference", "constraint", "contextVariables.{constraint}.cost"),
+];
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function resolveFields(fields: string[], t: RuleTarget): string[] {
+  return fields.map((f) =>
+    f
+      .replace("{method}", t.methodId ?? "")
+      .replace("{constraint}", t.constraint ?? "")
+      .replace("{segment}", String(t.segmentIndex ?? "")),
+  );
+}
+
+function targetsOf(d: RestorationModel, scope: RuleScope): RuleTarget[] {
+  const disabled = new Set<string>(d.disabledMethods ?? []);
+  const methods = METHOD_KEYS.filter((mk) => !disabled.has(mk));
+  switch (scope) {
+    case "model":
+      return [{}];
+    case "method":
+      return methods.map((methodId) => ({ methodId }));
+    case "constraint":
+      return (Object.keys(CONSTRAINT_LABELS) as (keyof ContextVariables)[]).map((constraint) => ({ constraint }));
+    case "segment":
+      return methods.flatMap((methodId) =>
+        (d.methodCosts?.[methodId]?.maintenanceSegments ?? []).map((_, segmentIndex) => ({ methodId, segmentIndex })),
+      );
+  }
+}
+
+const SEVERITY_ORDER: Record<RuleSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Run `rules` over the model. Issues are ordered by severity, then by rule
+ * order in the registry.
+ */
+export function runRules(
+  d: RestorationModel,
+  rules: ValidationRule[] = VALIDATION_RULES,
+  ranges: ReferenceRange[] = loadReferenceRanges(),
+): RuleIssue[] {
+  const env: RuleEnv = { horizon: resolveHorizon(d.timeHorizon), outliers: detectOutliers(d, ranges) };
+  const issues: RuleIssue[] = [];
+  for (const rule of rules) {
+    for (const target of targetsOf(d, rule.scope)) {
+      if (rule.passes(d, target, env)) continue;
+      issues.push({
+        ruleId: rule.id,
+        severity: rule.severity,
+        fields: resolveFields(rule.fields, target),
+        message: rule.message(d, target, env),
+        target,
+      });
+    }
+  }
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/** Issues concerning `path` exactly. */
+export function issuesForField(issues: RuleIssue[], path: string): RuleIssue[] {
+  return issues.filter((i) => i.fields.includes(path));
+}
+
+/** Issues concerning any of `paths`, without duplicates. */
+export function issuesForFields(issues: RuleIssue[], paths: string[]): RuleIssue[] {
+  return issues.filter((i) => i.fields.some((f) => paths.includes(f)));
+}
+
+export function countBySeverity(issues: RuleIssue[]): Record<RuleSeverity, number> {
+  const counts: Record<RuleSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const i of issues) counts[i.severity] += 1;
+  return counts;
+}
@@ -0,0 +1,219 @@
+/**
+ * One-way (tornado) sensitivity analysis for the CBA.
+ *
+ * Each driver — implementation cost, each maintenance activity, the context
+ * constraints that occur, NTFP price and productivity, and the discount rate —
+ * is moved down and up by the same ±% while every other input stays at its
+ * point estimate. Drivers are ranked by the resulting NPV swing. The
+ * interaction adjustment moves with the costs (see holdInteractionAdjustment).
+ */
+
+import type { RestorationModel, MethodType, MethodCostEntry, ContextVariables } from "../types";
+import { computeMethodCBA, resolveAssumptions, ntfpRevenueFromPrice } from "./cba";
+import { holdInteractionAdjustment, maintenanceTotal } from "./computations";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TornadoDriver {
+  /** Stable driver id (e.g. "implementationCost", "maintenance:Weeding", "context:fireRisk") */
+  id: string;
+  label: string;
+  unit: string;
+  /** Point estimate of the driver (total or average for series inputs) */
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  /** NPV with the driver at its low / high value (US$/ha) */
+  npvLow: number;
+  npvHigh: number;
+  /** |npvHigh − npvLow| — the ranking key */
+  swing: number;
+}
+
+export interface TornadoResult {
+  methodId: string;
+  /** ± flex applied to every driver (%) */
+  flexPct: number;
+  /** NPV with every driver at its point estimate (US$/ha) */
+  baseNpv: number;
+  /** Drivers sorted by descending swing */
+  drivers: TornadoDriver[];
+}
+
+interface DriverDef {
+  id: string;
+  label: string;
+  unit: string;
+  baseValue: number;
+  /** Copy of `data` with the driver multiplied by `factor` */
+  apply: (data: RestorationModel, factor: number) => RestorationModel;
+}
+
+// ---------------------------------------------------------------------------
+// Driver definitions
+// ---------------------------------------------------------------------------
+
+const CONTEXT_DRIVERS: { key: keyof ContextVariables; label: string; unit: string }[] = [
+  { key: "fireRisk",                label: "Firebreak / Fire Risk",           unit: "US$/km" },
+  { key: "grazingPressure",         label: "Fencing / Grazing Pressure",      unit: "US$/km" },
+  { key: "invasiveSpeciesPressure", label: "Weed Control / Invasive Species", unit: "US$/ha" },
+  { key: "pestControl",             label: "Pest Control / Pest Infestation", unit: "US$/ha" },
+];
+
+function withMethod(
+  data: RestorationModel,
+  methodId: MethodType,
+  patch: (m: MethodCostEntry) => MethodCostEntry,
+): RestorationModel {
+  return { ...data, methodCosts: { ...data.methodCosts, [methodId]: patch(data.methodCosts[methodId]) } };
+}
+
+function listDrivers(methodId: MethodType, data: RestorationModel): DriverDef[] {
+  const method = data.methodCosts[methodId];
+  const assumptions = resolveAssumptions(data.assumptions);
+  const drivers: DriverDef[] = [
+    {
+      id: "implementationCost",
+      label: "Implementation cost",
+      unit: "US$/ha",
+      baseValue: method.implementationCost || 0,
+      apply: (d, f) => withMethod(d, methodId, (m) => ({ ...m, implementationCost: (m.implementationCost || 0) * f })),
+    },
+  ];
+
+  // One driver per maintenance activity; all segments of that activity move together.
+  const segments = method.maintenanceSegments ?? [];
+  const groups = new Map<string, number>();
+  for (const s of segments) {
+    const label = s.label || "Unlabelled";
+    groups.set(label, (groups.get(label) ?? 0) + s.cost * (s.yearTo - s.yearFrom + 1));
+  }
+  for (const [label, total] of groups) {
+    drivers.push({
+      id: `maintenance:${label}`,
+      label: `Maintenance — ${label}`,
+      unit: "US$/ha (total)",
+      baseValue: total,
+      // maintenanceCost is the segments' total, so it moves by the same amount.
+      apply: (d, f) => withMethod(d, methodId, (m) => {
+        const activity = (m.maintenanceSegments ?? []).filter((s) => (s.label || "Unlabelled") === label);
+        return {
+          ...m,
+          maintenanceCost: (m.maintenanceCost || 0) + maintenanceTotal(activity) * (f - 1),
+          maintenanceSegments: (m.maintenanceSegments ?? []).map((s) =>
+            (s.label || "Unlabelled") === label ? { ...s, cost: s.cost * f } : s),
+        };
+      }),
+    });
+  }
+  if (segments.length === 0 && (method.maintenanceCost || 0) > 0) {
+    drivers.push({
+      id: "maintenance:total",
+      label: "Maintenance cost",
+      unit: "US$/ha (total)",
+      baseValue: method.maintenanceCost,
+      apply: (d, f) => withMethod(d, methodId, (m) => ({ ...m, maintenanceCost: m.maintenanceCost * f })),
+    });
+  }
+
+  // Constraints that never occur do not enter the cash flow.
+  for (const c of CONTEXT_DRIVERS) {
+    const ctx = data.contextVariables?.[c.key];
+    if (!((ctx?.cost || 0) * (ctx?.occurrences || 0) > 0)) continue;
+    drivers.push({
+      id: `context:${c.key}`,
+      label: c.label,
+      unit: c.unit,
+      baseValue: ctx?.cost || 0,
+      apply: (d, f) => ({
+        ...d,
+        contextVariables: {
+          ...d.contextVariables,
+          [c.key]: { ...d.contextVariables[c.key], cost: (d.contextVariables[c.key]?.cost || 0) * f },
+        },
+      }),
+    });
+  }
+
+  // When the revenue is entered directly, price and productivity act on it.
+  if (methodId.endsWith("_ntfp")) {
+    const withRevenue = (m: MethodCostEntry, f: number): MethodCostEntry => ntfpRevenueFromPrice(method) ? m : {
+      ...m,
+      ntfpRevenue: (m.ntfpRevenue || 0) * f,
+      ntfpRevenueSegments: (m.ntfpRevenueSegments ?? []).map((s) => ({ ...s, revenue: s.revenue * f })),
+    };
+    drivers.push(
+      {
+        id: "ntfpPrice",
+        label: "NTFP price",
+        unit: "US$/kg",
+        baseValue: method.ntfpPrice || 0,
+        apply: (d, f) => withMethod(d, methodId, (m) => withRevenue({ ...m, ntfpPrice: (m.ntfpPrice || 0) * f }, f)),
+      },
+      {
+        id: "ntfpProductivity",
+        label: "NTFP productivity",
+        unit: "kg/ha/yr (average)",
+        baseValue: method.ntfpProductivity || 0,
+        apply: (d, f) => withMethod(d, methodId, (m) => withRevenue({
+          ...m,
+          ntfpProductivity: (m.ntfpProductivity || 0) * f,
+          ntfpProductivitySegments: (m.ntfpProductivitySegments ?? []).map((s) => ({ ...s, productivity: s.productivity * f })),
+        }, f)),
+      },
+    );
+  }
+
+  drivers.push({
+    id: "discountRate",
+    label: "Discount rate",
+    unit: "%",
+    baseValue: assumptions.defaultDiscountRate,
+    apply: (d, f) => ({
+      ...d,
+      assumptions: { ...assumptions, defaultDiscountRate: assumptions.defaultDiscountRate * f },
+    }),
+  });
+
+  return drivers;
+}
+
+// ---------------------------------------------------------------------------
+// Computation
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the one-way sensitivity for one method. The flex defaults to the
+ * model's `assumptions.sensitivityFlexPct`.
+ */
+export function computeTornado(methodId: MethodType, data: RestorationModel, flexPct?: number): TornadoResult {
+  const pct = flexPct ?? resolveAssumptions(data.assumptions).sensitivityFlexPct;
+  const down = Math.max(0, 1 - pct / 100);
+  const up = 1 + pct / 100;
+  const npvOf = (d: RestorationModel) => computeMethodCBA(methodId, d.methodCosts[methodId], d).npv;
+
+  const drivers = listDrivers(methodId, data).map((def): TornadoDriver => {
+    const npvLow = npvOf(holdInteractionAdjustment(data, def.apply(data, down)));
+    const npvHigh = npvOf(holdInteractionAdjustment(data, def.apply(data, up)));
+    return {
+      id: def.id,
+      label: def.label,
+      unit: def.unit,
+      baseValue: def.baseValue,
+      lowValue: def.baseValue * down,
+      highValue: def.baseValue * up,
+      npvLow,
+      npvHigh,
+      swing: Math.abs(npvHigh - npvLow),
+    };
+  });
+
+  return {
+    methodId,
+    flexPct: pct,
+    baseNpv: npvOf(data),
+    drivers: drivers.sort((a, b) => b.swing - a.swing),
+  };
+}
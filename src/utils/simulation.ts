@@ -0,0 +1,317 @@
+/**
+ * Monte Carlo uncertainty analysis for the CBA.
+ *
+ * Any cost, price or productivity input may carry an optional distribution
+ * (triangular min/mode/max, or a ±% band around the point estimate). Each run
+ * samples every uncertain input, re-runs `computeMethodCBA` and records NPV,
+ * IRR and BCR; the interaction adjustment keeps its share of the sampled
+ * costs. Runs use a seeded generator, so the same seed always
+ * reproduces the same results.
+ */
+
+import type {
+  RestorationModel,
+  MethodType,
+  MethodCostEntry,
+  InputDistribution,
+  UncertaintySettings,
+} from "../types";
+import { DEFAULT_UNCERTAINTY_SETTINGS } from "../constants";
+import { computeMethodCBA, resolveAssumptions, ntfpRevenueFromPrice } from "./cba";
+import { holdInteractionAdjustment } from "./computations";
+
+// ---------------------------------------------------------------------------
+// Uncertain inputs
+// ---------------------------------------------------------------------------
+
+export interface UncertainInput {
+  /** Key in UncertaintySettings.distributions */
+  id: string;
+  label: string;
+  unit: string;
+  /** Point estimate from the questionnaire / assumptions */
+  value: number;
+}
+
+const CONTEXT_INPUTS = [
+  { key: "fireRisk" as const, label: "Firebreak unit cost", unit: "US$/km" },
+  { key: "grazingPressure" as const, label: "Fencing unit cost", unit: "US$/km" },
+  { key: "invasiveSpeciesPressure" as const, label: "Weed control unit cost", unit: "US$/ha" },
+  { key: "pestControl" as const, label: "Pest control unit cost", unit: "US$/ha" },
+];
+
+/**
+ * Inputs of one method that can take a distribution. Series-based inputs
+ * (maintenance, NTFP productivity and revenue) are listed by their derived
+ * total/average and only when that value is positive, since a sample is
+ * applied by rescaling the segments.
+ */
+export function listUncertainInputs(methodId: MethodType, data: RestorationModel): UncertainInput[] {
+  const m = data.methodCosts?.[methodId];
+  const inputs: UncertainInput[] = [
+    { id: `${methodId}:implementationCost`, label: "Implementation cost", unit: "US$/ha", value: Number(m?.implementationCost) || 0 },
+  ];
+  if ((Number(m?.maintenanceCost) || 0) > 0) {
+    inputs.push({ id: `${methodId}:maintenanceCost`, label: "Maintenance cost (total)", unit: "US$/ha", value: Number(m?.maintenanceCost) });
+  }
+  if (methodId.endsWith("_ntfp")) {
+    inputs.push({ id: `${methodId}:ntfpPrice`, label: "NTFP price", unit: "US$/kg", value: Number(m?.ntfpPrice) || 0 });
+    if ((Number(m?.ntfpProductivity) || 0) > 0) {
+      inputs.push({ id: `${methodId}:ntfpProductivity`, label: "NTFP productivity (average)", unit: "kg/ha/yr", value: Number(m?.ntfpProductivity) });
+    }
+    if ((Number(m?.ntfpRevenue) || 0) > 0) {
+      inputs.push({ id: `${methodId}:ntfpRevenue`, label: "NTFP revenue (total)", unit: "US$/ha", value: Number(m?.ntfpRevenue) });
+    }
+  }
+  for (const c of CONTEXT_INPUTS) {
+    inputs.push({
+      id: `context:${c.key}`,
+      label: c.label,
+      unit: c.unit,
+      value: Number(data.contextVariables?.[c.key]?.cost) || 0,
+    });
+  }
+  inputs.push({
+    id: "carbonPrice",
+    label: "Carbon price",
+    unit: "US$/tCO2",
+    value: resolveAssumptions(data.assumptions).carbonPrice,
+  });
+  return inputs;
+}
+
+/** Ratio used to rescale a series when its total/average moves from `from` to `to`. */
+function scaleFactor(from: number, to: number): number {
+  return from > 0 ? to / from : 1;
+}
+
+/**
+ * When the NTFP revenue is entered directly rather than derived as
+ * productivity × price, a sampled price or productivity rescales it by `f`.
+ */
+function withRevenue(entered: MethodCostEntry, next: MethodCostEntry, f: number): MethodCostEntry {
+  if (ntfpRevenueFromPrice(entered)) return next;
+  return {
+    ...next,
+    ntfpRevenue: (next.ntfpRevenue ?? 0) * f,
+    ntfpRevenueSegments: (next.ntfpRevenueSegments ?? []).map((s) => ({ ...s, revenue: s.revenue * f })),
+  };
+}
+
+/**
+ * Return a copy of `data` with one input replaced by `value`.
+ * Only the touched branches are copied; the rest is shared.
+ */
+function applyInput(data: RestorationModel, methodId: MethodType, id: string, value: number): RestorationModel {
+  if (id === "carbonPrice") {
+    return { ...data, assumptions: { ...resolveAssumptions(data.assumptions), carbonPrice: value } };
+  }
+
+  if (id.startsWith("context:")) {
+    const key = id.slice("context:".length) as (typeof CONTEXT_INPUTS)[number]["key"];
+    return {
+      ...data,
+      contextVariables: {
+        ...data.contextVariables,
+        [key]: { ...data.contextVariables[key], cost: value },
+      },
+    };
+  }
+
+  const field = id.slice(methodId.length + 1);
+  const m = data.methodCosts[methodId];
+  let next: MethodCostEntry = m;
+  switch (field) {
+    case "implementationCost":
+      next = { ...m, implementationCost: value };
+      break;
+    case "maintenanceCost": {
+      const f = scaleFactor(m.maintenanceCost, value);
+      next = {
+        ...m,
+        maintenanceCost: value,
+        maintenanceSegments: (m.maintenanceSegments ?? []).map((s) => ({ ...s, cost: s.cost * f })),
+      };
+      break;
+    }
+    case "ntfpPrice":
+      next = withRevenue(m, { ...m, ntfpPrice: value }, scaleFactor(m.ntfpPrice ?? 0, value));
+      break;
+    case "ntfpProductivity": {
+      const f = scaleFactor(m.ntfpProductivity ?? 0, value);
+      next = withRevenue(m, {
+        ...m,
+        ntfpProductivity: value,
+        ntfpProductivitySegments: (m.ntfpProductivitySegments ?? []).map((s) => ({ ...s, productivity: s.productivity * f })),
+      }, f);
+      break;
+    }
+    case "ntfpRevenue": {
+      const f = scaleFactor(m.ntfpRevenue ?? 0, value);
+      next = {
+        ...m,
+        ntfpRevenue: value,
+        ntfpRevenueSegments: (m.ntfpRevenueSegments ?? []).map((s) => ({ ...s, revenue: s.revenue * f })),
+      };
+      break;
+    }
+  }
+  return { ...data, methodCosts: { ...data.methodCosts, [methodId]: next } };
+}
+
+// ---------------------------------------------------------------------------
+// Sampling
+// ---------------------------------------------------------------------------
+
+/** Mulberry32 — small, fast, seedable PRNG returning floats in [0, 1). */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Draw one value of an input from its distribution (never negative). */
+export function sampleInput(dist: InputDistribution, pointValue: number, rand: () => number): number {
+  const u = rand();
+  if (dist.kind === "band") {
+    const half = pointValue * (dist.pct / 100);
+    return Math.max(0, pointValue - half + u * 2 * half);
+  }
+  const { min, mode, max } = dist;
+  if (max <= min) return Math.max(0, min);
+  const c = (mode - min) / (max - min);
+  const v = u < c
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  return Math.max(0, v);
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+export interface PercentileSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationRun {
+  npv: number;
+  irr: number | null;
+  bcr: number;
+}
+
+export interface SimulationResult {
+  methodId: string;
+  iterations: number;
+  seed: number;
+  /** Ids of the inputs that were sampled */
+  sampledInputs: string[];
+  runs: SimulationRun[];
+  npv: PercentileSummary;
+  /** Null when no run produced an IRR */
+  irr: PercentileSummary | null;
+  bcr: PercentileSummary;
+  /** Share of runs with NPV > 0 (0–1) */
+  probNpvPositive: number;
+  npvHistogram: HistogramBin[];
+}
+
+const HISTOGRAM_BINS = 20;
+
+/** Linear-interpolated percentile of an ascending-sorted array. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function summarise(values: number[]): PercentileSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: sorted.reduce((s, v) => s + v, 0) / Math.max(1, sorted.length),
+  };
+}
+
+function histogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return [{ from: min, to: max, count: values.length }];
+  const width = (max - min) / bins;
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const v of values) {
+    result[Math.min(bins - 1, Math.floor((v - min) / width))].count += 1;
+  }
+  return result;
+}
+
+/** True when at least one input of the method carries a distribution. */
+export function hasDistributions(methodId: MethodType, data: RestorationModel): boolean {
+  const dists = data.uncertainty?.distributions ?? {};
+  return listUncertainInputs(methodId, data).some((i) => dists[i.id]);
+}
+
+/**
+ * Run the Monte Carlo simulation for one method.
+ * Settings default to the model's own `uncertainty` block.
+ */
+export function runSimulation(
+  methodId: MethodType,
+  data: RestorationModel,
+  settings: UncertaintySettings = { ...DEFAULT_UNCERTAINTY_SETTINGS, ...data.uncertainty },
+): SimulationResult {
+  const iterations = Math.max(1, Math.round(settings.iterations));
+  const seed = Math.round(settings.seed);
+  const rand = createRng(seed);
+  const uncertain = listUncertainInputs(methodId, data).filter((i) => settings.distributions[i.id]);
+
+  const runs: SimulationRun[] = [];
+  for (let n = 0; n < iterations; n++) {
+    let trial = data;
+    for (const input of uncertain) {
+      trial = applyInput(trial, methodId, input.id, sampleInput(settings.distributions[input.id], input.value, rand));
+    }
+    trial = holdInteractionAdjustment(data, trial);
+    const cba = computeMethodCBA(methodId, trial.methodCosts[methodId], trial);
+    runs.push({ npv: cba.npv, irr: cba.irr, bcr: cba.bcr });
+  }
+
+  const npvs = runs.map((r) => r.npv);
+  const irrs = runs.map((r) => r.irr).filter((v): v is number => v !== null);
+
+  return {
+    methodId,
+    iterations,
+    seed,
+    sampledInputs: uncertain.map((i) => i.id),
+    runs,
+    npv: summarise(npvs),
+    irr: irrs.length > 0 ? summarise(irrs) : null,
+    bcr: summarise(runs.map((r) => r.bcr)),
+    probNpvPositive: npvs.filter((v) => v > 0).length / npvs.length,
+    npvHistogram: histogram(npvs, HISTOGRAM_BINS),
+  };
+}
@@ -1,55 +1,154 @@
 /**
- * Local Storage persistence for saved Restoration Models.
- * This is a mock persistence layer — to be replaced by backend API calls
- * in a future iteration.
+ * Persistence of saved Restoration Models and the autosaved draft, through
+ * the storage adapter in modelStore.ts (IndexedDB, or localStorage as a
+ * fallback). This is a mock persistence layer — to be replaced by backend
+ * API calls in a future iteration.
+ *
+ * Also holds the Excel (.xlsx) export of the questionnaire and its import
+ * back into a model.
  */
 
 import type { RestorationModel } from "../types";
-import type { MethodType } from "../types";
-import { STORAGE_KEY } from "../constants";
+import type {
+  MethodType,
+  MethodCostEntry,
+  FactorShares,
+  YearRangeSegment,
+  CostSegment,
+  ProductivitySegment,
+  RevenueSegment,
+} from "../types";
+import { DEFAULT_FORM_VALUES, DEFAULT_CURRENCY_SETTINGS, CURRENT_SCHEMA_VERSION, getMaintenanceActivities } from "../constants";
+import { METHOD_KEYS } from "./cba";
+import { computeInteractionAdjustment } from "./computations";
+import { migrateModel } from "./migrations";
+import { getModelStore, type ModelDraft } from "./modelStore";
+import { detectOutliers, describeOutlier, outlierInEntryUnits } from "./outliers";
+import { toUSD, fromUSD, resolveCurrency } from "./currency";
+import { resolveAreaUnit } from "./area";
+import { runRules } from "./rules";
+import { t, translateMessage } from "./i18n";
 import * as XLSX from "xlsx";
 
 export interface SavedModel {
   id: string;
+  /** First save (ISO timestamp) */
   savedAt: string;
+  /** Last overwrite (ISO timestamp); absent until the entry is overwritten */
+  updatedAt?: string;
+  /** Library name; the panel falls back to ecosystem and country */
+  name?: string;
+  /** Free-form labels used to find entries in the library */
+  tags?: string[];
+  /** Format version of `data`; absent on entries saved before versioning */
+  schemaVersion?: number;
   data: RestorationModel;
 }
 
+/** Editable library metadata of an entry. */
+export type SavedModelMeta = Pick<SavedModel, "name" | "tags">;
+
 /**
- * Load all saved models from local storage.
+ * Load all saved models, oldest first.
  */
-export function loadModels(): SavedModel[] {
+export async function loadModels(): Promise<SavedModel[]> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    return JSON.parse(raw) as SavedModel[];
+    return await (await getModelStore()).list();
   } catch {
-    console.warn("Failed to load models from local storage.");
+    console.warn("Failed to load saved models.");
     return [];
   }
 }
 
 /**
- * Save a model to local storage. Generates a unique ID and timestamp.
+ * Save a model as a new entry. Generates a unique ID and timestamp and
+ * stamps the current schema version.
  */
-export function saveModel(data: RestorationModel): SavedModel {
-  const models = loadModels();
+export async function saveModel(data: RestorationModel, meta: SavedModelMeta = {}): Promise<SavedModel> {
   const entry: SavedModel = {
     id: crypto.randomUUID(),
     savedAt: new Date().toISOString(),
-    data,
+    ...meta,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
   };
-  models.push(entry);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+  await (await getModelStore()).put(entry);
+  return entry;
+}
+
+/** Look up one saved model; throws when it no longer exists. */
+async function findModel(id: string): Promise<SavedModel> {
+  const entry = (await loadModels()).find((m) => m.id === id);
+  if (!entry) throw new Error("The saved model no longer exists.");
   return entry;
 }
 
+/**
+ * Replace the data of an existing entry, keeping its id, name and tags.
+ */
+export async function overwriteModel(id: string, data: RestorationModel): Promise<SavedModel> {
+  const entry: SavedModel = {
+    ...(await findModel(id)),
+    updatedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
+  };
+  await (await getModelStore()).put(entry);
+  return entry;
+}
+
+/** Rename an entry and/or replace its tags. */
+export async function updateModelMeta(id: string, meta: SavedModelMeta): Promise<SavedModel> {
+  const entry: SavedModel = { ...(await findModel(id)), ...meta };
+  await (await getModelStore()).put(entry);
+  return entry;
+}
+
+/** Save a copy of an entry under a new id, named "<name> (copy)". */
+export async function duplicateModel(id: string, name: string): Promise<SavedModel> {
+  const source = await findModel(id);
+  return saveModel(source.data, { name: `${name} (copy)`, tags: source.tags });
+}
+
 /**
  * Delete a saved model by ID.
  */
-export function deleteModel(id: string): void {
-  const models = loadModels().filter((m) => m.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+export async function deleteModel(id: string): Promise<void> {
+  await (await getModelStore()).remove(id);
+}
+
+/** Delete several saved models. */
+export async function deleteModels(ids: string[]): Promise<void> {
+  const store = await getModelStore();
+  for (const id of ids) await store.remove(id);
+}
+
+// ---------------------------------------------------------------------------
+// Autosaved draft
+// ---------------------------------------------------------------------------
+
+/** The autosaved draft, or null when there is none. */
+export async function loadDraft(): Promise<ModelDraft | null> {
+  try {
+    return await (await getModelStore()).getDraft();
+  } catch {
+    console.warn("Failed to load the autosaved draft.");
+    return null;
+  }
+}
+
+/** Replace the draft with the current form values. */
+export async function saveDraft(data: RestorationModel): Promise<void> {
+  await (await getModelStore()).putDraft({
+    savedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
+  });
+}
+
+/** Drop the draft (after it was restored, discarded or the form was reset). */
+export async function clearDraft(): Promise<void> {
+  await (await getModelStore()).clearDraft();
 }
 
 // ---------------------------------------------------------------------------
@@ -57,8 +156,8 @@ export function deleteModel(id: string): void {
 // ---------------------------------------------------------------------------
 //
 // Fixed-column structure with one row per answered (non-disabled) method.
-// 231 columns total, ordered to follow the questionnaire flow:
-//   A. Identification (shared, 7)
+// 240 columns total, ordered to follow the questionnaire flow:
+//   A. Identification, entry currency, area unit + schema version (shared, 13)
 //   D. Method ID (per row, 2)
 //   E. Implementation costs (per row, 4)
 //   G. Maintenance segments (per row, 150) — Strategy B grouped by activity
@@ -68,17 +167,17 @@ export function deleteModel(id: string): void {
 //   J. NTFP revenue segments (per row, 15 — empty for non-NTFP)
 //   B. Context constraints (shared, 23)
 //   C. Labor breakdown (shared, 10)
+//   K. Unfavorable scenario: declared, computed, interaction adjustment (per row, 3)
+//
+// Amounts are written in US$ (the *_USD columns and the unit costs), converted
+// with the questionnaire's exchange rate; Currency and ExchangeRate_per_USD
+// record how to get back to the amounts as entered. Area-denominated values
+// are always per hectare; AreaUnit only records the unit shown on the form.
 //
 // Only fields the user can actually fill in the active questionnaire form are
 // exported. Computed totals (maintenanceCost, ntfpProductivity, ntfpRevenue)
 // and orphan model fields without UI bindings are intentionally excluded.
 
-const METHOD_KEYS: MethodType[] = [
-  "anr_30", "anr_30_ntfp",
-  "seed_dispersal", "seed_dispersal_ntfp",
-  "seedling_planting", "seedling_planting_ntfp",
-];
-
 const METHOD_LABELS: Record<string, string> = {
   anr_30: "ANR/50% Enrichment",
   anr_30_ntfp: "ANR/50% Enrichment (NTFP)",
@@ -131,8 +230,9 @@ function costKmToHa(costPerKm: number, areaHa: number): Cell {
 // Block builders — one per section letter (A, B, C, D, E, F, G, H, I, J)
 // ---------------------------------------------------------------------------
 
-/** A. Identification (shared). */
+/** A. Identification, entry currency and area unit (shared). */
 function blockA_identification(d: RestorationModel): Row {
+  const currency = resolveCurrency(d.currency);
   return {
     Respondent: str(d.respondentName),
     User:       str(d.userName),
@@ -141,6 +241,12 @@ function blockA_identification(d: RestorationModel): Row {
     Ecosystem:  str(d.ecosystem),
     Country:    str(d.country),
     City:       str(d.city),
+    TimeHorizon_yr: num(d.timeHorizon),
+    Currency:             currency.code,
+    ExchangeRate_per_USD: currency.exchangeRate,
+    ExchangeRate_Date:    currency.rateDate,
+    AreaUnit:       resolveAreaUnit(d.areaUnit).id,
+    SchemaVersion:  CURRENT_SCHEMA_VERSION,
   };
 }
 
@@ -314,6 +420,20 @@ function blockC_laborBreakdown(d: RestorationModel): Row {
   };
 }
 
+/**
+ * K. Unfavorable scenario (per row): the declared total, the additive
+ * estimate and the derived interaction adjustment. Declared and adjustment
+ * are empty when the respondent did not declare a total.
+ */
+function blockK_unfavorableScenario(d: RestorationModel, mk: MethodType): Row {
+  const adj = computeInteractionAdjustment(d.methodCosts?.[mk], d.contextVariables);
+  return {
+    Unfav_Declared_USD:  adj.declared ?? "",
+    Unfav_Computed_USD:  adj.computed,
+    Interaction_Adj_USD: adj.declared !== null ? adj.adjustment : "",
+  };
+}
+
 /** Per-method block sequence: D → E → G → F → H → I → J. */
 function buildPerMethodCols(d: RestorationModel, mk: MethodType): Row {
   return {
@@ -328,14 +448,15 @@ function buildPerMethodCols(d: RestorationModel, mk: MethodType): Row {
 }
 
 /**
- * Build one row per answered (non-disabled) method.
- * Final column order: A → D → E → G → F → H → I → J → B → C.
+ * Build one row per answered (non-disabled) method, amounts in US$.
+ * Final column order: A → D → E → G → F → H → I → J → B → C → K.
  */
-function buildExcelRows(d: RestorationModel): Row[] {
+function buildExcelRows(entered: RestorationModel): Row[] {
+  const a = blockA_identification(entered);
+  const d = toUSD(entered);
   const disabled = new Set(d.disabledMethods ?? []);
   const answered = METHOD_KEYS.filter((mk) => !disabled.has(mk));
 
-  const a = blockA_identification(d);
   const b = blockB_contextConstraints(d);
   const c = blockC_laborBreakdown(d);
 
@@ -344,7 +465,9 @@ function buildExcelRows(d: RestorationModel): Row[] {
   if (answered.length === 0) {
     const emptyMethod = buildPerMethodCols(d, METHOD_KEYS[0]);
     for (const k of Object.keys(emptyMethod)) emptyMethod[k] = "";
-    return [{ ...a, ...emptyMethod, ...b, ...c }];
+    const emptyK = blockK_unfavorableScenario(d, METHOD_KEYS[0]);
+    for (const k of Object.keys(emptyK)) emptyK[k] = "";
+    return [{ ...a, ...emptyMethod, ...b, ...c, ...emptyK }];
   }
 
   return answered.map((mk) => ({
@@ -352,6 +475,7 @@ function buildExcelRows(d: RestorationModel): Row[] {
     ...buildPerMethodCols(d, mk),
     ...b,
     ...c,
+    ...blockK_unfavorableScenario(d, mk),
   }));
 }
 
@@ -361,7 +485,8 @@ function buildExcelRows(d: RestorationModel): Row[] {
 //
 // Field-by-field documentation. Repeating segment columns are collapsed into
 // a single descriptive row each (per user request); every other column gets
-// its own line.
+// its own line. Rows are written in English and translated on export; the
+// Field column names Data columns and is never translated.
 
 type MetaRow = [string, string, string, string]; // Field | Unit | Section | Description
 
@@ -374,6 +499,12 @@ const METADATA_ROWS: MetaRow[] = [
   ["Ecosystem", "text", "1. Identification", "Ecosystem type (e.g., Tropical Forest, Cerrado, Mangrove)"],
   ["Country", "text", "1. Identification", "Country where the project is located"],
   ["City", "text", "1. Identification", "City where the project is located"],
+  ["TimeHorizon_yr", "years", "1. Identification", "Analysis time horizon (10–50 years); all segment years fall within it"],
+  ["Currency", "ISO 4217 code", "1. Identification", "Currency the respondent entered the amounts in (USD = entered in US dollars)"],
+  ["ExchangeRate_per_USD", "local units per US$", "1. Identification", "Exchange rate used to convert the entered amounts to the US$ columns; amount as entered = US$ value × rate"],
+  ["ExchangeRate_Date", "YYYY-MM-DD", "1. Identification", "Date the exchange rate was taken on"],
+  ["AreaUnit", "ha | acre | manzana | tarea", "1. Identification", "Area unit the respondent used on the form; every area-denominated column is still per hectare"],
+  ["SchemaVersion", "integer", "1. Identification", "Format version of the questionnaire that wrote this file; used to migrate older files on import"],
   // 2. Method
   ["Method", "text", "2. Method", "Display label of the restoration method for this row"],
   ["Method_ID", "text", "2. Method", "Internal ID of the method (anr_30, anr_30_ntfp, seed_dispersal, seed_dispersal_ntfp, seedling_planting, seedling_planting_ntfp)"],
@@ -423,7 +554,7 @@ const METADATA_ROWS: MetaRow[] = [
   // 9. Context Constraints — Fire
   ["Fire_UnitCost_USD_km", "US$/km", "9. Context Constraints", "Firebreak unit cost per linear km"],
   ["Fire_UnitCost_USD_ha", "US$/ha", "9. Context Constraints", "Firebreak unit cost per hectare (derived from US$/km via firebreak area)"],
-  ["Fire_Occur", "count", "9. Context Constraints", "Number of times firebreak activity occurs over the 20-year horizon"],
+  ["Fire_Occur", "count", "9. Context Constraints", "Number of times firebreak activity occurs over the time horizon"],
   ["Fire_FirebreakArea_ha", "ha", "9. Context Constraints", "Average total area that needs fire breaks"],
   ["Fire_Labor_%", "%", "9. Context Constraints", "Share of firebreak cost attributable to labor (sum to 100%)"],
   ["Fire_Mater_%", "%", "9. Context Constraints", "Share of firebreak cost attributable to materials"],
@@ -437,13 +568,13 @@ const METADATA_ROWS: MetaRow[] = [
   ["Fence_Mach_%", "%", "9. Context Constraints", "Share of fencing cost attributable to machinery/services"],
   // 9 — Weed
   ["Weed_UnitCost", "US$/ha", "9. Context Constraints", "Invasive species / weed control unit cost"],
-  ["Weed_Occur", "count", "9. Context Constraints", "Number of weed-control occurrences over the 20-year horizon"],
+  ["Weed_Occur", "count", "9. Context Constraints", "Number of weed-control occurrences over the time horizon"],
   ["Weed_Labor_%", "%", "9. Context Constraints", "Share of weed-control cost attributable to labor"],
   ["Weed_Mater_%", "%", "9. Context Constraints", "Share of weed-control cost attributable to materials"],
   ["Weed_Mach_%", "%", "9. Context Constraints", "Share of weed-control cost attributable to machinery/services"],
   // 9 — Pest
   ["Pest_UnitCost", "US$/ha", "9. Context Constraints", "Pest control unit cost"],
-  ["Pest_Occur", "count", "9. Context Constraints", "Number of pest-control occurrences over the 20-year horizon"],
+  ["Pest_Occur", "count", "9. Context Constraints", "Number of pest-control occurrences over the time horizon"],
   ["Pest_Labor_%", "%", "9. Context Constraints", "Share of pest-control cost attributable to labor"],
   ["Pest_Mater_%", "%", "9. Context Constraints", "Share of pest-control cost attributable to materials"],
   ["Pest_Mach_%", "%", "9. Context Constraints", "Share of pest-control cost attributable to machinery/services"],
@@ -458,13 +589,17 @@ const METADATA_ROWS: MetaRow[] = [
   ["Gender_Male_%", "%", "10. Labor Breakdown", "Share of total labor hours contributed by male workers (sum to 100% with Female/Other)"],
   ["Gender_Female_%", "%", "10. Labor Breakdown", "Share of total labor hours contributed by female workers"],
   ["Gender_Other_%", "%", "10. Labor Breakdown", "Share of total labor hours contributed by non-binary / other workers"],
+  // 11. Unfavorable scenario
+  ["Unfav_Declared_USD", "US$/ha", "11. Unfavorable Scenario", "Respondent's declared total cost of the unfavorable scenario over the horizon. Empty when not declared"],
+  ["Unfav_Computed_USD", "US$/ha", "11. Unfavorable Scenario", "Additive estimate: implementation + maintenance + Σ(constraint unit cost × occurrences)"],
+  ["Interaction_Adj_USD", "US$/ha", "11. Unfavorable Scenario", "Interaction adjustment = declared − computed; carried into the CBA cash flows. Empty when not declared"],
 ];
 
-/** Build the Metadata worksheet. */
+/** Build the Metadata worksheet in the active language. */
 function buildMetadataSheet(): XLSX.WorkSheet {
   const aoa: (string | number)[][] = [
-    ["Field", "Unit", "Section", "Description"],
-    ...METADATA_ROWS,
+    [t("Field"), t("Unit"), t("Section"), t("Description")],
+    ...METADATA_ROWS.map(([field, unit, section, description]) => [field, t(unit), t(section), t(description)]),
   ];
   const ws = XLSX.utils.aoa_to_sheet(aoa);
   // Column widths for readability
@@ -472,17 +607,439 @@ function buildMetadataSheet(): XLSX.WorkSheet {
   return ws;
 }
 
+/** Build the Flagged Fields worksheet: values outside their reference range. */
+function buildFlaggedFieldsSheet(data: RestorationModel): XLSX.WorkSheet {
+  // In the entry currency and area unit, like the form
+  const flags = detectOutliers(data).map((f) => ({ ...outlierInEntryUnits(f, data), message: describeOutlier(f, data) }));
+  const aoa: (string | number)[][] = [
+    [t("Field"), t("Form Path"), t("Value"), t("Unit"), t("Expected Min"), t("Expected Max"), t("Deviation (%)"), t("Range Source"), t("Message")],
+    ...flags.map((f) => [
+      translateMessage(f.label),
+      f.field,
+      f.value,
+      f.unit,
+      f.range.min,
+      f.range.max,
+      Number(f.deviationPct.toFixed(1)),
+      f.range.ecosystem !== "*" ? `${t(f.range.source)} (${t(f.range.ecosystem)})` : t(f.range.source),
+      translateMessage(f.message),
+    ]),
+  ];
+  if (flags.length === 0) aoa.push([t("No field outside its reference range")]);
+  const ws = XLSX.utils.aoa_to_sheet(aoa);
+  ws["!cols"] = [{ wch: 48 }, { wch: 40 }, { wch: 12 }, { wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 26 }, { wch: 90 }];
+  return ws;
+}
+
 /**
- * Export model data as an .xlsx file with two sheets:
- *   - "Data": one row per answered method, fixed 230-column layout
+ * Build the Validation worksheet: every issue raised by the rule registry,
+ * then the Data cells that did not survive the round trip (see
+ * verifyXlsxRoundTrip).
+ */
+function buildValidationSheet(data: RestorationModel, roundTrip: string[]): XLSX.WorkSheet {
+  const issues = runRules(data);
+  const aoa: string[][] = [
+    [t("Rule ID"), t("Severity"), t("Fields"), t("Message")],
+    ...issues.map((i) => [i.ruleId, t(i.severity), i.fields.join(", "), translateMessage(i.message)]),
+    ...roundTrip.map((diff) => ["export.round-trip", t("warning"), "Data", diff]),
+  ];
+  if (issues.length === 0 && roundTrip.length === 0) aoa.push([t("No issue found by the consistency rules")]);
+  const ws = XLSX.utils.aoa_to_sheet(aoa);
+  ws["!cols"] = [{ wch: 40 }, { wch: 10 }, { wch: 60 }, { wch: 110 }];
+  return ws;
+}
+
+/**
+ * Export model data as an .xlsx file with four sheets:
+ *   - "Data": one row per answered method, fixed 240-column layout (amounts in US$)
  *   - "Metadata": one descriptive row per field/group
+ *   - "Flagged Fields": values outside the reference ranges (utils/outliers)
+ *   - "Validation": issues from the consistency rules (utils/rules)
  * Column structure is fixed regardless of which methods or segments were filled.
+ * Every export is checked to import back unchanged; cells that do not are
+ * listed on the Validation sheet.
+ * Headers and descriptions of the last three sheets follow the active
+ * language; sheet names and Data column IDs are the same in every language
+ * so that exported files can be merged and imported back.
  */
 export function exportToXlsxFile(data: RestorationModel, filename: string): void {
   const rows = buildExcelRows(data);
+  const roundTrip = verifyXlsxRoundTrip(data);
+  if (roundTrip.length > 0) console.warn("The exported Data sheet does not import back unchanged:", roundTrip);
   const dataSheet = XLSX.utils.json_to_sheet(rows);
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, dataSheet, "Data");
   XLSX.utils.book_append_sheet(wb, buildMetadataSheet(), "Metadata");
+  XLSX.utils.book_append_sheet(wb, buildFlaggedFieldsSheet(data), "Flagged Fields");
+  XLSX.utils.book_append_sheet(wb, buildValidationSheet(data, roundTrip), "Validation");
   XLSX.writeFile(wb, filename);
 }
+
+// ---------------------------------------------------------------------------
+// Excel (.xlsx) Import
+// ---------------------------------------------------------------------------
+//
+// Reads the "Data" sheet written by `exportToXlsxFile` back into a model.
+// Shared blocks (A, B, C) are taken from the first row; each row with a
+// Method_ID rebuilds that method, and methods without a row are disabled.
+// Derived columns (Fire/Fence US$/ha, Unfav_Computed_USD,
+// Interaction_Adj_USD) are recomputed rather than read. Maintenance segments
+// get the canonical activity label of their prefix block, and fields whose
+// cell is empty keep their default value. Amounts are read in US$ and
+// converted back to the currency recorded in Currency / ExchangeRate_per_USD
+// (US$ when those columns are absent). Workbooks without a SchemaVersion
+// column are version 0 and go through the same migrations as JSON files.
+
+export interface XlsxImportIssue {
+  /** Worksheet row number (1 = header), or null for sheet-level issues */
+  row: number | null;
+  /** Column header, or null when the issue concerns the whole row/sheet */
+  column: string | null;
+  message: string;
+}
+
+export interface XlsxImportResult {
+  data: RestorationModel;
+  /** Methods that had a row in the sheet */
+  importedMethods: MethodType[];
+  issues: XlsxImportIssue[];
+}
+
+/** Columns recomputed on export — accepted on import but never read. */
+const DERIVED_COLUMNS = new Set([
+  "Fire_UnitCost_USD_ha",
+  "Fence_UnitCost_USD_ha",
+  "Unfav_Computed_USD",
+  "Interaction_Adj_USD",
+]);
+
+/** Cell reader for one worksheet row; malformed cells are reported and read as empty. */
+function cellReader(cells: Record<string, unknown>, rowNum: number, issues: XlsxImportIssue[]) {
+  const raw = (col: string): unknown => {
+    const v = cells[col];
+    return typeof v === "string" ? v.trim() : v;
+  };
+  return {
+    isEmpty: (col: string) => raw(col) == null || raw(col) === "",
+    num: (col: string): number | undefined => {
+      const v = raw(col);
+      if (v == null || v === "") return undefined;
+      const n = typeof v === "number" ? v : Number(v);
+      if (!Number.isFinite(n)) {
+        issues.push({ row: rowNum, column: col, message: `"${String(v)}" is not a number; cell ignored` });
+        return undefined;
+      }
+      return n;
+    },
+    str: (col: string): string | undefined => {
+      const v = raw(col);
+      return v == null || v === "" ? undefined : String(v);
+    },
+  };
+}
+
+type CellReader = ReturnType<typeof cellReader>;
+
+/** Read a labor / materials / machinery triple, keeping defaults for empty cells. */
+function readShares(r: CellReader, prefix: string, base: FactorShares): FactorShares {
+  return {
+    labor:     r.num(`${prefix}_Labor_%`) ?? base.labor,
+    materials: r.num(`${prefix}_Mater_%`) ?? base.materials,
+    machinery: r.num(`${prefix}_Mach_%`)  ?? base.machinery,
+  };
+}
+
+/** Segment span in years (inclusive), as used by the timeline builders. */
+function span(s: YearRangeSegment): number {
+  return Math.max(0, s.yearTo - s.yearFrom + 1);
+}
+
+/** Read one From/To/value segment slot; null when the slot is empty. */
+function readSlot(r: CellReader, from: string, to: string, value: string, rowNum: number, issues: XlsxImportIssue[]) {
+  if (r.isEmpty(from) && r.isEmpty(to) && r.isEmpty(value)) return null;
+  const yearFrom = r.num(from);
+  const yearTo = r.num(to);
+  const v = r.num(value);
+  if (yearFrom === undefined || yearTo === undefined || v === undefined) {
+    issues.push({ row: rowNum, column: from, message: "Incomplete segment (From, To and value are all required); segment skipped" });
+    return null;
+  }
+  return { yearFrom, yearTo, value: v };
+}
+
+/** A. Identification (shared). */
+function parseBlockA(r: CellReader, d: RestorationModel): void {
+  d.respondentName     = r.str("Respondent") ?? d.respondentName;
+  d.userName           = r.str("User")       ?? d.userName;
+  d.dataCollectionDate = r.str("Date")       ?? d.dataCollectionDate;
+  d.gpsCoordinates     = r.str("GPS")        ?? d.gpsCoordinates;
+  d.ecosystem          = r.str("Ecosystem")  ?? d.ecosystem;
+  d.country            = r.str("Country")    ?? d.country;
+  d.city               = r.str("City")       ?? d.city;
+  d.timeHorizon        = r.num("TimeHorizon_yr") ?? d.timeHorizon;
+  const code = (r.str("Currency") ?? "USD").toUpperCase();
+  d.currency = {
+    code,
+    exchangeRate: code === "USD" ? 1 : r.num("ExchangeRate_per_USD") ?? 0,
+    rateDate: r.str("ExchangeRate_Date") ?? "",
+  };
+  d.areaUnit           = resolveAreaUnit(r.str("AreaUnit")).id;
+  d.schemaVersion      = r.num("SchemaVersion") ?? 0;
+}
+
+/** D–K. Per-method blocks of one row. */
+function parseMethodRow(
+  r: CellReader,
+  mk: MethodType,
+  base: MethodCostEntry,
+  rowNum: number,
+  issues: XlsxImportIssue[],
+): MethodCostEntry {
+  const m: MethodCostEntry = { ...base };
+
+  // E. Implementation
+  m.implementationCost = r.num("Impl_USD") ?? m.implementationCost;
+  m.implementationDistribution = readShares(r, "Impl", m.implementationDistribution);
+
+  // G. Maintenance segments, in block order
+  const activities = getMaintenanceActivities(mk);
+  const maintenanceSegments: CostSegment[] = [];
+  MAINT_ACTIVITIES.forEach((a, ai) => {
+    for (let i = 1; i <= MAINT_SEGMENT_SLOTS; i++) {
+      const p = `Maint_${a.prefix}_Seg${i}`;
+      const slot = readSlot(r, `${p}_From_yr`, `${p}_To_yr`, `${p}_Annual_USD`, rowNum, issues);
+      if (!slot) continue;
+      maintenanceSegments.push({
+        id: `xlsx-${mk}-${a.prefix}-${i}`,
+        label: activities[ai],
+        yearFrom: slot.yearFrom,
+        yearTo: slot.yearTo,
+        cost: slot.value,
+      });
+    }
+  });
+  m.maintenanceSegments = maintenanceSegments;
+  m.maintenanceCost = maintenanceSegments.reduce((s, seg) => s + span(seg) * seg.cost, 0);
+
+  // F. Maintenance distribution
+  m.maintenanceDistribution = readShares(r, "Maint", m.maintenanceDistribution);
+
+  // H–J. NTFP (only meaningful for NTFP methods; the export leaves them empty otherwise)
+  if (mk.endsWith("_ntfp")) {
+    m.ntfpSpecies = r.str("NTFP_Species") ?? m.ntfpSpecies;
+    m.ntfpPrice = r.num("NTFP_Price_USD_kg") ?? m.ntfpPrice;
+
+    const prod: ProductivitySegment[] = [];
+    const rev: RevenueSegment[] = [];
+    for (let i = 1; i <= PROD_REV_SEGMENT_SLOTS; i++) {
+      const ps = readSlot(r, `ProdSeg${i}_From_yr`, `ProdSeg${i}_To_yr`, `ProdSeg${i}_kg_ha_yr`, rowNum, issues);
+      if (ps) prod.push({ id: `xlsx-${mk}-prod-${i}`, label: "", yearFrom: ps.yearFrom, yearTo: ps.yearTo, productivity: ps.value });
+      const rs = readSlot(r, `RevSeg${i}_From_yr`, `RevSeg${i}_To_yr`, `RevSeg${i}_Annual_USD`, rowNum, issues);
+      if (rs) rev.push({ id: `xlsx-${mk}-rev-${i}`, label: "", yearFrom: rs.yearFrom, yearTo: rs.yearTo, revenue: rs.value });
+    }
+    // Timeline builders number their segments by position.
+    m.ntfpProductivitySegments = prod.map((s, i) => ({ ...s, label: `Segment ${i + 1}` }));
+    m.ntfpRevenueSegments = rev.map((s, i) => ({ ...s, label: `Segment ${i + 1}` }));
+
+    const years = prod.reduce((s, seg) => s + span(seg), 0);
+    m.ntfpProductivity = years > 0 ? prod.reduce((s, seg) => s + span(seg) * seg.productivity, 0) / years : 0;
+    m.ntfpRevenue = rev.reduce((s, seg) => s + span(seg) * seg.revenue, 0);
+    m.ntfpDataMode = rev.length > 0 && prod.length === 0 ? "revenue" : "production";
+  } else {
+    const stray = ["NTFP_Species", "NTFP_Price_USD_kg", "ProdSeg1_From_yr", "RevSeg1_From_yr"].find((c) => !r.isEmpty(c));
+    if (stray) {
+      issues.push({ row: rowNum, column: stray, message: `NTFP data on a non-NTFP method (${mk}); ignored` });
+    }
+  }
+
+  // K. Unfavorable scenario (computed and adjustment columns are derived)
+  m.declaredUnfavorableCost = r.num("Unfav_Declared_USD") ?? m.declaredUnfavorableCost;
+
+  return m;
+}
+
+/** B. Context constraints (shared). US$/ha columns are derived and not read. */
+function parseBlockB(r: CellReader, d: RestorationModel): void {
+  const cv = d.contextVariables;
+  const fire = cv.fireRisk;
+  cv.fireRisk = {
+    ...fire,
+    cost:          r.num("Fire_UnitCost_USD_km")  ?? fire.cost,
+    occurrences:   r.num("Fire_Occur")            ?? fire.occurrences,
+    firebreakArea: r.num("Fire_FirebreakArea_ha") ?? fire.firebreakArea,
+    distribution:  readShares(r, "Fire", fire.distribution),
+  };
+  const fence = cv.grazingPressure;
+  cv.grazingPressure = {
+    ...fence,
+    cost:         r.num("Fence_UnitCost_USD_km") ?? fence.cost,
+    occurrences:  r.num("Fence_Area_ha")         ?? fence.occurrences,
+    distribution: readShares(r, "Fence", fence.distribution),
+  };
+  const weed = cv.invasiveSpeciesPressure;
+  cv.invasiveSpeciesPressure = {
+    ...weed,
+    cost:         r.num("Weed_UnitCost") ?? weed.cost,
+    occurrences:  r.num("Weed_Occur")    ?? weed.occurrences,
+    distribution: readShares(r, "Weed", weed.distribution),
+  };
+  const pest = cv.pestControl;
+  cv.pestControl = {
+    ...pest,
+    cost:         r.num("Pest_UnitCost") ?? pest.cost,
+    occurrences:  r.num("Pest_Occur")    ?? pest.occurrences,
+    distribution: readShares(r, "Pest", pest.distribution),
+  };
+}
+
+/** C. Labor breakdown (shared). */
+function parseBlockC(r: CellReader, d: RestorationModel): void {
+  const lb = d.laborBreakdown;
+  d.laborBreakdown = {
+    ...lb,
+    implementation: {
+      hiredLabor:  r.num("Impl_Hired_%")  ?? lb.implementation.hiredLabor,
+      familyLabor: r.num("Impl_Family_%") ?? lb.implementation.familyLabor,
+    },
+    maintenance: {
+      hiredLabor:  r.num("Maint_Hired_%")  ?? lb.maintenance.hiredLabor,
+      familyLabor: r.num("Maint_Family_%") ?? lb.maintenance.familyLabor,
+    },
+    hiredLaborCostPerDay:      r.num("HiredLaborCost_USD_day")   ?? lb.hiredLaborCostPerDay,
+    machineryUnitCostPerHour:  r.num("MachineryUnitCost_USD_hr") ?? lb.machineryUnitCostPerHour,
+    landLeaseCostPerHaPerYear: r.num("LandLease_USD_ha_yr")      ?? lb.landLeaseCostPerHaPerYear,
+    genderDistribution: {
+      male:   r.num("Gender_Male_%")   ?? lb.genderDistribution.male,
+      female: r.num("Gender_Female_%") ?? lb.genderDistribution.female,
+      other:  r.num("Gender_Other_%")  ?? lb.genderDistribution.other,
+    },
+  };
+}
+
+/** Resolve a row's method from Method_ID, falling back to the display label. */
+function resolveMethodKey(r: CellReader): MethodType | undefined {
+  const id = r.str("Method_ID");
+  if (id && (METHOD_KEYS as string[]).includes(id)) return id as MethodType;
+  const label = r.str("Method");
+  return METHOD_KEYS.find((mk) => METHOD_LABELS[mk] === label);
+}
+
+/**
+ * Parse the rows of a Data sheet (as produced by `buildExcelRows`) into a
+ * model, migrated to the current schema version. Unmapped columns, malformed
+ * cells, unknown or duplicate methods, shared values that differ between rows
+ * and migration notes are returned as issues. Throws only when the sheet
+ * comes from a newer format version.
+ */
+export function parseExcelRows(rows: Record<string, unknown>[]): XlsxImportResult {
+  const data = structuredClone(DEFAULT_FORM_VALUES) as unknown as RestorationModel;
+  const issues: XlsxImportIssue[] = [];
+  const importedMethods: MethodType[] = [];
+
+  const template = buildExcelRows(data)[0];
+  const known = new Set(Object.keys(template));
+  const sharedCols = [
+    ...Object.keys(blockA_identification(data)),
+    ...Object.keys(blockB_contextConstraints(data)),
+    ...Object.keys(blockC_laborBreakdown(data)),
+  ].filter((c) => !DERIVED_COLUMNS.has(c));
+
+  const present = new Set(rows.flatMap((row) => Object.keys(row)));
+  for (const col of present) {
+    if (!known.has(col)) issues.push({ row: 1, column: col, message: "Unmapped column; ignored" });
+  }
+
+  if (rows.length === 0) {
+    issues.push({ row: null, column: null, message: "The Data sheet has no rows" });
+  }
+
+  rows.forEach((cells, i) => {
+    const rowNum = i + 2;
+    const r = cellReader(cells, rowNum, issues);
+
+    if (i === 0) {
+      parseBlockA(r, data);
+      parseBlockB(r, data);
+      parseBlockC(r, data);
+    } else {
+      const norm = (v: unknown) => (v == null ? "" : String(v).trim());
+      for (const col of sharedCols) {
+        if (norm(cells[col]) !== norm(rows[0][col])) {
+          issues.push({ row: rowNum, column: col, message: "Differs from the first row; the first row's value is used" });
+        }
+      }
+    }
+
+    const mk = resolveMethodKey(r);
+    if (!mk) {
+      if (!r.isEmpty("Method_ID") || !r.isEmpty("Method")) {
+        issues.push({ row: rowNum, column: "Method_ID", message: `Unknown method "${r.str("Method_ID") ?? r.str("Method")}"; row skipped` });
+      }
+      return;
+    }
+    if (importedMethods.includes(mk)) {
+      issues.push({ row: rowNum, column: "Method_ID", message: `Duplicate row for ${mk}; row skipped` });
+      return;
+    }
+    importedMethods.push(mk);
+    data.methodCosts[mk] = parseMethodRow(r, mk, data.methodCosts[mk], rowNum, issues);
+  });
+
+  data.disabledMethods = METHOD_KEYS.filter((mk) => !importedMethods.includes(mk));
+  if (importedMethods.length > 0 && !importedMethods.includes(data.methodType)) {
+    data.methodType = importedMethods[0];
+  }
+
+  // Amounts were read in US$: restore them in the currency they were entered in
+  const currency = data.currency ?? DEFAULT_CURRENCY_SETTINGS;
+  if (currency.code !== "USD" && !(currency.exchangeRate > 0)) {
+    issues.push({ row: 2, column: "ExchangeRate_per_USD", message: `No exchange rate for ${currency.code}; amounts kept in US$` });
+  }
+  const entered = currency.exchangeRate > 0 ? fromUSD(data, currency) : { ...data, currency: { ...DEFAULT_CURRENCY_SETTINGS } };
+
+  const migrated = migrateModel(entered);
+  for (const c of migrated.changes) {
+    issues.push({ row: null, column: c.path, message: `Migrated to format v${c.version}: ${c.message}` });
+  }
+
+  return { data: migrated.data, importedMethods, issues };
+}
+
+/**
+ * Read an exported workbook (.xlsx contents) back into a model.
+ * Throws when the workbook has no "Data" sheet or a newer format version.
+ */
+export function importFromXlsx(buffer: ArrayBuffer): XlsxImportResult {
+  const wb = XLSX.read(buffer, { type: "array" });
+  const sheet = wb.Sheets["Data"];
+  if (!sheet) throw new Error("The workbook has no \"Data\" sheet.");
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
+  return parseExcelRows(rows);
+}
+
+/**
+ * Round-trip check: export `data` to an in-memory workbook, import it back
+ * and export again. Returns one message per cell that changed; an empty
+ * list means the Data sheet survives the round trip unchanged.
+ */
+export function verifyXlsxRoundTrip(data: RestorationModel): string[] {
+  const before = buildExcelRows(data);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(before), "Data");
+  const buffer = XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+  const after = buildExcelRows(importFromXlsx(buffer).data);
+
+  const diffs: string[] = [];
+  if (after.length !== before.length) {
+    diffs.push(`Row count: exported ${before.length}, re-imported ${after.length}`);
+  }
+  before.forEach((row, i) => {
+    for (const col of Object.keys(row)) {
+      const a = row[col];
+      const b = after[i]?.[col];
+      const same = typeof a === "number" && typeof b === "number" ? Math.abs(a - b) < 1e-9 : a === b;
+      if (!same) diffs.push(`Row ${i + 2}, ${col}: exported "${a}", re-imported "${b ?? ""}"`);
+    }
+  });
+  return diffs;
+}